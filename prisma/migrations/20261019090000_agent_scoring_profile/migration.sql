@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "languages" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "registered_offices" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "agent_itineraries" (
+    "id" TEXT NOT NULL,
+    "agent_id" TEXT NOT NULL,
+    "city_id" TEXT NOT NULL,
+    "plan_date" TEXT NOT NULL,
+    "stops" JSONB NOT NULL,
+    "unscheduled" JSONB NOT NULL,
+    "totals" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "plan_reason" TEXT NOT NULL,
+    "generated_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "agent_itineraries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_itineraries_agent_id_plan_date_key" ON "agent_itineraries"("agent_id", "plan_date");
+
+-- CreateIndex
+CREATE INDEX "agent_itineraries_city_id_plan_date_idx" ON "agent_itineraries"("city_id", "plan_date");
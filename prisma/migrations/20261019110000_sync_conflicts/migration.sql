@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "sync_logs" ADD COLUMN "entity_id" TEXT,
+ADD COLUMN "outcome" TEXT NOT NULL DEFAULT 'applied',
+ADD COLUMN "resolution" TEXT,
+ADD COLUMN "conflict" JSONB;
+
+-- CreateIndex
+CREATE INDEX "sync_logs_entity_type_entity_id_idx" ON "sync_logs"("entity_type", "entity_id");
+
+-- CreateTable
+CREATE TABLE "sync_entity_versions" (
+    "id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "vector" JSONB NOT NULL,
+    "observed_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_entity_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_entity_versions_entity_type_entity_id_key" ON "sync_entity_versions"("entity_type", "entity_id");
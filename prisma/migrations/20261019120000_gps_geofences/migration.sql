@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "gps_evidence" ADD COLUMN "verification" TEXT,
+ADD COLUMN "geofence_label" TEXT,
+ADD COLUMN "distance_meters" DOUBLE PRECISION,
+ADD COLUMN "travel_speed_kmph" DOUBLE PRECISION,
+ADD COLUMN "flags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "verified_at" TIMESTAMP(3),
+ADD COLUMN "review_status" TEXT,
+ADD COLUMN "reviewed_by" TEXT,
+ADD COLUMN "reviewed_at" TIMESTAMP(3),
+ADD COLUMN "review_notes" TEXT;
+
+-- CreateIndex
+CREATE INDEX "gps_evidence_review_status_idx" ON "gps_evidence"("review_status");
+
+-- CreateTable
+CREATE TABLE "geofences" (
+    "id" TEXT NOT NULL,
+    "city_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "office_name" TEXT,
+    "service_instance_id" TEXT,
+    "label" TEXT NOT NULL,
+    "center_lat" DOUBLE PRECISION NOT NULL,
+    "center_lng" DOUBLE PRECISION NOT NULL,
+    "radius_meters" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geofences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "geofences_city_id_kind_idx" ON "geofences"("city_id", "kind");
+
+-- CreateIndex
+CREATE INDEX "geofences_service_instance_id_idx" ON "geofences"("service_instance_id");
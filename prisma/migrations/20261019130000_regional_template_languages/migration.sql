@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "template_language" ADD VALUE 'mr';
+ALTER TYPE "template_language" ADD VALUE 'kn';
+ALTER TYPE "template_language" ADD VALUE 'ta';
+ALTER TYPE "template_language" ADD VALUE 'te';
+ALTER TYPE "template_language" ADD VALUE 'bn';
+ALTER TYPE "template_language" ADD VALUE 'gu';
+
+-- AlterTable
+ALTER TABLE "user_notification_preferences" ALTER COLUMN "preferred_language" DROP NOT NULL,
+ALTER COLUMN "preferred_language" DROP DEFAULT;
+
+-- Users with no preference now follow their city's default language; cities
+-- without one keep the Hindi that used to be the column default
+UPDATE "cities"
+SET "config_data" = jsonb_set("config_data", '{defaultLanguage}', '"hi"')
+WHERE jsonb_typeof("config_data") = 'object' AND NOT ("config_data" ? 'defaultLanguage');
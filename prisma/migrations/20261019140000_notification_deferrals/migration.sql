@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "user_notification_preferences" ADD COLUMN "quiet_hours_enabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "quiet_hours_start" TEXT NOT NULL DEFAULT '22:00',
+ADD COLUMN "quiet_hours_end" TEXT NOT NULL DEFAULT '08:00',
+ADD COLUMN "timezone" TEXT,
+ADD COLUMN "digest_mode" TEXT NOT NULL DEFAULT 'per_service';
+
+-- CreateTable
+CREATE TABLE "deferred_notifications" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "template_code" TEXT NOT NULL,
+    "channel" TEXT,
+    "event_type" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "service_instance_id" TEXT,
+    "context_data" JSONB NOT NULL,
+    "reason" TEXT NOT NULL,
+    "digest_key" TEXT,
+    "release_at" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "released_at" TIMESTAMP(3),
+    "notification_log_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deferred_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deferred_notifications_status_release_at_idx" ON "deferred_notifications"("status", "release_at");
+
+-- CreateIndex
+CREATE INDEX "deferred_notifications_user_id_status_digest_key_idx" ON "deferred_notifications"("user_id", "status", "digest_key");
@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "notification_channel" ADD VALUE 'email';
+
+-- AlterTable
+ALTER TABLE "notification_templates" ADD COLUMN "html_body" TEXT;
+
+-- AlterTable
+ALTER TABLE "user_notification_preferences" ADD COLUMN "service_updates_email" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "payment_email" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "document_email" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "email_bounces" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "email" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "bounce_type" TEXT,
+    "message_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_bounces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_bounces_email_type_created_at_idx" ON "email_bounces"("email", "type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "email_bounces_user_id_idx" ON "email_bounces"("user_id");
@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "tax_invoice_series" (
+    "id" TEXT NOT NULL,
+    "series_key" TEXT NOT NULL,
+    "document_type" TEXT NOT NULL,
+    "financial_year" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_invoice_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_invoices" (
+    "id" TEXT NOT NULL,
+    "document_type" TEXT NOT NULL,
+    "invoice_number" TEXT NOT NULL,
+    "series_id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "payment_id" TEXT,
+    "cash_receipt_id" TEXT,
+    "refund_id" TEXT,
+    "original_invoice_id" TEXT,
+    "franchise_id" TEXT,
+    "city_id" TEXT NOT NULL,
+    "customer_id" TEXT,
+    "builder_id" TEXT,
+    "supply_type" TEXT NOT NULL,
+    "supplier_gstin" TEXT NOT NULL,
+    "supplier_legal_name" TEXT NOT NULL,
+    "supplier_address" TEXT NOT NULL,
+    "supplier_state_code" TEXT NOT NULL,
+    "buyer_name" TEXT NOT NULL,
+    "buyer_gstin" TEXT,
+    "buyer_state_code" TEXT,
+    "place_of_supply" TEXT NOT NULL,
+    "sac_code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "gst_rate" DECIMAL(5,2) NOT NULL,
+    "taxable_value_paise" INTEGER NOT NULL,
+    "cgst_paise" INTEGER NOT NULL DEFAULT 0,
+    "sgst_paise" INTEGER NOT NULL DEFAULT 0,
+    "igst_paise" INTEGER NOT NULL DEFAULT 0,
+    "total_paise" INTEGER NOT NULL,
+    "foreign_currency_code" TEXT,
+    "lut_number" TEXT,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoice_series_series_key_document_type_financial_year_key" ON "tax_invoice_series"("series_key", "document_type", "financial_year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoices_invoice_number_key" ON "tax_invoices"("invoice_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoices_cash_receipt_id_key" ON "tax_invoices"("cash_receipt_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoices_refund_id_key" ON "tax_invoices"("refund_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoices_series_id_sequence_key" ON "tax_invoices"("series_id", "sequence");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_payment_id_idx" ON "tax_invoices"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_city_id_issued_at_idx" ON "tax_invoices"("city_id", "issued_at");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_customer_id_idx" ON "tax_invoices"("customer_id");
+
+-- One tax invoice per payment
+CREATE UNIQUE INDEX "tax_invoices_payment_invoice_key" ON "tax_invoices"("payment_id") WHERE "document_type" = 'invoice';
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "tax_invoice_series"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_original_invoice_id_fkey" FOREIGN KEY ("original_invoice_id") REFERENCES "tax_invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "base_code" TEXT NOT NULL,
+    "party_id" TEXT,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "source_type" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "city_id" TEXT,
+    "service_request_id" TEXT,
+    "description" TEXT NOT NULL,
+    "posted_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_lines" (
+    "id" TEXT NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "debit_paise" INTEGER NOT NULL DEFAULT 0,
+    "credit_paise" INTEGER NOT NULL DEFAULT 0,
+    "city_id" TEXT,
+    "posted_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_code_key" ON "ledger_accounts"("code");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_base_code_idx" ON "ledger_accounts"("base_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_source_type_source_id_event_key" ON "journal_entries"("source_type", "source_id", "event");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_city_id_posted_at_idx" ON "journal_entries"("city_id", "posted_at");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_service_request_id_idx" ON "journal_entries"("service_request_id");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_entry_id_idx" ON "journal_lines"("entry_id");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_account_id_posted_at_idx" ON "journal_lines"("account_id", "posted_at");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_city_id_posted_at_idx" ON "journal_lines"("city_id", "posted_at");
+
+-- AddForeignKey
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "journal_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
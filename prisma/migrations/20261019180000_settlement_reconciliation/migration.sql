@@ -0,0 +1,94 @@
+-- CreateTable
+CREATE TABLE "settlement_reports" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "imported_by" TEXT NOT NULL,
+    "line_count" INTEGER NOT NULL DEFAULT 0,
+    "matched_count" INTEGER NOT NULL DEFAULT 0,
+    "discrepancy_count" INTEGER NOT NULL DEFAULT 0,
+    "gross_paise" INTEGER NOT NULL DEFAULT 0,
+    "refunds_paise" INTEGER NOT NULL DEFAULT 0,
+    "adjustments_paise" INTEGER NOT NULL DEFAULT 0,
+    "fees_paise" INTEGER NOT NULL DEFAULT 0,
+    "tax_paise" INTEGER NOT NULL DEFAULT 0,
+    "net_paise" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlement_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settlement_lines" (
+    "id" TEXT NOT NULL,
+    "report_id" TEXT NOT NULL,
+    "settlement_id" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "razorpay_payment_id" TEXT,
+    "amount_paise" INTEGER NOT NULL,
+    "fee_paise" INTEGER NOT NULL DEFAULT 0,
+    "tax_paise" INTEGER NOT NULL DEFAULT 0,
+    "settlement_utr" TEXT,
+    "settled_at" TIMESTAMP(3),
+    "payment_id" TEXT,
+    "refund_id" TEXT,
+    "match_status" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settlement_discrepancies" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "entity_type" TEXT NOT NULL,
+    "razorpay_entity_id" TEXT NOT NULL,
+    "payment_id" TEXT,
+    "refund_id" TEXT,
+    "settlement_line_id" TEXT,
+    "expected_paise" INTEGER,
+    "settled_paise" INTEGER,
+    "resolution" TEXT,
+    "resolution_note" TEXT,
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "settlement_discrepancies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_razorpay_payment_id_idx" ON "payments"("razorpay_payment_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_reports_created_at_idx" ON "settlement_reports"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlement_lines_entity_type_entity_id_settlement_id_key" ON "settlement_lines"("entity_type", "entity_id", "settlement_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_report_id_idx" ON "settlement_lines"("report_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_settlement_id_idx" ON "settlement_lines"("settlement_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_payment_id_idx" ON "settlement_lines"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_lines_razorpay_payment_id_idx" ON "settlement_lines"("razorpay_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlement_discrepancies_type_razorpay_entity_id_key" ON "settlement_discrepancies"("type", "razorpay_entity_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_discrepancies_status_type_idx" ON "settlement_discrepancies"("status", "type");
+
+-- CreateIndex
+CREATE INDEX "settlement_discrepancies_payment_id_idx" ON "settlement_discrepancies"("payment_id");
+
+-- AddForeignKey
+ALTER TABLE "settlement_lines" ADD CONSTRAINT "settlement_lines_report_id_fkey" FOREIGN KEY ("report_id") REFERENCES "settlement_reports"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
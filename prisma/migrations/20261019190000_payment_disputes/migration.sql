@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "payment_disputes" (
+    "id" TEXT NOT NULL,
+    "razorpay_dispute_id" TEXT NOT NULL,
+    "razorpay_payment_id" TEXT NOT NULL,
+    "payment_id" TEXT,
+    "service_instance_id" TEXT,
+    "service_request_id" TEXT,
+    "customer_id" TEXT,
+    "city_id" TEXT,
+    "amount_paise" INTEGER NOT NULL,
+    "amount_deducted_paise" INTEGER NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "reason_code" TEXT,
+    "phase" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "respond_by" TIMESTAMP(3),
+    "service_halted" BOOLEAN NOT NULL DEFAULT false,
+    "evidence_pack" JSONB,
+    "evidence_assembled_at" TIMESTAMP(3),
+    "evidence_submitted_at" TIMESTAMP(3),
+    "evidence_submitted_by" TEXT,
+    "last_alerted_at" TIMESTAMP(3),
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_disputes_razorpay_dispute_id_key" ON "payment_disputes"("razorpay_dispute_id");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_status_respond_by_idx" ON "payment_disputes"("status", "respond_by");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_payment_id_idx" ON "payment_disputes"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_city_id_status_idx" ON "payment_disputes"("city_id", "status");
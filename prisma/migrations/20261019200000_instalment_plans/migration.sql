@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "instalment_plans" (
+    "id" TEXT NOT NULL,
+    "service_instance_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "city_id" TEXT NOT NULL,
+    "service_fee_paise" BIGINT NOT NULL,
+    "govt_fee_estimate_paise" BIGINT NOT NULL,
+    "total_paise" BIGINT NOT NULL,
+    "late_fee_basis_points" INTEGER NOT NULL DEFAULT 0,
+    "late_fee_grace_days" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "service_halted" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "instalment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "instalments" (
+    "id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "service_fee_portion_paise" BIGINT NOT NULL,
+    "govt_fee_paise" BIGINT NOT NULL DEFAULT 0,
+    "amount_paise" BIGINT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "trigger_step" INTEGER,
+    "due_days" INTEGER NOT NULL,
+    "gate_step" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "due_at" TIMESTAMP(3),
+    "late_fee_paise" BIGINT NOT NULL DEFAULT 0,
+    "payment_id" TEXT,
+    "last_reminder_at" TIMESTAMP(3),
+    "paid_at" TIMESTAMP(3),
+    "waived_by" TEXT,
+    "waived_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "instalments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "instalment_plans_service_instance_id_key" ON "instalment_plans"("service_instance_id");
+
+-- CreateIndex
+CREATE INDEX "instalment_plans_city_id_status_idx" ON "instalment_plans"("city_id", "status");
+
+-- CreateIndex
+CREATE INDEX "instalment_plans_customer_id_idx" ON "instalment_plans"("customer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "instalments_plan_id_sequence_key" ON "instalments"("plan_id", "sequence");
+
+-- CreateIndex
+CREATE INDEX "instalments_status_due_at_idx" ON "instalments"("status", "due_at");
+
+-- CreateIndex
+CREATE INDEX "instalments_payment_id_idx" ON "instalments"("payment_id");
+
+-- AddForeignKey
+ALTER TABLE "instalments" ADD CONSTRAINT "instalments_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "instalment_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
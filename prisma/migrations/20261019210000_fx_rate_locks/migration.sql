@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "wire_transfers" ADD COLUMN "variance_resolution" TEXT;
+
+-- CreateTable
+CREATE TABLE "fx_rate_locks" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "service_request_id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "amount_paise" INTEGER NOT NULL,
+    "mid_rate" DECIMAL(12,6) NOT NULL,
+    "spread_basis_points" INTEGER NOT NULL,
+    "locked_rate" DECIMAL(12,6) NOT NULL,
+    "foreign_amount_minor" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "payment_id" TEXT,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fx_rate_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fx_currency_configs" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "spread_basis_points" INTEGER NOT NULL DEFAULT 150,
+    "lock_minutes" INTEGER NOT NULL DEFAULT 1440,
+    "shortfall_tolerance_basis_points" INTEGER NOT NULL DEFAULT 100,
+    "shortfall_tolerance_max_paise" INTEGER NOT NULL DEFAULT 200000,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_currency_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rate_locks_payment_id_key" ON "fx_rate_locks"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "fx_rate_locks_customer_id_status_idx" ON "fx_rate_locks"("customer_id", "status");
+
+-- CreateIndex
+CREATE INDEX "fx_rate_locks_service_request_id_idx" ON "fx_rate_locks"("service_request_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_currency_configs_currency_key" ON "fx_currency_configs"("currency");
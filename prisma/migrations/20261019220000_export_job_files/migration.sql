@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "export_jobs" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "storage_path" TEXT;
+
+-- CreateIndex
+CREATE INDEX "export_jobs_status_expires_at_idx" ON "export_jobs"("status", "expires_at");
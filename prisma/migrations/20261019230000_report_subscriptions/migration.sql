@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "report_subscriptions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "report_type" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL DEFAULT '{}',
+    "period" TEXT NOT NULL,
+    "cron_expression" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "format" TEXT NOT NULL,
+    "recipient_user_ids" TEXT[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "last_run_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "report_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "report_runs" (
+    "id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "storage_path" TEXT,
+    "delivered_count" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "requested_by" TEXT,
+    "rerun_of_id" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "report_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "report_subscriptions_created_by_idx" ON "report_subscriptions"("created_by");
+
+-- CreateIndex
+CREATE INDEX "report_subscriptions_is_active_idx" ON "report_subscriptions"("is_active");
+
+-- CreateIndex
+CREATE INDEX "report_runs_subscription_id_created_at_idx" ON "report_runs"("subscription_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "report_runs" ADD CONSTRAINT "report_runs_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "report_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "bigquery_sync_logs" ADD COLUMN     "added_columns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "deleted_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'incremental';
+
+-- CreateTable
+CREATE TABLE "bigquery_sync_state" (
+    "table_name" TEXT NOT NULL,
+    "watermark_at" TIMESTAMP(3),
+    "watermark_id" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bigquery_sync_state_pkey" PRIMARY KEY ("table_name")
+);
+
+-- CreateTable
+CREATE TABLE "bigquery_delete_outbox" (
+    "id" BIGSERIAL NOT NULL,
+    "table_name" TEXT NOT NULL,
+    "record_id" TEXT NOT NULL,
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "synced_at" TIMESTAMP(3),
+
+    CONSTRAINT "bigquery_delete_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bigquery_delete_outbox_table_name_synced_at_id_idx" ON "bigquery_delete_outbox"("table_name", "synced_at", "id");
+
+-- Delete capture for tables synced to BigQuery. Triggers catch deletes
+-- from every path (Prisma, cascades, manual SQL), which the app cannot.
+CREATE OR REPLACE FUNCTION bigquery_capture_delete() RETURNS trigger AS $$
+BEGIN
+    INSERT INTO "bigquery_delete_outbox" ("table_name", "record_id") VALUES (TG_TABLE_NAME, OLD."id");
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "cities_bigquery_delete" AFTER DELETE ON "cities"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "franchises_bigquery_delete" AFTER DELETE ON "franchises"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "agents_bigquery_delete" AFTER DELETE ON "agents"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "dealers_bigquery_delete" AFTER DELETE ON "dealers"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "franchise_revenues_bigquery_delete" AFTER DELETE ON "franchise_revenues"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "city_service_fees_bigquery_delete" AFTER DELETE ON "city_service_fees"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "training_modules_bigquery_delete" AFTER DELETE ON "training_modules"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "training_progress_bigquery_delete" AFTER DELETE ON "training_progress"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
+CREATE TRIGGER "feature_usage_events_bigquery_delete" AFTER DELETE ON "feature_usage_events"
+    FOR EACH ROW EXECUTE FUNCTION bigquery_capture_delete();
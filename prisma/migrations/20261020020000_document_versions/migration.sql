@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "lineage_id" TEXT,
+ADD COLUMN     "superseded_at" TIMESTAMP(3),
+ADD COLUMN     "superseded_by_id" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- Existing documents each start their own lineage
+UPDATE "documents" SET "lineage_id" = "id";
+
+ALTER TABLE "documents" ALTER COLUMN "lineage_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "documents_lineage_id_version_key" ON "documents"("lineage_id", "version");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "signed_documents" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "city_id" TEXT,
+    "title" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "key_id" TEXT NOT NULL,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+    "revocation_reason" TEXT,
+    "superseded_by_id" TEXT,
+
+    CONSTRAINT "signed_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "signed_documents_kind_source_id_idx" ON "signed_documents"("kind", "source_id");
+
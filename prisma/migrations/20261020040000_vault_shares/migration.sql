@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "vault_shares" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "document_ids" TEXT[],
+    "recipient_name" TEXT NOT NULL,
+    "recipient_email" TEXT,
+    "recipient_phone" TEXT,
+    "purpose" TEXT,
+    "permission" TEXT NOT NULL DEFAULT 'view',
+    "password_hash" TEXT,
+    "otp_channel" TEXT,
+    "otp_hash" TEXT,
+    "otp_sent_at" TIMESTAMP(3),
+    "otp_expires_at" TIMESTAMP(3),
+    "failed_attempts" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "access_count" INTEGER NOT NULL DEFAULT 0,
+    "last_accessed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vault_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_shares_token_hash_key" ON "vault_shares"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "vault_shares_owner_id_idx" ON "vault_shares"("owner_id");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "razorpay_payment_link_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "instalments" ADD COLUMN     "payment_link_expires_at" TIMESTAMP(3),
+ADD COLUMN     "payment_link_url" TEXT;
+
+-- CreateIndex
+CREATE INDEX "payments_razorpay_payment_link_id_idx" ON "payments"("razorpay_payment_link_id");
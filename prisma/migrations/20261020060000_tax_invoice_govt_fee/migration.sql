@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tax_invoices" ADD COLUMN     "govt_fee_paise" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "service_request_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_service_request_id_idx" ON "tax_invoices"("service_request_id");
@@ -0,0 +1,4 @@
+-- Razorpay webhooks wrote upper-case statuses; invoicing, the ledger and the
+-- sweeps only recognise the lower-case values used everywhere else
+UPDATE "payments" SET "status" = 'paid' WHERE "status" = 'SUCCESS';
+UPDATE "payments" SET "status" = 'failed' WHERE "status" = 'FAILED';
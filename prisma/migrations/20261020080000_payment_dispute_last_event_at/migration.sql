@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "payment_disputes" ADD COLUMN     "last_event_at" TIMESTAMP(3);
@@ -0,0 +1,185 @@
+/**
+ * Tests for SmtpClient against a local SMTP sink
+ * Covers: ESMTP conversation, AUTH, MIME structure, recipient rejection,
+ *         dot-stuffing and header encoding
+ */
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import net from 'node:net';
+import { AddressInfo } from 'node:net';
+import {
+  SmtpClient,
+  SmtpError,
+  buildMimeMessage,
+  dotStuff,
+  emailAddressOf,
+} from '../smtp.client.js';
+
+interface SinkMessage {
+  from: string;
+  to: string[];
+  data: string;
+  auth: string | null;
+}
+
+/**
+ * Tiny SMTP sink: accepts everything except recipients starting with
+ * "unknown@", and records delivered messages.
+ */
+function createSmtpSink() {
+  const messages: SinkMessage[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let current: SinkMessage = { from: '', to: [], data: '', auth: null };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 sink.local ESMTP');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(current);
+          current = { from: '', to: [], data: '', auth: current.auth };
+          reply('250 2.0.0 queued');
+          continue;
+        }
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const verb = line.split(' ')[0].toUpperCase();
+
+        if (verb === 'EHLO') {
+          reply('250-sink.local');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+        } else if (verb === 'AUTH') {
+          current.auth = Buffer.from(line.split(' ')[2], 'base64').toString('utf8');
+          reply('235 2.7.0 authenticated');
+        } else if (verb === 'MAIL') {
+          current.from = line.slice(10);
+          reply('250 2.1.0 ok');
+        } else if (verb === 'RCPT') {
+          if (line.includes('<unknown@')) {
+            reply('550 5.1.1 mailbox unavailable');
+          } else {
+            current.to.push(line.slice(8));
+            reply('250 2.1.5 ok');
+          }
+        } else if (verb === 'DATA') {
+          inData = true;
+          reply('354 end with <CRLF>.<CRLF>');
+        } else if (verb === 'QUIT') {
+          reply('221 bye');
+          socket.end();
+        } else {
+          reply('502 unsupported');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+  return { server, messages };
+}
+
+function decodePart(mime: string, contentType: string): string {
+  const start = mime.indexOf(`Content-Type: ${contentType}`);
+  const body = mime.slice(mime.indexOf('\r\n\r\n', start) + 4);
+  return Buffer.from(body.slice(0, body.indexOf('\r\n--')).replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('SmtpClient', () => {
+  const sink = createSmtpSink();
+  let client: SmtpClient;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => sink.server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => sink.server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    sink.messages.length = 0;
+    client = new SmtpClient({
+      host: '127.0.0.1',
+      port: (sink.server.address() as AddressInfo).port,
+      username: 'relay-user',
+      password: 's3cret',
+      timeoutMs: 5_000,
+    });
+  });
+
+  test('delivers a text/html message with an attachment', async () => {
+    const result = await client.send({
+      from: 'Pravesh <no-reply@pravesh.in>',
+      to: 'Asha <asha@example.com>',
+      subject: 'Payment received',
+      text: 'We received ₹4,500.',
+      html: '<p>We received <b>₹4,500</b>.</p>',
+      attachments: [{ filename: 'receipt.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4') }],
+    });
+
+    expect(result.messageId).toMatch(/^<[0-9a-f-]+@pravesh\.in>$/);
+    expect(sink.messages).toHaveLength(1);
+    const [message] = sink.messages;
+    expect(message.from).toBe('<no-reply@pravesh.in>');
+    expect(message.to).toEqual(['<asha@example.com>']);
+    expect(message.auth).toBe('\0relay-user\0s3cret');
+    expect(message.data).toContain(`Message-ID: ${result.messageId}`);
+    expect(message.data).toMatch(/Content-Type: multipart\/mixed/);
+    expect(message.data).toMatch(/Content-Type: multipart\/alternative/);
+    expect(decodePart(message.data, 'text/plain')).toBe('We received ₹4,500.');
+    expect(decodePart(message.data, 'text/html')).toBe('<p>We received <b>₹4,500</b>.</p>');
+    expect(message.data).toContain('Content-Disposition: attachment; filename="receipt.pdf"');
+  });
+
+  test('raises a permanent rcpt error when the mailbox is rejected', async () => {
+    const error = await client
+      .send({ from: 'no-reply@pravesh.in', to: 'unknown@example.com', subject: 'Hi', text: 'Hello' })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code: 550, stage: 'rcpt', isPermanent: true });
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  test('raises a connect error when nothing is listening', async () => {
+    const closed = new SmtpClient({ host: '127.0.0.1', port: 1, timeoutMs: 2_000 });
+    const error = await closed
+      .send({ from: 'no-reply@pravesh.in', to: 'a@example.com', subject: 'Hi', text: 'Hello' })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.stage).toBe('connect');
+  });
+});
+
+describe('MIME helpers', () => {
+  test('encodes non-ASCII subjects and omits multipart for plain text', () => {
+    const mime = buildMimeMessage(
+      { from: 'a@pravesh.in', to: 'b@example.com', subject: 'भुगतान प्राप्त', text: 'ok' },
+      '<id@pravesh.in>',
+      new Date('2026-10-19T10:00:00.000Z'),
+    );
+
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from('भुगतान प्राप्त').toString('base64')}?=`);
+    expect(mime).toContain('Date: Mon, 19 Oct 2026 10:00:00 GMT');
+    expect(mime).not.toContain('multipart');
+  });
+
+  test('dot-stuffs lines that start with a period', () => {
+    expect(dotStuff('.hidden\r\nline\r\n.end')).toBe('..hidden\r\nline\r\n..end');
+  });
+
+  test('extracts the bare address from a mailbox', () => {
+    expect(emailAddressOf('Pravesh <no-reply@pravesh.in>')).toBe('no-reply@pravesh.in');
+    expect(emailAddressOf(' asha@example.com ')).toBe('asha@example.com');
+  });
+});
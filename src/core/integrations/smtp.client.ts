@@ -0,0 +1,352 @@
+/**
+ * Minimal SMTP client over node:net / node:tls.
+ * Speaks enough ESMTP to hand a message to a relay: EHLO, STARTTLS,
+ * AUTH PLAIN/LOGIN, MAIL/RCPT/DATA. Messages are built as MIME with a
+ * text/html alternative and base64 attachments.
+ *
+ * Required environment variables (read by callers, see env.ts):
+ *   SMTP_HOST, SMTP_PORT — relay address
+ *   SMTP_SECURE          — 'true' for implicit TLS (465)
+ *   SMTP_USER, SMTP_PASS — optional credentials
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import crypto from 'node:crypto';
+import { logger } from '../../shared/utils/logger.js';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface SmtpClientOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte. Otherwise STARTTLS is used if offered. */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  /** Name sent in EHLO. */
+  clientName?: string;
+  timeoutMs?: number;
+  /** Accept self-signed certificates (local sinks only). */
+  allowInsecureTls?: boolean;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface SmtpSendResult {
+  messageId: string;
+  response: string;
+}
+
+export type SmtpStage = 'connect' | 'greeting' | 'ehlo' | 'starttls' | 'auth' | 'mail' | 'rcpt' | 'data';
+
+/**
+ * An SMTP failure. `code` is the reply code (0 for socket errors); 5xx codes
+ * are permanent, so a 5xx at the `rcpt` stage means the mailbox was rejected.
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly stage: SmtpStage,
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get isPermanent(): boolean {
+    return this.code >= 500 && this.code < 600;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** Bare address from `Name <addr>` or `addr`. */
+export function emailAddressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+function boundary(): string {
+  return `=_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function part(contentType: string, content: Buffer, extraHeaders: string[] = []): string {
+  return [
+    `Content-Type: ${contentType}`,
+    'Content-Transfer-Encoding: base64',
+    ...extraHeaders,
+    '',
+    base64Lines(content),
+  ].join('\r\n');
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const b = boundary();
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${b}"`,
+    '',
+    ...parts.map((p) => `--${b}\r\n${p}`),
+    `--${b}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Render a message as RFC 5322 / MIME text: multipart/alternative when there
+ * is an HTML body, wrapped in multipart/mixed when there are attachments.
+ */
+export function buildMimeMessage(
+  message: EmailMessage,
+  messageId: string,
+  date: Date = new Date(),
+): string {
+  let body = part('text/plain; charset=utf-8', Buffer.from(message.text, 'utf8'));
+  if (message.html) {
+    body = multipart('alternative', [
+      body,
+      part('text/html; charset=utf-8', Buffer.from(message.html, 'utf8')),
+    ]);
+  }
+  if (message.attachments?.length) {
+    body = multipart('mixed', [
+      body,
+      ...message.attachments.map((a) => {
+        const filename = encodeHeader(a.filename).replace(/"/g, '');
+        return part(`${a.contentType}; name="${filename}"`, a.content, [
+          `Content-Disposition: attachment; filename="${filename}"`,
+        ]);
+      }),
+    ]);
+  }
+
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers ?? {}).map(([k, v]) => `${k}: ${encodeHeader(v)}`),
+  ];
+  return `${headers.join('\r\n')}\r\n${body}`;
+}
+
+/** Escape lines starting with '.' so they are not read as end-of-data. */
+export function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
+
+/**
+ * Reads multi-line SMTP replies off a socket, one reply per `read()`.
+ */
+class SmtpSession {
+  private buffer = '';
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.deliver();
+    });
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('Connection closed')));
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    if (this.waiting) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+    const lines: string[] = [];
+    let offset = 0;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n', offset)) !== -1) {
+      const line = this.buffer.slice(offset, end);
+      offset = end + 2;
+      lines.push(line);
+      // "250-..." continues, "250 ..." (or a bare code) ends the reply
+      if (line.length <= 3 || line[3] === ' ') {
+        this.buffer = this.buffer.slice(offset);
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve({ code: Number(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) });
+        return;
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  async expect(stage: SmtpStage, codes: number[], command?: string): Promise<SmtpReply> {
+    if (command !== undefined) this.write(`${command}\r\n`);
+    let reply: SmtpReply;
+    try {
+      reply = await this.read();
+    } catch (err) {
+      throw new SmtpError(err instanceof Error ? err.message : String(err), 0, stage);
+    }
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${stage} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code, stage);
+    }
+    return reply;
+  }
+
+  async upgrade(host: string, allowInsecure: boolean): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    const secure = tls.connect({ socket: plain, servername: host, rejectUnauthorized: !allowInsecure });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export class SmtpClient {
+  constructor(private readonly options: SmtpClientOptions) {}
+
+  /**
+   * Deliver one message to the relay over a fresh connection. Throws
+   * SmtpError on any rejected command.
+   */
+  async send(message: EmailMessage): Promise<SmtpSendResult> {
+    const from = emailAddressOf(message.from);
+    const to = emailAddressOf(message.to);
+    const messageId = `<${crypto.randomUUID()}@${from.split('@')[1] ?? 'localhost'}>`;
+    const session = await this.connect();
+
+    try {
+      await session.expect('greeting', [220]);
+      let capabilities = await this.ehlo(session);
+
+      if (!this.options.secure && capabilities.includes('STARTTLS')) {
+        await session.expect('starttls', [220], 'STARTTLS');
+        await session.upgrade(this.options.host, this.options.allowInsecureTls ?? false);
+        capabilities = await this.ehlo(session);
+      }
+
+      if (this.options.username) {
+        await this.authenticate(session, capabilities);
+      }
+
+      await session.expect('mail', [250], `MAIL FROM:<${from}>`);
+      await session.expect('rcpt', [250, 251], `RCPT TO:<${to}>`);
+      await session.expect('data', [354], 'DATA');
+      session.write(`${dotStuff(buildMimeMessage(message, messageId))}\r\n.\r\n`);
+      const accepted = await session.expect('data', [250]);
+
+      // Best effort; the message is already queued
+      session.write('QUIT\r\n');
+      logger.info({ to, messageId }, 'SMTP message accepted');
+      return { messageId, response: accepted.lines.join(' ') };
+    } finally {
+      session.close();
+    }
+  }
+
+  private connect(): Promise<SmtpSession> {
+    const { host, port, secure, allowInsecureTls, timeoutMs = DEFAULT_TIMEOUT_MS } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, rejectUnauthorized: !allowInsecureTls })
+        : net.connect({ host, port });
+      const ready = secure ? 'secureConnect' : 'connect';
+
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${timeoutMs}ms`)));
+      socket.once('error', (err) => reject(new SmtpError(err.message, 0, 'connect')));
+      socket.once(ready, () => {
+        socket.removeAllListeners('error');
+        resolve(new SmtpSession(socket));
+      });
+    });
+  }
+
+  private async ehlo(session: SmtpSession): Promise<string[]> {
+    const reply = await session.expect('ehlo', [250], `EHLO ${this.options.clientName ?? 'localhost'}`);
+    return reply.lines.map((line) => line.toUpperCase());
+  }
+
+  private async authenticate(session: SmtpSession, capabilities: string[]): Promise<void> {
+    const username = this.options.username ?? '';
+    const password = this.options.password ?? '';
+    const mechanisms = capabilities.find((line) => line.startsWith('AUTH'))?.split(/[\s=]+/) ?? [];
+    const b64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+    if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      await session.expect('auth', [235], `AUTH PLAIN ${b64(`\0${username}\0${password}`)}`);
+      return;
+    }
+    await session.expect('auth', [334], 'AUTH LOGIN');
+    await session.expect('auth', [334], b64(username));
+    await session.expect('auth', [235], b64(password));
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Tests for AgentItineraryService
+ * Route-optimised daily itinerary with offline travel estimates.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import {
+  AgentItineraryService,
+  estimateLeg,
+  sequenceStops,
+  type PlannableStop,
+} from '../agent-itinerary.service';
+
+const PLAN_DATE = '2026-10-20'; // Tuesday
+const at = (hhmm: string, date = PLAN_DATE) => new Date(`${date}T${hhmm}:00+05:30`);
+
+const HOME = { lat: 26.85, lng: 80.95 };
+const NEAR = { lat: 26.86, lng: 80.95 }; // ~1 km north
+const FAR = { lat: 26.95, lng: 80.95 }; // ~11 km north
+const REGISTRAR = { lat: 26.87, lng: 80.96 };
+
+function site(taskId: string, location: { lat: number; lng: number }): PlannableStop {
+  return {
+    taskId,
+    kind: 'site_visit',
+    label: taskId,
+    location,
+    durationMinutes: 45,
+    windowStart: at('08:00'),
+    windowEnd: at('20:00'),
+  };
+}
+
+function createMockPrisma() {
+  return {
+    agent: { findUnique: vi.fn() },
+    city: { findUnique: vi.fn() },
+    serviceRequest: { findMany: vi.fn() },
+    courtHearing: { findMany: vi.fn() },
+    agentItinerary: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  } as unknown as PrismaClient;
+}
+
+function task(id: string, opts: { lat?: number; lng?: number; office?: string } = {}) {
+  return {
+    id,
+    serviceName: `Service ${id}`,
+    propertyAddress: `Plot ${id}`,
+    serviceInstance: {
+      propertyLat: opts.lat ?? null,
+      propertyLng: opts.lng ?? null,
+      currentStepIndex: 0,
+      serviceDefinition: {
+        definition: {
+          steps: [
+            opts.office
+              ? { name: 'Visit', governmentOffice: { officeName: opts.office } }
+              : { name: 'Site inspection' },
+          ],
+        },
+      },
+    },
+  };
+}
+
+describe('estimateLeg', () => {
+  it('applies the road factor and city speed to the haversine distance', () => {
+    const leg = estimateLeg(HOME, FAR, 18);
+    // ~11.1 km straight line × 1.3 road factor
+    expect(leg.distanceKm).toBeGreaterThan(14);
+    expect(leg.distanceKm).toBeLessThan(15);
+    expect(leg.minutes).toBe(Math.ceil((leg.distanceKm / 18) * 60));
+  });
+
+  it('costs nothing when a location is unknown', () => {
+    expect(estimateLeg(null, FAR, 18)).toEqual({ distanceKm: 0, minutes: 0 });
+  });
+});
+
+describe('sequenceStops', () => {
+  it('visits the nearest reachable stop first', () => {
+    const result = sequenceStops([site('far', FAR), site('near', NEAR)], {
+      origin: HOME,
+      startAt: at('09:00'),
+      speedKmph: 18,
+    });
+
+    expect(result.stops.map((s) => s.taskId)).toEqual(['near', 'far']);
+    expect(result.stops[0].arriveAt).toBe(
+      new Date(at('09:00').getTime() + result.stops[0].travel.minutes * 60_000).toISOString(),
+    );
+    expect(result.unscheduled).toEqual([]);
+  });
+
+  it('waits for an office to open before starting the visit', () => {
+    const office: PlannableStop = {
+      ...site('office', REGISTRAR),
+      kind: 'office_visit',
+      durationMinutes: 90,
+      windowStart: at('10:00'),
+      windowEnd: at('18:00'),
+    };
+    const result = sequenceStops([office], { origin: HOME, startAt: at('08:00'), speedKmph: 18 });
+
+    expect(result.stops[0].startAt).toBe(at('10:00').toISOString());
+    expect(result.stops[0].departAt).toBe(at('11:30').toISOString());
+  });
+
+  it('keeps hearings at their fixed time and only fits stops that leave room for them', () => {
+    const hearing: PlannableStop = {
+      ...site('hearing', REGISTRAR),
+      kind: 'hearing',
+      durationMinutes: 120,
+      fixedAt: at('09:30'),
+    };
+    const result = sequenceStops([site('far', FAR), hearing, site('near', NEAR)], {
+      origin: HOME,
+      startAt: at('08:30'),
+      speedKmph: 18,
+    });
+
+    const order = result.stops.map((s) => s.taskId);
+    expect(order.indexOf('near')).toBeLessThan(order.indexOf('hearing'));
+    expect(order.indexOf('far')).toBeGreaterThan(order.indexOf('hearing'));
+    const hearingStop = result.stops.find((s) => s.taskId === 'hearing')!;
+    expect(hearingStop.startAt).toBe(at('09:30').toISOString());
+    expect(hearingStop.fixedTime).toBe(true);
+    expect(hearingStop.late).toBeUndefined();
+  });
+
+  it('flags a hearing the agent cannot reach in time', () => {
+    const hearing: PlannableStop = {
+      ...site('hearing', FAR),
+      kind: 'hearing',
+      durationMinutes: 120,
+      fixedAt: at('09:00'),
+    };
+    const result = sequenceStops([hearing], { origin: HOME, startAt: at('08:55'), speedKmph: 18 });
+    expect(result.stops[0].late).toBe(true);
+  });
+
+  it('returns stops that do not fit as unscheduled', () => {
+    const result = sequenceStops([site('near', NEAR)], {
+      origin: HOME,
+      startAt: at('19:45'),
+      speedKmph: 18,
+    });
+    expect(result.stops).toEqual([]);
+    expect(result.unscheduled).toEqual([
+      expect.objectContaining({ taskId: 'near', reason: 'does not fit within the field day' }),
+    ]);
+  });
+});
+
+describe('AgentItineraryService', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let service: AgentItineraryService;
+
+  beforeEach(() => {
+    mockPrisma = createMockPrisma();
+    service = new AgentItineraryService(mockPrisma);
+    vi.clearAllMocks();
+
+    (mockPrisma.agent.findUnique as any).mockResolvedValue({
+      id: 'agent-1',
+      cityId: 'city-1',
+      currentLat: HOME.lat,
+      currentLng: HOME.lng,
+    });
+    (mockPrisma.city.findUnique as any).mockResolvedValue({
+      configData: {
+        travelSpeedKmph: 20,
+        officeAddresses: {
+          'Sub-Registrar Office': {
+            addressLine1: 'Collectorate',
+            city: 'Lucknow',
+            state: 'UP',
+            pincode: '226001',
+            gpsLat: REGISTRAR.lat,
+            gpsLng: REGISTRAR.lng,
+          },
+        },
+        workingHours: { weekdayStart: '10:00', weekdayEnd: '17:00', sundayClosed: true },
+        holidayCalendar: [],
+      },
+    });
+    (mockPrisma.courtHearing.findMany as any).mockResolvedValue([]);
+    (mockPrisma.agentItinerary.upsert as any).mockImplementation(async ({ create }: any) => ({
+      ...create,
+      version: 1,
+    }));
+  });
+
+  describe('planItinerary', () => {
+    it('plans site and office stops and persists the itinerary', async () => {
+      (mockPrisma.serviceRequest.findMany as any).mockResolvedValue([
+        task('sr-site', NEAR),
+        task('sr-office', { office: 'Sub-Registrar Office' }),
+      ]);
+
+      const result = await service.planItinerary('agent-1', PLAN_DATE, {
+        origin: { ...HOME, at: at('09:00') },
+      });
+
+      expect(result.stops.map((s) => s.kind).sort()).toEqual(['office_visit', 'site_visit']);
+      const officeStop = result.stops.find((s) => s.kind === 'office_visit')!;
+      expect(officeStop.location).toEqual(REGISTRAR);
+      expect(new Date(officeStop.startAt).getTime()).toBeGreaterThanOrEqual(at('10:00').getTime());
+      expect(result.totals.stopCount).toBe(2);
+      expect(result.totals.origin).toEqual(HOME);
+      expect(mockPrisma.agentItinerary.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { agentId_planDate: { agentId: 'agent-1', planDate: PLAN_DATE } },
+          update: expect.objectContaining({ version: { increment: 1 } }),
+        }),
+      );
+    });
+
+    it('schedules a hearing in place of the task step', async () => {
+      (mockPrisma.serviceRequest.findMany as any).mockResolvedValue([task('sr-case', NEAR)]);
+      (mockPrisma.courtHearing.findMany as any).mockResolvedValue([
+        {
+          serviceRequestId: 'sr-case',
+          courtName: 'Collectorate',
+          caseNumber: 'RC-42',
+          hearingDate: at('11:00'),
+        },
+      ]);
+
+      const result = await service.planItinerary('agent-1', PLAN_DATE, {
+        origin: { ...HOME, at: at('09:00') },
+      });
+
+      expect(result.stops).toHaveLength(1);
+      expect(result.stops[0]).toMatchObject({
+        kind: 'hearing',
+        fixedTime: true,
+        location: REGISTRAR,
+        startAt: at('11:00').toISOString(),
+      });
+    });
+
+    it('leaves office visits unscheduled when the office is closed or not geocoded', async () => {
+      (mockPrisma.serviceRequest.findMany as any).mockResolvedValue([
+        task('sr-office', { office: 'Sub-Registrar Office' }),
+        task('sr-tehsil', { office: 'Tehsil' }),
+        task('sr-nowhere'),
+      ]);
+
+      const sunday = await service.planItinerary('agent-1', '2026-10-25', {
+        origin: { ...HOME, at: at('09:00', '2026-10-25') },
+      });
+
+      expect(sunday.stops).toEqual([]);
+      expect(sunday.unscheduled.map((u) => u.reason)).toEqual([
+        'office closed on this day',
+        'office closed on this day',
+        'property location unknown',
+      ]);
+
+      const tuesday = await service.planItinerary('agent-1', PLAN_DATE, {
+        origin: { ...HOME, at: at('09:00') },
+      });
+      expect(tuesday.unscheduled).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ taskId: 'sr-tehsil', reason: 'office location unknown' }),
+        ]),
+      );
+    });
+
+    it('throws AGENT_NOT_FOUND for an unknown agent', async () => {
+      (mockPrisma.agent.findUnique as any).mockResolvedValue(null);
+      await expect(service.planItinerary('missing', PLAN_DATE)).rejects.toMatchObject({
+        code: 'AGENT_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('checkRoute', () => {
+    function storedPlan() {
+      return {
+        agentId: 'agent-1',
+        planDate: PLAN_DATE,
+        version: 1,
+        planReason: 'requested',
+        generatedAt: at('08:00'),
+        stops: [
+          {
+            taskId: 'sr-far',
+            kind: 'site_visit',
+            label: 'far',
+            location: FAR,
+            arriveAt: at('10:00').toISOString(),
+            startAt: at('10:00').toISOString(),
+            departAt: at('10:45').toISOString(),
+            travel: { distanceKm: 14.4, minutes: 48 },
+            fixedTime: false,
+          },
+        ],
+        unscheduled: [],
+        totals: { stopCount: 1, travelKm: 14.4, travelMinutes: 48, origin: HOME },
+      };
+    }
+
+    it('does nothing while the agent is on the planned leg', async () => {
+      (mockPrisma.agentItinerary.findUnique as any).mockResolvedValue(storedPlan());
+
+      const result = await service.checkRoute('agent-1', 26.9, 80.951, at('09:30'));
+
+      expect(result.offRoute).toBe(false);
+      expect(result.deviationKm).toBeLessThan(1);
+      expect(mockPrisma.agentItinerary.upsert).not.toHaveBeenCalled();
+    });
+
+    it('re-plans from the check-in when the agent is off route', async () => {
+      (mockPrisma.agentItinerary.findUnique as any).mockResolvedValue(storedPlan());
+      (mockPrisma.serviceRequest.findMany as any).mockResolvedValue([task('sr-far', FAR)]);
+
+      const result = await service.checkRoute('agent-1', 26.9, 81.05, at('09:30'));
+
+      expect(result.offRoute).toBe(true);
+      expect(result.deviationKm).toBeGreaterThan(2);
+      expect(mockPrisma.agentItinerary.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ planReason: 'off_route' }),
+        }),
+      );
+      expect(result.itinerary?.totals.origin).toEqual({ lat: 26.9, lng: 81.05 });
+    });
+
+    it('skips the check when no itinerary exists for the day', async () => {
+      (mockPrisma.agentItinerary.findUnique as any).mockResolvedValue(null);
+      const result = await service.checkRoute('agent-1', 26.9, 81.05, at('09:30'));
+      expect(result).toEqual({ offRoute: false, deviationKm: null, itinerary: null });
+    });
+  });
+});
@@ -15,6 +15,18 @@ function createMockPrisma() {
     agent: {
       findMany: vi.fn(),
     },
+    city: {
+      findUnique: vi.fn().mockResolvedValue(null), // no city weights → defaults
+    },
+    trainingProgress: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    serviceRating: {
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    user: {
+      findUnique: vi.fn().mockResolvedValue(null),
+    },
   } as unknown as PrismaClient;
 }
 
@@ -241,4 +253,108 @@ describe('scoreAgents', () => {
     expect(result.selectedAgentId).toBe('sole-agent');
     expect(result.candidates).toHaveLength(1);
   });
+
+  // ============================================================
+  // Scoring pipeline: requirements, city weights, breakdown
+  // ============================================================
+
+  const baseAgent = {
+    currentLat: PROPERTY_LAT,
+    currentLng: PROPERTY_LNG,
+    maxConcurrentTasks: 5,
+    languages: [] as string[],
+    registeredOffices: [] as string[],
+    expertiseTags: [] as string[],
+    _count: { agentAssignmentLogs: 0 },
+  };
+
+  const definition = {
+    serviceCode: 'lda-mutation',
+    serviceName: 'LDA Mutation',
+    category: 'post_purchase',
+    description: '',
+    steps: [],
+    requiredDocuments: [],
+    estimatedFees: { serviceFeeBasePaise: 0, govtFeeEstimatePaise: 0, totalEstimatePaise: 0 },
+    governmentOffices: [{ officeName: 'LDA Office' }],
+    estimatedDaysTotal: 1,
+    slaBusinessDays: 1,
+  };
+
+  it('filters out agents that do not meet the service agentRequirements', async () => {
+    (mockPrisma.agent.findMany as any).mockResolvedValue([
+      { ...baseAgent, id: 'agent-unregistered' },
+      { ...baseAgent, id: 'agent-registered', registeredOffices: ['LDA Office'] },
+    ]);
+
+    const result = await scoreAgents(mockPrisma, CITY_ID, PROPERTY_LAT, PROPERTY_LNG, {
+      serviceDefinition: {
+        ...definition,
+        agentRequirements: { governmentOffices: ['LDA Office'] },
+      },
+    });
+
+    expect(result.selectedAgentId).toBe('agent-registered');
+    expect(result.filteredOut).toEqual([
+      { agentId: 'agent-unregistered', reason: 'not registered at: LDA Office' },
+    ]);
+  });
+
+  it('reports when no agent meets the requirements', async () => {
+    (mockPrisma.agent.findMany as any).mockResolvedValue([{ ...baseAgent, id: 'agent-001' }]);
+
+    const result = await scoreAgents(mockPrisma, CITY_ID, PROPERTY_LAT, PROPERTY_LNG, {
+      serviceDefinition: {
+        ...definition,
+        agentRequirements: { trainingCategories: ['post_purchase'] },
+      },
+    });
+
+    expect(result.selectedAgentId).toBeNull();
+    expect(result.reason).toBe('no agents meet service requirements');
+    expect(result.filteredOut?.[0].reason).toBe('missing training: post_purchase');
+  });
+
+  it('applies city weights and records a per-factor breakdown', async () => {
+    (mockPrisma.city.findUnique as any).mockResolvedValue({
+      configData: { agentScoringWeights: { distance: 0.5, rating: 0.5 } },
+    });
+    (mockPrisma.agent.findMany as any).mockResolvedValue([
+      { ...baseAgent, id: 'agent-low' },
+      { ...baseAgent, id: 'agent-high' },
+    ]);
+    (mockPrisma.serviceRating.groupBy as any).mockResolvedValue([
+      { agentId: 'agent-high', _avg: { rating: 5 } },
+      { agentId: 'agent-low', _avg: { rating: 2 } },
+    ]);
+
+    const result = await scoreAgents(mockPrisma, CITY_ID, PROPERTY_LAT, PROPERTY_LNG);
+
+    // One query for every candidate's rating
+    expect(mockPrisma.serviceRating.groupBy).toHaveBeenCalledOnce();
+    expect(mockPrisma.serviceRating.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { agentId: { in: ['agent-low', 'agent-high'] } } }),
+    );
+
+    expect(result.selectedAgentId).toBe('agent-high');
+    expect(result.weights).toEqual({ distance: 0.5, workload: 0, rating: 0.5, skills: 0, language: 0 });
+    expect(result.candidates[0].breakdown).toEqual({ distance: 1, rating: 1 });
+    expect(result.candidates[1].breakdown).toEqual({ distance: 1, rating: 0.4 });
+  });
+
+  it('prefers agents speaking the customer language when language is weighted', async () => {
+    (mockPrisma.agent.findMany as any).mockResolvedValue([
+      { ...baseAgent, id: 'agent-en', languages: ['en'] },
+      { ...baseAgent, id: 'agent-hi', languages: ['hi', 'en'] },
+    ]);
+    (mockPrisma.user.findUnique as any).mockResolvedValue({ languagePref: 'hi' });
+
+    const result = await scoreAgents(mockPrisma, CITY_ID, PROPERTY_LAT, PROPERTY_LNG, {
+      customerId: 'customer-001',
+      weights: { distance: 0.5, language: 0.5 },
+    });
+
+    expect(result.selectedAgentId).toBe('agent-hi');
+    expect(result.candidates[1].score).toBeCloseTo(0.5, 2);
+  });
 });
@@ -0,0 +1,370 @@
+/**
+ * Tests for AgentSyncService
+ * Story 3-19: Conflict-aware offline sync with per-entity version vectors
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+
+const mockUpdateTaskStatus = vi.fn();
+const mockRecordGpsEvidence = vi.fn();
+const mockCompleteStep = vi.fn();
+const mockCreateReceipt = vi.fn();
+const mockCreateStandaloneReceipt = vi.fn();
+
+vi.mock('../agent-task.service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../agent-task.service.js')>();
+  return {
+    ...actual,
+    AgentTaskService: vi.fn().mockImplementation(() => ({
+      updateTaskStatus: mockUpdateTaskStatus,
+      recordGpsEvidence: mockRecordGpsEvidence,
+    })),
+  };
+});
+vi.mock('../checklist.service.js', () => ({
+  ChecklistService: vi.fn().mockImplementation(() => ({ completeStep: mockCompleteStep })),
+}));
+vi.mock('../cash-collection.service.js', () => ({
+  CashCollectionService: vi.fn().mockImplementation(() => ({
+    createReceipt: mockCreateReceipt,
+    createStandaloneReceipt: mockCreateStandaloneReceipt,
+  })),
+}));
+
+import { AgentSyncService, hasUnseenChanges, type SyncBatchItem } from '../agent-sync.service';
+
+const T0 = new Date('2026-10-19T09:00:00.000Z');
+const T1 = new Date('2026-10-19T10:00:00.000Z');
+const T2 = new Date('2026-10-19T11:00:00.000Z');
+
+/** In-memory SyncEntityVersion table */
+function createVersionStore() {
+  const rows = new Map<string, any>();
+  const key = (w: any) => `${w.entityType_entityId.entityType}:${w.entityType_entityId.entityId}`;
+  return {
+    rows,
+    seed(entityType: string, entityId: string, vector: Record<string, number>, observedAt: Date) {
+      rows.set(`${entityType}:${entityId}`, { id: `${entityType}:${entityId}`, entityType, entityId, vector, observedAt });
+    },
+    model: {
+      findUnique: vi.fn(async ({ where }: any) => rows.get(key(where)) ?? null),
+      create: vi.fn(async ({ data }: any) => {
+        const row = { id: `${data.entityType}:${data.entityId}`, ...data };
+        rows.set(row.id, row);
+        return row;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const row = { ...rows.get(where.id), ...data };
+        rows.set(where.id, row);
+        return row;
+      }),
+      upsert: vi.fn(async ({ where, create, update }: any) => {
+        const existing = rows.get(key(where));
+        const row = existing ? { ...existing, ...update } : { id: key(where), ...create };
+        rows.set(key(where), row);
+        return row;
+      }),
+    },
+  };
+}
+
+function createMockPrisma(versions: ReturnType<typeof createVersionStore>) {
+  return {
+    syncLog: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({}),
+    },
+    syncEntityVersion: versions.model,
+    serviceRequest: {
+      findUnique: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    checklistProgress: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      update: vi.fn(),
+    },
+    cashReceipt: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    agentAssignmentLog: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  } as unknown as PrismaClient;
+}
+
+function item(overrides: Partial<SyncBatchItem>): SyncBatchItem {
+  return {
+    idempotencyKey: 'key-1',
+    type: 'task_update',
+    payload: { taskId: 'task-1', newStatus: 'contacted' },
+    clientTimestamp: T0.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('hasUnseenChanges', () => {
+  it('detects server components ahead of the client base', () => {
+    expect(hasUnseenChanges({ server: 2 }, { server: 1 }, 'agent:a1')).toBe(true);
+    expect(hasUnseenChanges({ server: 1, 'agent:a2': 1 }, { server: 1 }, 'agent:a1')).toBe(true);
+  });
+
+  it("ignores the submitting agent's own component", () => {
+    expect(hasUnseenChanges({ server: 1, 'agent:a1': 3 }, { server: 1 }, 'agent:a1')).toBe(false);
+  });
+});
+
+describe('AgentSyncService', () => {
+  let versions: ReturnType<typeof createVersionStore>;
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let mockBoss: { send: ReturnType<typeof vi.fn> };
+  let service: AgentSyncService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    versions = createVersionStore();
+    mockPrisma = createMockPrisma(versions);
+    mockBoss = { send: vi.fn().mockResolvedValue(undefined) };
+    service = new AgentSyncService(mockPrisma, mockBoss);
+  });
+
+  describe('processSyncBatch', () => {
+    it('returns duplicate for an already processed idempotency key', async () => {
+      (mockPrisma.syncLog.findUnique as any).mockResolvedValue({
+        entityId: 'task-1',
+        resolution: 'client_wins',
+      });
+
+      const result = await service.processSyncBatch('a1', [item({})]);
+
+      expect(result.results[0]).toMatchObject({ status: 'duplicate', resolution: 'client_wins' });
+      expect(mockUpdateTaskStatus).not.toHaveBeenCalled();
+    });
+
+    it('applies a task update without conflict and bumps the agent version', async () => {
+      (mockPrisma.serviceRequest.findUnique as any)
+        .mockResolvedValueOnce({ id: 'task-1', status: 'pending_contact', assignedAgentId: 'a1', updatedAt: T0 })
+        .mockResolvedValueOnce({ updatedAt: T1 });
+      versions.seed('task_status', 'task-1', { server: 1 }, T0);
+
+      const result = await service.processSyncBatch('a1', [item({ baseVersion: { server: 1 } })]);
+
+      expect(result.results[0]).toMatchObject({
+        status: 'applied',
+        version: { server: 1, 'agent:a1': 1 },
+      });
+      expect(result.conflicts).toEqual([]);
+      expect(mockUpdateTaskStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: 'task-1', agentId: 'a1', idempotencyKey: 'key-1' }),
+      );
+      expect(mockPrisma.syncLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entityType: 'task_status', entityId: 'task-1', outcome: 'applied' }),
+      });
+    });
+
+    it('applies forward progress over a concurrent ops change (client wins)', async () => {
+      // Ops moved the task to contacted at T1, after the client's base
+      (mockPrisma.serviceRequest.findUnique as any)
+        .mockResolvedValueOnce({ id: 'task-1', status: 'contacted', assignedAgentId: 'a1', updatedAt: T1 })
+        .mockResolvedValueOnce({ updatedAt: T2 });
+      versions.seed('task_status', 'task-1', { server: 1 }, T0);
+
+      const result = await service.processSyncBatch('a1', [
+        item({ payload: { taskId: 'task-1', newStatus: 'scope_confirmed' }, baseVersion: { server: 1 } }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({ status: 'conflict', resolution: 'client_wins' });
+      expect(result.conflicts[0]).toMatchObject({
+        entityType: 'task_status',
+        serverState: { status: 'contacted' },
+        clientState: { newStatus: 'scope_confirmed' },
+      });
+      expect(mockUpdateTaskStatus).toHaveBeenCalled();
+    });
+
+    it('discards a stale status when the server has moved further (server wins)', async () => {
+      (mockPrisma.serviceRequest.findUnique as any).mockResolvedValueOnce({
+        id: 'task-1',
+        status: 'in_progress',
+        assignedAgentId: 'a1',
+        updatedAt: T1,
+      });
+      versions.seed('task_status', 'task-1', { server: 1 }, T0);
+
+      const result = await service.processSyncBatch('a1', [item({ baseVersion: { server: 1 } })]);
+
+      expect(result.results[0]).toMatchObject({ status: 'conflict', resolution: 'server_wins' });
+      expect(result.conflicts[0].reason).toContain("already 'in_progress'");
+      expect(mockUpdateTaskStatus).not.toHaveBeenCalled();
+    });
+
+    it('rejects updates to a task reassigned while offline', async () => {
+      (mockPrisma.serviceRequest.findUnique as any).mockResolvedValueOnce({
+        id: 'task-1',
+        status: 'pending_contact',
+        assignedAgentId: 'a2',
+        updatedAt: T1,
+      });
+
+      const result = await service.processSyncBatch('a1', [item({})]);
+
+      expect(result.conflicts[0]).toMatchObject({
+        resolution: 'server_wins',
+        reason: 'task is no longer assigned to you',
+      });
+    });
+
+    it('keeps a checklist step reopened by ops open (server wins)', async () => {
+      (mockPrisma.checklistProgress.findFirst as any).mockResolvedValue({
+        id: 'step-1',
+        isCompleted: false,
+        completedBy: null,
+        photoUrls: [],
+        updatedAt: T1,
+      });
+      versions.seed('checklist_step', 'step-1', { server: 1, 'agent:a1': 1 }, T0);
+
+      const result = await service.processSyncBatch('a1', [
+        item({
+          type: 'checklist_step',
+          payload: { checklistId: 'cl-1', stepIndex: 0 },
+          baseVersion: { server: 1, 'agent:a1': 1 },
+        }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({ status: 'conflict', resolution: 'server_wins' });
+      expect(mockCompleteStep).not.toHaveBeenCalled();
+    });
+
+    it('merges photos into a step that is already completed', async () => {
+      (mockPrisma.checklistProgress.findFirst as any).mockResolvedValue({
+        id: 'step-1',
+        isCompleted: true,
+        completedBy: 'a1',
+        photoUrls: ['https://cdn/a.jpg'],
+        updatedAt: T0,
+      });
+      (mockPrisma.checklistProgress.update as any).mockResolvedValue({ updatedAt: T1 });
+
+      const result = await service.processSyncBatch('a1', [
+        item({
+          type: 'checklist_step',
+          payload: { checklistId: 'cl-1', stepIndex: 0, photoUrls: ['https://cdn/a.jpg', 'https://cdn/b.jpg'] },
+        }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({ status: 'conflict', resolution: 'merged' });
+      expect(mockPrisma.checklistProgress.update).toHaveBeenCalledWith({
+        where: { id: 'step-1' },
+        data: { photoUrls: ['https://cdn/a.jpg', 'https://cdn/b.jpg'] },
+      });
+    });
+
+    it('flags a cash receipt recorded with a different amount for review', async () => {
+      (mockPrisma.cashReceipt.findUnique as any).mockResolvedValue({
+        receiptId: 'rcpt-1',
+        amountPaise: '50000',
+      });
+
+      const result = await service.processSyncBatch('a1', [
+        item({
+          type: 'cash_receipt',
+          payload: { receiptId: 'rcpt-1', amountPaise: '55000', serviceRequestId: 'task-1' },
+        }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({ status: 'conflict', resolution: 'needs_review' });
+      expect(mockBoss.send).toHaveBeenCalledWith(
+        'notification.send',
+        expect.objectContaining({ type: 'cash_receipt_conflict', receiptId: 'rcpt-1' }),
+      );
+      expect(mockCreateReceipt).not.toHaveBeenCalled();
+    });
+
+    it('records cash against a cancelled task but reports the conflict', async () => {
+      (mockPrisma.serviceRequest.findUnique as any).mockResolvedValue({
+        status: 'cancelled',
+        assignedAgentId: 'a1',
+      });
+      mockCreateReceipt.mockResolvedValue({ receipt: { receiptId: 'rcpt-2', updatedAt: T1 } });
+
+      const result = await service.processSyncBatch('a1', [
+        item({
+          type: 'cash_receipt',
+          payload: { receiptId: 'rcpt-2', amountPaise: '50000', serviceRequestId: 'task-1' },
+        }),
+      ]);
+
+      expect(mockCreateReceipt).toHaveBeenCalled();
+      expect(result.results[0]).toMatchObject({
+        status: 'conflict',
+        resolution: 'client_wins',
+        version: { 'agent:a1': 1 },
+      });
+    });
+
+    it('processes cash receipts before task updates and evidence', async () => {
+      mockRecordGpsEvidence.mockResolvedValue({ id: 'gps-1' });
+      mockCreateStandaloneReceipt.mockResolvedValue({ receipt: { receiptId: 'rcpt-3', updatedAt: T1 } });
+
+      const result = await service.processSyncBatch('a1', [
+        item({ idempotencyKey: 'gps', type: 'gps_evidence', payload: { taskId: 'task-1', lat: 1, lng: 2 } }),
+        item({ idempotencyKey: 'cash', type: 'cash_receipt', payload: { receiptId: 'rcpt-3', amountPaise: '100' } }),
+      ]);
+
+      expect(result.results.map((r) => r.idempotencyKey)).toEqual(['cash', 'gps']);
+      expect(result.results[1]).toMatchObject({ status: 'applied', entityId: 'gps-1' });
+      expect(result.results[1].version).toBeUndefined();
+    });
+
+    it('reports errors per item without stopping the batch', async () => {
+      (mockPrisma.serviceRequest.findUnique as any).mockResolvedValue(null);
+      mockRecordGpsEvidence.mockResolvedValue({ id: 'gps-1' });
+
+      const result = await service.processSyncBatch('a1', [
+        item({ idempotencyKey: 'bad' }),
+        item({ idempotencyKey: 'gps', type: 'gps_evidence', payload: {} }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({ status: 'error', error: 'Task not found' });
+      expect(result.results[1].status).toBe('applied');
+    });
+  });
+
+  describe('pullChanges', () => {
+    it('returns changed entities with version vectors, revoked tasks and a cursor', async () => {
+      (mockPrisma.serviceRequest.findMany as any)
+        .mockResolvedValueOnce([{ id: 'task-1', status: 'contacted', updatedAt: T1 }])
+        .mockResolvedValueOnce([{ id: 'task-1' }]);
+      (mockPrisma.agentAssignmentLog.findMany as any).mockResolvedValue([
+        { serviceRequestId: 'task-9' },
+      ]);
+      // Ops changed the task after the version was last observed
+      versions.seed('task_status', 'task-1', { server: 1, 'agent:a1': 2 }, T0);
+
+      const result = await service.pullChanges('a1');
+
+      expect(result.tasks[0]).toMatchObject({ id: 'task-1', version: { server: 2, 'agent:a1': 2 } });
+      expect(result.revokedTaskIds).toEqual(['task-9']);
+      expect(result.hasMore).toBe(false);
+      expect(new Date(Buffer.from(result.cursor, 'base64url').toString()).getTime()).not.toBeNaN();
+    });
+
+    it('resumes from a cursor', async () => {
+      const cursor = Buffer.from(T1.toISOString()).toString('base64url');
+      await service.pullChanges('a1', cursor);
+
+      expect(mockPrisma.serviceRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { assignedAgentId: 'a1', updatedAt: { gte: T1 } } }),
+      );
+    });
+
+    it('rejects an invalid cursor', async () => {
+      await expect(service.pullChanges('a1', 'not-a-cursor')).rejects.toMatchObject({
+        code: 'VALIDATION_INVALID_CURSOR',
+      });
+    });
+  });
+});
@@ -6,6 +6,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CashCollectionService, CashReceiptCreatePayload } from '../cash-collection.service';
 import { PrismaClient } from '@prisma/client';
 
+const mockIssueForCashReceipt = vi.fn().mockResolvedValue({ id: 'inv-1' });
+
+vi.mock('../../payments/tax-invoice.service.js', () => ({
+  TaxInvoiceService: vi.fn().mockImplementation(() => ({
+    issueForCashReceipt: mockIssueForCashReceipt,
+  })),
+}));
+
 // ---------------------------------------------------------------------------
 // Mock Prisma + PgBoss factory
 // ---------------------------------------------------------------------------
@@ -83,6 +91,7 @@ describe('CashCollectionService', () => {
         'cash.receipt-recorded',
         expect.objectContaining({ receiptId: 'receipt-uuid-001' }),
       );
+      expect(mockIssueForCashReceipt).toHaveBeenCalledWith('db-receipt-001');
     });
 
     it('returns alreadyProcessed=true for duplicate receiptId (idempotency)', async () => {
@@ -0,0 +1,322 @@
+/**
+ * Tests for GpsVerificationService
+ * Geofence classification, impossible travel, ops review and visit contests.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { GpsVerificationService } from '../gps-verification.service';
+
+const PROPERTY = { lat: 26.8467, lng: 80.9462 };
+const REGISTRAR = { lat: 26.8600, lng: 80.9300 };
+const T1 = new Date('2026-10-19T10:00:00.000Z');
+
+function createMockPrisma() {
+  return {
+    gpsEvidence: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn(),
+      update: vi.fn().mockImplementation(async ({ data }: any) => data),
+    },
+    geofence: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn(),
+      create: vi.fn().mockImplementation(async ({ data }: any) => ({ id: 'fence-1', ...data })),
+      update: vi.fn(),
+    },
+    city: {
+      findUnique: vi.fn().mockResolvedValue({
+        configData: {
+          officeAddresses: {
+            'Sub-Registrar Office': { gpsLat: REGISTRAR.lat, gpsLng: REGISTRAR.lng },
+          },
+        },
+      }),
+    },
+    serviceRequest: { findUnique: vi.fn() },
+    dispute: {
+      create: vi.fn().mockImplementation(async ({ data }: any) => ({ id: 'dispute-1', ...data })),
+      update: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn(),
+    },
+    disputeComment: { create: vi.fn() },
+  } as unknown as PrismaClient;
+}
+
+function evidence(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'ev-1',
+    agentId: 'agent-1',
+    serviceRequestId: 'sr-1',
+    latitude: PROPERTY.lat,
+    longitude: PROPERTY.lng,
+    accuracy: 20,
+    capturedAt: T1,
+    flags: [],
+    reviewStatus: null,
+    reviewedAt: null,
+    serviceRequest: {
+      cityId: 'city-1',
+      serviceInstanceId: 'si-1',
+      serviceInstance: {
+        propertyLat: PROPERTY.lat,
+        propertyLng: PROPERTY.lng,
+        serviceDefinition: {
+          definition: { governmentOffices: [{ officeName: 'Sub-Registrar Office' }], steps: [] },
+        },
+      },
+    },
+    ...overrides,
+  };
+}
+
+describe('GpsVerificationService', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let mockBoss: { send: ReturnType<typeof vi.fn> };
+  let service: GpsVerificationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = createMockPrisma();
+    mockBoss = { send: vi.fn().mockResolvedValue(undefined) };
+    service = new GpsVerificationService(mockPrisma, mockBoss);
+  });
+
+  describe('createGeofence', () => {
+    it('stores a polygon fence with its centroid', async () => {
+      await service.createGeofence({
+        cityId: 'city-1',
+        kind: 'office',
+        officeName: 'Tehsil Sadar',
+        label: 'Tehsil Sadar compound',
+        polygon: [[26.85, 80.94], [26.85, 80.95], [26.86, 80.95], [26.86, 80.94]],
+        createdBy: 'ops-1',
+      });
+
+      expect(mockPrisma.geofence.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ centerLat: 26.855, centerLng: 80.945, radiusMeters: null }),
+      });
+    });
+
+    it('rejects a fence with both or neither shape', async () => {
+      await expect(
+        service.createGeofence({
+          cityId: 'city-1',
+          kind: 'property',
+          serviceInstanceId: 'si-1',
+          label: 'Plot',
+          createdBy: 'ops-1',
+        }),
+      ).rejects.toMatchObject({ code: 'VALIDATION_INVALID_GEOFENCE' });
+    });
+  });
+
+  describe('verifyEvidence', () => {
+    it('classifies a capture at the property as inside', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(evidence());
+
+      const result = await service.verifyEvidence('ev-1');
+
+      expect(result).toMatchObject({
+        verification: 'inside',
+        geofenceLabel: 'Property',
+        distanceMeters: 0,
+        flags: [],
+        reviewStatus: null,
+      });
+      expect(mockBoss.send).not.toHaveBeenCalled();
+    });
+
+    it('matches derived office fences from the city config', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(
+        evidence({ latitude: REGISTRAR.lat, longitude: REGISTRAR.lng }),
+      );
+
+      const result = await service.verifyEvidence('ev-1');
+
+      expect(result.verification).toBe('inside');
+      expect(result.geofenceLabel).toBe('Sub-Registrar Office');
+    });
+
+    it('uses explicit polygon geofences', async () => {
+      (mockPrisma.geofence.findMany as any).mockResolvedValue([
+        {
+          kind: 'property',
+          label: 'Plot boundary',
+          officeName: null,
+          polygon: [[26.90, 80.90], [26.90, 80.91], [26.91, 80.91], [26.91, 80.90]],
+          centerLat: 26.905,
+          centerLng: 80.905,
+          radiusMeters: null,
+        },
+      ]);
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(
+        evidence({ latitude: 26.905, longitude: 80.905 }),
+      );
+
+      const result = await service.verifyEvidence('ev-1');
+      expect(result).toMatchObject({ verification: 'inside', geofenceLabel: 'Plot boundary' });
+    });
+
+    it('queues evidence outside every geofence for review', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(
+        evidence({ latitude: 26.95, longitude: 81.05 }),
+      );
+
+      const result = await service.verifyEvidence('ev-1');
+
+      expect(result.verification).toBe('outside');
+      expect(result.flags).toEqual(['outside_geofence']);
+      expect(result.reviewStatus).toBe('pending');
+      expect(mockPrisma.gpsEvidence.update).toHaveBeenCalledWith({
+        where: { id: 'ev-1' },
+        data: expect.objectContaining({ reviewStatus: 'pending' }),
+      });
+      expect(mockBoss.send).toHaveBeenCalledWith(
+        'notification.send',
+        expect.objectContaining({ type: 'gps_evidence_suspicious', evidenceId: 'ev-1' }),
+      );
+    });
+
+    it('flags low accuracy without queueing it', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(evidence({ accuracy: 450 }));
+
+      const result = await service.verifyEvidence('ev-1');
+
+      expect(result.verification).toBe('low_accuracy');
+      expect(result.flags).toEqual(['low_accuracy']);
+      expect(result.reviewStatus).toBeNull();
+    });
+
+    it('flags impossible travel since the previous capture', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(evidence());
+      // ~30 km away five minutes earlier
+      (mockPrisma.gpsEvidence.findFirst as any).mockResolvedValue({
+        latitude: 27.12,
+        longitude: 80.95,
+        capturedAt: new Date(T1.getTime() - 5 * 60_000),
+      });
+
+      const result = await service.verifyEvidence('ev-1');
+
+      expect(result.verification).toBe('inside');
+      expect(result.flags).toEqual(['impossible_travel']);
+      expect(result.travelSpeedKmph).toBeGreaterThan(300);
+      expect(result.reviewStatus).toBe('pending');
+    });
+
+    it('reports no_geofence when the task has no location', async () => {
+      const ev = evidence();
+      ev.serviceRequest.serviceInstance = {
+        propertyLat: null as any,
+        propertyLng: null as any,
+        serviceDefinition: { definition: { governmentOffices: [], steps: [] } },
+      };
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(ev);
+
+      const result = await service.verifyEvidence('ev-1');
+      expect(result.verification).toBe('no_geofence');
+    });
+  });
+
+  describe('reviewEvidence', () => {
+    it('adds confirmed evidence to open visit contests', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(
+        evidence({ reviewStatus: 'pending', flags: ['outside_geofence'] }),
+      );
+      (mockPrisma.dispute.findMany as any).mockResolvedValue([{ id: 'dispute-1' }]);
+      (mockPrisma.dispute.findUnique as any).mockResolvedValue({ id: 'dispute-1' });
+
+      await service.reviewEvidence('ev-1', 'ops-1', 'confirmed', 'Agent was at home');
+
+      expect(mockPrisma.gpsEvidence.update).toHaveBeenCalledWith({
+        where: { id: 'ev-1' },
+        data: expect.objectContaining({ reviewStatus: 'confirmed', reviewedBy: 'ops-1' }),
+      });
+      expect(mockPrisma.disputeComment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          disputeId: 'dispute-1',
+          body: expect.stringContaining('confirmed suspicious (outside_geofence): Agent was at home'),
+        }),
+      });
+    });
+
+    it('rejects evidence that is not awaiting review', async () => {
+      (mockPrisma.gpsEvidence.findUnique as any).mockResolvedValue(evidence({ reviewStatus: 'cleared' }));
+      await expect(service.reviewEvidence('ev-1', 'ops-1', 'cleared')).rejects.toMatchObject({
+        code: 'BUSINESS_EVIDENCE_NOT_PENDING',
+      });
+    });
+  });
+
+  describe('contestVisit', () => {
+    beforeEach(() => {
+      (mockPrisma.serviceRequest.findUnique as any).mockResolvedValue({
+        id: 'sr-1',
+        customerId: 'cust-1',
+        assignedAgentId: 'agent-1',
+        cityId: 'city-1',
+      });
+    });
+
+    it('files a dispute with the evidence summary and derived severity', async () => {
+      (mockPrisma.gpsEvidence.findMany as any).mockResolvedValue([
+        { id: 'ev-1', verification: 'inside', flags: [], reviewStatus: null },
+        { id: 'ev-2', verification: 'outside', flags: ['outside_geofence'], reviewStatus: 'pending' },
+      ]);
+
+      await service.contestVisit({
+        serviceRequestId: 'sr-1',
+        contestedBy: 'cust-1',
+        contestedByRole: 'customer',
+        description: 'Nobody came to the site',
+      });
+
+      expect(mockPrisma.dispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          category: 'visit_contested',
+          severity: 'high',
+          agentId: 'agent-1',
+          metadata: expect.objectContaining({
+            gpsEvidence: expect.objectContaining({
+              inside: 1,
+              outside: 1,
+              pendingReview: 1,
+              suspiciousEvidenceIds: ['ev-2'],
+            }),
+          }),
+        }),
+      });
+    });
+
+    it('escalates to critical when suspicious evidence was confirmed', async () => {
+      (mockPrisma.gpsEvidence.findMany as any).mockResolvedValue([
+        { id: 'ev-2', verification: 'outside', flags: ['outside_geofence'], reviewStatus: 'confirmed' },
+      ]);
+      (mockPrisma.dispute.update as any).mockResolvedValue({});
+
+      await service.contestVisit({
+        serviceRequestId: 'sr-1',
+        contestedBy: 'support-1',
+        contestedByRole: 'support',
+        description: 'Customer called in',
+      });
+
+      expect(mockPrisma.dispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ severity: 'critical' }),
+      });
+    });
+
+    it("rejects a customer contesting someone else's request", async () => {
+      await expect(
+        service.contestVisit({
+          serviceRequestId: 'sr-1',
+          contestedBy: 'cust-2',
+          contestedByRole: 'customer',
+          description: 'x',
+        }),
+      ).rejects.toMatchObject({ code: 'AUTH_FORBIDDEN' });
+    });
+  });
+});
@@ -1,11 +1,13 @@
 // Story 3-2: Agent Assignment Service
-// Auto-assigns agents to service requests based on scoring (proximity + workload).
+// Auto-assigns agents to service requests based on the scoring pipeline
+// (proximity, workload, ratings, skills, language — weighted per city).
 // Supports manual Ops override and re-assignment.
 
 import { PrismaClient } from '@prisma/client';
 import PgBoss from 'pg-boss';
 import { scoreAgents } from './agent-scoring.service.js';
 import { BusinessError } from '../../shared/errors/business-error.js';
+import type { ServiceDefinitionJson } from '../services/service-definition.types.js';
 
 export interface AssignmentRequest {
   serviceRequestId: string;
@@ -22,9 +24,16 @@ export interface AssignmentResult {
   serviceRequestId: string;
   assignmentMethod: 'auto' | 'manual';
   scoringDetails?: {
-    candidates: Array<{ agentId: string; score: number; distance: number }>;
+    candidates: Array<{
+      agentId: string;
+      score: number;
+      distance: number;
+      breakdown?: Record<string, number>;
+    }>;
     selectedAgentId: string | null;
     reason: string;
+    weights?: Record<string, number>;
+    filteredOut?: Array<{ agentId: string; reason: string }>;
   };
 }
 
@@ -41,6 +50,11 @@ export class AgentAssignmentService {
   async autoAssign(request: AssignmentRequest): Promise<AssignmentResult> {
     const serviceRequest = await this.prisma.serviceRequest.findUnique({
       where: { id: request.serviceRequestId },
+      include: {
+        serviceInstance: {
+          select: { serviceDefinition: { select: { definition: true } } },
+        },
+      },
     });
 
     if (!serviceRequest) {
@@ -65,6 +79,11 @@ export class AgentAssignmentService {
       request.cityId,
       request.propertyLat,
       request.propertyLng,
+      {
+        serviceDefinition: serviceRequest.serviceInstance?.serviceDefinition
+          .definition as unknown as ServiceDefinitionJson | undefined,
+        customerId: serviceRequest.customerId,
+      },
     );
 
     if (!scoringResult.selectedAgentId) {
@@ -116,6 +135,12 @@ export class AgentAssignmentService {
       },
     });
 
+    // Fit the new task into the agent's day plan
+    await this.boss.send('agent.itinerary-replan', {
+      agentId: scoringResult.selectedAgentId,
+      reason: 'task_added',
+    });
+
     return {
       assignmentId: assignment.id,
       agentId: scoringResult.selectedAgentId,
@@ -183,6 +208,11 @@ export class AgentAssignmentService {
       },
     });
 
+    await this.boss.send('agent.itinerary-replan', {
+      agentId: request.manualAgentId,
+      reason: 'task_added',
+    });
+
     return {
       assignmentId: assignment.id,
       agentId: request.manualAgentId,
@@ -248,6 +278,11 @@ export class AgentAssignmentService {
       data: { serviceRequestId, assignmentId: assignment.id },
     });
 
+    await this.boss.send('agent.itinerary-replan', { agentId: newAgentId, reason: 'task_added' });
+    if (previousAgentId) {
+      await this.boss.send('agent.itinerary-replan', { agentId: previousAgentId, reason: 'manual' });
+    }
+
     return {
       assignmentId: assignment.id,
       agentId: newAgentId,
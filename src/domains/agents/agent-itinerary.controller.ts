@@ -0,0 +1,67 @@
+// Agent daily itinerary controller
+import { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authorize } from '../../middleware/authorize';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import { AgentItineraryService, istDate } from './agent-itinerary.service.js';
+
+const itineraryQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format: YYYY-MM-DD').optional(),
+});
+
+/**
+ * Resolves the authenticated user's userId to their Agent record UUID.
+ */
+async function requireAgentId(prisma: PrismaClient, userId: string): Promise<string> {
+  const agent = await prisma.agent.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (!agent) {
+    throw new BusinessError('AGENT_NOT_FOUND', 'No agent profile for this user', 404);
+  }
+  return agent.id;
+}
+
+export function agentItineraryRoutes(service: AgentItineraryService, prisma: PrismaClient): Router {
+  const router = Router();
+
+  // GET /api/v1/agents/itinerary?date=YYYY-MM-DD
+  // Ordered day plan with travel legs; defaults to today (IST).
+  router.get(
+    '/',
+    authorize('agent'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { date } = itineraryQuerySchema.parse(req.query);
+        const agentId = await requireAgentId(prisma, req.user!.id);
+        const itinerary = await service.getItinerary(agentId, date ?? istDate(new Date()));
+        res.json({ success: true, data: itinerary });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // POST /api/v1/agents/itinerary/replan
+  // Re-plan the day from the agent's current location and time.
+  router.post(
+    '/replan',
+    authorize('agent'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { date } = itineraryQuerySchema.parse(req.body ?? {});
+        const agentId = await requireAgentId(prisma, req.user!.id);
+        const itinerary = await service.planItinerary(agentId, date ?? istDate(new Date()), {
+          reason: 'manual',
+        });
+        res.json({ success: true, data: itinerary });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,48 @@
+/**
+ * Agent itinerary re-planning pg-boss jobs.
+ * - agent.itinerary-replan: a task was assigned to the agent
+ * - agent.itinerary-check-route: a GPS check-in may show the agent off route
+ */
+import { PrismaClient } from '@prisma/client';
+import { AgentItineraryService, type PlanReason } from './agent-itinerary.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const ITINERARY_REPLAN_QUEUE = 'agent.itinerary-replan';
+export const ITINERARY_CHECK_ROUTE_QUEUE = 'agent.itinerary-check-route';
+
+export interface ItineraryReplanPayload {
+  agentId: string;
+  reason: PlanReason;
+}
+
+export interface ItineraryCheckRoutePayload {
+  agentId: string;
+  lat: number;
+  lng: number;
+  capturedAt: string;
+}
+
+export async function registerAgentItineraryJobs(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const itineraryService = new AgentItineraryService(prisma);
+
+  await boss.createQueue(ITINERARY_REPLAN_QUEUE);
+  await boss.work(ITINERARY_REPLAN_QUEUE, async (job: { data: ItineraryReplanPayload }) => {
+    const { agentId, reason } = job.data;
+    const itinerary = await itineraryService.replanIfPlanned(agentId, reason);
+    if (itinerary) {
+      logger.info({ agentId, reason, version: itinerary.version }, 'Agent itinerary re-planned');
+    }
+  });
+
+  await boss.createQueue(ITINERARY_CHECK_ROUTE_QUEUE);
+  await boss.work(ITINERARY_CHECK_ROUTE_QUEUE, async (job: { data: ItineraryCheckRoutePayload }) => {
+    const { agentId, lat, lng, capturedAt } = job.data;
+    const result = await itineraryService.checkRoute(agentId, lat, lng, new Date(capturedAt));
+    if (result.offRoute) {
+      logger.info({ agentId, deviationKm: result.deviationKm }, 'Agent off route — itinerary re-planned');
+    }
+  });
+}
@@ -0,0 +1,515 @@
+// Agent daily itinerary
+// Orders an agent's open tasks into a day plan across property sites,
+// government offices and court hearings. Travel legs are estimated offline
+// from coordinates (haversine × road factor at the city's average speed), so
+// planning works without a routing provider. Plans are persisted per agent
+// and day, and re-planned when a task is added or the agent goes off route.
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import { haversineDistance } from '../../shared/utils/haversine.js';
+import { distanceToSegmentKm } from '../../shared/utils/geofence.js';
+import { SlaCalendar } from '../services/sla-calendar.js';
+import type { ServiceDefinitionJson } from '../services/service-definition.types.js';
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/** Straight-line distance understates road distance in Indian cities */
+const ROAD_FACTOR = 1.3;
+const DEFAULT_TRAVEL_SPEED_KMPH = 18;
+
+/** Field day for site visits (IST); offices use the city's working hours */
+const FIELD_DAY_START = '08:00';
+const FIELD_DAY_END = '20:00';
+
+const SITE_VISIT_MINUTES = 45;
+const OFFICE_VISIT_MINUTES = 90;
+const HEARING_MINUTES = 120;
+
+/** GPS check-ins farther than this from the planned leg trigger a re-plan */
+export const OFF_ROUTE_THRESHOLD_KM = 2;
+
+const CLOSED_TASK_STATUSES = ['completed', 'cancelled'];
+
+export type StopKind = 'site_visit' | 'office_visit' | 'hearing';
+export type PlanReason = 'requested' | 'task_added' | 'off_route' | 'manual';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface TravelLeg {
+  distanceKm: number;
+  minutes: number;
+}
+
+export interface ItineraryStop {
+  taskId: string;
+  kind: StopKind;
+  label: string;
+  location: GeoPoint | null;
+  arriveAt: string;
+  startAt: string;
+  departAt: string;
+  travel: TravelLeg;
+  /** Hearings start at a fixed time; late is set if the agent cannot make it */
+  fixedTime: boolean;
+  late?: boolean;
+}
+
+export interface UnscheduledStop {
+  taskId: string;
+  kind: StopKind | null;
+  label: string;
+  reason: string;
+}
+
+export interface ItineraryTotals {
+  stopCount: number;
+  travelKm: number;
+  travelMinutes: number;
+  startAt: string | null;
+  endAt: string | null;
+  origin: GeoPoint | null;
+}
+
+export interface Itinerary {
+  agentId: string;
+  planDate: string;
+  version: number;
+  planReason: PlanReason;
+  generatedAt: string;
+  stops: ItineraryStop[];
+  unscheduled: UnscheduledStop[];
+  totals: ItineraryTotals;
+}
+
+export interface RouteCheckResult {
+  offRoute: boolean;
+  deviationKm: number | null;
+  itinerary: Itinerary | null;
+}
+
+/** A stop to be placed, with the time window it must fit in */
+export interface PlannableStop {
+  taskId: string;
+  kind: StopKind;
+  label: string;
+  location: GeoPoint | null;
+  durationMinutes: number;
+  windowStart: Date;
+  windowEnd: Date;
+  /** Fixed appointment time (hearings) */
+  fixedAt?: Date;
+}
+
+export interface SequenceOptions {
+  origin: GeoPoint | null;
+  startAt: Date;
+  speedKmph: number;
+}
+
+/**
+ * Estimated travel between two points. Unknown locations cost nothing.
+ */
+export function estimateLeg(from: GeoPoint | null, to: GeoPoint | null, speedKmph: number): TravelLeg {
+  if (!from || !to) return { distanceKm: 0, minutes: 0 };
+  const km = haversineDistance(from.lat, from.lng, to.lat, to.lng) * ROAD_FACTOR;
+  return {
+    distanceKm: Math.round(km * 100) / 100,
+    minutes: Math.ceil((km / speedKmph) * 60),
+  };
+}
+
+/**
+ * Order stops greedily: at each point take the flexible stop that can be
+ * finished earliest without missing its window or the next fixed-time
+ * hearing; when none fits, go to the next hearing. Stops that cannot be
+ * placed are returned as unscheduled.
+ */
+export function sequenceStops(
+  stops: PlannableStop[],
+  options: SequenceOptions,
+): { stops: ItineraryStop[]; unscheduled: UnscheduledStop[] } {
+  const flexible = stops.filter((s) => !s.fixedAt);
+  const fixed = stops
+    .filter((s) => s.fixedAt)
+    .sort((a, b) => a.fixedAt!.getTime() - b.fixedAt!.getTime());
+
+  const placed: ItineraryStop[] = [];
+  let here = options.origin;
+  let now = options.startAt.getTime();
+
+  const place = (stop: PlannableStop, leg: TravelLeg, arrive: number, start: number) => {
+    const depart = start + stop.durationMinutes * MINUTE_MS;
+    placed.push({
+      taskId: stop.taskId,
+      kind: stop.kind,
+      label: stop.label,
+      location: stop.location,
+      arriveAt: new Date(arrive).toISOString(),
+      startAt: new Date(start).toISOString(),
+      departAt: new Date(depart).toISOString(),
+      travel: leg,
+      fixedTime: !!stop.fixedAt,
+      ...(stop.fixedAt && start > stop.fixedAt.getTime() ? { late: true } : {}),
+    });
+    here = stop.location ?? here;
+    now = depart;
+  };
+
+  while (flexible.length || fixed.length) {
+    const nextFixed = fixed[0];
+    let best: { index: number; leg: TravelLeg; arrive: number; start: number; end: number } | null =
+      null;
+
+    for (const [index, stop] of flexible.entries()) {
+      const leg = estimateLeg(here, stop.location, options.speedKmph);
+      const arrive = now + leg.minutes * MINUTE_MS;
+      const start = Math.max(arrive, stop.windowStart.getTime());
+      const end = start + stop.durationMinutes * MINUTE_MS;
+      if (end > stop.windowEnd.getTime()) continue;
+      if (nextFixed) {
+        const onward = estimateLeg(stop.location ?? here, nextFixed.location, options.speedKmph);
+        if (end + onward.minutes * MINUTE_MS > nextFixed.fixedAt!.getTime()) continue;
+      }
+      if (!best || end < best.end) best = { index, leg, arrive, start, end };
+    }
+
+    if (best) {
+      const { index, leg, arrive, start } = best;
+      place(flexible.splice(index, 1)[0], leg, arrive, start);
+      continue;
+    }
+
+    if (!nextFixed) break;
+    fixed.shift();
+    const leg = estimateLeg(here, nextFixed.location, options.speedKmph);
+    const arrive = now + leg.minutes * MINUTE_MS;
+    place(nextFixed, leg, arrive, Math.max(arrive, nextFixed.fixedAt!.getTime()));
+  }
+
+  const unscheduled = flexible.map((s) => ({
+    taskId: s.taskId,
+    kind: s.kind,
+    label: s.label,
+    reason: s.kind === 'office_visit' ? 'does not fit within office hours' : 'does not fit within the field day',
+  }));
+
+  return { stops: placed, unscheduled };
+}
+
+/** YYYY-MM-DD of an instant in IST */
+export function istDate(at: Date): string {
+  return new Date(at.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function istTime(planDate: string, hhmm: string): Date {
+  return new Date(`${planDate}T${hhmm}:00+05:30`);
+}
+
+function normalise(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+interface CityPlanningConfig {
+  calendar: SlaCalendar;
+  speedKmph: number;
+  offices: Map<string, GeoPoint>;
+}
+
+export class AgentItineraryService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Get the agent's itinerary for a day, planning it on first request.
+   */
+  async getItinerary(agentId: string, planDate: string): Promise<Itinerary> {
+    const stored = await this.prisma.agentItinerary.findUnique({
+      where: { agentId_planDate: { agentId, planDate } },
+    });
+    if (stored) return this.toItinerary(stored);
+    return this.planItinerary(agentId, planDate);
+  }
+
+  /**
+   * Build and persist the itinerary for a day. When an origin is given
+   * (e.g. a GPS check-in), planning starts from that point and time.
+   */
+  async planItinerary(
+    agentId: string,
+    planDate: string,
+    options: { reason?: PlanReason; origin?: GeoPoint & { at: Date } } = {},
+  ): Promise<Itinerary> {
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { id: true, cityId: true, currentLat: true, currentLng: true },
+    });
+    if (!agent) {
+      throw new BusinessError('AGENT_NOT_FOUND', 'Agent not found', 404, { agentId });
+    }
+
+    const config = await this.loadCityConfig(agent.cityId);
+    const { plannable, unscheduled } = await this.collectStops(agentId, planDate, config);
+
+    const now = options.origin?.at ?? new Date();
+    const fieldStart = istTime(planDate, FIELD_DAY_START);
+    const origin: GeoPoint | null = options.origin
+      ? { lat: options.origin.lat, lng: options.origin.lng }
+      : agent.currentLat != null && agent.currentLng != null
+        ? { lat: agent.currentLat, lng: agent.currentLng }
+        : null;
+
+    const sequenced = sequenceStops(plannable, {
+      origin,
+      startAt: new Date(Math.max(fieldStart.getTime(), now.getTime())),
+      speedKmph: config.speedKmph,
+    });
+
+    const stops = sequenced.stops;
+    const totals: ItineraryTotals = {
+      stopCount: stops.length,
+      travelKm: Math.round(stops.reduce((sum, s) => sum + s.travel.distanceKm, 0) * 100) / 100,
+      travelMinutes: stops.reduce((sum, s) => sum + s.travel.minutes, 0),
+      startAt: stops[0]?.startAt ?? null,
+      endAt: stops[stops.length - 1]?.departAt ?? null,
+      origin,
+    };
+    const allUnscheduled = [...unscheduled, ...sequenced.unscheduled];
+    const planReason = options.reason ?? 'requested';
+    const generatedAt = new Date();
+
+    const saved = await this.prisma.agentItinerary.upsert({
+      where: { agentId_planDate: { agentId, planDate } },
+      create: {
+        agentId,
+        cityId: agent.cityId,
+        planDate,
+        stops: stops as unknown as Prisma.InputJsonValue,
+        unscheduled: allUnscheduled as unknown as Prisma.InputJsonValue,
+        totals: totals as unknown as Prisma.InputJsonValue,
+        planReason,
+        generatedAt,
+      },
+      update: {
+        stops: stops as unknown as Prisma.InputJsonValue,
+        unscheduled: allUnscheduled as unknown as Prisma.InputJsonValue,
+        totals: totals as unknown as Prisma.InputJsonValue,
+        planReason,
+        generatedAt,
+        version: { increment: 1 },
+      },
+    });
+
+    return this.toItinerary(saved);
+  }
+
+  /**
+   * Re-plan today's itinerary if the agent already has one. Agents without
+   * a plan get a fresh one on their next request.
+   */
+  async replanIfPlanned(agentId: string, reason: PlanReason, at = new Date()): Promise<Itinerary | null> {
+    const planDate = istDate(at);
+    const existing = await this.prisma.agentItinerary.findUnique({
+      where: { agentId_planDate: { agentId, planDate } },
+      select: { id: true },
+    });
+    if (!existing) return null;
+    return this.planItinerary(agentId, planDate, { reason });
+  }
+
+  /**
+   * Compare a GPS check-in with the planned route. If the agent is more
+   * than OFF_ROUTE_THRESHOLD_KM from where the plan expects them, the rest
+   * of the day is re-planned from the check-in.
+   */
+  async checkRoute(agentId: string, lat: number, lng: number, at: Date): Promise<RouteCheckResult> {
+    const planDate = istDate(at);
+    const stored = await this.prisma.agentItinerary.findUnique({
+      where: { agentId_planDate: { agentId, planDate } },
+    });
+    if (!stored) return { offRoute: false, deviationKm: null, itinerary: null };
+
+    const itinerary = this.toItinerary(stored);
+    const position = { lat, lng };
+    const index = itinerary.stops.findIndex((s) => new Date(s.departAt) > at);
+    const current = itinerary.stops[index];
+    if (!current?.location) return { offRoute: false, deviationKm: null, itinerary };
+
+    let deviationKm: number;
+    if (at >= new Date(current.arriveAt)) {
+      deviationKm = haversineDistance(lat, lng, current.location.lat, current.location.lng);
+    } else {
+      const previous = index > 0 ? itinerary.stops[index - 1].location : itinerary.totals.origin;
+      deviationKm = distanceToSegmentKm(position, previous ?? current.location, current.location);
+    }
+    deviationKm = Math.round(deviationKm * 100) / 100;
+
+    if (deviationKm <= OFF_ROUTE_THRESHOLD_KM) {
+      return { offRoute: false, deviationKm, itinerary };
+    }
+
+    const replanned = await this.planItinerary(agentId, planDate, {
+      reason: 'off_route',
+      origin: { lat, lng, at },
+    });
+    return { offRoute: true, deviationKm, itinerary: replanned };
+  }
+
+  private async loadCityConfig(cityId: string): Promise<CityPlanningConfig> {
+    const city = await this.prisma.city.findUnique({
+      where: { id: cityId },
+      select: { configData: true },
+    });
+    const config = (city?.configData ?? {}) as {
+      travelSpeedKmph?: number;
+      officeAddresses?: Record<string, { addressLine1?: string; gpsLat?: number; gpsLng?: number }>;
+    };
+
+    const offices = new Map<string, GeoPoint>();
+    for (const [key, office] of Object.entries(config.officeAddresses ?? {})) {
+      if (office?.gpsLat == null || office?.gpsLng == null) continue;
+      const point = { lat: office.gpsLat, lng: office.gpsLng };
+      offices.set(normalise(key), point);
+      if (office.addressLine1) offices.set(normalise(office.addressLine1), point);
+    }
+
+    return {
+      calendar: SlaCalendar.fromCityConfig(city?.configData),
+      speedKmph: config.travelSpeedKmph ?? DEFAULT_TRAVEL_SPEED_KMPH,
+      offices,
+    };
+  }
+
+  /**
+   * Turn open tasks into plannable stops: a scheduled hearing that day, else
+   * the current step's government office, else the property site.
+   */
+  private async collectStops(
+    agentId: string,
+    planDate: string,
+    config: CityPlanningConfig,
+  ): Promise<{ plannable: PlannableStop[]; unscheduled: UnscheduledStop[] }> {
+    const tasks = await this.prisma.serviceRequest.findMany({
+      where: { assignedAgentId: agentId, status: { notIn: CLOSED_TASK_STATUSES } },
+      select: {
+        id: true,
+        serviceName: true,
+        propertyAddress: true,
+        serviceInstance: {
+          select: {
+            propertyLat: true,
+            propertyLng: true,
+            currentStepIndex: true,
+            serviceDefinition: { select: { definition: true } },
+          },
+        },
+      },
+    });
+
+    const dayStart = istTime(planDate, '00:00');
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * MINUTE_MS);
+    const hearings = tasks.length
+      ? await this.prisma.courtHearing.findMany({
+          where: {
+            serviceRequestId: { in: tasks.map((t) => t.id) },
+            status: 'scheduled',
+            hearingDate: { gte: dayStart, lt: dayEnd },
+          },
+          orderBy: { hearingDate: 'asc' },
+        })
+      : [];
+    const hearingByTask = new Map(hearings.map((h) => [h.serviceRequestId, h]));
+
+    const fieldWindow = {
+      windowStart: istTime(planDate, FIELD_DAY_START),
+      windowEnd: istTime(planDate, FIELD_DAY_END),
+    };
+    const officeHours = config.calendar.workingWindowOn(dayStart);
+
+    const plannable: PlannableStop[] = [];
+    const unscheduled: UnscheduledStop[] = [];
+
+    for (const task of tasks) {
+      const hearing = hearingByTask.get(task.id);
+      if (hearing) {
+        plannable.push({
+          taskId: task.id,
+          kind: 'hearing',
+          label: `${hearing.courtName} — ${hearing.caseNumber}`,
+          location: config.offices.get(normalise(hearing.courtName)) ?? null,
+          durationMinutes: HEARING_MINUTES,
+          fixedAt: hearing.hearingDate,
+          ...fieldWindow,
+        });
+        continue;
+      }
+
+      const instance = task.serviceInstance;
+      const definition = instance?.serviceDefinition?.definition as unknown as
+        | ServiceDefinitionJson
+        | undefined;
+      const office = definition?.steps?.[instance?.currentStepIndex ?? 0]?.governmentOffice;
+
+      if (office) {
+        const location = config.offices.get(normalise(office.officeName));
+        if (!officeHours) {
+          unscheduled.push({ taskId: task.id, kind: 'office_visit', label: office.officeName, reason: 'office closed on this day' });
+        } else if (!location) {
+          unscheduled.push({ taskId: task.id, kind: 'office_visit', label: office.officeName, reason: 'office location unknown' });
+        } else {
+          plannable.push({
+            taskId: task.id,
+            kind: 'office_visit',
+            label: office.officeName,
+            location,
+            durationMinutes: OFFICE_VISIT_MINUTES,
+            windowStart: officeHours.open,
+            windowEnd: officeHours.close,
+          });
+        }
+        continue;
+      }
+
+      const label = task.propertyAddress ?? task.serviceName ?? 'Property site';
+      if (instance?.propertyLat == null || instance?.propertyLng == null) {
+        unscheduled.push({ taskId: task.id, kind: 'site_visit', label, reason: 'property location unknown' });
+        continue;
+      }
+      plannable.push({
+        taskId: task.id,
+        kind: 'site_visit',
+        label,
+        location: { lat: instance.propertyLat, lng: instance.propertyLng },
+        durationMinutes: SITE_VISIT_MINUTES,
+        ...fieldWindow,
+      });
+    }
+
+    return { plannable, unscheduled };
+  }
+
+  private toItinerary(row: {
+    agentId: string;
+    planDate: string;
+    version: number;
+    planReason: string;
+    generatedAt: Date;
+    stops: Prisma.JsonValue;
+    unscheduled: Prisma.JsonValue;
+    totals: Prisma.JsonValue;
+  }): Itinerary {
+    return {
+      agentId: row.agentId,
+      planDate: row.planDate,
+      version: row.version,
+      planReason: row.planReason as PlanReason,
+      generatedAt: row.generatedAt.toISOString(),
+      stops: row.stops as unknown as ItineraryStop[],
+      unscheduled: row.unscheduled as unknown as UnscheduledStop[],
+      totals: row.totals as unknown as ItineraryTotals,
+    };
+  }
+}
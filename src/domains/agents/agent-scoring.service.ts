@@ -1,33 +1,157 @@
 import { PrismaClient } from '@prisma/client';
 import { haversineDistance } from '../../shared/utils/haversine';
+import { RatingService } from '../ratings/rating.service';
+import type { AgentScoringWeights } from '../franchise/franchise.types';
+import type {
+  AgentRequirements,
+  ServiceDefinitionJson,
+} from '../services/service-definition.types';
+
+export type ScoringFactor = 'distance' | 'workload' | 'rating' | 'skills' | 'language';
+export type ScoringWeights = Record<ScoringFactor, number>;
 
 export interface AgentScore {
   agentId: string;
   distance: number;
   taskCount: number;
   score: number;
+  /** Per-factor scores in [0, 1] before weighting */
+  breakdown?: Partial<Record<ScoringFactor, number>>;
 }
 
 export interface ScoringResult {
   candidates: AgentScore[];
   selectedAgentId: string | null;
   reason: string;
+  weights?: ScoringWeights;
+  /** Agents removed by hard requirements, with the unmet requirement */
+  filteredOut?: Array<{ agentId: string; reason: string }>;
+}
+
+/**
+ * Optional context for scoring. Without it, agents are ranked by the
+ * city's weights using proximity and workload data only.
+ */
+export interface ScoringContext {
+  serviceDefinition?: ServiceDefinitionJson;
+  customerId?: string;
+  /** Overrides the city's configured weights */
+  weights?: AgentScoringWeights;
 }
 
-const DISTANCE_WEIGHT = 0.6;
-const TASK_COUNT_WEIGHT = 0.4;
 const MAX_DISTANCE_KM = 50; // Normalize distances within 50km radius
+const MAX_RATING = 5;
+
+/** AC3 formula: 0.6 * proximity + 0.4 * availability */
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  distance: 0.6,
+  workload: 0.4,
+  rating: 0,
+  skills: 0,
+  language: 0,
+};
+
+interface CandidateAgent {
+  id: string;
+  distance: number;
+  taskCount: number;
+  languages: string[];
+  registeredOffices: string[];
+  expertiseTags: string[];
+  passedTraining: Set<string>;
+  averageRating: number | null;
+}
+
+interface ScorerInput {
+  maxTaskCount: number;
+  definition?: ServiceDefinitionJson;
+  customerLanguage?: string;
+}
+
+type Scorer = (agent: CandidateAgent, input: ScorerInput) => number;
+
+/**
+ * Scoring pipeline — one scorer per factor, each returning a value in [0, 1].
+ */
+const SCORERS: Record<ScoringFactor, Scorer> = {
+  distance: (agent) => 1 - Math.min(agent.distance / MAX_DISTANCE_KM, 1),
+  workload: (agent, input) => 1 - agent.taskCount / input.maxTaskCount,
+  // Unrated agents get a neutral score so new agents are not starved
+  rating: (agent) => (agent.averageRating === null ? 0.5 : agent.averageRating / MAX_RATING),
+  skills: (agent, input) => {
+    if (!input.definition) return 1;
+    const offices = input.definition.governmentOffices.map((o) => o.officeName);
+    const officeScore = offices.length
+      ? offices.filter((o) => agent.registeredOffices.includes(o)).length / offices.length
+      : 1;
+    const trainingScore = agent.passedTraining.has(input.definition.category) ? 1 : 0;
+    return (officeScore + trainingScore) / 2;
+  },
+  language: (agent, input) =>
+    !input.customerLanguage || agent.languages.includes(input.customerLanguage) ? 1 : 0,
+};
+
+/**
+ * Return the first unmet hard requirement, or null if the agent qualifies.
+ */
+function unmetRequirement(agent: CandidateAgent, req: AgentRequirements): string | null {
+  const missingTraining = req.trainingCategories?.find((c) => !agent.passedTraining.has(c));
+  if (missingTraining) return `missing training: ${missingTraining}`;
+
+  const missingOffice = req.governmentOffices?.find((o) => !agent.registeredOffices.includes(o));
+  if (missingOffice) return `not registered at: ${missingOffice}`;
+
+  if (req.languages?.length && !req.languages.some((l) => agent.languages.includes(l))) {
+    return `speaks none of: ${req.languages.join(', ')}`;
+  }
+
+  const missingTag = req.expertiseTags?.find((t) => !agent.expertiseTags.includes(t));
+  if (missingTag) return `missing expertise: ${missingTag}`;
+
+  return null;
+}
+
+/**
+ * Resolve scoring weights: explicit override, then city config, then defaults.
+ */
+async function resolveWeights(
+  prisma: PrismaClient,
+  cityId: string,
+  override?: AgentScoringWeights,
+): Promise<ScoringWeights> {
+  let configured = override;
+  if (!configured) {
+    const city = await prisma.city.findUnique({
+      where: { id: cityId },
+      select: { configData: true },
+    });
+    configured = (city?.configData as { agentScoringWeights?: AgentScoringWeights } | null)
+      ?.agentScoringWeights;
+  }
+  if (!configured) return DEFAULT_SCORING_WEIGHTS;
+
+  return {
+    distance: configured.distance ?? 0,
+    workload: configured.workload ?? 0,
+    rating: configured.rating ?? 0,
+    skills: configured.skills ?? 0,
+    language: configured.language ?? 0,
+  };
+}
 
 /**
- * Score eligible agents for a service request based on proximity and workload.
- * AC2: Agent eligibility - city match, active status, below max tasks.
- * AC3: Scoring formula - 0.6 * proximity + 0.4 * availability.
+ * Score eligible agents for a service request.
+ * AC2: Agent eligibility - city match, active status, below max tasks,
+ *      and the service definition's agentRequirements.
+ * AC3: Weighted sum of the pipeline's factors using the city's weights
+ *      (default 0.6 * proximity + 0.4 * availability).
  */
 export async function scoreAgents(
   prisma: PrismaClient,
   cityId: string,
   propertyLat: number,
   propertyLng: number,
+  context: ScoringContext = {},
 ): Promise<ScoringResult> {
   // AC2: Find eligible agents
   const agents = await prisma.agent.findMany({
@@ -40,6 +164,9 @@ export async function scoreAgents(
       currentLat: true,
       currentLng: true,
       maxConcurrentTasks: true,
+      languages: true,
+      registeredOffices: true,
+      expertiseTags: true,
       _count: {
         select: {
           agentAssignmentLogs: true,
@@ -56,19 +183,21 @@ export async function scoreAgents(
     };
   }
 
+  const distanceOf = (a: { currentLat: number | null; currentLng: number | null }) =>
+    a.currentLat && a.currentLng
+      ? haversineDistance(propertyLat, propertyLng, a.currentLat, a.currentLng)
+      : MAX_DISTANCE_KM;
+
   // Filter agents at or above max task limit
-  const eligible = agents.filter(
+  const available = agents.filter(
     (a) => a._count.agentAssignmentLogs < a.maxConcurrentTasks,
   );
 
-  if (eligible.length === 0) {
+  if (available.length === 0) {
     return {
       candidates: agents.map((a) => ({
         agentId: a.id,
-        distance:
-          a.currentLat && a.currentLng
-            ? haversineDistance(propertyLat, propertyLng, a.currentLat, a.currentLng)
-            : MAX_DISTANCE_KM,
+        distance: distanceOf(a),
         taskCount: a._count.agentAssignmentLogs,
         score: 0,
       })),
@@ -77,35 +206,96 @@ export async function scoreAgents(
     };
   }
 
+  const weights = await resolveWeights(prisma, cityId, context.weights);
+  const definition = context.serviceDefinition;
+  const requirements = definition?.agentRequirements;
+
+  // Load quality data only for factors that are in play
+  const needsTraining = weights.skills > 0 || !!requirements?.trainingCategories?.length;
+  const passedTraining = new Map<string, Set<string>>();
+  if (needsTraining) {
+    const progress = await prisma.trainingProgress.findMany({
+      where: { agentId: { in: available.map((a) => a.id) }, passed: true },
+      select: { agentId: true, trainingModule: { select: { learningPath: true } } },
+    });
+    for (const p of progress) {
+      if (!p.trainingModule.learningPath) continue;
+      const set = passedTraining.get(p.agentId) ?? new Set<string>();
+      set.add(p.trainingModule.learningPath);
+      passedTraining.set(p.agentId, set);
+    }
+  }
+
+  const ratings =
+    weights.rating > 0
+      ? await new RatingService(prisma).getAverageRatingsForAgents(available.map((a) => a.id))
+      : new Map<string, number>();
+
+  let customerLanguage: string | undefined;
+  if (weights.language > 0 && context.customerId) {
+    const customer = await prisma.user.findUnique({
+      where: { id: context.customerId },
+      select: { languagePref: true },
+    });
+    customerLanguage = customer?.languagePref;
+  }
+
+  const candidatesIn: CandidateAgent[] = available.map((a) => ({
+    id: a.id,
+    distance: distanceOf(a),
+    taskCount: a._count.agentAssignmentLogs,
+    languages: a.languages ?? [],
+    registeredOffices: a.registeredOffices ?? [],
+    expertiseTags: a.expertiseTags ?? [],
+    passedTraining: passedTraining.get(a.id) ?? new Set<string>(),
+    averageRating: ratings.get(a.id) ?? null,
+  }));
+
+  // Hard requirements from the service definition
+  const filteredOut: Array<{ agentId: string; reason: string }> = [];
+  const eligible = requirements
+    ? candidatesIn.filter((agent) => {
+        const unmet = unmetRequirement(agent, requirements);
+        if (unmet) filteredOut.push({ agentId: agent.id, reason: unmet });
+        return !unmet;
+      })
+    : candidatesIn;
+
+  if (eligible.length === 0) {
+    return {
+      candidates: [],
+      selectedAgentId: null,
+      reason: 'no agents meet service requirements',
+      weights,
+      filteredOut,
+    };
+  }
+
   // AC3: Score eligible agents
-  const maxTaskCount = Math.max(
-    ...eligible.map((a) => a._count.agentAssignmentLogs),
-    1,
-  );
+  const input: ScorerInput = {
+    maxTaskCount: Math.max(...eligible.map((a) => a.taskCount), 1),
+    definition,
+    customerLanguage,
+  };
+  const totalWeight =
+    (Object.keys(SCORERS) as ScoringFactor[]).reduce((sum, f) => sum + weights[f], 0) || 1;
 
   const candidates: AgentScore[] = eligible.map((agent) => {
-    const distance =
-      agent.currentLat && agent.currentLng
-        ? haversineDistance(
-            propertyLat,
-            propertyLng,
-            agent.currentLat,
-            agent.currentLng,
-          )
-        : MAX_DISTANCE_KM;
-
-    const normalizedDistance = Math.min(distance / MAX_DISTANCE_KM, 1);
-    const normalizedTaskCount = agent._count.agentAssignmentLogs / maxTaskCount;
-
-    const score =
-      DISTANCE_WEIGHT * (1 - normalizedDistance) +
-      TASK_COUNT_WEIGHT * (1 - normalizedTaskCount);
+    const breakdown: Partial<Record<ScoringFactor, number>> = {};
+    let weighted = 0;
+    for (const factor of Object.keys(SCORERS) as ScoringFactor[]) {
+      if (weights[factor] === 0) continue;
+      const value = SCORERS[factor](agent, input);
+      breakdown[factor] = Math.round(value * 1000) / 1000;
+      weighted += weights[factor] * value;
+    }
 
     return {
       agentId: agent.id,
-      distance: Math.round(distance * 100) / 100,
-      taskCount: agent._count.agentAssignmentLogs,
-      score: Math.round(score * 1000) / 1000,
+      distance: Math.round(agent.distance * 100) / 100,
+      taskCount: agent.taskCount,
+      score: Math.round((weighted / totalWeight) * 1000) / 1000,
+      breakdown,
     };
   });
 
@@ -116,5 +306,7 @@ export async function scoreAgents(
     candidates,
     selectedAgentId: candidates[0].agentId,
     reason: 'assigned to highest-scoring agent',
+    weights,
+    filteredOut,
   };
 }
@@ -0,0 +1,594 @@
+// Story 3-19: Agent offline sync
+// Applies batches of changes made offline in the agent app and serves delta
+// pulls. Every synced entity carries a version vector
+// ({ "server": n, "agent:<id>": n }); sync writes bump the agent's component,
+// and any other write (ops console, jobs) is detected from the entity's
+// updatedAt and bumps the server component. An item conflicts when the server
+// vector has advanced past the base version the client last pulled.
+//
+// Resolution rules, per entity type:
+// - task_status:    forward progress wins — the client's status is applied if
+//                   it is a valid transition from the current server status,
+//                   otherwise the server wins. Reassigned or cancelled tasks
+//                   always reject.
+// - checklist_step: a step already completed keeps its completion and merges
+//                   the client's photos; a step ops reopened stays open.
+// - cash_receipt:   collected cash is never dropped — the client wins; a
+//                   receipt already on file with another amount needs review.
+// - gps_evidence:   append-only, never conflicts.
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import {
+  AgentTaskService,
+  isValidTaskTransition,
+  type GpsEvidenceInput,
+  type TaskUpdatePayload,
+} from './agent-task.service.js';
+import { ChecklistService, type ChecklistStepCompletion } from './checklist.service.js';
+import { CashCollectionService, type CashReceiptCreatePayload } from './cash-collection.service.js';
+
+export type SyncItemType = 'task_update' | 'checklist_step' | 'cash_receipt' | 'gps_evidence';
+export type SyncEntityType = 'task_status' | 'checklist_step' | 'cash_receipt' | 'gps_evidence';
+export type SyncResolution = 'client_wins' | 'server_wins' | 'merged' | 'needs_review';
+export type VersionVector = Record<string, number>;
+
+export interface SyncBatchItem {
+  idempotencyKey: string;
+  type: SyncItemType;
+  payload: Record<string, unknown>;
+  clientTimestamp: string;
+  /** Version vector of the entity as last pulled by the client */
+  baseVersion?: VersionVector;
+}
+
+export interface SyncConflict {
+  idempotencyKey: string;
+  entityType: SyncEntityType;
+  entityId: string;
+  resolution: SyncResolution;
+  reason: string;
+  serverState: Record<string, unknown>;
+  clientState: Record<string, unknown>;
+}
+
+/**
+ * Per-item outcome. `conflict` items carry a resolution: with client_wins or
+ * merged the client's change was applied, with server_wins it was discarded.
+ */
+export interface SyncItemResult {
+  idempotencyKey: string;
+  entityType: SyncEntityType;
+  entityId: string | null;
+  status: 'applied' | 'duplicate' | 'conflict' | 'error';
+  resolution?: SyncResolution;
+  version?: VersionVector;
+  error?: string;
+}
+
+export interface SyncBatchResult {
+  processed: number;
+  results: SyncItemResult[];
+  conflicts: SyncConflict[];
+}
+
+export interface SyncPullResult {
+  cursor: string;
+  hasMore: boolean;
+  tasks: Array<Record<string, unknown> & { version: VersionVector }>;
+  checklistSteps: Array<Record<string, unknown> & { version: VersionVector }>;
+  cashReceipts: Array<Record<string, unknown> & { version: VersionVector }>;
+  /** Tasks reassigned away from the agent since the cursor */
+  revokedTaskIds: string[];
+}
+
+interface ApplyOutcome {
+  entityId: string;
+  /** Set when the client's change was written, to bump the agent's version */
+  writtenAt?: Date;
+  conflict?: { resolution: SyncResolution; reason: string; serverState: Record<string, unknown> };
+}
+
+export const SERVER_ACTOR = 'server';
+
+export function agentActor(agentId: string): string {
+  return `agent:${agentId}`;
+}
+
+/**
+ * Whether the server has changes the client had not seen. The submitting
+ * agent's own component is ignored: its earlier offline writes are causally
+ * before this one even if the client has not pulled since.
+ */
+export function hasUnseenChanges(
+  server: VersionVector,
+  base: VersionVector,
+  ownActor: string,
+): boolean {
+  return Object.entries(server).some(
+    ([actor, count]) => actor !== ownActor && count > (base[actor] ?? 0),
+  );
+}
+
+const ENTITY_TYPE_BY_ITEM: Record<SyncItemType, SyncEntityType> = {
+  task_update: 'task_status',
+  checklist_step: 'checklist_step',
+  cash_receipt: 'cash_receipt',
+  gps_evidence: 'gps_evidence',
+};
+
+/** Money first, then task state, then evidence */
+const ITEM_PRIORITY: Record<SyncItemType, number> = {
+  cash_receipt: 1,
+  task_update: 2,
+  checklist_step: 3,
+  gps_evidence: 4,
+};
+
+/** Forward order of task statuses, used to tell stale updates from progress */
+const TASK_LIFECYCLE = [
+  'pending',
+  'assigned',
+  'pending_contact',
+  'contacted',
+  'scope_confirmed',
+  'awaiting_payment',
+  'in_progress',
+  'completed',
+];
+
+const PULL_LIMIT = 100;
+
+function encodeCursor(at: Date): string {
+  return Buffer.from(at.toISOString()).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Date {
+  const at = new Date(Buffer.from(cursor, 'base64url').toString());
+  if (isNaN(at.getTime())) {
+    throw new BusinessError('VALIDATION_INVALID_CURSOR', 'Invalid sync cursor', 400);
+  }
+  return at;
+}
+
+export class AgentSyncService {
+  private taskService: AgentTaskService;
+  private checklistService: ChecklistService;
+  private cashService: CashCollectionService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private boss: any, // PgBoss instance - namespace import cannot be used as type
+  ) {
+    this.taskService = new AgentTaskService(prisma, boss);
+    this.checklistService = new ChecklistService(prisma, boss);
+    this.cashService = new CashCollectionService(prisma, boss);
+  }
+
+  /**
+   * Apply a batch of offline changes. Items are idempotent by key and are
+   * processed by priority, then in the order they were made on the device.
+   */
+  async processSyncBatch(agentId: string, items: SyncBatchItem[]): Promise<SyncBatchResult> {
+    const sorted = [...items].sort(
+      (a, b) =>
+        ITEM_PRIORITY[a.type] - ITEM_PRIORITY[b.type] ||
+        new Date(a.clientTimestamp).getTime() - new Date(b.clientTimestamp).getTime(),
+    );
+
+    const results: SyncItemResult[] = [];
+    const conflicts: SyncConflict[] = [];
+
+    for (const item of sorted) {
+      const entityType = ENTITY_TYPE_BY_ITEM[item.type];
+
+      const logged = await this.prisma.syncLog.findUnique({
+        where: { idempotencyKey: item.idempotencyKey },
+      });
+      if (logged) {
+        results.push({
+          idempotencyKey: item.idempotencyKey,
+          entityType,
+          entityId: logged.entityId,
+          status: 'duplicate',
+          ...(logged.resolution ? { resolution: logged.resolution as SyncResolution } : {}),
+        });
+        continue;
+      }
+
+      try {
+        const outcome = await this.applyItem(agentId, item);
+        const version =
+          entityType === 'gps_evidence'
+            ? undefined
+            : outcome.writtenAt
+              ? await this.bumpVersion(entityType, outcome.entityId, agentActor(agentId), outcome.writtenAt)
+              : await this.currentVersion(entityType, outcome.entityId);
+
+        const conflict: SyncConflict | undefined = outcome.conflict && {
+          idempotencyKey: item.idempotencyKey,
+          entityType,
+          entityId: outcome.entityId,
+          ...outcome.conflict,
+          clientState: item.payload,
+        };
+        if (conflict) conflicts.push(conflict);
+
+        await this.prisma.syncLog.create({
+          data: {
+            idempotencyKey: item.idempotencyKey,
+            entityType,
+            entityId: outcome.entityId,
+            agentId,
+            outcome: conflict ? 'conflict' : 'applied',
+            resolution: conflict?.resolution,
+            conflict: conflict ? (conflict as unknown as Prisma.InputJsonValue) : undefined,
+            processedAt: new Date(),
+            clientTimestamp: new Date(item.clientTimestamp),
+          },
+        });
+
+        results.push({
+          idempotencyKey: item.idempotencyKey,
+          entityType,
+          entityId: outcome.entityId,
+          status: conflict ? 'conflict' : 'applied',
+          ...(conflict ? { resolution: conflict.resolution } : {}),
+          ...(version ? { version } : {}),
+        });
+      } catch (error: any) {
+        results.push({
+          idempotencyKey: item.idempotencyKey,
+          entityType,
+          entityId: null,
+          status: 'error',
+          error: error.message,
+        });
+      }
+    }
+
+    return { processed: results.length, results, conflicts };
+  }
+
+  /**
+   * Changes to the agent's tasks, checklist steps and cash receipts since
+   * the cursor, each with its current version vector. Without a cursor the
+   * agent's full working set is returned.
+   */
+  async pullChanges(agentId: string, cursor?: string): Promise<SyncPullResult> {
+    const since = cursor ? decodeCursor(cursor) : new Date(0);
+    const startedAt = new Date();
+
+    const [tasks, receipts, revoked] = await Promise.all([
+      this.prisma.serviceRequest.findMany({
+        where: { assignedAgentId: agentId, updatedAt: { gte: since } },
+        select: {
+          id: true,
+          status: true,
+          serviceName: true,
+          serviceFeePaise: true,
+          customerName: true,
+          customerPhone: true,
+          propertyAddress: true,
+          updatedAt: true,
+        },
+        orderBy: { updatedAt: 'asc' },
+        take: PULL_LIMIT,
+      }),
+      this.prisma.cashReceipt.findMany({
+        where: { agentId, updatedAt: { gte: since } },
+        orderBy: { updatedAt: 'asc' },
+        take: PULL_LIMIT,
+      }),
+      this.prisma.agentAssignmentLog.findMany({
+        where: { previousAgentId: agentId, createdAt: { gte: since } },
+        select: { serviceRequestId: true },
+      }),
+    ]);
+
+    const assigned = await this.prisma.serviceRequest.findMany({
+      where: { assignedAgentId: agentId },
+      select: { id: true },
+    });
+    const steps = await this.prisma.checklistProgress.findMany({
+      where: { taskId: { in: assigned.map((t) => t.id) }, updatedAt: { gte: since } },
+      orderBy: { updatedAt: 'asc' },
+      take: PULL_LIMIT,
+    });
+
+    // When a page is full, resume from its last change; otherwise from now
+    const truncated = [tasks, receipts, steps]
+      .filter((rows) => rows.length === PULL_LIMIT)
+      .map((rows) => rows[rows.length - 1].updatedAt.getTime());
+    const next = truncated.length ? new Date(Math.min(...truncated)) : startedAt;
+
+    const withVersion = async <T extends { updatedAt: Date }>(
+      entityType: SyncEntityType,
+      rows: T[],
+      idOf: (row: T) => string,
+    ) => {
+      const out: Array<T & { version: VersionVector }> = [];
+      for (const row of rows) {
+        out.push({ ...row, version: await this.observe(entityType, idOf(row), row.updatedAt) });
+      }
+      return out;
+    };
+
+    const stillAssigned = new Set(assigned.map((t) => t.id));
+    return {
+      cursor: encodeCursor(next),
+      hasMore: truncated.length > 0,
+      tasks: await withVersion('task_status', tasks, (t) => t.id),
+      checklistSteps: await withVersion('checklist_step', steps, (s) => s.id),
+      cashReceipts: await withVersion('cash_receipt', receipts, (r) => r.receiptId),
+      revokedTaskIds: [
+        ...new Set(revoked.map((r) => r.serviceRequestId).filter((id) => !stillAssigned.has(id))),
+      ],
+    };
+  }
+
+  private applyItem(agentId: string, item: SyncBatchItem): Promise<ApplyOutcome> {
+    switch (item.type) {
+      case 'task_update':
+        return this.applyTaskUpdate(agentId, item);
+      case 'checklist_step':
+        return this.applyChecklistStep(agentId, item);
+      case 'cash_receipt':
+        return this.applyCashReceipt(agentId, item);
+      case 'gps_evidence':
+        return this.applyGpsEvidence(agentId, item);
+    }
+  }
+
+  private async isConflicted(
+    entityType: SyncEntityType,
+    entityId: string,
+    updatedAt: Date,
+    agentId: string,
+    base?: VersionVector,
+  ): Promise<boolean> {
+    const server = await this.observe(entityType, entityId, updatedAt);
+    // Clients that predate version vectors send no base: last write wins
+    return base ? hasUnseenChanges(server, base, agentActor(agentId)) : false;
+  }
+
+  private async applyTaskUpdate(agentId: string, item: SyncBatchItem): Promise<ApplyOutcome> {
+    const payload = item.payload as { taskId: string; newStatus: string };
+    const task = await this.prisma.serviceRequest.findUnique({
+      where: { id: payload.taskId },
+      select: { id: true, status: true, assignedAgentId: true, updatedAt: true },
+    });
+    if (!task) {
+      throw new BusinessError('BUSINESS_TASK_NOT_FOUND', 'Task not found', 404, {
+        taskId: payload.taskId,
+      });
+    }
+
+    const serverState = { status: task.status, assignedAgentId: task.assignedAgentId };
+    const serverWins = (reason: string): ApplyOutcome => ({
+      entityId: task.id,
+      conflict: { resolution: 'server_wins', reason, serverState },
+    });
+
+    if (task.assignedAgentId !== agentId) return serverWins('task is no longer assigned to you');
+    if (task.status === 'cancelled') return serverWins('task was cancelled');
+
+    const conflicted = await this.isConflicted(
+      'task_status', task.id, task.updatedAt, agentId, item.baseVersion,
+    );
+
+    if (conflicted) {
+      if (TASK_LIFECYCLE.indexOf(task.status) >= TASK_LIFECYCLE.indexOf(payload.newStatus)) {
+        return serverWins(`task is already '${task.status}'`);
+      }
+      if (!isValidTaskTransition(task.status, payload.newStatus)) {
+        return serverWins(`cannot move from '${task.status}' to '${payload.newStatus}'`);
+      }
+    }
+
+    await this.taskService.updateTaskStatus({
+      ...(item.payload as unknown as Omit<TaskUpdatePayload, 'agentId'>),
+      agentId,
+      idempotencyKey: item.idempotencyKey,
+    });
+
+    return {
+      entityId: task.id,
+      writtenAt: await this.updatedAtOf('task_status', task.id),
+      ...(conflicted
+        ? {
+            conflict: {
+              resolution: 'client_wins' as const,
+              reason: 'status moved forward over a concurrent server change',
+              serverState,
+            },
+          }
+        : {}),
+    };
+  }
+
+  private async applyChecklistStep(agentId: string, item: SyncBatchItem): Promise<ApplyOutcome> {
+    const payload = item.payload as { checklistId: string; stepIndex: number; photoUrls?: string[] };
+    const step = await this.prisma.checklistProgress.findFirst({
+      where: { checklistId: payload.checklistId, stepIndex: payload.stepIndex },
+    });
+    if (!step) {
+      throw new BusinessError('BUSINESS_CHECKLIST_STEP_NOT_FOUND', 'Checklist step not found', 404);
+    }
+
+    const conflicted = await this.isConflicted(
+      'checklist_step', step.id, step.updatedAt, agentId, item.baseVersion,
+    );
+    const serverState = {
+      isCompleted: step.isCompleted,
+      completedBy: step.completedBy,
+      photoUrls: step.photoUrls,
+    };
+
+    if (step.isCompleted) {
+      const photos = [...new Set([...step.photoUrls, ...(payload.photoUrls ?? [])])];
+      let writtenAt: Date | undefined;
+      if (photos.length > step.photoUrls.length) {
+        const merged = await this.prisma.checklistProgress.update({
+          where: { id: step.id },
+          data: { photoUrls: photos },
+        });
+        writtenAt = merged.updatedAt;
+      }
+      return {
+        entityId: step.id,
+        writtenAt,
+        conflict: { resolution: 'merged', reason: 'step was already completed', serverState },
+      };
+    }
+
+    if (conflicted) {
+      return {
+        entityId: step.id,
+        conflict: {
+          resolution: 'server_wins',
+          reason: 'step was reopened on the server after your last sync',
+          serverState,
+        },
+      };
+    }
+
+    // Idempotency is tracked by this service's SyncLog entry
+    await this.checklistService.completeStep({
+      ...(item.payload as unknown as Omit<ChecklistStepCompletion, 'agentId' | 'idempotencyKey'>),
+      agentId,
+    });
+    return { entityId: step.id, writtenAt: await this.updatedAtOf('checklist_step', step.id) };
+  }
+
+  private async applyCashReceipt(agentId: string, item: SyncBatchItem): Promise<ApplyOutcome> {
+    const payload: CashReceiptCreatePayload = {
+      ...(item.payload as unknown as CashReceiptCreatePayload),
+      agentId,
+      clientTimestamp: item.clientTimestamp,
+    };
+
+    const existing = await this.prisma.cashReceipt.findUnique({
+      where: { receiptId: payload.receiptId },
+    });
+    if (existing) {
+      if (existing.amountPaise === payload.amountPaise) return { entityId: existing.receiptId };
+
+      await this.boss.send('notification.send', {
+        type: 'cash_receipt_conflict',
+        receiptId: existing.receiptId,
+        agentId,
+        serverAmountPaise: existing.amountPaise,
+        clientAmountPaise: payload.amountPaise,
+      });
+      return {
+        entityId: existing.receiptId,
+        conflict: {
+          resolution: 'needs_review',
+          reason: 'receipt already recorded with a different amount',
+          serverState: { amountPaise: existing.amountPaise },
+        },
+      };
+    }
+
+    let conflict: ApplyOutcome['conflict'];
+    if (payload.serviceRequestId) {
+      const task = await this.prisma.serviceRequest.findUnique({
+        where: { id: payload.serviceRequestId },
+        select: { status: true, assignedAgentId: true },
+      });
+      if (task && (task.assignedAgentId !== agentId || task.status === 'cancelled')) {
+        conflict = {
+          resolution: 'client_wins',
+          reason: 'cash recorded against a task that was reassigned or cancelled',
+          serverState: task,
+        };
+      }
+    }
+
+    const { receipt } = payload.serviceRequestId
+      ? await this.cashService.createReceipt(payload)
+      : await this.cashService.createStandaloneReceipt(payload);
+
+    return { entityId: receipt.receiptId, writtenAt: receipt.updatedAt, conflict };
+  }
+
+  private async applyGpsEvidence(agentId: string, item: SyncBatchItem): Promise<ApplyOutcome> {
+    const record = await this.taskService.recordGpsEvidence({
+      ...(item.payload as unknown as Omit<GpsEvidenceInput, 'agentId'>),
+      agentId,
+    });
+    return { entityId: record.id };
+  }
+
+  private async updatedAtOf(entityType: SyncEntityType, entityId: string): Promise<Date> {
+    const row =
+      entityType === 'task_status'
+        ? await this.prisma.serviceRequest.findUnique({ where: { id: entityId }, select: { updatedAt: true } })
+        : await this.prisma.checklistProgress.findUnique({ where: { id: entityId }, select: { updatedAt: true } });
+    return row?.updatedAt ?? new Date();
+  }
+
+  /**
+   * Current version vector of an entity. Writes made outside sync since the
+   * vector was last updated are counted against the server component.
+   */
+  private async observe(
+    entityType: SyncEntityType,
+    entityId: string,
+    updatedAt: Date,
+  ): Promise<VersionVector> {
+    const row = await this.prisma.syncEntityVersion.findUnique({
+      where: { entityType_entityId: { entityType, entityId } },
+    });
+    if (!row) {
+      const created = await this.prisma.syncEntityVersion.create({
+        data: { entityType, entityId, vector: { [SERVER_ACTOR]: 1 }, observedAt: updatedAt },
+      });
+      return created.vector as VersionVector;
+    }
+
+    const vector = row.vector as VersionVector;
+    if (updatedAt <= row.observedAt) return vector;
+
+    const bumped = { ...vector, [SERVER_ACTOR]: (vector[SERVER_ACTOR] ?? 0) + 1 };
+    await this.prisma.syncEntityVersion.update({
+      where: { id: row.id },
+      data: { vector: bumped, observedAt: updatedAt },
+    });
+    return bumped;
+  }
+
+  private async currentVersion(
+    entityType: SyncEntityType,
+    entityId: string,
+  ): Promise<VersionVector | undefined> {
+    const row = await this.prisma.syncEntityVersion.findUnique({
+      where: { entityType_entityId: { entityType, entityId } },
+    });
+    return (row?.vector as VersionVector | undefined) ?? undefined;
+  }
+
+  /**
+   * Record a sync write by `actor`, covering the entity up to `writtenAt`.
+   */
+  private async bumpVersion(
+    entityType: SyncEntityType,
+    entityId: string,
+    actor: string,
+    writtenAt: Date,
+  ): Promise<VersionVector> {
+    const row = await this.prisma.syncEntityVersion.findUnique({
+      where: { entityType_entityId: { entityType, entityId } },
+    });
+    const vector = { ...((row?.vector as VersionVector | undefined) ?? {}) };
+    vector[actor] = (vector[actor] ?? 0) + 1;
+
+    await this.prisma.syncEntityVersion.upsert({
+      where: { entityType_entityId: { entityType, entityId } },
+      create: { entityType, entityId, vector, observedAt: writtenAt },
+      update: { vector, observedAt: writtenAt },
+    });
+    return vector;
+  }
+}
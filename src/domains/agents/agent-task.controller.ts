@@ -3,6 +3,7 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { AgentTaskService } from './agent-task.service.js';
+import type { AgentSyncService } from './agent-sync.service.js';
 import { logger } from '../../shared/utils/logger.js';
 
 const updateStatusSchema = z.object({
@@ -33,9 +34,10 @@ const syncBatchSchema = z.object({
   items: z.array(
     z.object({
       idempotencyKey: z.string().min(1),
-      type: z.enum(['task_update', 'gps_evidence', 'cash_receipt']),
+      type: z.enum(['task_update', 'checklist_step', 'gps_evidence', 'cash_receipt']),
       payload: z.record(z.unknown()),
       clientTimestamp: z.string().datetime(),
+      baseVersion: z.record(z.number().int().min(0)).optional(),
     }),
   ),
 });
@@ -53,7 +55,11 @@ async function resolveAgentId(prisma: PrismaClient, userId: string): Promise<str
   return agent?.id ?? null;
 }
 
-export function agentTaskRoutes(service: AgentTaskService, prisma?: PrismaClient): Router {
+export function agentTaskRoutes(
+  service: AgentTaskService,
+  prisma?: PrismaClient,
+  syncService?: AgentSyncService,
+): Router {
   const router = Router();
 
   // Middleware to resolve userId → Agent UUID for all routes
@@ -154,43 +160,52 @@ export function agentTaskRoutes(service: AgentTaskService, prisma?: PrismaClient
     },
   );
 
-  // POST /api/v1/agents/tasks/sync
-  router.post(
-    '/sync',
-    async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        const body = syncBatchSchema.parse(req.body);
-        const result = await service.processSyncBatch(getAgentId(req), body.items);
-        res.json({ success: true, data: result });
-      } catch (error) {
-        next(error);
-      }
-    },
-  );
+  if (syncService) {
+    // POST /api/v1/agents/tasks/sync
+    // Returns per-item results plus a report of conflicts and how they were resolved
+    router.post(
+      '/sync',
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const body = syncBatchSchema.parse(req.body);
+          const result = await syncService.processSyncBatch(getAgentId(req), body.items);
+          res.json({ success: true, data: result });
+        } catch (error) {
+          next(error);
+        }
+      },
+    );
 
-  // GET /api/v1/agents/tasks/sync/pull?since=ISO8601
-  router.get(
-    '/sync/pull',
-    async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        const since = new Date(req.query.since as string);
-        if (isNaN(since.getTime())) {
-          res.status(400).json({
-            success: false,
-            error: {
-              code: 'VALIDATION_INVALID_DATE',
-              message: 'Invalid since parameter',
-            },
-          });
-          return;
+    // GET /api/v1/agents/tasks/sync/pull?cursor=<opaque>
+    // Delta of tasks, checklist steps and cash receipts with version vectors.
+    // `since` (ISO 8601) is accepted from older app builds.
+    router.get(
+      '/sync/pull',
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          let cursor = req.query.cursor as string | undefined;
+          if (!cursor && req.query.since) {
+            const since = new Date(req.query.since as string);
+            if (isNaN(since.getTime())) {
+              res.status(400).json({
+                success: false,
+                error: {
+                  code: 'VALIDATION_INVALID_DATE',
+                  message: 'Invalid since parameter',
+                },
+              });
+              return;
+            }
+            cursor = Buffer.from(since.toISOString()).toString('base64url');
+          }
+          const result = await syncService.pullChanges(getAgentId(req), cursor);
+          res.json({ success: true, data: result });
+        } catch (error) {
+          next(error);
         }
-        const tasks = await service.getTasksSince(getAgentId(req), since);
-        res.json({ success: true, data: tasks });
-      } catch (error) {
-        next(error);
-      }
-    },
-  );
+      },
+    );
+  }
 
   return router;
 }
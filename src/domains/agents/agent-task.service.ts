@@ -1,5 +1,5 @@
 // Stories 3-3, 3-7, 3-12: Agent Task Service
-// Task lifecycle management, status updates, GPS evidence, offline sync.
+// Task lifecycle management, status updates, GPS evidence. Offline sync lives in agent-sync.service.
 // Uses ServiceRequest as the "task" (no separate Task model).
 
 import { PrismaClient } from '@prisma/client';
@@ -30,6 +30,13 @@ const VALID_TRANSITIONS: Record<string, string[]> = {
   completed: [],
 };
 
+/**
+ * Whether an agent may move a task from one status to another.
+ */
+export function isValidTaskTransition(from: string, to: string): boolean {
+  return (VALID_TRANSITIONS[from] || []).includes(to);
+}
+
 export interface TaskUpdatePayload {
   taskId: string;
   agentId: string;
@@ -51,13 +58,6 @@ export interface GpsEvidenceInput {
   photoUrl?: string;
 }
 
-export interface SyncBatchItem {
-  idempotencyKey: string;
-  type: 'task_update' | 'gps_evidence' | 'cash_receipt';
-  payload: Record<string, unknown>;
-  clientTimestamp: string;
-}
-
 export class AgentTaskService {
   constructor(
     private prisma: PrismaClient,
@@ -203,7 +203,7 @@ export class AgentTaskService {
 
     // Record GPS evidence if provided
     if (payload.gpsLat && payload.gpsLng) {
-      await this.prisma.gpsEvidence.create({
+      const evidence = await this.prisma.gpsEvidence.create({
         data: {
           serviceRequestId: payload.taskId,
           agentId: payload.agentId,
@@ -213,6 +213,9 @@ export class AgentTaskService {
           capturedAt: new Date(),
         },
       });
+      if (this.boss) {
+        await this.boss.send('agent.gps-verify', { evidenceId: evidence.id });
+      }
     }
 
     // Notify Ops + Customer of status change
@@ -239,7 +242,7 @@ export class AgentTaskService {
    * Record GPS evidence for a task.
    */
   async recordGpsEvidence(evidence: GpsEvidenceInput) {
-    return this.prisma.gpsEvidence.create({
+    const record = await this.prisma.gpsEvidence.create({
       data: {
         serviceRequestId: evidence.taskId,
         agentId: evidence.agentId,
@@ -250,100 +253,18 @@ export class AgentTaskService {
         photoUrls: evidence.photoUrl ? [evidence.photoUrl] : [],
       },
     });
-  }
-
-  /**
-   * Process a batch of offline sync items (idempotent).
-   * Priority: cash_receipt > task_update > gps_evidence
-   */
-  async processSyncBatch(agentId: string, items: SyncBatchItem[]) {
-    // Sort by priority
-    const priorityOrder: Record<string, number> = { cash_receipt: 1, task_update: 2, gps_evidence: 3 };
-    const sorted = [...items].sort(
-      (a, b) => (priorityOrder[a.type] || 99) - (priorityOrder[b.type] || 99),
-    );
 
-    const results: Array<{
-      idempotencyKey: string;
-      success: boolean;
-      error?: string;
-    }> = [];
-
-    for (const item of sorted) {
-      try {
-        // Check idempotency via status log metadata
-        const existing = await this.prisma.serviceRequestStatusLog.findFirst({
-          where: {
-            metadata: {
-              path: ['idempotencyKey'],
-              equals: item.idempotencyKey,
-            },
-          },
-        });
-
-        if (existing) {
-          results.push({
-            idempotencyKey: item.idempotencyKey,
-            success: true,
-            error: 'already_processed',
-          });
-          continue;
-        }
-
-        // Process based on type
-        switch (item.type) {
-          case 'task_update':
-            await this.updateTaskStatus({
-              ...(item.payload as any),
-              agentId,
-              idempotencyKey: item.idempotencyKey,
-            });
-            break;
-          case 'gps_evidence':
-            await this.recordGpsEvidence({
-              ...(item.payload as any),
-              agentId,
-            });
-            break;
-          case 'cash_receipt':
-            // Delegated to cash-collection service
-            break;
-        }
-
-        results.push({ idempotencyKey: item.idempotencyKey, success: true });
-      } catch (error: any) {
-        results.push({
-          idempotencyKey: item.idempotencyKey,
-          success: false,
-          error: error.message,
-        });
-      }
+    // Verify against geofences; re-plan the day if the agent is off route
+    if (this.boss) {
+      await this.boss.send('agent.gps-verify', { evidenceId: record.id });
+      await this.boss.send('agent.itinerary-check-route', {
+        agentId: evidence.agentId,
+        lat: evidence.lat,
+        lng: evidence.lng,
+        capturedAt: evidence.capturedAt,
+      } as Record<string, unknown>);
     }
 
-    return { processed: results.length, results };
-  }
-
-  /**
-   * Get tasks modified after a timestamp (for offline sync pull).
-   */
-  async getTasksSince(agentId: string, since: Date) {
-    return this.prisma.serviceRequest.findMany({
-      where: {
-        assignedAgentId: agentId,
-        updatedAt: { gte: since },
-      },
-      select: {
-        id: true,
-        status: true,
-        serviceName: true,
-        serviceFeePaise: true,
-        customerName: true,
-        customerPhone: true,
-        propertyAddress: true,
-        updatedAt: true,
-      },
-      orderBy: { updatedAt: 'asc' },
-      take: 100,
-    });
+    return record;
   }
 }
@@ -9,6 +9,9 @@ import {
   parsePagination,
   buildPaginatedResponse,
 } from '../../shared/utils/pagination.js';
+import { logger } from '../../shared/utils/logger';
+import { TaxInvoiceService } from '../payments/tax-invoice.service.js';
+import { LedgerService } from '../ledger/ledger.service.js';
 
 export interface CashReceiptCreatePayload {
   receiptId: string; // Pre-allocated UUID from client
@@ -110,6 +113,8 @@ export class CashCollectionService {
       cityId: payload.cityId,
     });
 
+    await this.onReceiptRecorded(receipt.id);
+
     return { alreadyProcessed: false, receipt };
   }
 
@@ -157,9 +162,24 @@ export class CashCollectionService {
       isStandalone: true,
     });
 
+    await this.onReceiptRecorded(receipt.id);
+
     return { alreadyProcessed: false, receipt };
   }
 
+  /**
+   * GST invoice and ledger posting for the collected cash; a failure must
+   * not lose the receipt.
+   */
+  private async onReceiptRecorded(cashReceiptId: string): Promise<void> {
+    await new TaxInvoiceService(this.prisma).issueForCashReceipt(cashReceiptId).catch((err) => {
+      logger.error({ err, cashReceiptId }, 'Tax invoice issue failed');
+    });
+    await new LedgerService(this.prisma).recordCashCollected(cashReceiptId).catch((err) => {
+      logger.error({ err, cashReceiptId }, 'Ledger posting failed');
+    });
+  }
+
   /**
    * Get receipts for an agent (for display and deposit tracking).
    */
@@ -351,6 +371,12 @@ export class CashCollectionService {
       },
     });
 
+    if (approved) {
+      await new LedgerService(this.prisma).recordCashDeposited(depositId).catch((err) => {
+        logger.error({ err, depositId }, 'Ledger posting failed');
+      });
+    }
+
     // If rejected, un-reconcile the receipts
     if (!approved) {
       await this.prisma.cashReceipt.updateMany({
@@ -2,7 +2,7 @@
 // Agents flag issues during field operations (document discrepancies,
 // customer disputes, property boundary issues, etc.).
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import PgBoss from 'pg-boss';
 import { BusinessError } from '../../shared/errors/business-error.js';
 
@@ -13,6 +13,7 @@ export type DisputeCategory =
   | 'customer_uncooperative'
   | 'government_office_issue'
   | 'payment_dispute'
+  | 'visit_contested' // raised by a customer, with the visit's GPS verification
   | 'other';
 
 export type DisputeSeverity = 'low' | 'medium' | 'high' | 'critical';
@@ -37,6 +38,8 @@ export interface CreateDisputePayload {
   gpsLng?: number;
   photoUrls?: string[];
   documentIds?: string[];
+  /** Additional context stored alongside the dispute */
+  metadata?: Record<string, unknown>;
 }
 
 export interface ResolveDisputePayload {
@@ -72,7 +75,8 @@ export class DisputeService {
           gpsLng: payload.gpsLng,
           photoUrls: payload.photoUrls || [],
           documentIds: payload.documentIds || [],
-        },
+          ...payload.metadata,
+        } as Prisma.InputJsonValue,
       },
     });
 
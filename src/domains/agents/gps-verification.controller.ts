@@ -0,0 +1,171 @@
+// GPS evidence verification controller: geofences, ops review queue, visit contests
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authorize } from '../../middleware/authorize';
+import { GpsVerificationService } from './gps-verification.service.js';
+
+const latLng = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+const createGeofenceSchema = z.object({
+  cityId: z.string().uuid().optional(),
+  kind: z.enum(['office', 'property']),
+  label: z.string().min(1).max(200),
+  officeName: z.string().min(1).optional(),
+  serviceInstanceId: z.string().uuid().optional(),
+  center: latLng.optional(),
+  radiusMeters: z.number().positive().max(5000).optional(),
+  polygon: z
+    .array(z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]))
+    .min(3)
+    .optional(),
+});
+
+const reviewSchema = z.object({
+  decision: z.enum(['cleared', 'confirmed']),
+  notes: z.string().max(2000).optional(),
+});
+
+const visitContestSchema = z.object({
+  serviceRequestId: z.string().uuid(),
+  description: z.string().min(1).max(5000),
+});
+
+export function gpsVerificationRoutes(service: GpsVerificationService): Router {
+  const router = Router();
+
+  // POST /api/v1/agents/gps-verification/geofences
+  router.post(
+    '/geofences',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = createGeofenceSchema.parse(req.body);
+        const user = (req as any).user!;
+        const fence = await service.createGeofence({
+          ...body,
+          cityId: body.cityId ?? user.cityId,
+          createdBy: user.id,
+        });
+        res.status(201).json({ success: true, data: fence });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // GET /api/v1/agents/gps-verification/geofences?kind=office|property
+  router.get(
+    '/geofences',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const user = (req as any).user!;
+        const kind = z.enum(['office', 'property']).optional().parse(req.query.kind);
+        const fences = await service.listGeofences(
+          (req.query.cityId as string | undefined) ?? user.cityId,
+          kind,
+        );
+        res.json({ success: true, data: fences });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // DELETE /api/v1/agents/gps-verification/geofences/:geofenceId
+  router.delete(
+    '/geofences/:geofenceId',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const fence = await service.deactivateGeofence(req.params.geofenceId);
+        res.json({ success: true, data: fence });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // GET /api/v1/agents/gps-verification/review-queue
+  router.get(
+    '/review-queue',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const user = (req as any).user!;
+        const result = await service.getReviewQueue(
+          (req.query.cityId as string | undefined) ?? user.cityId,
+          {
+            cursor: req.query.cursor as string | undefined,
+            limit: parseInt(req.query.limit as string, 10) || 20,
+          },
+        );
+        res.json({ success: true, ...result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // POST /api/v1/agents/gps-verification/evidence/:evidenceId/review
+  router.post(
+    '/evidence/:evidenceId/review',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = reviewSchema.parse(req.body);
+        const evidence = await service.reviewEvidence(
+          req.params.evidenceId,
+          (req as any).user!.id,
+          body.decision,
+          body.notes,
+        );
+        res.json({ success: true, data: evidence });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // POST /api/v1/agents/gps-verification/evidence/:evidenceId/verify
+  // Re-run verification, e.g. after geofences change
+  router.post(
+    '/evidence/:evidenceId/verify',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = await service.verifyEvidence(req.params.evidenceId);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  // POST /api/v1/agents/gps-verification/visit-contests
+  // Customer (or support on their behalf) contests that a visit took place
+  router.post(
+    '/visit-contests',
+    authorize('customer', 'support', 'ops_manager'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = visitContestSchema.parse(req.body);
+        const user = (req as any).user!;
+        const roles: string[] = user.roles || [user.role];
+        const dispute = await service.contestVisit({
+          ...body,
+          contestedBy: user.id,
+          contestedByRole: roles.includes('customer') ? 'customer' : roles[0],
+        });
+        res.status(201).json({ success: true, data: dispute });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
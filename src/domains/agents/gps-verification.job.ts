@@ -0,0 +1,31 @@
+/**
+ * GPS evidence verification pg-boss job.
+ * Classifies each new capture against geofences (agent.gps-verify).
+ */
+import { PrismaClient } from '@prisma/client';
+import { GpsVerificationService } from './gps-verification.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const GPS_VERIFY_QUEUE = 'agent.gps-verify';
+
+export interface GpsVerifyPayload {
+  evidenceId: string;
+}
+
+export async function registerGpsVerificationJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const verificationService = new GpsVerificationService(prisma, boss);
+
+  await boss.createQueue(GPS_VERIFY_QUEUE);
+  await boss.work(GPS_VERIFY_QUEUE, async (job: { data: GpsVerifyPayload }) => {
+    const result = await verificationService.verifyEvidence(job.data.evidenceId);
+    if (result.flags.length) {
+      logger.info(
+        { evidenceId: result.evidenceId, verification: result.verification, flags: result.flags },
+        'GPS evidence flagged',
+      );
+    }
+  });
+}
@@ -0,0 +1,493 @@
+// GPS evidence verification
+// Classifies each GpsEvidence against geofences around the task's property
+// and government offices, flags impossible travel between an agent's
+// consecutive captures, and queues suspicious evidence for ops review.
+// Customer visit contests are filed with DisputeService together with the
+// verification summary for the visit.
+
+import { PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import { haversineDistance } from '../../shared/utils/haversine.js';
+import {
+  distanceToGeofenceMeters,
+  polygonCentroid,
+  type GeofenceShape,
+} from '../../shared/utils/geofence.js';
+import {
+  parsePagination,
+  buildPaginatedResponse,
+  type PaginationParams,
+} from '../../shared/utils/pagination.js';
+import { DisputeService, type DisputeSeverity } from './dispute.service.js';
+import type { ServiceDefinitionJson } from '../services/service-definition.types.js';
+
+export type EvidenceVerification = 'inside' | 'outside' | 'low_accuracy' | 'no_geofence';
+export type EvidenceFlag = 'outside_geofence' | 'low_accuracy' | 'impossible_travel';
+export type EvidenceReviewDecision = 'cleared' | 'confirmed';
+
+/** Evidence with a worse reported accuracy cannot place the agent */
+export const LOW_ACCURACY_METERS = 100;
+/** Faster than this between captures is not plausible in city traffic */
+export const MAX_TRAVEL_SPEED_KMPH = 120;
+/** Short hops are ignored so GPS jitter between quick captures is not flagged */
+const MIN_TRAVEL_CHECK_KM = 1;
+
+/** Fences derived from coordinates when no explicit geofence is configured */
+const DEFAULT_PROPERTY_RADIUS_METERS = 150;
+const DEFAULT_OFFICE_RADIUS_METERS = 250;
+
+export interface CreateGeofenceInput {
+  cityId: string;
+  kind: 'office' | 'property';
+  label: string;
+  officeName?: string;
+  serviceInstanceId?: string;
+  center?: { lat: number; lng: number };
+  radiusMeters?: number;
+  polygon?: Array<[number, number]>;
+  createdBy: string;
+}
+
+export interface EvidenceVerificationResult {
+  evidenceId: string;
+  verification: EvidenceVerification;
+  geofenceLabel: string | null;
+  distanceMeters: number | null;
+  travelSpeedKmph: number | null;
+  flags: EvidenceFlag[];
+  reviewStatus: 'pending' | null;
+}
+
+export interface VisitEvidenceSummary {
+  evidenceCount: number;
+  inside: number;
+  outside: number;
+  lowAccuracy: number;
+  noGeofence: number;
+  impossibleTravel: number;
+  pendingReview: number;
+  confirmedSuspicious: number;
+  suspiciousEvidenceIds: string[];
+}
+
+export interface VisitContestInput {
+  serviceRequestId: string;
+  contestedBy: string;
+  contestedByRole: string;
+  description: string;
+}
+
+interface ResolvedFence {
+  label: string;
+  shape: GeofenceShape;
+}
+
+function normalise(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export class GpsVerificationService {
+  private disputeService: DisputeService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private boss: any, // PgBoss instance - namespace import cannot be used as type
+  ) {
+    this.disputeService = new DisputeService(prisma, boss);
+  }
+
+  /**
+   * Create a radius or polygon geofence for an office or property.
+   */
+  async createGeofence(input: CreateGeofenceInput) {
+    if (input.kind === 'office' && !input.officeName) {
+      throw new BusinessError('VALIDATION_OFFICE_NAME_REQUIRED', 'Office geofences need an officeName', 400);
+    }
+    if (input.kind === 'property' && !input.serviceInstanceId) {
+      throw new BusinessError('VALIDATION_SERVICE_INSTANCE_REQUIRED', 'Property geofences need a serviceInstanceId', 400);
+    }
+
+    const hasRadius = input.center && input.radiusMeters;
+    const hasPolygon = input.polygon && input.polygon.length >= 3;
+    if (!hasRadius === !hasPolygon) {
+      throw new BusinessError(
+        'VALIDATION_INVALID_GEOFENCE',
+        'Provide either center and radiusMeters, or a polygon of at least 3 points',
+        400,
+      );
+    }
+
+    const center = hasPolygon ? polygonCentroid(input.polygon!) : input.center!;
+    return this.prisma.geofence.create({
+      data: {
+        cityId: input.cityId,
+        kind: input.kind,
+        label: input.label,
+        officeName: input.officeName,
+        serviceInstanceId: input.serviceInstanceId,
+        centerLat: center.lat,
+        centerLng: center.lng,
+        radiusMeters: hasPolygon ? null : input.radiusMeters,
+        polygon: hasPolygon ? input.polygon : undefined,
+        createdBy: input.createdBy,
+      },
+    });
+  }
+
+  /**
+   * List active geofences in a city.
+   */
+  async listGeofences(cityId: string, kind?: 'office' | 'property') {
+    return this.prisma.geofence.findMany({
+      where: { cityId, isActive: true, ...(kind ? { kind } : {}) },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Deactivate a geofence. Evidence already verified keeps its result.
+   */
+  async deactivateGeofence(geofenceId: string) {
+    const fence = await this.prisma.geofence.findUnique({ where: { id: geofenceId } });
+    if (!fence) {
+      throw new BusinessError('BUSINESS_GEOFENCE_NOT_FOUND', 'Geofence not found', 404);
+    }
+    return this.prisma.geofence.update({
+      where: { id: geofenceId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Classify a GPS capture against the task's geofences and the agent's
+   * previous capture. Suspicious evidence is queued for ops review.
+   */
+  async verifyEvidence(evidenceId: string): Promise<EvidenceVerificationResult> {
+    const evidence = await this.prisma.gpsEvidence.findUnique({
+      where: { id: evidenceId },
+      include: {
+        serviceRequest: {
+          select: {
+            cityId: true,
+            serviceInstanceId: true,
+            serviceInstance: {
+              select: {
+                propertyLat: true,
+                propertyLng: true,
+                serviceDefinition: { select: { definition: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!evidence) {
+      throw new BusinessError('BUSINESS_EVIDENCE_NOT_FOUND', 'GPS evidence not found', 404);
+    }
+
+    const point = { lat: evidence.latitude, lng: evidence.longitude };
+    const fences = await this.resolveFences(evidence.serviceRequest);
+    const flags: EvidenceFlag[] = [];
+
+    let nearest: { label: string; meters: number } | null = null;
+    for (const fence of fences) {
+      const meters = distanceToGeofenceMeters(point, fence.shape);
+      if (!nearest || meters < nearest.meters) nearest = { label: fence.label, meters };
+    }
+
+    let verification: EvidenceVerification;
+    if (!nearest) {
+      verification = 'no_geofence';
+    } else if (evidence.accuracy == null || evidence.accuracy > LOW_ACCURACY_METERS) {
+      verification = 'low_accuracy';
+    } else {
+      // The reported accuracy radius counts in the agent's favour
+      verification = nearest.meters <= evidence.accuracy ? 'inside' : 'outside';
+    }
+    if (verification === 'outside') flags.push('outside_geofence');
+    if (verification === 'low_accuracy') flags.push('low_accuracy');
+
+    const previous = await this.prisma.gpsEvidence.findFirst({
+      where: {
+        agentId: evidence.agentId,
+        id: { not: evidence.id },
+        capturedAt: { lt: evidence.capturedAt },
+      },
+      orderBy: { capturedAt: 'desc' },
+      select: { latitude: true, longitude: true, capturedAt: true },
+    });
+
+    let travelSpeedKmph: number | null = null;
+    if (previous) {
+      const km = haversineDistance(previous.latitude, previous.longitude, point.lat, point.lng);
+      const hours = (evidence.capturedAt.getTime() - previous.capturedAt.getTime()) / 3_600_000;
+      if (hours > 0) travelSpeedKmph = Math.round((km / hours) * 10) / 10;
+      if (km >= MIN_TRAVEL_CHECK_KM && (hours <= 0 || km / hours > MAX_TRAVEL_SPEED_KMPH)) {
+        flags.push('impossible_travel');
+      }
+    }
+
+    const suspicious = flags.includes('outside_geofence') || flags.includes('impossible_travel');
+    const distanceMeters = nearest ? Math.round(nearest.meters) : null;
+
+    await this.prisma.gpsEvidence.update({
+      where: { id: evidence.id },
+      data: {
+        verification,
+        geofenceLabel: nearest?.label ?? null,
+        distanceMeters,
+        travelSpeedKmph,
+        flags,
+        verifiedAt: new Date(),
+        // Re-verification never reopens a review ops already closed
+        ...(suspicious && !evidence.reviewedAt ? { reviewStatus: 'pending' } : {}),
+      },
+    });
+
+    if (suspicious && !evidence.reviewedAt && evidence.reviewStatus !== 'pending') {
+      await this.boss.send('notification.send', {
+        type: 'gps_evidence_suspicious',
+        evidenceId: evidence.id,
+        agentId: evidence.agentId,
+        serviceRequestId: evidence.serviceRequestId,
+        cityId: evidence.serviceRequest.cityId,
+        flags,
+      } as Record<string, unknown>);
+    }
+
+    return {
+      evidenceId: evidence.id,
+      verification,
+      geofenceLabel: nearest?.label ?? null,
+      distanceMeters,
+      travelSpeedKmph,
+      flags,
+      reviewStatus: suspicious && !evidence.reviewedAt ? 'pending' : null,
+    };
+  }
+
+  /**
+   * Ops review queue: suspicious evidence awaiting a decision, oldest first.
+   */
+  async getReviewQueue(cityId: string, pagination?: PaginationParams) {
+    const { cursor, limit } = parsePagination({
+      cursor: pagination?.cursor,
+      limit: String(pagination?.limit || 20),
+    });
+
+    const items = await this.prisma.gpsEvidence.findMany({
+      where: { reviewStatus: 'pending', serviceRequest: { cityId } },
+      take: (limit ?? 20) + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      orderBy: { capturedAt: 'asc' },
+      include: {
+        serviceRequest: {
+          select: { id: true, requestNumber: true, serviceName: true, propertyAddress: true },
+        },
+      },
+    });
+
+    return buildPaginatedResponse(items, limit ?? 20);
+  }
+
+  /**
+   * Record an ops decision on suspicious evidence. Confirmed evidence is
+   * added to any open visit contest for the same service request.
+   */
+  async reviewEvidence(
+    evidenceId: string,
+    reviewedBy: string,
+    decision: EvidenceReviewDecision,
+    notes?: string,
+  ) {
+    const evidence = await this.prisma.gpsEvidence.findUnique({ where: { id: evidenceId } });
+    if (!evidence) {
+      throw new BusinessError('BUSINESS_EVIDENCE_NOT_FOUND', 'GPS evidence not found', 404);
+    }
+    if (evidence.reviewStatus !== 'pending') {
+      throw new BusinessError(
+        'BUSINESS_EVIDENCE_NOT_PENDING',
+        'GPS evidence is not awaiting review',
+        422,
+        { reviewStatus: evidence.reviewStatus },
+      );
+    }
+
+    const updated = await this.prisma.gpsEvidence.update({
+      where: { id: evidenceId },
+      data: { reviewStatus: decision, reviewedBy, reviewedAt: new Date(), reviewNotes: notes },
+    });
+
+    if (decision === 'confirmed') {
+      const contests = await this.prisma.dispute.findMany({
+        where: {
+          serviceRequestId: evidence.serviceRequestId,
+          category: 'visit_contested',
+          status: { notIn: ['resolved', 'dismissed'] },
+        },
+        select: { id: true },
+      });
+      for (const contest of contests) {
+        await this.disputeService.addComment(
+          contest.id,
+          reviewedBy,
+          'ops',
+          `GPS evidence ${evidenceId} confirmed suspicious (${evidence.flags.join(', ')})` +
+            (notes ? `: ${notes}` : ''),
+        );
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Verification summary of all GPS evidence for a service request.
+   */
+  async summarizeVisitEvidence(serviceRequestId: string): Promise<VisitEvidenceSummary> {
+    const evidence = await this.prisma.gpsEvidence.findMany({
+      where: { serviceRequestId },
+      select: { id: true, verification: true, flags: true, reviewStatus: true },
+    });
+
+    const suspicious = evidence.filter(
+      (e) => e.reviewStatus === 'pending' || e.reviewStatus === 'confirmed',
+    );
+    return {
+      evidenceCount: evidence.length,
+      inside: evidence.filter((e) => e.verification === 'inside').length,
+      outside: evidence.filter((e) => e.verification === 'outside').length,
+      lowAccuracy: evidence.filter((e) => e.verification === 'low_accuracy').length,
+      noGeofence: evidence.filter((e) => e.verification === 'no_geofence').length,
+      impossibleTravel: evidence.filter((e) => e.flags.includes('impossible_travel')).length,
+      pendingReview: evidence.filter((e) => e.reviewStatus === 'pending').length,
+      confirmedSuspicious: evidence.filter((e) => e.reviewStatus === 'confirmed').length,
+      suspiciousEvidenceIds: suspicious.map((e) => e.id),
+    };
+  }
+
+  /**
+   * File a customer's contest of an agent visit as a dispute, with the
+   * visit's GPS verification summary. Severity follows the evidence:
+   * confirmed suspicious evidence is critical; outside captures, impossible
+   * travel or no capture inside a geofence are high.
+   */
+  async contestVisit(input: VisitContestInput) {
+    const request = await this.prisma.serviceRequest.findUnique({
+      where: { id: input.serviceRequestId },
+      select: { id: true, customerId: true, assignedAgentId: true, cityId: true },
+    });
+    if (!request) {
+      throw new BusinessError('BUSINESS_SERVICE_REQUEST_NOT_FOUND', 'Service request not found', 404);
+    }
+    if (input.contestedByRole === 'customer' && request.customerId !== input.contestedBy) {
+      throw new BusinessError('AUTH_FORBIDDEN', 'Not your service request', 403);
+    }
+    if (!request.assignedAgentId) {
+      throw new BusinessError('BUSINESS_NO_AGENT_ASSIGNED', 'No agent has been assigned to this request', 422);
+    }
+
+    const summary = await this.summarizeVisitEvidence(request.id);
+    let severity: DisputeSeverity = 'low';
+    if (summary.confirmedSuspicious > 0) {
+      severity = 'critical';
+    } else if (summary.outside > 0 || summary.impossibleTravel > 0 || summary.inside === 0) {
+      severity = 'high';
+    }
+
+    return this.disputeService.createDispute({
+      taskId: request.id,
+      serviceRequestId: request.id,
+      agentId: request.assignedAgentId,
+      cityId: request.cityId,
+      category: 'visit_contested',
+      severity,
+      title: 'Customer contests agent visit',
+      description: input.description,
+      metadata: {
+        contestedBy: input.contestedBy,
+        contestedByRole: input.contestedByRole,
+        gpsEvidence: summary,
+      },
+    });
+  }
+
+  /**
+   * Geofences that apply to a task: its property and the service's
+   * government offices. Explicit geofences take precedence over fences
+   * derived from property coordinates and city office addresses.
+   */
+  private async resolveFences(request: {
+    cityId: string;
+    serviceInstanceId: string;
+    serviceInstance: {
+      propertyLat: number | null;
+      propertyLng: number | null;
+      serviceDefinition: { definition: unknown };
+    } | null;
+  }): Promise<ResolvedFence[]> {
+    const definition = request.serviceInstance?.serviceDefinition.definition as
+      | ServiceDefinitionJson
+      | undefined;
+    const officeNames = [
+      ...new Set([
+        ...(definition?.governmentOffices ?? []).map((o) => o.officeName),
+        ...(definition?.steps ?? []).flatMap((s) => (s.governmentOffice ? [s.governmentOffice.officeName] : [])),
+      ]),
+    ];
+
+    const explicit = await this.prisma.geofence.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { serviceInstanceId: request.serviceInstanceId },
+          { cityId: request.cityId, kind: 'office', officeName: { in: officeNames } },
+        ],
+      },
+    });
+
+    const fences: ResolvedFence[] = explicit.map((f) => ({
+      label: f.label,
+      shape: f.polygon
+        ? { polygon: f.polygon as Array<[number, number]> }
+        : { center: { lat: f.centerLat, lng: f.centerLng }, radiusMeters: f.radiusMeters ?? 0 },
+    }));
+
+    const instance = request.serviceInstance;
+    const hasPropertyFence = explicit.some((f) => f.kind === 'property');
+    if (!hasPropertyFence && instance?.propertyLat != null && instance.propertyLng != null) {
+      fences.push({
+        label: 'Property',
+        shape: {
+          center: { lat: instance.propertyLat, lng: instance.propertyLng },
+          radiusMeters: DEFAULT_PROPERTY_RADIUS_METERS,
+        },
+      });
+    }
+
+    const fencedOffices = new Set(explicit.filter((f) => f.officeName).map((f) => normalise(f.officeName!)));
+    const missingOffices = officeNames.filter((name) => !fencedOffices.has(normalise(name)));
+    if (missingOffices.length) {
+      const city = await this.prisma.city.findUnique({
+        where: { id: request.cityId },
+        select: { configData: true },
+      });
+      const addresses = ((city?.configData as { officeAddresses?: Record<string, { gpsLat?: number; gpsLng?: number }> } | null)
+        ?.officeAddresses ?? {});
+      const byName = new Map(Object.entries(addresses).map(([key, address]) => [normalise(key), address]));
+      for (const name of missingOffices) {
+        const address = byName.get(normalise(name));
+        if (address?.gpsLat == null || address?.gpsLng == null) continue;
+        fences.push({
+          label: name,
+          shape: {
+            center: { lat: address.gpsLat, lng: address.gpsLng },
+            radiusMeters: DEFAULT_OFFICE_RADIUS_METERS,
+          },
+        });
+      }
+    }
+
+    return fences;
+  }
+}
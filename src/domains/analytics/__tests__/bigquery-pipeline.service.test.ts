@@ -0,0 +1,299 @@
+/**
+ * Tests for BigQueryPipelineService
+ * Covers: watermarked incremental sync, delete tombstones, schema drift,
+ *         PII masking, backfills — against the local file sink
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { BigQueryPipelineService, BIGQUERY_BACKFILL_QUEUE } from '../bigquery-pipeline.service';
+import { LocalFileSink } from '../analytics-sink';
+
+const MODELS = [
+  'city',
+  'franchise',
+  'agent',
+  'dealer',
+  'franchiseRevenue',
+  'cityServiceFee',
+  'trainingModule',
+  'trainingProgress',
+  'featureUsageEvent',
+];
+
+const NOW = Date.now();
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000);
+
+// Just enough of Prisma's where/orderBy semantics for the sync queries
+function matches(record: any, where: any): boolean {
+  return Object.entries(where ?? {}).every(([key, cond]: [string, any]) => {
+    if (key === 'AND') return cond.every((w: any) => matches(record, w));
+    if (key === 'OR') return cond.some((w: any) => matches(record, w));
+    const value = record[key];
+    if (cond instanceof Date) return value?.getTime() === cond.getTime();
+    if (cond !== null && typeof cond === 'object') {
+      return (
+        (cond.gt === undefined || value > cond.gt) &&
+        (cond.gte === undefined || value >= cond.gte) &&
+        (cond.lt === undefined || value < cond.lt)
+      );
+    }
+    return value === cond;
+  });
+}
+
+function findMany(rows: any[], { where, orderBy, take }: any) {
+  const keys = (orderBy ?? []).map((o: any) => Object.keys(o)[0]);
+  const sorted = rows
+    .filter((r) => matches(r, where))
+    .sort((a, b) => {
+      for (const k of keys) {
+        if (a[k] < b[k]) return -1;
+        if (a[k] > b[k]) return 1;
+      }
+      return 0;
+    });
+  return sorted.slice(0, take);
+}
+
+function createMockPrisma() {
+  const tables: Record<string, any[]> = Object.fromEntries(MODELS.map((m) => [m, []]));
+  const states: any[] = [];
+  const outbox: any[] = [];
+  const logs: any[] = [];
+
+  const prisma: any = {
+    bigQuerySyncLog: {
+      create: vi.fn(async ({ data }: any) => {
+        logs.push({ mode: 'incremental', deletedCount: 0, addedColumns: [], syncedAt: new Date(), ...data });
+        return data;
+      }),
+      findMany: vi.fn(async () => [...logs].reverse()),
+    },
+    bigQuerySyncState: {
+      findUnique: vi.fn(async ({ where }: any) => states.find((s) => s.tableName === where.tableName) ?? null),
+      upsert: vi.fn(async ({ where, create, update }: any) => {
+        const state = states.find((s) => s.tableName === where.tableName);
+        if (state) return Object.assign(state, update);
+        states.push(create);
+        return create;
+      }),
+      findMany: vi.fn(async () => states),
+    },
+    bigQueryDeleteOutbox: {
+      findMany: vi.fn(async (args: any) => findMany(outbox, { ...args, orderBy: [args.orderBy] })),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        outbox.filter((e) => where.id.in.includes(e.id)).forEach((e) => Object.assign(e, data));
+        return { count: where.id.in.length };
+      }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      count: vi.fn(async () => outbox.filter((e) => !e.syncedAt).length),
+    },
+  };
+  for (const model of MODELS) {
+    prisma[model] = { findMany: vi.fn(async (args: any) => findMany(tables[model], args)) };
+  }
+
+  return { prisma, tables, states, outbox, logs };
+}
+
+function franchise(id: string, updatedAt: Date) {
+  return {
+    id,
+    cityId: 'city-1',
+    ownerUserId: `user-${id}`,
+    ownerName: 'Asha Verma',
+    ownerEmail: 'Asha@Example.com',
+    ownerPhone: '+919812345678',
+    contractTerms: { shareBps: 2500 },
+    isActive: true,
+    onboardedAt: new Date('2026-01-10T00:00:00Z'),
+    createdAt: new Date('2026-01-10T00:00:00Z'),
+    updatedAt,
+  };
+}
+
+describe('BigQueryPipelineService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let rootDir: string;
+  let sink: LocalFileSink;
+  let service: BigQueryPipelineService;
+
+  beforeEach(() => {
+    process.env.BIGQUERY_SYNC_ENABLED = 'true';
+    mock = createMockPrisma();
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bq-sink-'));
+    sink = new LocalFileSink(rootDir);
+    service = new BigQueryPipelineService(mock.prisma as unknown as PrismaClient, null, sink, 'test-salt');
+  });
+
+  afterEach(() => {
+    delete process.env.BIGQUERY_SYNC_ENABLED;
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test('skips the run when sync is disabled', async () => {
+    delete process.env.BIGQUERY_SYNC_ENABLED;
+
+    const result = await service.runSync();
+
+    expect(result.tablesProcessed).toBe(0);
+    expect(mock.prisma.franchise.findMany).not.toHaveBeenCalled();
+  });
+
+  test('creates warehouse tables from the Prisma model with PII removed', async () => {
+    mock.tables.franchise.push(franchise('f-1', minutesAgo(30)));
+
+    const result = await service.runSync();
+
+    expect(result).toMatchObject({ tablesProcessed: 9, totalRecords: 1, errors: [] });
+    const columns = (await sink.getSchema('franchises'))!.map((f) => f.name);
+    expect(columns).toEqual(expect.arrayContaining(['owner_email', 'owner_phone', 'contract_terms', '_op', '_changed_at']));
+    expect(columns).not.toContain('owner_name');
+
+    const [row] = await sink.readRows('franchises');
+    expect(row).toMatchObject({
+      id: 'f-1',
+      owner_phone: '*********5678',
+      contract_terms: '{"shareBps":2500}',
+      updated_at: minutesAgo(30).toISOString(),
+      _op: 'upsert',
+      _changed_at: minutesAgo(30).toISOString(),
+    });
+    expect(row.owner_email).toMatch(/^[0-9a-f]{64}$/);
+    expect(row).not.toHaveProperty('owner_name');
+
+    const agentSchema = await sink.getSchema('agents');
+    expect(agentSchema).toContainEqual({ name: 'expertise_tags', type: 'STRING', mode: 'REPEATED' });
+    expect(agentSchema!.map((f) => f.name)).not.toContain('current_lat');
+  });
+
+  test('exports agents without their name and with the phone masked', async () => {
+    mock.tables.agent.push({
+      id: 'a-1',
+      userId: 'user-a-1',
+      cityId: 'city-1',
+      name: 'Ravi Kumar',
+      phone: '+919876543210',
+      photoUrl: 'https://cdn.example.com/a-1.jpg',
+      expertiseTags: ['registration'],
+      isActive: true,
+      createdAt: new Date('2026-01-10T00:00:00Z'),
+      updatedAt: minutesAgo(30),
+    });
+
+    await service.runSync();
+
+    const columns = (await sink.getSchema('agents'))!.map((f) => f.name);
+    expect(columns).toContain('phone');
+    expect(columns).not.toContain('name');
+    const [row] = await sink.readRows('agents');
+    expect(row).toMatchObject({ id: 'a-1', phone: '*********3210' });
+    expect(row).not.toHaveProperty('name');
+    expect(JSON.stringify(row)).not.toContain('Ravi');
+  });
+
+  test('exports only rows changed after the watermark, in cursor then id order', async () => {
+    const at = minutesAgo(60);
+    mock.states.push({ tableName: 'franchises', watermarkAt: at, watermarkId: 'f-b' });
+    mock.tables.franchise.push(
+      franchise('f-a', at), // same timestamp, already exported
+      franchise('f-c', at),
+      franchise('f-d', minutesAgo(20)),
+      franchise('f-old', minutesAgo(90)),
+      franchise('f-open', minutesAgo(1)), // inside the settle window
+    );
+
+    await service.runSync();
+
+    expect((await sink.readRows('franchises')).map((r) => r.id)).toEqual(['f-c', 'f-d']);
+    expect(mock.states[0]).toMatchObject({ watermarkAt: minutesAgo(20), watermarkId: 'f-d' });
+
+    mock.tables.franchise.find((f) => f.id === 'f-a')!.updatedAt = minutesAgo(10);
+    await service.runSync();
+
+    expect((await sink.readRows('franchises')).map((r) => r.id)).toEqual(['f-c', 'f-d', 'f-a']);
+  });
+
+  test('exports deletes from the outbox as tombstones', async () => {
+    mock.outbox.push(
+      { id: 1n, tableName: 'dealers', recordId: 'd-1', deletedAt: minutesAgo(5), syncedAt: null },
+      { id: 2n, tableName: 'cities', recordId: 'c-9', deletedAt: minutesAgo(4), syncedAt: null },
+    );
+
+    const result = await service.runSync();
+
+    expect(result.totalDeleted).toBe(2);
+    const [tombstone] = await sink.readRows('dealers');
+    expect(tombstone).toMatchObject({ id: 'd-1', _op: 'delete', dealer_status: null, _changed_at: minutesAgo(5).toISOString() });
+    expect(mock.outbox.every((e) => e.syncedAt instanceof Date)).toBe(true);
+    expect(mock.logs.find((l) => l.tableName === 'dealers')).toMatchObject({ deletedCount: 1 });
+  });
+
+  test('adds columns the model has gained and records them on the log', async () => {
+    await service.runSync();
+    const schema = (await sink.getSchema('cities'))!.filter((f) => f.name !== 'version');
+    await fs.promises.writeFile(path.join(rootDir, 'cities.schema.json'), JSON.stringify({ fields: schema, partitionField: '_changed_at' }));
+
+    await service.runSync();
+
+    expect((await sink.getSchema('cities'))!.map((f) => f.name)).toContain('version');
+    expect(mock.logs.filter((l) => l.tableName === 'cities').pop()).toMatchObject({ status: 'success', addedColumns: ['version'] });
+  });
+
+  test('a column type change fails that table only', async () => {
+    await service.runSync();
+    const schema = (await sink.getSchema('cities'))!.map((f) => (f.name === 'version' ? { ...f, type: 'STRING' } : f));
+    await fs.promises.writeFile(path.join(rootDir, 'cities.schema.json'), JSON.stringify({ fields: schema, partitionField: '_changed_at' }));
+
+    const result = await service.runSync();
+
+    expect(result.errors).toEqual([expect.stringContaining('Column type changed for version')]);
+    expect(mock.logs.filter((l) => l.tableName === 'dealers').pop()).toMatchObject({ status: 'success' });
+  });
+
+  test('refuses to export hashed PII without a salt', async () => {
+    service = new BigQueryPipelineService(mock.prisma as unknown as PrismaClient, null, sink, '');
+    mock.tables.franchise.push(franchise('f-1', minutesAgo(30)));
+
+    const result = await service.runSync();
+
+    expect(result.errors).toEqual([expect.stringContaining('BIGQUERY_PII_SALT')]);
+    expect(await sink.readRows('franchises')).toEqual([]);
+  });
+
+  test('backfills a range without moving the watermark', async () => {
+    mock.states.push({ tableName: 'franchises', watermarkAt: minutesAgo(10), watermarkId: 'f-z' });
+    mock.tables.franchise.push(
+      franchise('f-1', new Date('2026-03-05T00:00:00Z')),
+      franchise('f-2', new Date('2026-04-02T00:00:00Z')),
+    );
+
+    const result = await service.backfill('franchises', new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z'));
+
+    expect(result.recordCount).toBe(1);
+    expect((await sink.readRows('franchises')).map((r) => r.id)).toEqual(['f-1']);
+    expect(mock.states[0].watermarkId).toBe('f-z');
+    expect(mock.logs[0]).toMatchObject({ mode: 'backfill', status: 'success', recordCount: 1 });
+  });
+
+  test('backfill requests are queued and validated', async () => {
+    const boss = { send: vi.fn().mockResolvedValue('job-1') };
+    service = new BigQueryPipelineService(mock.prisma as unknown as PrismaClient, boss, sink, 'test-salt');
+    const from = new Date('2026-03-01T00:00:00Z');
+    const to = new Date('2026-04-01T00:00:00Z');
+
+    await expect(service.requestBackfill('franchises', from, to)).resolves.toEqual({ queued: true, jobId: 'job-1' });
+    expect(boss.send).toHaveBeenCalledWith(BIGQUERY_BACKFILL_QUEUE, {
+      tableName: 'franchises',
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    await expect(service.requestBackfill('users', from, to)).rejects.toMatchObject({ code: 'BIGQUERY_TABLE_UNKNOWN' });
+    await expect(service.requestBackfill('franchises', to, from)).rejects.toMatchObject({
+      code: 'BIGQUERY_BACKFILL_RANGE_INVALID',
+    });
+  });
+});
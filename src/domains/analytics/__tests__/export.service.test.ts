@@ -0,0 +1,177 @@
+/**
+ * Tests for ExportService
+ * Covers: async hand-off to the worker, batched row streaming into CSV,
+ *         XLSX and PDF files, signed PDFs, signed links, failure cleanup,
+ *         purging
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ExportService, EXPORT_GENERATE_QUEUE } from '../export.service';
+import { LocalFileStorage } from '../../../shared/storage/file-storage';
+import { splitSignedPdf } from '../../../shared/signing/document-signer';
+import { readTextLayer } from '../../documents/text-layer';
+
+function createMockPrisma(revenueRows: number, failOnBatch?: number) {
+  const jobs: any[] = [];
+  let batches = 0;
+  const revenue = Array.from({ length: revenueRows }, (_, i) => ({
+    id: `rev-${String(i).padStart(5, '0')}`,
+    cityId: 'city-1',
+    amountPaise: BigInt(1000 * i),
+    note: i === 0 ? 'Pune, "central"' : null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+  }));
+
+  const prisma: any = {
+    exportJob: {
+      create: vi.fn(async ({ data }: any) => {
+        const job = { id: `job-${jobs.length + 1}-0000-0000`, fileUrl: null, expiresAt: null, storagePath: null, ...data };
+        jobs.push(job);
+        return job;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => jobs.find((j) => j.id === where.id) ?? null),
+      findMany: vi.fn(async ({ where }: any) =>
+        jobs.filter((j) => j.status === where.status && j.expiresAt && j.expiresAt <= where.expiresAt.lte),
+      ),
+      update: vi.fn(async ({ where, data }: any) => ({ ...Object.assign(jobs.find((j) => j.id === where.id), data) })),
+    },
+    franchiseRevenue: {
+      count: vi.fn(async () => revenue.length),
+      findMany: vi.fn(async ({ take, cursor, skip }: any) => {
+        if (++batches === failOnBatch) throw new Error('connection reset');
+        const start = cursor ? revenue.findIndex((r) => r.id === cursor.id) + (skip ?? 0) : 0;
+        return revenue.slice(start, start + take);
+      }),
+    },
+    signedDocument: {
+      create: vi.fn(async ({ data }: any) => data),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, jobs };
+}
+
+describe('ExportService', () => {
+  let rootDir: string;
+  let storage: LocalFileStorage;
+  let boss: { send: ReturnType<typeof vi.fn> };
+
+  const REQUEST = {
+    userId: 'user-1',
+    userRole: 'super_admin',
+    exportType: 'revenue' as const,
+    format: 'csv' as const,
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+    storage = new LocalFileStorage(rootDir, 'http://api.test', 'secret');
+    boss = { send: vi.fn().mockResolvedValue('job-id') };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test('small exports are written inline as CSV with a signed link', async () => {
+    const mock = createMockPrisma(3);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+
+    const result = await service.requestExport(REQUEST);
+
+    expect(result).toMatchObject({ async: false, status: 'completed', rowCount: 3 });
+    expect(result.fileUrl).toMatch(/^http:\/\/api\.test\/api\/v1\/files\?path=exports%2Fuser-1%2F/);
+    const csv = fs.readFileSync(path.join(rootDir, result.storagePath!), 'utf8');
+    expect(csv.split('\r\n')).toEqual([
+      'id,cityId,amountPaise,note,createdAt',
+      'rev-00000,city-1,0,"Pune, ""central""",2026-10-01T00:00:00.000Z',
+      'rev-00001,city-1,1000,,2026-10-01T00:00:00.000Z',
+      'rev-00002,city-1,2000,,2026-10-01T00:00:00.000Z',
+      '',
+    ]);
+    expect(boss.send).not.toHaveBeenCalled();
+  });
+
+  test('large exports are queued for the worker', async () => {
+    const mock = createMockPrisma(0);
+    mock.prisma.franchiseRevenue.count.mockResolvedValue(25000);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+
+    const result = await service.requestExport(REQUEST);
+
+    expect(result).toMatchObject({ async: true, status: 'pending' });
+    expect(boss.send).toHaveBeenCalledWith(EXPORT_GENERATE_QUEUE, { jobId: result.id });
+  });
+
+  test('the worker streams rows in batches and notifies the requester', async () => {
+    const mock = createMockPrisma(2500);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+    const job = await mock.prisma.exportJob.create({ data: { ...REQUEST, format: 'xlsx', status: 'pending' } });
+
+    const result = await service.processExport(job.id, { notify: true });
+
+    expect(result).toMatchObject({ status: 'completed', rowCount: 2500 });
+    expect(mock.prisma.franchiseRevenue.findMany).toHaveBeenCalledTimes(3);
+    expect(mock.prisma.franchiseRevenue.findMany.mock.calls[1][0]).toMatchObject({
+      take: 1000,
+      cursor: { id: 'rev-00999' },
+      skip: 1,
+    });
+    const file = fs.readFileSync(path.join(rootDir, result.storagePath!));
+    expect(file.subarray(0, 2).toString()).toBe('PK');
+    expect(boss.send).toHaveBeenCalledWith(
+      'notification.send',
+      expect.objectContaining({ type: 'export_ready', userId: 'user-1', exportJobId: job.id, rowCount: 2500 }),
+    );
+  });
+
+  test('writes PDF exports', async () => {
+    const mock = createMockPrisma(5);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+
+    const result = await service.requestExport({ ...REQUEST, format: 'pdf' });
+
+    const file = fs.readFileSync(path.join(rootDir, result.storagePath!));
+    expect(file.subarray(0, 5).toString()).toBe('%PDF-');
+
+    // Signed like other platform PDFs, so a copy can be verified by QR
+    const { content, trailer } = splitSignedPdf(file);
+    const record = mock.prisma.signedDocument.create.mock.calls[0][0].data;
+    expect(record).toMatchObject({ id: trailer!.id, kind: 'data_export', sourceId: result.id, cityId: null });
+    expect(record.sha256).toBe(crypto.createHash('sha256').update(file).digest('hex'));
+    expect(readTextLayer(content).join('\n')).toContain(`/api/v1/verify/${trailer!.id}`);
+  });
+
+  test('a failed export removes the partial file and tells the requester', async () => {
+    const mock = createMockPrisma(1500, 2);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+    const job = await mock.prisma.exportJob.create({ data: { ...REQUEST, status: 'pending' } });
+
+    await expect(service.processExport(job.id, { notify: true })).rejects.toThrow('connection reset');
+
+    expect(mock.jobs[0]).toMatchObject({ status: 'failed', error: 'connection reset' });
+    expect(fs.existsSync(path.join(rootDir, 'exports/user-1', `${job.id}.csv`))).toBe(false);
+    expect(boss.send).toHaveBeenCalledWith('notification.send', expect.objectContaining({ type: 'export_failed' }));
+  });
+
+  test('purges files whose links have expired', async () => {
+    const mock = createMockPrisma(1);
+    const service = new ExportService(mock.prisma as unknown as PrismaClient, boss, storage);
+    const result = await service.requestExport(REQUEST);
+    const filePath = path.join(rootDir, result.storagePath!);
+
+    expect(await service.purgeExpiredExports(new Date())).toEqual({ purged: 0, failed: 0 });
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const later = new Date(Date.now() + 25 * 60 * 60 * 1000);
+    expect(await service.purgeExpiredExports(later)).toEqual({ purged: 1, failed: 0 });
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(mock.jobs[0]).toMatchObject({ status: 'expired', fileUrl: null });
+  });
+});
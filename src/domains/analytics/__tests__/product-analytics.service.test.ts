@@ -0,0 +1,188 @@
+/**
+ * Tests for ProductAnalyticsService
+ * Covers: ordered funnels with conversion windows, drop-off by city,
+ *         cohort retention by signup month and acquisition source,
+ *         saved definitions
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { ProductAnalyticsService } from '../product-analytics.service';
+import { FunnelDefinition } from '../analytics.types';
+
+const CITY_A = 'city-a';
+const CITY_B = 'city-b';
+const day = (d: number, h = 6) => new Date(Date.UTC(2026, 2, d, h));
+
+function createMockPrisma() {
+  return {
+    featureUsageEvent: { findMany: vi.fn().mockResolvedValue([]) },
+    serviceRequest: { findMany: vi.fn().mockResolvedValue([]) },
+    payment: { findMany: vi.fn().mockResolvedValue([]) },
+    serviceRequestStatusLog: { findMany: vi.fn().mockResolvedValue([]) },
+    user: { findMany: vi.fn().mockResolvedValue([]) },
+    dealerReferral: { findMany: vi.fn().mockResolvedValue([]) },
+    customerReferralCredit: { findMany: vi.fn().mockResolvedValue([]) },
+    analyticsDefinition: {
+      create: vi.fn(async ({ data }: any) => ({ id: 'def-1', ...data })),
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+    },
+  };
+}
+
+const FUNNEL: FunnelDefinition = {
+  steps: [
+    { type: 'event', eventName: 'catalog_view', label: 'Catalog view' },
+    { type: 'service_request_submitted' },
+    { type: 'payment_completed' },
+    { type: 'service_delivered' },
+  ],
+  conversionWindowDays: 30,
+};
+
+const MARCH = { from: new Date('2026-03-01T00:00:00Z'), to: new Date('2026-04-01T00:00:00Z') };
+
+describe('ProductAnalyticsService', () => {
+  let prisma: ReturnType<typeof createMockPrisma>;
+  let service: ProductAnalyticsService;
+
+  beforeEach(() => {
+    prisma = createMockPrisma();
+    service = new ProductAnalyticsService(prisma as unknown as PrismaClient);
+  });
+
+  describe('runFunnel', () => {
+    beforeEach(() => {
+      prisma.featureUsageEvent.findMany.mockResolvedValue([
+        { userId: 'u1', cityId: CITY_A, createdAt: day(2) },
+        { userId: 'u2', cityId: CITY_A, createdAt: day(3) },
+        { userId: 'u1', cityId: CITY_B, createdAt: day(4) }, // repeat view, entry stays in city A
+        { userId: 'u3', cityId: CITY_B, createdAt: day(5) },
+      ]);
+      prisma.serviceRequest.findMany.mockImplementation(async ({ where }: any) =>
+        where.id
+          ? [{ id: 'sr-1', cityId: CITY_A }]
+          : [
+              { customerId: 'u1', cityId: CITY_A, createdAt: day(2, 9) },
+              { customerId: 'u2', cityId: CITY_A, createdAt: day(1) }, // before entering the funnel
+              { customerId: 'u3', cityId: CITY_B, createdAt: day(6) },
+            ],
+      );
+      prisma.payment.findMany.mockResolvedValue([
+        { customerId: 'u1', serviceRequestId: 'sr-1', paidAt: day(3) },
+        { customerId: 'u3', serviceRequestId: 'sr-3', paidAt: new Date('2026-04-20T00:00:00Z') }, // outside the window
+      ]);
+      prisma.serviceRequestStatusLog.findMany.mockResolvedValue([
+        { createdAt: day(20), serviceRequest: { customerId: 'u1', cityId: CITY_A } },
+      ]);
+    });
+
+    test('counts users reaching each step in order, with drop-off', async () => {
+      const result = await service.runFunnel(FUNNEL, MARCH);
+
+      expect(result.steps.map((s) => [s.label, s.users, s.dropOff])).toEqual([
+        ['Catalog view', 3, 0],
+        ['service_request_submitted', 2, 1],
+        ['payment_completed', 1, 1],
+        ['service_delivered', 1, 0],
+      ]);
+      expect(result.steps[2]).toMatchObject({ conversionRate: 33.3, stepConversionRate: 50 });
+      expect(prisma.featureUsageEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ eventName: 'catalog_view', createdAt: { gte: MARCH.from, lt: MARCH.to } }),
+        }),
+      );
+      // Later steps look past the range by the conversion window
+      expect(prisma.payment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ paidAt: { gte: MARCH.from, lt: new Date('2026-05-01T00:00:00Z') } }),
+        }),
+      );
+    });
+
+    test('breaks drop-off down by the city users entered in', async () => {
+      const result = await service.runFunnel(FUNNEL, MARCH);
+
+      expect(result.byCity.map((c) => [c.cityId, c.steps.map((s) => s.users)])).toEqual([
+        [CITY_A, [2, 1, 1, 1]],
+        [CITY_B, [1, 1, 0, 0]],
+      ]);
+    });
+
+    test('rejects inverted or over-long ranges', async () => {
+      await expect(service.runFunnel(FUNNEL, { from: MARCH.to, to: MARCH.from })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(
+        service.runFunnel(FUNNEL, { from: new Date('2025-01-01'), to: new Date('2026-06-01') }),
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('runCohorts', () => {
+    test('tracks monthly retention by signup month (IST) and acquisition source', async () => {
+      prisma.user.findMany.mockResolvedValue([
+        { id: 'u1', createdAt: new Date('2026-01-10T00:00:00Z') },
+        { id: 'u2', createdAt: new Date('2026-01-20T00:00:00Z') },
+        // 1 Feb 01:30 IST
+        { id: 'u3', createdAt: new Date('2026-01-31T20:00:00Z') },
+      ]);
+      prisma.dealerReferral.findMany.mockResolvedValue([{ customerId: 'u1' }]);
+      prisma.customerReferralCredit.findMany.mockResolvedValue([
+        { referredCustomerId: 'u1' },
+        { referredCustomerId: 'u2' },
+      ]);
+      prisma.featureUsageEvent.findMany.mockResolvedValue([
+        { userId: 'u1', cityId: CITY_A, createdAt: new Date('2026-01-11T00:00:00Z') },
+        { userId: 'u1', cityId: CITY_A, createdAt: new Date('2026-02-03T00:00:00Z') },
+        { userId: 'u2', cityId: CITY_A, createdAt: new Date('2026-03-02T00:00:00Z') },
+        { userId: 'u3', cityId: CITY_A, createdAt: new Date('2026-02-01T00:00:00Z') },
+      ]);
+
+      const result = await service.runCohorts(
+        { activity: { type: 'event' }, periods: 3 },
+        { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-03-01T00:00:00Z') },
+        new Date('2026-03-15T00:00:00Z'),
+      );
+
+      expect(result.cohorts.map((c) => [c.cohort, c.source, c.size, c.activeUsers])).toEqual([
+        ['2026-01', 'all', 2, [1, 1, 1]],
+        ['2026-01', 'dealer_referral', 1, [1, 1, 0]],
+        ['2026-01', 'customer_referral', 1, [0, 0, 1]],
+        ['2026-02', 'all', 1, [1, 0, null]],
+        ['2026-02', 'organic', 1, [1, 0, null]],
+      ]);
+      expect(result.cohorts[0].retention).toEqual([50, 50, 50]);
+      expect(prisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ roles: { has: 'customer' } }) }),
+      );
+      // Any feature event counts when no event name is given
+      expect(prisma.featureUsageEvent.findMany.mock.calls[0][0].where).not.toHaveProperty('eventName');
+    });
+  });
+
+  describe('saved definitions', () => {
+    test('runs a saved funnel for the requested range', async () => {
+      prisma.analyticsDefinition.findUnique.mockResolvedValue({
+        id: 'def-1',
+        name: 'Catalog to delivery',
+        kind: 'funnel',
+        definition: FUNNEL,
+      });
+
+      const { definition, result } = await service.runDefinition('def-1', MARCH);
+
+      expect(definition).toEqual({ id: 'def-1', name: 'Catalog to delivery', kind: 'funnel' });
+      expect(result).toMatchObject({ from: MARCH.from.toISOString(), conversionWindowDays: 30 });
+    });
+
+    test('unknown definitions are not found', async () => {
+      await expect(service.runDefinition('missing', MARCH)).rejects.toMatchObject({
+        code: 'BUSINESS_ANALYTICS_DEFINITION_NOT_FOUND',
+        statusCode: 404,
+      });
+      await expect(service.deleteDefinition('missing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Analytics Sink
+ * Destination for the warehouse sync. BigQuery in production; a local
+ * directory of NDJSON files for development and tests, so the pipeline
+ * runs without GCP credentials.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BigQuery, Dataset, TableField } from '@google-cloud/bigquery';
+import { env } from '../../shared/config/env';
+
+export type SinkFieldType = 'STRING' | 'INT64' | 'FLOAT64' | 'NUMERIC' | 'BOOL' | 'TIMESTAMP' | 'BYTES';
+
+export interface SinkField {
+  name: string;
+  type: SinkFieldType;
+  mode: 'NULLABLE' | 'REQUIRED' | 'REPEATED';
+}
+
+export type SinkRow = Record<string, unknown>;
+
+export interface AnalyticsSink {
+  /** Columns of the table, or null when it does not exist yet. */
+  getSchema(table: string): Promise<SinkField[] | null>;
+  /** Creates the table, partitioned by day on `partitionField`. */
+  createTable(table: string, fields: SinkField[], partitionField: string): Promise<void>;
+  /** Appends columns to an existing table. */
+  addColumns(table: string, fields: SinkField[]): Promise<void>;
+  /** Appends rows. `insertIds` let the sink drop rows re-sent after a retry. */
+  insertRows(table: string, rows: SinkRow[], insertIds: string[]): Promise<void>;
+}
+
+// BigQuery reports legacy SQL type names in table metadata
+const LEGACY_TYPES: Record<string, SinkFieldType> = {
+  INTEGER: 'INT64',
+  FLOAT: 'FLOAT64',
+  BOOLEAN: 'BOOL',
+};
+
+export class BigQuerySink implements AnalyticsSink {
+  private readonly dataset: Dataset;
+
+  constructor(projectId: string | undefined, datasetId: string) {
+    this.dataset = new BigQuery(projectId ? { projectId } : {}).dataset(datasetId);
+  }
+
+  async getSchema(table: string): Promise<SinkField[] | null> {
+    const [exists] = await this.dataset.table(table).exists();
+    if (!exists) return null;
+    const [metadata] = await this.dataset.table(table).getMetadata();
+    return ((metadata.schema?.fields ?? []) as TableField[]).map((f) => ({
+      name: f.name!,
+      type: LEGACY_TYPES[f.type!] ?? (f.type as SinkFieldType),
+      mode: (f.mode ?? 'NULLABLE') as SinkField['mode'],
+    }));
+  }
+
+  async createTable(table: string, fields: SinkField[], partitionField: string): Promise<void> {
+    await this.dataset.createTable(table, {
+      schema: { fields },
+      timePartitioning: { type: 'DAY', field: partitionField },
+    });
+  }
+
+  async addColumns(table: string, fields: SinkField[]): Promise<void> {
+    const [metadata] = await this.dataset.table(table).getMetadata();
+    // The etag makes a concurrent schema change fail rather than be overwritten
+    await this.dataset.table(table).setMetadata({
+      schema: { fields: [...(metadata.schema?.fields ?? []), ...fields] },
+      etag: metadata.etag,
+    });
+  }
+
+  async insertRows(table: string, rows: SinkRow[], insertIds: string[]): Promise<void> {
+    if (rows.length === 0) return;
+    await this.dataset
+      .table(table)
+      .insert(rows.map((json, i) => ({ insertId: insertIds[i], json })), { raw: true });
+  }
+}
+
+/**
+ * One `<table>.schema.json` and one `<table>.ndjson` per table.
+ */
+export class LocalFileSink implements AnalyticsSink {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async getSchema(table: string): Promise<SinkField[] | null> {
+    try {
+      const raw = await fs.promises.readFile(this.file(table, 'schema.json'), 'utf8');
+      return JSON.parse(raw).fields;
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async createTable(table: string, fields: SinkField[], partitionField: string): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await this.writeSchema(table, fields, partitionField);
+  }
+
+  async addColumns(table: string, fields: SinkField[]): Promise<void> {
+    const raw = JSON.parse(await fs.promises.readFile(this.file(table, 'schema.json'), 'utf8'));
+    await this.writeSchema(table, [...raw.fields, ...fields], raw.partitionField);
+  }
+
+  async insertRows(table: string, rows: SinkRow[], _insertIds: string[]): Promise<void> {
+    if (rows.length === 0) return;
+    const lines = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+    await fs.promises.appendFile(this.file(table, 'ndjson'), lines);
+  }
+
+  /** Rows written to a table, oldest first. */
+  async readRows(table: string): Promise<SinkRow[]> {
+    try {
+      const raw = await fs.promises.readFile(this.file(table, 'ndjson'), 'utf8');
+      return raw
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  private async writeSchema(table: string, fields: SinkField[], partitionField: string): Promise<void> {
+    await fs.promises.writeFile(
+      this.file(table, 'schema.json'),
+      JSON.stringify({ fields, partitionField }, null, 2),
+    );
+  }
+
+  private file(table: string, ext: string): string {
+    if (!/^\w+$/.test(table)) throw new Error(`Invalid table name: ${table}`);
+    return path.join(this.rootDir, `${table}.${ext}`);
+  }
+}
+
+let defaultSink: AnalyticsSink | null = null;
+
+/**
+ * Sink selected by BIGQUERY_SINK, shared across the process.
+ */
+export function getAnalyticsSink(): AnalyticsSink {
+  if (!defaultSink) {
+    defaultSink =
+      env.BIGQUERY_SINK === 'local'
+        ? new LocalFileSink(env.BIGQUERY_LOCAL_SINK_DIR)
+        : new BigQuerySink(env.BIGQUERY_PROJECT_ID, env.BIGQUERY_DATASET);
+  }
+  return defaultSink;
+}
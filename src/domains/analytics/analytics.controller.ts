@@ -1,9 +1,47 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { AnalyticsService } from './analytics.service';
+import { ProductAnalyticsService } from './product-analytics.service';
 import { authorize } from '../../middleware/authorize';
 
-export function createAnalyticsController(service: AnalyticsService): Router {
+const activitySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('event'), eventName: z.string().min(1).max(100) }),
+  z.object({ type: z.literal('service_request_submitted'), serviceCode: z.string().max(50).optional() }),
+  z.object({ type: z.literal('payment_completed') }),
+  z.object({ type: z.literal('service_delivered') }),
+]);
+
+const funnelDefinitionSchema = z.object({
+  steps: z
+    .array(activitySchema.and(z.object({ label: z.string().max(100).optional() })))
+    .min(2)
+    .max(8),
+  conversionWindowDays: z.number().int().min(1).max(180).default(30),
+});
+
+const cohortDefinitionSchema = z.object({
+  // Any feature event counts as activity when eventName is omitted
+  activity: z
+    .union([activitySchema, z.object({ type: z.literal('event'), eventName: z.undefined() })])
+    .default({ type: 'event' }),
+  periods: z.number().int().min(1).max(24).default(6),
+});
+
+const rangeSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  cityId: z.string().uuid().optional(),
+});
+
+const saveDefinitionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('funnel'), name: z.string().min(1).max(200), definition: funnelDefinitionSchema }),
+  z.object({ kind: z.literal('cohort'), name: z.string().min(1).max(200), definition: cohortDefinitionSchema }),
+]);
+
+export function createAnalyticsController(
+  service: AnalyticsService,
+  productAnalytics: ProductAnalyticsService,
+): Router {
   const router = Router();
 
   // ===== STORY 14-9: City-Level Analytics =====
@@ -153,5 +191,98 @@ export function createAnalyticsController(service: AnalyticsService): Router {
     }
   );
 
+  // ===== Product analytics: funnels, cohorts & retention =====
+
+  // POST /api/v1/analytics/funnels/query — Run an unsaved funnel
+  router.post(
+    '/funnels/query',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const definition = funnelDefinitionSchema.parse(req.body.definition);
+        const range = rangeSchema.parse(req.body);
+        const result = await productAnalytics.runFunnel(definition, range);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // POST /api/v1/analytics/cohorts/query — Run an unsaved cohort retention query
+  router.post(
+    '/cohorts/query',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const definition = cohortDefinitionSchema.parse(req.body.definition ?? {});
+        const range = rangeSchema.parse(req.body);
+        const result = await productAnalytics.runCohorts(definition, range);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // GET /api/v1/analytics/definitions — Saved funnel and cohort definitions
+  router.get(
+    '/definitions',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { kind } = z.object({ kind: z.enum(['funnel', 'cohort']).optional() }).parse(req.query);
+        const definitions = await productAnalytics.listDefinitions(kind);
+        res.json({ success: true, data: definitions });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // POST /api/v1/analytics/definitions — Save a definition
+  router.post(
+    '/definitions',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const input = saveDefinitionSchema.parse(req.body);
+        const definition = await productAnalytics.createDefinition((req as any).user!.id, input);
+        res.status(201).json({ success: true, data: definition });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // GET /api/v1/analytics/definitions/:id/results?from&to&cityId — Run a saved definition
+  router.get(
+    '/definitions/:id/results',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const range = rangeSchema.parse(req.query);
+        const result = await productAnalytics.runDefinition(req.params.id, range);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // DELETE /api/v1/analytics/definitions/:id
+  router.delete(
+    '/definitions/:id',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await productAnalytics.deleteDefinition(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 }
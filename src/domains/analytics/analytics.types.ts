@@ -103,4 +103,81 @@ export interface BigQuerySyncHealth {
   lastSync: string | null;
   tablesMonitored: number;
   failedTables: string[];
+  /** Last exported change per table */
+  watermarks: Record<string, string | null>;
+  /** Deleted rows not yet exported */
+  pendingDeletes: number;
+}
+
+// ============================================================
+// Product analytics: funnels, cohorts and retention
+// ============================================================
+
+/**
+ * A user action a funnel or cohort counts. Feature events are matched by
+ * name; the others come from service requests, payments and status logs.
+ */
+export type UserActivity =
+  | { type: 'event'; eventName: string }
+  | { type: 'service_request_submitted'; serviceCode?: string }
+  | { type: 'payment_completed' }
+  | { type: 'service_delivered' };
+
+export type FunnelStep = UserActivity & { label?: string };
+
+export interface FunnelDefinition {
+  steps: FunnelStep[];
+  /** Days from entering the funnel within which later steps count */
+  conversionWindowDays: number;
+}
+
+export interface CohortDefinition {
+  /** What counts as active; any feature event when eventName is omitted */
+  activity: UserActivity | { type: 'event'; eventName?: string };
+  /** Months tracked after the signup month */
+  periods: number;
+}
+
+export interface AnalyticsQueryRange {
+  from: Date;
+  to: Date;
+  cityId?: string;
+}
+
+export interface FunnelStepResult {
+  label: string;
+  users: number;
+  /** Share of users who entered the funnel */
+  conversionRate: number;
+  /** Share of users who reached the previous step */
+  stepConversionRate: number;
+  dropOff: number;
+}
+
+export interface FunnelResult {
+  from: string;
+  to: string;
+  conversionWindowDays: number;
+  steps: FunnelStepResult[];
+  /** By the city the user entered the funnel in */
+  byCity: Array<{ cityId: string | null; steps: FunnelStepResult[] }>;
+}
+
+export type AcquisitionSource = 'dealer_referral' | 'customer_referral' | 'organic';
+
+export interface CohortRow {
+  /** Signup month, YYYY-MM (IST) */
+  cohort: string;
+  source: AcquisitionSource | 'all';
+  size: number;
+  /** Active users per month since signup; null for months not yet started */
+  activeUsers: Array<number | null>;
+  retention: Array<number | null>;
+}
+
+export interface CohortResult {
+  from: string;
+  to: string;
+  periods: number;
+  cohorts: CohortRow[];
 }
@@ -1,10 +1,17 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { BigQueryPipelineService } from './bigquery-pipeline.service';
 import { authorize } from '../../middleware/authorize';
 
+const backfillSchema = z.object({
+  table: z.string().min(1),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+});
+
 /**
  * Story 14-14: BigQuery Pipeline Controller
- * Provides health monitoring and manual sync trigger endpoints.
+ * Provides health monitoring, manual sync trigger and backfill endpoints.
  */
 export function createBigQueryPipelineController(service: BigQueryPipelineService): Router {
   const router = Router();
@@ -52,5 +59,20 @@ export function createBigQueryPipelineController(service: BigQueryPipelineServic
     }
   );
 
+  // POST /api/v1/bigquery/backfill — Re-export a table for a date range (Super Admin)
+  router.post(
+    '/backfill',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { table, from, to } = backfillSchema.parse(req.body);
+        const result = await service.requestBackfill(table, from, to);
+        res.status(result.queued ? 202 : 200).json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 }
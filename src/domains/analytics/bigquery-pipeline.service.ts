@@ -1,29 +1,152 @@
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../../shared/utils/logger';
+import { env } from '../../shared/config/env';
+import { BusinessError } from '../../shared/errors/business-error';
+import { AnalyticsSink, SinkField, SinkFieldType, SinkRow, getAnalyticsSink } from './analytics-sink';
 
 /**
  * Story 14-14: BigQuery Analytics Pipeline
  *
  * Syncs PostgreSQL tables to BigQuery hourly via pg-boss scheduled job.
- * Incremental sync — only new/updated records since last sync.
+ * Change-data-capture style: each run exports the rows changed since the
+ * table's watermark, then tombstones for rows deleted since the last run
+ * (captured by database triggers into bigquery_delete_outbox).
+ *
+ * Warehouse tables are append-only change logs partitioned by
+ * `_changed_at`: the latest row per id is the current state, and
+ * `_op = 'delete'` marks a removed row. Columns added to a Prisma model
+ * are added to the warehouse table on the next run. PII columns are
+ * hashed, masked or dropped before export.
  * Firebase Analytics events stream to BigQuery natively.
- * Tables partitioned by date for query performance.
  */
 
-const SYNC_TABLES = [
-  'cities',
-  'franchises',
-  'agents',
-  'dealers',
-  'franchise_revenues',
-  'city_service_fees',
-  'training_modules',
-  'training_progress',
-  'feature_usage_events',
+export const BIGQUERY_BACKFILL_QUEUE = 'bigquery.backfill';
+
+type PiiRule =
+  | 'hash' // keyed HMAC, so values still join across tables
+  | 'mask' // all but the last four characters
+  | 'drop'; // never exported
+
+interface SyncTableConfig {
+  model: Prisma.ModelName;
+  /** Change cursor; append-only tables use createdAt */
+  cursor: 'updatedAt' | 'createdAt';
+  /** Treatment of PII columns, by Prisma field name */
+  pii?: Record<string, PiiRule>;
+}
+
+const SYNC_TABLES: Record<string, SyncTableConfig> = {
+  cities: { model: 'City', cursor: 'updatedAt' },
+  franchises: {
+    model: 'Franchise',
+    cursor: 'updatedAt',
+    pii: { ownerName: 'drop', ownerEmail: 'hash', ownerPhone: 'mask' },
+  },
+  agents: {
+    model: 'Agent',
+    cursor: 'updatedAt',
+    pii: { name: 'drop', phone: 'mask', photoUrl: 'drop', currentLat: 'drop', currentLng: 'drop' },
+  },
+  dealers: { model: 'Dealer', cursor: 'updatedAt' },
+  franchise_revenues: { model: 'FranchiseRevenue', cursor: 'updatedAt' },
+  city_service_fees: { model: 'CityServiceFee', cursor: 'updatedAt' },
+  training_modules: { model: 'TrainingModule', cursor: 'updatedAt' },
+  training_progress: { model: 'TrainingProgress', cursor: 'updatedAt' },
+  feature_usage_events: { model: 'FeatureUsageEvent', cursor: 'createdAt' },
+};
+
+export const SYNC_TABLE_NAMES = Object.keys(SYNC_TABLES);
+
+const BATCH_SIZE = 1000;
+// Rows changed this recently wait for the next run, so a transaction that
+// is still open cannot commit a row behind the watermark.
+const SETTLE_MS = 5 * 60 * 1000;
+const OUTBOX_RETENTION_DAYS = 7;
+
+const FIELD_TYPES: Record<string, SinkFieldType> = {
+  String: 'STRING',
+  Int: 'INT64',
+  BigInt: 'INT64',
+  Float: 'FLOAT64',
+  Decimal: 'NUMERIC',
+  Boolean: 'BOOL',
+  DateTime: 'TIMESTAMP',
+  Json: 'STRING',
+  Bytes: 'BYTES',
+};
+
+const CHANGE_FIELDS: SinkField[] = [
+  { name: '_op', type: 'STRING', mode: 'REQUIRED' },
+  { name: '_changed_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
+  { name: '_synced_at', type: 'TIMESTAMP', mode: 'REQUIRED' },
 ];
 
+interface Column {
+  field: string;
+  name: string;
+  prismaType: string;
+  type: SinkFieldType;
+  isList: boolean;
+  pii?: PiiRule;
+}
+
+interface Watermark {
+  at: Date;
+  id: string;
+}
+
+type SyncRecord = Record<string, unknown>;
+
+interface SyncDelegate {
+  findMany(args: object): Promise<SyncRecord[]>;
+}
+
+export interface TableSyncResult {
+  recordCount: number;
+  deletedCount: number;
+  addedColumns: string[];
+  durationMs: number;
+}
+
+/**
+ * Warehouse columns for a table: the model's scalar fields under their
+ * database names, minus dropped PII.
+ */
+function tableColumns(config: SyncTableConfig): Column[] {
+  const model = Prisma.dmmf.datamodel.models.find((m) => m.name === config.model);
+  if (!model) throw new Error(`Unknown Prisma model ${config.model}`);
+  return model.fields
+    .filter((f) => (f.kind === 'scalar' || f.kind === 'enum') && config.pii?.[f.name] !== 'drop')
+    .map((f) => {
+      const pii = config.pii?.[f.name];
+      return {
+        field: f.name,
+        name: f.dbName ?? f.name,
+        prismaType: f.type,
+        type: pii || f.kind === 'enum' ? 'STRING' : FIELD_TYPES[f.type] ?? 'STRING',
+        isList: f.isList,
+        pii,
+      };
+    });
+}
+
+function maskValue(value: string): string {
+  const visible = value.length > 4 ? value.slice(-4) : '';
+  return '*'.repeat(value.length - visible.length) + visible;
+}
+
 export class BigQueryPipelineService {
-  constructor(private prisma: PrismaClient) {}
+  private readonly sink: AnalyticsSink;
+
+  constructor(
+    private prisma: PrismaClient,
+    private boss: any = null, // PgBoss instance - namespace import cannot be used as type
+    sink?: AnalyticsSink,
+    private piiSalt: string = env.BIGQUERY_PII_SALT,
+  ) {
+    this.sink = sink ?? getAnalyticsSink();
+  }
 
   /**
    * Run the full incremental sync pipeline
@@ -31,6 +154,7 @@ export class BigQueryPipelineService {
   async runSync(): Promise<{
     tablesProcessed: number;
     totalRecords: number;
+    totalDeleted: number;
     durationMs: number;
     errors: string[];
   }> {
@@ -39,6 +163,7 @@ export class BigQueryPipelineService {
       return {
         tablesProcessed: 0,
         totalRecords: 0,
+        totalDeleted: 0,
         durationMs: 0,
         errors: [],
       };
@@ -46,18 +171,22 @@ export class BigQueryPipelineService {
 
     const startTime = Date.now();
     let totalRecords = 0;
+    let totalDeleted = 0;
     const errors: string[] = [];
 
-    for (const tableName of SYNC_TABLES) {
+    for (const tableName of SYNC_TABLE_NAMES) {
       try {
         const result = await this.syncTable(tableName);
         totalRecords += result.recordCount;
+        totalDeleted += result.deletedCount;
 
         // Log successful sync
         await this.prisma.bigQuerySyncLog.create({
           data: {
             tableName,
             recordCount: result.recordCount,
+            deletedCount: result.deletedCount,
+            addedColumns: result.addedColumns,
             status: 'success',
             durationMs: result.durationMs,
           },
@@ -78,64 +207,106 @@ export class BigQueryPipelineService {
       }
     }
 
+    await this.prisma.bigQueryDeleteOutbox.deleteMany({
+      where: { syncedAt: { lt: new Date(Date.now() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+    });
+
     return {
-      tablesProcessed: SYNC_TABLES.length,
+      tablesProcessed: SYNC_TABLE_NAMES.length,
       totalRecords,
+      totalDeleted,
       durationMs: Date.now() - startTime,
       errors,
     };
   }
 
   /**
-   * Sync a single table incrementally
+   * Export a table's changes since its watermark, then its deletes.
+   * The watermark moves after every batch, so a failed run resumes
+   * where it stopped.
    */
-  private async syncTable(tableName: string): Promise<{
-    recordCount: number;
-    durationMs: number;
-  }> {
+  private async syncTable(tableName: string): Promise<TableSyncResult> {
     const startTime = Date.now();
+    const columns = tableColumns(SYNC_TABLES[tableName]);
+    const addedColumns = await this.syncSchema(tableName, columns);
 
-    // Get last successful sync timestamp
-    const lastSync = await this.prisma.bigQuerySyncLog.findFirst({
-      where: { tableName, status: 'success' },
-      orderBy: { syncedAt: 'desc' },
-    });
+    const state = await this.prisma.bigQuerySyncState.findUnique({ where: { tableName } });
+    const watermark = state?.watermarkAt ? { at: state.watermarkAt, id: state.watermarkId ?? '' } : null;
 
-    const lastSyncTime = lastSync?.syncedAt || new Date('2000-01-01');
+    const recordCount = await this.exportRows(
+      tableName,
+      columns,
+      { to: new Date(Date.now() - SETTLE_MS) },
+      watermark,
+      async (last) => {
+        await this.prisma.bigQuerySyncState.upsert({
+          where: { tableName },
+          create: { tableName, watermarkAt: last.at, watermarkId: last.id },
+          update: { watermarkAt: last.at, watermarkId: last.id },
+        });
+      },
+    );
+    const deletedCount = await this.exportDeletes(tableName, columns);
 
-    // In production, this would:
-    // 1. Query PostgreSQL for records updated since lastSyncTime
-    // 2. Transform data to BigQuery format
-    // 3. Stream insert rows to BigQuery table
-    // 4. Verify row counts match
+    return {
+      recordCount,
+      deletedCount,
+      addedColumns,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Re-export rows whose change cursor falls in [from, to). The watermark
+   * is left alone; consumers already take the latest row per id.
+   */
+  async backfill(tableName: string, from: Date, to: Date): Promise<TableSyncResult> {
+    this.assertBackfill(tableName, from, to);
+    const startTime = Date.now();
 
-    // Placeholder: count records that would be synced
-    let recordCount = 0;
     try {
-      const result = await (this.prisma as any)[this.toPrismaModelName(tableName)]?.count({
-        where: {
-          updatedAt: { gt: lastSyncTime },
+      const columns = tableColumns(SYNC_TABLES[tableName]);
+      const addedColumns = await this.syncSchema(tableName, columns);
+      const recordCount = await this.exportRows(tableName, columns, { from, to }, null);
+      const durationMs = Date.now() - startTime;
+
+      await this.prisma.bigQuerySyncLog.create({
+        data: { tableName, mode: 'backfill', recordCount, addedColumns, status: 'success', durationMs },
+      });
+      return { recordCount, deletedCount: 0, addedColumns, durationMs };
+    } catch (error: any) {
+      await this.prisma.bigQuerySyncLog.create({
+        data: {
+          tableName,
+          mode: 'backfill',
+          recordCount: 0,
+          status: 'failed',
+          errorMessage: error.message,
+          durationMs: Date.now() - startTime,
         },
       });
-      recordCount = result || 0;
-    } catch {
-      // Table may not have updatedAt column (e.g., feature_usage_events uses createdAt)
-      try {
-        const result = await (this.prisma as any)[this.toPrismaModelName(tableName)]?.count({
-          where: {
-            createdAt: { gt: lastSyncTime },
-          },
-        });
-        recordCount = result || 0;
-      } catch {
-        recordCount = 0;
-      }
+      throw error;
     }
+  }
 
-    return {
-      recordCount,
-      durationMs: Date.now() - startTime,
-    };
+  /**
+   * Queue a backfill on pg-boss, or run it inline when the queue is not
+   * available (local development).
+   */
+  async requestBackfill(tableName: string, from: Date, to: Date) {
+    this.assertBackfill(tableName, from, to);
+
+    if (this.boss) {
+      const jobId = await this.boss.send(BIGQUERY_BACKFILL_QUEUE, {
+        tableName,
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+      return { queued: true, jobId };
+    }
+
+    const result = await this.backfill(tableName, from, to);
+    return { queued: false, ...result };
   }
 
   /**
@@ -143,8 +314,9 @@ export class BigQueryPipelineService {
    */
   async getPipelineHealth() {
     const recentLogs = await this.prisma.bigQuerySyncLog.findMany({
+      where: { mode: 'incremental' },
       orderBy: { syncedAt: 'desc' },
-      take: SYNC_TABLES.length * 2,
+      take: SYNC_TABLE_NAMES.length * 2,
     });
 
     const latestPerTable: Record<string, any> = {};
@@ -160,12 +332,19 @@ export class BigQueryPipelineService {
 
     const lastSuccessfulSync = recentLogs.find((l) => l.status === 'success');
 
+    const [watermarks, pendingDeletes] = await Promise.all([
+      this.prisma.bigQuerySyncState.findMany({ orderBy: { tableName: 'asc' } }),
+      this.prisma.bigQueryDeleteOutbox.count({ where: { syncedAt: null } }),
+    ]);
+
     return {
       status: failedTables.length === 0 ? 'healthy' : 'degraded',
       lastSync: lastSuccessfulSync?.syncedAt?.toISOString() || null,
-      tablesMonitored: SYNC_TABLES.length,
+      tablesMonitored: SYNC_TABLE_NAMES.length,
       failedTables,
       tableStatus: latestPerTable,
+      watermarks: Object.fromEntries(watermarks.map((w) => [w.tableName, w.watermarkAt?.toISOString() ?? null])),
+      pendingDeletes,
     };
   }
 
@@ -180,20 +359,177 @@ export class BigQueryPipelineService {
   }
 
   /**
-   * Convert table name to Prisma model name
+   * Create the warehouse table, or add the columns the model has gained.
+   * BigQuery cannot change a column's type in place, so a type change
+   * fails the table until the warehouse table is migrated by hand.
+   * Columns removed from the model stay in the warehouse as nulls.
    */
-  private toPrismaModelName(tableName: string): string {
-    const mapping: Record<string, string> = {
-      cities: 'city',
-      franchises: 'franchise',
-      agents: 'agent',
-      dealers: 'dealer',
-      franchise_revenues: 'franchiseRevenue',
-      city_service_fees: 'cityServiceFee',
-      training_modules: 'trainingModule',
-      training_progress: 'trainingProgress',
-      feature_usage_events: 'featureUsageEvent',
-    };
-    return mapping[tableName] || tableName;
+  private async syncSchema(tableName: string, columns: Column[]): Promise<string[]> {
+    const desired: SinkField[] = [
+      ...columns.map((c): SinkField => ({
+        name: c.name,
+        type: c.type,
+        mode: c.isList ? 'REPEATED' : 'NULLABLE',
+      })),
+      ...CHANGE_FIELDS,
+    ];
+
+    const current = await this.sink.getSchema(tableName);
+    if (!current) {
+      await this.sink.createTable(tableName, desired, '_changed_at');
+      logger.info({ tableName, columns: desired.length }, '[BigQuerySync] Created warehouse table');
+      return [];
+    }
+
+    const existing = new Map(current.map((f) => [f.name, f]));
+    const changed = desired.filter((f) => {
+      const old = existing.get(f.name);
+      return old && (old.type !== f.type || old.mode !== f.mode);
+    });
+    if (changed.length > 0) {
+      throw new Error(
+        `Column type changed for ${changed.map((f) => f.name).join(', ')}; migrate the warehouse table by hand`,
+      );
+    }
+
+    const added = desired.filter((f) => !existing.has(f.name));
+    if (added.length > 0) {
+      await this.sink.addColumns(tableName, added);
+      logger.info({ tableName, added: added.map((f) => f.name) }, '[BigQuerySync] Added warehouse columns');
+    }
+    return added.map((f) => f.name);
+  }
+
+  /**
+   * Stream rows in (cursor, id) order, starting after `after`.
+   */
+  private async exportRows(
+    tableName: string,
+    columns: Column[],
+    range: { from?: Date; to: Date },
+    after: Watermark | null,
+    onBatch?: (last: Watermark) => Promise<void>,
+  ): Promise<number> {
+    const config = SYNC_TABLES[tableName];
+    const cursor = config.cursor;
+    let count = 0;
+
+    for (;;) {
+      const records = await this.delegate(config).findMany({
+        where: {
+          AND: [
+            { [cursor]: { ...(range.from && { gte: range.from }), lt: range.to } },
+            ...(after
+              ? [{ OR: [{ [cursor]: { gt: after.at } }, { [cursor]: after.at, id: { gt: after.id } }] }]
+              : []),
+          ],
+        },
+        orderBy: [{ [cursor]: 'asc' }, { id: 'asc' }],
+        take: BATCH_SIZE,
+      });
+      if (records.length === 0) break;
+
+      const syncedAt = new Date();
+      await this.sink.insertRows(
+        tableName,
+        records.map((r) => this.toSinkRow(columns, r, 'upsert', r[cursor] as Date, syncedAt)),
+        records.map((r) => `${r.id}:${(r[cursor] as Date).getTime()}`),
+      );
+
+      const last = records[records.length - 1];
+      after = { at: last[cursor] as Date, id: last.id as string };
+      count += records.length;
+      if (onBatch) await onBatch(after);
+      if (records.length < BATCH_SIZE) break;
+    }
+
+    return count;
+  }
+
+  private async exportDeletes(tableName: string, columns: Column[]): Promise<number> {
+    let count = 0;
+
+    for (;;) {
+      const entries = await this.prisma.bigQueryDeleteOutbox.findMany({
+        where: { tableName, syncedAt: null },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (entries.length === 0) break;
+
+      const syncedAt = new Date();
+      await this.sink.insertRows(
+        tableName,
+        entries.map((e) => this.toSinkRow(columns, { id: e.recordId }, 'delete', e.deletedAt, syncedAt)),
+        entries.map((e) => `delete:${e.id}`),
+      );
+      await this.prisma.bigQueryDeleteOutbox.updateMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+        data: { syncedAt },
+      });
+
+      count += entries.length;
+      if (entries.length < BATCH_SIZE) break;
+    }
+
+    return count;
+  }
+
+  private toSinkRow(
+    columns: Column[],
+    record: SyncRecord,
+    op: 'upsert' | 'delete',
+    changedAt: Date,
+    syncedAt: Date,
+  ): SinkRow {
+    const row: SinkRow = {};
+    for (const column of columns) {
+      const value = record[column.field];
+      if (value === null || value === undefined) {
+        // BigQuery has no null arrays
+        row[column.name] = column.isList ? [] : null;
+      } else if (column.isList && Array.isArray(value)) {
+        row[column.name] = value.map((v) => this.exportValue(column, v));
+      } else {
+        row[column.name] = this.exportValue(column, value);
+      }
+    }
+    row._op = op;
+    row._changed_at = changedAt.toISOString();
+    row._synced_at = syncedAt.toISOString();
+    return row;
+  }
+
+  private exportValue(column: Column, value: unknown): unknown {
+    if (column.pii === 'hash') return this.hashPii(String(value));
+    if (column.pii === 'mask') return maskValue(String(value));
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'bigint') return value.toString();
+    if (Buffer.isBuffer(value)) return value.toString('base64');
+    if (column.prismaType === 'Json') return JSON.stringify(value);
+    if (column.prismaType === 'Decimal') return String(value);
+    return value;
+  }
+
+  private hashPii(value: string): string {
+    // An unkeyed hash of a phone number or email is trivially reversed
+    if (!this.piiSalt) throw new Error('BIGQUERY_PII_SALT must be set to export hashed PII columns');
+    return crypto.createHmac('sha256', this.piiSalt).update(value.trim().toLowerCase()).digest('hex');
+  }
+
+  private assertBackfill(tableName: string, from: Date, to: Date): void {
+    if (!SYNC_TABLES[tableName]) {
+      throw new BusinessError('BIGQUERY_TABLE_UNKNOWN', `Table ${tableName} is not synced to BigQuery`, 400, {
+        tables: SYNC_TABLE_NAMES,
+      });
+    }
+    if (from >= to) {
+      throw new BusinessError('BIGQUERY_BACKFILL_RANGE_INVALID', 'Backfill range must end after it starts', 400);
+    }
+  }
+
+  private delegate(config: SyncTableConfig): SyncDelegate {
+    const key = config.model.charAt(0).toLowerCase() + config.model.slice(1);
+    return (this.prisma as unknown as Record<string, SyncDelegate>)[key];
   }
 }
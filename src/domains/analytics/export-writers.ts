@@ -0,0 +1,137 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Prisma } from '@prisma/client';
+import { DocumentSigningService, SignedDocumentSource } from '../../shared/signing/document-signing.service';
+
+/**
+ * Story 14-13: streaming export writers.
+ * Each writer consumes rows one at a time and writes straight to the
+ * output stream, so an export never holds the full result in memory.
+ * Columns are taken from the first row.
+ */
+
+export type ExportRow = Record<string, unknown>;
+export type ExportFileFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFileFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export interface ExportSigning {
+  signing: DocumentSigningService;
+  source: SignedDocumentSource;
+}
+
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Prisma.Decimal) return value.toString();
+  if (typeof value === 'object') return JSON.stringify(value, (_k, v) => (typeof v === 'bigint' ? v.toString() : v));
+  return String(value);
+}
+
+export function toCsvLine(values: string[]): string {
+  return values.map((v) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v)).join(',') + '\r\n';
+}
+
+async function write(out: Writable, chunk: string): Promise<void> {
+  if (!out.write(chunk)) await once(out, 'drain');
+}
+
+async function writeCsv(rows: AsyncIterable<ExportRow>, out: Writable): Promise<number> {
+  let columns: string[] | null = null;
+  let count = 0;
+  for await (const row of rows) {
+    if (!columns) {
+      columns = Object.keys(row);
+      await write(out, toCsvLine(columns));
+    }
+    await write(out, toCsvLine(columns.map((c) => formatCell(row[c]))));
+    count++;
+  }
+  out.end();
+  await finished(out);
+  return count;
+}
+
+async function writeXlsx(rows: AsyncIterable<ExportRow>, out: Writable, title: string): Promise<number> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet(title.slice(0, 31));
+  let columns: string[] | null = null;
+  let count = 0;
+  for await (const row of rows) {
+    if (!columns) {
+      columns = Object.keys(row);
+      sheet.addRow(columns).commit();
+    }
+    sheet.addRow(columns.map((c) => formatCell(row[c]))).commit();
+    count++;
+  }
+  sheet.commit();
+  await workbook.commit();
+  await finished(out);
+  return count;
+}
+
+async function writePdf(
+  rows: AsyncIterable<ExportRow>,
+  out: Writable,
+  title: string,
+  signed?: ExportSigning,
+): Promise<number> {
+  const options = { margin: 40, size: 'A4', layout: 'landscape' };
+  let count = 0;
+  const draw = async (doc: any) => {
+    doc.fontSize(14).text(title).moveDown(0.5);
+    doc.fontSize(7);
+
+    let columns: string[] | null = null;
+    for await (const row of rows) {
+      if (!columns) {
+        columns = Object.keys(row);
+        doc.font('Helvetica-Bold').text(columns.join(' | ')).font('Helvetica');
+      }
+      doc.text(columns.map((c) => formatCell(row[c])).join(' | '));
+      count++;
+    }
+    if (count === 0) doc.text('No rows');
+  };
+
+  if (signed) {
+    await signed.signing.streamSignedPdf(signed.source, out, draw, options);
+  } else {
+    const doc = new PDFDocument(options);
+    doc.pipe(out);
+    await draw(doc);
+    doc.end();
+    await finished(out);
+  }
+  return count;
+}
+
+/**
+ * Writes rows to `out` in the given format and ends the stream.
+ * Resolves with the number of data rows once the output has finished.
+ * PDFs are signed when `signed` is given.
+ */
+export function writeExport(
+  format: ExportFileFormat,
+  rows: AsyncIterable<ExportRow>,
+  out: Writable,
+  title: string,
+  signed?: ExportSigning,
+): Promise<number> {
+  switch (format) {
+    case 'csv':
+      return writeCsv(rows, out);
+    case 'xlsx':
+      return writeXlsx(rows, out, title);
+    case 'pdf':
+      return writePdf(rows, out, title, signed);
+  }
+}
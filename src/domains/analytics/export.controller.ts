@@ -2,6 +2,7 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { ExportService, ExportType, ExportFormat } from './export.service';
 import { authorize } from '../../middleware/authorize';
+import { BusinessError } from '../../shared/errors/business-error';
 
 const requestExportSchema = z.object({
   exportType: z.enum([
@@ -45,6 +46,10 @@ export function createExportController(service: ExportService): Router {
     async (req: Request, res: Response, next: NextFunction) => {
       try {
         const job = await service.getExportStatus(req.params.id);
+        // The download link is a credential; only the requester gets it
+        if (!job || (job.userId !== req.user!.id && req.user!.role !== 'super_admin')) {
+          throw new BusinessError('EXPORT_NOT_FOUND', 'Export not found', 404);
+        }
         res.json({ success: true, data: job });
       } catch (error) {
         next(error);
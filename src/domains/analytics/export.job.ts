@@ -0,0 +1,33 @@
+/**
+ * Export pg-boss jobs.
+ * Generates large exports off the request path (export.generate) and
+ * deletes files whose download links have expired (export.purge, hourly).
+ */
+import { PrismaClient } from '@prisma/client';
+import { EXPORT_GENERATE_QUEUE, ExportService } from './export.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const EXPORT_PURGE_QUEUE = 'export.purge';
+const EXPORT_PURGE_SCHEDULE = '40 * * * *';
+
+export async function registerExportJobs(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const exportService = new ExportService(prisma, boss);
+
+  await boss.createQueue(EXPORT_GENERATE_QUEUE);
+  await boss.work(EXPORT_GENERATE_QUEUE, async (job: { data: { jobId: string } }) => {
+    const result = await exportService.processExport(job.data.jobId, { notify: true });
+    logger.info({ jobId: result.id, rowCount: result.rowCount }, 'Export generated');
+  });
+
+  await boss.createQueue(EXPORT_PURGE_QUEUE);
+  await boss.work(EXPORT_PURGE_QUEUE, async () => {
+    const result = await exportService.purgeExpiredExports();
+    logger.info(result, 'Expired exports purged');
+  });
+  await boss.schedule(EXPORT_PURGE_QUEUE, EXPORT_PURGE_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
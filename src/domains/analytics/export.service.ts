@@ -1,14 +1,22 @@
-import { PrismaClient } from '@prisma/client';
+import { finished } from 'stream/promises';
+import { ExportJob, PrismaClient } from '@prisma/client';
 import type { InputJsonValue } from '@prisma/client/runtime/library';
 import { BusinessError } from '../../shared/errors/business-error';
 import * as ErrorCodes from '../../shared/errors/error-codes';
+import { DocumentSigningService } from '../../shared/signing/document-signing.service';
+import { FileStorage, getFileStorage } from '../../shared/storage/file-storage';
+import { logger } from '../../shared/utils/logger';
+import { EXPORT_CONTENT_TYPES, ExportRow, writeExport } from './export-writers';
 
 /**
  * Story 14-13: Exportable Reports for Stakeholders
  *
  * Generates exports in PDF, CSV, and XLSX formats.
- * Large exports (>10,000 rows) are processed asynchronously.
- * Files served via signed URLs expiring in 24 hours.
+ * Large exports (>10,000 rows) are processed asynchronously by the
+ * export.generate worker. Rows are streamed in id-ordered batches into the
+ * file, which is written to file storage and served via a signed URL
+ * expiring in 24 hours; expired files are purged. PDF exports carry the
+ * same verification QR and signature as other platform-generated PDFs.
  * RBAC-aware: users can only export data they can view.
  */
 
@@ -23,9 +31,25 @@ export type ExportType =
   | 'pipeline_forecast';
 
 const MAX_SYNC_ROWS = 10000;
+const BATCH_SIZE = 1000;
+const LINK_TTL_HOURS = 24;
+const PURGE_BATCH_SIZE = 200;
+
+export const EXPORT_GENERATE_QUEUE = 'export.generate';
 
 export class ExportService {
-  constructor(private prisma: PrismaClient) {}
+  private readonly storage: FileStorage;
+  private readonly signing: DocumentSigningService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private boss: any = null, // PgBoss instance - namespace import cannot be used as type
+    storage?: FileStorage,
+    signing?: DocumentSigningService,
+  ) {
+    this.storage = storage ?? getFileStorage();
+    this.signing = signing ?? new DocumentSigningService(prisma);
+  }
 
   /**
    * Request an export job
@@ -56,13 +80,12 @@ export class ExportService {
     // Check if this will be a large export
     const estimatedRows = await this.estimateRowCount(params.exportType, params.cityId, params.filters);
 
-    if (estimatedRows > MAX_SYNC_ROWS) {
-      // Process asynchronously via pg-boss
-      // In production: boss.send('export.generate', { jobId: job.id })
+    if (estimatedRows > MAX_SYNC_ROWS && this.boss) {
+      await this.boss.send(EXPORT_GENERATE_QUEUE, { jobId: job.id });
       return {
         ...job,
         async: true,
-        message: `Large export (~${estimatedRows} rows). You will be notified via email when ready.`,
+        message: `Large export (~${estimatedRows} rows). You will be notified when it is ready to download.`,
       };
     }
 
@@ -72,48 +95,93 @@ export class ExportService {
   }
 
   /**
-   * Process an export job (generate file)
+   * Process an export job: stream the rows into a file in storage and
+   * attach a signed download URL. With `notify`, the requester is told
+   * when the file is ready (or the export failed).
    */
-  async processExport(jobId: string) {
+  async processExport(jobId: string, options: { notify?: boolean } = {}): Promise<ExportJob> {
     const job = await this.prisma.exportJob.findUnique({ where: { id: jobId } });
     if (!job) throw new Error('Export job not found');
+    if (job.status === 'completed' || job.status === 'expired') return job; // redelivered job
 
     await this.prisma.exportJob.update({
       where: { id: jobId },
-      data: { status: 'processing' },
+      data: { status: 'processing', error: null },
     });
 
+    const format = job.format as ExportFormat;
+    const storagePath = `exports/${job.userId}/${job.id}.${format}`;
+    const out = this.storage.createWriteStream(storagePath, EXPORT_CONTENT_TYPES[format]);
+
     try {
-      // Generate the export data based on type
-      const data = await this.fetchExportData(job.exportType, job.cityId, job.filters as Record<string, unknown> | undefined);
-      const rowCount = Array.isArray(data) ? data.length : 0;
-
-      // In production, this would:
-      // 1. Generate PDF/CSV/XLSX using pdfkit/json2csv/exceljs
-      // 2. Upload to Firebase Storage
-      // 3. Generate signed URL with 24-hour expiry
-      const fileUrl = `https://storage.example.com/exports/${jobId}.${job.format}`;
+      const rows = this.streamRows(job.exportType as ExportType, job.cityId);
+      const rowCount = await writeExport(format, rows, out, job.exportType, {
+        signing: this.signing,
+        source: { kind: 'data_export', sourceId: job.id, title: `Data export ${job.exportType} ${job.id}`, cityId: job.cityId },
+      });
+
       const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24);
+      expiresAt.setHours(expiresAt.getHours() + LINK_TTL_HOURS);
+      const fileUrl = await this.storage.getSignedUrl(storagePath, expiresAt, `${job.exportType}-${job.id.slice(0, 8)}.${format}`);
 
-      return this.prisma.exportJob.update({
+      const completed = await this.prisma.exportJob.update({
         where: { id: jobId },
         data: {
           status: 'completed',
+          storagePath,
           fileUrl,
           expiresAt,
           rowCount,
+          completedAt: new Date(),
         },
       });
+      if (options.notify) await this.notify(completed);
+      return completed;
     } catch (error) {
-      await this.prisma.exportJob.update({
+      // Let the aborted stream close before removing what it wrote
+      const closed = finished(out).catch(() => undefined);
+      out.destroy();
+      await closed;
+      await this.storage.delete(storagePath).catch((err) => {
+        logger.warn({ err, jobId, storagePath }, 'Failed to remove partial export file');
+      });
+      const failed = await this.prisma.exportJob.update({
         where: { id: jobId },
-        data: { status: 'failed' },
+        data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
       });
+      if (options.notify) await this.notify(failed);
       throw error;
     }
   }
 
+  /**
+   * Deletes files of exports whose download link has expired.
+   */
+  async purgeExpiredExports(now: Date = new Date()): Promise<{ purged: number; failed: number }> {
+    const expired = await this.prisma.exportJob.findMany({
+      where: { status: 'completed', expiresAt: { lte: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: PURGE_BATCH_SIZE,
+    });
+
+    let purged = 0;
+    let failed = 0;
+    for (const job of expired) {
+      try {
+        if (job.storagePath) await this.storage.delete(job.storagePath);
+        await this.prisma.exportJob.update({
+          where: { id: job.id },
+          data: { status: 'expired', fileUrl: null },
+        });
+        purged++;
+      } catch (err) {
+        failed++;
+        logger.error({ err, jobId: job.id }, 'Export purge failed');
+      }
+    }
+    return { purged, failed };
+  }
+
   /**
    * Get export job status
    */
@@ -181,28 +249,61 @@ export class ExportService {
   }
 
   /**
-   * Fetch data for export based on type
+   * Stream export rows in id-ordered batches (keyset pagination), so only
+   * one batch is in memory at a time.
    */
-  private async fetchExportData(
-    exportType: string,
-    cityId?: string | null,
-    filters?: Record<string, unknown>
-  ): Promise<unknown[]> {
-    const where: any = {};
-    if (cityId) where.cityId = cityId;
+  private async *streamRows(exportType: ExportType, cityId?: string | null): AsyncGenerator<ExportRow> {
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.fetchBatch(exportType, cityId, cursor);
+      yield* batch;
+      if (batch.length < BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id as string;
+    }
+  }
+
+  /**
+   * Fetch one batch of export data based on type
+   */
+  private async fetchBatch(
+    exportType: ExportType,
+    cityId: string | null | undefined,
+    cursor: string | undefined
+  ): Promise<ExportRow[]> {
+    const page = {
+      where: cityId ? { cityId } : {},
+      orderBy: { id: 'asc' as const },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    };
 
-    const take = MAX_SYNC_ROWS; // Cap fetched rows to prevent unbounded queries
     switch (exportType) {
       case 'revenue':
-        return this.prisma.franchiseRevenue.findMany({ where, orderBy: { createdAt: 'desc' }, take });
+        return this.prisma.franchiseRevenue.findMany(page);
       case 'agent_performance':
-        return this.prisma.agent.findMany({ where, orderBy: { name: 'asc' }, take });
+        return this.prisma.agent.findMany(page);
       case 'dealer_commissions':
-        return this.prisma.dealer.findMany({ where, orderBy: { createdAt: 'desc' }, take });
+        return this.prisma.dealer.findMany(page);
       case 'service_list':
-        return this.prisma.franchiseRevenue.findMany({ where, orderBy: { createdAt: 'desc' }, take });
+        return this.prisma.franchiseRevenue.findMany(page);
       default:
         return [];
     }
   }
+
+  private async notify(job: ExportJob) {
+    if (!this.boss) return;
+    await this.boss
+      .send('notification.send', {
+        type: job.status === 'completed' ? 'export_ready' : 'export_failed',
+        userId: job.userId,
+        exportJobId: job.id,
+        exportType: job.exportType,
+        format: job.format,
+        rowCount: job.rowCount,
+        downloadUrl: job.fileUrl,
+        expiresAt: job.expiresAt?.toISOString() ?? null,
+      })
+      .catch((err: unknown) => logger.error({ err, jobId: job.id }, 'Export notification failed'));
+  }
 }
@@ -0,0 +1,410 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import * as ErrorCodes from '../../shared/errors/error-codes';
+import { zonedParts, zonedTimeToUtc } from '../../shared/utils/timezone';
+import {
+  AcquisitionSource,
+  AnalyticsQueryRange,
+  CohortDefinition,
+  CohortResult,
+  CohortRow,
+  FunnelDefinition,
+  FunnelResult,
+  FunnelStep,
+  FunnelStepResult,
+  UserActivity,
+} from './analytics.types';
+
+/**
+ * Product analytics: funnels, cohort retention and drop-off by city over
+ * FeatureUsageEvent, joined with service requests, payments and status
+ * logs. Definitions can be saved and re-run for any date range.
+ *
+ * Months are IST calendar months.
+ */
+
+const TIMEZONE = 'Asia/Kolkata';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+// Keeps `userId IN (...)` lists to a size Postgres plans well
+const USER_CHUNK = 1000;
+
+const SOURCE_ORDER: CohortRow['source'][] = ['all', 'dealer_referral', 'customer_referral', 'organic'];
+
+type ActivityFilter = UserActivity | CohortDefinition['activity'];
+
+interface Occurrence {
+  userId: string;
+  at: Date;
+  cityId: string | null;
+}
+
+function percent(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 1000) / 10;
+}
+
+/** Months since year 0, so month offsets are plain subtraction */
+function monthIndex(at: Date): number {
+  const [y, m] = zonedParts(at, TIMEZONE).date.split('-').map(Number);
+  return y * 12 + (m - 1);
+}
+
+function monthLabel(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+function monthStart(index: number): Date {
+  return zonedTimeToUtc(`${monthLabel(index)}-01`, '00:00', TIMEZONE);
+}
+
+function stepLabel(step: FunnelStep): string {
+  if (step.label) return step.label;
+  return step.type === 'event' ? step.eventName : step.type;
+}
+
+function stepResults(labels: string[], counts: number[]): FunnelStepResult[] {
+  return counts.map((users, i) => ({
+    label: labels[i],
+    users,
+    conversionRate: percent(users, counts[0]),
+    stepConversionRate: percent(users, i === 0 ? users : counts[i - 1]),
+    dropOff: i === 0 ? 0 : counts[i - 1] - users,
+  }));
+}
+
+export class ProductAnalyticsService {
+  constructor(private prisma: PrismaClient) {}
+
+  // ============================================================
+  // Funnels
+  // ============================================================
+
+  /**
+   * Users enter at their first occurrence of step one in the range and
+   * reach each later step by doing it after the previous one, within the
+   * conversion window from entry.
+   */
+  async runFunnel(definition: FunnelDefinition, range: AnalyticsQueryRange): Promise<FunnelResult> {
+    this.assertRange(range);
+    const windowMs = definition.conversionWindowDays * DAY_MS;
+    const [first, ...rest] = definition.steps;
+
+    const entries = new Map<string, Occurrence>();
+    for (const o of await this.occurrences(first, range.from, range.to, null, range.cityId)) {
+      if (!entries.has(o.userId)) entries.set(o.userId, o);
+    }
+
+    const reachedPerStep: Map<string, Date>[] = [new Map([...entries].map(([userId, o]) => [userId, o.at]))];
+    const until = new Date(range.to.getTime() + windowMs);
+    for (const step of rest) {
+      const previous = reachedPerStep[reachedPerStep.length - 1];
+      const byUser = new Map<string, Date[]>();
+      for (const o of await this.occurrences(step, range.from, until, [...previous.keys()])) {
+        const times = byUser.get(o.userId);
+        if (times) times.push(o.at);
+        else byUser.set(o.userId, [o.at]);
+      }
+
+      const reached = new Map<string, Date>();
+      for (const [userId, previousAt] of previous) {
+        const deadline = entries.get(userId)!.at.getTime() + windowMs;
+        const at = byUser.get(userId)?.find((t) => t >= previousAt && t.getTime() <= deadline);
+        if (at) reached.set(userId, at);
+      }
+      reachedPerStep.push(reached);
+    }
+
+    const labels = definition.steps.map(stepLabel);
+    const cityIds = [...new Set([...entries.values()].map((o) => o.cityId))];
+    const byCity = cityIds
+      .map((cityId) => ({
+        cityId,
+        steps: stepResults(
+          labels,
+          reachedPerStep.map((reached) => [...reached.keys()].filter((u) => entries.get(u)!.cityId === cityId).length),
+        ),
+      }))
+      .sort((a, b) => b.steps[0].users - a.steps[0].users);
+
+    return {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      conversionWindowDays: definition.conversionWindowDays,
+      steps: stepResults(
+        labels,
+        reachedPerStep.map((reached) => reached.size),
+      ),
+      byCity,
+    };
+  }
+
+  // ============================================================
+  // Cohort retention
+  // ============================================================
+
+  /**
+   * Customers who signed up in the range, grouped by signup month and
+   * acquisition source, with the share active in each month after signup
+   * (month 0 is the signup month).
+   */
+  async runCohorts(
+    definition: CohortDefinition,
+    range: AnalyticsQueryRange,
+    now: Date = new Date(),
+  ): Promise<CohortResult> {
+    this.assertRange(range);
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        roles: { has: 'customer' },
+        createdAt: { gte: range.from, lt: range.to },
+        ...(range.cityId && { cityId: range.cityId }),
+      },
+      select: { id: true, createdAt: true },
+    });
+    const userIds = users.map((u) => u.id);
+    const signupMonth = new Map(users.map((u) => [u.id, monthIndex(u.createdAt)]));
+    const sources = await this.acquisitionSources(userIds);
+
+    const currentMonth = monthIndex(now);
+    const lastTracked = monthStart(monthIndex(range.to) + definition.periods);
+    const until = lastTracked < now ? lastTracked : now;
+
+    const active = new Set<string>();
+    for (const o of await this.occurrences(definition.activity, range.from, until, userIds)) {
+      const offset = monthIndex(o.at) - signupMonth.get(o.userId)!;
+      if (offset >= 0 && offset < definition.periods) active.add(`${o.userId}:${offset}`);
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const user of users) {
+      const cohort = monthLabel(signupMonth.get(user.id)!);
+      for (const source of ['all', sources.get(user.id) ?? 'organic']) {
+        const key = `${cohort}|${source}`;
+        const members = groups.get(key);
+        if (members) members.push(user.id);
+        else groups.set(key, [user.id]);
+      }
+    }
+
+    const cohorts = [...groups]
+      .map(([key, members]): CohortRow => {
+        const [cohort, source] = key.split('|') as [string, CohortRow['source']];
+        const start = signupMonth.get(members[0])!;
+        const activeUsers = Array.from({ length: definition.periods }, (_, offset) =>
+          start + offset > currentMonth ? null : members.filter((id) => active.has(`${id}:${offset}`)).length,
+        );
+        return {
+          cohort,
+          source,
+          size: members.length,
+          activeUsers,
+          retention: activeUsers.map((n) => (n === null ? null : percent(n, members.length))),
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.cohort.localeCompare(b.cohort) || SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source),
+      );
+
+    return {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      periods: definition.periods,
+      cohorts,
+    };
+  }
+
+  // ============================================================
+  // Saved definitions
+  // ============================================================
+
+  async createDefinition(
+    userId: string,
+    input: { name: string } & (
+      | { kind: 'funnel'; definition: FunnelDefinition }
+      | { kind: 'cohort'; definition: CohortDefinition }
+    ),
+  ) {
+    return this.prisma.analyticsDefinition.create({
+      data: {
+        name: input.name,
+        kind: input.kind,
+        definition: input.definition as unknown as Prisma.InputJsonValue,
+        createdBy: userId,
+      },
+    });
+  }
+
+  async listDefinitions(kind?: 'funnel' | 'cohort') {
+    return this.prisma.analyticsDefinition.findMany({
+      where: kind ? { kind } : {},
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async deleteDefinition(id: string) {
+    await this.getDefinition(id);
+    await this.prisma.analyticsDefinition.delete({ where: { id } });
+  }
+
+  /**
+   * Run a saved funnel or cohort definition for a date range.
+   */
+  async runDefinition(id: string, range: AnalyticsQueryRange) {
+    const saved = await this.getDefinition(id);
+    const result =
+      saved.kind === 'funnel'
+        ? await this.runFunnel(saved.definition as unknown as FunnelDefinition, range)
+        : await this.runCohorts(saved.definition as unknown as CohortDefinition, range);
+    return { definition: { id: saved.id, name: saved.name, kind: saved.kind }, result };
+  }
+
+  private async getDefinition(id: string) {
+    const saved = await this.prisma.analyticsDefinition.findUnique({ where: { id } });
+    if (!saved) {
+      throw new BusinessError(
+        ErrorCodes.BUSINESS_ANALYTICS_DEFINITION_NOT_FOUND,
+        'Analytics definition not found',
+        404,
+      );
+    }
+    return saved;
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private assertRange(range: AnalyticsQueryRange): void {
+    if (range.from >= range.to || range.to.getTime() - range.from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BusinessError(
+        ErrorCodes.VALIDATION_INVALID_INPUT,
+        `Date range must end after it starts and span at most ${MAX_RANGE_DAYS} days`,
+        400,
+      );
+    }
+  }
+
+  /**
+   * Dealer attribution wins over a customer referral; everyone else is organic.
+   */
+  private async acquisitionSources(userIds: string[]): Promise<Map<string, AcquisitionSource>> {
+    const sources = new Map<string, AcquisitionSource>();
+    for (let i = 0; i < userIds.length; i += USER_CHUNK) {
+      const chunk = userIds.slice(i, i + USER_CHUNK);
+      const [customerReferred, dealerReferred] = await Promise.all([
+        this.prisma.customerReferralCredit.findMany({
+          where: { referredCustomerId: { in: chunk } },
+          select: { referredCustomerId: true },
+        }),
+        this.prisma.dealerReferral.findMany({
+          where: { customerId: { in: chunk } },
+          select: { customerId: true },
+        }),
+      ]);
+      for (const r of customerReferred) sources.set(r.referredCustomerId, 'customer_referral');
+      for (const r of dealerReferred) sources.set(r.customerId, 'dealer_referral');
+    }
+    return sources;
+  }
+
+  /**
+   * When and where users did something, oldest first per user. `userIds`
+   * null means any user.
+   */
+  private async occurrences(
+    activity: ActivityFilter,
+    since: Date,
+    until: Date,
+    userIds: string[] | null,
+    cityId?: string,
+  ): Promise<Occurrence[]> {
+    if (userIds === null) return this.fetchOccurrences(activity, since, until, undefined, cityId);
+
+    const result: Occurrence[] = [];
+    for (let i = 0; i < userIds.length; i += USER_CHUNK) {
+      result.push(...(await this.fetchOccurrences(activity, since, until, userIds.slice(i, i + USER_CHUNK))));
+    }
+    return result;
+  }
+
+  private async fetchOccurrences(
+    activity: ActivityFilter,
+    since: Date,
+    until: Date,
+    userIds?: string[],
+    cityId?: string,
+  ): Promise<Occurrence[]> {
+    switch (activity.type) {
+      case 'event': {
+        const events = await this.prisma.featureUsageEvent.findMany({
+          where: {
+            ...(activity.eventName && { eventName: activity.eventName }),
+            userId: userIds ? { in: userIds } : { not: null },
+            createdAt: { gte: since, lt: until },
+            ...(cityId && { cityId }),
+          },
+          select: { userId: true, cityId: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        });
+        return events.map((e) => ({ userId: e.userId!, at: e.createdAt, cityId: e.cityId }));
+      }
+
+      case 'service_request_submitted': {
+        const requests = await this.prisma.serviceRequest.findMany({
+          where: {
+            ...(userIds && { customerId: { in: userIds } }),
+            ...(activity.serviceCode && { serviceCode: activity.serviceCode }),
+            createdAt: { gte: since, lt: until },
+            ...(cityId && { cityId }),
+          },
+          select: { customerId: true, cityId: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        });
+        return requests.map((r) => ({ userId: r.customerId, at: r.createdAt, cityId: r.cityId }));
+      }
+
+      case 'payment_completed': {
+        const payments = await this.prisma.payment.findMany({
+          where: {
+            status: 'paid',
+            ...(userIds && { customerId: { in: userIds } }),
+            paidAt: { gte: since, lt: until },
+          },
+          select: { customerId: true, serviceRequestId: true, paidAt: true },
+          orderBy: { paidAt: 'asc' },
+        });
+        // Payments carry no city; take it from the service request
+        const requests = await this.prisma.serviceRequest.findMany({
+          where: { id: { in: [...new Set(payments.map((p) => p.serviceRequestId))] } },
+          select: { id: true, cityId: true },
+        });
+        const requestCity = new Map(requests.map((r) => [r.id, r.cityId]));
+        return payments
+          .map((p) => ({ userId: p.customerId, at: p.paidAt!, cityId: requestCity.get(p.serviceRequestId) ?? null }))
+          .filter((o) => !cityId || o.cityId === cityId);
+      }
+
+      case 'service_delivered': {
+        const logs = await this.prisma.serviceRequestStatusLog.findMany({
+          where: {
+            toStatus: 'completed',
+            createdAt: { gte: since, lt: until },
+            serviceRequest: {
+              ...(userIds && { customerId: { in: userIds } }),
+              ...(cityId && { cityId }),
+            },
+          },
+          select: { createdAt: true, serviceRequest: { select: { customerId: true, cityId: true } } },
+          orderBy: { createdAt: 'asc' },
+        });
+        return logs.map((l) => ({
+          userId: l.serviceRequest.customerId,
+          at: l.createdAt,
+          cityId: l.serviceRequest.cityId,
+        }));
+      }
+    }
+  }
+}
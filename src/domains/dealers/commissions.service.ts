@@ -6,6 +6,8 @@
 
 import { PrismaClient, CommissionStatus, DealerTier } from '@prisma/client';
 import { Response } from 'express';
+import { LedgerService } from '../ledger/ledger.service';
+import { dealerCommissionAccrued } from '../ledger/ledger.postings';
 
 // Commission rates: basis points x 100 (500 = 5.00%)
 const TIER_RATES: Record<string, number> = {
@@ -15,7 +17,11 @@ const TIER_RATES: Record<string, number> = {
 };
 
 export class CommissionService {
-  constructor(private readonly prisma: PrismaClient) {}
+  private readonly ledger: LedgerService;
+
+  constructor(private readonly prisma: PrismaClient) {
+    this.ledger = new LedgerService(prisma);
+  }
 
   // ============================================================
   // Story 9.7: Commission Calculation
@@ -122,8 +128,9 @@ export class CommissionService {
       }
 
       // AC4: Create commission record — catch P2002 as idempotent no-op
+      let commission;
       try {
-        await tx.dealerCommission.create({
+        commission = await tx.dealerCommission.create({
           data: {
             dealerId,
             referralId: dealerReferral.id,
@@ -140,6 +147,21 @@ export class CommissionService {
         if (error?.code === 'P2002') return;
         throw error;
       }
+
+      // Accrue the dealer payable in the same transaction; a failure here
+      // rolls back the commission rather than being mistaken for a duplicate
+      const accrual = dealerCommissionAccrued(
+        {
+          sourceType: 'dealer_commission',
+          sourceId: commission.id,
+          cityId: commission.cityId,
+          serviceRequestId,
+          postedAt: commission.earnedDate,
+        },
+        dealerId,
+        Number(commissionAmountPaise),
+      );
+      if (accrual) await this.ledger.post(accrual, tx);
     });
   }
 
@@ -13,6 +13,8 @@ import { PrismaClient, DealerPayoutStatus } from '@prisma/client';
 import { RazorpayPayoutClient, RazorpayPayoutResponse } from '../../core/integrations/razorpay-payout.client';
 import { BusinessError } from '../../shared/errors/business-error';
 import { decrypt } from '../../shared/utils/encryption';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
 
 export interface InitiatePayoutInput {
   dealerId: string;
@@ -235,6 +237,9 @@ export class DealerPayoutService {
           status: this.mapRazorpayStatusToDealerStatus(razorpayPayout.status),
         },
       });
+      if (updatedPayout.status === DealerPayoutStatus.COMPLETED) {
+        await this.postToLedger(payout.id);
+      }
 
       return {
         payoutId: payout.id,
@@ -281,6 +286,10 @@ export class DealerPayoutService {
         failureReason: webhookPayload.failure_reason,
       },
     });
+
+    if (newStatus === DealerPayoutStatus.COMPLETED) {
+      await this.postToLedger(payout.id);
+    }
   }
 
   /**
@@ -361,6 +370,13 @@ export class DealerPayoutService {
     };
   }
 
+  // Ledger failures must not fail the payout; the daily sweep retries
+  private async postToLedger(payoutId: string): Promise<void> {
+    await new LedgerService(this.prisma)
+      .recordDealerPayout(payoutId)
+      .catch((err) => logger.error({ err, payoutId }, 'Ledger posting failed'));
+  }
+
   /**
    * Maps Razorpay payout status to our DealerPayoutStatus enum.
    */
@@ -8,6 +8,7 @@ import { PrismaClient, CommissionStatus, DealerBankAccount } from '@prisma/clien
 import { RazorpayPayoutClient } from '../../core/integrations/razorpay-payout.client';
 import { decrypt } from '../../shared/utils/encryption';
 import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
 
 const MIN_PAYOUT_PAISE = 50000n; // Rs. 500 minimum threshold
 
@@ -138,6 +139,9 @@ export class PayoutService {
             processedAt: new Date(),
           },
         });
+        await new LedgerService(this.prisma)
+          .recordDealerPayout(payout.payoutRecord.id)
+          .catch((err) => logger.error({ err, payoutId: payout.payoutRecord.id }, 'Ledger posting failed'));
 
         totalDealers++;
         totalAmountPaise += payout.lockedAmount;
@@ -0,0 +1,132 @@
+/**
+ * Tests for AiVerificationService with a fake OCR provider
+ * Covers: structured extraction from sale deeds, khatauni/7-12, EC and tax
+ *         receipts, field coverage, OCR confidence handling, text-layer-only
+ *         providers
+ */
+import { describe, test, expect, vi } from 'vitest';
+import { AiVerificationService } from '../ai-verification.service';
+import { OcrProvider } from '../ocr-provider';
+
+function fakeOcr(lines: string[], confidence = 0.95, readsImages = true): OcrProvider {
+  return {
+    name: 'fake',
+    readsImages,
+    read: vi.fn(async () => ({
+      lines,
+      words: lines.flatMap((line) => line.split(/\s+/).map((content) => ({ content, confidence }))),
+    })),
+  };
+}
+
+function verify(docType: string, lines: string[], confidence?: number) {
+  const readFile = vi.fn().mockResolvedValue(Buffer.from('scan'));
+  const service = new AiVerificationService(fakeOcr(lines, confidence), readFile);
+  return service.verifyDocument({ id: 'doc-1', storagePath: `documents/${docType}.pdf`, docType });
+}
+
+const SALE_DEED = [
+  'SALE DEED',
+  'Registration No: 2024/LKO/4521   Sub-Registrar Lucknow-II',
+  'Date of Registration: 14/03/2024',
+  'Vendor: Shri Ram Prasad Verma S/o Late Shiv Prasad, R/o Gomti Nagar, Lucknow',
+  'Vendee: Smt. Sunita Devi and Rakesh Kumar, both R/o Aliganj, Lucknow',
+  'Property: Khasra No. 245/2, 246 situated at village Chinhat',
+  'Total area admeasuring 1,200 sq ft (property description)',
+  'Consideration of Rs. 45,00,000 paid on 12th March 2024',
+];
+
+describe('AiVerificationService', () => {
+  test('extracts parties, khasra numbers, area and registration from a sale deed', async () => {
+    const result = await verify('sale_deed', SALE_DEED);
+
+    expect(result.extracted_fields).toEqual({
+      profile: 'sale_deed',
+      ownerNames: ['Smt. Sunita Devi', 'Rakesh Kumar'],
+      sellerNames: ['Shri Ram Prasad Verma'],
+      surveyNumbers: ['245/2', '246'],
+      area: { value: 1200, unit: 'sq_ft', squareMetres: 111.48 },
+      registrationNumber: '2024/LKO/4521',
+      registrationDate: '2024-03-14',
+      dates: ['2024-03-14', '2024-03-12'],
+    });
+    expect(result.field_coverage).toBe(1);
+    expect(result.overall_status).toBe('verified');
+  });
+
+  test('reads Devanagari khatauni extracts', async () => {
+    const result = await verify('khasra_khatauni', [
+      'खतौनी (नकल) ग्राम चिनहट',
+      'खातेदार का नाम: राम प्रसाद वर्मा पुत्र शिव प्रसाद',
+      'खसरा संख्या: २४५/२',
+      'क्षेत्रफल: ०.१२० हेक्टेयर',
+    ]);
+
+    expect(result.extracted_fields).toMatchObject({
+      profile: 'land_record',
+      ownerNames: ['राम प्रसाद वर्मा'],
+      surveyNumbers: ['245/2'],
+      area: { value: 0.12, unit: 'hectare', squareMetres: 1200 },
+    });
+    expect(result.doc_type_detected).toBe('khasra_khatauni');
+  });
+
+  test('reads 7/12 extracts in gat numbers and leaves bigha unconverted', async () => {
+    const result = await verify('khasra_khatauni', [
+      'Satbara 7/12 Extract - Record of Rights',
+      'Occupant: Ganesh Patil',
+      'Gat No. 112A',
+      'Area: 2 bigha',
+    ]);
+
+    expect(result.extracted_fields).toMatchObject({
+      ownerNames: ['Ganesh Patil'],
+      surveyNumbers: ['112A'],
+      area: { value: 2, unit: 'bigha', squareMetres: null },
+    });
+  });
+
+  test('partial extraction lowers field coverage on tax receipts and ECs', async () => {
+    const receipt = await verify('property_tax_receipt', [
+      'Nagar Nigam Lucknow - House Tax Receipt',
+      "Owner's Name: Sunita Devi W/o Rakesh Kumar",
+      'Paid on 05-04-2025',
+    ]);
+    expect(receipt.extracted_fields).toMatchObject({ ownerNames: ['Sunita Devi'], dates: ['2025-04-05'] });
+    expect(receipt.field_coverage).toBe(1);
+
+    const ec = await verify('encumbrance_certificate', ['Encumbrance Certificate', 'No encumbrance found']);
+    expect(ec.extracted_fields).toMatchObject({ surveyNumbers: [], dates: [] });
+    expect(ec.field_coverage).toBe(0);
+  });
+
+  test('documents outside the extraction profiles keep the keyword-based coverage', async () => {
+    const result = await verify('noc', ['No Objection Certificate', 'Issued 01/02/2025']);
+
+    expect(result.extracted_fields).toBeNull();
+    expect(result.field_coverage).toBe(1);
+  });
+
+  test('low OCR confidence is rejected as illegible', async () => {
+    const result = await verify('sale_deed', SALE_DEED, 0.3);
+
+    expect(result.overall_status).toBe('rejected');
+    expect(result.legibility_check).toBe(false);
+  });
+
+  test('a scan without a text layer goes to manual review under a text-layer engine', async () => {
+    const service = new AiVerificationService(fakeOcr([], 0, false), vi.fn().mockResolvedValue(Buffer.from('jpeg')));
+
+    const result = await service.verifyDocument({ id: 'doc-1', storagePath: 'documents/deed.jpg', docType: 'sale_deed' });
+
+    expect(result).toMatchObject({ overall_status: 'needs_review', provider: 'fake' });
+  });
+
+  test('a text-layer engine never verifies a document on its own', async () => {
+    const service = new AiVerificationService(fakeOcr(SALE_DEED, 1, false), vi.fn().mockResolvedValue(Buffer.from('%PDF')));
+
+    const result = await service.verifyDocument({ id: 'doc-1', storagePath: 'documents/deed.pdf', docType: 'sale_deed' });
+
+    expect(result).toMatchObject({ overall_status: 'needs_review', confidence_score: 100, doc_type_detected: 'sale_deed' });
+  });
+});
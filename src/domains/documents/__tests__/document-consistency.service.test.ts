@@ -0,0 +1,282 @@
+/**
+ * Tests for DocumentConsistencyService
+ * Covers: name matching, owner/survey mismatches across sale deed, land
+ *         record, tax receipt and KYC, ops review task lifecycle, resolving
+ *         and dismissing tasks
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { DocumentConsistencyService, namesMatch, sameScript } from '../document-consistency.service';
+import { ExtractedDocumentFields, ExtractionProfile } from '../document-field-extractor';
+
+const CUSTOMER = 'cust-1';
+
+function fields(profile: ExtractionProfile, overrides: Partial<ExtractedDocumentFields> = {}): ExtractedDocumentFields {
+  return {
+    profile,
+    ownerNames: [],
+    sellerNames: [],
+    surveyNumbers: [],
+    area: null,
+    registrationNumber: null,
+    registrationDate: null,
+    dates: [],
+    ...overrides,
+  };
+}
+
+function doc(id: string, extracted: ExtractedDocumentFields, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    uploadedByUserId: CUSTOMER,
+    stakeholderId: null,
+    aiVerificationResult: { overall_status: 'verified', extracted_fields: extracted },
+    ...extra,
+  };
+}
+
+function createMockPrisma() {
+  return {
+    serviceInstance: { findUnique: vi.fn().mockResolvedValue({ customerId: CUSTOMER }) },
+    user: { findUnique: vi.fn().mockResolvedValue({ displayName: 'Sunita Devi' }) },
+    document: { findMany: vi.fn().mockResolvedValue([]) },
+    opsReviewTask: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+      update: vi.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+    },
+  };
+}
+
+const DEED = doc(
+  'deed',
+  fields('sale_deed', {
+    ownerNames: ['Smt. Sunita Devi'],
+    sellerNames: ['Shri Ram Prasad Verma'],
+    surveyNumbers: ['245/2', '246'],
+  }),
+);
+
+describe('namesMatch', () => {
+  test('ignores honorifics, punctuation and a dropped middle name', () => {
+    expect(namesMatch('Smt. Sunita Devi', 'SUNITA DEVI')).toBe(true);
+    expect(namesMatch('Ram Prasad Verma', 'Shri Ram Verma')).toBe(true);
+    expect(namesMatch('Rakesh Kumar', 'Rakesh Kumaar')).toBe(true);
+  });
+
+  test('different people do not match', () => {
+    expect(namesMatch('Rakesh Kumar', 'Mukesh Sharma')).toBe(false);
+    expect(namesMatch('Kumar', 'Rakesh Kumar')).toBe(false);
+  });
+
+  test('names in different scripts are not comparable', () => {
+    expect(namesMatch('राम प्रसाद वर्मा', 'Ram Prasad Verma')).toBe(false);
+    expect(sameScript('राम प्रसाद वर्मा', 'Ram Prasad Verma')).toBe(false);
+    expect(sameScript('श्री राम प्रसाद', 'राम प्रसाद वर्मा')).toBe(true);
+  });
+});
+
+describe('DocumentConsistencyService', () => {
+  let prisma: ReturnType<typeof createMockPrisma>;
+  let service: DocumentConsistencyService;
+
+  beforeEach(() => {
+    prisma = createMockPrisma();
+    service = new DocumentConsistencyService(prisma as unknown as PrismaClient);
+  });
+
+  test('consistent documents produce no mismatches', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      doc('khatauni', fields('land_record', { ownerNames: ['Sunita Devi'], surveyNumbers: ['245/2'] })),
+      doc('tax', fields('tax_receipt', { ownerNames: ['Sunita Devi'] })),
+      doc('aadhaar', fields('identity', { ownerNames: ['Sunita Devi'] })),
+    ]);
+
+    await expect(service.checkServiceInstance('si-1')).resolves.toEqual([]);
+    expect(prisma.document.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          serviceInstanceId: 'si-1',
+          archivedAt: null,
+          supersededAt: null,
+          verificationStatus: { not: 'rejected' },
+        },
+      }),
+    );
+  });
+
+  test('flags a land record still in the seller’s name and a different survey number', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      doc('khatauni', fields('land_record', { ownerNames: ['Ram Prasad Verma'], surveyNumbers: ['310'] })),
+    ]);
+
+    const mismatches = await service.checkServiceInstance('si-1');
+
+    expect(mismatches).toEqual([
+      expect.objectContaining({
+        check: 'owner_vs_land_record',
+        message: expect.stringContaining('mutation may be pending'),
+        documentIds: ['deed', 'khatauni'],
+      }),
+      expect.objectContaining({ check: 'survey_number', expected: ['245/2', '246'], found: ['310'] }),
+    ]);
+  });
+
+  test('a Devanagari land record is not flagged against a Latin sale deed', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      doc('khatauni', fields('land_record', { ownerNames: ['सुनीता देवी'], surveyNumbers: ['245/2'] })),
+      doc('tax', fields('tax_receipt', { ownerNames: ['सुनीता देवी'] })),
+    ]);
+
+    await expect(service.checkServiceInstance('si-1')).resolves.toEqual([]);
+  });
+
+  test('same-script names are still compared when other names are in a different script', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      doc('khatauni', fields('land_record', { ownerNames: ['सुनीता देवी', 'Mukesh Sharma'] })),
+    ]);
+
+    const mismatches = await service.checkServiceInstance('si-1');
+
+    expect(mismatches).toEqual([expect.objectContaining({ check: 'owner_vs_land_record', documentIds: ['deed', 'khatauni'] })]);
+  });
+
+  test('compares the customer KYC name, preferring their own Aadhaar/PAN over the profile name', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      // A co-owner's Aadhaar is not the customer's KYC
+      doc('co-owner-aadhaar', fields('identity', { ownerNames: ['Sunita Devi'] }), { stakeholderId: 'sh-1' }),
+      doc('pan', fields('identity', { ownerNames: ['Mukesh Sharma'] })),
+    ]);
+
+    const mismatches = await service.checkServiceInstance('si-1');
+
+    expect(mismatches).toEqual([
+      expect.objectContaining({ check: 'kyc_name', expected: ['Mukesh Sharma'], found: ['Smt. Sunita Devi'] }),
+    ]);
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('tax receipts are checked against land record owners when there is no sale deed', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      doc('khatauni', fields('land_record', { ownerNames: ['Sunita Devi'] })),
+      doc('tax', fields('tax_receipt', { ownerNames: ['Mohan Lal'] })),
+    ]);
+
+    const mismatches = await service.checkServiceInstance('si-1');
+
+    expect(mismatches.map((m) => m.check)).toEqual(['tax_receipt_owner']);
+  });
+
+  test('opens one review task per instance and completes it once resolved', async () => {
+    prisma.document.findMany.mockResolvedValue([
+      DEED,
+      doc('khatauni', fields('land_record', { ownerNames: ['Mohan Lal'] })),
+    ]);
+
+    await service.reviewServiceInstance('si-1', 'city-1');
+
+    expect(prisma.opsReviewTask.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'document_consistency',
+        resourceId: 'si-1',
+        resourceType: 'service_instance',
+        status: 'pending',
+        cityId: 'city-1',
+        metadata: expect.objectContaining({ mismatches: [expect.objectContaining({ check: 'owner_vs_land_record' })] }),
+      }),
+    });
+
+    prisma.opsReviewTask.findFirst.mockResolvedValue({ id: 'task-1' });
+    await service.reviewServiceInstance('si-1', 'city-1');
+    expect(prisma.opsReviewTask.update).toHaveBeenLastCalledWith({
+      where: { id: 'task-1' },
+      data: { metadata: expect.objectContaining({ mismatches: expect.any(Array) }) },
+    });
+
+    prisma.document.findMany.mockResolvedValue([DEED]);
+    await expect(service.reviewServiceInstance('si-1', 'city-1')).resolves.toEqual([]);
+    expect(prisma.opsReviewTask.update).toHaveBeenLastCalledWith({
+      where: { id: 'task-1' },
+      data: { status: 'completed', completedAt: expect.any(Date) },
+    });
+    expect(prisma.opsReviewTask.create).toHaveBeenCalledTimes(1);
+  });
+
+  describe('closeTask', () => {
+    const MISMATCHED = [DEED, doc('khatauni', fields('land_record', { ownerNames: ['Mohan Lal'] }))];
+    const TASK = {
+      id: 'task-1',
+      type: 'document_consistency',
+      resourceId: 'si-1',
+      resourceType: 'service_instance',
+      status: 'pending',
+      cityId: 'city-1',
+      metadata: { mismatches: [{ check: 'owner_vs_land_record', documentIds: ['deed', 'khatauni'] }] },
+    };
+
+    beforeEach(() => {
+      prisma.opsReviewTask.findUnique.mockResolvedValue(TASK);
+      prisma.opsReviewTask.findFirst.mockResolvedValue(TASK);
+    });
+
+    test('resolving re-runs the check and refuses while documents still disagree', async () => {
+      prisma.document.findMany.mockResolvedValue(MISMATCHED);
+
+      await expect(service.closeTask({ taskId: 'task-1', action: 'resolve', closedBy: 'ops-1' })).rejects.toMatchObject({
+        code: 'DOCUMENT_MISMATCHES_REMAIN',
+        statusCode: 409,
+      });
+
+      prisma.document.findMany.mockResolvedValue([DEED]);
+      const closed = await service.closeTask({ taskId: 'task-1', action: 'resolve', closedBy: 'ops-1' });
+
+      expect(prisma.opsReviewTask.update).toHaveBeenCalledWith({
+        where: { id: 'task-1' },
+        data: { status: 'completed', completedAt: expect.any(Date) },
+      });
+      expect(closed.metadata).toMatchObject({ closedBy: 'ops-1' });
+    });
+
+    test('dismissed mismatches are not raised again, new ones are', async () => {
+      await service.closeTask({ taskId: 'task-1', action: 'dismiss', notes: 'Known spelling variant', closedBy: 'ops-1' });
+
+      expect(prisma.opsReviewTask.update).toHaveBeenCalledWith({
+        where: { id: 'task-1' },
+        data: expect.objectContaining({ status: 'dismissed', metadata: expect.objectContaining({ notes: 'Known spelling variant' }) }),
+      });
+
+      prisma.opsReviewTask.findFirst.mockResolvedValue(null);
+      prisma.opsReviewTask.findMany.mockResolvedValue([{ metadata: TASK.metadata }]);
+      prisma.document.findMany.mockResolvedValue(MISMATCHED);
+      await expect(service.reviewServiceInstance('si-1', 'city-1')).resolves.toEqual([]);
+      expect(prisma.opsReviewTask.create).not.toHaveBeenCalled();
+
+      prisma.document.findMany.mockResolvedValue([
+        ...MISMATCHED,
+        doc('tax', fields('tax_receipt', { ownerNames: ['Hari Om'] })),
+      ]);
+      const raised = await service.reviewServiceInstance('si-1', 'city-1');
+      expect(raised.map((m) => m.check)).toEqual(['tax_receipt_owner']);
+      expect(prisma.opsReviewTask.create).toHaveBeenCalledTimes(1);
+    });
+
+    test('only pending consistency tasks can be closed', async () => {
+      prisma.opsReviewTask.findUnique.mockResolvedValueOnce({ ...TASK, type: 'document_review' });
+      await expect(service.closeTask({ taskId: 'task-1', action: 'dismiss', closedBy: 'ops-1' })).rejects.toMatchObject({
+        code: 'REVIEW_TASK_NOT_FOUND',
+      });
+
+      prisma.opsReviewTask.findUnique.mockResolvedValueOnce({ ...TASK, status: 'dismissed' });
+      await expect(service.closeTask({ taskId: 'task-1', action: 'dismiss', closedBy: 'ops-1' })).rejects.toMatchObject({
+        code: 'REVIEW_TASK_CLOSED',
+      });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for document versions
+ * Covers: superseding uploads, restore, delete of the current version,
+ *         latest-verified resolution in checklists and completion,
+ *         AI result diffs
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { DocumentsService } from '../documents.service';
+import { DocumentCompletionService } from '../document-completion.service';
+import { diffVerificationResults } from '../document-versions';
+
+vi.mock('firebase-admin/storage', () => ({
+  getStorage: () => ({
+    bucket: () => ({
+      file: () => ({ getSignedUrl: async () => ['https://signed.example/doc'], delete: async () => undefined }),
+    }),
+  }),
+}));
+vi.mock('firebase-admin/firestore', () => ({
+  getFirestore: () => ({
+    collection: () => ({ doc: () => ({ collection: () => ({ doc: () => ({ set: async () => undefined }) }) }) }),
+  }),
+}));
+
+const SI = '11111111-1111-4111-8111-111111111111';
+const CUSTOMER = 'cust-1';
+
+// Just enough of Prisma's where semantics for the document queries
+function matches(record: any, where: any): boolean {
+  return Object.entries(where ?? {}).every(([key, cond]: [string, any]) => {
+    const value = record[key];
+    if (cond === null) return value === null || value === undefined;
+    if (typeof cond === 'object' && !(cond instanceof Date)) {
+      if ('not' in cond) return cond.not === null ? value != null : value !== cond.not;
+      if ('in' in cond) return cond.in.includes(value);
+    }
+    return value === cond;
+  });
+}
+
+function createMockPrisma() {
+  const documents: any[] = [];
+  const sortBy = (rows: any[], orderBy?: any) => {
+    if (!orderBy) return rows;
+    const [key, dir] = Object.entries(orderBy)[0] as [string, string];
+    return [...rows].sort((a, b) => (a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0) * (dir === 'desc' ? -1 : 1));
+  };
+
+  const prisma: any = {
+    document: {
+      create: vi.fn(async ({ data }: any) => {
+        const doc = { supersededAt: null, supersededById: null, uploadedAt: new Date(), stakeholderId: null, ...data };
+        documents.push(doc);
+        return doc;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => documents.find((d) => d.id === where.id) ?? null),
+      findFirst: vi.fn(async ({ where, orderBy }: any) => sortBy(documents.filter((d) => matches(d, where)), orderBy)[0] ?? null),
+      findMany: vi.fn(async ({ where }: any) => documents.filter((d) => matches(d, where))),
+      count: vi.fn(async ({ where }: any) => documents.filter((d) => matches(d, where)).length),
+      update: vi.fn(async ({ where, data }: any) => Object.assign(documents.find((d) => d.id === where.id), data)),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const rows = documents.filter((d) => matches(d, where));
+        rows.forEach((d) => Object.assign(d, data));
+        return { count: rows.length };
+      }),
+      delete: vi.fn(async ({ where }: any) => documents.splice(documents.findIndex((d) => d.id === where.id), 1)[0]),
+    },
+    serviceInstance: { findUnique: vi.fn().mockResolvedValue({ cityId: 'city-1', serviceDefinitionId: 'def-1' }) },
+    serviceDefinition: {
+      findUnique: vi.fn().mockResolvedValue({ definition: { required_documents: ['encumbrance_certificate'] } }),
+    },
+    serviceStakeholder: { findMany: vi.fn().mockResolvedValue([]) },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, documents };
+}
+
+function upload(overrides: Record<string, unknown> = {}) {
+  return {
+    serviceInstanceId: SI,
+    docType: 'encumbrance_certificate',
+    storagePath: `documents/${SI}/ec/v.pdf`,
+    downloadUrl: 'https://storage.googleapis.com/ec.pdf',
+    fileSize: 1024,
+    uploadedBy: 'customer' as const,
+    uploadedByUserId: CUSTOMER,
+    cityId: 'city-1',
+    ...overrides,
+  };
+}
+
+describe('document versions', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let service: DocumentsService;
+  const boss = { send: vi.fn().mockResolvedValue('job-1') };
+
+  beforeEach(() => {
+    mock = createMockPrisma();
+    service = new DocumentsService(mock.prisma as unknown as PrismaClient, boss);
+  });
+
+  test('a corrected upload supersedes the previous version in the same lineage', async () => {
+    const v1 = await service.createDocument(upload());
+    const v2 = await service.createDocument(upload({ supersedesDocumentId: v1.id }));
+
+    expect(v1.lineageId).toBe(v1.id);
+    expect(v2).toMatchObject({ lineageId: v1.id, version: 2, supersededAt: null });
+    expect(mock.documents[0]).toMatchObject({ supersededById: v2.id, supersededAt: expect.any(Date) });
+    expect((await service.getDocumentsByServiceInstance(SI)).map((d) => d.id)).toEqual([v2.id]);
+
+    await expect(service.createDocument(upload({ supersedesDocumentId: v1.id }))).rejects.toMatchObject({
+      code: 'DOCUMENT_ALREADY_SUPERSEDED',
+      statusCode: 409,
+    });
+    await expect(
+      service.createDocument(upload({ docType: 'sale_deed', supersedesDocumentId: v2.id })),
+    ).rejects.toMatchObject({ code: 'DOCUMENT_VERSION_MISMATCH' });
+  });
+
+  test('restore makes an earlier version current again', async () => {
+    const v1 = await service.createDocument(upload());
+    const v2 = await service.createDocument(upload({ supersedesDocumentId: v1.id }));
+
+    const restored = await service.restoreVersion(v1.id);
+
+    expect(restored).toMatchObject({ id: v1.id, supersededAt: null });
+    expect(mock.documents[1]).toMatchObject({ id: v2.id, supersededById: v1.id });
+    await expect(service.restoreVersion(v1.id)).rejects.toMatchObject({ code: 'DOCUMENT_VERSION_CURRENT' });
+  });
+
+  test('deleting the current version brings back the one it replaced', async () => {
+    const v1 = await service.createDocument(upload());
+    const v2 = await service.createDocument(upload({ supersedesDocumentId: v1.id }));
+
+    await service.deleteDocument(v2.id);
+
+    expect(mock.documents).toEqual([expect.objectContaining({ id: v1.id, supersededAt: null, supersededById: null })]);
+  });
+
+  test('checklist and completion use the latest verified version while a correction is pending', async () => {
+    const v1 = await service.createDocument(upload());
+    mock.documents[0].verificationStatus = 'verified';
+    await service.createDocument(upload({ supersedesDocumentId: v1.id }));
+
+    const [item] = await service.getDocumentChecklist(SI);
+
+    expect(item.status).toBe('verified');
+    expect(item.uploaded_files).toEqual([
+      expect.objectContaining({ file_id: v1.id, version: 1, is_current: false, lineage_id: v1.id }),
+    ]);
+
+    // A rejected correction does not undo the verified version
+    mock.documents[1].verificationStatus = 'rejected';
+    expect((await service.getDocumentChecklist(SI))[0].status).toBe('verified');
+
+    const completion = new DocumentCompletionService(mock.prisma as unknown as PrismaClient);
+    await expect(completion.areAllDocumentsComplete(SI)).resolves.toBe(true);
+    expect(mock.prisma.document.count).toHaveBeenLastCalledWith({ where: { serviceInstanceId: SI, supersededAt: null } });
+  });
+});
+
+describe('diffVerificationResults', () => {
+  test('lists verdict and extracted field changes between versions', () => {
+    const base = {
+      doc_type_detected: 'encumbrance_certificate',
+      confidence_score: 82,
+      completeness_check: true,
+      legibility_check: true,
+      overall_status: 'needs_review' as const,
+      extracted_fields: {
+        profile: 'encumbrance_certificate',
+        surveyNumbers: ['245'],
+        dates: ['2024-01-01'],
+      } as any,
+    };
+
+    const changes = diffVerificationResults(base, {
+      ...base,
+      overall_status: 'verified',
+      confidence_score: 94,
+      extracted_fields: { ...base.extracted_fields, surveyNumbers: ['245/2'] },
+    });
+
+    expect(changes).toEqual([
+      { field: 'overall_status', from: 'needs_review', to: 'verified' },
+      { field: 'confidence_score', from: 82, to: 94 },
+      { field: 'extracted_fields.surveyNumbers', from: ['245'], to: ['245/2'] },
+    ]);
+    expect(diffVerificationResults(null, base)).toContainEqual({ field: 'overall_status', from: null, to: 'needs_review' });
+  });
+});
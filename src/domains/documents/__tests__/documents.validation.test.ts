@@ -1,13 +1,15 @@
 /**
  * Tests for Document domain validation schemas.
- * Covers: createDocumentSchema, queryDocumentsSchema, overrideSchema, auditQuerySchema
- * Stories 6.2, 6.6, 6.13
+ * Covers: createDocumentSchema, queryDocumentsSchema, overrideSchema,
+ * closeConsistencyTaskSchema, auditQuerySchema
+ * Stories 6.2, 6.4, 6.6, 6.13
  */
 import { describe, test, expect } from 'vitest';
 import {
   createDocumentSchema,
   queryDocumentsSchema,
   overrideSchema,
+  closeConsistencyTaskSchema,
   auditQuerySchema,
 } from '../documents.validation';
 
@@ -262,6 +264,25 @@ describe('Documents Validation Schemas', () => {
     });
   });
 
+  // ============================================================
+  // closeConsistencyTaskSchema
+  // ============================================================
+
+  describe('closeConsistencyTaskSchema', () => {
+    test('accepts resolve without notes', () => {
+      expect(closeConsistencyTaskSchema.safeParse({ action: 'resolve' }).success).toBe(true);
+    });
+
+    test('requires notes to dismiss', () => {
+      expect(closeConsistencyTaskSchema.safeParse({ action: 'dismiss' }).success).toBe(false);
+      expect(closeConsistencyTaskSchema.safeParse({ action: 'dismiss', notes: 'Same person, initials used' }).success).toBe(true);
+    });
+
+    test('rejects unknown actions', () => {
+      expect(closeConsistencyTaskSchema.safeParse({ action: 'reopen' }).success).toBe(false);
+    });
+  });
+
   // ============================================================
   // auditQuerySchema
   // ============================================================
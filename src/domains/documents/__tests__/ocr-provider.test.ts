@@ -0,0 +1,116 @@
+/**
+ * Tests for OCR providers
+ * Covers: local text-layer engine on PDFs and text files, decompression
+ *         bombs, provider selection per deployment and per city
+ */
+import { describe, test, expect, vi } from 'vitest';
+import { deflateSync } from 'zlib';
+import PDFDocument from 'pdfkit';
+import { PrismaClient } from '@prisma/client';
+import { LocalTextLayerOcrProvider, createOcrProvider, ocrProviderForCity } from '../ocr-provider';
+import { AiVerificationService } from '../ai-verification.service';
+
+function renderPdf(lines: string[], options: { compress?: boolean } = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50, compress: options.compress ?? true });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    for (const line of lines) doc.text(line);
+    doc.end();
+  });
+}
+
+function cityPrisma(configData: unknown) {
+  return {
+    city: { findUnique: vi.fn().mockResolvedValue(configData === undefined ? null : { configData }) },
+  } as unknown as PrismaClient;
+}
+
+const DEED_LINES = [
+  'SALE DEED',
+  'Registration No: 2024/LKO/4521 (sub-registrar)',
+  'Vendor: Ram Prasad Verma',
+  'Vendee: Sunita Devi',
+  'Khasra No. 245/2 admeasuring 1,200 sq ft (property description)',
+  'Consideration (Rs.) 45,00,000',
+];
+
+describe('LocalTextLayerOcrProvider', () => {
+  const provider = new LocalTextLayerOcrProvider();
+
+  test.each([true, false])('reads the text layer of a PDF (compressed: %s)', async (compress) => {
+    const result = await provider.read(await renderPdf(DEED_LINES, { compress }));
+
+    expect(result.lines).toEqual(DEED_LINES);
+    expect(result.words[0]).toEqual({ content: 'SALE', confidence: 1 });
+  });
+
+  test('reads UTF-8 text files and nothing from images', async () => {
+    const text = await provider.read(Buffer.from('खातेदार का नाम: राम प्रसाद\r\nखसरा संख्या: 245\n'));
+    expect(text.lines).toEqual(['खातेदार का नाम: राम प्रसाद', 'खसरा संख्या: 245']);
+
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00]);
+    await expect(provider.read(jpeg)).resolves.toEqual({ lines: [], words: [] });
+  });
+
+  test('skips content streams that inflate past the size cap', async () => {
+    const stream = (id: number, content: Buffer) => {
+      const data = deflateSync(content);
+      return Buffer.concat([
+        Buffer.from(`${id} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream\nendobj\n', 'latin1'),
+      ]);
+    };
+    // 64 MB of page content from a few KB of upload
+    const bomb = Buffer.alloc(64 * 1024 * 1024, ' ');
+    bomb.write('BT (Hidden) Tj ET');
+    const pdf = Buffer.concat([
+      Buffer.from('%PDF-1.4\n', 'latin1'),
+      stream(1, bomb),
+      stream(2, Buffer.from('BT (Vendor: Ram Prasad Verma) Tj ET', 'latin1')),
+      Buffer.from('%%EOF\n', 'latin1'),
+    ]);
+
+    const result = await provider.read(pdf);
+
+    expect(result.lines).toEqual(['Vendor: Ram Prasad Verma']);
+  });
+
+  test('checks a digital sale deed end to end without Azure but leaves the verdict to a reviewer', async () => {
+    const pdf = await renderPdf(DEED_LINES);
+    const service = new AiVerificationService(provider, vi.fn().mockResolvedValue(pdf));
+
+    const result = await service.verifyDocument({ id: 'doc-1', storagePath: 'documents/deed.pdf', docType: 'sale_deed' });
+
+    expect(result).toMatchObject({
+      provider: 'local-text-layer',
+      doc_type_detected: 'sale_deed',
+      confidence_score: 100,
+      overall_status: 'needs_review',
+      rejection_reason: 'Read from the embedded text layer only. Document needs manual review.',
+      extracted_fields: expect.objectContaining({ ownerNames: ['Sunita Devi'], surveyNumbers: ['245/2'] }),
+    });
+  });
+});
+
+describe('provider selection', () => {
+  test('falls back to the local engine when Azure is not configured', () => {
+    expect(createOcrProvider().name).toBe('local-text-layer');
+    expect(() => createOcrProvider('azure')).toThrow('Azure Document Intelligence is not configured');
+  });
+
+  test('cities can pin a provider in configData', async () => {
+    const local = await ocrProviderForCity(cityPrisma({ documentVerification: { ocrProvider: 'local' } }), 'city-1');
+    expect(local.name).toBe('local-text-layer');
+
+    // Pinned to Azure but without credentials in this environment
+    const azure = await ocrProviderForCity(cityPrisma({ documentVerification: { ocrProvider: 'azure' } }), 'city-1');
+    expect(azure.name).toBe('local-text-layer');
+
+    const unknownCity = await ocrProviderForCity(cityPrisma(undefined), 'missing');
+    expect(unknownCity.name).toBe('local-text-layer');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for vault share links
+ * Covers: scoping to the owner's vault, watermarked view/download,
+ *         password + OTP unlock and lockout, revocation and expiry,
+ *         access log entries, no per-process grant secret in production
+ */
+import { describe, test, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { VaultShareService, recipientActor } from '../vault-share.service';
+import { readTextLayer } from '../text-layer';
+import { auditLog } from '../../../middleware/audit-logger';
+
+vi.mock('firebase-admin/storage', () => ({ getStorage: vi.fn() }));
+vi.mock('../../../middleware/audit-logger', () => ({ auditLog: vi.fn() }));
+
+const OWNER = { id: 'cust-1', role: 'customer' };
+const SALE_DEED = '11111111-1111-4111-8111-111111111111';
+const EC = '22222222-2222-4222-8222-222222222222';
+const OTHERS = '33333333-3333-4333-8333-333333333333';
+
+const BASE_INPUT = {
+  documentIds: [SALE_DEED, EC],
+  recipientName: 'HDFC Bank - Loan Desk',
+  permission: 'view' as const,
+  expiresInHours: 72,
+  requireOtp: false,
+};
+
+function samplePdf(): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const doc = new PDFDocument({ compress: false });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.text('Sale deed between vendor and vendee');
+    doc.end();
+  });
+}
+
+function createMockPrisma() {
+  const shares: any[] = [];
+  const documents = [
+    { id: SALE_DEED, uploadedByUserId: OWNER.id, supersededAt: null, archivedAt: null, docType: 'sale_deed', version: 2, storagePath: 'documents/sale.pdf', serviceInstanceId: 'si-1' },
+    { id: EC, uploadedByUserId: OWNER.id, supersededAt: null, archivedAt: null, docType: 'encumbrance_certificate', version: 1, storagePath: 'documents/ec.pdf', serviceInstanceId: 'si-1' },
+    { id: OTHERS, uploadedByUserId: 'cust-2', supersededAt: null, archivedAt: null, docType: 'pan', version: 1, storagePath: 'documents/pan.pdf', serviceInstanceId: 'si-2' },
+  ];
+  const matches = (row: any, where: any) => Object.entries(where).every(([key, cond]: [string, any]) =>
+    cond && typeof cond === 'object' && 'in' in cond ? cond.in.includes(row[key]) : row[key] === cond);
+
+  const prisma: any = {
+    vaultShare: {
+      create: vi.fn(async ({ data }: any) => {
+        const row = {
+          id: `aaaaaaaa-0000-4000-8000-00000000000${shares.length + 1}`,
+          otpHash: null, otpSentAt: null, otpExpiresAt: null, failedAttempts: 0, lockedUntil: null,
+          revokedAt: null, accessCount: 0, lastAccessedAt: null, createdAt: new Date(),
+          ...data,
+        };
+        shares.push(row);
+        return { ...row };
+      }),
+      findUnique: vi.fn(async ({ where }: any) => {
+        const row = shares.find((s) => (where.id ? s.id === where.id : s.tokenHash === where.tokenHash));
+        return row ? { ...row } : null;
+      }),
+      findMany: vi.fn(async ({ where }: any) => shares.filter((s) => s.ownerId === where.ownerId)),
+      update: vi.fn(async ({ where, data }: any) => {
+        const row = shares.find((s) => s.id === where.id);
+        for (const [key, value] of Object.entries(data) as [string, any][]) {
+          row[key] = value && typeof value === 'object' && 'increment' in value ? row[key] + value.increment : value;
+        }
+        return { ...row };
+      }),
+    },
+    document: {
+      findMany: vi.fn(async ({ where }: any) => documents.filter((d) => matches(d, where))),
+      findUnique: vi.fn(async ({ where }: any) => documents.find((d) => d.id === where.id) ?? null),
+    },
+    user: { findUnique: vi.fn().mockResolvedValue({ displayName: 'Asha Patil' }) },
+    auditLog: { findMany: vi.fn().mockResolvedValue([]) },
+  };
+  return { prisma: prisma as PrismaClient & typeof prisma, shares, documents };
+}
+
+const tokenOf = (url: string) => url.split('/').pop()!;
+
+describe('VaultShareService', () => {
+  let pdf: Buffer;
+  let mock: ReturnType<typeof createMockPrisma>;
+  let boss: { send: ReturnType<typeof vi.fn> };
+  let service: VaultShareService;
+
+  beforeAll(async () => {
+    pdf = await samplePdf();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    boss = { send: vi.fn().mockResolvedValue('job-1') };
+    service = new VaultShareService(mock.prisma, boss, async () => pdf, 'test-secret');
+  });
+
+  test('shares only current documents from the owner’s vault and keeps just the token hash', async () => {
+    const share = await service.createShare(OWNER, { ...BASE_INPUT, password: 'title-chain-2026' });
+
+    expect(share).toMatchObject({ status: 'active', permission: 'view', password_protected: true, document_ids: [SALE_DEED, EC] });
+    expect(share.url).toMatch(/\/api\/v1\/shared\/[\w-]{43}$/);
+    expect(mock.shares[0].tokenHash).not.toContain(tokenOf(share.url));
+    expect(mock.shares[0].passwordHash).toMatch(/^scrypt\$/);
+    expect(auditLog).toHaveBeenCalledWith(expect.objectContaining({ userId: OWNER.id, action: 'vault_share_create', resourceId: share.id }));
+
+    await expect(service.createShare(OWNER, { ...BASE_INPUT, documentIds: [SALE_DEED, OTHERS] })).rejects.toMatchObject({
+      code: 'VAULT_DOCUMENT_NOT_FOUND',
+      statusCode: 404,
+      details: { document_ids: [OTHERS] },
+    });
+  });
+
+  test('serves view-only links as watermarked PDFs and logs each access', async () => {
+    const share = await service.createShare(OWNER, BASE_INPUT);
+    const token = tokenOf(share.url);
+
+    await expect(service.describe(token)).resolves.toMatchObject({
+      shared_by: 'Asha Patil',
+      document_count: 2,
+      requires_password: false,
+      requires_otp: false,
+    });
+    await expect(service.listDocuments(token, undefined)).resolves.toHaveLength(2);
+
+    const { file, filename } = await service.openDocument(token, undefined, SALE_DEED, 'view', { ipAddress: '203.0.113.7' });
+
+    expect(filename).toBe('sale_deed-v2.pdf');
+    const text = readTextLayer(file).join('\n');
+    expect(text).toContain('Sale deed between vendor and vendee');
+    expect(text).toContain('Shared with HDFC Bank - Loan Desk');
+    expect(mock.shares[0].accessCount).toBe(1);
+    expect(auditLog).toHaveBeenCalledWith(expect.objectContaining({
+      userId: recipientActor(share.id),
+      userRole: 'share_recipient',
+      action: 'document_view',
+      resourceType: 'document',
+      resourceId: SALE_DEED,
+      serviceInstanceId: 'si-1',
+      ipAddress: '203.0.113.7',
+      metadata: expect.objectContaining({ share_id: share.id, recipient_name: 'HDFC Bank - Loan Desk' }),
+    }));
+
+    await expect(service.openDocument(token, undefined, SALE_DEED, 'download')).rejects.toMatchObject({
+      code: 'VAULT_SHARE_DOWNLOAD_NOT_ALLOWED',
+      statusCode: 403,
+    });
+    await expect(service.openDocument(token, undefined, OTHERS, 'view')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test('protected links need the password and an emailed OTP, and codes work once', async () => {
+    const share = await service.createShare(OWNER, {
+      ...BASE_INPUT,
+      permission: 'download',
+      password: 'title-chain-2026',
+      requireOtp: true,
+      recipientEmail: 'loans@hdfc.example',
+    });
+    const token = tokenOf(share.url);
+
+    await expect(service.listDocuments(token, undefined)).rejects.toMatchObject({ code: 'VAULT_SHARE_UNLOCK_REQUIRED', statusCode: 401 });
+    await expect(service.requestOtp(token)).resolves.toMatchObject({ channel: 'email', destination: 'lo***@hdfc.example' });
+    const [, job] = boss.send.mock.calls[0];
+    expect(job).toMatchObject({ templateCode: 'vault_share_otp', channel: 'email', eventType: 'otp', contextData: { _email: 'loans@hdfc.example' } });
+    const code = job.contextData.code;
+
+    await expect(service.unlock(token, { password: 'wrong-password', otp: code })).rejects.toMatchObject({ code: 'VAULT_SHARE_UNLOCK_FAILED' });
+    expect(auditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'vault_share_unlock_failed', metadata: expect.objectContaining({ password_ok: false, otp_ok: true }) }));
+
+    const { access_token } = await service.unlock(token, { password: 'title-chain-2026', otp: code });
+    await expect(service.openDocument(token, access_token, EC, 'download')).resolves.toMatchObject({ filename: 'encumbrance_certificate-v1.pdf' });
+    await expect(service.unlock(token, { password: 'title-chain-2026', otp: code })).rejects.toMatchObject({ code: 'VAULT_SHARE_UNLOCK_FAILED' });
+
+    const other = await service.createShare(OWNER, { ...BASE_INPUT, password: 'another-secret-1' });
+    await expect(service.listDocuments(tokenOf(other.url), access_token)).rejects.toMatchObject({ code: 'VAULT_SHARE_UNLOCK_REQUIRED' });
+  });
+
+  test('locks the link after repeated wrong passwords', async () => {
+    const share = await service.createShare(OWNER, { ...BASE_INPUT, password: 'title-chain-2026' });
+    const token = tokenOf(share.url);
+
+    for (let i = 0; i < 5; i++) {
+      await expect(service.unlock(token, { password: `guess-${i}` })).rejects.toMatchObject({ statusCode: 401 });
+    }
+
+    await expect(service.unlock(token, { password: 'title-chain-2026' })).rejects.toMatchObject({ code: 'VAULT_SHARE_LOCKED', statusCode: 429 });
+  });
+
+  test('revocation and expiry cut off access, even with a grant already issued', async () => {
+    const share = await service.createShare(OWNER, { ...BASE_INPUT, password: 'title-chain-2026' });
+    const token = tokenOf(share.url);
+    const { access_token } = await service.unlock(token, { password: 'title-chain-2026' });
+
+    await expect(service.revokeShare({ id: 'cust-2', role: 'customer' }, share.id)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.revokeShare(OWNER, share.id)).resolves.toMatchObject({ status: 'revoked' });
+    await expect(service.openDocument(token, access_token, SALE_DEED, 'view')).rejects.toMatchObject({ code: 'VAULT_SHARE_REVOKED', statusCode: 410 });
+
+    const expiring = await service.createShare(OWNER, BASE_INPUT);
+    mock.shares[1].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.describe(tokenOf(expiring.url))).rejects.toMatchObject({ code: 'VAULT_SHARE_EXPIRED' });
+    await expect(service.listShares(OWNER.id)).resolves.toEqual([
+      expect.objectContaining({ id: share.id, status: 'revoked' }),
+      expect.objectContaining({ id: expiring.id, status: 'expired' }),
+    ]);
+  });
+
+  test('access log covers owner actions and everything done through the link', async () => {
+    const share = await service.createShare(OWNER, BASE_INPUT);
+    mock.prisma.auditLog.findMany.mockResolvedValue([
+      { action: 'document_download', resourceType: 'document', resourceId: EC, userId: recipientActor(share.id), ipAddress: '203.0.113.7', userAgent: 'Safari', createdAt: new Date() },
+      { action: 'vault_share_create', resourceType: 'vault_share', resourceId: share.id, userId: OWNER.id, ipAddress: null, userAgent: null, createdAt: new Date() },
+    ]);
+
+    const log = await service.getAccessLog(OWNER.id, share.id);
+
+    expect(mock.prisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { OR: [{ resourceType: 'vault_share', resourceId: share.id }, { userId: recipientActor(share.id) }] },
+    }));
+    expect(log).toEqual([
+      expect.objectContaining({ action: 'document_download', document_id: EC, by_recipient: true }),
+      expect.objectContaining({ action: 'vault_share_create', document_id: null, by_recipient: false }),
+    ]);
+    await expect(service.getAccessLog('cust-2', share.id)).rejects.toMatchObject({ code: 'VAULT_SHARE_NOT_FOUND' });
+  });
+});
+
+describe('vaultShareGrantSecret', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  async function load(nodeEnv: string) {
+    const { env } = await import('../../../shared/config/env');
+    env.NODE_ENV = nodeEnv as typeof env.NODE_ENV;
+    env.VAULT_SHARE_SECRET = '';
+    return import('../vault-share.service');
+  }
+
+  test('refuses to run on a per-process secret in production', async () => {
+    const { vaultShareGrantSecret } = await load('production');
+
+    expect(() => vaultShareGrantSecret()).toThrow('VAULT_SHARE_SECRET is required in production');
+  });
+
+  test('falls back to a per-process secret outside production', async () => {
+    const { vaultShareGrantSecret } = await load('test');
+
+    expect(vaultShareGrantSecret()).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
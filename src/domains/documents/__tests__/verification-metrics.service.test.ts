@@ -0,0 +1,32 @@
+/**
+ * Tests for VerificationMetricsService
+ * Covers: overall, per-document-type and per-OCR-provider accuracy
+ */
+import { describe, test, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { VerificationMetricsService } from '../verification-metrics.service';
+
+describe('VerificationMetricsService', () => {
+  test('breaks accuracy down by OCR provider, counting older results as Azure', async () => {
+    const prisma = {
+      document: {
+        findMany: vi.fn().mockResolvedValue([
+          { docType: 'sale_deed', aiVerificationResult: { provider: 'local-text-layer' }, verificationOverriddenBy: null },
+          { docType: 'sale_deed', aiVerificationResult: { provider: 'local-text-layer' }, verificationOverriddenBy: 'ops-1' },
+          { docType: 'pan', aiVerificationResult: { provider: 'azure-prebuilt-read' }, verificationOverriddenBy: null },
+          { docType: 'pan', aiVerificationResult: { overall_status: 'verified' }, verificationOverriddenBy: null },
+        ]),
+      },
+    };
+    const service = new VerificationMetricsService(prisma as unknown as PrismaClient);
+
+    const metrics = await service.getAccuracyMetrics();
+
+    expect(metrics).toMatchObject({ overall_accuracy: 75, total_verified: 4, total_overridden: 1 });
+    expect(metrics.by_provider).toEqual({
+      'local-text-layer': { total: 2, correct: 1, accuracy: 50 },
+      'azure-prebuilt-read': { total: 2, correct: 2, accuracy: 100 },
+    });
+    expect(metrics.by_document_type.pan).toEqual({ total: 2, correct: 2, accuracy: 100 });
+  });
+});
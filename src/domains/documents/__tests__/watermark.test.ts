@@ -0,0 +1,165 @@
+/**
+ * Tests for recipient watermarks on shared documents
+ * Covers: PDFs with xref tables and with compressed xref/object streams,
+ *         repeated stamping, images, unsupported files, decompression bombs
+ */
+import { describe, test, expect } from 'vitest';
+import { crc32, deflateSync } from 'zlib';
+import PDFDocument from 'pdfkit';
+import { detectFileType, watermarkFile } from '../watermark';
+import { readTextLayer } from '../text-layer';
+
+const WATERMARK = { title: 'Shared with Asha Pátil', detail: '20 Oct 2026 | ref 1a2b3c4d' };
+
+function pdfkitPdf(pages: number): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const doc = new PDFDocument({ compress: false });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    for (let p = 1; p <= pages; p++) {
+      if (p > 1) doc.addPage();
+      doc.text(`Sale deed page ${p}`);
+    }
+    doc.end();
+  });
+}
+
+/** PDF 1.5 layout: every object in an object stream, PNG-predicted xref stream. */
+function compressedPdf(padding = 0): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 300 400] >>',
+    '<< /Type /Page /Parent 2 0 R /Annots [] >>',
+  ];
+  let body = '';
+  const header: string[] = [];
+  objects.forEach((object, i) => {
+    header.push(`${i + 1} ${body.length}`);
+    body += `${object}\n`;
+  });
+  const first = `${header.join(' ')}\n`;
+  const objectStream = deflateSync(Buffer.concat([Buffer.from(first + body, 'latin1'), Buffer.alloc(padding, ' ')]));
+
+  const head = Buffer.from('%PDF-1.5\n', 'latin1');
+  const stmObject = Buffer.concat([
+    Buffer.from(`4 0 obj\n<< /Type /ObjStm /N 3 /First ${first.length} /Filter /FlateDecode /Length ${objectStream.length} >>\nstream\n`, 'latin1'),
+    objectStream,
+    Buffer.from('\nendstream\nendobj\n', 'latin1'),
+  ]);
+  const xrefOffset = head.length + stmObject.length;
+
+  // W [1 2 1] rows, PNG "Up" predicted
+  const rows = [[0, 0, 0, 0], [2, 0, 4, 0], [2, 0, 4, 1], [2, 0, 4, 2], [1, head.length >> 8, head.length & 0xff, 0], [1, xrefOffset >> 8, xrefOffset & 0xff, 0]];
+  const predicted = rows.flatMap((row, r) => [2, ...row.map((b, x) => (b - (r > 0 ? rows[r - 1][x] : 0)) & 0xff)]);
+  const xrefData = deflateSync(Buffer.from(predicted));
+  return Buffer.concat([
+    head,
+    stmObject,
+    Buffer.from(`5 0 obj\n<< /Type /XRef /Size 6 /W [1 2 1] /Root 1 0 R /Filter /FlateDecode /DecodeParms << /Predictor 12 /Columns 4 >> /Length ${xrefData.length} >>\nstream\n`, 'latin1'),
+    xrefData,
+    Buffer.from(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`, 'latin1'),
+  ]);
+}
+
+function png(width: number, height: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr.set([8, 2, 0, 0, 0], 8);
+  const pixels = Buffer.alloc(height * (width * 3 + 1), 0xcc);
+  for (let y = 0; y < height; y++) pixels[y * (width * 3 + 1)] = 0;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function count(file: Buffer, text: string): number {
+  return file.toString('latin1').split(text).length - 1;
+}
+
+describe('watermarkFile', () => {
+  test('draws the watermark into every page and rewrites the whole file', async () => {
+    const original = await pdfkitPdf(2);
+
+    const marked = await watermarkFile(original, WATERMARK);
+
+    // One revision only: nothing to cut the file back to
+    expect(count(marked, '%%EOF')).toBe(1);
+    expect(count(marked, 'startxref')).toBe(1);
+    expect(count(marked, '/Annots')).toBe(0);
+    expect(marked.toString('latin1').match(/\/Contents \[\d+ 0 R \d+ 0 R \d+ 0 R\]/g)).toHaveLength(2);
+    const text = readTextLayer(marked).join('\n');
+    expect(text).toContain('Shared with Asha Patil');
+    expect(text).toContain('Shared with Asha Patil | 20 Oct 2026 | ref 1a2b3c4d');
+    expect(text).toContain('Sale deed page 2');
+  });
+
+  test('reads back its own output, so a marked copy can be marked again', async () => {
+    const once = await watermarkFile(await pdfkitPdf(1), WATERMARK);
+
+    const twice = await watermarkFile(once, { ...WATERMARK, title: 'Shared with Ravi Kumar' });
+
+    expect(count(twice, '%%EOF')).toBe(1);
+    expect(count(twice, '/Subtype /Form')).toBe(2);
+    const xobjects = twice.toString('latin1').match(/\/XObject << ([^>]*) >>/)![1];
+    expect(xobjects.match(/\/PlaWm\d+ \d+ 0 R/g)).toHaveLength(2);
+    const text = readTextLayer(twice).join('\n');
+    expect(text).toContain('Shared with Asha Patil');
+    expect(text).toContain('Shared with Ravi Kumar');
+  });
+
+  test('handles object streams and predicted xref streams, writing their objects out plainly', async () => {
+    const marked = await watermarkFile(compressedPdf(), WATERMARK);
+    const written = marked.toString('latin1');
+
+    expect(written).not.toContain('/ObjStm');
+    expect(written).not.toContain('/Type /XRef');
+    expect(written).toContain('/BBox [0 0 300 400]');
+    expect(written).toMatch(/3 0 obj\n<< \/Type \/Page \/Parent 2 0 R \/Annots \[\] \/Contents \[7 0 R 9 0 R\] \/Resources << \/XObject << \/PlaWm8 8 0 R >> >> >>/);
+    expect(written).toMatch(/trailer\n<< \/Size 10 \/Root 1 0 R >>/);
+    await expect(watermarkFile(marked, WATERMARK)).resolves.toBeInstanceOf(Buffer);
+  });
+
+  test('refuses PDFs whose streams inflate past the size cap', async () => {
+    // 64 MB of object stream from a few KB of upload
+    const bomb = compressedPdf(64 * 1024 * 1024);
+
+    await expect(watermarkFile(bomb, WATERMARK)).rejects.toMatchObject({
+      code: 'WATERMARK_UNSUPPORTED',
+      details: { reason: 'Stream is corrupt or too large to decode' },
+    });
+  });
+
+  test('places photos on a page under the watermark', async () => {
+    const photo = png(40, 30);
+    expect(detectFileType(photo)).toBe('png');
+
+    const marked = await watermarkFile(photo, WATERMARK);
+
+    expect(detectFileType(marked)).toBe('pdf');
+    expect(count(marked, '/Subtype /Image')).toBe(1);
+  });
+
+  test('refuses files it cannot mark', async () => {
+    await expect(watermarkFile(Buffer.from('PK\x03\x04 word document'), WATERMARK)).rejects.toMatchObject({
+      code: 'WATERMARK_UNSUPPORTED',
+    });
+    const encrypted = Buffer.from((await pdfkitPdf(1)).toString('latin1').replace('/Root', '/Encrypt 99 0 R /Root'), 'latin1');
+    await expect(watermarkFile(encrypted, WATERMARK)).rejects.toMatchObject({
+      code: 'WATERMARK_UNSUPPORTED',
+      message: 'Password-protected PDFs cannot be watermarked',
+    });
+  });
+});
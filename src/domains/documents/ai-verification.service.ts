@@ -1,7 +1,12 @@
 // Story 6.4: Azure Cognitive Services AI Document Verification
-import { DocumentAnalysisClient, AzureKeyCredential } from '@azure/ai-form-recognizer';
 import { getStorage } from 'firebase-admin/storage';
-import { azureDocIntelligenceConfig } from '../../config/azure.js';
+import { createOcrProvider, OcrProvider } from './ocr-provider.js';
+import {
+  ExtractedDocumentFields,
+  extractDocumentFields,
+  extractionProfile,
+  fieldCoverage,
+} from './document-field-extractor.js';
 
 export interface VerificationResult {
   doc_type_detected: string;
@@ -13,6 +18,8 @@ export interface VerificationResult {
   rejection_reason?: string;
   keyword_matches: string[];
   field_coverage: number;
+  extracted_fields: ExtractedDocumentFields | null;
+  provider: string;
 }
 
 // Document type keyword mappings for Indian property documents (Hindi + English)
@@ -22,6 +29,7 @@ const DOCUMENT_TYPE_KEYWORDS: Record<string, string[]> = {
   sale_deed: ['sale deed', 'conveyance', 'bainama', 'बैनामा', 'vendor', 'vendee', 'registry', 'sub-registrar'],
   encumbrance_certificate: ['encumbrance', 'non-encumbrance', 'ec', 'एन्कम्ब्रेंस', 'charge', 'mortgage'],
   mutation_order: ['mutation', 'intiqal', 'इंतकाल', 'म्यूटेशन', 'revenue record', 'land record'],
+  khasra_khatauni: ['khatauni', 'khasra', 'खतौनी', 'खसरा', '7/12', 'satbara', 'सातबारा', 'jamabandi', 'record of rights'],
   property_tax_receipt: ['property tax', 'house tax', 'municipal', 'नगरपालिका', 'ghar ka tax'],
   noc: ['no objection', 'noc', 'अनापत्ति', 'clearance certificate'],
   power_of_attorney: ['power of attorney', 'poa', 'मुख्तारनामा', 'attorney'],
@@ -52,21 +60,16 @@ function redactPii(text: string): string {
   return redacted;
 }
 
+async function downloadFromStorage(storagePath: string): Promise<Buffer> {
+  const [buffer] = await getStorage().bucket().file(storagePath).download();
+  return buffer;
+}
+
 export class AiVerificationService {
-  private client: DocumentAnalysisClient;
-
-  constructor() {
-    if (!azureDocIntelligenceConfig.isConfigured) {
-      throw new Error(
-        'Azure Document Intelligence is not configured. ' +
-        'Set AZURE_DOC_INTELLIGENCE_ENDPOINT and AZURE_DOC_INTELLIGENCE_KEY environment variables.',
-      );
-    }
-    this.client = new DocumentAnalysisClient(
-      azureDocIntelligenceConfig.endpoint,
-      new AzureKeyCredential(azureDocIntelligenceConfig.apiKey),
-    );
-  }
+  constructor(
+    private ocr: OcrProvider = createOcrProvider(),
+    private readFile: (storagePath: string) => Promise<Buffer> = downloadFromStorage,
+  ) {}
 
   async verifyDocument(document: {
     id: string;
@@ -74,33 +77,15 @@ export class AiVerificationService {
     docType: string;
   }): Promise<VerificationResult> {
     // 1. Download document from Firebase Storage
-    const bucket = getStorage().bucket();
-    const file = bucket.file(document.storagePath);
-    const [buffer] = await file.download();
-
-    // 2. Send to Azure Document Intelligence OCR (AC1)
-    const poller = await this.client.beginAnalyzeDocument(
-      'prebuilt-read',
-      buffer,
-    );
-    const analyzeResult = await poller.pollUntilDone();
+    const buffer = await this.readFile(document.storagePath);
 
-    // 3. Extract text and confidence
-    const pages = analyzeResult.pages || [];
-    let fullText = '';
-    let totalConfidence = 0;
-    let wordCount = 0;
-
-    for (const page of pages) {
-      for (const word of page.words || []) {
-        fullText += word.content + ' ';
-        totalConfidence += word.confidence || 0;
-        wordCount++;
-      }
-    }
+    // 2. OCR (AC1)
+    const { lines, words } = await this.ocr.read(buffer);
 
-    const avgConfidence = wordCount > 0 ? totalConfidence / wordCount : 0;
-    const ocrText = fullText.toLowerCase().trim();
+    // 3. Extract text and confidence
+    const totalConfidence = words.reduce((sum, word) => sum + word.confidence, 0);
+    const avgConfidence = words.length > 0 ? totalConfidence / words.length : 0;
+    const ocrText = words.map((word) => word.content).join(' ').toLowerCase().trim();
 
     // 4. Document type classification via keyword matching (AC2)
     const { detectedType, keywordMatches } = this.classifyDocumentType(
@@ -114,6 +99,10 @@ export class AiVerificationService {
     // 6. Legibility check — OCR confidence > 70% (AC4)
     const legibilityCheck = avgConfidence > 0.70;
 
+    // Structured fields for property and KYC documents, read from the original-case lines
+    const profile = extractionProfile(document.docType);
+    const extractedFields = profile ? extractDocumentFields(lines, profile) : null;
+
     // 7. Determine overall status
     const confidenceScore = Math.round(avgConfidence * 100);
     const typeMatch = detectedType === document.docType;
@@ -121,8 +110,18 @@ export class AiVerificationService {
     let overallStatus: 'verified' | 'rejected' | 'needs_review';
     let rejectionReason: string | undefined;
 
-    if (typeMatch && completenessCheck && legibilityCheck && confidenceScore >= 70) {
-      overallStatus = 'verified';
+    if (words.length === 0 && !this.ocr.readsImages) {
+      // A text-layer engine cannot tell a blurry scan from a clear one
+      overallStatus = 'needs_review';
+      rejectionReason = 'No text layer to verify automatically. Document needs manual review.';
+    } else if (typeMatch && completenessCheck && legibilityCheck && confidenceScore >= 70) {
+      if (this.ocr.readsImages) {
+        overallStatus = 'verified';
+      } else {
+        // Embedded text is whatever the uploader put there, not what the page shows
+        overallStatus = 'needs_review';
+        rejectionReason = 'Read from the embedded text layer only. Document needs manual review.';
+      }
     } else if (!legibilityCheck || confidenceScore < 40) {
       overallStatus = 'rejected';
       rejectionReason = 'Document is not legible. Please upload a clearer photo.';
@@ -146,7 +145,9 @@ export class AiVerificationService {
       ocr_text: redactPii(ocrText.substring(0, 2000)), // Redact PII before storing
       rejection_reason: rejectionReason,
       keyword_matches: keywordMatches,
-      field_coverage: completenessCheck ? 1.0 : 0.5,
+      field_coverage: extractedFields ? fieldCoverage(extractedFields) : completenessCheck ? 1.0 : 0.5,
+      extracted_fields: extractedFields,
+      provider: this.ocr.name,
     };
   }
 
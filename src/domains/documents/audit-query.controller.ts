@@ -1,11 +1,19 @@
 // Story 6.13: Document Access Audit Log Query API
 import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { auditQuerySchema } from './documents.validation.js';
+import { diffVerificationResults, resolveLineages } from './document-versions.js';
+import { AiVerificationResult } from './documents.types.js';
+import { authorize } from '../../middleware/authorize.js';
+
+const AUDIT_ROLES = ['ops_manager', 'ops_executive', 'admin', 'super_admin'];
 
 export function auditQueryRoutes(prisma: PrismaClient): Router {
   const router = Router();
 
+  router.use(authorize(...AUDIT_ROLES));
+
   // GET /api/v1/audit/documents — query audit logs (AC4)
   router.get('/documents', async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -102,5 +110,93 @@ export function auditQueryRoutes(prisma: PrismaClient): Router {
     }
   });
 
+  // GET /api/v1/audit/documents/:id/versions — every version of the document
+  // with its AI verdict, what changed from the previous version, and the
+  // access/upload/restore trail across the lineage
+  router.get('/documents/:id/versions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const doc = await prisma.document.findUnique({ where: { id: req.params.id } });
+      if (!doc) {
+        return res.status(404).json({ success: false, error: { code: 'DOCUMENT_NOT_FOUND', message: 'Document not found' } });
+      }
+
+      const versions = await prisma.document.findMany({
+        where: { lineageId: doc.lineageId },
+        orderBy: { version: 'asc' },
+      });
+      const events = await prisma.auditLog.findMany({
+        where: { resourceType: 'document', resourceId: { in: versions.map((v) => v.id) } },
+        orderBy: { createdAt: 'asc' },
+      });
+      const [lineage] = resolveLineages(versions);
+
+      res.json({
+        success: true,
+        data: {
+          lineage_id: doc.lineageId,
+          current_version_id: lineage.current.id,
+          latest_verified_version_id: lineage.latestVerified?.id ?? null,
+          versions: versions.map((v, i) => ({
+            id: v.id,
+            version: v.version,
+            verification_status: v.verificationStatus,
+            uploaded_by: v.uploadedBy,
+            uploaded_by_user_id: v.uploadedByUserId,
+            uploaded_at: v.uploadedAt,
+            superseded_at: v.supersededAt,
+            superseded_by_id: v.supersededById,
+            rejection_reason: v.rejectionReason,
+            verification_overridden_by: v.verificationOverriddenBy,
+            ai_verification_result: v.aiVerificationResult,
+            changes_from_previous: i === 0
+              ? []
+              : diffVerificationResults(
+                versions[i - 1].aiVerificationResult as AiVerificationResult | null,
+                v.aiVerificationResult as AiVerificationResult | null,
+              ),
+          })),
+          events,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/v1/audit/documents/:id/diff?against=<id> — AI result changes
+  // between two versions of the same document
+  router.get('/documents/:id/diff', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const against = z.string().uuid().parse(req.query.against);
+      const [from, to] = await Promise.all([
+        prisma.document.findUnique({ where: { id: against } }),
+        prisma.document.findUnique({ where: { id: req.params.id } }),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ success: false, error: { code: 'DOCUMENT_NOT_FOUND', message: 'Document not found' } });
+      }
+      if (from.lineageId !== to.lineageId) {
+        return res.status(422).json({
+          success: false,
+          error: { code: 'DOCUMENT_VERSION_MISMATCH', message: 'Documents are not versions of the same document' },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          from: { id: from.id, version: from.version },
+          to: { id: to.id, version: to.version },
+          changes: diffVerificationResults(
+            from.aiVerificationResult as AiVerificationResult | null,
+            to.aiVerificationResult as AiVerificationResult | null,
+          ),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   return router;
 }
@@ -1,5 +1,6 @@
 // Story 6.11c: Document completion service for workflow integration
 import { PrismaClient } from '@prisma/client';
+import { resolveLineages } from './document-versions.js';
 
 export class DocumentCompletionService {
   constructor(private prisma: PrismaClient) {}
@@ -26,13 +27,14 @@ export class DocumentCompletionService {
         (d: any) => !d.required_from || d.required_from === 'all' || d.required_from === stakeholder.relationship,
       );
 
-      const uploadedCount = await this.prisma.document.count({
-        where: {
-          serviceInstanceId,
-          stakeholderId: stakeholder.id,
-          verificationStatus: { in: ['verified', 'pending'] },
-        },
+      // A document counts once, by its latest verified version (else its current one)
+      const uploaded = await this.prisma.document.findMany({
+        where: { serviceInstanceId, stakeholderId: stakeholder.id },
+        select: { id: true, lineageId: true, version: true, verificationStatus: true, supersededAt: true },
       });
+      const uploadedCount = resolveLineages(uploaded).filter((l) =>
+        ['verified', 'pending'].includes(l.effective.verificationStatus),
+      ).length;
 
       if (uploadedCount < requiredForRole.length) return false;
     }
@@ -60,7 +62,7 @@ export class DocumentCompletionService {
       );
 
       const uploadedCount = await this.prisma.document.count({
-        where: { serviceInstanceId, stakeholderId: stakeholder.id },
+        where: { serviceInstanceId, stakeholderId: stakeholder.id, supersededAt: null },
       });
 
       totalRequired += requiredForRole.length;
@@ -88,7 +90,7 @@ export class DocumentCompletionService {
   private async checkStandardCompletion(serviceInstanceId: string): Promise<boolean> {
     const requiredDocs = await this._getRequiredDocuments(serviceInstanceId);
     const uploadedCount = await this.prisma.document.count({
-      where: { serviceInstanceId },
+      where: { serviceInstanceId, supersededAt: null },
     });
 
     return uploadedCount >= requiredDocs.length;
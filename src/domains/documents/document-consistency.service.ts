@@ -0,0 +1,300 @@
+// Story 6.4: Cross-document consistency for a service instance
+// Compares fields extracted by AI verification across the property documents
+// and the customer's KYC, and keeps one ops review task per instance open
+// while mismatches remain.
+import { PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ExtractedDocumentFields, ExtractionProfile } from './document-field-extractor.js';
+
+export const DOCUMENT_CONSISTENCY_TASK = 'document_consistency';
+
+export interface DocumentMismatch {
+  check: 'owner_vs_land_record' | 'tax_receipt_owner' | 'kyc_name' | 'survey_number';
+  message: string;
+  documentIds: string[];
+  expected: string[];
+  found: string[];
+}
+
+export interface CloseConsistencyTaskInput {
+  taskId: string;
+  action: 'resolve' | 'dismiss';
+  notes?: string;
+  closedBy: string;
+}
+
+interface ExtractedDocument {
+  id: string;
+  fields: ExtractedDocumentFields;
+}
+
+const HONORIFICS = new Set(['shri', 'sri', 'smt', 'shrimati', 'kumari', 'km', 'mr', 'mrs', 'ms', 'dr', 'late', 'स्व', 'श्री', 'श्रीमती', 'सुश्री', 'कुमारी']);
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !HONORIFICS.has(token));
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Scripts names are written in on Indian property and KYC documents
+const NAME_SCRIPTS = [
+  'Latin', 'Devanagari', 'Gujarati', 'Gurmukhi', 'Bengali', 'Oriya', 'Tamil', 'Telugu', 'Kannada', 'Malayalam',
+].map((script) => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'u') }));
+
+function nameScript(name: string): string | null {
+  for (const char of name) {
+    const match = NAME_SCRIPTS.find(({ pattern }) => pattern.test(char));
+    if (match) return match.script;
+  }
+  return null;
+}
+
+/**
+ * Whether two names plausibly refer to the same person: honorifics and
+ * punctuation are ignored, a dropped middle name still matches, and small
+ * OCR or spelling slips are tolerated. Names in different scripts never match;
+ * check `sameScript` before treating that as a mismatch.
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return false;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (shorter.length >= 2 && shorter.every((token) => longer.includes(token))) return true;
+
+  const x = left.join(' ');
+  const y = right.join(' ');
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length) >= 0.85;
+}
+
+/** Whether two names are written in the same script and can be compared at all */
+export function sameScript(a: string, b: string): boolean {
+  return nameScript(a) === nameScript(b);
+}
+
+// Documents are never edited in place, so a mismatch is identified by its
+// check and the document versions involved
+function mismatchKey(mismatch: Pick<DocumentMismatch, 'check' | 'documentIds'>): string {
+  return `${mismatch.check}:${[...mismatch.documentIds].sort().join(',')}`;
+}
+
+/**
+ * 'match' when any pair of names matches, 'mismatch' when none does but at
+ * least one pair shares a script, and 'incomparable' when every pair is in
+ * different scripts (e.g. a Devanagari khatauni against a Latin sale deed),
+ * which is left to ops rather than flagged.
+ */
+function compareNames(names: string[], others: string[]): 'match' | 'mismatch' | 'incomparable' {
+  if (names.some((name) => others.some((other) => namesMatch(name, other)))) return 'match';
+  return names.some((name) => others.some((other) => sameScript(name, other))) ? 'mismatch' : 'incomparable';
+}
+
+export class DocumentConsistencyService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Lists mismatches between the instance's current documents. Documents
+   * without extracted fields, and fields a document did not yield, are skipped.
+   */
+  async checkServiceInstance(serviceInstanceId: string): Promise<DocumentMismatch[]> {
+    const instance = await this.prisma.serviceInstance.findUnique({
+      where: { id: serviceInstanceId },
+      select: { customerId: true },
+    });
+    if (!instance) return [];
+
+    const documents = await this.prisma.document.findMany({
+      where: { serviceInstanceId, archivedAt: null, supersededAt: null, verificationStatus: { not: 'rejected' } },
+      select: { id: true, uploadedByUserId: true, stakeholderId: true, aiVerificationResult: true },
+      orderBy: { uploadedAt: 'desc' },
+    });
+
+    const byProfile = new Map<ExtractionProfile, ExtractedDocument[]>();
+    let kycName: string | null = null;
+    for (const doc of documents) {
+      const fields = (doc.aiVerificationResult as any)?.extracted_fields as ExtractedDocumentFields | undefined;
+      if (!fields) continue;
+      if (fields.profile === 'identity') {
+        // Only the customer's own KYC, not a co-owner's or seller's
+        if (!kycName && doc.uploadedByUserId === instance.customerId && !doc.stakeholderId) {
+          kycName = fields.ownerNames[0] ?? null;
+        }
+        continue;
+      }
+      byProfile.set(fields.profile, [...(byProfile.get(fields.profile) ?? []), { id: doc.id, fields }]);
+    }
+    if (!kycName) {
+      const customer = await this.prisma.user.findUnique({
+        where: { id: instance.customerId },
+        select: { displayName: true },
+      });
+      kycName = customer?.displayName ?? null;
+    }
+
+    const withOwners = (profile: ExtractionProfile) =>
+      (byProfile.get(profile) ?? []).filter((d) => d.fields.ownerNames.length > 0);
+    const saleDeed = withOwners('sale_deed')[0];
+    const landRecords = withOwners('land_record');
+    const taxReceipts = withOwners('tax_receipt');
+
+    const mismatches: DocumentMismatch[] = [];
+
+    // Sale deed purchasers should be the owners on record after mutation
+    if (saleDeed) {
+      for (const record of landRecords) {
+        if (compareNames(saleDeed.fields.ownerNames, record.fields.ownerNames) !== 'mismatch') continue;
+        const stillSeller = compareNames(saleDeed.fields.sellerNames, record.fields.ownerNames) === 'match';
+        mismatches.push({
+          check: 'owner_vs_land_record',
+          message: stillSeller
+            ? 'Land record still shows the seller as owner; mutation may be pending'
+            : 'Sale deed purchaser does not match the owner on the land record',
+          documentIds: [saleDeed.id, record.id],
+          expected: saleDeed.fields.ownerNames,
+          found: record.fields.ownerNames,
+        });
+      }
+    }
+
+    const propertyOwners = saleDeed ?? landRecords[0];
+
+    if (propertyOwners) {
+      for (const receipt of taxReceipts) {
+        if (compareNames(propertyOwners.fields.ownerNames, receipt.fields.ownerNames) !== 'mismatch') continue;
+        mismatches.push({
+          check: 'tax_receipt_owner',
+          message: 'Property tax receipt is in a different name from the property owner',
+          documentIds: [propertyOwners.id, receipt.id],
+          expected: propertyOwners.fields.ownerNames,
+          found: receipt.fields.ownerNames,
+        });
+      }
+    }
+
+    const ownerSource = propertyOwners ?? taxReceipts[0];
+    if (kycName && ownerSource && compareNames([kycName], ownerSource.fields.ownerNames) === 'mismatch') {
+      mismatches.push({
+        check: 'kyc_name',
+        message: "Customer's KYC name does not match the property owner",
+        documentIds: [ownerSource.id],
+        expected: [kycName],
+        found: ownerSource.fields.ownerNames,
+      });
+    }
+
+    const deedSurvey = (byProfile.get('sale_deed') ?? []).find((d) => d.fields.surveyNumbers.length > 0);
+    if (deedSurvey) {
+      for (const record of byProfile.get('land_record') ?? []) {
+        const numbers = record.fields.surveyNumbers;
+        if (numbers.length === 0 || numbers.some((n) => deedSurvey.fields.surveyNumbers.includes(n))) continue;
+        mismatches.push({
+          check: 'survey_number',
+          message: 'Survey/khasra number on the land record does not match the sale deed',
+          documentIds: [deedSurvey.id, record.id],
+          expected: deedSurvey.fields.surveyNumbers,
+          found: numbers,
+        });
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Opens or refreshes the instance's pending consistency task while
+   * mismatches exist, and completes it once they are resolved. Mismatches
+   * ops have dismissed are not raised again.
+   */
+  async reviewServiceInstance(serviceInstanceId: string, cityId: string): Promise<DocumentMismatch[]> {
+    const dismissedTasks = await this.prisma.opsReviewTask.findMany({
+      where: { type: DOCUMENT_CONSISTENCY_TASK, resourceId: serviceInstanceId, status: 'dismissed' },
+      select: { metadata: true },
+    });
+    const dismissed = new Set(
+      dismissedTasks.flatMap((t) => ((t.metadata as any)?.mismatches ?? []).map(mismatchKey)),
+    );
+    const mismatches = (await this.checkServiceInstance(serviceInstanceId)).filter(
+      (m) => !dismissed.has(mismatchKey(m)),
+    );
+    const existing = await this.prisma.opsReviewTask.findFirst({
+      where: { type: DOCUMENT_CONSISTENCY_TASK, resourceId: serviceInstanceId, status: 'pending' },
+    });
+
+    if (mismatches.length > 0) {
+      const metadata = { serviceInstanceId, reason: 'Documents disagree with each other', mismatches } as any;
+      if (existing) {
+        await this.prisma.opsReviewTask.update({ where: { id: existing.id }, data: { metadata } });
+      } else {
+        await this.prisma.opsReviewTask.create({
+          data: {
+            type: DOCUMENT_CONSISTENCY_TASK,
+            resourceId: serviceInstanceId,
+            resourceType: 'service_instance',
+            status: 'pending',
+            cityId,
+            metadata,
+          },
+        });
+      }
+    } else if (existing) {
+      await this.prisma.opsReviewTask.update({
+        where: { id: existing.id },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Closes a pending consistency task from the ops review queue. Resolving
+   * re-runs the check and only succeeds once the documents agree; dismissing
+   * accepts the listed mismatches, which are then not raised again.
+   */
+  async closeTask(input: CloseConsistencyTaskInput) {
+    const task = await this.prisma.opsReviewTask.findUnique({ where: { id: input.taskId } });
+    if (!task || task.type !== DOCUMENT_CONSISTENCY_TASK) {
+      throw new BusinessError('REVIEW_TASK_NOT_FOUND', 'Consistency review task not found', 404);
+    }
+    if (task.status !== 'pending') {
+      throw new BusinessError('REVIEW_TASK_CLOSED', `Review task is already ${task.status}`, 409);
+    }
+
+    const metadata = (task.metadata ?? {}) as Record<string, unknown>;
+    const closure = { closedBy: input.closedBy, closedAt: new Date().toISOString(), notes: input.notes ?? null };
+
+    if (input.action === 'dismiss') {
+      return this.prisma.opsReviewTask.update({
+        where: { id: task.id },
+        data: { status: 'dismissed', completedAt: new Date(), metadata: { ...metadata, ...closure } as any },
+      });
+    }
+
+    const mismatches = await this.reviewServiceInstance(task.resourceId, task.cityId);
+    if (mismatches.length > 0) {
+      throw new BusinessError('DOCUMENT_MISMATCHES_REMAIN', 'Documents still disagree; dismiss the task to accept them', 409, {
+        mismatches,
+      });
+    }
+    // The re-run completed the task
+    return this.prisma.opsReviewTask.update({
+      where: { id: task.id },
+      data: { metadata: { ...metadata, ...closure } as any },
+    });
+  }
+}
@@ -0,0 +1,246 @@
+// Story 6.4: Structured field extraction from OCR text of property documents
+// Rule-based: labelled values (English, romanised Hindi and Devanagari) are
+// read line by line, so OCR must keep each label on the line of its value.
+
+export type ExtractionProfile =
+  | 'sale_deed'
+  | 'land_record' // khatauni, 7/12, mutation extracts
+  | 'encumbrance_certificate'
+  | 'tax_receipt'
+  | 'identity'; // KYC documents; only the holder's name is read
+
+const PROFILE_BY_DOC_TYPE: Record<string, ExtractionProfile> = {
+  sale_deed: 'sale_deed',
+  registered_sale_deed: 'sale_deed',
+  sale_deed_copy: 'sale_deed',
+  mutation_order: 'land_record',
+  khasra_khatauni: 'land_record',
+  old_khata: 'land_record',
+  encumbrance_certificate: 'encumbrance_certificate',
+  property_tax_receipt: 'tax_receipt',
+  property_tax_paid_receipt: 'tax_receipt',
+  aadhaar: 'identity',
+  pan: 'identity',
+};
+
+export interface DocumentArea {
+  value: number;
+  unit: 'sq_ft' | 'sq_m' | 'sq_yd' | 'hectare' | 'acre' | 'bigha';
+  squareMetres: number | null;
+}
+
+export interface ExtractedDocumentFields {
+  profile: ExtractionProfile;
+  /** Purchasers on a sale deed; recorded owners elsewhere */
+  ownerNames: string[];
+  /** Vendors on a sale deed */
+  sellerNames: string[];
+  /** Survey, khasra, gat and plot numbers */
+  surveyNumbers: string[];
+  area: DocumentArea | null;
+  registrationNumber: string | null;
+  registrationDate: string | null; // YYYY-MM-DD
+  dates: string[]; // every date found, YYYY-MM-DD, in document order
+}
+
+// Fields a complete document of each profile carries
+const EXPECTED_FIELDS: Record<ExtractionProfile, Array<keyof ExtractedDocumentFields>> = {
+  sale_deed: ['ownerNames', 'sellerNames', 'surveyNumbers', 'area', 'registrationNumber', 'registrationDate'],
+  land_record: ['ownerNames', 'surveyNumbers', 'area'],
+  encumbrance_certificate: ['surveyNumbers', 'dates'],
+  tax_receipt: ['ownerNames', 'dates'],
+  identity: ['ownerNames'],
+};
+
+const OWNER_LABELS: Record<ExtractionProfile, string[]> = {
+  sale_deed: ['vendee', 'purchaser', 'buyer', 'क्रेता'],
+  land_record: [
+    'name of (?:the )?(?:owner|khatedar|occupant)',
+    'khatedar',
+    'bhumidhar',
+    'occupant',
+    'owner',
+    'खातेदार',
+    'भूमिधर',
+    'कब्जेदार',
+    'भोगवटादार',
+  ],
+  encumbrance_certificate: ['claimant', 'owner'],
+  tax_receipt: ['name of (?:the )?owner', 'owner', 'assessee', 'taxpayer', 'करदाता', 'स्वामी'],
+  identity: ['name', 'नाम'],
+};
+
+const SELLER_LABELS = ['vendor', 'seller', 'विक्रेता'];
+
+// Text after a name that belongs to parentage, age or address
+const NAME_TAIL =
+  /\s*(?:(?<![\p{L}])(?:s\/o|d\/o|w\/o|c\/o|r\/o|son of|daughter of|wife of|aged?|resident of|both|all)(?![\p{L}])|पुत्र|पुत्री|पत्नी|निवासी|उम्र|\d).*$/iu;
+
+const AREA_UNITS: Array<{ pattern: string; unit: DocumentArea['unit']; squareMetres: number | null }> = [
+  { pattern: 'sq\\.?\\s*(?:ft|feet)|square\\s+feet|वर्ग\\s*फ(?:ु|ी)ट', unit: 'sq_ft', squareMetres: 0.09290304 },
+  {
+    pattern: 'sq\\.?\\s*(?:mtrs?|metres?|meters?|m)|square\\s+(?:metres?|meters?)|वर्ग\\s*मीटर',
+    unit: 'sq_m',
+    squareMetres: 1,
+  },
+  { pattern: 'sq\\.?\\s*(?:yards?|yds?)|square\\s+yards?|gaj|गज', unit: 'sq_yd', squareMetres: 0.83612736 },
+  { pattern: 'hectares?|hect\\.?|ha|हेक्टेयर', unit: 'hectare', squareMetres: 10000 },
+  { pattern: 'acres?|एकड़', unit: 'acre', squareMetres: 4046.8564224 },
+  // A bigha differs from state to state, so it is not converted
+  { pattern: 'bighas?|बीघा', unit: 'bigha', squareMetres: null },
+];
+
+const AREA_PATTERN = new RegExp(
+  `(\\d{1,3}(?:,\\d{2,3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)\\s*(${AREA_UNITS.map((u) => `(?:${u.pattern})`).join('|')})(?![\\p{L}])`,
+  'iu',
+);
+
+const AREA_LABEL = /(?<![\p{L}])(?:area|measuring|admeasuring)(?![\p{L}])|क्षेत्रफल|रकबा/iu;
+
+const SURVEY_PATTERN =
+  /(?<![\p{L}])(?:survey|sy\.?|khasra|gat|plot|खसरा|सर्वे|गट|प्लॉट)\s*(?:nos?\.?|numbers?|संख्या|क्रमांक|नं\.?)?\s*[:.-]?\s*(\d+[a-z]?(?:\s*\/\s*\d+[a-z]?)*(?:\s*(?:,|&|and)\s*\d+[a-z]?(?:\s*\/\s*\d+[a-z]?)*)*)/giu;
+
+const REGISTRATION_PATTERN =
+  /(?<![\p{L}])(?:registration|regn\.?|reg\.?|registered\s+document|document|deed|पंजीयन|पंजीकरण|रजिस्ट्री)\s*(?:no\.?|number|संख्या|क्रमांक|नं\.?)\s*[:.-]?\s*([a-z0-9][a-z0-9/-]*\d[a-z0-9/-]*)/iu;
+
+const REGISTRATION_DATE_LABEL =
+  /registered\s+on|date\s+of\s+registration|registration\s+date|पंजीयन\s+(?:की\s+)?(?:दिनांक|तिथि)|रजिस्ट्री\s+(?:की\s+)?(?:दिनांक|तिथि)/iu;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const NUMERIC_DATE = /(?<!\d)(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?!\d)/g;
+const TEXT_DATE =
+  /(?<!\d)(\d{1,2})(?:st|nd|rd|th)?\s+(?:day\s+of\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})/gi;
+
+export function extractionProfile(docType: string): ExtractionProfile | null {
+  return PROFILE_BY_DOC_TYPE[docType] ?? null;
+}
+
+/**
+ * Share of the fields expected for the profile that were found.
+ */
+export function fieldCoverage(fields: ExtractedDocumentFields): number {
+  const expected = EXPECTED_FIELDS[fields.profile];
+  const found = expected.filter((key) => {
+    const value = fields[key];
+    return Array.isArray(value) ? value.length > 0 : value !== null;
+  });
+  return Math.round((found.length / expected.length) * 100) / 100;
+}
+
+export function extractDocumentFields(lines: string[], profile: ExtractionProfile): ExtractedDocumentFields {
+  const text = lines.map(normaliseDigits);
+  const dates = text.flatMap(findDates);
+
+  if (profile === 'identity') {
+    return {
+      profile,
+      ownerNames: labelledNames(text, OWNER_LABELS.identity).slice(0, 1),
+      sellerNames: [],
+      surveyNumbers: [],
+      area: null,
+      registrationNumber: null,
+      registrationDate: null,
+      dates: [],
+    };
+  }
+
+  const registrationLine = text.find((l) => REGISTRATION_DATE_LABEL.test(l));
+  return {
+    profile,
+    ownerNames: labelledNames(text, OWNER_LABELS[profile]),
+    sellerNames: profile === 'sale_deed' ? labelledNames(text, SELLER_LABELS) : [],
+    surveyNumbers: findSurveyNumbers(text),
+    area: findArea(text),
+    registrationNumber: findFirst(text, REGISTRATION_PATTERN)?.toUpperCase() ?? null,
+    registrationDate: registrationLine ? findDates(registrationLine)[0] ?? null : null,
+    dates: [...new Set(dates)],
+  };
+}
+
+// Devanagari digits to ASCII
+function normaliseDigits(line: string): string {
+  return line.replace(/[०-९]/g, (d) => String(d.charCodeAt(0) - 0x0966));
+}
+
+function labelledNames(lines: string[], labels: string[]): string[] {
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{M}])(?:${labels.join('|')})(?:s|'s)?(?:\\s*\\(s\\))?\\s*(?:(?:का|के)\\s+)?(?:name|नाम)?\\s*[:\\-–]\\s*(.+)$`,
+    'iu',
+  );
+  const names: string[] = [];
+  for (const line of lines) {
+    // "Father's name" and the like name someone else
+    if (/father|husband|पिता|पति/iu.test(line)) continue;
+    const match = line.match(pattern);
+    if (!match) continue;
+    const value = match[1].replace(NAME_TAIL, '');
+    for (const part of value.split(/\s*(?:,|&|;|\s(?:and|एवं|व)\s)\s*/iu)) {
+      const name = part.replace(/^[\s.:\-–]+|[\s.,:;\-–]+$/g, '').replace(/\s+/g, ' ');
+      if ((name.match(/\p{L}/gu) ?? []).length >= 2 && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+function findSurveyNumbers(lines: string[]): string[] {
+  const numbers: string[] = [];
+  for (const line of lines) {
+    for (const match of line.matchAll(SURVEY_PATTERN)) {
+      for (const part of match[1].split(/\s*(?:,|&|and)\s*/i)) {
+        const number = part.replace(/\s+/g, '').toUpperCase();
+        if (number && !numbers.includes(number)) numbers.push(number);
+      }
+    }
+  }
+  return numbers;
+}
+
+function findArea(lines: string[]): DocumentArea | null {
+  // Prefer a line that labels the area over, say, a built-up figure elsewhere
+  const ordered = [...lines.filter((l) => AREA_LABEL.test(l)), ...lines];
+  for (const line of ordered) {
+    const match = line.match(AREA_PATTERN);
+    if (!match) continue;
+    const value = Number(match[1].replace(/,/g, ''));
+    const unit = AREA_UNITS.find((u) => new RegExp(`^(?:${u.pattern})$`, 'iu').test(match[2]))!;
+    return {
+      value,
+      unit: unit.unit,
+      squareMetres: unit.squareMetres === null ? null : Math.round(value * unit.squareMetres * 100) / 100,
+    };
+  }
+  return null;
+}
+
+function findFirst(lines: string[], pattern: RegExp): string | undefined {
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Dates on a line in order: dd/mm/yyyy (and - or . separators) and
+ * "12th March 2024" forms.
+ */
+function findDates(line: string): string[] {
+  const found: Array<{ index: number; date: string }> = [];
+  for (const m of line.matchAll(NUMERIC_DATE)) {
+    const date = isoDate(Number(m[3]), Number(m[2]), Number(m[1]));
+    if (date) found.push({ index: m.index!, date });
+  }
+  for (const m of line.matchAll(TEXT_DATE)) {
+    const date = isoDate(Number(m[3]), MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1]));
+    if (date) found.push({ index: m.index!, date });
+  }
+  return found.sort((a, b) => a.index - b.index).map((f) => f.date);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 1900 || year > 2100) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,82 @@
+// Document versions: a corrected upload supersedes the previous version in the
+// same lineage instead of replacing it, so earlier files and AI verdicts stay
+// available for audit and restore.
+import { AiVerificationResult } from './documents.types.js';
+
+export interface VersionedDocument {
+  id: string;
+  lineageId: string;
+  version: number;
+  verificationStatus: string;
+  supersededAt: Date | null;
+}
+
+export interface ResolvedLineage<T extends VersionedDocument> {
+  lineageId: string;
+  /** The version not superseded */
+  current: T;
+  /** Highest verified version, if any */
+  latestVerified: T | null;
+  /**
+   * The version that stands for the document: the latest verified one, so a
+   * correction awaiting (or failing) verification does not undo an earlier
+   * verified version; otherwise the current one.
+   */
+  effective: T;
+}
+
+export interface VerificationChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+const COMPARED_RESULT_FIELDS: Array<keyof AiVerificationResult> = [
+  'overall_status',
+  'doc_type_detected',
+  'confidence_score',
+  'completeness_check',
+  'legibility_check',
+  'field_coverage',
+  'rejection_reason',
+  'provider',
+];
+
+export function resolveLineages<T extends VersionedDocument>(documents: T[]): ResolvedLineage<T>[] {
+  const byLineage = new Map<string, T[]>();
+  for (const doc of documents) {
+    byLineage.set(doc.lineageId, [...(byLineage.get(doc.lineageId) ?? []), doc]);
+  }
+
+  return [...byLineage.entries()].map(([lineageId, versions]) => {
+    const ordered = [...versions].sort((a, b) => b.version - a.version);
+    const current = ordered.find((v) => !v.supersededAt) ?? ordered[0];
+    const latestVerified = ordered.find((v) => v.verificationStatus === 'verified') ?? null;
+    return { lineageId, current, latestVerified, effective: latestVerified ?? current };
+  });
+}
+
+/**
+ * Field-level changes between two AI verification results, including each
+ * extracted field (as `extracted_fields.<name>`).
+ */
+export function diffVerificationResults(
+  from: AiVerificationResult | null,
+  to: AiVerificationResult | null,
+): VerificationChange[] {
+  const changes: VerificationChange[] = [];
+  const compare = (field: string, a: unknown, b: unknown) => {
+    if (JSON.stringify(a ?? null) !== JSON.stringify(b ?? null)) {
+      changes.push({ field, from: a ?? null, to: b ?? null });
+    }
+  };
+
+  for (const field of COMPARED_RESULT_FIELDS) compare(field, from?.[field], to?.[field]);
+
+  const fromFields = (from?.extracted_fields ?? {}) as Record<string, unknown>;
+  const toFields = (to?.extracted_fields ?? {}) as Record<string, unknown>;
+  const names = [...new Set([...Object.keys(fromFields), ...Object.keys(toFields)])].filter((n) => n !== 'profile');
+  for (const name of names) compare(`extracted_fields.${name}`, fromFields[name], toFields[name]);
+
+  return changes;
+}
@@ -2,7 +2,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z, ZodError } from 'zod';
 import { DocumentsService } from './documents.service.js';
-import { createDocumentSchema, queryDocumentsSchema, overrideSchema } from './documents.validation.js';
+import { createDocumentSchema, queryDocumentsSchema, overrideSchema, closeConsistencyTaskSchema } from './documents.validation.js';
 import { auditLog } from '../../middleware/audit-logger.js';
 import { authorize } from '../../middleware/authorize.js';
 import { logger } from '../../shared/utils/logger.js';
@@ -26,6 +26,14 @@ export function documentsRoutes(service: DocumentsService): Router {
         return res.status(403).json({ success: false, error: { code: 'AUTH_FORBIDDEN', message: 'You do not have access to this service instance' } });
       }
 
+      // Customers can only replace their own uploads with a new version
+      if (body.supersedesDocumentId && !OPS_ROLES.includes(user.role) && user.role !== 'agent') {
+        const previous = await service.getDocumentById(body.supersedesDocumentId);
+        if (previous && previous.uploadedByUserId !== user.id) {
+          return res.status(403).json({ success: false, error: { code: 'AUTH_FORBIDDEN', message: 'You can only replace documents you uploaded' } });
+        }
+      }
+
       // Derive uploadedBy from server-side role, not client input.
       // Prevents customers from sending uploaded_by='agent' to bypass AI verification.
       const serverUploadedBy = ['agent', 'ops_manager', 'ops_executive', 'admin'].includes(user.role) ? 'agent' : 'customer';
@@ -49,6 +57,8 @@ export function documentsRoutes(service: DocumentsService): Router {
           doc_type: body.docType,
           file_size: body.fileSize,
           uploaded_by: serverUploadedBy,
+          version: document.version,
+          supersedes_document_id: body.supersedesDocumentId,
         },
         ipAddress: req.ip,
         userAgent: req.headers['user-agent'],
@@ -121,6 +131,39 @@ export function documentsRoutes(service: DocumentsService): Router {
     }
   });
 
+  // ================================================================
+  // Story 6.4: POST /api/v1/documents/review-queue/:taskId/close
+  // Resolve or dismiss a cross-document consistency task
+  // ================================================================
+  router.post('/review-queue/:taskId/close', authorize(...OPS_ROLES), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = z.string().uuid().parse(req.params.taskId);
+      const { action, notes } = closeConsistencyTaskSchema.parse(req.body);
+
+      const task = await service.closeConsistencyTask({
+        taskId,
+        action,
+        notes,
+        closedBy: (req as any).user!.id,
+      });
+
+      await auditLog({
+        userId: (req as any).user!.id,
+        userRole: (req as any).user!.role,
+        action: 'document_consistency_closed',
+        resourceType: 'service_instance',
+        resourceId: task.resourceId,
+        metadata: { task_id: taskId, close_action: action, notes },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      res.json({ success: true, data: task });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // ================================================================
   // Story 6.11b: GET /api/v1/documents/stakeholder-checklist
   // ================================================================
@@ -264,6 +307,31 @@ export function documentsRoutes(service: DocumentsService): Router {
     }
   });
 
+  // ================================================================
+  // POST /api/v1/documents/:id/restore — make an earlier version current again
+  // ================================================================
+  router.post('/:id/restore', authorize(...OPS_ROLES), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await service.restoreVersion(req.params.id);
+
+      await auditLog({
+        userId: (req as any).user!.id,
+        userRole: (req as any).user!.role,
+        action: 'document_restore',
+        resourceType: 'document',
+        resourceId: document.id,
+        serviceInstanceId: document.serviceInstanceId,
+        metadata: { lineage_id: document.lineageId, version: document.version },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      res.json({ success: true, data: document });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // ================================================================
   // Story 6.14: POST /api/v1/documents/:id/request-retrieval
   // ================================================================
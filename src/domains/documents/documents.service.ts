@@ -1,4 +1,5 @@
 // Story 6.2 + 6.3 + 6.6 + 6.7 + 6.8 + 6.9 + 6.11b + 6.14: Document Management Service
+import { randomUUID } from 'crypto';
 import { PrismaClient } from '@prisma/client';
 import { getStorage } from 'firebase-admin/storage';
 import { getFirestore } from 'firebase-admin/firestore';
@@ -7,6 +8,9 @@ import { CreateDocumentInput, OverrideVerificationInput } from './documents.type
 const DOCUMENT_VERIFY_JOB = 'document.ai-verify';
 const DOCUMENT_DELIVERY_JOB = 'document.whatsapp-deliver';
 import { isCriticalDocument } from './document-config.js';
+import { resolveLineages } from './document-versions.js';
+import { CloseConsistencyTaskInput, DocumentConsistencyService } from './document-consistency.service.js';
+import { BusinessError } from '../../shared/errors/business-error';
 import { logger } from '../../shared/utils/logger';
 
 export class DocumentsService {
@@ -38,24 +42,52 @@ export class DocumentsService {
       cityId = si?.cityId ?? '';
     }
 
-    const document = await this.prisma.document.create({
-      data: {
-        serviceInstanceId: input.serviceInstanceId,
-        docType: input.docType,
-        storagePath: input.storagePath,
-        downloadUrl: input.downloadUrl,
-        fileSize: input.fileSize,
-        uploadedBy: input.uploadedBy,
-        uploadedByUserId: input.uploadedByUserId,
-        signedUrl,
-        signedUrlExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        verificationStatus: input.uploadedBy === 'agent' ? 'verified' : 'pending',
-        cityId,
-        stakeholderId: input.stakeholderId,
-        agentNotes: input.agentNotes,
-        gpsLat: input.gpsLat,
-        gpsLng: input.gpsLng,
-      },
+    const previous = input.supersedesDocumentId
+      ? await this._getSupersedableVersion(input.supersedesDocumentId, input)
+      : null;
+    const id = randomUUID();
+
+    const document = await this.prisma.$transaction(async (tx) => {
+      if (previous) {
+        // Guard against a concurrent upload superseding the same version
+        const { count } = await tx.document.updateMany({
+          where: { id: previous.id, supersededAt: null },
+          data: { supersededAt: new Date(), supersededById: id },
+        });
+        if (count === 0) {
+          throw new BusinessError('DOCUMENT_ALREADY_SUPERSEDED', 'This document version has already been replaced', 409);
+        }
+      }
+      const latest = previous
+        ? await tx.document.findFirst({
+          where: { lineageId: previous.lineageId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        })
+        : null;
+
+      return tx.document.create({
+        data: {
+          id,
+          lineageId: previous?.lineageId ?? id,
+          version: (latest?.version ?? 0) + 1,
+          serviceInstanceId: input.serviceInstanceId,
+          docType: input.docType,
+          storagePath: input.storagePath,
+          downloadUrl: input.downloadUrl,
+          fileSize: input.fileSize,
+          uploadedBy: input.uploadedBy,
+          uploadedByUserId: input.uploadedByUserId,
+          signedUrl,
+          signedUrlExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          verificationStatus: input.uploadedBy === 'agent' ? 'verified' : 'pending',
+          cityId,
+          stakeholderId: input.stakeholderId,
+          agentNotes: input.agentNotes,
+          gpsLat: input.gpsLat,
+          gpsLng: input.gpsLng,
+        },
+      });
     });
 
     // Background jobs — failures must not block the upload response, but each
@@ -135,7 +167,7 @@ export class DocumentsService {
   // ================================================================
   async getDocumentsByServiceInstance(serviceInstanceId: string) {
     return this.prisma.document.findMany({
-      where: { serviceInstanceId },
+      where: { serviceInstanceId, supersededAt: null },
       orderBy: { uploadedAt: 'desc' },
     });
   }
@@ -155,8 +187,11 @@ export class DocumentsService {
     // Get required documents from service definition
     const requiredDocs = await this._getRequiredDocuments(serviceInstanceId);
 
+    // One entry per lineage: its latest verified version, else its current one
+    const lineages = resolveLineages(uploadedDocs);
+
     return requiredDocs.map((doc: any) => {
-      const uploaded = uploadedDocs.filter((d) => d.docType === doc.doc_type);
+      const uploaded = lineages.filter((l) => l.effective.docType === doc.doc_type).map((l) => l.effective);
       return {
         doc_type: doc.doc_type,
         name_en: doc.name_en || doc.doc_type,
@@ -177,6 +212,9 @@ export class DocumentsService {
           download_url: d.downloadUrl,
           file_size: d.fileSize,
           uploaded_at: d.uploadedAt,
+          lineage_id: d.lineageId,
+          version: d.version,
+          is_current: !d.supersededAt,
         })),
         rejection_reason: uploaded.find((d) => d.rejectionReason)?.rejectionReason,
       };
@@ -222,7 +260,47 @@ export class DocumentsService {
       logger.warn({ documentId: id, storagePath: doc.storagePath, err: e }, 'Storage file deletion failed; continuing with database record removal');
     }
 
-    return this.prisma.document.delete({ where: { id } });
+    return this.prisma.$transaction(async (tx) => {
+      const deleted = await tx.document.delete({ where: { id } });
+
+      // Deleting the current version brings back the one it replaced
+      if (!doc.supersededAt) {
+        const previous = await tx.document.findFirst({
+          where: { lineageId: doc.lineageId, supersededAt: { not: null } },
+          orderBy: { supersededAt: 'desc' },
+        });
+        if (previous) {
+          await tx.document.update({
+            where: { id: previous.id },
+            data: { supersededAt: null, supersededById: null },
+          });
+        }
+      }
+
+      return deleted;
+    });
+  }
+
+  // ================================================================
+  // Document versions: make an earlier version current again
+  // ================================================================
+  async restoreVersion(id: string) {
+    const doc = await this.prisma.document.findUnique({ where: { id } });
+    if (!doc) throw new BusinessError('DOCUMENT_NOT_FOUND', 'Document not found', 404);
+    if (!doc.supersededAt) {
+      throw new BusinessError('DOCUMENT_VERSION_CURRENT', 'This version is already the current one', 409);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.document.updateMany({
+        where: { lineageId: doc.lineageId, supersededAt: null },
+        data: { supersededAt: new Date(), supersededById: doc.id },
+      });
+      return tx.document.update({
+        where: { id: doc.id },
+        data: { supersededAt: null, supersededById: null },
+      });
+    });
   }
 
   // ================================================================
@@ -273,6 +351,14 @@ export class DocumentsService {
       data: { status: 'completed', completedAt: new Date() },
     });
 
+    // A rejected document drops out of the cross-document check, so mismatches
+    // it caused may now be gone; a failure must not undo the override
+    await new DocumentConsistencyService(this.prisma)
+      .reviewServiceInstance(doc.serviceInstanceId, doc.cityId)
+      .catch((err) => {
+        logger.warn({ err, documentId: doc.id }, 'Consistency re-check after override failed');
+      });
+
     // Flag AI for accuracy tracking
     if (input.flagAiIncorrect) {
       await this.prisma.aiAccuracyFlag.create({
@@ -326,13 +412,20 @@ export class DocumentsService {
   // ================================================================
   async getReviewQueue(cityId: string, cursor?: string, limit = 50) {
     return this.prisma.opsReviewTask.findMany({
-      where: { type: 'document_review', status: 'pending', cityId },
+      where: { type: { in: ['document_review', 'document_consistency'] }, status: 'pending', cityId },
       orderBy: { createdAt: 'asc' },
       take: limit,
       ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
     });
   }
 
+  // ================================================================
+  // Story 6.4: Resolve or dismiss a cross-document consistency task
+  // ================================================================
+  async closeConsistencyTask(input: CloseConsistencyTaskInput) {
+    return new DocumentConsistencyService(this.prisma).closeTask(input);
+  }
+
   // ================================================================
   // Story 6.8: Get all documents for a user (document vault)
   // ================================================================
@@ -342,6 +435,7 @@ export class DocumentsService {
         OR: [
           { uploadedByUserId: userId },
         ],
+        supersededAt: null,
       },
       orderBy: { uploadedAt: 'desc' },
       take: limit,
@@ -368,9 +462,10 @@ export class DocumentsService {
     const uploadedDocs = await this.prisma.document.findMany({
       where: { serviceInstanceId, stakeholderId },
     });
+    const lineages = resolveLineages(uploadedDocs);
 
     return stakeholderDocs.map((doc: any) => {
-      const uploaded = uploadedDocs.filter((d) => d.docType === doc.doc_type);
+      const uploaded = lineages.filter((l) => l.effective.docType === doc.doc_type).map((l) => l.effective);
       return {
         doc_type: doc.doc_type,
         name_en: doc.name_en || doc.doc_type,
@@ -400,7 +495,7 @@ export class DocumentsService {
 
     for (const stakeholder of stakeholders) {
       const uploaded = await this.prisma.document.count({
-        where: { serviceInstanceId, stakeholderId: stakeholder.id },
+        where: { serviceInstanceId, stakeholderId: stakeholder.id, supersededAt: null },
       });
       const total = requiredDocs.filter((d: any) =>
         !d.required_from || d.required_from === 'all' || d.required_from === stakeholder.relationship,
@@ -434,6 +529,26 @@ export class DocumentsService {
   // ================================================================
   // Private helpers
   // ================================================================
+  private async _getSupersedableVersion(id: string, input: CreateDocumentInput) {
+    const previous = await this.prisma.document.findUnique({ where: { id } });
+    if (!previous) throw new BusinessError('DOCUMENT_NOT_FOUND', 'Document to supersede not found', 404);
+    if (
+      previous.serviceInstanceId !== input.serviceInstanceId ||
+      previous.docType !== input.docType ||
+      (previous.stakeholderId ?? undefined) !== input.stakeholderId
+    ) {
+      throw new BusinessError(
+        'DOCUMENT_VERSION_MISMATCH',
+        'A new version must be for the same service, document type and stakeholder',
+        422,
+      );
+    }
+    if (previous.supersededAt) {
+      throw new BusinessError('DOCUMENT_ALREADY_SUPERSEDED', 'This document version has already been replaced', 409);
+    }
+    return previous;
+  }
+
   private async _getRequiredDocuments(serviceInstanceId: string): Promise<any[]> {
     const serviceInstance = await this.prisma.serviceInstance.findUnique({
       where: { id: serviceInstanceId },
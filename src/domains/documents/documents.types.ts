@@ -1,4 +1,5 @@
 // Story 6.2: Document Management TypeScript Types
+import type { ExtractedDocumentFields } from './document-field-extractor.js';
 
 export interface DocumentRecord {
   id: string;
@@ -23,6 +24,10 @@ export interface DocumentRecord {
   gpsLng: number | null;
   archivedAt: Date | null;
   cityId: string;
+  lineageId: string;
+  version: number;
+  supersededById: string | null;
+  supersededAt: Date | null;
 }
 
 export interface AiVerificationResult {
@@ -35,6 +40,8 @@ export interface AiVerificationResult {
   rejection_reason?: string;
   keyword_matches?: string[];
   field_coverage?: number;
+  extracted_fields?: ExtractedDocumentFields | null;
+  provider?: string; // absent on results recorded before providers were pluggable (all Azure)
 }
 
 export interface DocumentChecklist {
@@ -55,6 +62,9 @@ export interface UploadedFile {
   download_url: string;
   file_size: number;
   uploaded_at: Date;
+  lineage_id: string;
+  version: number;
+  is_current: boolean; // false when a newer upload awaits verification or was rejected
 }
 
 export interface CreateDocumentInput {
@@ -70,6 +80,7 @@ export interface CreateDocumentInput {
   agentNotes?: string;
   gpsLat?: number;
   gpsLng?: number;
+  supersedesDocumentId?: string; // upload as a new version of this document
 }
 
 export interface OverrideVerificationInput {
@@ -80,3 +91,15 @@ export interface OverrideVerificationInput {
   overriddenBy: string;
   flagAiIncorrect?: boolean;
 }
+
+export interface CreateVaultShareInput {
+  documentIds: string[];
+  recipientName: string;
+  recipientEmail?: string;
+  recipientPhone?: string;
+  purpose?: 'bank' | 'buyer_lawyer' | 'family' | 'other';
+  permission: 'view' | 'download';
+  expiresInHours: number;
+  password?: string;
+  requireOtp: boolean; // code sent to the recipient's email, else phone
+}
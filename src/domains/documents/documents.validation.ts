@@ -22,6 +22,7 @@ export const createDocumentSchema = z.object({
   agent_notes: z.string().max(500).optional(),
   gps_lat: z.number().min(-90).max(90).optional(),
   gps_lng: z.number().min(-180).max(180).optional(),
+  supersedes_document_id: z.string().uuid().optional(),
 }).transform((data) => ({
   serviceInstanceId: data.service_instance_id,
   docType: data.doc_type,
@@ -33,6 +34,7 @@ export const createDocumentSchema = z.object({
   agentNotes: data.agent_notes,
   gpsLat: data.gps_lat,
   gpsLng: data.gps_lng,
+  supersedesDocumentId: data.supersedes_document_id,
 }));
 
 // Query documents by service instance
@@ -58,6 +60,15 @@ export const overrideSchema = z.object({
   { message: 'Rejection reason category is required when rejecting' },
 );
 
+// Story 6.4: Close a cross-document consistency task
+export const closeConsistencyTaskSchema = z.object({
+  action: z.enum(['resolve', 'dismiss']),
+  notes: z.string().max(500).optional(),
+}).refine(
+  (data) => data.action !== 'dismiss' || data.notes,
+  { message: 'Notes are required when dismissing mismatches' },
+);
+
 // Story 6.13: Audit query schema
 export const auditQuerySchema = z.object({
   user_id: z.string().uuid().optional(),
@@ -71,8 +82,40 @@ export const auditQuerySchema = z.object({
     'document_download',
     'document_delete',
     'document_archived',
+    'document_restore',
   ]).optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(50),
   format: z.enum(['json', 'csv']).default('json'),
 });
+
+// Vault share links
+export const createVaultShareSchema = z.object({
+  document_ids: z.array(z.string().uuid()).min(1).max(50),
+  recipient_name: z.string().trim().min(1).max(100),
+  recipient_email: z.string().email().optional(),
+  recipient_phone: z.string().regex(/^\+[1-9]\d{7,14}$/, 'Phone must be in E.164 format, e.g. +919800000000').optional(),
+  purpose: z.enum(['bank', 'buyer_lawyer', 'family', 'other']).optional(),
+  permission: z.enum(['view', 'download']).default('view'),
+  expires_in_hours: z.number().int().min(1).max(30 * 24).default(72),
+  password: z.string().min(8).max(128).optional(),
+  require_otp: z.boolean().default(false),
+}).refine(
+  (data) => !data.require_otp || data.recipient_email || data.recipient_phone,
+  { message: 'An OTP needs the recipient email or phone', path: ['require_otp'] },
+).transform((data) => ({
+  documentIds: [...new Set(data.document_ids)],
+  recipientName: data.recipient_name,
+  recipientEmail: data.recipient_email,
+  recipientPhone: data.recipient_phone,
+  purpose: data.purpose,
+  permission: data.permission,
+  expiresInHours: data.expires_in_hours,
+  password: data.password,
+  requireOtp: data.require_otp,
+}));
+
+export const unlockVaultShareSchema = z.object({
+  password: z.string().max(128).optional(),
+  otp: z.string().regex(/^\d{6}$/).optional(),
+});
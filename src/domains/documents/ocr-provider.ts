@@ -0,0 +1,114 @@
+// Story 6.4: OCR providers for AI document verification
+import { DocumentAnalysisClient, AzureKeyCredential } from '@azure/ai-form-recognizer';
+import { PrismaClient } from '@prisma/client';
+import { azureDocIntelligenceConfig } from '../../config/azure.js';
+import { env } from '../../shared/config/env';
+import { logger } from '../../shared/utils/logger';
+import { readTextLayer } from './text-layer.js';
+
+export interface OcrWord {
+  content: string;
+  confidence: number; // 0..1
+}
+
+export interface OcrResult {
+  /** Text lines in reading order, original case */
+  lines: string[];
+  words: OcrWord[];
+}
+
+export interface OcrProvider {
+  readonly name: string;
+  /**
+   * False when the engine only reads embedded text, so scans come back empty
+   * and a text layer that passes every check still goes to manual review
+   */
+  readonly readsImages: boolean;
+  read(file: Buffer): Promise<OcrResult>;
+}
+
+export type OcrProviderName = 'azure' | 'local';
+
+/**
+ * Azure Document Intelligence `prebuilt-read` model.
+ */
+export class AzureReadOcrProvider implements OcrProvider {
+  readonly name = 'azure-prebuilt-read';
+  readonly readsImages = true;
+  private client: DocumentAnalysisClient;
+
+  constructor() {
+    if (!azureDocIntelligenceConfig.isConfigured) {
+      throw new Error(
+        'Azure Document Intelligence is not configured. ' +
+        'Set AZURE_DOC_INTELLIGENCE_ENDPOINT and AZURE_DOC_INTELLIGENCE_KEY environment variables.',
+      );
+    }
+    this.client = new DocumentAnalysisClient(
+      azureDocIntelligenceConfig.endpoint,
+      new AzureKeyCredential(azureDocIntelligenceConfig.apiKey),
+    );
+  }
+
+  async read(file: Buffer): Promise<OcrResult> {
+    const poller = await this.client.beginAnalyzeDocument('prebuilt-read', file);
+    const analyzeResult = await poller.pollUntilDone();
+
+    const lines: string[] = [];
+    const words: OcrWord[] = [];
+    for (const page of analyzeResult.pages || []) {
+      for (const line of page.lines || []) lines.push(line.content);
+      for (const word of page.words || []) {
+        words.push({ content: word.content, confidence: word.confidence || 0 });
+      }
+    }
+    return { lines, words };
+  }
+}
+
+/**
+ * Offline engine: reads the text layer of digitally produced PDFs and
+ * plain-text uploads. No document leaves the server.
+ */
+export class LocalTextLayerOcrProvider implements OcrProvider {
+  readonly name = 'local-text-layer';
+  readonly readsImages = false;
+
+  async read(file: Buffer): Promise<OcrResult> {
+    const lines = readTextLayer(file);
+    return {
+      lines,
+      // Embedded text is exact as read, but unverified against the page image
+      words: lines.flatMap((line) => line.split(' ').map((content) => ({ content, confidence: 1 }))),
+    };
+  }
+}
+
+/**
+ * Provider by name, or per OCR_PROVIDER when no name is given ('auto'
+ * prefers Azure when it is configured).
+ */
+export function createOcrProvider(name?: OcrProviderName): OcrProvider {
+  const resolved =
+    name ?? (env.OCR_PROVIDER === 'auto' ? (azureDocIntelligenceConfig.isConfigured ? 'azure' : 'local') : env.OCR_PROVIDER);
+  return resolved === 'azure' ? new AzureReadOcrProvider() : new LocalTextLayerOcrProvider();
+}
+
+/**
+ * Provider for documents of a city. `configData.documentVerification.ocrProvider`
+ * overrides the deployment default, e.g. 'local' where data residency rules
+ * keep documents off Azure.
+ */
+export async function ocrProviderForCity(prisma: PrismaClient, cityId: string): Promise<OcrProvider> {
+  const city = await prisma.city.findUnique({ where: { id: cityId }, select: { configData: true } });
+  const configured = (city?.configData as { documentVerification?: { ocrProvider?: string } } | null)
+    ?.documentVerification?.ocrProvider;
+
+  if (configured === 'local') return createOcrProvider('local');
+  if (configured === 'azure') {
+    if (azureDocIntelligenceConfig.isConfigured) return createOcrProvider('azure');
+    logger.warn({ cityId }, '[ocr] City is set to Azure but it is not configured; using the local engine');
+    return createOcrProvider('local');
+  }
+  return createOcrProvider();
+}
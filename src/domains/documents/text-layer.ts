@@ -0,0 +1,267 @@
+// Story 6.4: Text layer reader for the local OCR engine
+// Reads the text a digitally produced PDF already carries (text-showing
+// operators in its content streams) and plain-text uploads. Nothing is
+// rendered or recognised: scans and photos yield no lines, and text set in
+// fonts without a single-byte encoding (CID fonts, common for Devanagari)
+// is not recoverable here.
+import { inflateSync } from 'zlib';
+
+type Operand = string | number | Operand[] | typeof ARRAY_START;
+
+const ARRAY_START = Symbol('array-start');
+
+// Kerning in a TJ array wider than this (thousandths of an em) is a word gap
+const TJ_SPACE_THRESHOLD = -200;
+
+// Uploads are untrusted: a few KB of Flate data can inflate to gigabytes.
+// Page content streams are far smaller than either cap.
+const MAX_STREAM_BYTES = 8 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 32 * 1024 * 1024;
+
+const NAME = /\/[^\s/[\]()<>{}%]*/y;
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)/y;
+const OPERATOR = /[A-Za-z'"*]+\d?|[\s\S]/y;
+const OCTAL = /[0-7]{1,3}/y;
+const INLINE_IMAGE_END = /\sEI(?=\s|$)/g;
+
+function matchAt(pattern: RegExp, text: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0] ?? null;
+}
+
+/**
+ * Text lines of a PDF's text layer or a UTF-8 text file, in content order.
+ * Returns no lines for anything else.
+ */
+export function readTextLayer(file: Buffer): string[] {
+  if (file.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return contentStreams(file).flatMap(textLines);
+  }
+  return plainTextLines(file);
+}
+
+function plainTextLines(file: Buffer): string[] {
+  if (file.subarray(0, 4096).includes(0)) return [];
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(file);
+    return text.split(/\r?\n/).map(tidy).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+function tidy(line: string): string {
+  return line.replace(/\p{Cc}/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Decoded streams that may hold page content. Images, object/xref streams,
+ * streams in filters other than Flate and streams that inflate past
+ * MAX_STREAM_BYTES are skipped; reading stops at MAX_TOTAL_BYTES.
+ */
+function contentStreams(file: Buffer): string[] {
+  const raw = file.toString('latin1');
+  const streams: string[] = [];
+  let budget = MAX_TOTAL_BYTES;
+  const keyword = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = keyword.exec(raw))) {
+    if (raw.slice(match.index - 3, match.index) === 'end') continue;
+    const objStart = raw.lastIndexOf(' obj', match.index);
+    const dict = raw.slice(objStart, match.index);
+    const start = match.index + match[0].length;
+
+    const directLength = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const end = directLength ? start + Number(directLength[1]) : raw.indexOf('endstream', start);
+    if (end < start) break;
+    keyword.lastIndex = end;
+
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm)/.test(dict)) continue;
+    const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+    if (filter && filter.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+
+    let data = file.subarray(start, end);
+    if (filter) {
+      try {
+        data = inflateSync(data, { maxOutputLength: Math.min(MAX_STREAM_BYTES, budget) });
+      } catch {
+        continue;
+      }
+    }
+    budget -= data.length;
+    if (budget <= 0) break;
+    const content = data.toString('latin1');
+    if (/\bBT\b/.test(content)) streams.push(content);
+  }
+  return streams;
+}
+
+function textLines(content: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let lastY: number | null = null;
+  let operands: Operand[] = [];
+
+  const newLine = () => {
+    const line = tidy(current);
+    if (line) lines.push(line);
+    current = '';
+  };
+  const show = (value: Operand | undefined) => {
+    if (typeof value === 'string') current += value;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (typeof item === 'string') current += item;
+        else if (typeof item === 'number' && item < TJ_SPACE_THRESHOLD) current += ' ';
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (ch === '(') {
+      const [value, next] = readLiteral(content, i);
+      operands.push(value);
+      i = next;
+    } else if (ch === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (marked-content properties) carry no page text
+      i = skipDictionary(content, i);
+      operands.push('');
+    } else if (ch === '<') {
+      const close = content.indexOf('>', i);
+      const end = close === -1 ? content.length : close;
+      operands.push(decodeHex(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (ch === '[') {
+      operands.push(ARRAY_START);
+      i++;
+    } else if (ch === ']') {
+      const startAt = operands.lastIndexOf(ARRAY_START);
+      const items = operands.splice(startAt === -1 ? 0 : startAt);
+      operands.push(items.slice(startAt === -1 ? 0 : 1));
+      i++;
+    } else if (ch === '/') {
+      const name = matchAt(NAME, content, i)!;
+      operands.push(name);
+      i += name.length;
+    } else if (/[-+.\d]/.test(ch)) {
+      const number = matchAt(NUMBER, content, i);
+      operands.push(number ? Number(number) : 0);
+      i += number ? number.length : 1;
+    } else {
+      const op = matchAt(OPERATOR, content, i)!;
+      i += op.length;
+
+      switch (op) {
+        case 'Tj':
+        case 'TJ':
+          show(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          show(operands[operands.length - 1]);
+          break;
+        case 'T*':
+          newLine();
+          break;
+        case 'Td':
+        case 'TD': {
+          const [tx, ty] = operands.slice(-2) as number[];
+          if (ty) newLine();
+          else if (tx) current += ' ';
+          break;
+        }
+        case 'Tm': {
+          const y = operands[operands.length - 1] as number;
+          if (lastY !== null && y !== lastY) newLine();
+          else current += ' ';
+          lastY = y;
+          break;
+        }
+        case 'BI': {
+          // Inline image data is binary; resume after its EI marker
+          INLINE_IMAGE_END.lastIndex = i;
+          const end = INLINE_IMAGE_END.exec(content);
+          i = end ? end.index + 3 : content.length;
+          break;
+        }
+      }
+      operands = [];
+    }
+  }
+  newLine();
+  return lines;
+}
+
+function readLiteral(content: string, start: number): [string, number] {
+  let depth = 0;
+  let value = '';
+  let i = start;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\') {
+      const next = content[i + 1];
+      const octal = matchAt(OCTAL, content, i + 1);
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+        continue;
+      }
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+      if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += content.slice(i + 1, i + 3) === '\r\n' ? 3 : 2;
+        continue;
+      }
+      value += escapes[next] ?? next;
+      i += 2;
+      continue;
+    }
+    if (ch === '(') {
+      if (depth > 0) value += ch;
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return [value, i + 1];
+      value += ch;
+    } else {
+      value += ch;
+    }
+    i++;
+  }
+  return [value, i];
+}
+
+function skipDictionary(content: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < content.length) {
+    if (content.startsWith('<<', i)) {
+      depth++;
+      i += 2;
+    } else if (content.startsWith('>>', i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else if (content[i] === '(') {
+      i = readLiteral(content, i)[1];
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+function decodeHex(hex: string): string {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  return Buffer.from(padded, 'hex').toString('latin1');
+}
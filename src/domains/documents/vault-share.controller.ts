@@ -0,0 +1,127 @@
+// Vault share links — owner routes under /api/v1/documents/shares and the
+// public recipient routes under /api/v1/shared/:token
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { VaultShareService, AccessContext } from './vault-share.service.js';
+import { createVaultShareSchema, unlockVaultShareSchema } from './documents.validation.js';
+
+// Recipients send the grant returned by /unlock in this header
+const GRANT_HEADER = 'x-share-access';
+
+function accessContext(req: Request): AccessContext {
+  return { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
+}
+
+export function vaultShareRoutes(service: VaultShareService): Router {
+  const router = Router();
+
+  // POST /api/v1/documents/shares — share documents from my vault
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = createVaultShareSchema.parse(req.body);
+      const share = await service.createShare((req as any).user!, input, accessContext(req));
+      res.status(201).json({ success: true, data: share });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/v1/documents/shares — my share links
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: await service.listShares((req as any).user!.id) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/v1/documents/shares/:id/revoke — the link stops working immediately
+  router.post('/:id/revoke', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      const share = await service.revokeShare((req as any).user!, id, accessContext(req));
+      res.json({ success: true, data: share });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/v1/documents/shares/:id/access-log — who opened what, and when
+  router.get('/:id/access-log', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      res.json({ success: true, data: await service.getAccessLog((req as any).user!.id, id) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Public routes for share recipients. Mounted before authentication: the
+ * link token, plus the grant from /unlock for protected links, is the credential.
+ */
+export function createSharedVaultController(service: VaultShareService): Router {
+  const router = Router();
+  const grantOf = (req: Request) => req.header(GRANT_HEADER) ?? undefined;
+
+  // GET /api/v1/shared/:token — who shared what, and what is needed to open it
+  router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: await service.describe(req.params.token, accessContext(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/v1/shared/:token/otp — send a one-time code to the recipient
+  router.post('/:token/otp', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: await service.requestOtp(req.params.token, accessContext(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/v1/shared/:token/unlock — exchange password/OTP for an access grant
+  router.post('/:token/unlock', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const credentials = unlockVaultShareSchema.parse(req.body ?? {});
+      res.json({ success: true, data: await service.unlock(req.params.token, credentials, accessContext(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/v1/shared/:token/documents
+  router.get('/:token/documents', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: await service.listDocuments(req.params.token, grantOf(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const sendDocument = (mode: 'view' | 'download') => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const documentId = z.string().uuid().parse(req.params.documentId);
+      const { file, filename } = await service.openDocument(req.params.token, grantOf(req), documentId, mode, accessContext(req));
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${mode === 'download' ? 'attachment' : 'inline'}; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(file);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // GET /api/v1/shared/:token/documents/:documentId — view in the browser
+  router.get('/:token/documents/:documentId', sendDocument('view'));
+
+  // GET /api/v1/shared/:token/documents/:documentId/download — download-permission links only
+  router.get('/:token/documents/:documentId/download', sendDocument('download'));
+
+  return router;
+}
@@ -0,0 +1,501 @@
+// Vault share links: a customer shares selected documents from their vault
+// with someone outside the platform (a bank, a buyer's lawyer, family) through
+// an expiring link, optionally behind a password and/or an OTP sent to the
+// recipient. Files are served watermarked with the recipient's name, every
+// access is written to the audit log, and revocation takes effect on the
+// next request.
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { PrismaClient, VaultShare } from '@prisma/client';
+import { getStorage } from 'firebase-admin/storage';
+import { CreateVaultShareInput } from './documents.types.js';
+import { watermarkFile } from './watermark.js';
+import { auditLog } from '../../middleware/audit-logger.js';
+import { env } from '../../shared/config/env';
+import { BusinessError } from '../../shared/errors/business-error';
+import { logger } from '../../shared/utils/logger';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const OTP_TTL_MS = 10 * 60 * 1000;
+const OTP_RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const GRANT_TTL_MS = 30 * 60 * 1000;
+
+export type VaultShareStatus = 'active' | 'expired' | 'revoked';
+
+/** Request details recorded with each audit entry. */
+export interface AccessContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ShareOwner {
+  id: string;
+  role: string;
+}
+
+export interface SharedFile {
+  file: Buffer;
+  filename: string;
+}
+
+async function downloadFromStorage(storagePath: string): Promise<Buffer> {
+  const [buffer] = await getStorage().bucket().file(storagePath).download();
+  return buffer;
+}
+
+let defaultGrantSecret: string | null = null;
+
+export function vaultShareGrantSecret(): string {
+  if (!defaultGrantSecret) {
+    defaultGrantSecret = env.VAULT_SHARE_SECRET;
+    if (!defaultGrantSecret) {
+      // Unlocked links then ask for the password/OTP again after a restart or
+      // on another instance, so only dev and test runs may fall back to one
+      if (env.NODE_ENV === 'production') {
+        throw new Error(
+          'VAULT_SHARE_SECRET is required in production. ' +
+          'Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
+        );
+      }
+      logger.warn('VAULT_SHARE_SECRET not set; using a per-process secret for vault share grants');
+      defaultGrantSecret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+  return defaultGrantSecret;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const given = Buffer.from(a);
+  const expected = Buffer.from(b);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 32);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [, salt, hash] = stored.split('$');
+  const given = await scrypt(password, Buffer.from(salt, 'base64'), 32);
+  return safeEqual(given.toString('base64'), hash);
+}
+
+function otpHash(shareId: string, code: string): string {
+  return sha256(`${shareId}:${code}`);
+}
+
+function maskDestination(share: VaultShare): string | null {
+  if (share.otpChannel === 'email' && share.recipientEmail) {
+    const [local, domain] = share.recipientEmail.split('@');
+    return `${local.slice(0, 2)}***@${domain}`;
+  }
+  if (share.otpChannel === 'sms' && share.recipientPhone) {
+    return `${'*'.repeat(Math.max(share.recipientPhone.length - 4, 0))}${share.recipientPhone.slice(-4)}`;
+  }
+  return null;
+}
+
+export function shareUrl(token: string): string {
+  return `${env.API_BASE_URL.replace(/\/$/, '')}/api/v1/shared/${token}`;
+}
+
+/** Audit log user id for actions taken through a share link. */
+export function recipientActor(shareId: string): string {
+  return `vault_share:${shareId}`;
+}
+
+export class VaultShareService {
+  constructor(
+    private prisma: PrismaClient,
+    private boss: any, // PgBoss instance - namespace import cannot be used as type
+    private readFile: (storagePath: string) => Promise<Buffer> = downloadFromStorage,
+    private secret: string = vaultShareGrantSecret(),
+  ) {}
+
+  // ================================================================
+  // Owner side
+  // ================================================================
+
+  /** Creates a share; the link is returned only here. */
+  async createShare(owner: ShareOwner, input: CreateVaultShareInput, context: AccessContext = {}) {
+    const documents = await this.prisma.document.findMany({
+      where: { id: { in: input.documentIds }, uploadedByUserId: owner.id, supersededAt: null },
+      select: { id: true, archivedAt: true },
+    });
+    const missing = input.documentIds.filter((id) => !documents.some((d) => d.id === id));
+    if (missing.length > 0) {
+      throw new BusinessError('VAULT_DOCUMENT_NOT_FOUND', 'Some documents are not in your vault', 404, { document_ids: missing });
+    }
+    const archived = documents.filter((d) => d.archivedAt).map((d) => d.id);
+    if (archived.length > 0) {
+      throw new BusinessError('DOCUMENT_ARCHIVED', 'Archived documents must be retrieved before sharing', 422, { document_ids: archived });
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const share = await this.prisma.vaultShare.create({
+      data: {
+        ownerId: owner.id,
+        tokenHash: sha256(token),
+        documentIds: input.documentIds,
+        recipientName: input.recipientName,
+        recipientEmail: input.recipientEmail ?? null,
+        recipientPhone: input.recipientPhone ?? null,
+        purpose: input.purpose ?? null,
+        permission: input.permission,
+        passwordHash: input.password ? await hashPassword(input.password) : null,
+        otpChannel: input.requireOtp ? (input.recipientEmail ? 'email' : 'sms') : null,
+        expiresAt: new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000),
+      },
+    });
+
+    await auditLog({
+      userId: owner.id,
+      userRole: owner.role,
+      action: 'vault_share_create',
+      resourceType: 'vault_share',
+      resourceId: share.id,
+      metadata: {
+        document_ids: share.documentIds,
+        recipient_name: share.recipientName,
+        permission: share.permission,
+        expires_at: share.expiresAt.toISOString(),
+        password: !!share.passwordHash,
+        otp_channel: share.otpChannel,
+      },
+      ...context,
+    });
+
+    return { ...this.toSummary(share), url: shareUrl(token) };
+  }
+
+  async listShares(ownerId: string) {
+    const shares = await this.prisma.vaultShare.findMany({
+      where: { ownerId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return shares.map((share) => this.toSummary(share));
+  }
+
+  async revokeShare(owner: ShareOwner, shareId: string, context: AccessContext = {}) {
+    const share = await this.getOwnedShare(owner.id, shareId);
+    if (share.revokedAt) return this.toSummary(share);
+
+    const revoked = await this.prisma.vaultShare.update({
+      where: { id: share.id },
+      data: { revokedAt: new Date() },
+    });
+    await auditLog({
+      userId: owner.id,
+      userRole: owner.role,
+      action: 'vault_share_revoke',
+      resourceType: 'vault_share',
+      resourceId: share.id,
+      metadata: { recipient_name: share.recipientName, access_count: share.accessCount },
+      ...context,
+    });
+    return this.toSummary(revoked);
+  }
+
+  /** Audit entries for the share: its creation and revocation, and everything done through the link. */
+  async getAccessLog(ownerId: string, shareId: string, limit = 200) {
+    const share = await this.getOwnedShare(ownerId, shareId);
+    const entries = await this.prisma.auditLog.findMany({
+      where: {
+        OR: [
+          { resourceType: 'vault_share', resourceId: share.id },
+          { userId: recipientActor(share.id) },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return entries.map((entry) => ({
+      action: entry.action,
+      document_id: entry.resourceType === 'document' ? entry.resourceId : null,
+      by_recipient: entry.userId === recipientActor(share.id),
+      ip_address: entry.ipAddress,
+      user_agent: entry.userAgent,
+      created_at: entry.createdAt,
+    }));
+  }
+
+  // ================================================================
+  // Recipient side (public, identified by the link token)
+  // ================================================================
+
+  async describe(token: string, context: AccessContext = {}) {
+    const share = await this.getActiveShare(token);
+    const owner = await this.prisma.user.findUnique({ where: { id: share.ownerId }, select: { displayName: true } });
+    await this.recordAccess(share, 'vault_share_open', share.id, {}, context);
+
+    return {
+      shared_by: owner?.displayName ?? null,
+      recipient_name: share.recipientName,
+      purpose: share.purpose,
+      permission: share.permission,
+      expires_at: share.expiresAt,
+      document_count: share.documentIds.length,
+      requires_password: !!share.passwordHash,
+      requires_otp: !!share.otpChannel,
+      otp_channel: share.otpChannel,
+      otp_destination: maskDestination(share),
+    };
+  }
+
+  /** Sends a one-time code to the recipient the owner named. */
+  async requestOtp(token: string, context: AccessContext = {}) {
+    const share = await this.getActiveShare(token);
+    this.assertNotLocked(share);
+    if (!share.otpChannel) {
+      throw new BusinessError('OTP_NOT_REQUIRED', 'This link does not use a one-time code', 422);
+    }
+    if (share.otpSentAt && Date.now() - share.otpSentAt.getTime() < OTP_RESEND_INTERVAL_MS) {
+      throw new BusinessError('OTP_RESEND_TOO_SOON', 'Please wait a minute before requesting another code', 429);
+    }
+
+    if (!this.boss) {
+      throw new BusinessError('OTP_UNAVAILABLE', 'Codes cannot be sent right now; please try again shortly', 503);
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + OTP_TTL_MS);
+    await this.prisma.vaultShare.update({
+      where: { id: share.id },
+      data: { otpHash: otpHash(share.id, code), otpSentAt: now, otpExpiresAt: expiresAt },
+    });
+
+    const body = `${code} is your code to open the documents shared with you on Pravesh. It expires in 10 minutes.`;
+    await this.boss.send('notification.send', {
+      userId: share.ownerId,
+      templateCode: 'vault_share_otp',
+      channel: share.otpChannel === 'email' ? 'email' : 'sms',
+      contextData: {
+        code,
+        _body: body,
+        _subject: 'Your code to open shared documents',
+        ...(share.otpChannel === 'email' ? { _email: share.recipientEmail! } : { _phone: share.recipientPhone! }),
+      },
+      priority: 'high',
+      eventType: 'otp',
+    });
+    await this.recordAccess(share, 'vault_share_otp_sent', share.id, { channel: share.otpChannel }, context);
+
+    return { channel: share.otpChannel, destination: maskDestination(share), expires_at: expiresAt };
+  }
+
+  /**
+   * Checks the password and/or OTP and returns a short-lived grant for the
+   * document endpoints. Repeated failures lock the link for a while.
+   */
+  async unlock(token: string, credentials: { password?: string; otp?: string }, context: AccessContext = {}) {
+    const share = await this.getActiveShare(token);
+    this.assertNotLocked(share);
+
+    const passwordOk = !share.passwordHash
+      || (!!credentials.password && await passwordMatches(credentials.password, share.passwordHash));
+    const otpOk = !share.otpChannel
+      || (!!credentials.otp && !!share.otpHash && !!share.otpExpiresAt && share.otpExpiresAt > new Date()
+        && safeEqual(otpHash(share.id, credentials.otp), share.otpHash));
+
+    if (!passwordOk || !otpOk) {
+      const failed = await this.prisma.vaultShare.update({
+        where: { id: share.id },
+        data: { failedAttempts: { increment: 1 } },
+      });
+      const locked = failed.failedAttempts >= MAX_FAILED_ATTEMPTS;
+      if (locked) {
+        await this.prisma.vaultShare.update({
+          where: { id: share.id },
+          data: { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MS), otpHash: null },
+        });
+      }
+      await this.recordAccess(share, 'vault_share_unlock_failed', share.id, {
+        password_ok: passwordOk,
+        otp_ok: otpOk,
+        locked,
+      }, context);
+      throw new BusinessError('VAULT_SHARE_UNLOCK_FAILED', 'The password or code is incorrect', 401);
+    }
+
+    // Codes are single-use
+    await this.prisma.vaultShare.update({
+      where: { id: share.id },
+      data: { failedAttempts: 0, lockedUntil: null, otpHash: null, otpExpiresAt: null },
+    });
+    await this.recordAccess(share, 'vault_share_unlock', share.id, {}, context);
+
+    const expiresAt = new Date(Math.min(Date.now() + GRANT_TTL_MS, share.expiresAt.getTime()));
+    return { access_token: this.signGrant(share.id, expiresAt), expires_at: expiresAt };
+  }
+
+  async listDocuments(token: string, grant: string | undefined) {
+    const share = await this.authorize(token, grant);
+    const documents = await this.prisma.document.findMany({
+      where: { id: { in: share.documentIds } },
+      orderBy: { uploadedAt: 'desc' },
+    });
+    return documents.map((doc) => ({
+      id: doc.id,
+      doc_type: doc.docType,
+      version: doc.version,
+      file_size: doc.fileSize,
+      uploaded_at: doc.uploadedAt,
+      verification_status: doc.verificationStatus,
+      can_download: share.permission === 'download',
+    }));
+  }
+
+  /** The document as a PDF watermarked with the recipient's name. */
+  async openDocument(
+    token: string,
+    grant: string | undefined,
+    documentId: string,
+    mode: 'view' | 'download',
+    context: AccessContext = {},
+  ): Promise<SharedFile> {
+    const share = await this.authorize(token, grant);
+    if (!share.documentIds.includes(documentId)) {
+      throw new BusinessError('DOCUMENT_NOT_FOUND', 'Document not found', 404);
+    }
+    if (mode === 'download' && share.permission !== 'download') {
+      throw new BusinessError('VAULT_SHARE_DOWNLOAD_NOT_ALLOWED', 'This link allows viewing only', 403);
+    }
+
+    const document = await this.prisma.document.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new BusinessError('DOCUMENT_NOT_FOUND', 'Document not found', 404);
+    }
+    if (document.archivedAt) {
+      throw new BusinessError('DOCUMENT_ARCHIVED', 'This document is archived; ask the owner to retrieve it', 409);
+    }
+
+    const file = await watermarkFile(await this.readFile(document.storagePath), {
+      title: `Shared with ${share.recipientName}`,
+      detail: `${new Date().toISOString().slice(0, 10)} | ref ${share.id.slice(0, 8)} | not valid for other purposes`,
+    });
+
+    await this.prisma.vaultShare.update({
+      where: { id: share.id },
+      data: { accessCount: { increment: 1 }, lastAccessedAt: new Date() },
+    });
+    await this.recordAccess(share, mode === 'download' ? 'document_download' : 'document_view', document.id, {
+      doc_type: document.docType,
+      version: document.version,
+    }, context, 'document', document.serviceInstanceId);
+
+    return { file, filename: `${document.docType.replace(/[^\w-]/g, '_')}-v${document.version}.pdf` };
+  }
+
+  // ================================================================
+  // Internals
+  // ================================================================
+
+  private async getOwnedShare(ownerId: string, shareId: string): Promise<VaultShare> {
+    const share = await this.prisma.vaultShare.findUnique({ where: { id: shareId } });
+    if (!share || share.ownerId !== ownerId) {
+      throw new BusinessError('VAULT_SHARE_NOT_FOUND', 'Share not found', 404);
+    }
+    return share;
+  }
+
+  private async getActiveShare(token: string): Promise<VaultShare> {
+    const share = await this.prisma.vaultShare.findUnique({ where: { tokenHash: sha256(token) } });
+    if (!share) {
+      throw new BusinessError('VAULT_SHARE_NOT_FOUND', 'This link is not valid', 404);
+    }
+    const status = this.status(share);
+    if (status === 'revoked') {
+      throw new BusinessError('VAULT_SHARE_REVOKED', 'This link has been revoked by the owner', 410);
+    }
+    if (status === 'expired') {
+      throw new BusinessError('VAULT_SHARE_EXPIRED', 'This link has expired', 410);
+    }
+    return share;
+  }
+
+  private assertNotLocked(share: VaultShare): void {
+    if (share.lockedUntil && share.lockedUntil > new Date()) {
+      throw new BusinessError('VAULT_SHARE_LOCKED', 'Too many incorrect attempts; try again later', 429, {
+        locked_until: share.lockedUntil,
+      });
+    }
+  }
+
+  /** Re-reads the share on every request, so revocation and expiry apply at once. */
+  private async authorize(token: string, grant: string | undefined): Promise<VaultShare> {
+    const share = await this.getActiveShare(token);
+    if ((share.passwordHash || share.otpChannel) && !(grant && this.grantValid(grant, share.id))) {
+      throw new BusinessError('VAULT_SHARE_UNLOCK_REQUIRED', 'Unlock this link with its password or code first', 401);
+    }
+    return share;
+  }
+
+  private signGrant(shareId: string, expiresAt: Date): string {
+    const payload = `${shareId}.${expiresAt.getTime()}`;
+    const mac = crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+    return `${payload}.${mac}`;
+  }
+
+  private grantValid(grant: string, shareId: string): boolean {
+    const [id, expires, mac] = grant.split('.');
+    if (id !== shareId || !mac || Number(expires) < Date.now()) return false;
+    const expected = crypto.createHmac('sha256', this.secret).update(`${id}.${expires}`).digest('base64url');
+    return safeEqual(mac, expected);
+  }
+
+  private status(share: VaultShare): VaultShareStatus {
+    if (share.revokedAt) return 'revoked';
+    return share.expiresAt <= new Date() ? 'expired' : 'active';
+  }
+
+  private async recordAccess(
+    share: VaultShare,
+    action: string,
+    resourceId: string,
+    metadata: Record<string, unknown>,
+    context: AccessContext,
+    resourceType = 'vault_share',
+    serviceInstanceId?: string,
+  ): Promise<void> {
+    await auditLog({
+      userId: recipientActor(share.id),
+      userRole: 'share_recipient',
+      action,
+      resourceType,
+      resourceId,
+      serviceInstanceId,
+      metadata: { share_id: share.id, owner_id: share.ownerId, recipient_name: share.recipientName, ...metadata },
+      ...context,
+    });
+  }
+
+  private toSummary(share: VaultShare) {
+    return {
+      id: share.id,
+      document_ids: share.documentIds,
+      recipient_name: share.recipientName,
+      recipient_email: share.recipientEmail,
+      recipient_phone: share.recipientPhone,
+      purpose: share.purpose,
+      permission: share.permission,
+      password_protected: !!share.passwordHash,
+      otp_channel: share.otpChannel,
+      status: this.status(share),
+      expires_at: share.expiresAt,
+      revoked_at: share.revokedAt,
+      access_count: share.accessCount,
+      last_accessed_at: share.lastAccessedAt,
+      created_at: share.createdAt,
+    };
+  }
+}
@@ -1,6 +1,15 @@
 // Story 6.4: AI Verification Accuracy Metrics Service
 import { PrismaClient } from '@prisma/client';
 
+// Results recorded before OCR providers were pluggable were all Azure
+const LEGACY_PROVIDER = 'azure-prebuilt-read';
+
+interface AccuracyBucket {
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
 export class VerificationMetricsService {
   constructor(private prisma: PrismaClient) {}
 
@@ -28,19 +37,19 @@ export class VerificationMetricsService {
     const overridden = documents.filter((d) => d.verificationOverriddenBy).length;
     const accuracy = total > 0 ? ((total - overridden) / total) * 100 : 0;
 
-    // Per-type breakdown
-    const byType: Record<string, { total: number; correct: number; accuracy: number }> = {};
+    // Per-type and per-OCR-provider breakdowns
+    const byType: Record<string, AccuracyBucket> = {};
+    const byProvider: Record<string, AccuracyBucket> = {};
     for (const doc of documents) {
-      const type = doc.docType;
-      if (!byType[type]) byType[type] = { total: 0, correct: 0, accuracy: 0 };
-      byType[type].total++;
-      if (!doc.verificationOverriddenBy) byType[type].correct++;
+      const provider = (doc.aiVerificationResult as { provider?: string } | null)?.provider ?? LEGACY_PROVIDER;
+      this.count(byType, doc.docType, !doc.verificationOverriddenBy);
+      this.count(byProvider, provider, !doc.verificationOverriddenBy);
     }
 
-    // Calculate per-type accuracy
-    for (const type of Object.keys(byType)) {
-      byType[type].accuracy = byType[type].total > 0
-        ? Math.round((byType[type].correct / byType[type].total) * 10000) / 100
+    // Calculate per-bucket accuracy
+    for (const bucket of [...Object.values(byType), ...Object.values(byProvider)]) {
+      bucket.accuracy = bucket.total > 0
+        ? Math.round((bucket.correct / bucket.total) * 10000) / 100
         : 0;
     }
 
@@ -49,6 +58,13 @@ export class VerificationMetricsService {
       total_verified: total,
       total_overridden: overridden,
       by_document_type: byType,
+      by_provider: byProvider,
     };
   }
+
+  private count(buckets: Record<string, AccuracyBucket>, key: string, correct: boolean) {
+    if (!buckets[key]) buckets[key] = { total: 0, correct: 0, accuracy: 0 };
+    buckets[key].total++;
+    if (correct) buckets[key].correct++;
+  }
 }
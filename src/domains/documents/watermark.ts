@@ -0,0 +1,726 @@
+// Recipient watermarks for documents opened through vault share links.
+// PDFs get the watermark drawn into every page's content and are written out
+// again in full, so no unmarked revision survives in the file to be cut back
+// to; JPEG and PNG photos are placed on a PDF page with the watermark drawn
+// over them. Everything else, and encrypted or unreadable PDFs, is refused
+// rather than served unmarked.
+import { inflateSync } from 'zlib';
+import PDFDocument from 'pdfkit';
+import { BusinessError } from '../../shared/errors/business-error';
+
+export interface Watermark {
+  /** Drawn large across each page, e.g. "Shared with Asha Patil" */
+  title: string;
+  /** Small print along the bottom edge: date, share reference */
+  detail: string;
+}
+
+export type WatermarkableType = 'pdf' | 'jpeg' | 'png';
+
+const FAINT_OPACITY = 0.18;
+const FOOTER_OPACITY = 0.7;
+// Average Helvetica-Bold advance width, in ems, for sizing the diagonal line
+const AVERAGE_CHAR_WIDTH = 0.62;
+// Longest side of the page an image is placed on, in points
+const IMAGE_PAGE_MAX = 842;
+// Decoded size of one xref or object stream, and of all of them in a file.
+// Uploads are untrusted, and a few KB of Flate data can inflate to gigabytes.
+const MAX_STREAM_BYTES = 32 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 128 * 1024 * 1024;
+
+export function detectFileType(file: Buffer): WatermarkableType | null {
+  if (file.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (file[0] === 0xff && file[1] === 0xd8 && file[2] === 0xff) return 'jpeg';
+  if (file.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  return null;
+}
+
+/** Returns the file as a watermarked PDF. */
+export async function watermarkFile(file: Buffer, watermark: Watermark): Promise<Buffer> {
+  const type = detectFileType(file);
+  if (!type) {
+    throw new BusinessError('WATERMARK_UNSUPPORTED', 'Only PDF, JPEG and PNG documents can be shared', 422);
+  }
+  const marks = { title: printable(watermark.title), detail: printable(watermark.detail) };
+  return type === 'pdf' ? watermarkPdf(file, marks) : watermarkImage(file, marks);
+}
+
+/** Standard-font text is single-byte: drop accents and replace other characters. */
+function printable(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+}
+
+interface DiagonalLayout {
+  size: number;
+  cos: number;
+  sin: number;
+  /** Start of the baseline, PDF coordinates (origin bottom-left) */
+  x: number;
+  y: number;
+  width: number;
+}
+
+function diagonalLayout(text: string, width: number, height: number, measure?: (size: number) => number): DiagonalLayout {
+  const diagonal = Math.hypot(width, height);
+  const size = Math.max(12, Math.min(72, (diagonal * 0.75) / (AVERAGE_CHAR_WIDTH * Math.max(text.length, 1))));
+  const textWidth = measure ? measure(size) : AVERAGE_CHAR_WIDTH * size * text.length;
+  const cos = width / diagonal;
+  const sin = height / diagonal;
+  return {
+    size,
+    cos,
+    sin,
+    x: width / 2 - (textWidth / 2) * cos + 0.35 * size * sin,
+    y: height / 2 - (textWidth / 2) * sin - 0.35 * size * cos,
+    width: textWidth,
+  };
+}
+
+// ------------------------------------------------------------------
+// Images
+// ------------------------------------------------------------------
+
+function watermarkImage(file: Buffer, watermark: Watermark): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ autoFirstPage: false, margin: 0 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      const image = doc.openImage(file);
+      const scale = Math.min(1, IMAGE_PAGE_MAX / Math.max(image.width, image.height));
+      const width = image.width * scale;
+      const height = image.height * scale;
+      doc.addPage({ size: [width, height], margin: 0 });
+      doc.image(image, 0, 0, { width, height });
+
+      doc.font('Helvetica-Bold');
+      const layout = diagonalLayout(watermark.title, width, height, (size) => doc.fontSize(size).widthOfString(watermark.title));
+      // pdfkit's y axis points down, so the baseline start and angle are mirrored
+      doc.save()
+        .fillOpacity(FAINT_OPACITY).fillColor('#b31a1a')
+        .rotate(-Math.atan2(layout.sin, layout.cos) * (180 / Math.PI), { origin: [layout.x, height - layout.y] })
+        .fontSize(layout.size)
+        .text(watermark.title, layout.x, height - layout.y - layout.size * 0.8, { lineBreak: false })
+        .restore();
+      doc.save()
+        .fillOpacity(FOOTER_OPACITY).fillColor('#4d4d4d')
+        .font('Helvetica').fontSize(8)
+        .text(`${watermark.title} | ${watermark.detail}`, 12, height - 20, { lineBreak: false })
+        .restore();
+    } catch {
+      reject(new BusinessError('WATERMARK_UNSUPPORTED', 'This image could not be watermarked', 422));
+      return;
+    }
+    doc.end();
+  });
+}
+
+// ------------------------------------------------------------------
+// PDFs
+// ------------------------------------------------------------------
+
+interface PdfName { type: 'name'; name: string }
+interface PdfRef { type: 'ref'; num: number; gen: number }
+interface PdfString { type: 'string' }
+interface PdfArray { type: 'array'; items: PdfValue[]; start: number; end: number }
+interface PdfDict { type: 'dict'; entries: Map<string, PdfEntry>; start: number; end: number }
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfArray | PdfDict;
+
+/** A dictionary entry; the span covers the key and its value. */
+interface PdfEntry { value: PdfValue; start: number; end: number }
+
+/**
+ * A parsed object and the text it was parsed from (the file, or a decoded
+ * object stream); start and end delimit the value in that text.
+ */
+interface PdfObject { value: PdfValue; src: string; gen: number; start: number; end: number; stream?: Buffer }
+
+/** A value and the text it was parsed from. */
+interface PdfSourced { value: PdfValue; src: string }
+
+type XrefLocation = { offset: number } | { stream: number; index: number } | null;
+
+interface PdfPage {
+  num: number;
+  gen: number;
+  object: PdfObject & { value: PdfDict };
+  box: [number, number, number, number];
+  /** Own or inherited from the page tree */
+  resources: PdfSourced | null;
+}
+
+class PdfSyntaxError extends Error {}
+
+const WHITESPACE = '\0\t\n\f\r ';
+const NAME = /\/[^\0\t\n\f\r ()<>[\]{}/%]*/y;
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)/y;
+const REF_TAIL = /[\0\t\n\f\r ]+(\d+)[\0\t\n\f\r ]+R(?=[\0\t\n\f\r ()<>[\]{}/%]|$)/y;
+const KEYWORD = /true|false|null/y;
+const OBJECT_HEADER = /(\d+)[\0\t\n\f\r ]+(\d+)[\0\t\n\f\r ]+obj\b/y;
+const XREF_SUBSECTION = /(\d+)[\0\t\n\f\r ]+(\d+)/y;
+const XREF_ENTRY = /(\d{10})[ ]+(\d{5})[ ]+([nf])/y;
+
+function sticky(pattern: RegExp, src: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(src);
+}
+
+function skipSpace(src: string, index: number): number {
+  let i = index;
+  while (i < src.length) {
+    if (src[i] === '%') {
+      while (i < src.length && src[i] !== '\n' && src[i] !== '\r') i++;
+    } else if (WHITESPACE.includes(src[i])) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function parseValue(src: string, index: number): [PdfValue, number] {
+  let i = skipSpace(src, index);
+  if (i >= src.length) throw new PdfSyntaxError('Unexpected end of data');
+  const c = src[i];
+
+  if (src.startsWith('<<', i)) {
+    const start = i;
+    const entries = new Map<string, PdfEntry>();
+    i += 2;
+    for (;;) {
+      i = skipSpace(src, i);
+      if (src.startsWith('>>', i)) return [{ type: 'dict', entries, start, end: i + 2 }, i + 2];
+      const [key, afterKey] = parseValue(src, i);
+      if (typeof key !== 'object' || key?.type !== 'name') throw new PdfSyntaxError('Dictionary key is not a name');
+      const [value, end] = parseValue(src, afterKey);
+      entries.set(key.name, { value, start: i, end });
+      i = end;
+    }
+  }
+  if (c === '[') {
+    const start = i;
+    const items: PdfValue[] = [];
+    i++;
+    for (;;) {
+      i = skipSpace(src, i);
+      if (src[i] === ']') return [{ type: 'array', items, start, end: i + 1 }, i + 1];
+      const [item, end] = parseValue(src, i);
+      items.push(item);
+      i = end;
+    }
+  }
+  if (c === '(') {
+    let depth = 1;
+    i++;
+    while (depth > 0) {
+      if (i >= src.length) throw new PdfSyntaxError('Unterminated string');
+      if (src[i] === '\\') i++;
+      else if (src[i] === '(') depth++;
+      else if (src[i] === ')') depth--;
+      i++;
+    }
+    return [{ type: 'string' }, i];
+  }
+  if (c === '<') {
+    const end = src.indexOf('>', i);
+    if (end < 0) throw new PdfSyntaxError('Unterminated hex string');
+    return [{ type: 'string' }, end + 1];
+  }
+  if (c === '/') {
+    const name = sticky(NAME, src, i)![0];
+    return [{ type: 'name', name: name.slice(1) }, i + name.length];
+  }
+
+  const number = sticky(NUMBER, src, i);
+  if (number) {
+    const end = i + number[0].length;
+    const ref = /^\d+$/.test(number[0]) ? sticky(REF_TAIL, src, end) : null;
+    if (ref) return [{ type: 'ref', num: Number(number[0]), gen: Number(ref[1]) }, end + ref[0].length];
+    return [Number(number[0]), end];
+  }
+  const keyword = sticky(KEYWORD, src, i);
+  if (keyword) {
+    return [keyword[0] === 'null' ? null : keyword[0] === 'true', i + keyword[0].length];
+  }
+  throw new PdfSyntaxError(`Unexpected token at ${i}`);
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === 'object' && value?.type === 'ref';
+}
+
+function asDict(value: PdfValue): PdfDict {
+  if (typeof value !== 'object' || value?.type !== 'dict') throw new PdfSyntaxError('Expected a dictionary');
+  return value;
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return typeof value === 'object' && value?.type === 'name' ? value.name : null;
+}
+
+/** Reverses PNG row predictors (Predictor >= 10) on decoded stream data. */
+function unpredict(data: Buffer, columns: number, bytesPerPixel: number): Buffer {
+  const rowLength = columns * bytesPerPixel;
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+  for (let r = 0; r < rows; r++) {
+    const filter = data[r * (rowLength + 1)];
+    const row = r * rowLength;
+    for (let x = 0; x < rowLength; x++) {
+      const raw = data[r * (rowLength + 1) + 1 + x];
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = r > 0 ? out[row - rowLength + x] : 0;
+      const upLeft = r > 0 && x >= bytesPerPixel ? out[row - rowLength + x - bytesPerPixel] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = Math.floor((left + up) / 2);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[row + x] = (raw + predicted) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Just enough of a PDF reader to find the pages: the cross-reference chain
+ * (tables and streams), object streams and the page tree.
+ */
+class PdfReader {
+  private readonly src: string;
+  private readonly xref = new Map<number, XrefLocation>();
+  private readonly objectStreams = new Map<number, { src: string; offsets: number[] }>();
+  private decodeBudget = MAX_TOTAL_BYTES;
+  readonly trailer: PdfDict;
+  readonly startxref: number;
+  readonly xrefIsStream: boolean;
+
+  constructor(private readonly file: Buffer) {
+    this.src = file.toString('latin1');
+    const marker = this.src.lastIndexOf('startxref');
+    const offset = marker < 0 ? null : sticky(/startxref[\0\t\n\f\r ]+(\d+)/y, this.src, marker);
+    if (!offset) throw new PdfSyntaxError('No startxref');
+    this.startxref = Number(offset[1]);
+    this.xrefIsStream = !this.src.startsWith('xref', skipSpace(this.src, this.startxref));
+    this.trailer = this.readXrefChain(this.startxref);
+  }
+
+  get size(): number {
+    const size = this.trailer.entries.get('Size')?.value;
+    return Math.max(typeof size === 'number' ? size : 0, ...[...this.xref.keys()].map((n) => n + 1));
+  }
+
+  /** Raw text of a trailer entry (key and value), for carrying it into the rewrite. */
+  trailerEntry(key: string): string | null {
+    const entry = this.trailer.entries.get(key);
+    return entry ? this.src.slice(entry.start, entry.end) : null;
+  }
+
+  pages(): PdfPage[] {
+    const catalog = asDict(this.resolve(this.trailer.entries.get('Root')?.value ?? null).value);
+    const pages: PdfPage[] = [];
+    const visited = new Set<number>();
+
+    const visit = (
+      ref: PdfValue | undefined,
+      mediaBox: PdfValue | undefined,
+      cropBox: PdfValue | undefined,
+      inherited: PdfSourced | null,
+    ) => {
+      if (!isRef(ref) || visited.has(ref.num) || visited.size > 100_000) throw new PdfSyntaxError('Bad page tree');
+      visited.add(ref.num);
+      const object = this.object(ref.num);
+      const node = asDict(object.value);
+      const media = node.entries.get('MediaBox')?.value ?? mediaBox;
+      const crop = node.entries.get('CropBox')?.value ?? cropBox;
+      const ownResources = node.entries.get('Resources');
+      const resources = ownResources ? { value: ownResources.value, src: object.src } : inherited;
+      const kids = node.entries.get('Kids');
+
+      if (nameOf(node.entries.get('Type')?.value) === 'Pages' || (kids && nameOf(node.entries.get('Type')?.value) !== 'Page')) {
+        const list = this.resolve(kids?.value ?? null).value;
+        if (typeof list !== 'object' || list?.type !== 'array') throw new PdfSyntaxError('Pages node without Kids');
+        for (const kid of list.items) visit(kid, media, crop, resources);
+        return;
+      }
+      pages.push({
+        num: ref.num,
+        gen: ref.gen,
+        object: object as PdfPage['object'],
+        box: this.box(crop ?? media),
+        resources,
+      });
+    };
+
+    visit(catalog.entries.get('Pages')?.value, undefined, undefined, null);
+    return pages;
+  }
+
+  /** Numbers of the objects in use, newest revision of each. */
+  objectNumbers(): number[] {
+    return [...this.xref.entries()].filter(([, location]) => location !== null).map(([num]) => num).sort((a, b) => a - b);
+  }
+
+  /** Follows references; returns the value and the text it was parsed from. */
+  resolve(value: PdfValue, src = this.src): PdfSourced {
+    let current = { value, src };
+    for (let depth = 0; isRef(current.value); depth++) {
+      if (depth > 32) throw new PdfSyntaxError('Reference loop');
+      const object = this.object(current.value.num);
+      current = { value: object.value, src: object.src };
+    }
+    return current;
+  }
+
+  object(num: number): PdfObject {
+    const location = this.xref.get(num);
+    if (!location) return { value: null, src: this.src, gen: 0, start: 0, end: 0 };
+    if ('offset' in location) return this.objectAt(location.offset, num);
+
+    let objectStream = this.objectStreams.get(location.stream);
+    if (!objectStream) {
+      const container = this.object(location.stream);
+      const dict = asDict(container.value);
+      const src = this.decode(dict, container.stream!).toString('latin1');
+      const first = dict.entries.get('First')?.value;
+      if (typeof first !== 'number') throw new PdfSyntaxError('Object stream without First');
+      const header = src.slice(0, first).trim().split(/[\0\t\n\f\r ]+/).map(Number);
+      const offsets = header.filter((_, i) => i % 2 === 1).map((offset) => first + offset);
+      objectStream = { src, offsets };
+      this.objectStreams.set(location.stream, objectStream);
+    }
+    const offset = objectStream.offsets[location.index];
+    if (offset === undefined) throw new PdfSyntaxError('Object stream index out of range');
+    const start = skipSpace(objectStream.src, offset);
+    const [value, end] = parseValue(objectStream.src, start);
+    return { value, src: objectStream.src, gen: 0, start, end };
+  }
+
+  private objectAt(offset: number, expectedNum?: number): PdfObject {
+    const start = skipSpace(this.src, offset);
+    const header = sticky(OBJECT_HEADER, this.src, start);
+    if (!header || (expectedNum !== undefined && Number(header[1]) !== expectedNum)) {
+      throw new PdfSyntaxError(`No object ${expectedNum ?? ''} at ${offset}`);
+    }
+    const valueStart = skipSpace(this.src, start + header[0].length);
+    const [value, end] = parseValue(this.src, valueStart);
+    const object = { value, src: this.src, gen: Number(header[2]), start: valueStart, end };
+    const after = skipSpace(this.src, end);
+    if (!this.src.startsWith('stream', after)) return object;
+
+    let dataStart = after + 'stream'.length;
+    if (this.src[dataStart] === '\r') dataStart++;
+    if (this.src[dataStart] === '\n') dataStart++;
+    const length = this.resolve(asDict(value).entries.get('Length')?.value ?? null).value;
+    if (typeof length !== 'number') throw new PdfSyntaxError('Stream without Length');
+    return { ...object, stream: this.file.subarray(dataStart, dataStart + length) };
+  }
+
+  private decode(dict: PdfDict, data: Buffer): Buffer {
+    const filter = this.resolve(dict.entries.get('Filter')?.value ?? null).value;
+    const filters = typeof filter === 'object' && filter?.type === 'array' ? filter.items.map(nameOf) : [nameOf(filter)].filter(Boolean);
+    if (filters.length === 0) return data;
+    if (filters.length > 1 || filters[0] !== 'FlateDecode') throw new PdfSyntaxError(`Unsupported filter ${filters.join(',')}`);
+
+    let decoded: Buffer;
+    try {
+      decoded = inflateSync(data, { maxOutputLength: Math.min(MAX_STREAM_BYTES, this.decodeBudget) });
+    } catch {
+      throw new PdfSyntaxError('Stream is corrupt or too large to decode');
+    }
+    this.decodeBudget -= decoded.length;
+    const parmsValue = this.resolve(dict.entries.get('DecodeParms')?.value ?? null).value;
+    const parms = typeof parmsValue === 'object' && parmsValue?.type === 'array' ? parmsValue.items[0] : parmsValue;
+    if (typeof parms === 'object' && parms?.type === 'dict') {
+      const number = (key: string, fallback: number) => {
+        const v = parms.entries.get(key)?.value;
+        return typeof v === 'number' ? v : fallback;
+      };
+      const predictor = number('Predictor', 1);
+      if (predictor >= 10) {
+        const bytesPerPixel = Math.ceil((number('Colors', 1) * number('BitsPerComponent', 8)) / 8);
+        decoded = unpredict(decoded, number('Columns', 1), bytesPerPixel);
+      } else if (predictor !== 1) {
+        throw new PdfSyntaxError(`Unsupported predictor ${predictor}`);
+      }
+    }
+    return decoded;
+  }
+
+  private readXrefChain(startxref: number): PdfDict {
+    let newest: PdfDict | null = null;
+    const seen = new Set<number>();
+    let offset: number | null = startxref;
+
+    while (offset !== null && !seen.has(offset)) {
+      seen.add(offset);
+      const at = skipSpace(this.src, offset);
+      const trailer = this.src.startsWith('xref', at) ? this.readXrefTable(at + 4) : this.readXrefStream(at);
+      newest ??= trailer;
+
+      // Hybrid files list objects in compressed streams separately
+      const hybrid = trailer.entries.get('XRefStm')?.value;
+      if (typeof hybrid === 'number' && !seen.has(hybrid)) {
+        seen.add(hybrid);
+        this.readXrefStream(hybrid);
+      }
+      const prev = trailer.entries.get('Prev')?.value;
+      offset = typeof prev === 'number' ? prev : null;
+    }
+    return newest!;
+  }
+
+  /** Newer sections are read first, so the first location recorded wins. */
+  private record(num: number, location: XrefLocation): void {
+    if (!this.xref.has(num)) this.xref.set(num, location);
+  }
+
+  private readXrefTable(index: number): PdfDict {
+    let i = index;
+    for (;;) {
+      i = skipSpace(this.src, i);
+      if (this.src.startsWith('trailer', i)) return asDict(parseValue(this.src, i + 'trailer'.length)[0]);
+      const subsection = sticky(XREF_SUBSECTION, this.src, i);
+      if (!subsection) throw new PdfSyntaxError('Bad xref table');
+      i += subsection[0].length;
+      const first = Number(subsection[1]);
+      for (let k = 0; k < Number(subsection[2]); k++) {
+        i = skipSpace(this.src, i);
+        const entry = sticky(XREF_ENTRY, this.src, i);
+        if (!entry) throw new PdfSyntaxError('Bad xref entry');
+        i += entry[0].length;
+        this.record(first + k, entry[3] === 'n' ? { offset: Number(entry[1]) } : null);
+      }
+    }
+  }
+
+  private readXrefStream(offset: number): PdfDict {
+    const object = this.objectAt(offset);
+    const dict = asDict(object.value);
+    if (nameOf(dict.entries.get('Type')?.value) !== 'XRef' || !object.stream) throw new PdfSyntaxError('Bad xref stream');
+
+    const numbers = (key: string): number[] | null => {
+      const v = dict.entries.get(key)?.value;
+      return typeof v === 'object' && v?.type === 'array' ? v.items.map(Number) : null;
+    };
+    const widths = numbers('W');
+    const size = dict.entries.get('Size')?.value;
+    if (!widths || widths.length !== 3 || typeof size !== 'number') throw new PdfSyntaxError('Bad xref stream');
+    const index = numbers('Index') ?? [0, size];
+    const data = this.decode(dict, object.stream);
+
+    const field = (at: number, width: number): number => {
+      let v = 0;
+      for (let b = 0; b < width; b++) v = v * 256 + data[at + b];
+      return v;
+    };
+    const entryLength = widths[0] + widths[1] + widths[2];
+    let at = 0;
+    for (let s = 0; s < index.length; s += 2) {
+      for (let k = 0; k < index[s + 1]; k++, at += entryLength) {
+        if (at + entryLength > data.length) throw new PdfSyntaxError('Truncated xref stream');
+        const type = widths[0] === 0 ? 1 : field(at, widths[0]);
+        const second = field(at + widths[0], widths[1]);
+        const third = field(at + widths[0] + widths[1], widths[2]);
+        const num = index[s] + k;
+        if (type === 1) this.record(num, { offset: second });
+        else if (type === 2) this.record(num, { stream: second, index: third });
+        else this.record(num, null);
+      }
+    }
+    return dict;
+  }
+
+  private box(value: PdfValue | undefined): [number, number, number, number] {
+    const array = this.resolve(value ?? null).value;
+    const items = typeof array === 'object' && array?.type === 'array'
+      ? array.items.map((item) => this.resolve(item).value)
+      : [];
+    if (items.length !== 4 || items.some((v) => typeof v !== 'number')) return [0, 0, 612, 792];
+    const [a, b, c, d] = items as number[];
+    return [Math.min(a, c), Math.min(b, d), Math.max(a, c), Math.max(b, d)];
+  }
+}
+
+function pdfString(text: string): string {
+  return `(${text.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+function n(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function appearanceStream(watermark: Watermark, width: number, height: number): string {
+  const layout = diagonalLayout(watermark.title, width, height);
+  return [
+    `q /WmFaint gs 0.7 0.1 0.1 rg BT /WmF ${n(layout.size)} Tf`,
+    `${n(layout.cos)} ${n(layout.sin)} ${n(-layout.sin)} ${n(layout.cos)} ${n(layout.x)} ${n(layout.y)} Tm`,
+    `${pdfString(watermark.title)} Tj ET Q`,
+    'q /WmSolid gs 0.3 0.3 0.3 rg BT /WmF 8 Tf 12 12 Td',
+    `${pdfString(`${watermark.title} | ${watermark.detail}`)} Tj ET Q`,
+  ].join('\n');
+}
+
+/**
+ * Dictionary text with some entries replaced or added (values are raw PDF
+ * text); the other entries are copied as they were written.
+ */
+function dictWith(src: string, dict: PdfDict, replacements: Record<string, string>): string {
+  const entries = [...dict.entries].map(([key, entry]) =>
+    key in replacements ? `/${key} ${replacements[key]}` : src.slice(entry.start, entry.end),
+  );
+  const added = Object.keys(replacements).filter((key) => !dict.entries.has(key));
+  return `<< ${[...entries, ...added.map((key) => `/${key} ${replacements[key]}`)].join(' ')} >>`;
+}
+
+/** The page's resources with the watermark form added to its XObjects. */
+function resourcesWith(reader: PdfReader, resources: PdfSourced | null, name: string, form: number): string {
+  const entry = `/${name} ${form} 0 R`;
+  const resolved = resources ? reader.resolve(resources.value, resources.src) : null;
+  if (typeof resolved?.value !== 'object' || resolved.value?.type !== 'dict') return `<< /XObject << ${entry} >> >>`;
+
+  const { value: dict, src } = resolved;
+  const existing = dict.entries.get('XObject');
+  const xobjects = existing ? reader.resolve(existing.value, src) : null;
+  const merged = typeof xobjects?.value === 'object' && xobjects.value?.type === 'dict'
+    ? `<< ${xobjects.src.slice(xobjects.value.start + 2, xobjects.value.end - 2).trim()} ${entry} >>`
+    : `<< ${entry} >>`;
+  return dictWith(src, dict, { XObject: merged });
+}
+
+/** References of the page's current content streams, in drawing order. */
+function contentRefs(reader: PdfReader, page: PdfPage): string[] {
+  const contents = page.object.value.entries.get('Contents')?.value;
+  const ref = (r: PdfRef) => `${r.num} ${r.gen} R`;
+  if (isRef(contents)) {
+    const target = reader.object(contents.num).value;
+    if (typeof target === 'object' && target?.type === 'array') return target.items.filter(isRef).map(ref);
+    return [ref(contents)];
+  }
+  if (typeof contents === 'object' && contents?.type === 'array') return contents.items.filter(isRef).map(ref);
+  return [];
+}
+
+function watermarkPdf(file: Buffer, watermark: Watermark): Buffer {
+  let reader: PdfReader;
+  let pages: PdfPage[];
+  let objects: Array<{ num: number; object: PdfObject }>;
+  try {
+    reader = new PdfReader(file);
+    if (reader.trailer.entries.has('Encrypt')) {
+      throw new BusinessError('WATERMARK_UNSUPPORTED', 'Password-protected PDFs cannot be watermarked', 422);
+    }
+    pages = reader.pages();
+    objects = reader.objectNumbers().map((num) => ({ num, object: reader.object(num) }));
+  } catch (error) {
+    if (error instanceof BusinessError) throw error;
+    throw new BusinessError('WATERMARK_UNSUPPORTED', 'This PDF could not be read for watermarking', 422, {
+      reason: (error as Error).message,
+    });
+  }
+  if (pages.length === 0) {
+    throw new BusinessError('WATERMARK_UNSUPPORTED', 'This PDF has no pages', 422);
+  }
+
+  const version = file.subarray(0, 16).toString('latin1').match(/^%PDF-\d\.\d/)?.[0] ?? '%PDF-1.7';
+  const parts: Buffer[] = [Buffer.from(`${version}\n%\xe2\xe3\xcf\xd3\n`, 'latin1')];
+  let position = parts[0].length;
+  const offsets = new Map<number, { offset: number; gen: number }>();
+  let nextNum = reader.size;
+
+  const write = (num: number, gen: number, body: string, stream?: Buffer) => {
+    offsets.set(num, { offset: position, gen });
+    const chunks = stream
+      ? [
+          Buffer.from(`${num} ${gen} obj\n${body}\nstream\n`, 'latin1'),
+          stream,
+          Buffer.from('\nendstream\nendobj\n', 'latin1'),
+        ]
+      : [Buffer.from(`${num} ${gen} obj\n${body}\nendobj\n`, 'latin1')];
+    for (const chunk of chunks) {
+      parts.push(chunk);
+      position += chunk.length;
+    }
+  };
+  // Watermark objects, written after the file's own
+  const added: Array<() => void> = [];
+  const addStream = (num: number, content: string, dict = '') => {
+    added.push(() => write(
+      num,
+      0,
+      `<< ${dict}/Length ${Buffer.byteLength(content, 'latin1')} >>`,
+      Buffer.from(content, 'latin1'),
+    ));
+  };
+
+  const font = nextNum++;
+  added.push(() => write(font, 0, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'));
+  // Isolates the page's own graphics state from the watermark drawn after it
+  const save = nextNum++;
+  addStream(save, 'q\n');
+
+  const forms = new Map<string, number>();
+  const rewritten = new Map<number, string>();
+  for (const page of pages) {
+    const [x0, y0, x1, y1] = page.box;
+    const width = x1 - x0;
+    const height = y1 - y0;
+    const key = `${n(width)}x${n(height)}`;
+    let form = forms.get(key);
+    if (form === undefined) {
+      form = nextNum++;
+      forms.set(key, form);
+      addStream(form, appearanceStream(watermark, width, height), [
+        `/Type /XObject /Subtype /Form /BBox [0 0 ${n(width)} ${n(height)}]`,
+        `/Resources << /Font << /WmF ${font} 0 R >> /ExtGState << /WmFaint << /ca ${FAINT_OPACITY} >> /WmSolid << /ca ${FOOTER_OPACITY} >> >> >> `,
+      ].join('\n'));
+    }
+
+    // Numbered after this file's objects, so it cannot clash with a name
+    // left by an earlier watermark
+    const name = `PlaWm${form}`;
+    const draw = nextNum++;
+    addStream(draw, `\nQ q 1 0 0 1 ${n(x0)} ${n(y0)} cm /${name} Do Q\n`);
+
+    const { value: dict, src } = page.object;
+    rewritten.set(page.num, dictWith(src, dict, {
+      Contents: `[${[`${save} 0 R`, ...contentRefs(reader, page), `${draw} 0 R`].join(' ')}]`,
+      Resources: resourcesWith(reader, page.resources, name, form),
+    }));
+  }
+
+  // Copy every object but the cross-reference and object streams (their
+  // contents are written out as plain objects) and linearization hints,
+  // which no longer match the new layout
+  for (const { num, object } of objects) {
+    const dict = typeof object.value === 'object' && object.value?.type === 'dict' ? object.value : null;
+    const type = dict ? nameOf(dict.entries.get('Type')?.value) : null;
+    if (type === 'XRef' || type === 'ObjStm' || dict?.entries.has('Linearized')) continue;
+    write(num, object.gen, rewritten.get(num) ?? object.src.slice(object.start, object.end), object.stream);
+  }
+  for (const writeAdded of added) writeAdded();
+
+  const size = Math.max(nextNum, ...[...offsets.keys()].map((num) => num + 1));
+  const rows = ['0000000000 65535 f\r'];
+  for (let num = 1; num < size; num++) {
+    const entry = offsets.get(num);
+    rows.push(entry
+      ? `${String(entry.offset).padStart(10, '0')} ${String(entry.gen).padStart(5, '0')} n\r`
+      : '0000000000 00000 f\r');
+  }
+  const carried = ['Root', 'Info', 'ID'].map((key) => reader.trailerEntry(key)).filter(Boolean).join(' ');
+  parts.push(Buffer.from(
+    `xref\n0 ${size}\n${rows.join('\n')}\ntrailer\n<< /Size ${size} ${carried} >>\nstartxref\n${position}\n%%EOF\n`,
+    'latin1',
+  ));
+
+  return Buffer.concat(parts);
+}
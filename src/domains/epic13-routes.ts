@@ -9,6 +9,8 @@ import { WireTransferService } from './payments/wire-transfer.service.js';
 import { wireTransferRoutes } from './payments/wire-transfer.controller.js';
 import { ExchangeRateService } from './payments/exchange-rate.service.js';
 import { exchangeRateRoutes } from './payments/exchange-rate.controller.js';
+import { FxQuoteService } from './payments/fx-quote.service.js';
+import { fxQuoteRoutes } from './payments/fx-quote.controller.js';
 
 // Ops domain (Stories 13-4, 13-14)
 import { NriPaymentDashboardService } from './ops/nri-payment-dashboard.service.js';
@@ -62,6 +64,7 @@ export function registerEpic13Routes(
     new InternationalPaymentService(prisma);
   const wireTransferService = new WireTransferService(prisma);
   const exchangeRateService = new ExchangeRateService(prisma);
+  const fxQuoteService = new FxQuoteService(prisma, exchangeRateService);
 
   // Ops
   const nriPaymentDashboardService =
@@ -110,6 +113,7 @@ export function registerEpic13Routes(
     '/api/v1/exchange-rates',
     exchangeRateRoutes(exchangeRateService)
   );
+  router.use('/api/v1/fx-quotes', fxQuoteRoutes(fxQuoteService));
 
   // Ops NRI Payments (Story 13-4)
   router.use(
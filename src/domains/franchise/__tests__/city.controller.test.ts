@@ -0,0 +1,49 @@
+/**
+ * Tests for the city controller's SLA calendar endpoint
+ * Covers: validation of working hours before they reach the service
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import supertest from 'supertest';
+import { createCityController } from '../city.controller';
+import { CityService } from '../city.service';
+import { errorHandler } from '../../../middleware/error-handler';
+
+describe('PUT /cities/:id/sla-calendar', () => {
+  let app: express.Express;
+  let service: { updateSlaCalendar: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    service = { updateSlaCalendar: vi.fn().mockResolvedValue({ workingHours: {}, holidayCalendar: [] }) };
+
+    app = express();
+    app.use(express.json());
+    app.use((req: any, _res: any, next: any) => {
+      req.user = { id: 'admin-1', role: 'super_admin', roles: ['super_admin'] };
+      next();
+    });
+    app.use('/cities', createCityController(service as unknown as CityService));
+    app.use(errorHandler);
+  });
+
+  test('returns 400 when working hours close before they open', async () => {
+    const response = await supertest(app)
+      .put('/cities/city-1/sla-calendar')
+      .send({ workingHours: { weekdayStart: '18:00', weekdayEnd: '09:00' } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('VALIDATION_INVALID_INPUT');
+    expect(service.updateSlaCalendar).not.toHaveBeenCalled();
+  });
+
+  test('passes valid working hours to the service', async () => {
+    const response = await supertest(app)
+      .put('/cities/city-1/sla-calendar')
+      .send({ workingHours: { weekdayStart: '09:00', weekdayEnd: '18:00' } });
+
+    expect(response.status).toBe(200);
+    expect(service.updateSlaCalendar).toHaveBeenCalledWith('city-1', {
+      workingHours: { weekdayStart: '09:00', weekdayEnd: '18:00', sundayClosed: true },
+    });
+  });
+});
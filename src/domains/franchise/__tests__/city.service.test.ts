@@ -170,6 +170,28 @@ describe('CityService', () => {
     });
   });
 
+  describe('updateSlaCalendar', () => {
+    it('replaces holidays sorted and de-duplicated, keeping working hours', async () => {
+      mockPrisma.city.findUnique.mockResolvedValue({ id: 'city-1', version: 1, configData: validConfig });
+      mockPrisma.city.update.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'city-1', version: 2, configData: data.configData })
+      );
+
+      const result = await service.updateSlaCalendar('city-1', {
+        holidayCalendar: [
+          { date: '2026-11-08', name: 'Diwali', type: 'national' },
+          { date: '2026-10-20', name: 'Dussehra', type: 'national' },
+          { date: '2026-11-08', name: 'Deepavali', type: 'national' },
+        ],
+      });
+
+      expect(result.version).toBe(2);
+      expect(result.workingHours).toEqual(validConfig.workingHours);
+      expect(result.holidayCalendar.map((h) => h.date)).toEqual(['2026-10-20', '2026-11-08']);
+      expect(result.holidayCalendar[1].name).toBe('Deepavali');
+    });
+  });
+
   describe('getCityConfig', () => {
     it('returns cached config within TTL (AC6)', async () => {
       const mockCity = { id: 'city-1', cityName: 'Lucknow', configData: validConfig };
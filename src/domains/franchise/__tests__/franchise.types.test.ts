@@ -173,6 +173,19 @@ describe('Franchise Types Schemas', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    test('rejects closing times at or before opening times', () => {
+      expect(workingHoursSchema.safeParse({ weekdayStart: '18:00', weekdayEnd: '09:00' }).success).toBe(false);
+      expect(workingHoursSchema.safeParse({ weekdayStart: '09:00', weekdayEnd: '09:00' }).success).toBe(false);
+      expect(
+        workingHoursSchema.safeParse({
+          weekdayStart: '09:00',
+          weekdayEnd: '17:00',
+          saturdayStart: '13:00',
+          saturdayEnd: '10:00',
+        }).success,
+      ).toBe(false);
+    });
   });
 
   // ============================================================
@@ -12,6 +12,8 @@ const createAgentSchema = z.object({
   photoUrl: z.string().url().optional(),
   serviceAreas: z.record(z.string(), z.any()).optional(),
   expertiseTags: z.array(z.string()).optional(),
+  languages: z.array(z.string().min(2).max(10)).optional(),
+  registeredOffices: z.array(z.string().min(1)).optional(),
   maxConcurrentTasks: z.number().int().min(1).max(50).optional(),
 });
 
@@ -21,6 +23,8 @@ const updateAgentSchema = z.object({
   photoUrl: z.string().url().optional(),
   serviceAreas: z.record(z.string(), z.any()).optional(),
   expertiseTags: z.array(z.string()).optional(),
+  languages: z.array(z.string().min(2).max(10)).optional(),
+  registeredOffices: z.array(z.string().min(1)).optional(),
   maxConcurrentTasks: z.number().int().min(1).max(50).optional(),
 });
 
@@ -22,6 +22,8 @@ export class AgentManagementService {
     photoUrl?: string;
     serviceAreas?: Record<string, any>;
     expertiseTags?: string[];
+    languages?: string[];
+    registeredOffices?: string[];
     maxConcurrentTasks?: number;
   }) {
     try {
@@ -34,6 +36,8 @@ export class AgentManagementService {
           photoUrl: params.photoUrl,
           serviceAreas: params.serviceAreas as any || null,
           expertiseTags: params.expertiseTags || [],
+          languages: params.languages || [],
+          registeredOffices: params.registeredOffices || [],
           maxConcurrentTasks: params.maxConcurrentTasks || 10,
           isActive: true,
           trainingCompleted: false,
@@ -60,6 +64,8 @@ export class AgentManagementService {
     photoUrl?: string;
     serviceAreas?: Record<string, any>;
     expertiseTags?: string[];
+    languages?: string[];
+    registeredOffices?: string[];
     maxConcurrentTasks?: number;
   }) {
     return this.prisma.agent.update({
@@ -70,6 +76,8 @@ export class AgentManagementService {
         ...(data.photoUrl !== undefined && { photoUrl: data.photoUrl }),
         ...(data.serviceAreas !== undefined && { serviceAreas: data.serviceAreas as any }),
         ...(data.expertiseTags !== undefined && { expertiseTags: data.expertiseTags }),
+        ...(data.languages !== undefined && { languages: data.languages }),
+        ...(data.registeredOffices !== undefined && { registeredOffices: data.registeredOffices }),
         ...(data.maxConcurrentTasks !== undefined && { maxConcurrentTasks: data.maxConcurrentTasks }),
       },
     });
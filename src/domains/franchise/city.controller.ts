@@ -1,7 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { CityService } from './city.service';
-import { cityConfigSchema } from './franchise.types';
+import { cityConfigSchema, slaCalendarUpdateSchema } from './franchise.types';
 import { authorize } from '../../middleware/authorize';
 
 const createCitySchema = z.object({
@@ -84,6 +84,31 @@ export function createCityController(service: CityService): Router {
     }
   );
 
+  // GET /api/v1/cities/:id/sla-calendar — Working hours and holidays used for SLA business days
+  router.get('/:id/sla-calendar', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const calendar = await service.getSlaCalendar(req.params.id);
+      res.json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/v1/cities/:id/sla-calendar — Update working hours / holidays (Super Admin only)
+  router.put(
+    '/:id/sla-calendar',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = slaCalendarUpdateSchema.parse(req.body);
+        const calendar = await service.updateSlaCalendar(req.params.id, body);
+        res.json({ success: true, data: calendar });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // PATCH /api/v1/cities/:id/deactivate — Deactivate city (Super Admin only)
   router.patch(
     '/:id/deactivate',
@@ -1,5 +1,5 @@
 import { PrismaClient } from '@prisma/client';
-import { cityConfigSchema, CityConfig } from './franchise.types';
+import { cityConfigSchema, CityConfig, SlaCalendarUpdate } from './franchise.types';
 import { BusinessError } from '../../shared/errors/business-error';
 import * as ErrorCodes from '../../shared/errors/error-codes';
 
@@ -68,6 +68,50 @@ export class CityService {
     return city;
   }
 
+  /**
+   * Get the working hours and holiday calendar used for SLA business days.
+   */
+  async getSlaCalendar(cityId: string) {
+    const city = await this.getCityConfig(cityId);
+    const config = city.configData as CityConfig;
+    return {
+      cityId: city.id,
+      workingHours: config.workingHours,
+      holidayCalendar: config.holidayCalendar,
+      version: city.version,
+    };
+  }
+
+  /**
+   * Update the SLA calendar (working hours and/or holidays) of a city.
+   * Goes through updateCityConfig so the change is validated and versioned.
+   */
+  async updateSlaCalendar(cityId: string, update: SlaCalendarUpdate) {
+    const city = await this.getCityConfig(cityId);
+    const config = city.configData as CityConfig;
+
+    // Keep holidays sorted and unique per date for predictable reads
+    const holidayCalendar = update.holidayCalendar
+      ? [...new Map(update.holidayCalendar.map((h) => [h.date, h])).values()].sort((a, b) =>
+          a.date.localeCompare(b.date)
+        )
+      : config.holidayCalendar;
+
+    const updated = await this.updateCityConfig(cityId, {
+      ...config,
+      workingHours: update.workingHours ?? config.workingHours,
+      holidayCalendar,
+    });
+
+    const updatedConfig = updated.configData as CityConfig;
+    return {
+      cityId: updated.id,
+      workingHours: updatedConfig.workingHours,
+      holidayCalendar: updatedConfig.holidayCalendar,
+      version: updated.version,
+    };
+  }
+
   /**
    * Get city configuration with caching (AC6)
    * Cache TTL: 5 minutes. Expired entries are automatically removed.
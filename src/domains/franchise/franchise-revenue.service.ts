@@ -4,6 +4,8 @@ import { BusinessError } from '../../shared/errors/business-error';
 import * as ErrorCodes from '../../shared/errors/error-codes';
 import { getCurrentMonth, getMonthRange } from '../../shared/utils/date';
 import { calculatePercentage, formatPaiseForDisplay } from '../../shared/utils/money';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
 
 /**
  * Story 14-8: Franchise Revenue Share Calculation
@@ -57,7 +59,7 @@ export class FranchiseRevenueService {
     const franchiseSharePaise = calculatePercentage(effectiveFeePaise, franchisePercentage);
     const platformSharePaise = effectiveFeePaise - franchiseSharePaise;
 
-    return this.prisma.franchiseRevenue.create({
+    const revenue = await this.prisma.franchiseRevenue.create({
       data: {
         franchiseId: params.franchiseId,
         cityId: params.cityId,
@@ -71,6 +73,12 @@ export class FranchiseRevenueService {
         adjustments: params.adjustments as any || null,
       },
     });
+
+    await new LedgerService(this.prisma)
+      .recordFranchiseShare(revenue.id)
+      .catch((err) => logger.error({ err, revenueId: revenue.id }, 'Ledger posting failed'));
+
+    return revenue;
   }
 
   /**
@@ -200,7 +208,7 @@ export class FranchiseRevenueService {
    * Mark entries as paid after payout
    */
   async markAsPaid(franchiseId: string, month: string) {
-    return this.prisma.franchiseRevenue.updateMany({
+    const result = await this.prisma.franchiseRevenue.updateMany({
       where: {
         franchiseId,
         month,
@@ -211,5 +219,13 @@ export class FranchiseRevenueService {
         paidAt: new Date(),
       },
     });
+
+    if (result.count > 0) {
+      await new LedgerService(this.prisma)
+        .recordFranchisePayout(franchiseId, month)
+        .catch((err) => logger.error({ err, franchiseId, month }, 'Ledger posting failed'));
+    }
+
+    return result;
   }
 }
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_LANGUAGES } from '../notifications/template-localization';
 
 // ============================================================
 // City Config Types (Story 14-1)
@@ -20,13 +21,23 @@ export const officeAddressSchema = z.object({
   gpsLng: z.number().min(-180).max(180).optional(),
 });
 
-export const workingHoursSchema = z.object({
-  weekdayStart: z.string().regex(/^\d{2}:\d{2}$/, 'Format: HH:MM'),
-  weekdayEnd: z.string().regex(/^\d{2}:\d{2}$/, 'Format: HH:MM'),
-  saturdayStart: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-  saturdayEnd: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-  sundayClosed: z.boolean().default(true),
-});
+// Zero-padded HH:MM, so opening and closing times compare as strings
+export const workingHoursSchema = z
+  .object({
+    weekdayStart: z.string().regex(/^\d{2}:\d{2}$/, 'Format: HH:MM'),
+    weekdayEnd: z.string().regex(/^\d{2}:\d{2}$/, 'Format: HH:MM'),
+    saturdayStart: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    saturdayEnd: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    sundayClosed: z.boolean().default(true),
+  })
+  .refine((v) => v.weekdayStart < v.weekdayEnd, {
+    message: 'weekdayStart must be before weekdayEnd',
+    path: ['weekdayEnd'],
+  })
+  .refine((v) => !v.saturdayStart || !v.saturdayEnd || v.saturdayStart < v.saturdayEnd, {
+    message: 'saturdayStart must be before saturdayEnd',
+    path: ['saturdayEnd'],
+  });
 
 export const holidaySchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format: YYYY-MM-DD'),
@@ -34,19 +45,60 @@ export const holidaySchema = z.object({
   type: z.enum(['national', 'state', 'local']),
 });
 
+// Relative weights of the agent auto-assignment scorers; omitted factors score 0
+export const agentScoringWeightsSchema = z.object({
+  distance: z.number().min(0).max(1).optional(),
+  workload: z.number().min(0).max(1).optional(),
+  rating: z.number().min(0).max(1).optional(),
+  skills: z.number().min(0).max(1).optional(),
+  language: z.number().min(0).max(1).optional(),
+});
+
+// GST registration printed on tax invoices for this city's services
+export const gstRegistrationSchema = z.object({
+  gstin: z.string().regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'Invalid GSTIN'),
+  legalName: z.string().min(1),
+  address: z.string().min(1),
+  pincode: z.string().regex(/^\d{6}$/, 'Pincode must be 6 digits'),
+  // Leads every invoice number, e.g. PUN → PUN/I2627/00001
+  invoicePrefix: z.string().regex(/^[A-Z0-9]{2,4}$/, '2-4 uppercase letters or digits'),
+  gstRate: z.number().min(0).max(28).optional(),
+  // Letter of Undertaking ARN for zero-rated export invoices
+  lutNumber: z.string().optional(),
+});
+
 export const cityConfigSchema = z.object({
   governmentAuthorities: z.array(governmentAuthoritySchema).min(1),
   officeAddresses: z.record(z.string(), officeAddressSchema),
   contactNumbers: z.record(z.string(), z.string()),
   workingHours: workingHoursSchema,
   holidayCalendar: z.array(holidaySchema),
+  agentScoringWeights: agentScoringWeightsSchema.optional(),
+  // Average door-to-door travel speed used for offline itinerary estimates
+  travelSpeedKmph: z.number().min(1).max(100).optional(),
+  // Notification language for users without an explicit preference
+  defaultLanguage: z.enum(SUPPORTED_LANGUAGES).optional(),
+  gstRegistration: gstRegistrationSchema.optional(),
 });
 
+// SLA calendar subset of the city config, managed on its own endpoint
+export const slaCalendarUpdateSchema = z
+  .object({
+    workingHours: workingHoursSchema.optional(),
+    holidayCalendar: z.array(holidaySchema).optional(),
+  })
+  .refine((v) => v.workingHours !== undefined || v.holidayCalendar !== undefined, {
+    message: 'Provide workingHours or holidayCalendar',
+  });
+
 export type CityConfig = z.infer<typeof cityConfigSchema>;
+export type SlaCalendarUpdate = z.infer<typeof slaCalendarUpdateSchema>;
 export type GovernmentAuthority = z.infer<typeof governmentAuthoritySchema>;
 export type OfficeAddress = z.infer<typeof officeAddressSchema>;
 export type WorkingHours = z.infer<typeof workingHoursSchema>;
 export type Holiday = z.infer<typeof holidaySchema>;
+export type AgentScoringWeights = z.infer<typeof agentScoringWeightsSchema>;
+export type GstRegistration = z.infer<typeof gstRegistrationSchema>;
 
 // ============================================================
 // City Service Fee Types (Story 14-2)
@@ -7,6 +7,12 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { LawyerService } from '../lawyers.service';
 import { PrismaClient } from '@prisma/client';
 
+vi.mock('../../ledger/ledger.service', () => ({
+  LedgerService: vi.fn().mockImplementation(() => ({
+    recordLawyerPayout: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
 // ---------------------------------------------------------------------------
 // Mock Prisma factory
 // ---------------------------------------------------------------------------
@@ -1,6 +1,8 @@
 import { PrismaClient, LawyerStatus, Prisma } from '@prisma/client';
 import { BusinessError } from '../../shared/errors/business-error';
 import { encrypt } from '../../shared/utils/encryption';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
 
 export class LawyerService {
   constructor(private readonly prisma: PrismaClient) {}
@@ -607,7 +609,7 @@ export class LawyerService {
     const commissionAmount = Math.round(grossFee * commissionRate / 100);
     const netPayout = grossFee - commissionAmount;
 
-    return this.prisma.$transaction(async (tx) => {
+    const completedPayout = await this.prisma.$transaction(async (tx) => {
       await tx.legalCase.update({
         where: { id: caseId },
         data: { caseStatus: 'COMPLETED', completedAt: new Date() },
@@ -631,6 +633,12 @@ export class LawyerService {
 
       return payout;
     });
+
+    await new LedgerService(this.prisma)
+      .recordLawyerPayout(completedPayout.id)
+      .catch((err) => logger.error({ err, payoutId: completedPayout.id }, 'Ledger posting failed'));
+
+    return completedPayout;
   }
 
   async autoConfirmPayouts() {
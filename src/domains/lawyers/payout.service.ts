@@ -13,6 +13,8 @@ import { PrismaClient, PayoutStatus } from '@prisma/client';
 import { RazorpayPayoutClient, RazorpayPayoutResponse } from '../../core/integrations/razorpay-payout.client';
 import { BusinessError } from '../../shared/errors/business-error';
 import { decrypt } from '../../shared/utils/encryption';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
 
 export interface InitiateLawyerPayoutInput {
   lawyerId: string;
@@ -110,6 +112,7 @@ export class LawyerPayoutService {
         payoutMethod,
       },
     });
+    await this.postToLedger(payout.id);
 
     return {
       payoutId: payout.id,
@@ -232,6 +235,9 @@ export class LawyerPayoutService {
           payoutStatus: this.mapRazorpayStatusToLawyerStatus(razorpayPayout.status),
         },
       });
+      if (updatedPayout.payoutStatus === PayoutStatus.COMPLETED) {
+        await this.postToLedger(payout.id);
+      }
 
       return {
         payoutId: payout.id,
@@ -276,6 +282,10 @@ export class LawyerPayoutService {
         processedAt: newStatus === PayoutStatus.COMPLETED ? new Date() : null,
       },
     });
+
+    if (newStatus === PayoutStatus.COMPLETED) {
+      await this.postToLedger(payout.id);
+    }
   }
 
   /**
@@ -359,6 +369,13 @@ export class LawyerPayoutService {
     };
   }
 
+  // Ledger failures must not fail the payout; the daily sweep retries
+  private async postToLedger(payoutId: string): Promise<void> {
+    await new LedgerService(this.prisma)
+      .recordLawyerPayout(payoutId)
+      .catch((err) => logger.error({ err, payoutId }, 'Ledger posting failed'));
+  }
+
   /**
    * Maps Razorpay payout status to our PayoutStatus enum.
    */
@@ -0,0 +1,362 @@
+/**
+ * Tests for LedgerService
+ * Covers: balance validation, idempotent posting, payment capture with the
+ *         government fee split, cash and refund postings, trial balance and
+ *         account statements, gateway settlements, lost chargebacks,
+ *         wire transfer variances
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { LedgerService, assertBalanced } from '../ledger.service';
+import { JournalEntryInput } from '../ledger.types';
+
+function createMockPrisma() {
+  const accounts: any[] = [];
+  const entries: any[] = [];
+  const lines: any[] = [];
+
+  const accountById = (id: string) => accounts.find((a) => a.id === id);
+  const entryById = (id: string) => entries.find((e) => e.id === id);
+
+  const prisma: any = {
+    payment: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'pay-1',
+        serviceRequestId: 'sr-1',
+        customerId: 'cust-1',
+        amountPaise: 300000,
+        status: 'paid',
+        paymentMethodType: 'domestic',
+        paidAt: new Date('2026-10-19T06:00:00Z'),
+      }),
+    },
+    serviceRequest: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'sr-1', cityId: 'city-pune', govtFeeEstimatePaise: 200000 }),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    serviceInstance: { findUnique: vi.fn().mockResolvedValue(null) },
+    creditUsageLog: {
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amountUsedPaise: null } }),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    cashReceipt: { findUnique: vi.fn() },
+    refund: { findUnique: vi.fn() },
+    settlementLine: { findMany: vi.fn().mockResolvedValue([]) },
+    paymentDispute: { findUnique: vi.fn() },
+    wireTransfer: { findUnique: vi.fn() },
+    ledgerAccount: {
+      upsert: vi.fn(async ({ where, create }: any) => {
+        let account = accounts.find((a) => a.code === where.code);
+        if (!account) {
+          account = { id: `acct-${accounts.length + 1}`, ...create };
+          accounts.push(account);
+        }
+        return account;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => accounts.find((a) => a.code === where.code) ?? null),
+      findMany: vi.fn(async ({ where }: any) => accounts.filter((a) => where.id.in.includes(a.id))),
+    },
+    journalEntry: {
+      findUnique: vi.fn(async ({ where }: any) => {
+        const key = where.sourceType_sourceId_event;
+        return (
+          entries.find(
+            (e) => e.sourceType === key.sourceType && e.sourceId === key.sourceId && e.event === key.event,
+          ) ?? null
+        );
+      }),
+      create: vi.fn(async ({ data }: any) => {
+        const { lines: nested, ...rest } = data;
+        const entry = { id: `je-${entries.length + 1}`, ...rest };
+        entries.push(entry);
+        for (const line of nested.create) {
+          lines.push({ id: `jl-${lines.length + 1}`, entryId: entry.id, createdAt: new Date(), ...line });
+        }
+        return entry;
+      }),
+    },
+    journalLine: {
+      // Only the queries the service makes: govt fee already billed per request
+      aggregate: vi.fn(async ({ where }: any) => {
+        const matching = lines.filter((l) => {
+          if (where.account?.code && accountById(l.accountId).code !== where.account.code) return false;
+          if (where.entry && entryById(l.entryId).serviceRequestId !== where.entry.serviceRequestId) return false;
+          if (where.accountId && l.accountId !== where.accountId) return false;
+          if (where.postedAt?.lt && !(l.postedAt < where.postedAt.lt)) return false;
+          return true;
+        });
+        return {
+          _sum: {
+            debitPaise: matching.reduce((s, l) => s + l.debitPaise, 0),
+            creditPaise: matching.reduce((s, l) => s + l.creditPaise, 0),
+          },
+        };
+      }),
+      groupBy: vi.fn(async ({ where }: any) => {
+        const sums = new Map<string, { debitPaise: number; creditPaise: number }>();
+        for (const l of lines.filter((l) => !where.cityId || l.cityId === where.cityId)) {
+          const sum = sums.get(l.accountId) ?? { debitPaise: 0, creditPaise: 0 };
+          sum.debitPaise += l.debitPaise;
+          sum.creditPaise += l.creditPaise;
+          sums.set(l.accountId, sum);
+        }
+        return [...sums.entries()].map(([accountId, _sum]) => ({ accountId, _sum }));
+      }),
+      findMany: vi.fn(async ({ where, take }: any) =>
+        lines
+          .filter((l) => l.accountId === where.accountId && (!where.postedAt?.gte || l.postedAt >= where.postedAt.gte))
+          .map((l) => ({ ...l, entry: entryById(l.entryId) }))
+          .slice(0, take),
+      ),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, accounts, entries, lines };
+}
+
+function balanceOf(mock: ReturnType<typeof createMockPrisma>, code: string) {
+  const account = mock.accounts.find((a) => a.code === code);
+  if (!account) return 0;
+  return mock.lines
+    .filter((l) => l.accountId === account.id)
+    .reduce((sum, l) => sum + l.debitPaise - l.creditPaise, 0);
+}
+
+const ENTRY: JournalEntryInput = {
+  event: 'cash_deposited',
+  sourceType: 'cash_deposit',
+  sourceId: 'dep-1',
+  cityId: 'city-pune',
+  description: 'Agent cash deposit verified',
+  postedAt: new Date('2026-10-19T10:00:00Z'),
+  lines: [
+    { account: 'bank', debitPaise: 5000 },
+    { account: 'cash_in_hand', partyId: 'agent-1', creditPaise: 5000 },
+  ],
+};
+
+describe('assertBalanced', () => {
+  test('accepts a balanced entry', () => {
+    expect(() => assertBalanced(ENTRY)).not.toThrow();
+  });
+
+  test('rejects an entry whose debits and credits differ', () => {
+    const input = { ...ENTRY, lines: [ENTRY.lines[0], { ...ENTRY.lines[1], creditPaise: 4000 }] };
+    expect(() => assertBalanced(input)).toThrow(expect.objectContaining({ code: 'LEDGER_UNBALANCED' }));
+  });
+
+  test('rejects a line that is both debit and credit', () => {
+    const input = {
+      ...ENTRY,
+      lines: [{ account: 'bank' as const, debitPaise: 5000, creditPaise: 5000 }, ENTRY.lines[1]],
+    };
+    expect(() => assertBalanced(input)).toThrow(expect.objectContaining({ code: 'LEDGER_ENTRY_INVALID' }));
+  });
+
+  test('rejects a party account without a party', () => {
+    const input = { ...ENTRY, lines: [ENTRY.lines[0], { account: 'cash_in_hand' as const, creditPaise: 5000 }] };
+    expect(() => assertBalanced(input)).toThrow(expect.objectContaining({ code: 'LEDGER_ENTRY_INVALID' }));
+  });
+});
+
+describe('LedgerService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let service: LedgerService;
+
+  beforeEach(() => {
+    mock = createMockPrisma();
+    service = new LedgerService(mock.prisma as unknown as PrismaClient);
+  });
+
+  test('posting the same event twice writes it once', async () => {
+    const first = await service.post(ENTRY);
+    const second = await service.post(ENTRY);
+
+    expect(second.id).toBe(first.id);
+    expect(mock.prisma.journalEntry.create).toHaveBeenCalledTimes(1);
+    expect(mock.lines).toHaveLength(2);
+  });
+
+  test('payment capture bills the government fee as pass-through and settles into clearing', async () => {
+    await service.recordPaymentCaptured('pay-1');
+
+    expect(mock.entries.map((e) => e.event)).toEqual(['service_billed', 'customer_paid']);
+    expect(balanceOf(mock, 'govt_fee_payable')).toBe(-200000);
+    expect(balanceOf(mock, 'platform_revenue')).toBe(-100000);
+    expect(balanceOf(mock, 'gateway_clearing')).toBe(300000);
+    expect(balanceOf(mock, 'customer_receivables:cust-1')).toBe(0);
+    expect(mock.entries.every((e) => e.serviceRequestId === 'sr-1' && e.cityId === 'city-pune')).toBe(true);
+  });
+
+  test('later payments for the same request do not bill the government fee again', async () => {
+    await service.recordPaymentCaptured('pay-1');
+    mock.prisma.payment.findUnique.mockResolvedValueOnce({
+      id: 'pay-2',
+      serviceRequestId: 'sr-1',
+      customerId: 'cust-1',
+      amountPaise: 150000,
+      status: 'paid',
+      paymentMethodType: 'domestic',
+      paidAt: new Date('2026-10-20T06:00:00Z'),
+    });
+
+    await service.recordPaymentCaptured('pay-2');
+
+    expect(balanceOf(mock, 'govt_fee_payable')).toBe(-200000);
+    expect(balanceOf(mock, 'platform_revenue')).toBe(-250000);
+  });
+
+  test('wire transfers settle into the bank and redeemed credits become revenue', async () => {
+    mock.prisma.payment.findUnique.mockResolvedValueOnce({
+      id: 'pay-3',
+      serviceRequestId: 'sr-1',
+      customerId: 'cust-1',
+      amountPaise: 250000,
+      status: 'paid',
+      paymentMethodType: 'wire_transfer',
+      paidAt: new Date('2026-10-19T06:00:00Z'),
+    });
+    mock.prisma.creditUsageLog.aggregate.mockResolvedValueOnce({ _sum: { amountUsedPaise: 50000n } });
+
+    await service.recordPaymentCaptured('pay-3');
+
+    expect(balanceOf(mock, 'bank')).toBe(250000);
+    expect(balanceOf(mock, 'gateway_clearing')).toBe(0);
+    expect(balanceOf(mock, 'referral_credit_liability:cust-1')).toBe(50000);
+    expect(balanceOf(mock, 'platform_revenue')).toBe(-100000);
+  });
+
+  test('standalone cash goes to the collecting agent and revenue', async () => {
+    mock.prisma.cashReceipt.findUnique.mockResolvedValue({
+      id: 'rcpt-1',
+      agentId: 'agent-1',
+      cityId: 'city-pune',
+      serviceRequestId: null,
+      serviceRequest: null,
+      amountPaise: '75000',
+      clientTimestamp: new Date('2026-10-19T09:00:00Z'),
+    });
+
+    await service.recordCashCollected('rcpt-1');
+
+    expect(balanceOf(mock, 'cash_in_hand:agent-1')).toBe(75000);
+    expect(balanceOf(mock, 'platform_revenue')).toBe(-75000);
+  });
+
+  test('a completed refund reverses revenue and pays out of clearing', async () => {
+    await service.recordPaymentCaptured('pay-1');
+    mock.prisma.refund.findUnique.mockResolvedValue({
+      id: 'ref-1',
+      status: 'COMPLETED',
+      customerId: 'cust-1',
+      cityId: 'city-pune',
+      serviceRequestId: 'sr-1',
+      amountPaise: 50000,
+      processedAt: new Date('2026-10-21T06:00:00Z'),
+    });
+
+    await service.recordRefundCompleted('ref-1');
+
+    expect(balanceOf(mock, 'platform_revenue')).toBe(-50000);
+    expect(balanceOf(mock, 'gateway_clearing')).toBe(250000);
+    expect(balanceOf(mock, 'customer_receivables:cust-1')).toBe(0);
+  });
+
+  test('a settlement moves clearing to the bank net of gateway fees and GST', async () => {
+    await service.recordPaymentCaptured('pay-1');
+    mock.prisma.settlementLine.findMany.mockResolvedValue([
+      { entityType: 'payment', amountPaise: 300000, feePaise: 6000, taxPaise: 1080, settledAt: new Date('2026-10-21T06:00:00Z') },
+      { entityType: 'refund', amountPaise: 20000, feePaise: 0, taxPaise: 0, settledAt: null },
+    ]);
+
+    await service.recordSettlement('setl_1');
+
+    expect(balanceOf(mock, 'gateway_clearing')).toBe(20000);
+    expect(balanceOf(mock, 'bank')).toBe(300000 - 20000 - 6000 - 1080);
+    expect(balanceOf(mock, 'gateway_fee_expense')).toBe(6000);
+    expect(balanceOf(mock, 'gst_input_credit')).toBe(1080);
+  });
+
+  test('a lost chargeback writes off the amount Razorpay deducted from a settlement', async () => {
+    await service.recordPaymentCaptured('pay-1');
+    mock.prisma.settlementLine.findMany.mockResolvedValue([
+      { entityType: 'payment', amountPaise: 300000, feePaise: 0, taxPaise: 0, settledAt: null },
+      { entityType: 'dispute', amountPaise: 100000, feePaise: 0, taxPaise: 0, settledAt: null },
+    ]);
+    await service.recordSettlement('setl_1');
+    mock.prisma.paymentDispute.findUnique.mockResolvedValue({
+      id: 'pd-1',
+      status: 'lost',
+      cityId: 'city-pune',
+      serviceRequestId: 'sr-1',
+      amountPaise: 100000,
+      amountDeductedPaise: 100000,
+      resolvedAt: new Date('2026-10-25T06:00:00Z'),
+    });
+
+    await service.recordChargebackLost('pd-1');
+
+    expect(balanceOf(mock, 'gateway_clearing')).toBe(0);
+    expect(balanceOf(mock, 'bank')).toBe(200000);
+    expect(balanceOf(mock, 'chargeback_expense')).toBe(100000);
+  });
+
+  test('an absorbed wire shortfall reduces the bank and books an FX loss', async () => {
+    mock.prisma.payment.findUnique.mockResolvedValueOnce({
+      id: 'pay-3',
+      serviceRequestId: 'sr-1',
+      customerId: 'cust-1',
+      amountPaise: 250000,
+      status: 'paid',
+      paymentMethodType: 'wire_transfer',
+      paidAt: new Date('2026-10-19T06:00:00Z'),
+    });
+    await service.recordPaymentCaptured('pay-3');
+    mock.prisma.wireTransfer.findUnique.mockResolvedValue({
+      id: 'wt-1',
+      status: 'reconciled',
+      serviceRequestId: 'sr-1',
+      varianceAmount: -1500,
+      reconciledAt: new Date('2026-10-22T06:00:00Z'),
+    });
+
+    await service.recordWireVariance('wt-1');
+
+    expect(balanceOf(mock, 'bank')).toBe(248500);
+    expect(balanceOf(mock, 'fx_gain_loss')).toBe(1500);
+  });
+
+  test('trial balance rolls party accounts up and balances', async () => {
+    await service.recordPaymentCaptured('pay-1');
+    await service.post(ENTRY);
+
+    const result = await service.getTrialBalance({ cityId: 'city-pune' });
+
+    expect(result.balanced).toBe(true);
+    expect(result.totalDebitPaise).toBe(result.totalCreditPaise);
+    const cash = result.accounts.find((a) => a.code === 'cash_in_hand');
+    expect(cash).toMatchObject({ type: 'asset', balancePaise: -5000 });
+    const revenue = result.accounts.find((a) => a.code === 'platform_revenue');
+    expect(revenue).toMatchObject({ type: 'revenue', balancePaise: 100000 });
+    expect(result.accounts.some((a) => a.code.includes(':'))).toBe(false);
+  });
+
+  test('account statement carries a running balance on the normal side', async () => {
+    await service.recordPaymentCaptured('pay-1');
+
+    const statement = await service.getAccountStatement('customer_receivables:cust-1', {});
+
+    expect(statement.account.type).toBe('asset');
+    expect(statement.lines.map((l) => l.runningBalancePaise)).toEqual([300000, 0]);
+    expect(statement.closingBalancePaise).toBe(0);
+    expect(statement.hasMore).toBe(false);
+  });
+
+  test('statement for an unknown account is not found', async () => {
+    await expect(service.getAccountStatement('bank', {})).rejects.toMatchObject({
+      code: 'LEDGER_ACCOUNT_NOT_FOUND',
+      statusCode: 404,
+    });
+  });
+});
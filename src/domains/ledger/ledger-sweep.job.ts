@@ -0,0 +1,34 @@
+/**
+ * Ledger sweep pg-boss job.
+ * Posts journal entries missing for money movements of the last week, e.g.
+ * when an inline post failed or a bulk status update bypassed the hooks
+ * (ledger.sweep, daily at 01:30 IST).
+ */
+import { PrismaClient } from '@prisma/client';
+import { LedgerService } from './ledger.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const LEDGER_SWEEP_QUEUE = 'ledger.sweep';
+const LEDGER_SWEEP_SCHEDULE = '30 1 * * *';
+const SWEEP_LOOKBACK_DAYS = 7;
+
+export async function registerLedgerSweepJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const ledgerService = new LedgerService(prisma);
+
+  await boss.createQueue(LEDGER_SWEEP_QUEUE);
+  await boss.work(LEDGER_SWEEP_QUEUE, async () => {
+    const since = new Date(Date.now() - SWEEP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const result = await ledgerService.postMissing(since);
+    if (result.failed > 0) {
+      logger.warn(result, 'Ledger sweep left entries unposted');
+    } else {
+      logger.info(result, 'Ledger sweep completed');
+    }
+  });
+  await boss.schedule(LEDGER_SWEEP_QUEUE, LEDGER_SWEEP_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
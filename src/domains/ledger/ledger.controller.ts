@@ -0,0 +1,109 @@
+// Ledger Controller - trial balance and account statements for ops finance
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { LedgerService } from './ledger.service';
+import { authorize } from '../../middleware/authorize';
+
+const trialBalanceSchema = z.object({
+  cityId: z.string().uuid().optional(),
+  asOf: z.coerce.date().optional(),
+  rollup: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((v) => v === 'true'),
+});
+
+const statementSchema = z.object({
+  cityId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const listAccountsSchema = z.object({
+  baseCode: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export function createLedgerController(prisma: PrismaClient): Router {
+  const router = Router();
+  const ledgerService = new LedgerService(prisma);
+
+  // Ops managers are held to their own city; super admins see everything
+  function scopedCityId(user: { role: string; cityId: string }, requested?: string) {
+    return user.role === 'super_admin' ? requested : user.cityId;
+  }
+
+  /**
+   * GET /api/v1/ledger/trial-balance
+   * Roles: ops_manager, super_admin
+   */
+  router.get(
+    '/trial-balance',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const query = trialBalanceSchema.parse(req.query);
+        const user = (req as any).user!;
+
+        const result = await ledgerService.getTrialBalance({
+          ...query,
+          cityId: scopedCityId(user, query.cityId),
+        });
+
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/ledger/accounts
+   * Roles: ops_manager, super_admin
+   */
+  router.get(
+    '/accounts',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const query = listAccountsSchema.parse(req.query);
+        const result = await ledgerService.listAccounts(query);
+
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/ledger/accounts/:code/statement
+   * Account codes include the party, e.g. cash_in_hand:<agentId>.
+   * Roles: ops_manager, super_admin
+   */
+  router.get(
+    '/accounts/:code/statement',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const query = statementSchema.parse(req.query);
+        const user = (req as any).user!;
+
+        const result = await ledgerService.getAccountStatement(req.params.code, {
+          ...query,
+          cityId: scopedCityId(user, query.cityId),
+        });
+
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
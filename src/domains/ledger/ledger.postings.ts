@@ -0,0 +1,268 @@
+// Journal entry builders for each money-moving event.
+// Pure functions: callers load the records, LedgerService posts the result.
+// A builder returns null when there is nothing to post (zero amount).
+
+import { AccountBaseCode, JournalEntryInput, JournalLineInput } from './ledger.types';
+
+interface SourceRef {
+  sourceType: string;
+  sourceId: string;
+  cityId?: string | null;
+  serviceRequestId?: string | null;
+  postedAt: Date;
+}
+
+function entry(
+  event: string,
+  source: SourceRef,
+  description: string,
+  lines: JournalLineInput[],
+): JournalEntryInput | null {
+  const nonZero = lines.filter((l) => (l.debitPaise ?? 0) > 0 || (l.creditPaise ?? 0) > 0);
+  if (nonZero.length === 0) return null;
+  return {
+    event,
+    sourceType: source.sourceType,
+    sourceId: source.sourceId,
+    cityId: source.cityId ?? null,
+    serviceRequestId: source.serviceRequestId ?? null,
+    description,
+    postedAt: source.postedAt,
+    lines: nonZero,
+  };
+}
+
+function transfer(
+  event: string,
+  source: SourceRef,
+  description: string,
+  amountPaise: number,
+  debit: { account: AccountBaseCode; partyId?: string },
+  credit: { account: AccountBaseCode; partyId?: string },
+): JournalEntryInput | null {
+  return entry(event, source, description, [
+    { ...debit, debitPaise: amountPaise },
+    { ...credit, creditPaise: amountPaise },
+  ]);
+}
+
+// Positive amounts debit the account, negative amounts credit it
+function signed(account: AccountBaseCode, amountPaise: number): JournalLineInput {
+  return amountPaise >= 0 ? { account, debitPaise: amountPaise } : { account, creditPaise: -amountPaise };
+}
+
+/**
+ * Customer billed for a service: the government fee part is passed through,
+ * the rest is platform revenue.
+ */
+export function serviceBilled(
+  source: SourceRef,
+  customerId: string,
+  totalPaise: number,
+  govtFeePaise: number,
+): JournalEntryInput | null {
+  return entry('service_billed', source, 'Service billed to customer', [
+    { account: 'customer_receivables', partyId: customerId, debitPaise: totalPaise },
+    { account: 'govt_fee_payable', creditPaise: govtFeePaise },
+    { account: 'platform_revenue', creditPaise: totalPaise - govtFeePaise },
+  ]);
+}
+
+/**
+ * Customer settles the receivable: online payments land in gateway clearing,
+ * wire transfers in the bank, cash with the collecting agent.
+ */
+export function customerPaid(
+  source: SourceRef,
+  customerId: string,
+  amountPaise: number,
+  into: { account: 'gateway_clearing' | 'bank' | 'cash_in_hand'; partyId?: string },
+): JournalEntryInput | null {
+  return transfer('customer_paid', source, 'Payment received from customer', amountPaise, into, {
+    account: 'customer_receivables',
+    partyId: customerId,
+  });
+}
+
+/**
+ * Cash collected without a service request (no customer account to bill).
+ */
+export function standaloneCashCollected(
+  source: SourceRef,
+  agentId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer(
+    'cash_collected',
+    source,
+    'Standalone cash collection',
+    amountPaise,
+    { account: 'cash_in_hand', partyId: agentId },
+    { account: 'platform_revenue' },
+  );
+}
+
+export function cashDeposited(source: SourceRef, agentId: string, amountPaise: number): JournalEntryInput | null {
+  return transfer(
+    'cash_deposited',
+    source,
+    'Agent cash deposit verified',
+    amountPaise,
+    { account: 'bank' },
+    { account: 'cash_in_hand', partyId: agentId },
+  );
+}
+
+/**
+ * A completed refund reverses revenue (credit note) and pays the customer
+ * back through the gateway.
+ */
+export function refundCompleted(
+  source: SourceRef,
+  customerId: string,
+  amountPaise: number,
+): JournalEntryInput[] {
+  return [
+    transfer('refund_credited', source, 'Refund credited to customer', amountPaise, { account: 'platform_revenue' }, {
+      account: 'customer_receivables',
+      partyId: customerId,
+    }),
+    transfer('refund_paid', source, 'Refund paid out', amountPaise, {
+      account: 'customer_receivables',
+      partyId: customerId,
+    }, { account: 'gateway_clearing' }),
+  ].filter((e): e is JournalEntryInput => e !== null);
+}
+
+export function referralCreditGranted(
+  source: SourceRef,
+  customerId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer(
+    'referral_credit_granted',
+    source,
+    'Referral credit granted',
+    amountPaise,
+    { account: 'referral_credit_expense' },
+    { account: 'referral_credit_liability', partyId: customerId },
+  );
+}
+
+/**
+ * Credits redeemed against a service fee: the liability is settled as
+ * revenue the customer did not pay in cash.
+ */
+export function referralCreditApplied(
+  source: SourceRef,
+  customerId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer(
+    'referral_credit_applied',
+    source,
+    'Referral credit applied to service fee',
+    amountPaise,
+    { account: 'referral_credit_liability', partyId: customerId },
+    { account: 'platform_revenue' },
+  );
+}
+
+export function dealerCommissionAccrued(
+  source: SourceRef,
+  dealerId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer(
+    'commission_accrued',
+    source,
+    'Dealer commission earned',
+    amountPaise,
+    { account: 'dealer_commission_expense' },
+    { account: 'dealer_payable', partyId: dealerId },
+  );
+}
+
+export function lawyerFeeAccrued(source: SourceRef, lawyerId: string, amountPaise: number): JournalEntryInput | null {
+  return transfer(
+    'lawyer_fee_accrued',
+    source,
+    'Lawyer fee payable (net of platform commission)',
+    amountPaise,
+    { account: 'lawyer_fee_expense' },
+    { account: 'lawyer_payable', partyId: lawyerId },
+  );
+}
+
+export function franchiseShareAccrued(
+  source: SourceRef,
+  franchiseId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer(
+    'franchise_share_accrued',
+    source,
+    'Franchise revenue share',
+    amountPaise,
+    { account: 'franchise_share_expense' },
+    { account: 'franchise_payable', partyId: franchiseId },
+  );
+}
+
+/**
+ * Settlement of a payable (dealer, lawyer or franchise payout) from the bank.
+ */
+export function payoutPaid(
+  source: SourceRef,
+  payable: 'dealer_payable' | 'lawyer_payable' | 'franchise_payable',
+  partyId: string,
+  amountPaise: number,
+): JournalEntryInput | null {
+  return transfer('payout_paid', source, 'Payout sent', amountPaise, { account: payable, partyId }, { account: 'bank' });
+}
+
+/**
+ * Gateway settlement: the cleared amount (payments less refunds and
+ * adjustments) leaves clearing; Razorpay keeps its fee and the GST on it,
+ * and the rest lands in the bank.
+ */
+export function settlementReceived(
+  source: SourceRef,
+  clearedPaise: number,
+  feesPaise: number,
+  taxPaise: number,
+): JournalEntryInput | null {
+  return entry('settlement_received', source, 'Razorpay settlement', [
+    signed('bank', clearedPaise - feesPaise - taxPaise),
+    { account: 'gateway_fee_expense', debitPaise: feesPaise },
+    { account: 'gst_input_credit', debitPaise: taxPaise },
+    signed('gateway_clearing', -clearedPaise),
+  ]);
+}
+
+/**
+ * Lost chargeback: the amount Razorpay deducted (netted out of a settlement
+ * as an adjustment) is written off.
+ */
+export function chargebackLost(source: SourceRef, amountPaise: number): JournalEntryInput | null {
+  return transfer(
+    'chargeback_lost',
+    source,
+    'Chargeback lost',
+    amountPaise,
+    { account: 'chargeback_expense' },
+    { account: 'gateway_clearing' },
+  );
+}
+
+/**
+ * Wire transfer received for more or less than billed after conversion:
+ * the bank holds the difference, which is an FX gain (positive variance)
+ * or loss (negative).
+ */
+export function wireVarianceAbsorbed(source: SourceRef, variancePaise: number): JournalEntryInput | null {
+  return entry('wire_variance_absorbed', source, 'Wire transfer FX variance', [
+    signed('bank', variancePaise),
+    signed('fx_gain_loss', -variancePaise),
+  ]);
+}
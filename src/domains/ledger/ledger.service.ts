@@ -0,0 +1,755 @@
+// Double-entry ledger service
+// Posts balanced, append-only journal entries for every money-moving event
+// and answers trial balance and account statement queries for ops finance.
+// Postings are idempotent per (sourceType, sourceId, event), so callers and
+// the daily sweep can safely post the same event more than once.
+
+import { JournalEntry, Prisma, PrismaClient, RefundStatus } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import {
+  AccountType,
+  CHART_OF_ACCOUNTS,
+  JournalEntryInput,
+  StatementLine,
+  TrialBalanceRow,
+} from './ledger.types.js';
+import {
+  cashDeposited,
+  chargebackLost,
+  customerPaid,
+  dealerCommissionAccrued,
+  franchiseShareAccrued,
+  lawyerFeeAccrued,
+  payoutPaid,
+  referralCreditApplied,
+  referralCreditGranted,
+  refundCompleted,
+  serviceBilled,
+  settlementReceived,
+  standaloneCashCollected,
+  wireVarianceAbsorbed,
+} from './ledger.postings.js';
+
+type Tx = Prisma.TransactionClient;
+
+const DEBIT_NORMAL: AccountType[] = ['asset', 'expense'];
+
+export function accountCode(baseCode: string, partyId?: string): string {
+  return partyId ? `${baseCode}:${partyId}` : baseCode;
+}
+
+/**
+ * Rejects entries that would unbalance the books.
+ */
+export function assertBalanced(input: JournalEntryInput): void {
+  if (input.lines.length < 2) {
+    throw new BusinessError('LEDGER_ENTRY_INVALID', 'A journal entry needs at least two lines', 422);
+  }
+
+  let debits = 0;
+  let credits = 0;
+  for (const line of input.lines) {
+    const debit = line.debitPaise ?? 0;
+    const credit = line.creditPaise ?? 0;
+    if (!Number.isInteger(debit) || !Number.isInteger(credit) || debit < 0 || credit < 0) {
+      throw new BusinessError('LEDGER_ENTRY_INVALID', 'Line amounts must be non-negative integer paise', 422);
+    }
+    if ((debit > 0) === (credit > 0)) {
+      throw new BusinessError('LEDGER_ENTRY_INVALID', 'Each line must be either a debit or a credit', 422);
+    }
+    const definition = CHART_OF_ACCOUNTS[line.account];
+    if (!definition) {
+      throw new BusinessError('LEDGER_ACCOUNT_UNKNOWN', `Unknown ledger account: ${line.account}`, 422);
+    }
+    if (Boolean(definition.party) !== Boolean(line.partyId)) {
+      throw new BusinessError(
+        'LEDGER_ENTRY_INVALID',
+        `Account ${line.account} ${definition.party ? 'requires' : 'does not take'} a party`,
+        422,
+      );
+    }
+    debits += debit;
+    credits += credit;
+  }
+
+  if (debits !== credits) {
+    throw new BusinessError('LEDGER_UNBALANCED', `Entry ${input.event} is unbalanced`, 422, {
+      debitPaise: debits,
+      creditPaise: credits,
+    });
+  }
+}
+
+export class LedgerService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  // ============================================================
+  // Posting
+  // ============================================================
+
+  /**
+   * Posts a balanced entry. Returns the existing entry when this event has
+   * already been posted for the source. Pass `tx` to post inside the
+   * caller's transaction.
+   */
+  async post(input: JournalEntryInput, tx?: Tx): Promise<JournalEntry> {
+    assertBalanced(input);
+
+    const key = { sourceType: input.sourceType, sourceId: input.sourceId, event: input.event };
+    const client = tx ?? this.prisma;
+    const existing = await client.journalEntry.findUnique({ where: { sourceType_sourceId_event: key } });
+    if (existing) return existing;
+
+    const write = async (db: Tx) => {
+      const lines = [];
+      for (const line of input.lines) {
+        const definition = CHART_OF_ACCOUNTS[line.account];
+        const code = accountCode(line.account, line.partyId);
+        const account = await db.ledgerAccount.upsert({
+          where: { code },
+          update: {},
+          create: {
+            code,
+            baseCode: line.account,
+            partyId: line.partyId ?? null,
+            type: definition.type,
+            name: line.partyId ? `${definition.name} - ${line.partyId}` : definition.name,
+          },
+        });
+        lines.push({
+          accountId: account.id,
+          debitPaise: line.debitPaise ?? 0,
+          creditPaise: line.creditPaise ?? 0,
+          cityId: input.cityId ?? null,
+          postedAt: input.postedAt,
+        });
+      }
+
+      return db.journalEntry.create({
+        data: {
+          ...key,
+          cityId: input.cityId ?? null,
+          serviceRequestId: input.serviceRequestId ?? null,
+          description: input.description,
+          postedAt: input.postedAt,
+          lines: { create: lines },
+        },
+      });
+    };
+
+    try {
+      return tx ? await write(tx) : await this.prisma.$transaction(write);
+    } catch (error: any) {
+      // Lost a race with a concurrent post of the same event
+      if (error?.code === 'P2002' && !tx) {
+        const raced = await this.prisma.journalEntry.findUnique({ where: { sourceType_sourceId_event: key } });
+        if (raced) return raced;
+      }
+      throw error;
+    }
+  }
+
+  private async postAll(inputs: Array<JournalEntryInput | null>): Promise<JournalEntry[]> {
+    const posted: JournalEntry[] = [];
+    for (const input of inputs) {
+      if (input) posted.push(await this.post(input));
+    }
+    return posted;
+  }
+
+  // ============================================================
+  // Domain events
+  // ============================================================
+
+  /**
+   * Paid online, international UPI or wire transfer payment: bill the
+   * customer, then settle the receivable into clearing (or the bank for
+   * wires), and redeem any referral credits used on the payment.
+   */
+  async recordPaymentCaptured(paymentId: string): Promise<JournalEntry[]> {
+    const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+    if (!payment || (payment.status !== 'paid' && payment.status !== 'refunded')) return [];
+
+    const context = await this.resolveServiceRequest(payment.serviceRequestId);
+    const source = {
+      sourceType: 'payment',
+      sourceId: payment.id,
+      cityId: context.cityId,
+      serviceRequestId: context.serviceRequestId,
+      postedAt: payment.paidAt ?? new Date(),
+    };
+
+    const credits = await this.prisma.creditUsageLog.aggregate({
+      where: { paymentId: payment.id },
+      _sum: { amountUsedPaise: true },
+    });
+    const creditsPaise = Number(credits._sum.amountUsedPaise ?? 0);
+
+    const govtFeePaise = await this.unbilledGovtFee(context, payment.amountPaise);
+    const into = payment.paymentMethodType === 'wire_transfer' ? 'bank' : 'gateway_clearing';
+
+    return this.postAll([
+      serviceBilled(source, payment.customerId, payment.amountPaise, govtFeePaise),
+      customerPaid(source, payment.customerId, payment.amountPaise, { account: into }),
+      referralCreditApplied(source, payment.customerId, creditsPaise),
+    ]);
+  }
+
+  /**
+   * Referral credits redeemed on a payment. Also posted by
+   * recordPaymentCaptured; this covers credits deducted after capture.
+   */
+  async recordCreditsApplied(paymentId: string): Promise<JournalEntry[]> {
+    const usage = await this.prisma.creditUsageLog.findMany({ where: { paymentId } });
+    if (usage.length === 0) return [];
+
+    const amountPaise = usage.reduce((sum, u) => sum + Number(u.amountUsedPaise), 0);
+    return this.postAll([
+      referralCreditApplied(
+        {
+          sourceType: 'payment',
+          sourceId: paymentId,
+          cityId: usage[0].tenantId,
+          serviceRequestId: usage[0].serviceRequestId,
+          postedAt: usage[0].createdAt,
+        },
+        usage[0].customerId,
+        amountPaise,
+      ),
+    ]);
+  }
+
+  /**
+   * Agent cash collection. Cash for a service request bills and settles the
+   * customer's receivable; standalone collections go straight to revenue.
+   */
+  async recordCashCollected(cashReceiptId: string): Promise<JournalEntry[]> {
+    const receipt = await this.prisma.cashReceipt.findUnique({
+      where: { id: cashReceiptId },
+      include: { serviceRequest: { select: { id: true, customerId: true, govtFeeEstimatePaise: true } } },
+    });
+    if (!receipt) return [];
+
+    const amountPaise = Number(receipt.amountPaise);
+    const source = {
+      sourceType: 'cash_receipt',
+      sourceId: receipt.id,
+      cityId: receipt.cityId,
+      serviceRequestId: receipt.serviceRequestId,
+      postedAt: receipt.clientTimestamp,
+    };
+
+    if (!receipt.serviceRequest) {
+      return this.postAll([standaloneCashCollected(source, receipt.agentId, amountPaise)]);
+    }
+
+    const govtFeePaise = await this.unbilledGovtFee(
+      {
+        serviceRequestId: receipt.serviceRequest.id,
+        govtFeeEstimatePaise: receipt.serviceRequest.govtFeeEstimatePaise,
+      },
+      amountPaise,
+    );
+    return this.postAll([
+      serviceBilled(source, receipt.serviceRequest.customerId, amountPaise, govtFeePaise),
+      customerPaid(source, receipt.serviceRequest.customerId, amountPaise, {
+        account: 'cash_in_hand',
+        partyId: receipt.agentId,
+      }),
+    ]);
+  }
+
+  async recordCashDeposited(depositId: string): Promise<JournalEntry[]> {
+    const deposit = await this.prisma.cashDeposit.findUnique({ where: { id: depositId } });
+    if (!deposit || deposit.status !== 'verified') return [];
+
+    return this.postAll([
+      cashDeposited(
+        {
+          sourceType: 'cash_deposit',
+          sourceId: deposit.id,
+          cityId: deposit.cityId,
+          postedAt: deposit.verifiedAt ?? new Date(),
+        },
+        deposit.agentId,
+        Number(deposit.amountPaise),
+      ),
+    ]);
+  }
+
+  async recordRefundCompleted(refundId: string): Promise<JournalEntry[]> {
+    const refund = await this.prisma.refund.findUnique({ where: { id: refundId } });
+    if (!refund || refund.status !== RefundStatus.COMPLETED) return [];
+
+    return this.postAll(
+      refundCompleted(
+        {
+          sourceType: 'refund',
+          sourceId: refund.id,
+          cityId: refund.cityId,
+          serviceRequestId: refund.serviceRequestId,
+          postedAt: refund.processedAt ?? new Date(),
+        },
+        refund.customerId,
+        refund.amountPaise,
+      ),
+    );
+  }
+
+  async recordReferralCreditGranted(creditId: string): Promise<JournalEntry[]> {
+    const credit = await this.prisma.customerReferralCredit.findUnique({ where: { id: creditId } });
+    if (!credit) return [];
+
+    return this.postAll([
+      referralCreditGranted(
+        {
+          sourceType: 'referral_credit',
+          sourceId: credit.id,
+          cityId: credit.cityId,
+          serviceRequestId: credit.serviceRequestId,
+          postedAt: credit.createdAt,
+        },
+        credit.referrerCustomerId,
+        credit.creditAmountPaise,
+      ),
+    ]);
+  }
+
+  async recordDealerCommission(commissionId: string): Promise<JournalEntry[]> {
+    const commission = await this.prisma.dealerCommission.findUnique({ where: { id: commissionId } });
+    if (!commission) return [];
+
+    return this.postAll([
+      dealerCommissionAccrued(
+        {
+          sourceType: 'dealer_commission',
+          sourceId: commission.id,
+          cityId: commission.cityId,
+          serviceRequestId: commission.serviceRequestId,
+          postedAt: commission.earnedDate,
+        },
+        commission.dealerId,
+        Number(commission.commissionAmountPaise),
+      ),
+    ]);
+  }
+
+  async recordDealerPayout(payoutId: string): Promise<JournalEntry[]> {
+    const payout = await this.prisma.dealerPayout.findUnique({ where: { id: payoutId } });
+    if (!payout || payout.status !== 'COMPLETED') return [];
+
+    return this.postAll([
+      payoutPaid(
+        {
+          sourceType: 'dealer_payout',
+          sourceId: payout.id,
+          cityId: payout.cityId,
+          postedAt: payout.processedAt ?? new Date(),
+        },
+        'dealer_payable',
+        payout.dealerId,
+        Number(payout.totalAmountPaise),
+      ),
+    ]);
+  }
+
+  /**
+   * Lawyer payouts accrue when created and settle once completed.
+   */
+  async recordLawyerPayout(payoutId: string): Promise<JournalEntry[]> {
+    const payout = await this.prisma.lawyerPayout.findUnique({
+      where: { id: payoutId },
+      include: { legalCase: { select: { cityId: true } } },
+    });
+    if (!payout) return [];
+
+    const source = {
+      sourceType: 'lawyer_payout',
+      sourceId: payout.id,
+      cityId: payout.legalCase.cityId,
+      postedAt: payout.createdAt,
+    };
+    return this.postAll([
+      lawyerFeeAccrued(source, payout.lawyerId, payout.netPayoutInPaise),
+      payout.payoutStatus === 'COMPLETED'
+        ? payoutPaid(
+            { ...source, postedAt: payout.processedAt ?? new Date() },
+            'lawyer_payable',
+            payout.lawyerId,
+            payout.netPayoutInPaise,
+          )
+        : null,
+    ]);
+  }
+
+  /**
+   * Per-service franchise share. Monthly aggregate rows written by the
+   * territory rollup are summaries of these and are not posted.
+   */
+  async recordFranchiseShare(revenueId: string): Promise<JournalEntry[]> {
+    const revenue = await this.prisma.franchiseRevenue.findUnique({ where: { id: revenueId } });
+    if (!revenue || revenue.serviceRequestId.startsWith('aggregate-')) return [];
+
+    return this.postAll([
+      franchiseShareAccrued(
+        {
+          sourceType: 'franchise_revenue',
+          sourceId: revenue.id,
+          cityId: revenue.cityId,
+          serviceRequestId: revenue.serviceRequestId,
+          postedAt: revenue.createdAt,
+        },
+        revenue.franchiseId,
+        revenue.franchiseSharePaise,
+      ),
+    ]);
+  }
+
+  async recordFranchisePayout(franchiseId: string, month: string): Promise<JournalEntry[]> {
+    const paid = await this.prisma.franchiseRevenue.findMany({
+      where: { franchiseId, month, status: 'paid', NOT: { serviceRequestId: { startsWith: 'aggregate-' } } },
+    });
+    if (paid.length === 0) return [];
+
+    return this.postAll([
+      payoutPaid(
+        {
+          sourceType: 'franchise_payout',
+          sourceId: `${franchiseId}:${month}`,
+          cityId: paid[0].cityId,
+          postedAt: paid[0].paidAt ?? new Date(),
+        },
+        'franchise_payable',
+        franchiseId,
+        paid.reduce((sum, r) => sum + r.franchiseSharePaise, 0),
+      ),
+    ]);
+  }
+
+  /**
+   * Razorpay settlement, from the imported recon lines for that settlement.
+   */
+  async recordSettlement(settlementId: string): Promise<JournalEntry[]> {
+    const lines = await this.prisma.settlementLine.findMany({ where: { settlementId } });
+    if (lines.length === 0) return [];
+
+    let clearedPaise = 0;
+    for (const line of lines) {
+      clearedPaise += line.entityType === 'payment' ? line.amountPaise : -line.amountPaise;
+    }
+    const settledAt = lines
+      .map((l) => l.settledAt)
+      .filter((d): d is Date => d !== null)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    return this.postAll([
+      settlementReceived(
+        { sourceType: 'razorpay_settlement', sourceId: settlementId, postedAt: settledAt ?? new Date() },
+        clearedPaise,
+        lines.reduce((sum, l) => sum + l.feePaise, 0),
+        lines.reduce((sum, l) => sum + l.taxPaise, 0),
+      ),
+    ]);
+  }
+
+  async recordChargebackLost(disputeId: string): Promise<JournalEntry[]> {
+    const dispute = await this.prisma.paymentDispute.findUnique({ where: { id: disputeId } });
+    if (!dispute || dispute.status !== 'lost') return [];
+
+    return this.postAll([
+      chargebackLost(
+        {
+          sourceType: 'payment_dispute',
+          sourceId: dispute.id,
+          cityId: dispute.cityId,
+          serviceRequestId: dispute.serviceRequestId,
+          postedAt: dispute.resolvedAt ?? new Date(),
+        },
+        dispute.amountDeductedPaise || dispute.amountPaise,
+      ),
+    ]);
+  }
+
+  /**
+   * FX variance on a reconciled wire transfer that was absorbed rather than
+   * chased with the customer.
+   */
+  async recordWireVariance(wireTransferId: string): Promise<JournalEntry[]> {
+    const wt = await this.prisma.wireTransfer.findUnique({ where: { id: wireTransferId } });
+    if (!wt || wt.status !== 'reconciled' || !wt.varianceAmount) return [];
+
+    const context = await this.resolveServiceRequest(wt.serviceRequestId);
+    return this.postAll([
+      wireVarianceAbsorbed(
+        {
+          sourceType: 'wire_transfer',
+          sourceId: wt.id,
+          cityId: context.cityId,
+          serviceRequestId: context.serviceRequestId,
+          postedAt: wt.reconciledAt ?? new Date(),
+        },
+        wt.varianceAmount,
+      ),
+    ]);
+  }
+
+  /**
+   * Posts anything recorded since `since` that is missing from the journal,
+   * e.g. when an inline post failed or the change came from a bulk update.
+   */
+  async postMissing(since: Date): Promise<{ posted: number; failed: number }> {
+    const [
+      payments,
+      receipts,
+      deposits,
+      refunds,
+      credits,
+      commissions,
+      dealerPayouts,
+      lawyerPayouts,
+      franchiseRevenues,
+      settlements,
+      lostDisputes,
+      wireTransfers,
+    ] = await Promise.all([
+      this.prisma.payment.findMany({ where: { status: { in: ['paid', 'refunded'] }, paidAt: { gte: since } }, select: { id: true } }),
+      this.prisma.cashReceipt.findMany({ where: { createdAt: { gte: since } }, select: { id: true } }),
+      this.prisma.cashDeposit.findMany({ where: { status: 'verified', verifiedAt: { gte: since } }, select: { id: true } }),
+      this.prisma.refund.findMany({ where: { status: RefundStatus.COMPLETED, updatedAt: { gte: since } }, select: { id: true } }),
+      this.prisma.customerReferralCredit.findMany({ where: { createdAt: { gte: since } }, select: { id: true } }),
+      this.prisma.dealerCommission.findMany({ where: { createdAt: { gte: since } }, select: { id: true } }),
+      this.prisma.dealerPayout.findMany({ where: { status: 'COMPLETED', updatedAt: { gte: since } }, select: { id: true } }),
+      this.prisma.lawyerPayout.findMany({ where: { updatedAt: { gte: since } }, select: { id: true } }),
+      this.prisma.franchiseRevenue.findMany({
+        where: { updatedAt: { gte: since } },
+        select: { id: true, franchiseId: true, month: true, status: true },
+      }),
+      this.prisma.settlementLine.findMany({
+        where: { createdAt: { gte: since } },
+        distinct: ['settlementId'],
+        select: { settlementId: true },
+      }),
+      this.prisma.paymentDispute.findMany({ where: { status: 'lost', updatedAt: { gte: since } }, select: { id: true } }),
+      this.prisma.wireTransfer.findMany({
+        where: { status: 'reconciled', reconciledAt: { gte: since }, varianceAmount: { not: 0 } },
+        select: { id: true },
+      }),
+    ]);
+
+    const franchisePayouts = new Map<string, { franchiseId: string; month: string }>();
+    for (const r of franchiseRevenues.filter((r) => r.status === 'paid')) {
+      franchisePayouts.set(`${r.franchiseId}:${r.month}`, { franchiseId: r.franchiseId, month: r.month });
+    }
+
+    const tasks: Array<() => Promise<JournalEntry[]>> = [
+      ...payments.map((p) => () => this.recordPaymentCaptured(p.id)),
+      ...receipts.map((r) => () => this.recordCashCollected(r.id)),
+      ...deposits.map((d) => () => this.recordCashDeposited(d.id)),
+      ...refunds.map((r) => () => this.recordRefundCompleted(r.id)),
+      ...credits.map((c) => () => this.recordReferralCreditGranted(c.id)),
+      ...commissions.map((c) => () => this.recordDealerCommission(c.id)),
+      ...dealerPayouts.map((p) => () => this.recordDealerPayout(p.id)),
+      ...lawyerPayouts.map((p) => () => this.recordLawyerPayout(p.id)),
+      ...franchiseRevenues.map((r) => () => this.recordFranchiseShare(r.id)),
+      ...[...franchisePayouts.values()].map((f) => () => this.recordFranchisePayout(f.franchiseId, f.month)),
+      ...settlements.map((s) => () => this.recordSettlement(s.settlementId)),
+      ...lostDisputes.map((d) => () => this.recordChargebackLost(d.id)),
+      ...wireTransfers.map((w) => () => this.recordWireVariance(w.id)),
+    ];
+
+    let posted = 0;
+    let failed = 0;
+    for (const task of tasks) {
+      try {
+        posted += (await task()).length;
+      } catch {
+        failed++;
+      }
+    }
+    return { posted, failed };
+  }
+
+  // ============================================================
+  // Reporting
+  // ============================================================
+
+  /**
+   * Trial balance as of a date, optionally for one city. By default party
+   * sub-accounts are rolled up into their control account.
+   */
+  async getTrialBalance(options: { cityId?: string; asOf?: Date; rollup?: boolean }) {
+    const { cityId, asOf, rollup = true } = options;
+    const sums = await this.prisma.journalLine.groupBy({
+      by: ['accountId'],
+      where: {
+        ...(cityId && { cityId }),
+        ...(asOf && { postedAt: { lte: asOf } }),
+      },
+      _sum: { debitPaise: true, creditPaise: true },
+    });
+    const accounts = await this.prisma.ledgerAccount.findMany({
+      where: { id: { in: sums.map((s) => s.accountId) } },
+    });
+    const byId = new Map(accounts.map((a) => [a.id, a]));
+
+    const rows = new Map<string, TrialBalanceRow>();
+    for (const sum of sums) {
+      const account = byId.get(sum.accountId);
+      if (!account) continue;
+      const code = rollup ? account.baseCode : account.code;
+      const row = rows.get(code) ?? {
+        code,
+        name: rollup ? CHART_OF_ACCOUNTS[account.baseCode as keyof typeof CHART_OF_ACCOUNTS]?.name ?? account.name : account.name,
+        type: account.type as AccountType,
+        debitPaise: 0,
+        creditPaise: 0,
+        balancePaise: 0,
+      };
+      row.debitPaise += sum._sum.debitPaise ?? 0;
+      row.creditPaise += sum._sum.creditPaise ?? 0;
+      row.balancePaise = normalBalance(row.type, row.debitPaise, row.creditPaise);
+      rows.set(code, row);
+    }
+
+    const accountsList = [...rows.values()].sort((a, b) => a.code.localeCompare(b.code));
+    const totalDebitPaise = accountsList.reduce((sum, r) => sum + r.debitPaise, 0);
+    const totalCreditPaise = accountsList.reduce((sum, r) => sum + r.creditPaise, 0);
+
+    return {
+      asOf: (asOf ?? new Date()).toISOString(),
+      cityId: cityId ?? null,
+      accounts: accountsList,
+      totalDebitPaise,
+      totalCreditPaise,
+      balanced: totalDebitPaise === totalCreditPaise,
+    };
+  }
+
+  /**
+   * Statement for one account: opening balance at `from`, then each line
+   * with a running balance on the account's normal side.
+   */
+  async getAccountStatement(
+    code: string,
+    options: { from?: Date; to?: Date; cityId?: string; limit?: number },
+  ) {
+    const { from, to, cityId, limit = 100 } = options;
+    const account = await this.prisma.ledgerAccount.findUnique({ where: { code } });
+    if (!account) {
+      throw new BusinessError('LEDGER_ACCOUNT_NOT_FOUND', `Ledger account ${code} not found`, 404);
+    }
+    const type = account.type as AccountType;
+
+    const opening = from
+      ? await this.prisma.journalLine.aggregate({
+          where: { accountId: account.id, postedAt: { lt: from }, ...(cityId && { cityId }) },
+          _sum: { debitPaise: true, creditPaise: true },
+        })
+      : null;
+    const openingBalancePaise = opening
+      ? normalBalance(type, opening._sum.debitPaise ?? 0, opening._sum.creditPaise ?? 0)
+      : 0;
+
+    const lines = await this.prisma.journalLine.findMany({
+      where: {
+        accountId: account.id,
+        ...(cityId && { cityId }),
+        ...((from || to) && {
+          postedAt: {
+            ...(from && { gte: from }),
+            ...(to && { lte: to }),
+          },
+        }),
+      },
+      include: { entry: { select: { event: true, description: true } } },
+      orderBy: [{ postedAt: 'asc' }, { createdAt: 'asc' }],
+      take: limit + 1,
+    });
+
+    let running = openingBalancePaise;
+    const statement: StatementLine[] = lines.slice(0, limit).map((line) => {
+      running += normalBalance(type, line.debitPaise, line.creditPaise);
+      return {
+        entryId: line.entryId,
+        event: line.entry.event,
+        description: line.entry.description,
+        postedAt: line.postedAt.toISOString(),
+        debitPaise: line.debitPaise,
+        creditPaise: line.creditPaise,
+        runningBalancePaise: running,
+      };
+    });
+
+    return {
+      account: { code: account.code, name: account.name, type },
+      openingBalancePaise,
+      closingBalancePaise: running,
+      lines: statement,
+      hasMore: lines.length > limit,
+    };
+  }
+
+  async listAccounts(options: { baseCode?: string; limit?: number; offset?: number }) {
+    const { baseCode, limit = 50, offset = 0 } = options;
+    const where = baseCode ? { baseCode } : {};
+    const [accounts, total] = await Promise.all([
+      this.prisma.ledgerAccount.findMany({ where, orderBy: { code: 'asc' }, take: limit, skip: offset }),
+      this.prisma.ledgerAccount.count({ where }),
+    ]);
+    return { accounts, total, limit, offset };
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  /**
+   * Payment.serviceRequestId holds a service instance id for app orders and
+   * a service request id for agent-created ones.
+   */
+  private async resolveServiceRequest(id: string): Promise<{
+    serviceRequestId: string | null;
+    cityId: string | null;
+    govtFeeEstimatePaise: number | null;
+  }> {
+    const select = { id: true, cityId: true, govtFeeEstimatePaise: true } as const;
+    const request =
+      (await this.prisma.serviceRequest.findUnique({ where: { id }, select })) ??
+      (await this.prisma.serviceRequest.findFirst({
+        where: { serviceInstanceId: id },
+        orderBy: { createdAt: 'desc' },
+        select,
+      }));
+    if (request) {
+      return { serviceRequestId: request.id, cityId: request.cityId, govtFeeEstimatePaise: request.govtFeeEstimatePaise };
+    }
+
+    const instance = await this.prisma.serviceInstance.findUnique({ where: { id }, select: { cityId: true } });
+    return { serviceRequestId: null, cityId: instance?.cityId ?? null, govtFeeEstimatePaise: null };
+  }
+
+  /**
+   * Government fees are collected first (see payment-structure.calculator),
+   * so a payment covers whatever part of the estimate is not yet billed.
+   */
+  private async unbilledGovtFee(
+    context: { serviceRequestId: string | null; govtFeeEstimatePaise: number | null },
+    amountPaise: number,
+  ): Promise<number> {
+    if (!context.serviceRequestId || !context.govtFeeEstimatePaise) return 0;
+
+    const billed = await this.prisma.journalLine.aggregate({
+      where: {
+        account: { code: 'govt_fee_payable' },
+        entry: { serviceRequestId: context.serviceRequestId },
+      },
+      _sum: { creditPaise: true },
+    });
+    const remaining = context.govtFeeEstimatePaise - (billed._sum.creditPaise ?? 0);
+    return Math.min(amountPaise, Math.max(0, remaining));
+  }
+}
+
+function normalBalance(type: AccountType, debitPaise: number, creditPaise: number): number {
+  return DEBIT_NORMAL.includes(type) ? debitPaise - creditPaise : creditPaise - debitPaise;
+}
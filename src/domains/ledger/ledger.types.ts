@@ -0,0 +1,95 @@
+// Double-entry ledger types and chart of accounts
+// All amounts are integer paise; each line is either a debit or a credit.
+
+export type AccountType = 'asset' | 'liability' | 'revenue' | 'expense';
+
+export interface AccountDefinition {
+  type: AccountType;
+  name: string;
+  // Party accounts carry a sub-ledger per customer/agent/dealer/...
+  party?: 'customer' | 'agent' | 'dealer' | 'lawyer' | 'franchise';
+}
+
+export type AccountBaseCode =
+  | 'gateway_clearing'
+  | 'bank'
+  | 'cash_in_hand'
+  | 'customer_receivables'
+  | 'gst_input_credit'
+  | 'govt_fee_payable'
+  | 'dealer_payable'
+  | 'lawyer_payable'
+  | 'franchise_payable'
+  | 'referral_credit_liability'
+  | 'platform_revenue'
+  | 'dealer_commission_expense'
+  | 'lawyer_fee_expense'
+  | 'franchise_share_expense'
+  | 'referral_credit_expense'
+  | 'gateway_fee_expense'
+  | 'chargeback_expense'
+  | 'fx_gain_loss';
+
+export const CHART_OF_ACCOUNTS: Record<AccountBaseCode, AccountDefinition> = {
+  // Assets
+  gateway_clearing: { type: 'asset', name: 'Payment gateway clearing' },
+  bank: { type: 'asset', name: 'Bank' },
+  cash_in_hand: { type: 'asset', name: 'Cash in hand', party: 'agent' },
+  customer_receivables: { type: 'asset', name: 'Customer receivables', party: 'customer' },
+  gst_input_credit: { type: 'asset', name: 'GST input tax credit' },
+  // Liabilities
+  govt_fee_payable: { type: 'liability', name: 'Government fee pass-through' },
+  dealer_payable: { type: 'liability', name: 'Dealer commissions payable', party: 'dealer' },
+  lawyer_payable: { type: 'liability', name: 'Lawyer fees payable', party: 'lawyer' },
+  franchise_payable: { type: 'liability', name: 'Franchise share payable', party: 'franchise' },
+  referral_credit_liability: { type: 'liability', name: 'Referral credit liability', party: 'customer' },
+  // Revenue
+  platform_revenue: { type: 'revenue', name: 'Platform service revenue' },
+  // Expenses
+  dealer_commission_expense: { type: 'expense', name: 'Dealer commission expense' },
+  lawyer_fee_expense: { type: 'expense', name: 'Lawyer fee expense' },
+  franchise_share_expense: { type: 'expense', name: 'Franchise revenue share' },
+  referral_credit_expense: { type: 'expense', name: 'Referral credit expense' },
+  gateway_fee_expense: { type: 'expense', name: 'Payment gateway fees' },
+  chargeback_expense: { type: 'expense', name: 'Chargebacks lost' },
+  // Debit balance is a net loss, credit balance a net gain
+  fx_gain_loss: { type: 'expense', name: 'Foreign exchange loss (gain)' },
+};
+
+export interface JournalLineInput {
+  account: AccountBaseCode;
+  partyId?: string;
+  debitPaise?: number;
+  creditPaise?: number;
+}
+
+export interface JournalEntryInput {
+  event: string;
+  sourceType: string;
+  sourceId: string;
+  cityId?: string | null;
+  serviceRequestId?: string | null;
+  description: string;
+  postedAt: Date;
+  lines: JournalLineInput[];
+}
+
+export interface TrialBalanceRow {
+  code: string;
+  name: string;
+  type: AccountType;
+  debitPaise: number;
+  creditPaise: number;
+  // Positive on the account's normal side (debit for assets/expenses)
+  balancePaise: number;
+}
+
+export interface StatementLine {
+  entryId: string;
+  event: string;
+  description: string;
+  postedAt: string;
+  debitPaise: number;
+  creditPaise: number;
+  runningBalancePaise: number;
+}
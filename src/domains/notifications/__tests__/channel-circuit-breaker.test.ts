@@ -0,0 +1,174 @@
+/**
+ * Tests for ChannelCircuitBreaker
+ * Covers: sliding-window tripping, half-open probe limiting, template scopes,
+ *         manual overrides, Redis store commands and local fallback
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  BreakerStore,
+  ChannelCircuitBreaker,
+  LocalBreakerStore,
+  RedisBreakerStore,
+  breakerKeys,
+} from '../channel-circuit-breaker';
+
+const WA_PAYMENT = { channel: 'whatsapp', provider: 'msg91', templateScope: 'payment_confirmation' };
+const WA_RECEIPT = { channel: 'whatsapp', provider: 'msg91', templateScope: 'receipt_delivery' };
+
+async function fail(breaker: ChannelCircuitBreaker, target: typeof WA_PAYMENT, times: number) {
+  for (let i = 0; i < times; i++) await breaker.recordFailure(target);
+}
+
+describe('ChannelCircuitBreaker', () => {
+  let breaker: ChannelCircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T10:00:00.000Z'));
+    breaker = new ChannelCircuitBreaker(new LocalBreakerStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('builds provider and template-scope keys', () => {
+    expect(breakerKeys(WA_PAYMENT)).toEqual([
+      'whatsapp:msg91',
+      'whatsapp:msg91:tpl:payment_confirmation',
+    ]);
+    expect(breakerKeys({ channel: 'push', provider: 'fcm' })).toEqual(['push:fcm']);
+  });
+
+  test('stays closed until the window has enough calls', async () => {
+    await fail(breaker, WA_PAYMENT, 4);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+
+    await fail(breaker, WA_PAYMENT, 1);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(false);
+  });
+
+  test('stays closed while the failure rate is below the threshold', async () => {
+    for (let i = 0; i < 8; i++) await breaker.recordSuccess(WA_PAYMENT);
+    await fail(breaker, WA_PAYMENT, 5);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+  });
+
+  test('forgets failures that slide out of the window', async () => {
+    await fail(breaker, WA_PAYMENT, 4);
+    vi.advanceTimersByTime(61_000);
+    await fail(breaker, WA_PAYMENT, 1);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+  });
+
+  test('opens only the failing template scope when the provider is healthy', async () => {
+    for (let i = 0; i < 20; i++) await breaker.recordSuccess(WA_RECEIPT);
+    await fail(breaker, WA_PAYMENT, 5);
+
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(false);
+    expect(await breaker.canAttempt(WA_RECEIPT)).toBe(true);
+  });
+
+  test('allows a single probe when half-open and closes on success', async () => {
+    await fail(breaker, WA_PAYMENT, 5);
+    vi.advanceTimersByTime(60_000);
+
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(false);
+
+    await breaker.recordSuccess(WA_PAYMENT);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+  });
+
+  test('re-opens when the probe fails', async () => {
+    await fail(breaker, WA_PAYMENT, 5);
+    vi.advanceTimersByTime(60_000);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+
+    await breaker.recordFailure(WA_PAYMENT);
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(false);
+
+    const { breakers } = await breaker.getStatus();
+    expect(breakers.find((b) => b.key === 'whatsapp:msg91')?.mode).toBe('open');
+  });
+
+  test('honours forced states and clears them with auto', async () => {
+    await breaker.forceState('whatsapp:msg91', 'open', 'admin-1', 5 * 60_000);
+    expect(await breaker.canAttempt(WA_RECEIPT)).toBe(false);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(await breaker.canAttempt(WA_RECEIPT)).toBe(true);
+
+    await fail(breaker, WA_PAYMENT, 5);
+    const forced = await breaker.forceState('whatsapp:msg91:tpl:payment_confirmation', 'closed', 'admin-1');
+    expect(forced.mode).toBe('closed');
+    expect(forced.override?.setBy).toBe('admin-1');
+
+    await breaker.forceState('whatsapp:msg91', 'auto', 'admin-1');
+    expect(await breaker.canAttempt(WA_PAYMENT)).toBe(true);
+  });
+
+  test('reports window counts and backend in the status', async () => {
+    await breaker.recordSuccess(WA_PAYMENT);
+    await breaker.recordFailure(WA_PAYMENT);
+
+    const status = await breaker.getStatus();
+    expect(status.backend).toBe('shared');
+    expect(status.breakers[0]).toMatchObject({
+      key: 'whatsapp:msg91',
+      mode: 'closed',
+      calls: 2,
+      failures: 1,
+      failureRate: 0.5,
+    });
+  });
+
+  test('falls back to local state when the shared store is unreachable', async () => {
+    const down = new Proxy({} as BreakerStore, {
+      get: () => () => Promise.reject(new Error('ECONNREFUSED')),
+    });
+    const resilient = new ChannelCircuitBreaker(down);
+
+    await fail(resilient, WA_PAYMENT, 5);
+    expect(await resilient.canAttempt(WA_PAYMENT)).toBe(false);
+    expect((await resilient.getStatus()).backend).toBe('local');
+  });
+});
+
+describe('RedisBreakerStore', () => {
+  test('records outcomes atomically and reads window counts', async () => {
+    const redis = { call: vi.fn().mockResolvedValue([3, 1]) };
+    const store = new RedisBreakerStore(redis as any);
+
+    const counts = await store.recordOutcome('sms:msg91', 1_000_000, true);
+
+    expect(counts).toEqual({ calls: 3, failures: 1 });
+    const [command, , numKeys, callsKey, failuresKey, indexKey, at, since] = redis.call.mock.calls[0];
+    expect(command).toBe('EVAL');
+    expect(numKeys).toBe(3);
+    expect([callsKey, failuresKey, indexKey]).toEqual([
+      'notif:cb:sms:msg91:calls',
+      'notif:cb:sms:msg91:failures',
+      'notif:cb:index',
+    ]);
+    expect(at).toBe(1_000_000);
+    expect(since).toBe(940000);
+  });
+
+  test('stores overrides with an expiry', async () => {
+    const redis = { call: vi.fn().mockResolvedValue('OK') };
+    const store = new RedisBreakerStore(redis as any);
+    const expiresAt = Date.now() + 60_000;
+
+    await store.setOverride('push:fcm', { state: 'open', setBy: 'admin', setAt: Date.now(), expiresAt });
+
+    expect(redis.call).toHaveBeenCalledWith(
+      'SET',
+      'notif:cb:push:fcm:override',
+      expect.any(String),
+      'PX',
+      expect.any(Number),
+    );
+  });
+});
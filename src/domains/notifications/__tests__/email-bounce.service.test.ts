@@ -0,0 +1,191 @@
+/**
+ * Tests for EmailBounceService and EmailAdapter
+ * Covers: webhook signatures, hard/soft bounce and complaint opt-outs,
+ *         adapter recipient resolution, receipt attachments and SMTP rejections
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import crypto from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+
+vi.mock('../../../shared/config/env', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/config/env')>();
+  return { env: { ...actual.env, EMAIL_WEBHOOK_SECRET: 'whsec_test', EMAIL_FROM: 'Pravesh <no-reply@pravesh.in>' } };
+});
+
+vi.mock('../../payments/receipt-pdf.service', () => ({
+  ReceiptPdfService: vi.fn().mockImplementation(() => ({
+    generateReceipt: vi.fn().mockResolvedValue(Buffer.from('%PDF-1.4')),
+  })),
+}));
+
+import { EmailBounceService, SOFT_BOUNCE_LIMIT } from '../email-bounce.service';
+import { EmailAdapter, textToHtml } from '../email.adapter';
+import { SmtpError } from '../../../core/integrations/smtp.client';
+
+function createMockPrisma() {
+  return {
+    notificationLog: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      updateMany: vi.fn(),
+    },
+    user: {
+      findFirst: vi.fn().mockResolvedValue({ id: 'user-1' }),
+      findUnique: vi.fn().mockResolvedValue({ email: 'asha@example.com' }),
+    },
+    emailBounce: {
+      create: vi.fn(),
+      count: vi.fn().mockResolvedValue(1),
+    },
+    notificationOptOut: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn(),
+    },
+  } as unknown as PrismaClient;
+}
+
+describe('EmailBounceService', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let service: EmailBounceService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = createMockPrisma();
+    service = new EmailBounceService(mockPrisma);
+  });
+
+  test('verifies the HMAC signature of the body', () => {
+    const body = JSON.stringify({ events: [] });
+    const signature = crypto.createHmac('sha256', 'whsec_test').update(body).digest('hex');
+
+    expect(service.verifySignature(body, signature)).toBe(true);
+    expect(service.verifySignature(body, 'deadbeef')).toBe(false);
+    expect(service.verifySignature(body, '')).toBe(false);
+  });
+
+  test('opts the logged recipient out of email on a hard bounce', async () => {
+    (mockPrisma.notificationLog.findFirst as any).mockResolvedValue({ userId: 'user-9' });
+
+    const result = await service.recordEvent({
+      type: 'bounce',
+      bounceType: 'hard',
+      email: 'Asha@Example.com',
+      messageId: '<m-1@pravesh.in>',
+      reason: '550 5.1.1 no such user',
+    });
+
+    expect(result).toEqual({ userId: 'user-9', optedOut: true });
+    expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+    expect(mockPrisma.emailBounce.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-9', email: 'asha@example.com', bounceType: 'hard' }),
+    });
+    expect(mockPrisma.notificationLog.updateMany).toHaveBeenCalledWith({
+      where: { externalMessageId: '<m-1@pravesh.in>' },
+      data: expect.objectContaining({ status: 'failed', failureReason: 'hard bounce: 550 5.1.1 no such user' }),
+    });
+    expect(mockPrisma.notificationOptOut.upsert).toHaveBeenCalledWith({
+      where: { userId_channel: { userId: 'user-9', channel: 'email' } },
+      update: {},
+      create: expect.objectContaining({ userId: 'user-9', channel: 'email' }),
+    });
+  });
+
+  test('opts out on a complaint without failing the log entry', async () => {
+    const result = await service.recordEvent({ type: 'complaint', email: 'asha@example.com', messageId: '<m-2@pravesh.in>' });
+
+    expect(result.optedOut).toBe(true);
+    expect(mockPrisma.notificationLog.updateMany).not.toHaveBeenCalled();
+  });
+
+  test('opts out only after repeated soft bounces', async () => {
+    let result = await service.recordEvent({ type: 'bounce', bounceType: 'soft', email: 'asha@example.com' });
+    expect(result.optedOut).toBe(false);
+    expect(mockPrisma.notificationOptOut.upsert).not.toHaveBeenCalled();
+
+    (mockPrisma.emailBounce.count as any).mockResolvedValue(SOFT_BOUNCE_LIMIT);
+    result = await service.recordEvent({ type: 'bounce', bounceType: 'soft', email: 'asha@example.com' });
+    expect(result.optedOut).toBe(true);
+  });
+
+  test('records the bounce but cannot opt out an unknown address', async () => {
+    (mockPrisma.user.findFirst as any).mockResolvedValue(null);
+
+    const result = await service.processEvents([{ type: 'bounce', email: 'stranger@example.com' }]);
+
+    expect(result).toEqual({ processed: 1, optedOut: 0 });
+    expect(mockPrisma.emailBounce.create).toHaveBeenCalled();
+    expect(mockPrisma.notificationOptOut.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('EmailAdapter', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let smtp: { send: ReturnType<typeof vi.fn> };
+  let adapter: EmailAdapter;
+
+  const PARAMS = {
+    userId: 'user-1',
+    subject: 'Payment received',
+    body: 'We received ₹4,500.\n\nThank you.',
+    contextData: {} as Record<string, string>,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = createMockPrisma();
+    smtp = { send: vi.fn().mockResolvedValue({ messageId: '<m-1@pravesh.in>', response: 'queued' }) };
+    adapter = new EmailAdapter(mockPrisma, smtp as any);
+  });
+
+  test("sends to the user's address with an HTML alternative", async () => {
+    const result = await adapter.send(PARAMS);
+
+    expect(result).toEqual({ messageId: '<m-1@pravesh.in>', status: 'sent' });
+    expect(smtp.send).toHaveBeenCalledWith({
+      from: 'Pravesh <no-reply@pravesh.in>',
+      to: 'asha@example.com',
+      subject: 'Payment received',
+      text: PARAMS.body,
+      html: textToHtml(PARAMS.body),
+      attachments: [],
+    });
+  });
+
+  test('attaches payment receipts requested in _attachments', async () => {
+    await adapter.send({
+      ...PARAMS,
+      contextData: {
+        _email: 'nri@example.co.uk',
+        _attachments: JSON.stringify([{ type: 'payment_receipt', paymentId: 'pay-1' }]),
+      },
+    });
+
+    const message = smtp.send.mock.calls[0][0];
+    expect(message.to).toBe('nri@example.co.uk');
+    expect(message.attachments).toEqual([
+      { filename: 'receipt-pay-1.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4') },
+    ]);
+  });
+
+  test('skips opted-out users and throws without an address', async () => {
+    (mockPrisma.notificationOptOut.findFirst as any).mockResolvedValueOnce({ id: 'opt-1' });
+    expect(await adapter.send(PARAMS)).toEqual({ messageId: '', status: 'opted_out' });
+
+    (mockPrisma.user.findUnique as any).mockResolvedValue({ email: null });
+    await expect(adapter.send(PARAMS)).rejects.toThrow('User has no email address');
+    expect(smtp.send).not.toHaveBeenCalled();
+  });
+
+  test('records a hard bounce when the relay rejects the mailbox', async () => {
+    smtp.send.mockRejectedValue(new SmtpError('rcpt rejected: 550 5.1.1', 550, 'rcpt'));
+
+    await expect(adapter.send(PARAMS)).rejects.toBeInstanceOf(SmtpError);
+    expect(mockPrisma.emailBounce.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: 'asha@example.com', type: 'bounce', bounceType: 'hard' }),
+    });
+    expect(mockPrisma.notificationOptOut.upsert).toHaveBeenCalled();
+  });
+
+  test('escapes text when building the HTML alternative', () => {
+    expect(textToHtml('a < b\nc')).toContain('<p>a &lt; b<br>c</p>');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for notification delivery policy helpers.
+ * Covers: quiet hours (wrapping midnight, timezones), NRI timezone
+ *         resolution, priority defaults and digest planning
+ */
+import { describe, test, expect } from 'vitest';
+import {
+  DeliveryPolicyPreferences,
+  bypassesPolicy,
+  isInQuietHours,
+  planDigest,
+  quietHoursEndAfter,
+  resolvePriority,
+  resolveTimezone,
+} from '../notification-delivery-policy';
+
+const IST_PREFS: DeliveryPolicyPreferences = {
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'Asia/Kolkata',
+  digestMode: 'per_service',
+};
+
+// 23:00 IST on 19 Oct 2026
+const LATE_EVENING_IST = new Date('2026-10-19T17:30:00.000Z');
+// 15:00 IST
+const AFTERNOON_IST = new Date('2026-10-19T09:30:00.000Z');
+
+describe('Notification delivery policy', () => {
+  describe('isInQuietHours', () => {
+    test('handles windows that wrap midnight', () => {
+      expect(isInQuietHours(LATE_EVENING_IST, IST_PREFS)).toBe(true);
+      expect(isInQuietHours(AFTERNOON_IST, IST_PREFS)).toBe(false);
+    });
+
+    test("uses the user's timezone", () => {
+      // 23:00 IST is 21:30 in Dubai
+      expect(isInQuietHours(LATE_EVENING_IST, { ...IST_PREFS, timezone: 'Asia/Dubai' })).toBe(false);
+    });
+
+    test('is off when disabled or the window is empty', () => {
+      expect(isInQuietHours(LATE_EVENING_IST, { ...IST_PREFS, quietHoursEnabled: false })).toBe(false);
+      expect(
+        isInQuietHours(LATE_EVENING_IST, { ...IST_PREFS, quietHoursStart: '08:00', quietHoursEnd: '08:00' }),
+      ).toBe(false);
+    });
+
+    test('quiet hours end at the next local end time', () => {
+      expect(quietHoursEndAfter(LATE_EVENING_IST, IST_PREFS).toISOString()).toBe('2026-10-20T02:30:00.000Z');
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    test('prefers an explicit timezone', () => {
+      expect(resolveTimezone('Europe/London', { isNri: true, countryCode: '+971' })).toBe('Europe/London');
+    });
+
+    test('derives single-zone countries for NRI users', () => {
+      expect(resolveTimezone(null, { isNri: true, countryCode: '+971' })).toBe('Asia/Dubai');
+    });
+
+    test('falls back to IST for multi-zone countries and resident users', () => {
+      expect(resolveTimezone(null, { isNri: true, countryCode: '+1' })).toBe('Asia/Kolkata');
+      expect(resolveTimezone(undefined, { isNri: false, countryCode: null })).toBe('Asia/Kolkata');
+      expect(resolveTimezone('Not/AZone', null)).toBe('Asia/Kolkata');
+    });
+  });
+
+  describe('priority and bypass', () => {
+    test('otp and payment_link bypass the policy', () => {
+      expect(bypassesPolicy('otp')).toBe(true);
+      expect(bypassesPolicy('payment_link')).toBe(true);
+      expect(bypassesPolicy('service_status_change')).toBe(false);
+      expect(bypassesPolicy(undefined)).toBe(false);
+    });
+
+    test('status updates default to low priority unless overridden', () => {
+      expect(resolvePriority('service_status_change')).toBe('low');
+      expect(resolvePriority('service_status_change', 'high')).toBe('high');
+      expect(resolvePriority('payment_confirmation')).toBe('normal');
+    });
+  });
+
+  describe('planDigest', () => {
+    test('per-service digests open a window and reuse a pending one', () => {
+      expect(planDigest(AFTERNOON_IST, IST_PREFS, 'si-1')).toEqual({
+        digestKey: 'service:si-1',
+        releaseAt: new Date('2026-10-19T11:30:00.000Z'),
+      });
+
+      const existing = new Date('2026-10-19T10:00:00.000Z');
+      expect(planDigest(AFTERNOON_IST, IST_PREFS, 'si-1', existing)?.releaseAt).toEqual(existing);
+    });
+
+    test('a per-service window ending in quiet hours waits for the morning', () => {
+      // 21:00 IST + 2h lands at 23:00
+      const evening = new Date('2026-10-19T15:30:00.000Z');
+      expect(planDigest(evening, IST_PREFS, 'si-1')?.releaseAt.toISOString()).toBe('2026-10-20T02:30:00.000Z');
+    });
+
+    test('daily digests go out at 10:00 local, and not at all when off', () => {
+      expect(planDigest(AFTERNOON_IST, { ...IST_PREFS, digestMode: 'daily' }, 'si-1')).toEqual({
+        digestKey: 'daily',
+        releaseAt: new Date('2026-10-20T04:30:00.000Z'),
+      });
+      expect(planDigest(AFTERNOON_IST, { ...IST_PREFS, digestMode: 'off' })).toBeNull();
+    });
+  });
+});
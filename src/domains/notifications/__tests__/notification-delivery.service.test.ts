@@ -0,0 +1,286 @@
+/**
+ * Tests for NotificationDeliveryService delivery policy
+ * Covers: quiet-hour deferral, otp bypass, per-service digests, rate caps,
+ *         flushing deferred notifications and the email fallback
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+
+vi.mock('firebase-admin/messaging', () => ({
+  getMessaging: vi.fn(),
+}));
+
+import { NotificationDeliveryService } from '../notification-delivery.service';
+import { ChannelCircuitBreaker, LocalBreakerStore } from '../channel-circuit-breaker';
+
+// 23:00 IST and 15:00 IST on 19 Oct 2026
+const NIGHT = new Date('2026-10-19T17:30:00.000Z');
+const AFTERNOON = new Date('2026-10-19T09:30:00.000Z');
+
+const PREFS = {
+  userId: 'user-1',
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'Asia/Kolkata',
+  digestMode: 'per_service',
+};
+
+function createMockPrisma() {
+  return {
+    notificationOptOut: { findMany: vi.fn().mockResolvedValue([]) },
+    userNotificationPreference: {
+      findUnique: vi.fn().mockResolvedValue(PREFS),
+      create: vi.fn(),
+    },
+    user: { findUnique: vi.fn() },
+    userDevice: { findMany: vi.fn().mockResolvedValue([]) },
+    notificationLog: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({ id: 'log-1' }),
+    },
+    failedNotification: { create: vi.fn() },
+    deferredNotification: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({ id: 'deferred-1' }),
+      update: vi.fn().mockResolvedValue({ id: 'deferred-1' }),
+      updateMany: vi.fn(),
+    },
+  } as unknown as PrismaClient;
+}
+
+const WHATSAPP_PARAMS = {
+  userId: 'user-1',
+  templateName: 'payment_confirmation_wa_en_v1',
+  channel: 'whatsapp' as const,
+  data: { _phone: '+919876543210', amount: '₹4,500' },
+  eventType: 'payment_confirmation',
+};
+
+describe('NotificationDeliveryService', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  let whatsapp: { sendTemplate: ReturnType<typeof vi.fn> };
+  let email: { send: ReturnType<typeof vi.fn> };
+  let service: NotificationDeliveryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(AFTERNOON);
+    mockPrisma = createMockPrisma();
+    whatsapp = { sendTemplate: vi.fn().mockResolvedValue({ messageId: 'wa-1', status: 'sent' }) };
+    email = { send: vi.fn().mockResolvedValue({ messageId: '<m-1@pravesh.in>', status: 'sent' }) };
+    service = new NotificationDeliveryService(
+      mockPrisma,
+      whatsapp as any,
+      new ChannelCircuitBreaker(new LocalBreakerStore()),
+      email as any,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('sends immediately outside quiet hours and under caps', async () => {
+    const result = await service.deliverNotification(WHATSAPP_PARAMS);
+
+    expect(result.finalStatus).toBe('delivered');
+    expect(whatsapp.sendTemplate).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.deferredNotification.create).not.toHaveBeenCalled();
+  });
+
+  test('defers to the end of quiet hours', async () => {
+    vi.setSystemTime(NIGHT);
+
+    const result = await service.deliverNotification(WHATSAPP_PARAMS);
+
+    expect(result.finalStatus).toBe('deferred');
+    expect(result.deferral).toMatchObject({
+      reason: 'quiet_hours',
+      releaseAt: new Date('2026-10-20T02:30:00.000Z'),
+    });
+    expect(whatsapp.sendTemplate).not.toHaveBeenCalled();
+    expect(mockPrisma.deferredNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        templateCode: 'payment_confirmation_wa_en_v1',
+        reason: 'quiet_hours',
+        status: 'pending',
+      }),
+      select: { id: true },
+    });
+  });
+
+  test('uses the NRI country timezone for quiet hours', async () => {
+    vi.setSystemTime(NIGHT); // 21:30 in Dubai
+    (mockPrisma.userNotificationPreference.findUnique as any).mockResolvedValue({ ...PREFS, timezone: null });
+    (mockPrisma.user.findUnique as any).mockResolvedValue({ isNri: true, countryCode: '+971' });
+
+    const result = await service.deliverNotification(WHATSAPP_PARAMS);
+    expect(result.finalStatus).toBe('delivered');
+  });
+
+  test('lets otp bypass quiet hours and caps', async () => {
+    vi.setSystemTime(NIGHT);
+
+    const result = await service.deliverNotification({ ...WHATSAPP_PARAMS, eventType: 'otp' });
+
+    expect(result.finalStatus).toBe('delivered');
+    expect(mockPrisma.userNotificationPreference.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('rolls low-priority status updates into the pending service digest', async () => {
+    const pendingRelease = new Date('2026-10-19T10:15:00.000Z');
+    (mockPrisma.deferredNotification.findFirst as any).mockResolvedValue({ releaseAt: pendingRelease });
+
+    const result = await service.deliverNotification({
+      ...WHATSAPP_PARAMS,
+      eventType: 'service_status_change',
+      serviceInstanceId: 'si-1',
+    });
+
+    expect(result.deferral).toMatchObject({ reason: 'digest', releaseAt: pendingRelease });
+    expect(mockPrisma.deferredNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ digestKey: 'service:si-1', priority: 'low' }),
+      select: { id: true },
+    });
+  });
+
+  test('skips a capped channel and defers when every channel is capped', async () => {
+    const sentAt = new Date(AFTERNOON.getTime() - 20 * 60 * 1000);
+    // Every channel has hit its hourly cap
+    (mockPrisma.notificationLog.findMany as any).mockImplementation(async ({ take }: any) =>
+      Array.from({ length: take }, () => ({ createdAt: sentAt })),
+    );
+
+    const result = await service.deliverNotification(WHATSAPP_PARAMS);
+
+    expect(result.finalStatus).toBe('deferred');
+    expect(result.deferral?.reason).toBe('rate_limit');
+    // The daily window frees up last, 24h after the oldest send
+    expect(result.deferral?.releaseAt).toEqual(new Date(sentAt.getTime() + 24 * 60 * 60 * 1000));
+  });
+
+  test('falls through to the next channel when only WhatsApp is capped', async () => {
+    (mockPrisma.notificationLog.findMany as any).mockImplementation(async ({ where, take }: any) =>
+      where.channel === 'whatsapp' ? Array.from({ length: take }, () => ({ createdAt: AFTERNOON })) : [],
+    );
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: async () => JSON.stringify({ request_id: 'sms-1' }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    (mockPrisma as any).smsCostLog = { create: vi.fn() };
+
+    const result = await service.deliverNotification(WHATSAPP_PARAMS);
+
+    vi.unstubAllGlobals();
+    expect(whatsapp.sendTemplate).not.toHaveBeenCalled();
+    expect(result.attempts.map((a) => a.channel)).not.toContain('whatsapp');
+  });
+
+  test('falls back to email when WhatsApp fails', async () => {
+    vi.useRealTimers(); // WhatsApp retry waits 500ms between attempts
+    whatsapp.sendTemplate.mockResolvedValue({ messageId: '', status: 'failed' });
+    (mockPrisma.user.findUnique as any).mockResolvedValue({ isNri: false, countryCode: '+91', email: 'asha@example.com' });
+
+    const result = await service.deliverNotification({ ...WHATSAPP_PARAMS, eventType: 'otp' });
+
+    expect(result.finalStatus).toBe('delivered');
+    expect(result.attempts.map((a) => a.channel)).toEqual(['whatsapp', 'whatsapp', 'email']);
+    expect(email.send).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', contextData: expect.objectContaining({ _email: 'asha@example.com' }) }),
+    );
+  });
+
+  test('tries email before WhatsApp for NRI users', async () => {
+    (mockPrisma.user.findUnique as any).mockResolvedValue({ isNri: true, countryCode: '+44', email: 'nri@example.co.uk' });
+
+    const result = await service.deliverNotification({ ...WHATSAPP_PARAMS, channel: 'push' });
+
+    expect(result.finalStatus).toBe('delivered');
+    expect(result.attempts.map((a) => [a.channel, a.status])).toEqual([
+      ['push', 'no_tokens'],
+      ['email', 'sent'],
+    ]);
+    expect(whatsapp.sendTemplate).not.toHaveBeenCalled();
+  });
+
+  test('reports no_email and moves on when the user has no address', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+
+    const result = await service.deliverNotification({ ...WHATSAPP_PARAMS, channel: 'email', eventType: 'otp' });
+
+    vi.unstubAllGlobals();
+
+    expect(result.attempts[0]).toMatchObject({ channel: 'email', status: 'no_email' });
+    expect(result.attempts[1]).toMatchObject({ channel: 'sms' });
+    expect(email.send).not.toHaveBeenCalled();
+  });
+
+  describe('flushDeferred', () => {
+    function deferred(overrides: Record<string, unknown>) {
+      return {
+        id: 'deferred-1',
+        userId: 'user-1',
+        templateCode: 'service_status_change_wa_en_v1',
+        channel: 'whatsapp',
+        eventType: 'service_status_change',
+        priority: 'low',
+        serviceInstanceId: 'si-1',
+        contextData: { _phone: '+919876543210', _body: 'Step done' },
+        reason: 'digest',
+        digestKey: 'service:si-1',
+        releaseAt: AFTERNOON,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    test('sends one digest for several pending updates', async () => {
+      (mockPrisma.deferredNotification.findMany as any).mockResolvedValue([
+        deferred({ id: 'd-1', contextData: { _phone: '+919876543210', _body: 'Title search complete' } }),
+        deferred({ id: 'd-2', contextData: { _phone: '+919876543210', _body: 'Encumbrance check complete' } }),
+      ]);
+
+      const result = await service.flushDeferred(AFTERNOON);
+
+      expect(result).toEqual({ released: 0, digests: 1, redeferred: 0 });
+      expect(whatsapp.sendTemplate).toHaveBeenCalledWith(
+        '+919876543210',
+        'notification_digest',
+        { update_count: '2', summary: 'Title search complete; Encumbrance check complete' },
+      );
+      expect(mockPrisma.deferredNotification.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['d-1', 'd-2'] } },
+        data: expect.objectContaining({ status: 'digested', notificationLogId: 'log-1' }),
+      });
+    });
+
+    test('re-delivers quiet-hours items and keeps them pending if deferred again', async () => {
+      (mockPrisma.deferredNotification.findMany as any).mockResolvedValue([
+        deferred({ id: 'd-1', reason: 'quiet_hours', digestKey: null, eventType: 'payment_confirmation', priority: 'normal' }),
+      ]);
+
+      let result = await service.flushDeferred(AFTERNOON);
+      expect(result.released).toBe(1);
+      expect(mockPrisma.deferredNotification.update).toHaveBeenCalledWith({
+        where: { id: 'd-1' },
+        data: expect.objectContaining({ status: 'released' }),
+      });
+
+      vi.clearAllMocks();
+      vi.setSystemTime(NIGHT);
+      result = await service.flushDeferred(NIGHT);
+      expect(result.redeferred).toBe(1);
+      expect(mockPrisma.deferredNotification.create).not.toHaveBeenCalled();
+      expect(mockPrisma.deferredNotification.update).toHaveBeenCalledWith({
+        where: { id: 'd-1' },
+        data: expect.objectContaining({ reason: 'quiet_hours', status: 'pending' }),
+        select: { id: true },
+      });
+    });
+  });
+});
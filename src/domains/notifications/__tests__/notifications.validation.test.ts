@@ -46,7 +46,7 @@ describe('Notifications Validation Schemas', () => {
     });
 
     test('accepts all valid channel values', () => {
-      for (const channel of ['push', 'whatsapp', 'sms'] as const) {
+      for (const channel of ['push', 'whatsapp', 'email', 'sms'] as const) {
         const result = templateQuerySchema.safeParse({ channel });
         expect(result.success).toBe(true);
       }
@@ -65,7 +65,7 @@ describe('Notifications Validation Schemas', () => {
     });
 
     test('rejects invalid channel', () => {
-      const result = templateQuerySchema.safeParse({ channel: 'email' });
+      const result = templateQuerySchema.safeParse({ channel: 'fax' });
       expect(result.success).toBe(false);
     });
 
@@ -176,6 +176,26 @@ describe('Notifications Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    test('accepts regional languages and null to inherit the city default', () => {
+      expect(updatePreferencesSchema.safeParse({ preferredLanguage: 'mr' }).success).toBe(true);
+      expect(updatePreferencesSchema.safeParse({ preferredLanguage: 'ta' }).success).toBe(true);
+      expect(updatePreferencesSchema.safeParse({ preferredLanguage: null }).success).toBe(true);
+    });
+
+    test('validates quiet hours, timezone and digest mode', () => {
+      expect(
+        updatePreferencesSchema.safeParse({
+          quietHoursStart: '21:30',
+          quietHoursEnd: '07:00',
+          timezone: 'America/New_York',
+          digestMode: 'daily',
+        }).success,
+      ).toBe(true);
+      expect(updatePreferencesSchema.safeParse({ quietHoursStart: '25:00' }).success).toBe(false);
+      expect(updatePreferencesSchema.safeParse({ timezone: 'Nowhere/City' }).success).toBe(false);
+      expect(updatePreferencesSchema.safeParse({ digestMode: 'hourly' }).success).toBe(false);
+    });
+
     test('rejects invalid preferredLanguage', () => {
       const result = updatePreferencesSchema.safeParse({
         preferredLanguage: 'fr',
@@ -232,7 +252,7 @@ describe('Notifications Validation Schemas', () => {
     test('rejects invalid channel', () => {
       const result = historyQuerySchema.safeParse({
         serviceInstanceId: 'svc-001',
-        channel: 'email',
+        channel: 'fax',
       });
       expect(result.success).toBe(false);
     });
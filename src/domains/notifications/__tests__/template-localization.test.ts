@@ -0,0 +1,102 @@
+/**
+ * Tests for notification template localization helpers.
+ * Covers: language fallback chains, per-language formatting,
+ *         placeholder extraction and cross-variant validation
+ */
+import { describe, test, expect } from 'vitest';
+import {
+  buildLanguageChain,
+  formatTemplateVariable,
+  formatTemplateContext,
+  extractPlaceholders,
+  findMissingPlaceholders,
+  isTemplateLanguage,
+} from '../template-localization';
+
+describe('Template localization', () => {
+  describe('buildLanguageChain', () => {
+    test('tries city default, then user preference, then English', () => {
+      expect(buildLanguageChain('mr', 'ta')).toEqual(['mr', 'ta', 'en']);
+    });
+
+    test('falls back to the user preference when the city has no default', () => {
+      expect(buildLanguageChain(null, 'kn')).toEqual(['kn', 'en']);
+    });
+
+    test('deduplicates and skips unsupported languages', () => {
+      expect(buildLanguageChain('fr', 'en')).toEqual(['en']);
+      expect(buildLanguageChain('gu', 'gu')).toEqual(['gu', 'en']);
+      expect(buildLanguageChain(undefined, undefined)).toEqual(['en']);
+    });
+  });
+
+  describe('isTemplateLanguage', () => {
+    test('accepts all regional languages', () => {
+      for (const lang of ['hi', 'en', 'mr', 'kn', 'ta', 'te', 'bn', 'gu']) {
+        expect(isTemplateLanguage(lang)).toBe(true);
+      }
+      expect(isTemplateLanguage('pa')).toBe(false);
+    });
+  });
+
+  describe('formatTemplateVariable', () => {
+    test('formats rupee amounts with the language locale', () => {
+      expect(formatTemplateVariable({ amountPaise: 12345600 }, 'en')).toBe(
+        new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0 })
+          .format(123456),
+      );
+      expect(formatTemplateVariable({ amountPaise: 12345600 }, 'mr')).toBe(
+        new Intl.NumberFormat('mr-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 0 })
+          .format(123456),
+      );
+    });
+
+    test('formats dates in IST for the language locale', () => {
+      // 20:00 UTC is the next day in IST
+      const date = new Date('2026-03-14T20:00:00.000Z');
+      const expected = new Intl.DateTimeFormat('ta-IN', { dateStyle: 'medium', timeZone: 'Asia/Kolkata' })
+        .format(date);
+      expect(formatTemplateVariable(date, 'ta')).toBe(expected);
+      expect(formatTemplateVariable(date, 'en')).toContain('15');
+    });
+
+    test('passes strings through unchanged', () => {
+      expect(formatTemplateVariable('Sale Deed', 'gu')).toBe('Sale Deed');
+    });
+
+    test('formats a whole context', () => {
+      expect(formatTemplateContext({ name: 'Asha', count: 1200 }, 'en')).toEqual({
+        name: 'Asha',
+        count: '1,200',
+      });
+    });
+  });
+
+  describe('extractPlaceholders', () => {
+    test('finds variables, triple-stash and section tags', () => {
+      expect(
+        extractPlaceholders('{{customer_name}} {{{ link }}} {{#agent}}{{agent.name}}{{/agent}} {{! note }}'),
+      ).toEqual(['agent', 'agent.name', 'customer_name', 'link']);
+    });
+  });
+
+  describe('findMissingPlaceholders', () => {
+    test('reports placeholders missing from some variants', () => {
+      const missing = findMissingPlaceholders([
+        { language: 'en', subject: 'Paid {{amount}}', body: 'Receipt {{receipt_id}}' },
+        { language: 'hi', subject: null, body: '{{amount}} रसीद {{receipt_id}}' },
+        { language: 'kn', subject: null, body: '{{amount}} ಪಾವತಿ' },
+      ]);
+      expect(missing).toEqual({ kn: ['receipt_id'] });
+    });
+
+    test('returns nothing when variants agree', () => {
+      expect(
+        findMissingPlaceholders([
+          { language: 'en', subject: null, body: '{{a}}' },
+          { language: 'bn', subject: null, body: '{{a}}' },
+        ]),
+      ).toEqual({});
+    });
+  });
+});
@@ -1,75 +1,436 @@
 /**
  * Story 7-12: Channel Circuit Breaker
- * Prevents cascading failures when external APIs (FCM, WhatsApp, SMS) are down
+ * Prevents cascading failures when external APIs (FCM, WhatsApp, SMS) are down.
+ *
+ * Breaker state lives in Redis so every API instance sees the same view of a
+ * provider. Each send is checked against two breakers: one per provider
+ * (e.g. `whatsapp:msg91`) and one per template scope within that provider, so
+ * a single broken template does not need to take the whole provider down
+ * before it stops being retried. When Redis is unreachable the breaker keeps
+ * working on per-process state.
  */
 
+import { Redis } from 'ioredis';
 import { logger } from '../../shared/utils/logger';
 
-interface CircuitBreakerState {
+// Sliding window over which the failure rate is computed
+const WINDOW_MS = 60 * 1000;
+// Minimum calls in the window before the failure rate can trip the breaker
+const MIN_CALLS = 5;
+const FAILURE_RATE_THRESHOLD = 0.5;
+const RECOVERY_TIME_MS = 60 * 1000; // 1 minute open before probing
+// Concurrent probe requests allowed across all instances while half-open
+const HALF_OPEN_MAX_PROBES = 1;
+// A probe that never reports back frees its slot after this long
+const PROBE_TIMEOUT_MS = 30 * 1000;
+const REDIS_KEY_PREFIX = 'notif:cb';
+const REDIS_ERROR_LOG_INTERVAL_MS = 30 * 1000;
+
+export type BreakerMode = 'closed' | 'open' | 'half_open';
+
+export interface BreakerTarget {
+  channel: string;
+  provider: string;
+  /** Template code (or other scope) narrowing the provider breaker. */
+  templateScope?: string;
+}
+
+export interface BreakerState {
+  mode: 'closed' | 'open';
+  openedAt: number;
+  openUntil: number;
+}
+
+export interface BreakerOverride {
+  state: 'open' | 'closed';
+  setBy: string;
+  setAt: number;
+  expiresAt: number | null;
+}
+
+export interface WindowCounts {
+  calls: number;
   failures: number;
-  lastFailure: number;
-  isOpen: boolean;
-  halfOpenAt: number;
 }
 
-const FAILURE_THRESHOLD = 5;
-const RECOVERY_TIME_MS = 60 * 1000; // 1 minute
+export interface BreakerStatus extends WindowCounts {
+  key: string;
+  mode: BreakerMode;
+  failureRate: number;
+  openUntil: string | null;
+  override: BreakerOverride | null;
+}
+
+/**
+ * Storage primitives the breaker is built on. Implemented by Redis for
+ * shared state and by an in-process store for fallback and tests.
+ */
+export interface BreakerStore {
+  recordOutcome(key: string, at: number, failed: boolean): Promise<WindowCounts>;
+  countWindow(key: string, at: number): Promise<WindowCounts>;
+  getState(key: string): Promise<BreakerState | null>;
+  setState(key: string, state: BreakerState): Promise<void>;
+  acquireProbe(key: string): Promise<number>;
+  reset(key: string): Promise<void>;
+  getOverride(key: string): Promise<BreakerOverride | null>;
+  setOverride(key: string, override: BreakerOverride | null): Promise<void>;
+  listKeys(): Promise<string[]>;
+}
+
+export function breakerKeys(target: BreakerTarget): string[] {
+  const providerKey = `${target.channel}:${target.provider}`;
+  return target.templateScope
+    ? [providerKey, `${providerKey}:tpl:${target.templateScope}`]
+    : [providerKey];
+}
+
+// ---------------------------------------------------------------------------
+// In-process store
+// ---------------------------------------------------------------------------
+
+interface LocalEntry {
+  outcomes: Array<{ at: number; failed: boolean }>;
+  state: BreakerState | null;
+  probes: number;
+  probesExpireAt: number;
+  override: BreakerOverride | null;
+}
+
+export class LocalBreakerStore implements BreakerStore {
+  private entries: Map<string, LocalEntry> = new Map();
+
+  private entry(key: string): LocalEntry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { outcomes: [], state: null, probes: 0, probesExpireAt: 0, override: null };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async recordOutcome(key: string, at: number, failed: boolean): Promise<WindowCounts> {
+    this.entry(key).outcomes.push({ at, failed });
+    return this.countWindow(key, at);
+  }
+
+  async countWindow(key: string, at: number): Promise<WindowCounts> {
+    const entry = this.entry(key);
+    entry.outcomes = entry.outcomes.filter((o) => o.at > at - WINDOW_MS);
+    return {
+      calls: entry.outcomes.length,
+      failures: entry.outcomes.filter((o) => o.failed).length,
+    };
+  }
+
+  async getState(key: string): Promise<BreakerState | null> {
+    return this.entries.get(key)?.state ?? null;
+  }
+
+  async setState(key: string, state: BreakerState): Promise<void> {
+    this.entry(key).state = state;
+  }
+
+  async acquireProbe(key: string): Promise<number> {
+    const entry = this.entry(key);
+    if (Date.now() >= entry.probesExpireAt) entry.probes = 0;
+    entry.probes++;
+    entry.probesExpireAt = Date.now() + PROBE_TIMEOUT_MS;
+    return entry.probes;
+  }
+
+  async reset(key: string): Promise<void> {
+    const entry = this.entry(key);
+    entry.outcomes = [];
+    entry.state = null;
+    entry.probes = 0;
+  }
+
+  async getOverride(key: string): Promise<BreakerOverride | null> {
+    const override = this.entries.get(key)?.override ?? null;
+    if (override?.expiresAt && override.expiresAt <= Date.now()) return null;
+    return override;
+  }
+
+  async setOverride(key: string, override: BreakerOverride | null): Promise<void> {
+    this.entry(key).override = override;
+  }
+
+  async listKeys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redis store
+// ---------------------------------------------------------------------------
+
+// Adds one outcome to the window and returns [calls, failures] in a single round trip
+const RECORD_OUTCOME_SCRIPT = `
+redis.call('ZADD', KEYS[1], ARGV[1], ARGV[3])
+if ARGV[4] == '1' then redis.call('ZADD', KEYS[2], ARGV[1], ARGV[3]) end
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+redis.call('PEXPIRE', KEYS[2], ARGV[5])
+redis.call('SADD', KEYS[3], ARGV[6])
+return {redis.call('ZCARD', KEYS[1]), redis.call('ZCARD', KEYS[2])}
+`;
+
+export class RedisBreakerStore implements BreakerStore {
+  constructor(private readonly redis: Redis) {}
+
+  private key(key: string, part: string): string {
+    return `${REDIS_KEY_PREFIX}:${key}:${part}`;
+  }
+
+  async recordOutcome(key: string, at: number, failed: boolean): Promise<WindowCounts> {
+    const member = `${at}:${Math.random().toString(36).slice(2, 10)}`;
+    const [calls, failures] = (await this.redis.call(
+      'EVAL',
+      RECORD_OUTCOME_SCRIPT,
+      3,
+      this.key(key, 'calls'),
+      this.key(key, 'failures'),
+      `${REDIS_KEY_PREFIX}:index`,
+      at,
+      at - WINDOW_MS,
+      member,
+      failed ? '1' : '0',
+      WINDOW_MS * 2,
+      key,
+    )) as [number, number];
+    return { calls: Number(calls), failures: Number(failures) };
+  }
+
+  async countWindow(key: string, at: number): Promise<WindowCounts> {
+    const since = `(${at - WINDOW_MS}`;
+    const calls = await this.redis.call('ZCOUNT', this.key(key, 'calls'), since, '+inf');
+    const failures = await this.redis.call('ZCOUNT', this.key(key, 'failures'), since, '+inf');
+    return { calls: Number(calls), failures: Number(failures) };
+  }
+
+  async getState(key: string): Promise<BreakerState | null> {
+    const raw = await this.redis.call('GET', this.key(key, 'state'));
+    return raw ? (JSON.parse(String(raw)) as BreakerState) : null;
+  }
+
+  async setState(key: string, state: BreakerState): Promise<void> {
+    await this.redis.call('SET', this.key(key, 'state'), JSON.stringify(state));
+  }
+
+  async acquireProbe(key: string): Promise<number> {
+    const probeKey = this.key(key, 'probes');
+    const count = Number(await this.redis.call('INCR', probeKey));
+    if (count === 1) {
+      await this.redis.call('PEXPIRE', probeKey, PROBE_TIMEOUT_MS);
+    }
+    return count;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.call(
+      'DEL',
+      this.key(key, 'calls'),
+      this.key(key, 'failures'),
+      this.key(key, 'state'),
+      this.key(key, 'probes'),
+    );
+  }
+
+  async getOverride(key: string): Promise<BreakerOverride | null> {
+    const raw = await this.redis.call('GET', this.key(key, 'override'));
+    return raw ? (JSON.parse(String(raw)) as BreakerOverride) : null;
+  }
+
+  async setOverride(key: string, override: BreakerOverride | null): Promise<void> {
+    const overrideKey = this.key(key, 'override');
+    if (!override) {
+      await this.redis.call('DEL', overrideKey);
+      return;
+    }
+    const args: unknown[] = ['SET', overrideKey, JSON.stringify(override)];
+    if (override.expiresAt) args.push('PX', Math.max(override.expiresAt - Date.now(), 1));
+    await this.redis.call(...(args as [string, ...unknown[]]));
+    await this.redis.call('SADD', `${REDIS_KEY_PREFIX}:index`, key);
+  }
+
+  async listKeys(): Promise<string[]> {
+    return (await this.redis.call('SMEMBERS', `${REDIS_KEY_PREFIX}:index`)) as string[];
+  }
+}
+
+/**
+ * Redis client tuned for the breaker: commands fail immediately while
+ * disconnected instead of queueing, so sends fall back to local state
+ * rather than waiting on Redis.
+ */
+export function createBreakerRedisClient(url: string): Redis {
+  const client = new Redis(url, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  client.on('error', (err) => logger.warn({ err }, 'Redis circuit-breaker client error'));
+  return client;
+}
+
+// ---------------------------------------------------------------------------
+// Breaker
+// ---------------------------------------------------------------------------
 
 export class ChannelCircuitBreaker {
-  private states: Map<string, CircuitBreakerState> = new Map();
+  private readonly local = new LocalBreakerStore();
+  private lastRedisErrorLog = 0;
 
-  isChannelAvailable(channel: string): boolean {
-    const state = this.states.get(channel);
-    if (!state) return true;
+  constructor(private readonly shared?: BreakerStore) {}
 
-    if (state.isOpen) {
-      // Check if recovery time has passed (half-open)
-      if (Date.now() >= state.halfOpenAt) {
-        state.isOpen = false;
-        return true;
+  /**
+   * Whether a send to the target may be attempted. While a breaker is
+   * half-open only HALF_OPEN_MAX_PROBES callers get through.
+   */
+  async canAttempt(target: BreakerTarget): Promise<boolean> {
+    for (const key of breakerKeys(target)) {
+      if (!(await this.withStore((store) => this.allows(store, key)))) {
+        return false;
       }
-      return false;
     }
-
     return true;
   }
 
-  recordSuccess(channel: string): void {
-    this.states.delete(channel);
+  async recordSuccess(target: BreakerTarget): Promise<void> {
+    for (const key of breakerKeys(target)) {
+      await this.withStore((store) => this.record(store, key, false));
+    }
   }
 
-  recordFailure(channel: string): void {
-    const state = this.states.get(channel) ?? {
-      failures: 0,
-      lastFailure: 0,
-      isOpen: false,
-      halfOpenAt: 0,
-    };
+  async recordFailure(target: BreakerTarget): Promise<void> {
+    for (const key of breakerKeys(target)) {
+      await this.withStore((store) => this.record(store, key, true));
+    }
+  }
+
+  /**
+   * Force a breaker open or closed, optionally for a limited time; 'auto'
+   * removes the override and resets the window.
+   */
+  async forceState(
+    key: string,
+    state: 'open' | 'closed' | 'auto',
+    setBy: string,
+    ttlMs?: number,
+  ): Promise<BreakerStatus> {
+    await this.withStore(async (store) => {
+      if (state === 'auto') {
+        await store.setOverride(key, null);
+        await store.reset(key);
+      } else {
+        const now = Date.now();
+        await store.setOverride(key, {
+          state,
+          setBy,
+          setAt: now,
+          expiresAt: ttlMs ? now + ttlMs : null,
+        });
+      }
+    });
+
+    logger.warn({ key, state, setBy, ttlMs }, 'Circuit breaker state forced');
+    return this.withStore((store) => this.describe(store, key));
+  }
+
+  async getStatus(): Promise<{ backend: 'shared' | 'local'; breakers: BreakerStatus[] }> {
+    let backend: 'shared' | 'local' = 'local';
+    const breakers = await this.withStore(async (store) => {
+      backend = store === this.local ? 'local' : 'shared';
+      const keys = (await store.listKeys()).sort();
+      return Promise.all(keys.map((key) => this.describe(store, key)));
+    });
+    return { backend, breakers };
+  }
 
-    state.failures++;
-    state.lastFailure = Date.now();
+  private async allows(store: BreakerStore, key: string): Promise<boolean> {
+    const override = await store.getOverride(key);
+    if (override) return override.state === 'closed';
 
-    if (state.failures >= FAILURE_THRESHOLD) {
-      state.isOpen = true;
-      state.halfOpenAt = Date.now() + RECOVERY_TIME_MS;
+    const state = await store.getState(key);
+    if (!state || state.mode === 'closed') return true;
+    if (Date.now() < state.openUntil) return false;
+
+    return (await store.acquireProbe(key)) <= HALF_OPEN_MAX_PROBES;
+  }
+
+  private async record(store: BreakerStore, key: string, failed: boolean): Promise<void> {
+    const now = Date.now();
+    const counts = await store.recordOutcome(key, now, failed);
+    const state = await store.getState(key);
+
+    if (state?.mode === 'open') {
+      // Outcomes while open are probe results once the recovery time has passed
+      if (now < state.openUntil) return;
+      await store.reset(key);
+      if (failed) {
+        await store.setState(key, { mode: 'open', openedAt: now, openUntil: now + RECOVERY_TIME_MS });
+        logger.error({ key }, 'Circuit breaker probe failed, re-opening');
+      } else {
+        logger.info({ key }, 'Circuit breaker CLOSED after successful probe');
+      }
+      return;
+    }
+
+    if (
+      failed &&
+      counts.calls >= MIN_CALLS &&
+      counts.failures / counts.calls >= FAILURE_RATE_THRESHOLD
+    ) {
+      await store.setState(key, { mode: 'open', openedAt: now, openUntil: now + RECOVERY_TIME_MS });
       logger.error({
-        channel,
-        failures: state.failures,
-        halfOpenAt: new Date(state.halfOpenAt).toISOString(),
-      }, 'Circuit breaker OPEN for channel');
+        key,
+        calls: counts.calls,
+        failures: counts.failures,
+        halfOpenAt: new Date(now + RECOVERY_TIME_MS).toISOString(),
+      }, 'Circuit breaker OPEN');
     }
+  }
+
+  private async describe(store: BreakerStore, key: string): Promise<BreakerStatus> {
+    const now = Date.now();
+    const [counts, state, override] = await Promise.all([
+      store.countWindow(key, now),
+      store.getState(key),
+      store.getOverride(key),
+    ]);
 
-    this.states.set(channel, state);
+    let mode: BreakerMode = 'closed';
+    if (override) mode = override.state;
+    else if (state?.mode === 'open') mode = now < state.openUntil ? 'open' : 'half_open';
+
+    return {
+      key,
+      mode,
+      ...counts,
+      failureRate: counts.calls > 0 ? counts.failures / counts.calls : 0,
+      openUntil: state?.mode === 'open' ? new Date(state.openUntil).toISOString() : null,
+      override,
+    };
   }
 
-  getStatus(): Record<string, { isOpen: boolean; failures: number }> {
-    const result: Record<string, { isOpen: boolean; failures: number }> = {};
-    for (const [channel, state] of this.states) {
-      result[channel] = { isOpen: state.isOpen, failures: state.failures };
+  /**
+   * Run against the shared store, falling back to in-process state when
+   * Redis is not configured or unreachable.
+   */
+  private async withStore<T>(fn: (store: BreakerStore) => Promise<T>): Promise<T> {
+    if (!this.shared) return fn(this.local);
+    try {
+      return await fn(this.shared);
+    } catch (err) {
+      if (Date.now() - this.lastRedisErrorLog > REDIS_ERROR_LOG_INTERVAL_MS) {
+        this.lastRedisErrorLog = Date.now();
+        logger.warn({ err: String(err) }, 'Circuit breaker store unavailable — using local state');
+      }
+      return fn(this.local);
     }
-    return result;
   }
 }
 
-// Singleton instance
-export const channelCircuitBreaker = new ChannelCircuitBreaker();
+// Singleton instance, shared through Redis when REDIS_URL is set
+export const channelCircuitBreaker = new ChannelCircuitBreaker(
+  process.env.REDIS_URL
+    ? new RedisBreakerStore(createBreakerRedisClient(process.env.REDIS_URL))
+    : undefined,
+);
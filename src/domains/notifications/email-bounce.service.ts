@@ -0,0 +1,121 @@
+/**
+ * Email bounce and complaint handling
+ * Records bounces reported by the mail relay (webhook) or by the SMTP server
+ * at send time, and opts the user out of email via NotificationOptOut after a
+ * hard bounce, a spam complaint, or repeated soft bounces.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'node:crypto';
+import { env } from '../../shared/config/env';
+import { logger } from '../../shared/utils/logger';
+
+export interface EmailBounceEvent {
+  type: 'bounce' | 'complaint';
+  email: string;
+  // Bounces without a type are treated as hard
+  bounceType?: 'hard' | 'soft';
+  // Message-ID of the original message, as stored in NotificationLog
+  messageId?: string;
+  reason?: string;
+}
+
+// Soft bounces within the window that count as a dead mailbox
+export const SOFT_BOUNCE_LIMIT = 3;
+export const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
+export class EmailBounceService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * HMAC-SHA256 (hex) of the raw request body with EMAIL_WEBHOOK_SECRET.
+   */
+  verifySignature(body: string, signature: string): boolean {
+    if (!env.EMAIL_WEBHOOK_SECRET || !signature) return false;
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', env.EMAIL_WEBHOOK_SECRET).update(body).digest('hex'),
+      'utf8',
+    );
+    const received = Buffer.from(signature, 'utf8');
+    if (expected.length !== received.length) return false;
+    return crypto.timingSafeEqual(expected, received);
+  }
+
+  async processEvents(events: EmailBounceEvent[]): Promise<{ processed: number; optedOut: number }> {
+    let optedOut = 0;
+    for (const event of events) {
+      const result = await this.recordEvent(event);
+      if (result.optedOut) optedOut++;
+    }
+    return { processed: events.length, optedOut };
+  }
+
+  async recordEvent(event: EmailBounceEvent): Promise<{ userId: string | null; optedOut: boolean }> {
+    const email = event.email.trim().toLowerCase();
+    const bounceType = event.type === 'bounce' ? event.bounceType ?? 'hard' : null;
+
+    const log = event.messageId
+      ? await this.prisma.notificationLog.findFirst({
+          where: { externalMessageId: event.messageId, channel: 'email' },
+          select: { userId: true },
+        })
+      : null;
+    const user = log
+      ? null
+      : await this.prisma.user.findFirst({
+          where: { email: { equals: email, mode: 'insensitive' } },
+          select: { id: true },
+        });
+    const userId = log?.userId ?? user?.id ?? null;
+
+    await this.prisma.emailBounce.create({
+      data: {
+        userId,
+        email,
+        type: event.type,
+        bounceType,
+        messageId: event.messageId ?? null,
+        reason: event.reason ?? null,
+      },
+    });
+
+    // A complaint means the message arrived; only bounces fail the log entry
+    if (event.type === 'bounce' && event.messageId) {
+      await this.prisma.notificationLog.updateMany({
+        where: { externalMessageId: event.messageId },
+        data: {
+          status: 'failed',
+          failedAt: new Date(),
+          failureReason: `${bounceType} bounce${event.reason ? `: ${event.reason}` : ''}`,
+        },
+      });
+    }
+
+    let optOut = event.type === 'complaint' || bounceType === 'hard';
+    if (!optOut) {
+      const since = new Date(Date.now() - SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const softBounces = await this.prisma.emailBounce.count({
+        where: { email, type: 'bounce', bounceType: 'soft', createdAt: { gte: since } },
+      });
+      optOut = softBounces >= SOFT_BOUNCE_LIMIT;
+    }
+
+    if (!optOut) {
+      logger.info({ email, type: event.type, bounceType }, 'Email bounce recorded');
+      return { userId, optedOut: false };
+    }
+
+    if (!userId) {
+      logger.warn({ email, type: event.type }, 'Email opt-out needed but no user matches the address');
+      return { userId, optedOut: false };
+    }
+
+    await this.prisma.notificationOptOut.upsert({
+      where: { userId_channel: { userId, channel: 'email' } },
+      update: {},
+      create: { userId, channel: 'email', optedOutAt: new Date() },
+    });
+    logger.info({ userId, email, type: event.type, bounceType }, 'Email opt-out applied');
+    return { userId, optedOut: true };
+  }
+}
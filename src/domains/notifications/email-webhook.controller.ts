@@ -0,0 +1,52 @@
+/**
+ * Email bounce/complaint webhook
+ * Routes: /webhooks/email — signed by the mail relay, no user authentication
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { EmailBounceService } from './email-bounce.service';
+import { emailBounceWebhookSchema } from './notifications.validation';
+
+export function createEmailWebhookController(prisma: PrismaClient): Router {
+  const router = Router();
+  const bounceService = new EmailBounceService(prisma);
+
+  /**
+   * POST /
+   * Body: { events: [{ type: 'bounce' | 'complaint', email, bounceType?, messageId?, reason? }] }
+   * Header X-Email-Signature: hex HMAC-SHA256 of the JSON body with EMAIL_WEBHOOK_SECRET.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = (req.headers['x-email-signature'] as string | undefined) ?? '';
+      const rawBody = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+
+      if (!bounceService.verifySignature(rawBody, signature)) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'INVALID_SIGNATURE', message: 'Invalid webhook signature' },
+        });
+        return;
+      }
+
+      const parsed = emailBounceWebhookSchema.safeParse(
+        typeof req.body === 'string' ? JSON.parse(req.body) : req.body,
+      );
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.errors },
+        });
+        return;
+      }
+
+      const result = await bounceService.processEvents(parsed.data.events);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
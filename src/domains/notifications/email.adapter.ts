@@ -0,0 +1,139 @@
+/**
+ * Email Adapter
+ * Implements ChannelHandler for email over SMTP (HTML + text, attachments)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ChannelHandler } from '../../shared/queue/jobs/notification-send.job';
+import { EmailAttachment, SmtpClient, SmtpError } from '../../core/integrations/smtp.client';
+import { ReceiptPdfService } from '../payments/receipt-pdf.service';
+import { env } from '../../shared/config/env';
+import { logger } from '../../shared/utils/logger';
+import { EmailBounceService } from './email-bounce.service';
+
+// Attachments requested through the `_attachments` context key (JSON array)
+export type EmailAttachmentRef = { type: 'payment_receipt'; paymentId: string };
+
+export function createSmtpClient(): SmtpClient {
+  return new SmtpClient({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    username: env.SMTP_USER,
+    password: env.SMTP_PASS,
+    clientName: 'pravesh.in',
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML alternative for messages that only have a text body.
+ */
+export function textToHtml(text: string): string {
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  return `<!DOCTYPE html>\n<html><body style="font-family:Arial,sans-serif;font-size:14px;color:#222">\n${paragraphs}\n</body></html>`;
+}
+
+export class EmailAdapter implements ChannelHandler {
+  private readonly smtp: SmtpClient;
+  private readonly receipts: ReceiptPdfService;
+  private readonly bounces: EmailBounceService;
+
+  constructor(private readonly prisma: PrismaClient, smtpClient?: SmtpClient) {
+    this.smtp = smtpClient ?? createSmtpClient();
+    this.receipts = new ReceiptPdfService(prisma);
+    this.bounces = new EmailBounceService(prisma);
+  }
+
+  async send(params: {
+    userId: string;
+    subject: string | null;
+    body: string;
+    contextData: Record<string, string>;
+    whatsappTemplateName?: string | null;
+    html?: string | null;
+    attachments?: EmailAttachment[];
+  }): Promise<{ messageId: string; status: string }> {
+    const optOut = await this.prisma.notificationOptOut.findFirst({
+      where: { userId: params.userId, channel: 'email' },
+    });
+    if (optOut) {
+      logger.info({ userId: params.userId }, 'User opted out of email');
+      return { messageId: '', status: 'opted_out' };
+    }
+
+    const to = await this.resolveRecipient(params.userId, params.contextData);
+    if (!to) {
+      logger.warn({ userId: params.userId }, 'No email address for user');
+      throw new Error('User has no email address');
+    }
+
+    const attachments = [
+      ...(params.attachments ?? []),
+      ...(await this.resolveAttachments(params.contextData._attachments)),
+    ];
+
+    try {
+      const result = await this.smtp.send({
+        from: env.EMAIL_FROM,
+        to,
+        subject: params.subject ?? params.contextData._title ?? 'Pravesh update',
+        text: params.body,
+        html: params.html ?? params.contextData._html ?? textToHtml(params.body),
+        attachments,
+      });
+      return { messageId: result.messageId, status: 'sent' };
+    } catch (err) {
+      // The relay refused the mailbox outright: same as a hard bounce
+      if (err instanceof SmtpError && err.stage === 'rcpt' && err.isPermanent) {
+        await this.bounces.recordEvent({ type: 'bounce', bounceType: 'hard', email: to, reason: err.message });
+      }
+      throw err;
+    }
+  }
+
+  async resolveRecipient(userId: string, contextData: Record<string, string>): Promise<string | null> {
+    if (contextData._email) return contextData._email;
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    return user?.email ?? null;
+  }
+
+  private async resolveAttachments(raw: string | undefined): Promise<EmailAttachment[]> {
+    if (!raw) return [];
+
+    let refs: EmailAttachmentRef[];
+    try {
+      refs = JSON.parse(raw) as EmailAttachmentRef[];
+    } catch {
+      logger.warn({ raw }, 'Ignoring malformed _attachments');
+      return [];
+    }
+
+    const attachments: EmailAttachment[] = [];
+    for (const ref of Array.isArray(refs) ? refs : []) {
+      if (ref.type === 'payment_receipt' && ref.paymentId) {
+        attachments.push({
+          filename: `receipt-${ref.paymentId}.pdf`,
+          contentType: 'application/pdf',
+          content: await this.receipts.generateReceipt(ref.paymentId),
+        });
+      } else {
+        logger.warn({ ref }, 'Unknown email attachment reference');
+      }
+    }
+    return attachments;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Deferred notification flush pg-boss job.
+ * Releases notifications held back by quiet hours, digests or rate caps
+ * (notification.flush-deferred, every 15 minutes).
+ */
+import { PrismaClient } from '@prisma/client';
+import { NotificationDeliveryService } from './notification-delivery.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const FLUSH_DEFERRED_QUEUE = 'notification.flush-deferred';
+const FLUSH_DEFERRED_SCHEDULE = '*/15 * * * *';
+
+export async function registerNotificationDeferralJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const deliveryService = new NotificationDeliveryService(prisma);
+
+  await boss.createQueue(FLUSH_DEFERRED_QUEUE);
+  await boss.work(FLUSH_DEFERRED_QUEUE, async () => {
+    const result = await deliveryService.flushDeferred();
+    if (result.released || result.digests || result.redeferred) {
+      logger.info(result, 'Deferred notifications flushed');
+    }
+  });
+  await boss.schedule(FLUSH_DEFERRED_QUEUE, FLUSH_DEFERRED_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Delivery policy for NotificationDeliveryService: quiet hours, digests and
+ * per-channel rate caps. Pure functions over the user's preferences; the
+ * service supplies counts from NotificationLog and persists deferrals.
+ */
+
+import type { DeliveryChannel } from './notification-delivery.service.js';
+import {
+  addDays,
+  hhmmToMinutes,
+  isValidTimezone,
+  zonedParts,
+  zonedTimeToUtc,
+} from '../../shared/utils/timezone';
+
+export type NotificationPriorityLevel = 'high' | 'normal' | 'low';
+export type DigestMode = 'off' | 'daily' | 'per_service';
+export type DeferralReason = 'quiet_hours' | 'digest' | 'rate_limit';
+
+// Time-critical events skip quiet hours, digests and rate caps
+export const POLICY_BYPASS_EVENTS = ['otp', 'payment_link'];
+
+// Events rolled into a digest unless the caller marks them higher priority
+export const LOW_PRIORITY_EVENTS = ['service_status_change', 'auto_reassurance', 'campaign_marketing'];
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+export const DAILY_DIGEST_TIME = '10:00';
+// Per-service digests collect a burst of step updates for this long
+export const SERVICE_DIGEST_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export const CHANNEL_RATE_CAPS: Record<DeliveryChannel, { perHour: number; perDay: number }> = {
+  push: { perHour: 10, perDay: 40 },
+  whatsapp: { perHour: 3, perDay: 10 },
+  email: { perHour: 5, perDay: 20 },
+  sms: { perHour: 3, perDay: 8 },
+};
+
+// Single-timezone countries by dialling code, for NRI users without an explicit timezone
+const DIAL_CODE_TIMEZONES: Record<string, string> = {
+  '+44': 'Europe/London',
+  '+971': 'Asia/Dubai',
+  '+65': 'Asia/Singapore',
+  '+49': 'Europe/Berlin',
+  '+33': 'Europe/Paris',
+  '+81': 'Asia/Tokyo',
+  '+852': 'Asia/Hong_Kong',
+  '+966': 'Asia/Riyadh',
+  '+968': 'Asia/Muscat',
+  '+974': 'Asia/Qatar',
+  '+973': 'Asia/Bahrain',
+  '+60': 'Asia/Kuala_Lumpur',
+  '+64': 'Pacific/Auckland',
+  '+41': 'Europe/Zurich',
+  '+31': 'Europe/Amsterdam',
+  '+353': 'Europe/Dublin',
+  '+46': 'Europe/Stockholm',
+  '+47': 'Europe/Oslo',
+};
+
+export interface DeliveryPolicyPreferences {
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // HH:MM local
+  quietHoursEnd: string; // HH:MM local
+  timezone: string;
+  digestMode: DigestMode;
+}
+
+export function bypassesPolicy(eventType?: string): boolean {
+  return eventType !== undefined && POLICY_BYPASS_EVENTS.includes(eventType);
+}
+
+export function resolvePriority(
+  eventType?: string,
+  priority?: NotificationPriorityLevel,
+): NotificationPriorityLevel {
+  if (priority) return priority;
+  return eventType && LOW_PRIORITY_EVENTS.includes(eventType) ? 'low' : 'normal';
+}
+
+/**
+ * Explicit preference first; NRI users otherwise get their country's zone
+ * where it has only one.
+ */
+export function resolveTimezone(
+  preferred: string | null | undefined,
+  user?: { isNri: boolean; countryCode: string | null } | null,
+): string {
+  if (preferred && isValidTimezone(preferred)) return preferred;
+  if (user?.isNri && user.countryCode && DIAL_CODE_TIMEZONES[user.countryCode]) {
+    return DIAL_CODE_TIMEZONES[user.countryCode];
+  }
+  return DEFAULT_TIMEZONE;
+}
+
+/**
+ * Whether `at` falls in the user's quiet hours. Windows may wrap midnight
+ * (22:00–08:00).
+ */
+export function isInQuietHours(at: Date, prefs: DeliveryPolicyPreferences): boolean {
+  if (!prefs.quietHoursEnabled) return false;
+  const start = hhmmToMinutes(prefs.quietHoursStart);
+  const end = hhmmToMinutes(prefs.quietHoursEnd);
+  if (start === end) return false;
+
+  const { minutes } = zonedParts(at, prefs.timezone);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * First instant after `at` at which the local clock reads `hhmm`.
+ */
+export function nextLocalTime(at: Date, hhmm: string, timezone: string): Date {
+  const { date } = zonedParts(at, timezone);
+  const today = zonedTimeToUtc(date, hhmm, timezone);
+  return today > at ? today : zonedTimeToUtc(addDays(date, 1), hhmm, timezone);
+}
+
+export function quietHoursEndAfter(at: Date, prefs: DeliveryPolicyPreferences): Date {
+  return nextLocalTime(at, prefs.quietHoursEnd, prefs.timezone);
+}
+
+/**
+ * When a low-priority event should go out as part of a digest, and which
+ * digest it joins. Returns null when the user has digests turned off.
+ * `openServiceDigestAt` is the release time of an already pending digest for
+ * the same service, if any.
+ */
+export function planDigest(
+  at: Date,
+  prefs: DeliveryPolicyPreferences,
+  serviceInstanceId?: string,
+  openServiceDigestAt?: Date | null,
+): { digestKey: string; releaseAt: Date } | null {
+  if (prefs.digestMode === 'off') return null;
+
+  let digestKey = 'daily';
+  let releaseAt = nextLocalTime(at, DAILY_DIGEST_TIME, prefs.timezone);
+  if (prefs.digestMode === 'per_service' && serviceInstanceId) {
+    digestKey = `service:${serviceInstanceId}`;
+    releaseAt = openServiceDigestAt ?? new Date(at.getTime() + SERVICE_DIGEST_WINDOW_MS);
+  }
+
+  if (isInQuietHours(releaseAt, prefs)) {
+    releaseAt = quietHoursEndAfter(releaseAt, prefs);
+  }
+  return { digestKey, releaseAt };
+}
@@ -1,29 +1,55 @@
 /**
  * Notification Delivery Service — FR109
- * Orchestrates the delivery chain: FCM push → WhatsApp → SMS fallback.
+ * Orchestrates the delivery chain: FCM push → WhatsApp → email → SMS fallback.
  *
  * This service is the single entry point for triggering a notification to a
  * user from any context (HTTP handler, pg-boss job, internal service). It:
  *   1. Checks the user's opt-out state (NotificationOptOut model).
- *   2. Attempts FCM push first (unless the caller requests a specific channel).
- *   3. Falls back to WhatsApp if push fails or the user prefers WhatsApp.
- *   4. Falls back to SMS after 2 failed WhatsApp attempts.
- *   5. Logs every attempt to NotificationLog and persists failures to
+ *   2. Defers the notification for quiet hours, a digest or per-channel rate
+ *      caps (DeferredNotification, flushed by a pg-boss job). `otp` and
+ *      `payment_link` events bypass this.
+ *   3. Attempts FCM push first (unless the caller requests a specific channel).
+ *   4. Falls back to WhatsApp if push fails or the user prefers WhatsApp.
+ *   5. Falls back to email, then to SMS after 2 failed WhatsApp attempts.
+ *      NRI users get email ahead of WhatsApp.
+ *   6. Skips channels whose provider circuit breaker is open.
+ *   7. Logs every attempt to NotificationLog and persists failures to
  *      FailedNotification for later inspection / manual retry.
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { getMessaging } from 'firebase-admin/messaging';
 import { WhatsAppClient } from '../../core/integrations/whatsapp.client.js';
+import { SmtpError } from '../../core/integrations/smtp.client.js';
 import { logger } from '../../shared/utils/logger.js';
 import { BusinessError } from '../../shared/errors/business-error.js';
 import { env } from '../../shared/config/env.js';
+import {
+  BreakerTarget,
+  ChannelCircuitBreaker,
+  channelCircuitBreaker,
+} from './channel-circuit-breaker.js';
+import { NotificationPreferencesService } from './notification-preferences.service.js';
+import { EmailAdapter } from './email.adapter.js';
+import {
+  CHANNEL_RATE_CAPS,
+  DeferralReason,
+  DeliveryPolicyPreferences,
+  DigestMode,
+  NotificationPriorityLevel,
+  bypassesPolicy,
+  isInQuietHours,
+  planDigest,
+  quietHoursEndAfter,
+  resolvePriority,
+  resolveTimezone,
+} from './notification-delivery-policy.js';
 
 // ---------------------------------------------------------------------------
 // Public types
 // ---------------------------------------------------------------------------
 
-export type DeliveryChannel = 'push' | 'whatsapp' | 'sms';
+export type DeliveryChannel = 'push' | 'whatsapp' | 'email' | 'sms';
 
 export interface DeliverNotificationParams {
   /** Target user's internal ID. */
@@ -32,15 +58,25 @@ export interface DeliverNotificationParams {
   templateName: string;
   /**
    * Preferred channel. When omitted the service starts with 'push' and falls
-   * through the chain automatically (push → whatsapp → sms).
+   * through the chain automatically (push → whatsapp → email → sms).
    */
   channel?: DeliveryChannel;
   /**
    * Free-form key/value context data used to render the message body and
    * passed through to adapters. Use the `_phone` key to supply the recipient
-   * phone number for WhatsApp/SMS delivery.
+   * phone number for WhatsApp/SMS delivery. Email goes to `_email` or the
+   * user's address, with `_subject`, `_html` and `_attachments` (see
+   * EmailAdapter) when given.
    */
   data: Record<string, string>;
+  /** Event type; drives priority defaults and the otp/payment_link bypass. */
+  eventType?: string;
+  /** Low-priority notifications are rolled into digests. */
+  priority?: NotificationPriorityLevel;
+  /** Groups per-service digests. */
+  serviceInstanceId?: string;
+  /** Set when re-delivering a deferred notification so re-deferral updates it. */
+  deferredId?: string;
 }
 
 export interface DeliveryAttempt {
@@ -54,8 +90,21 @@ export interface DeliveryResult {
   userId: string;
   templateName: string;
   attempts: DeliveryAttempt[];
-  finalStatus: 'delivered' | 'failed';
+  finalStatus: 'delivered' | 'failed' | 'deferred';
   notificationLogId: string | null;
+  deferral?: Deferral;
+}
+
+export interface Deferral {
+  id: string;
+  reason: DeferralReason;
+  releaseAt: Date;
+}
+
+export interface FlushDeferredResult {
+  released: number;
+  digests: number;
+  redeferred: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -63,6 +112,14 @@ export interface DeliveryResult {
 // ---------------------------------------------------------------------------
 
 const WHATSAPP_MAX_ATTEMPTS = 2;
+const STANDARD_CHAIN: DeliveryChannel[] = ['push', 'whatsapp', 'email', 'sms'];
+// Overseas users often keep an Indian number they rarely check
+const NRI_CHAIN: DeliveryChannel[] = ['push', 'email', 'whatsapp', 'sms'];
+const HOUR_MS = 60 * 60 * 1000;
+const DIGEST_TEMPLATE = 'notification_digest';
+const SENT_STATUSES = ['sent', 'delivered', 'read'] as const;
+
+type RecipientProfile = { isNri: boolean; countryCode: string | null; email: string | null } | null;
 
 // ---------------------------------------------------------------------------
 // Service
@@ -70,10 +127,14 @@ const WHATSAPP_MAX_ATTEMPTS = 2;
 
 export class NotificationDeliveryService {
   private readonly whatsapp: WhatsAppClient;
+  private readonly preferences: NotificationPreferencesService;
+  private readonly email: EmailAdapter;
 
   constructor(
     private readonly prisma: PrismaClient,
     whatsappClient?: WhatsAppClient,
+    private readonly breaker: ChannelCircuitBreaker = channelCircuitBreaker,
+    emailAdapter?: EmailAdapter,
   ) {
     // Allow injection for testing; build from env vars at runtime.
     this.whatsapp =
@@ -83,6 +144,8 @@ export class NotificationDeliveryService {
         senderId: env.WHATSAPP_SENDER_ID ?? '',
         provider: (env.WHATSAPP_PROVIDER as 'msg91' | 'meta' | undefined) ?? 'msg91',
       });
+    this.preferences = new NotificationPreferencesService(prisma);
+    this.email = emailAdapter ?? new EmailAdapter(prisma);
   }
 
   // -------------------------------------------------------------------------
@@ -113,11 +176,15 @@ export class NotificationDeliveryService {
       select: { channel: true },
     });
     const optedOutChannels = new Set(optOuts.map((o) => o.channel));
+    const recipient = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { isNri: true, countryCode: true, email: true },
+    });
 
     // ------------------------------------------------------------------
     // 2. Build the ordered channel chain
     // ------------------------------------------------------------------
-    const chain = this.buildChain(preferredChannel, optedOutChannels);
+    let chain = this.buildChain(preferredChannel, optedOutChannels, recipient?.isNri ?? false);
 
     if (chain.length === 0) {
       logger.warn({ userId, templateName }, 'NotificationDelivery: user opted out of all channels');
@@ -126,14 +193,44 @@ export class NotificationDeliveryService {
     }
 
     // ------------------------------------------------------------------
-    // 3. Walk the chain until one succeeds
+    // 3. Quiet hours, digests and rate caps
+    // ------------------------------------------------------------------
+    if (!bypassesPolicy(params.eventType)) {
+      const policy = await this.applyDeliveryPolicy(params, chain, recipient);
+      if (policy.deferral) {
+        logger.info(
+          { userId, templateName, reason: policy.deferral.reason, releaseAt: policy.deferral.releaseAt },
+          'NotificationDelivery: deferred',
+        );
+        return {
+          userId,
+          templateName,
+          attempts,
+          finalStatus: 'deferred',
+          notificationLogId,
+          deferral: policy.deferral,
+        };
+      }
+      chain = policy.chain;
+    }
+
+    // ------------------------------------------------------------------
+    // 4. Walk the chain until one succeeds
     // ------------------------------------------------------------------
     let delivered = false;
 
     for (const channel of chain) {
+      const target = this.breakerTarget(channel, templateName);
+      if (!(await this.breaker.canAttempt(target))) {
+        logger.warn({ userId, templateName, channel }, 'NotificationDelivery: circuit open, skipping channel');
+        attempts.push({ channel, messageId: '', status: 'circuit_open' });
+        continue;
+      }
+
       if (channel === 'push') {
         const attempt = await this.attemptPush(userId, templateName, data);
         attempts.push(attempt);
+        await this.recordBreakerOutcomes(target, [attempt]);
         if (attempt.status === 'sent') {
           delivered = true;
           break;
@@ -142,13 +239,23 @@ export class NotificationDeliveryService {
       } else if (channel === 'whatsapp') {
         const attempt = await this.attemptWhatsAppWithRetry(userId, templateName, data);
         attempts.push(...attempt);
+        await this.recordBreakerOutcomes(target, attempt);
         if (attempt.some((a) => a.status === 'sent')) {
           delivered = true;
           break;
         }
+      } else if (channel === 'email') {
+        const attempt = await this.attemptEmail(userId, templateName, data, recipient?.email ?? null);
+        attempts.push(attempt);
+        await this.recordBreakerOutcomes(target, [attempt]);
+        if (attempt.status === 'sent') {
+          delivered = true;
+          break;
+        }
       } else if (channel === 'sms') {
         const attempt = await this.attemptSms(userId, templateName, data);
         attempts.push(attempt);
+        await this.recordBreakerOutcomes(target, [attempt]);
         if (attempt.status === 'sent') {
           delivered = true;
           break;
@@ -157,12 +264,12 @@ export class NotificationDeliveryService {
     }
 
     // ------------------------------------------------------------------
-    // 4. Persist log entry
+    // 5. Persist log entry
     // ------------------------------------------------------------------
     notificationLogId = await this.persistLog(userId, templateName, attempts, delivered);
 
     // ------------------------------------------------------------------
-    // 5. If entirely failed, write to FailedNotification
+    // 6. If entirely failed, write to FailedNotification
     // ------------------------------------------------------------------
     if (!delivered && notificationLogId) {
       await this.persistFailure(userId, templateName, preferredChannel, data, attempts, notificationLogId);
@@ -184,14 +291,15 @@ export class NotificationDeliveryService {
 
   /**
    * Builds an ordered list of channels to try, starting at the preferred
-   * channel and falling through the standard chain.  Channels the user has
-   * opted out of are skipped.
+   * channel and falling through the standard chain (or the NRI chain).
+   * Channels the user has opted out of are skipped.
    */
   private buildChain(
     preferred: DeliveryChannel,
     optedOut: Set<string>,
+    isNri = false,
   ): DeliveryChannel[] {
-    const fullChain: DeliveryChannel[] = ['push', 'whatsapp', 'sms'];
+    const fullChain = isNri ? NRI_CHAIN : STANDARD_CHAIN;
 
     // Rotate so that the preferred channel is first
     const startIdx = fullChain.indexOf(preferred);
@@ -203,6 +311,262 @@ export class NotificationDeliveryService {
     return rotated.filter((ch) => !optedOut.has(ch));
   }
 
+  // -------------------------------------------------------------------------
+  // Delivery policy: quiet hours, digests, rate caps
+  // -------------------------------------------------------------------------
+
+  /**
+   * Decide whether to send now. Low-priority events join a digest; anything
+   * else arriving in quiet hours waits for them to end; channels over their
+   * rate cap are dropped from the chain, and if none remain the notification
+   * waits until the earliest cap frees up.
+   */
+  private async applyDeliveryPolicy(
+    params: DeliverNotificationParams,
+    chain: DeliveryChannel[],
+    recipient: RecipientProfile,
+  ): Promise<{ chain: DeliveryChannel[]; deferral?: Deferral }> {
+    const now = new Date();
+    const prefs = await this.loadPolicyPreferences(params.userId, recipient);
+
+    if (resolvePriority(params.eventType, params.priority) === 'low') {
+      const openDigest =
+        prefs.digestMode === 'per_service' && params.serviceInstanceId
+          ? await this.prisma.deferredNotification.findFirst({
+              where: {
+                userId: params.userId,
+                status: 'pending',
+                digestKey: `service:${params.serviceInstanceId}`,
+              },
+              orderBy: { releaseAt: 'asc' },
+              select: { releaseAt: true },
+            })
+          : null;
+      const digest = planDigest(now, prefs, params.serviceInstanceId, openDigest?.releaseAt);
+      if (digest) {
+        return { chain, deferral: await this.defer(params, 'digest', digest.releaseAt, digest.digestKey) };
+      }
+    }
+
+    if (isInQuietHours(now, prefs)) {
+      return { chain, deferral: await this.defer(params, 'quiet_hours', quietHoursEndAfter(now, prefs)) };
+    }
+
+    const allowed: DeliveryChannel[] = [];
+    let earliestRelease: Date | null = null;
+    for (const channel of chain) {
+      const cappedUntil = await this.rateCapReleaseAt(params.userId, channel, now);
+      if (!cappedUntil) {
+        allowed.push(channel);
+      } else if (!earliestRelease || cappedUntil < earliestRelease) {
+        earliestRelease = cappedUntil;
+      }
+    }
+
+    if (allowed.length === 0 && earliestRelease) {
+      return { chain, deferral: await this.defer(params, 'rate_limit', earliestRelease) };
+    }
+    return { chain: allowed };
+  }
+
+  private async loadPolicyPreferences(
+    userId: string,
+    recipient: RecipientProfile,
+  ): Promise<DeliveryPolicyPreferences> {
+    const prefs = await this.preferences.getPreferences(userId);
+
+    return {
+      quietHoursEnabled: prefs.quietHoursEnabled,
+      quietHoursStart: prefs.quietHoursStart,
+      quietHoursEnd: prefs.quietHoursEnd,
+      timezone: resolveTimezone(prefs.timezone, recipient),
+      digestMode: prefs.digestMode as DigestMode,
+    };
+  }
+
+  /**
+   * When the channel next has room under its hourly and daily caps, or null
+   * if it has room now. Caps are rolling windows over sent notifications.
+   */
+  private async rateCapReleaseAt(
+    userId: string,
+    channel: DeliveryChannel,
+    now: Date,
+  ): Promise<Date | null> {
+    const caps = CHANNEL_RATE_CAPS[channel];
+    let releaseAt: Date | null = null;
+
+    for (const [windowMs, cap] of [[HOUR_MS, caps.perHour], [24 * HOUR_MS, caps.perDay]]) {
+      const recent = await this.prisma.notificationLog.findMany({
+        where: {
+          userId,
+          channel,
+          status: { in: [...SENT_STATUSES] },
+          createdAt: { gt: new Date(now.getTime() - windowMs) },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+        take: cap,
+      });
+      if (recent.length >= cap) {
+        const freesAt = new Date(recent[0].createdAt.getTime() + windowMs);
+        if (!releaseAt || freesAt > releaseAt) releaseAt = freesAt;
+      }
+    }
+
+    return releaseAt;
+  }
+
+  private async defer(
+    params: DeliverNotificationParams,
+    reason: DeferralReason,
+    releaseAt: Date,
+    digestKey?: string,
+  ): Promise<Deferral> {
+    const fields = { reason, releaseAt, digestKey: digestKey ?? null, status: 'pending' };
+    const row = params.deferredId
+      ? await this.prisma.deferredNotification.update({
+          where: { id: params.deferredId },
+          data: fields,
+          select: { id: true },
+        })
+      : await this.prisma.deferredNotification.create({
+          data: {
+            ...fields,
+            userId: params.userId,
+            templateCode: params.templateName,
+            channel: params.channel ?? null,
+            eventType: params.eventType ?? null,
+            priority: resolvePriority(params.eventType, params.priority),
+            serviceInstanceId: params.serviceInstanceId ?? null,
+            contextData: params.data as Prisma.InputJsonValue,
+          },
+          select: { id: true },
+        });
+
+    return { id: row.id, reason, releaseAt };
+  }
+
+  /**
+   * Send deferred notifications whose release time has passed. Digest items
+   * for the same user and digest key go out as one `notification_digest`
+   * message; everything else is re-delivered individually (and may be
+   * deferred again, e.g. if still over a rate cap).
+   */
+  async flushDeferred(now: Date = new Date(), limit = 200): Promise<FlushDeferredResult> {
+    const due = await this.prisma.deferredNotification.findMany({
+      where: { status: 'pending', releaseAt: { lte: now } },
+      orderBy: { releaseAt: 'asc' },
+      take: limit,
+    });
+
+    const result: FlushDeferredResult = { released: 0, digests: 0, redeferred: 0 };
+    const digestGroups = new Map<string, typeof due>();
+    const individual: typeof due = [];
+    for (const item of due) {
+      if (item.reason === 'digest' && item.digestKey) {
+        const key = `${item.userId}|${item.digestKey}`;
+        digestGroups.set(key, [...(digestGroups.get(key) ?? []), item]);
+      } else {
+        individual.push(item);
+      }
+    }
+    // A digest of one is just the original notification
+    for (const [key, items] of digestGroups) {
+      if (items.length === 1) {
+        individual.push(items[0]);
+        digestGroups.delete(key);
+      }
+    }
+
+    for (const item of individual) {
+      const delivery = await this.deliverNotification({
+        userId: item.userId,
+        templateName: item.templateCode,
+        channel: (item.channel as DeliveryChannel | null) ?? undefined,
+        data: item.contextData as Record<string, string>,
+        eventType: item.eventType ?? undefined,
+        // Already waited for its digest slot
+        priority: item.reason === 'digest' ? 'normal' : (item.priority as NotificationPriorityLevel),
+        serviceInstanceId: item.serviceInstanceId ?? undefined,
+        deferredId: item.id,
+      });
+      if (delivery.finalStatus === 'deferred') {
+        result.redeferred++;
+        continue;
+      }
+      await this.prisma.deferredNotification.update({
+        where: { id: item.id },
+        data: { status: 'released', releasedAt: now, notificationLogId: delivery.notificationLogId },
+      });
+      result.released++;
+    }
+
+    for (const items of digestGroups.values()) {
+      const [first] = items;
+      const data = first.contextData as Record<string, string>;
+      const lines = items.map((item) => {
+        const context = item.contextData as Record<string, string>;
+        return context._body || context._title || item.templateCode;
+      });
+
+      const delivery = await this.deliverNotification({
+        userId: first.userId,
+        templateName: DIGEST_TEMPLATE,
+        channel: (first.channel as DeliveryChannel | null) ?? undefined,
+        priority: 'normal',
+        serviceInstanceId: first.digestKey?.startsWith('service:') ? first.serviceInstanceId ?? undefined : undefined,
+        data: {
+          ...(data._phone ? { _phone: data._phone } : {}),
+          ...(data._email ? { _email: data._email } : {}),
+          _title: `${items.length} updates`,
+          _body: lines.join('\n'),
+          update_count: String(items.length),
+          summary: lines.join('; '),
+        },
+      });
+
+      await this.prisma.deferredNotification.updateMany({
+        where: { id: { in: items.map((item) => item.id) } },
+        data: { status: 'digested', releasedAt: now, notificationLogId: delivery.notificationLogId },
+      });
+      result.digests++;
+    }
+
+    return result;
+  }
+
+  // -------------------------------------------------------------------------
+  // Circuit breaker
+  // -------------------------------------------------------------------------
+
+  private breakerTarget(channel: DeliveryChannel, templateName: string): BreakerTarget {
+    const providers: Record<DeliveryChannel, string> = {
+      push: 'fcm',
+      whatsapp: env.WHATSAPP_PROVIDER ?? 'msg91',
+      email: 'smtp',
+      sms: 'msg91',
+    };
+    return { channel, provider: providers[channel], templateScope: templateName };
+  }
+
+  /**
+   * Only provider outcomes count: missing tokens, phone numbers or rejected
+   * mailboxes say nothing about provider health.
+   */
+  private async recordBreakerOutcomes(
+    target: BreakerTarget,
+    attempts: DeliveryAttempt[],
+  ): Promise<void> {
+    for (const attempt of attempts) {
+      if (attempt.status === 'sent') {
+        await this.breaker.recordSuccess(target);
+      } else if (attempt.status === 'failed') {
+        await this.breaker.recordFailure(target);
+      }
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Push attempt
   // -------------------------------------------------------------------------
@@ -335,6 +699,44 @@ export class NotificationDeliveryService {
     return attempts;
   }
 
+  // -------------------------------------------------------------------------
+  // Email attempt
+  // -------------------------------------------------------------------------
+
+  private async attemptEmail(
+    userId: string,
+    templateName: string,
+    data: Record<string, string>,
+    userEmail: string | null,
+  ): Promise<DeliveryAttempt> {
+    const email = data._email ?? userEmail;
+    if (!email) {
+      logger.warn({ userId, templateName }, 'NotificationDelivery: no email address');
+      return { channel: 'email', messageId: '', status: 'no_email' };
+    }
+
+    logger.info({ userId, templateName }, 'NotificationDelivery: attempting email');
+
+    try {
+      const result = await this.email.send({
+        userId,
+        subject: data._subject ?? data._title ?? templateName,
+        body: data._body ?? `Notification: ${templateName}. Please check the Pravesh app for details.`,
+        html: data._html ?? null,
+        contextData: { ...data, _email: email },
+      });
+
+      logger.info({ userId, templateName, messageId: result.messageId, status: result.status }, 'NotificationDelivery: email result');
+      return { channel: 'email', messageId: result.messageId, status: result.status };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error({ userId, templateName, err: message }, 'NotificationDelivery: email error');
+      // A refused mailbox is recorded as a bounce by the adapter
+      const bounced = err instanceof SmtpError && err.stage === 'rcpt' && err.isPermanent;
+      return { channel: 'email', messageId: '', status: bounced ? 'bounced' : 'failed', error: message };
+    }
+  }
+
   // -------------------------------------------------------------------------
   // SMS attempt
   // -------------------------------------------------------------------------
@@ -462,6 +864,7 @@ export class NotificationDeliveryService {
       const channel = (successfulAttempt?.channel ?? lastAttempt?.channel ?? 'push') as
         | 'push'
         | 'whatsapp'
+        | 'email'
         | 'sms';
 
       const log = await this.prisma.notificationLog.create({
@@ -545,11 +948,21 @@ export class NotificationDeliveryService {
     }
     if (
       params.channel !== undefined &&
-      !['push', 'whatsapp', 'sms'].includes(params.channel)
+      !STANDARD_CHAIN.includes(params.channel)
     ) {
       throw new BusinessError(
         'INVALID_CHANNEL',
-        `channel must be one of: push, whatsapp, sms`,
+        `channel must be one of: ${STANDARD_CHAIN.join(', ')}`,
+        400,
+      );
+    }
+    if (
+      params.priority !== undefined &&
+      !['high', 'normal', 'low'].includes(params.priority)
+    ) {
+      throw new BusinessError(
+        'INVALID_PRIORITY',
+        `priority must be one of: high, normal, low`,
         400,
       );
     }
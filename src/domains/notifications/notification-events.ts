@@ -3,6 +3,7 @@
  * Pre-built functions for common notification events
  */
 
+import { TemplateLanguage } from '@prisma/client';
 import { NotificationQueueService } from './notification-queue.service';
 
 const queueService = new NotificationQueueService();
@@ -15,7 +16,7 @@ export async function notifyServiceStatusChange(params: {
   totalSteps: number;
   agentName: string;
   serviceInstanceId: string;
-  language: 'en' | 'hi';
+  language: TemplateLanguage;
 }): Promise<void> {
   const suffix = `${params.language}_v1`;
   const contextData = {
@@ -56,7 +57,7 @@ export async function notifyPaymentConfirmation(params: {
   amount: string;
   receiptId: string;
   serviceInstanceId: string;
-  language: 'en' | 'hi';
+  language: TemplateLanguage;
 }): Promise<void> {
   const suffix = `${params.language}_v1`;
   const contextData = {
@@ -93,7 +94,7 @@ export async function notifyDocumentDelivered(params: {
   serviceName: string;
   documentName: string;
   serviceInstanceId: string;
-  language: 'en' | 'hi';
+  language: TemplateLanguage;
 }): Promise<void> {
   const suffix = `${params.language}_v1`;
 
@@ -131,7 +132,7 @@ export async function notifyTaskAssignment(params: {
   customerName: string;
   propertyAddress: string;
   serviceInstanceId: string;
-  language: 'en' | 'hi';
+  language: TemplateLanguage;
 }): Promise<void> {
   const suffix = `${params.language}_v1`;
 
@@ -3,14 +3,15 @@
  * Manages per-user notification preferences and category-level opt-out
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, TemplateLanguage } from '@prisma/client';
 import { logger } from '../../shared/utils/logger';
+import { buildLanguageChain } from './template-localization';
 
 // Maps event types to preference fields
 const PREFERENCE_MAP: Record<string, Record<string, string>> = {
-  service_status_change: { push: 'serviceUpdatesPush', whatsapp: 'serviceUpdatesWhatsapp' },
-  payment_confirmation: { push: 'paymentPush', sms: 'paymentSms' },
-  document_delivered: { push: 'documentPush', whatsapp: 'documentWhatsapp' },
+  service_status_change: { push: 'serviceUpdatesPush', whatsapp: 'serviceUpdatesWhatsapp', email: 'serviceUpdatesEmail' },
+  payment_confirmation: { push: 'paymentPush', sms: 'paymentSms', email: 'paymentEmail' },
+  document_delivered: { push: 'documentPush', whatsapp: 'documentWhatsapp', email: 'documentEmail' },
   campaign_marketing: { whatsapp: 'marketingWhatsapp' },
 };
 
@@ -39,7 +40,7 @@ export class NotificationPreferencesService {
     return prefs;
   }
 
-  async updatePreferences(userId: string, updates: Record<string, boolean | string>) {
+  async updatePreferences(userId: string, updates: Record<string, boolean | string | null>) {
     const data: Record<string, any> = {};
 
     const allowedFields = [
@@ -47,6 +48,8 @@ export class NotificationPreferencesService {
       'paymentPush', 'paymentSms',
       'documentPush', 'documentWhatsapp',
       'marketingWhatsapp', 'preferredLanguage',
+      'serviceUpdatesEmail', 'paymentEmail', 'documentEmail',
+      'quietHoursEnabled', 'quietHoursStart', 'quietHoursEnd', 'timezone', 'digestMode',
     ];
 
     for (const [key, value] of Object.entries(updates)) {
@@ -91,8 +94,31 @@ export class NotificationPreferencesService {
     return (prefs as any)[preferenceField] ?? true;
   }
 
-  async getUserLanguage(userId: string): Promise<'hi' | 'en'> {
+  /**
+   * Template languages to try for a user: their city's default language,
+   * then their own preference, then English.
+   */
+  async getLanguageChain(userId: string): Promise<TemplateLanguage[]> {
     const prefs = await this.getPreferences(userId);
-    return prefs.preferredLanguage as 'hi' | 'en';
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { cityId: true },
+    });
+
+    let cityDefault: string | undefined;
+    if (user?.cityId) {
+      const city = await this.prisma.city.findUnique({
+        where: { id: user.cityId },
+        select: { configData: true },
+      });
+      cityDefault = (city?.configData as { defaultLanguage?: string } | null)?.defaultLanguage;
+    }
+
+    return buildLanguageChain(cityDefault, prefs.preferredLanguage);
+  }
+
+  async getUserLanguage(userId: string): Promise<TemplateLanguage> {
+    const [language] = await this.getLanguageChain(userId);
+    return language;
   }
 }
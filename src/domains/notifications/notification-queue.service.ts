@@ -8,7 +8,7 @@ import { logger } from '../../shared/utils/logger';
 export interface SendNotificationPayload {
   userId: string;
   templateCode: string;
-  channel: 'push' | 'whatsapp' | 'sms';
+  channel: 'push' | 'whatsapp' | 'email' | 'sms';
   contextData: Record<string, string>;
   priority: 'high' | 'normal' | 'low';
   serviceInstanceId?: string;
@@ -8,7 +8,12 @@ import { PrismaClient } from '@prisma/client';
 import { authorize } from '../../middleware/authorize';
 import { NotificationPreferencesService } from './notification-preferences.service';
 import { NotificationMetricsService } from './notification-metrics.service';
-import { registerDeviceTokenSchema, updatePreferencesSchema } from './notifications.validation';
+import { channelCircuitBreaker } from './channel-circuit-breaker';
+import {
+  forceCircuitBreakerSchema,
+  registerDeviceTokenSchema,
+  updatePreferencesSchema,
+} from './notifications.validation';
 
 export function createNotificationTemplateController(prisma: PrismaClient): Router {
   const router = Router();
@@ -99,6 +104,50 @@ export function createNotificationTemplateController(prisma: PrismaClient): Rout
     }
   });
 
+  /**
+   * GET /monitoring/circuit-breakers
+   * Provider and template-scope breaker states shared across instances.
+   */
+  router.get('/monitoring/circuit-breakers', authorize('super_admin'), async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await channelCircuitBreaker.getStatus();
+      res.json({ success: true, data: status });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /monitoring/circuit-breakers/force
+   * Force a breaker open or closed (optionally for ttlMinutes), or 'auto' to
+   * clear the override.
+   */
+  router.post('/monitoring/circuit-breakers/force', authorize('super_admin'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = (req as any).user!;
+      const parsed = forceCircuitBreakerSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.errors },
+        });
+        return;
+      }
+
+      const { key, state, ttlMinutes } = parsed.data;
+      const status = await channelCircuitBreaker.forceState(
+        key,
+        state,
+        user.id,
+        ttlMinutes ? ttlMinutes * 60 * 1000 : undefined,
+      );
+      res.json({ success: true, data: status });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * GET /monitoring/failed
    * Recent failed notifications for ops/admin.
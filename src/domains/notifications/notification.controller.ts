@@ -134,13 +134,19 @@ export function createNotificationController(prisma: PrismaClient): Router {
   /**
    * POST /send
    * Trigger notification delivery for a given user (ops/admin only).
-   * FR109: Orchestrates FCM → WhatsApp → SMS fallback chain.
+   * FR109: Orchestrates FCM → WhatsApp → email → SMS fallback chain.
    *
    * Body:
    *   userId       — target user's internal ID (required)
    *   templateName — notification template code (required)
-   *   channel      — preferred starting channel: 'push' | 'whatsapp' | 'sms' (optional, default 'push')
-   *   data         — key/value context data; include _phone for WhatsApp/SMS (optional)
+   *   channel      — preferred starting channel: 'push' | 'whatsapp' | 'email' | 'sms' (optional, default 'push')
+   *   data         — key/value context data; include _phone for WhatsApp/SMS, _email to
+   *                  override the user's address (optional)
+   *   eventType    — event type; otp and payment_link bypass quiet hours/digests/caps (optional)
+   *   priority     — 'high' | 'normal' | 'low'; low is rolled into a digest (optional)
+   *   serviceInstanceId — groups per-service digests (optional)
+   *
+   * Responds 202 when the notification was deferred rather than sent.
    *
    * Example:
    *   POST /api/v1/notifications/send
@@ -152,11 +158,14 @@ export function createNotificationController(prisma: PrismaClient): Router {
     authorize('admin', 'ops'),
     async (req: Request, res: Response, next: NextFunction) => {
       try {
-        const { userId, templateName, channel, data } = req.body as {
+        const { userId, templateName, channel, data, eventType, priority, serviceInstanceId } = req.body as {
           userId?: string;
           templateName?: string;
-          channel?: 'push' | 'whatsapp' | 'sms';
+          channel?: 'push' | 'whatsapp' | 'email' | 'sms';
           data?: Record<string, string>;
+          eventType?: string;
+          priority?: 'high' | 'normal' | 'low';
+          serviceInstanceId?: string;
         };
 
         const params = {
@@ -164,16 +173,19 @@ export function createNotificationController(prisma: PrismaClient): Router {
           templateName: templateName ?? '',
           channel,
           data: data ?? {},
+          eventType,
+          priority,
+          serviceInstanceId,
         };
 
         deliveryService.validateParams(params);
 
         const result = await deliveryService.deliverNotification(params);
 
-        const httpStatus = result.finalStatus === 'delivered' ? 200 : 422;
+        const httpStatus = { delivered: 200, deferred: 202, failed: 422 }[result.finalStatus];
 
         res.status(httpStatus).json({
-          success: result.finalStatus === 'delivered',
+          success: result.finalStatus !== 'failed',
           data: result,
         });
       } catch (error) {
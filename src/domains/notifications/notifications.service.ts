@@ -1,12 +1,19 @@
 /**
  * Story 7-1: Notification Template Service
- * Handles template CRUD and Mustache rendering
+ * Handles template CRUD and Mustache rendering, with placeholder
+ * validation across language variants
  */
 
 import { PrismaClient, NotificationEventType, NotificationChannel, TemplateLanguage } from '@prisma/client';
 import Mustache from 'mustache';
-import { TemplateQueryParams, RenderedNotification } from './notifications.types';
+import { TemplateQueryParams, RenderedNotification, TemplateValidation } from './notifications.types';
 import { logger } from '../../shared/utils/logger';
+import {
+  TemplateVariable,
+  extractPlaceholders,
+  findMissingPlaceholders,
+  formatTemplateContext,
+} from './template-localization';
 
 export class NotificationTemplateService {
   constructor(private readonly prisma: PrismaClient) {}
@@ -23,9 +30,14 @@ export class NotificationTemplateService {
     });
   }
 
+  /**
+   * Render a template with variables formatted for its language. Placeholder
+   * gaps between this template and its other language variants are reported
+   * in `validation` and logged, but do not block rendering.
+   */
   async renderTemplate(
     templateCode: string,
-    contextData: Record<string, string>,
+    contextData: Record<string, TemplateVariable>,
   ): Promise<RenderedNotification> {
     const template = await this.prisma.notificationTemplate.findUnique({
       where: { templateCode },
@@ -35,19 +47,62 @@ export class NotificationTemplateService {
       throw new Error(`Template not found: ${templateCode}`);
     }
 
-    const body = Mustache.render(template.body, contextData);
+    const context = formatTemplateContext(contextData, template.language);
+    const body = Mustache.render(template.body, context);
     const subject = template.subject
-      ? Mustache.render(template.subject, contextData)
+      ? Mustache.render(template.subject, context)
       : null;
+    // Mustache HTML-escapes variables, which is what the email body needs
+    const html = template.htmlBody
+      ? Mustache.render(template.htmlBody, context)
+      : null;
+
+    const variantGaps = await this.validateTemplateVariants(
+      template.eventType,
+      template.channel,
+      template.version,
+    );
+    const validation: TemplateValidation = {
+      missingPlaceholders: variantGaps,
+      missingVariables: extractPlaceholders(
+        `${template.subject ?? ''}\n${template.body}\n${template.htmlBody ?? ''}`,
+      ).filter((name) => !(name in contextData)),
+    };
+
+    if (Object.keys(variantGaps).length > 0 || validation.missingVariables.length > 0) {
+      logger.warn(
+        { templateCode, language: template.language, ...validation },
+        'NotificationTemplate: placeholder mismatch',
+      );
+    }
 
     return {
       subject,
       body,
+      html,
       channel: template.channel,
+      language: template.language,
       whatsappTemplateName: template.whatsappTemplateName,
+      validation,
     };
   }
 
+  /**
+   * Placeholders missing per language among the active variants of one
+   * event/channel/version.
+   */
+  async validateTemplateVariants(
+    eventType: NotificationEventType,
+    channel: NotificationChannel,
+    version: number,
+  ) {
+    const variants = await this.prisma.notificationTemplate.findMany({
+      where: { eventType, channel, version, isActive: true },
+      select: { language: true, subject: true, body: true, htmlBody: true },
+    });
+    return findMissingPlaceholders(variants);
+  }
+
   async getTemplateByEvent(
     eventType: NotificationEventType,
     channel: NotificationChannel,
@@ -12,6 +12,7 @@ export interface NotificationTemplateDto {
   language: TemplateLanguage;
   subject: string | null;
   body: string;
+  htmlBody: string | null;
   version: number;
   isActive: boolean;
   whatsappTemplateName: string | null;
@@ -24,9 +25,20 @@ export interface TemplateQueryParams {
   isActive?: boolean;
 }
 
+export interface TemplateValidation {
+  // Placeholders another language variant uses but this language lacks
+  missingPlaceholders: Partial<Record<TemplateLanguage, string[]>>;
+  // Placeholders in the rendered template with no value in the context
+  missingVariables: string[];
+}
+
 export interface RenderedNotification {
   subject: string | null;
   body: string;
+  // Email templates only
+  html: string | null;
   channel: NotificationChannel;
+  language: TemplateLanguage;
   whatsappTemplateName: string | null;
+  validation: TemplateValidation;
 }
@@ -3,6 +3,10 @@
  */
 
 import { z } from 'zod';
+import { SUPPORTED_LANGUAGES } from './template-localization';
+import { isValidTimezone } from '../../shared/utils/timezone';
+
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
 
 // Story 7-1: Template query
 export const templateQuerySchema = z.object({
@@ -12,8 +16,8 @@ export const templateQuerySchema = z.object({
     'task_assignment', 'agent_communication', 'campaign_marketing',
     'receipt_delivery', 'otp', 'payment_link',
   ]).optional(),
-  channel: z.enum(['push', 'whatsapp', 'sms']).optional(),
-  language: z.enum(['hi', 'en']).optional(),
+  channel: z.enum(['push', 'whatsapp', 'email', 'sms']).optional(),
+  language: z.enum(SUPPORTED_LANGUAGES).optional(),
 });
 
 export type TemplateQuery = z.infer<typeof templateQuerySchema>;
@@ -33,13 +37,41 @@ export const updatePreferencesSchema = z.object({
   documentPush: z.boolean().optional(),
   documentWhatsapp: z.boolean().optional(),
   marketingWhatsapp: z.boolean().optional(),
-  preferredLanguage: z.enum(['hi', 'en']).optional(),
+  serviceUpdatesEmail: z.boolean().optional(),
+  paymentEmail: z.boolean().optional(),
+  documentEmail: z.boolean().optional(),
+  // null clears the preference so the city default applies
+  preferredLanguage: z.enum(SUPPORTED_LANGUAGES).nullable().optional(),
+  quietHoursEnabled: z.boolean().optional(),
+  quietHoursStart: hhmm.optional(),
+  quietHoursEnd: hhmm.optional(),
+  // IANA zone, e.g. Asia/Dubai; null falls back to the country or IST
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').nullable().optional(),
+  digestMode: z.enum(['off', 'daily', 'per_service']).optional(),
+});
+
+// Story 7-12: Manual circuit breaker override
+export const forceCircuitBreakerSchema = z.object({
+  key: z.string().min(1).max(300),
+  state: z.enum(['open', 'closed', 'auto']),
+  ttlMinutes: z.number().int().min(1).max(24 * 60).optional(),
+});
+
+// Bounce/complaint events posted by the mail relay
+export const emailBounceWebhookSchema = z.object({
+  events: z.array(z.object({
+    type: z.enum(['bounce', 'complaint']),
+    email: z.string().email(),
+    bounceType: z.enum(['hard', 'soft']).optional(),
+    messageId: z.string().max(300).optional(),
+    reason: z.string().max(1000).optional(),
+  })).min(1).max(500),
 });
 
 // Story 7-10: Communication history query
 export const historyQuerySchema = z.object({
   serviceInstanceId: z.string(),
-  channel: z.enum(['push', 'whatsapp', 'sms']).optional(),
+  channel: z.enum(['push', 'whatsapp', 'email', 'sms']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   page: z.coerce.number().int().min(1).default(1),
@@ -0,0 +1,128 @@
+/**
+ * Notification template localization: supported languages, fallback chains,
+ * per-language variable formatting and placeholder checks across variants.
+ */
+
+import { TemplateLanguage } from '@prisma/client';
+
+export const SUPPORTED_LANGUAGES = ['hi', 'en', 'mr', 'kn', 'ta', 'te', 'bn', 'gu'] as const;
+
+export const FALLBACK_LANGUAGE: TemplateLanguage = 'en';
+
+// Intl locale per template language; regional locales use native digits where ICU does
+const LOCALES: Record<TemplateLanguage, string> = {
+  hi: 'hi-IN',
+  en: 'en-IN',
+  mr: 'mr-IN',
+  kn: 'kn-IN',
+  ta: 'ta-IN',
+  te: 'te-IN',
+  bn: 'bn-IN',
+  gu: 'gu-IN',
+};
+
+/**
+ * A template variable. Plain strings are inserted as-is; dates and rupee
+ * amounts are formatted for the language of the template being rendered.
+ */
+export type TemplateVariable =
+  | string
+  | number
+  | Date
+  | { amountPaise: number };
+
+export function isTemplateLanguage(value: unknown): value is TemplateLanguage {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Languages to try, in order: the city default, then the user's preference,
+ * then English. Unset or unknown entries are skipped.
+ */
+export function buildLanguageChain(
+  cityDefault?: string | null,
+  userPreference?: string | null,
+): TemplateLanguage[] {
+  const chain: TemplateLanguage[] = [];
+  for (const candidate of [cityDefault, userPreference, FALLBACK_LANGUAGE]) {
+    if (isTemplateLanguage(candidate) && !chain.includes(candidate)) {
+      chain.push(candidate);
+    }
+  }
+  return chain;
+}
+
+export function formatTemplateVariable(value: TemplateVariable, language: TemplateLanguage): string {
+  const locale = LOCALES[language];
+  if (value instanceof Date) {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'Asia/Kolkata' }).format(value);
+  }
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(locale).format(value);
+  }
+  if (typeof value === 'object') {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(value.amountPaise / 100);
+  }
+  return value;
+}
+
+export function formatTemplateContext(
+  contextData: Record<string, TemplateVariable>,
+  language: TemplateLanguage,
+): Record<string, string> {
+  const formatted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(contextData)) {
+    formatted[key] = formatTemplateVariable(value, language);
+  }
+  return formatted;
+}
+
+// {{name}}, {{{name}}}, {{& name}} and section openers {{#name}} / {{^name}}
+const PLACEHOLDER_PATTERN = /\{\{\{?\s*[#^&]?\s*([\w.]+)\s*\}?\}\}/g;
+
+/**
+ * Names of all Mustache placeholders in a template, including section tags.
+ */
+export function extractPlaceholders(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names].sort();
+}
+
+export interface TemplateVariant {
+  language: TemplateLanguage;
+  subject: string | null;
+  body: string;
+  htmlBody?: string | null;
+}
+
+/**
+ * Compare placeholders across language variants of one template. Returns, per
+ * language, the placeholders used by some other variant but missing from it.
+ */
+export function findMissingPlaceholders(
+  variants: TemplateVariant[],
+): Partial<Record<TemplateLanguage, string[]>> {
+  const byLanguage = new Map<TemplateLanguage, string[]>();
+  for (const variant of variants) {
+    byLanguage.set(
+      variant.language,
+      extractPlaceholders(`${variant.subject ?? ''}\n${variant.body}\n${variant.htmlBody ?? ''}`),
+    );
+  }
+
+  const union = new Set([...byLanguage.values()].flat());
+  const missing: Partial<Record<TemplateLanguage, string[]>> = {};
+  for (const [language, names] of byLanguage) {
+    const absent = [...union].filter((name) => !names.includes(name)).sort();
+    if (absent.length > 0) missing[language] = absent;
+  }
+  return missing;
+}
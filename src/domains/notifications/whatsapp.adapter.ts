@@ -7,6 +7,7 @@ import { PrismaClient } from '@prisma/client';
 import { ChannelHandler } from '../../shared/queue/jobs/notification-send.job';
 import { env } from '../../shared/config/env';
 import { logger } from '../../shared/utils/logger';
+import { isTemplateLanguage } from './template-localization';
 
 export class WhatsAppAdapter implements ChannelHandler {
   private readonly baseUrl: string;
@@ -80,7 +81,8 @@ export class WhatsAppAdapter implements ChannelHandler {
       type: 'template',
       template: {
         name: templateName,
-        language: { code: language === 'hi' ? 'hi' : 'en' },
+        // Meta uses the same ISO 639-1 codes for all supported Indian languages
+        language: { code: isTemplateLanguage(language) ? language : 'en' },
         components: [
           {
             type: 'body',
@@ -1,6 +1,7 @@
 // Story 13-4: NRI Payment Reconciliation Dashboard Service
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import { OPEN_WIRE_STATUSES } from '../payments/wire-transfer.service';
 
 export class NriPaymentDashboardService {
   constructor(private prisma: PrismaClient) {}
@@ -9,7 +10,7 @@ export class NriPaymentDashboardService {
     status?: string;
     agingDays?: number;
   }) {
-    const where: any = { status: filters?.status || 'pending' };
+    const where: any = { status: filters?.status || { in: OPEN_WIRE_STATUSES } };
 
     if (filters?.agingDays) {
       const cutoff = new Date();
@@ -6,6 +6,14 @@ import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { CreditApplicationService } from '../credit-application.service.js';
 import { AppError } from '../../../core/errors/app-error.js';
 
+const mockRecordCreditsApplied = vi.fn().mockResolvedValue([]);
+
+vi.mock('../../ledger/ledger.service.js', () => ({
+  LedgerService: vi.fn().mockImplementation(() => ({
+    recordCreditsApplied: mockRecordCreditsApplied,
+  })),
+}));
+
 function createMockPrisma() {
   return {
     serviceRequest: {
@@ -255,8 +263,9 @@ describe('[P1] CreditApplicationService - Credit Deduction', () => {
     // When
     await service.deductCreditsOnPayment('cust_123', 'sr_123', 'pay_456', 5000n, 'city_abc');
 
-    // Then: transaction was called
+    // Then: transaction was called and the redemption posted to the ledger
     expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockRecordCreditsApplied).toHaveBeenCalledWith('pay_456');
   });
 
   test('deductCreditsOnPayment throws INSUFFICIENT_CREDITS when not enough credits', async () => {
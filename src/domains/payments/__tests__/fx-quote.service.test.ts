@@ -0,0 +1,217 @@
+/**
+ * Tests for FxQuoteService
+ * Covers: exact quote pricing, wire shortfall tolerance, lock validation
+ *         and single use, FX gain/loss report
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  FxQuoteService,
+  classifyWireVariance,
+  microsToRate,
+  priceQuote,
+  rateToMicros,
+  DEFAULT_FX_SETTINGS,
+} from '../fx-quote.service';
+import { ExchangeRateService } from '../exchange-rate.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createMockPrisma() {
+  const locks: any[] = [];
+
+  const prisma: any = {
+    fxCurrencyConfig: {
+      findUnique: vi.fn().mockResolvedValue(null),
+    },
+    fxRateLock: {
+      create: vi.fn(async ({ data }: any) => {
+        const lock = {
+          id: `lock-${locks.length + 1}`,
+          status: 'active',
+          paymentId: null,
+          consumedAt: null,
+          createdAt: new Date(),
+          ...data,
+          midRate: new Prisma.Decimal(data.midRate),
+          lockedRate: new Prisma.Decimal(data.lockedRate),
+        };
+        locks.push(lock);
+        return lock;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => locks.find((l) => l.id === where.id) ?? null),
+      findMany: vi.fn(async ({ where }: any) => locks.filter((l) => where.paymentId.in.includes(l.paymentId))),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const matching = locks.filter(
+          (l) => l.id === where.id && l.status === where.status && (!where.paymentId || l.paymentId === where.paymentId),
+        );
+        matching.forEach((l) => Object.assign(l, data));
+        return { count: matching.length };
+      }),
+    },
+    payment: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  };
+
+  return { prisma, locks };
+}
+
+describe('priceQuote', () => {
+  test('takes the spread off the mid rate and rounds the foreign amount up', () => {
+    const { lockedMicros, foreignAmountMinor } = priceQuote(1000000, rateToMicros(83.5), 150);
+
+    expect(microsToRate(lockedMicros)).toBe('82.247500');
+    // 10,000 INR / 82.2475 = 121.5843... USD, rounded up to the cent
+    expect(foreignAmountMinor).toBe(12159);
+  });
+
+  test('an exact division is not rounded up', () => {
+    expect(priceQuote(10000, rateToMicros(100), 0).foreignAmountMinor).toBe(100);
+  });
+});
+
+describe('classifyWireVariance', () => {
+  test('absorbs a shortfall within the share of the amount', () => {
+    expect(classifyWireVariance(1000000, 1000000, DEFAULT_FX_SETTINGS)).toBe('exact');
+    expect(classifyWireVariance(1000000, 1010000, DEFAULT_FX_SETTINGS)).toBe('overpaid');
+    expect(classifyWireVariance(1000000, 990000, DEFAULT_FX_SETTINGS)).toBe('absorbed');
+    expect(classifyWireVariance(1000000, 989999, DEFAULT_FX_SETTINGS)).toBe('shortfall');
+  });
+
+  test('caps the absorbed amount on large wires', () => {
+    // 1% of 5,00,000 INR would be 5,000 INR; the cap is 2,000 INR
+    expect(classifyWireVariance(50000000, 49800000, DEFAULT_FX_SETTINGS)).toBe('absorbed');
+    expect(classifyWireVariance(50000000, 49799999, DEFAULT_FX_SETTINGS)).toBe('shortfall');
+  });
+});
+
+describe('FxQuoteService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let exchangeRates: { getRates: ReturnType<typeof vi.fn> };
+  let service: FxQuoteService;
+
+  const PARAMS = { customerId: 'cust-1', serviceRequestId: 'sr-1', amountPaise: 1000000 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    exchangeRates = { getRates: vi.fn().mockResolvedValue({ USD: 83.5, GBP: 105.2 }) };
+    service = new FxQuoteService(
+      mock.prisma as unknown as PrismaClient,
+      exchangeRates as unknown as ExchangeRateService,
+    );
+  });
+
+  test('locks the current rate for the currency lock window', async () => {
+    mock.prisma.fxCurrencyConfig.findUnique.mockResolvedValue({
+      ...DEFAULT_FX_SETTINGS,
+      spreadBasisPoints: 100,
+      lockMinutes: 60,
+      isActive: true,
+    });
+
+    const lock = await service.lockQuote({ ...PARAMS, currency: 'usd' });
+
+    expect(lock).toMatchObject({ currency: 'USD', spreadBasisPoints: 100, foreignAmountMinor: 12098 });
+    expect(lock.lockedRate.toString()).toBe('82.665');
+    expect(lock.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + HOUR_MS);
+  });
+
+  test('refuses quotes in disabled or unknown currencies', async () => {
+    await expect(service.lockQuote({ ...PARAMS, currency: 'JPY' })).rejects.toMatchObject({
+      code: 'FX_CURRENCY_UNSUPPORTED',
+    });
+
+    mock.prisma.fxCurrencyConfig.findUnique.mockResolvedValue({ ...DEFAULT_FX_SETTINGS, isActive: false });
+    await expect(service.lockQuote({ ...PARAMS, currency: 'GBP' })).rejects.toMatchObject({
+      code: 'FX_CURRENCY_DISABLED',
+    });
+  });
+
+  test('a lock pays for exactly one payment', async () => {
+    const lock = await service.lockQuote({ ...PARAMS, currency: 'USD' });
+
+    const consumed = await service.consumeLock({ ...PARAMS, lockId: lock.id, paymentId: 'pay-1' });
+
+    expect(consumed).toMatchObject({ status: 'consumed', paymentId: 'pay-1' });
+    await expect(
+      service.consumeLock({ ...PARAMS, lockId: lock.id, paymentId: 'pay-2' }),
+    ).rejects.toMatchObject({ code: 'FX_LOCK_USED' });
+  });
+
+  test('a lock released after a failed order can pay for the retry', async () => {
+    const lock = await service.lockQuote({ ...PARAMS, currency: 'USD' });
+    await service.consumeLock({ ...PARAMS, lockId: lock.id, paymentId: 'pay-1' });
+
+    await service.releaseLock(lock.id, 'pay-other');
+    expect(mock.locks[0]).toMatchObject({ status: 'consumed', paymentId: 'pay-1' });
+
+    await service.releaseLock(lock.id, 'pay-1');
+    await expect(service.consumeLock({ ...PARAMS, lockId: lock.id, paymentId: 'pay-2' })).resolves.toMatchObject({
+      paymentId: 'pay-2',
+    });
+  });
+
+  test('rejects expired, mismatched and foreign locks', async () => {
+    const lock = await service.lockQuote({ ...PARAMS, currency: 'USD' });
+
+    await expect(
+      service.validateLock({ ...PARAMS, amountPaise: 900000, lockId: lock.id }),
+    ).rejects.toMatchObject({ code: 'FX_LOCK_MISMATCH' });
+    await expect(
+      service.validateLock({ ...PARAMS, customerId: 'cust-2', lockId: lock.id }),
+    ).rejects.toMatchObject({ code: 'FX_LOCK_NOT_FOUND' });
+
+    mock.locks[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.validateLock({ ...PARAMS, lockId: lock.id })).rejects.toMatchObject({
+      code: 'FX_LOCK_EXPIRED',
+    });
+  });
+
+  test('reports realised gain/loss and quoted spread per currency', async () => {
+    const lock = await service.lockQuote({ ...PARAMS, currency: 'USD' });
+    await service.consumeLock({ ...PARAMS, lockId: lock.id, paymentId: 'pay-1' });
+    mock.prisma.payment.findMany.mockResolvedValue([
+      {
+        id: 'pay-1',
+        paidAt: new Date('2026-10-20T06:00:00Z'),
+        paymentMethodType: 'wire_transfer',
+        foreignCurrencyCode: 'USD',
+        foreignCurrencyAmount: lock.foreignAmountMinor,
+        exchangeRate: lock.lockedRate,
+        amountPaise: 1000000,
+        wireTransfer: { receivedAmount: 995000, varianceResolution: 'absorbed' },
+      },
+      {
+        id: 'pay-2',
+        paidAt: new Date('2026-10-21T06:00:00Z'),
+        paymentMethodType: 'international_upi',
+        foreignCurrencyCode: 'USD',
+        foreignCurrencyAmount: 6000,
+        exchangeRate: null,
+        amountPaise: 500000,
+        wireTransfer: null,
+      },
+    ]);
+
+    const report = await service.getGainLossReport({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-11-01T00:00:00Z'),
+    });
+
+    expect(report.payments[0]).toMatchObject({ rateLocked: true, gainLossPaise: -5000, quotedSpreadPaise: 15276 });
+    expect(report.payments[1]).toMatchObject({ rateLocked: false, gainLossPaise: 0, quotedSpreadPaise: 0 });
+    expect(report.totals).toEqual([
+      {
+        currency: 'USD',
+        payments: 2,
+        billedPaise: 1500000,
+        realizedPaise: 1495000,
+        gainLossPaise: -5000,
+        quotedSpreadPaise: 15276,
+      },
+    ]);
+    expect(report.netGainLossPaise).toBe(-5000);
+  });
+});
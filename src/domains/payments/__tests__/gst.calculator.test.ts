@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import {
+  EXPORT_PLACE_OF_SUPPLY,
+  financialYear,
+  formatInvoiceNumber,
+  placeOfSupply,
+  sacCodeFor,
+  splitInclusiveAmount,
+  stateCodeFor,
+} from '../gst.calculator';
+
+describe('GST calculator', () => {
+  describe('tax split', () => {
+    test('intra-state supply splits tax equally into CGST and SGST', () => {
+      const breakup = splitInclusiveAmount({
+        totalPaise: 118000,
+        ratePercent: 18,
+        supplierStateCode: '27',
+        placeOfSupply: '27',
+        zeroRated: false,
+      });
+
+      expect(breakup).toEqual({
+        taxableValuePaise: 100000,
+        cgstPaise: 9000,
+        sgstPaise: 9000,
+        igstPaise: 0,
+        totalPaise: 118000,
+      });
+    });
+
+    test('inter-state supply carries IGST only', () => {
+      const breakup = splitInclusiveAmount({
+        totalPaise: 118000,
+        ratePercent: 18,
+        supplierStateCode: '27',
+        placeOfSupply: '29',
+        zeroRated: false,
+      });
+
+      expect(breakup.igstPaise).toBe(18000);
+      expect(breakup.cgstPaise + breakup.sgstPaise).toBe(0);
+    });
+
+    test('components always add back to the collected amount', () => {
+      for (const totalPaise of [1, 99, 450001, 1234567]) {
+        const b = splitInclusiveAmount({
+          totalPaise,
+          ratePercent: 18,
+          supplierStateCode: '27',
+          placeOfSupply: '27',
+          zeroRated: false,
+        });
+        expect(b.taxableValuePaise + b.cgstPaise + b.sgstPaise + b.igstPaise).toBe(totalPaise);
+        expect(b.sgstPaise - b.cgstPaise).toBeLessThanOrEqual(1);
+      }
+    });
+
+    test('zero-rated exports carry no tax', () => {
+      const breakup = splitInclusiveAmount({
+        totalPaise: 500000,
+        ratePercent: 18,
+        supplierStateCode: '27',
+        placeOfSupply: EXPORT_PLACE_OF_SUPPLY,
+        zeroRated: true,
+      });
+
+      expect(breakup.taxableValuePaise).toBe(500000);
+      expect(breakup.igstPaise).toBe(0);
+    });
+  });
+
+  describe('place of supply', () => {
+    test('B2B uses the state of the buyer GSTIN', () => {
+      expect(placeOfSupply({ supplyType: 'B2B', serviceStateCode: '27', buyerGstin: '29ABCDE1234F1Z5' })).toBe('29');
+    });
+
+    test('B2C uses the service state and exports use 96', () => {
+      expect(placeOfSupply({ supplyType: 'B2C', serviceStateCode: '27' })).toBe('27');
+      expect(placeOfSupply({ supplyType: 'EXPWOP', serviceStateCode: '27' })).toBe('96');
+    });
+  });
+
+  test('maps state names and service categories to codes', () => {
+    expect(stateCodeFor('Maharashtra')).toBe('27');
+    expect(stateCodeFor('  Tamil   Nadu ')).toBe('33');
+    expect(stateCodeFor('Jammu & Kashmir')).toBe('01');
+    expect(stateCodeFor('Atlantis')).toBeNull();
+    expect(sacCodeFor('inheritance')).toBe('998212');
+    expect(sacCodeFor('purchase')).toBe('998214');
+    expect(sacCodeFor(null)).toBe('998216');
+  });
+
+  describe('numbering', () => {
+    test('financial year turns over on 1 April IST', () => {
+      expect(financialYear(new Date('2026-03-31T18:29:00Z'))).toBe('2025-26');
+      expect(financialYear(new Date('2026-03-31T18:30:00Z'))).toBe('2026-27');
+      expect(financialYear(new Date('2026-10-19T10:00:00Z'))).toBe('2026-27');
+    });
+
+    test('invoice numbers fit the 16-character GST limit', () => {
+      const number = formatInvoiceNumber('PUNE', 'credit_note', '2026-27', 42);
+      expect(number).toBe('PUNE/C2627/00042');
+      expect(number.length).toBeLessThanOrEqual(16);
+      expect(formatInvoiceNumber('PUN', 'invoice', '2099-00', 1)).toBe('PUN/I9900/00001');
+    });
+  });
+});
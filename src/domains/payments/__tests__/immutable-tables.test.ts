@@ -73,6 +73,22 @@ describe('[P0] Immutable Tables Extension - Audit Trail Protection', () => {
       expect(mockQuery).not.toHaveBeenCalled();
     });
 
+    test('DELETE blocked on JournalLine', async () => {
+      // Given: DELETE operation on a ledger line
+      // When: Attempt to delete
+      // Then: Throws error
+      await expect(
+        extensionQuery({
+          model: 'JournalLine',
+          operation: 'delete',
+          args: { where: { id: 'line-1' } },
+        })
+      ).rejects.toThrow(
+        'DELETE operation is not allowed on immutable table: JournalLine'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
     test('deleteMany blocked on PaymentStateChange', async () => {
       // Given: deleteMany operation
       // When: Attempt bulk delete
@@ -184,6 +200,24 @@ describe('[P0] Immutable Tables Extension - Audit Trail Protection', () => {
       );
     });
 
+    test('UPDATE blocked on JournalEntry', async () => {
+      // Given: UPDATE on a posted journal entry
+      // When: Attempt to update
+      // Then: Blocked
+      await expect(
+        extensionQuery({
+          model: 'JournalEntry',
+          operation: 'update',
+          args: {
+            where: { id: 'entry-1' },
+            data: { description: 'edited' },
+          },
+        })
+      ).rejects.toThrow(
+        'UPDATE operation is not allowed on immutable table: JournalEntry'
+      );
+    });
+
     test('updateMany blocked on PaymentStateChange', async () => {
       // Given: updateMany on PaymentStateChange
       // When: Attempt to update
@@ -0,0 +1,276 @@
+/**
+ * Tests for InstalmentPlanService
+ * Covers: plan creation from quoted fees, step-triggered due dates, step
+ *         gates, late fees, reminders with payment links and settlement
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { InstalmentPlanService } from '../instalment-plan.service';
+import { InstalmentSpec } from '../payment-structure.calculator';
+
+const mockHaltService = vi.fn().mockResolvedValue({});
+const mockResumeService = vi.fn().mockResolvedValue({});
+
+vi.mock('../../services/service-halt.service', () => ({
+  ServiceHaltService: vi.fn().mockImplementation(() => ({
+    haltService: mockHaltService,
+    resumeService: mockResumeService,
+  })),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SPECS: InstalmentSpec[] = [
+  { label: 'Booking', shareBasisPoints: 3000, trigger: 'upfront', dueDays: 0, gateStep: 1 },
+  { label: 'Registration', shareBasisPoints: 4000, trigger: 'step', triggerStep: 2, dueDays: 5, gateStep: 4 },
+  { label: 'Mutation', shareBasisPoints: 3000, trigger: 'completion', dueDays: 7 },
+];
+
+function createMockPrisma() {
+  const plans: any[] = [];
+  const instalments: any[] = [];
+  const payments: any[] = [];
+  const instance = { id: 'si-1', state: 'payment_pending', customerId: 'cust-1', cityId: 'city-1' };
+
+  const matches = (i: any, where: any) =>
+    Object.entries(where).every(([key, cond]: [string, any]) => {
+      if (key === 'plan') return plans.find((p) => p.id === i.planId)?.status === cond.status;
+      if (cond && typeof cond === 'object' && !(cond instanceof Date)) {
+        if ('in' in cond) return cond.in.includes(i[key]);
+        if ('lte' in cond) return i[key] !== null && i[key] <= cond.lte;
+        if ('lt' in cond) return i[key] !== null && i[key] < cond.lt;
+      }
+      return i[key] === cond;
+    });
+  const withPlan = (i: any) => ({ ...i, plan: plans.find((p) => p.id === i.planId) });
+
+  const prisma: any = {
+    serviceInstance: {
+      findUnique: vi.fn(async () => instance),
+    },
+    serviceRequest: {
+      findFirst: vi.fn().mockResolvedValue({ id: 'sr-1', serviceFeePaise: 100000, govtFeeEstimatePaise: 20000 }),
+    },
+    payment: {
+      findUnique: vi.fn(async ({ where }: any) => payments.find((p) => p.id === where.id) ?? null),
+    },
+    instalmentPlan: {
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const plan = plans.find((p) => p.id === where.id || p.serviceInstanceId === where.serviceInstanceId);
+        if (!plan) return null;
+        return include ? { ...plan, instalments: instalments.filter((i) => i.planId === plan.id) } : plan;
+      }),
+      findMany: vi.fn(async ({ where }: any) => plans.filter((p) => p.serviceHalted === where.serviceHalted)),
+      create: vi.fn(async ({ data }: any) => {
+        const { instalments: nested, ...rest } = data;
+        const plan = { id: `plan-${plans.length + 1}`, status: 'active', serviceHalted: false, ...rest };
+        plans.push(plan);
+        for (const item of nested.create) {
+          instalments.push({
+            id: `inst-${instalments.length + 1}`,
+            planId: plan.id,
+            status: 'scheduled',
+            dueAt: null,
+            lateFeePaise: 0n,
+            paymentId: null,
+            paymentLinkUrl: null,
+            paymentLinkExpiresAt: null,
+            lastReminderAt: null,
+            ...item,
+          });
+        }
+        return { ...plan, instalments: instalments.filter((i) => i.planId === plan.id) };
+      }),
+      update: vi.fn(async ({ where, data }: any) => Object.assign(plans.find((p) => p.id === where.id), data)),
+    },
+    instalment: {
+      findMany: vi.fn(async ({ where, include }: any) =>
+        instalments.filter((i) => matches(i, where)).map((i) => (include ? withPlan(i) : i)),
+      ),
+      findFirst: vi.fn(async ({ where }: any) => instalments.find((i) => matches(i, where)) ?? null),
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const i = instalments.find((x) => x.id === where.id);
+        return i && include ? withPlan(i) : i ?? null;
+      }),
+      update: vi.fn(async ({ where, data }: any) => ({
+        ...Object.assign(instalments.find((i) => i.id === where.id), data),
+      })),
+    },
+    user: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'cust-1', displayName: 'Asha', phone: '+919800000000', email: null }),
+    },
+  };
+
+  return { prisma, plans, instalments, payments, instance };
+}
+
+describe('InstalmentPlanService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let boss: { send: ReturnType<typeof vi.fn> };
+  let paymentLinks: { createAndSendPaymentLink: ReturnType<typeof vi.fn>; buildWhatsappLink: ReturnType<typeof vi.fn> };
+  let service: InstalmentPlanService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    boss = { send: vi.fn().mockResolvedValue('job-1') };
+    paymentLinks = {
+      createAndSendPaymentLink: vi.fn().mockResolvedValue({
+        paymentId: 'pay-link-1',
+        shortUrl: 'https://rzp.io/i/abc',
+        expiresAt: new Date(Date.now() + 3 * DAY_MS).toISOString(),
+        whatsappLink: 'https://wa.me/919800000000',
+      }),
+      buildWhatsappLink: vi.fn().mockReturnValue('https://wa.me/919800000000?text=again'),
+    };
+    service = new InstalmentPlanService(mock.prisma as unknown as PrismaClient, boss, paymentLinks as any);
+  });
+
+  test('creates the schedule from the quoted fees with upfront instalments due now', async () => {
+    const plan = await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+
+    expect(plan.totalPaise).toBe(120000n);
+    expect(plan.instalments.map((i) => [i.amountPaise, i.status])).toEqual([
+      [50000n, 'due'],
+      [40000n, 'scheduled'],
+      [30000n, 'scheduled'],
+    ]);
+    expect(plan.instalments[0].dueAt).toBeInstanceOf(Date);
+  });
+
+  test('refuses a plan once the service has been paid for', async () => {
+    mock.instance.state = 'in_progress';
+
+    await expect(
+      service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' }),
+    ).rejects.toMatchObject({ code: 'INSTALMENT_PLAN_TOO_LATE' });
+  });
+
+  test('reports schedule errors as validation failures', async () => {
+    await expect(
+      service.createPlan({
+        serviceInstanceId: 'si-1',
+        instalments: [{ ...SPECS[0], shareBasisPoints: 5000 }],
+        createdBy: 'ops-1',
+      }),
+    ).rejects.toMatchObject({ code: 'INSTALMENT_PLAN_INVALID', statusCode: 422 });
+  });
+
+  test('step instalments fall due when the workflow reaches their trigger', async () => {
+    await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+
+    expect(await service.onStateReached('si-1', 'step_1')).toBe(0);
+    expect(await service.onStateReached('si-1', 'step_3')).toBe(1);
+    expect(mock.instalments[1]).toMatchObject({ status: 'due' });
+    expect(mock.instalments[1].dueAt.getTime()).toBeGreaterThan(Date.now() + 4 * DAY_MS);
+    expect(mock.instalments[2].status).toBe('scheduled');
+  });
+
+  test('an overdue instalment blocks its gate step but not earlier steps', async () => {
+    await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+    mock.instalments[1].status = 'due';
+    mock.instalments[1].dueAt = new Date(Date.now() - DAY_MS);
+    mock.instalments[0].status = 'paid';
+
+    expect(await service.findGateBlockers('si-1', 'step_3')).toEqual([]);
+    const blockers = await service.findGateBlockers('si-1', 'step_4');
+    expect(blockers.map((i) => i.id)).toEqual(['inst-2']);
+  });
+
+  test('marks missed instalments overdue, adds the late fee after grace and halts past the gate', async () => {
+    await service.createPlan({
+      serviceInstanceId: 'si-1',
+      instalments: SPECS,
+      lateFeeBasisPoints: 200,
+      lateFeeGraceDays: 2,
+      createdBy: 'ops-1',
+    });
+    mock.instalments[0].dueAt = new Date(Date.now() - 3 * DAY_MS);
+    mock.instance.state = 'step_1';
+
+    const result = await service.processDueInstalments();
+
+    expect(mock.instalments[0]).toMatchObject({ status: 'overdue', lateFeePaise: 1000n });
+    expect(mockHaltService).toHaveBeenCalledWith(
+      expect.objectContaining({ serviceInstanceId: 'si-1', reason: 'payment_pending' }),
+    );
+    expect(mock.plans[0].serviceHalted).toBe(true);
+    expect(paymentLinks.createAndSendPaymentLink).toHaveBeenCalledWith(
+      expect.objectContaining({ serviceRequestId: 'sr-1', amountPaise: 51000, customerId: 'cust-1' }),
+    );
+    expect(mock.instalments[0]).toMatchObject({ paymentId: 'pay-link-1', paymentLinkUrl: 'https://rzp.io/i/abc' });
+    expect(result).toMatchObject({ overdue: 1, lateFees: 1, halted: 1, reminded: 1 });
+  });
+
+  test('daily reminders resend the open link until it nears expiry or the amount changes', async () => {
+    await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+    mock.instalments[0].dueAt = new Date(Date.now() - DAY_MS);
+    await service.sendPaymentLink('inst-1');
+    mock.payments.push({ id: 'pay-link-1', status: 'pending', amountPaise: 50000 });
+
+    const resent = await service.sendPaymentLink('inst-1');
+
+    expect(paymentLinks.createAndSendPaymentLink).toHaveBeenCalledTimes(1);
+    expect(resent).toMatchObject({ paymentId: 'pay-link-1', shortUrl: 'https://rzp.io/i/abc' });
+    expect(boss.send).toHaveBeenLastCalledWith(
+      'notification.send',
+      expect.objectContaining({ paymentUrl: 'https://rzp.io/i/abc', whatsappLink: 'https://wa.me/919800000000?text=again' }),
+    );
+
+    mock.instalments[0].lateFeePaise = 600n;
+    await service.sendPaymentLink('inst-1');
+    expect(paymentLinks.createAndSendPaymentLink).toHaveBeenCalledTimes(2);
+    expect(paymentLinks.createAndSendPaymentLink).toHaveBeenLastCalledWith(expect.objectContaining({ amountPaise: 50600 }));
+
+    mock.instalments[0].lateFeePaise = 0n;
+    mock.instalments[0].paymentLinkExpiresAt = new Date(Date.now() + DAY_MS / 2);
+    await service.sendPaymentLink('inst-1');
+    expect(paymentLinks.createAndSendPaymentLink).toHaveBeenCalledTimes(3);
+  });
+
+  test('no late fee inside the grace period', async () => {
+    await service.createPlan({
+      serviceInstanceId: 'si-1',
+      instalments: SPECS,
+      lateFeeBasisPoints: 200,
+      lateFeeGraceDays: 2,
+      createdBy: 'ops-1',
+    });
+    mock.instalments[0].dueAt = new Date(Date.now() - DAY_MS);
+
+    await service.processDueInstalments();
+
+    expect(mock.instalments[0]).toMatchObject({ status: 'overdue', lateFeePaise: 0n });
+    expect(mockHaltService).not.toHaveBeenCalled();
+  });
+
+  test('paying the linked payment settles the instalment and resumes the halted service', async () => {
+    await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+    Object.assign(mock.instalments[0], { status: 'overdue', paymentId: 'pay-link-1', dueAt: new Date(Date.now() - DAY_MS) });
+    mock.plans[0].serviceHalted = true;
+
+    const paid = await service.recordPayment('pay-link-1');
+
+    expect(paid).toMatchObject({ status: 'paid' });
+    expect(mockResumeService).toHaveBeenCalledWith(expect.objectContaining({ serviceInstanceId: 'si-1' }));
+    expect(mock.plans[0]).toMatchObject({ serviceHalted: false, status: 'active' });
+  });
+
+  test('ignores payments not raised for an instalment', async () => {
+    expect(await service.recordPayment('pay-other')).toBeNull();
+  });
+
+  test('completes the plan once every instalment is paid or waived', async () => {
+    await service.createPlan({ serviceInstanceId: 'si-1', instalments: SPECS, createdBy: 'ops-1' });
+    mock.instalments[0].status = 'paid';
+    mock.instalments[1].status = 'paid';
+
+    await service.waiveInstalment('inst-3', 'ops-1', 'Goodwill');
+
+    expect(mock.instalments[2]).toMatchObject({ status: 'waived', waivedBy: 'ops-1' });
+    expect(mock.plans[0].status).toBe('completed');
+    await expect(service.waiveInstalment('inst-3', 'ops-1', 'again')).rejects.toMatchObject({
+      code: 'INSTALMENT_SETTLED',
+    });
+  });
+});
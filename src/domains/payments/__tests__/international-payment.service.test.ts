@@ -0,0 +1,92 @@
+/**
+ * Tests for InternationalPaymentService
+ * Covers: FX lock claimed with the payment before the Razorpay order,
+ *         lock released when the order cannot be created
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InternationalPaymentService } from '../international-payment.service';
+
+const mockValidateLock = vi.fn();
+const mockConsumeLock = vi.fn();
+const mockReleaseLock = vi.fn();
+
+vi.mock('../fx-quote.service', () => ({
+  FxQuoteService: vi.fn().mockImplementation(() => ({
+    validateLock: mockValidateLock,
+    consumeLock: mockConsumeLock,
+    releaseLock: mockReleaseLock,
+  })),
+}));
+
+const LOCK = {
+  id: 'lock-1',
+  currency: 'USD',
+  foreignAmountMinor: 12098,
+  lockedRate: new Prisma.Decimal('82.665'),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+const PARAMS = { serviceRequestId: 'sr-1', amountPaise: 1000000, customerId: 'cust-1', fxLockId: 'lock-1' };
+
+describe('InternationalPaymentService', () => {
+  let calls: string[];
+  let prisma: any;
+  let razorpay: { orders: { create: ReturnType<typeof vi.fn> } };
+  let service: InternationalPaymentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    calls = [];
+    prisma = {
+      payment: {
+        create: vi.fn(async ({ data }: any) => {
+          calls.push('payment.create');
+          return data;
+        }),
+        update: vi.fn(async ({ data }: any) => {
+          calls.push(`payment.update:${Object.keys(data).join(',')}`);
+          return data;
+        }),
+      },
+    };
+    prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+    mockValidateLock.mockResolvedValue(LOCK);
+    mockConsumeLock.mockImplementation(async () => {
+      calls.push('consumeLock');
+      return LOCK;
+    });
+    razorpay = {
+      orders: {
+        create: vi.fn(async () => {
+          calls.push('orders.create');
+          return { id: 'order_1' };
+        }),
+      },
+    };
+    service = new InternationalPaymentService(prisma as unknown as PrismaClient, razorpay as any);
+  });
+
+  test('claims the FX lock with the payment before raising the order', async () => {
+    const result = await service.createInternationalUpiOrder(PARAMS);
+
+    expect(calls).toEqual(['payment.create', 'consumeLock', 'orders.create', 'payment.update:razorpayOrderId']);
+    expect(mockConsumeLock).toHaveBeenCalledWith(expect.objectContaining({ lockId: 'lock-1' }), prisma);
+    expect(result).toMatchObject({ orderId: 'order_1', foreignCurrencyCode: 'USD', foreignAmountMinor: 12098 });
+  });
+
+  test('no order is raised when the lock was taken by another payment', async () => {
+    mockConsumeLock.mockRejectedValue(Object.assign(new Error('Rate lock has already been used'), { code: 'FX_LOCK_USED' }));
+
+    await expect(service.createInternationalUpiOrder(PARAMS)).rejects.toMatchObject({ code: 'FX_LOCK_USED' });
+    expect(razorpay.orders.create).not.toHaveBeenCalled();
+  });
+
+  test('fails the payment and frees the lock when Razorpay rejects the order', async () => {
+    razorpay.orders.create.mockRejectedValue(new Error('Razorpay unavailable'));
+
+    await expect(service.createInternationalUpiOrder(PARAMS)).rejects.toThrow('Razorpay unavailable');
+    expect(prisma.payment.update).toHaveBeenCalledWith(expect.objectContaining({ data: { status: 'failed' } }));
+    expect(mockReleaseLock).toHaveBeenCalledWith('lock-1', expect.any(String), prisma);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Tests for PaymentDisputeService
+ * Covers: webhook ingestion and status transitions, service halting,
+ *         evidence pack assembly and deadline alert selection
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PaymentDisputeService } from '../payment-dispute.service';
+
+const mockHaltService = vi.fn().mockResolvedValue({});
+const mockResumeService = vi.fn().mockResolvedValue({});
+const mockRecordChargebackLost = vi.fn().mockResolvedValue([]);
+
+vi.mock('../../services/service-halt.service', () => ({
+  ServiceHaltService: vi.fn().mockImplementation(() => ({
+    haltService: mockHaltService,
+    resumeService: mockResumeService,
+  })),
+}));
+
+vi.mock('../../ledger/ledger.service', () => ({
+  LedgerService: vi.fn().mockImplementation(() => ({
+    recordChargebackLost: mockRecordChargebackLost,
+  })),
+}));
+
+const DISPUTE_ENTITY = {
+  id: 'disp_1',
+  payment_id: 'pay_1',
+  amount: 300000,
+  currency: 'INR',
+  amount_deducted: 0,
+  reason_code: 'service_not_provided',
+  respond_by: 1760947200,
+  status: 'open',
+  phase: 'chargeback',
+  created_at: 1760860800,
+};
+
+function createMockPrisma() {
+  const disputes: any[] = [];
+
+  const prisma: any = {
+    paymentDispute: {
+      findUnique: vi.fn(async ({ where }: any) =>
+        disputes.find((d) => d.id === where.id || d.razorpayDisputeId === where.razorpayDisputeId) ?? null,
+      ),
+      create: vi.fn(async ({ data }: any) => {
+        const d = { id: `pd-${disputes.length + 1}`, serviceHalted: false, evidencePack: null, ...data };
+        disputes.push(d);
+        return d;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const d = disputes.find((x) => x.id === where.id);
+        Object.assign(d, data);
+        return { ...d };
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    payment: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: 'p-1',
+        razorpayPaymentId: 'pay_1',
+        serviceRequestId: 'si-1',
+        customerId: 'cust-1',
+      }),
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'p-1',
+        razorpayPaymentId: 'pay_1',
+        amountPaise: 300000,
+        paidAt: new Date('2025-10-01T10:00:00Z'),
+        paymentMethodType: 'upi',
+      }),
+    },
+    serviceRequest: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findFirst: vi.fn().mockResolvedValue({ id: 'sr-1', serviceInstanceId: 'si-1', cityId: 'city-1' }),
+    },
+    serviceInstance: { findUnique: vi.fn().mockResolvedValue(null) },
+    gpsEvidence: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          capturedAt: new Date('2025-10-02T09:00:00Z'),
+          latitude: 17.4,
+          longitude: 78.5,
+          accuracy: 8,
+          verification: 'verified',
+          geofenceLabel: 'Sub-registrar office',
+          photoUrls: ['gps/1.jpg'],
+        },
+      ]),
+    },
+    checklist: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          serviceCode: 'title_check',
+          completedSteps: 1,
+          totalSteps: 1,
+          completedAt: new Date('2025-10-03T09:00:00Z'),
+          steps: [{ title: 'Collect EC', isCompleted: true, completedAt: new Date('2025-10-03T09:00:00Z'), photoUrls: [] }],
+        },
+      ]),
+    },
+    document: {
+      findMany: vi.fn().mockResolvedValue([
+        { id: 'doc-1', docType: 'encumbrance_certificate', uploadedBy: 'agent-1', uploadedAt: new Date('2025-10-03T10:00:00Z') },
+      ]),
+    },
+    serviceCommunication: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          sentAt: new Date('2025-10-04T09:00:00Z'),
+          communicationType: 'completion',
+          channel: 'whatsapp',
+          messageContent: 'Your title check is complete',
+          deliveryStatus: 'read',
+        },
+      ]),
+    },
+    notificationLog: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          createdAt: new Date('2025-10-02T08:00:00Z'),
+          templateCode: 'agent_assigned',
+          channel: 'sms',
+          body: 'An agent has been assigned',
+          status: 'delivered',
+        },
+      ]),
+    },
+  };
+
+  return { prisma, disputes };
+}
+
+describe('PaymentDisputeService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let boss: { send: ReturnType<typeof vi.fn> };
+  let service: PaymentDisputeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    boss = { send: vi.fn().mockResolvedValue('job-1') };
+    service = new PaymentDisputeService(mock.prisma as unknown as PrismaClient, boss);
+  });
+
+  describe('ingestWebhookEvent', () => {
+    test('opens a dispute, halts the paid-for service and alerts ops', async () => {
+      const dispute = await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY);
+
+      expect(dispute).toMatchObject({
+        razorpayDisputeId: 'disp_1',
+        paymentId: 'p-1',
+        serviceInstanceId: 'si-1',
+        serviceRequestId: 'sr-1',
+        cityId: 'city-1',
+        status: 'open',
+        serviceHalted: true,
+      });
+      expect(dispute.respondBy?.toISOString()).toBe('2025-10-20T08:00:00.000Z');
+      expect(mockHaltService).toHaveBeenCalledWith(
+        expect.objectContaining({ serviceInstanceId: 'si-1', reason: 'dispute_pending' }),
+      );
+      expect(boss.send).toHaveBeenCalledWith(
+        'notification.send',
+        expect.objectContaining({ type: 'payment_dispute_opened', disputeId: 'pd-1' }),
+      );
+    });
+
+    test('keeps the dispute when the service cannot be halted', async () => {
+      mockHaltService.mockRejectedValueOnce(new Error('Service is already halted'));
+
+      const dispute = await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY);
+
+      expect(dispute).toMatchObject({ status: 'open', serviceHalted: false });
+    });
+
+    test('resumes the service when the dispute is won', async () => {
+      await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY);
+      const won = await service.ingestWebhookEvent('payment.dispute.won', { ...DISPUTE_ENTITY, status: 'won' });
+
+      expect(won.status).toBe('won');
+      expect(won.resolvedAt).toBeInstanceOf(Date);
+      expect(mockResumeService).toHaveBeenCalledWith(expect.objectContaining({ serviceInstanceId: 'si-1' }));
+      expect(mockRecordChargebackLost).not.toHaveBeenCalled();
+    });
+
+    test('posts the chargeback to the ledger when the dispute is lost', async () => {
+      await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY);
+      await service.ingestWebhookEvent('payment.dispute.lost', { ...DISPUTE_ENTITY, amount_deducted: 300000 });
+
+      expect(mock.disputes[0]).toMatchObject({ status: 'lost', amountDeductedPaise: 300000 });
+      expect(mockRecordChargebackLost).toHaveBeenCalledWith('pd-1');
+      expect(mockResumeService).not.toHaveBeenCalled();
+    });
+
+    test('ignores events after the dispute is resolved', async () => {
+      await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY);
+      await service.ingestWebhookEvent('payment.dispute.lost', DISPUTE_ENTITY);
+      mock.prisma.paymentDispute.update.mockClear();
+
+      const result = await service.ingestWebhookEvent('payment.dispute.action_required', DISPUTE_ENTITY);
+
+      expect(result.status).toBe('lost');
+      expect(mock.prisma.paymentDispute.update).not.toHaveBeenCalled();
+    });
+
+    test('ignores an event older than the last one applied', async () => {
+      const at = (iso: string) => new Date(iso);
+      await service.ingestWebhookEvent('payment.dispute.created', DISPUTE_ENTITY, at('2025-10-19T08:00:00Z'));
+      await service.ingestWebhookEvent('payment.dispute.under_review', DISPUTE_ENTITY, at('2025-10-21T08:00:00Z'));
+      boss.send.mockClear();
+
+      // Delivered late: asked for evidence before the review began
+      const late = await service.ingestWebhookEvent(
+        'payment.dispute.action_required',
+        DISPUTE_ENTITY,
+        at('2025-10-20T08:00:00Z'),
+      );
+
+      expect(late).toMatchObject({ status: 'under_review', lastEventAt: at('2025-10-21T08:00:00Z') });
+      expect(boss.send).not.toHaveBeenCalled();
+
+      // A newer request for evidence (e.g. pre-arbitration) still applies
+      const newer = await service.ingestWebhookEvent(
+        'payment.dispute.action_required',
+        { ...DISPUTE_ENTITY, phase: 'pre_arbitration' },
+        at('2025-10-25T08:00:00Z'),
+      );
+      expect(newer).toMatchObject({ status: 'evidence_required', phase: 'pre_arbitration' });
+    });
+
+    test('rejects unknown dispute events', async () => {
+      await expect(service.ingestWebhookEvent('payment.dispute.reopened', DISPUTE_ENTITY)).rejects.toMatchObject({
+        code: 'DISPUTE_EVENT_UNKNOWN',
+      });
+    });
+  });
+
+  describe('assembleEvidencePack', () => {
+    test('collects service proof and a chronological communication history', async () => {
+      await service.ingestWebhookEvent('payment.dispute.action_required', DISPUTE_ENTITY);
+
+      const result = await service.assembleEvidencePack('pd-1');
+      const pack = result.evidencePack as any;
+
+      expect(pack.payment).toMatchObject({ id: 'p-1', amountPaise: 300000, method: 'upi' });
+      expect(pack.gpsEvidence).toHaveLength(1);
+      expect(pack.checklists[0].steps[0]).toMatchObject({ title: 'Collect EC', isCompleted: true });
+      expect(pack.deliveredDocuments).toEqual([expect.objectContaining({ id: 'doc-1' })]);
+      expect(pack.communications.map((c: any) => c.source)).toEqual(['notification', 'service_communication']);
+      expect(result.evidenceAssembledAt).toBeInstanceOf(Date);
+
+      const docWhere = mock.prisma.document.findMany.mock.calls[0][0].where;
+      expect(docWhere).toEqual({ serviceInstanceId: 'si-1', verificationStatus: 'verified', archivedAt: null });
+    });
+
+    test('requires an evidence pack before marking evidence submitted', async () => {
+      await service.ingestWebhookEvent('payment.dispute.action_required', DISPUTE_ENTITY);
+
+      await expect(service.markEvidenceSubmitted('pd-1', 'ops-1')).rejects.toMatchObject({
+        code: 'PAYMENT_DISPUTE_NO_EVIDENCE',
+      });
+
+      await service.assembleEvidencePack('pd-1');
+      const submitted = await service.markEvidenceSubmitted('pd-1', 'ops-1');
+
+      expect(submitted).toMatchObject({ status: 'under_review', evidenceSubmittedBy: 'ops-1' });
+    });
+  });
+
+  describe('getDisputesNeedingAlert', () => {
+    test('selects disputes awaiting evidence near their deadline and not alerted recently', async () => {
+      await service.getDisputesNeedingAlert(48);
+
+      const where = mock.prisma.paymentDispute.findMany.mock.calls[0][0].where;
+      expect(where.status).toEqual({ in: ['open', 'evidence_required'] });
+      expect(where.respondBy.lte.getTime()).toBeGreaterThan(Date.now() + 47 * 60 * 60 * 1000);
+      expect(where.OR).toEqual([{ lastAlertedAt: null }, { lastAlertedAt: { lt: expect.any(Date) } }]);
+    });
+  });
+});
@@ -3,6 +3,10 @@ import {
   calculatePaymentStructure,
   validatePaymentAmount,
   canMakePayment,
+  calculateInstalmentSchedule,
+  calculateLateFee,
+  DEFAULT_INSTALMENT_SPECS,
+  InstalmentSpec,
 } from '../payment-structure.calculator';
 
 describe('[P0] Payment Structure Calculator - 30/70 Split', () => {
@@ -468,3 +472,49 @@ describe('[P0] Payment Structure Calculator - 30/70 Split', () => {
     });
   });
 });
+
+describe('Instalment Schedule Calculator', () => {
+  const specs: InstalmentSpec[] = [
+    { label: 'Booking', shareBasisPoints: 2000, trigger: 'upfront', dueDays: 0, gateStep: 1 },
+    { label: 'Title search done', shareBasisPoints: 3333, trigger: 'step', triggerStep: 2, dueDays: 5, gateStep: 4 },
+    { label: 'Registration', shareBasisPoints: 3333, trigger: 'step', triggerStep: 4, dueDays: 5, gateStep: 6 },
+    { label: 'Mutation', shareBasisPoints: 1334, trigger: 'completion', dueDays: 7 },
+  ];
+
+  test('default schedule reproduces the 30/70 split exactly', () => {
+    const structure = calculatePaymentStructure(99999n, 12345n);
+    const [advance, balance] = calculateInstalmentSchedule(99999n, 12345n, DEFAULT_INSTALMENT_SPECS);
+
+    expect(advance.amountPaise).toBe(structure.totalUpfrontPaise);
+    expect(balance.amountPaise).toBe(structure.totalBalancePaise);
+  });
+
+  test('govt fee rides on the first instalment and the last takes the remainder', () => {
+    const schedule = calculateInstalmentSchedule(100001n, 50000n, specs);
+
+    expect(schedule.map((i) => i.serviceFeePortionPaise)).toEqual([20000n, 33330n, 33330n, 13341n]);
+    expect(schedule.map((i) => i.govtFeePaise)).toEqual([50000n, 0n, 0n, 0n]);
+    expect(schedule.reduce((sum, i) => sum + i.amountPaise, 0n)).toBe(150001n);
+    expect(schedule.map((i) => i.sequence)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('rejects shares that do not add up to 100%', () => {
+    const bad = specs.map((s, i) => (i === 3 ? { ...s, shareBasisPoints: 1000 } : s));
+    expect(() => calculateInstalmentSchedule(10000n, 0n, bad)).toThrow('must add up to 10000');
+  });
+
+  test('rejects schedules out of workflow order or gating before the trigger', () => {
+    const reordered = [specs[0], specs[2], specs[1], specs[3]];
+    expect(() => calculateInstalmentSchedule(10000n, 0n, reordered)).toThrow('workflow order');
+
+    const earlyGate = specs.map((s, i) => (i === 1 ? { ...s, gateStep: 2 } : s));
+    expect(() => calculateInstalmentSchedule(10000n, 0n, earlyGate)).toThrow('gate step must come after');
+
+    expect(() => calculateInstalmentSchedule(10000n, 0n, specs.slice(1))).toThrow('First instalment must be upfront');
+  });
+
+  test('late fee is a floored share of the instalment', () => {
+    expect(calculateLateFee(33333n, 200)).toBe(666n);
+    expect(calculateLateFee(33333n, 0)).toBe(0n);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for RazorpayWebhookHandler
+ * Covers: payment.captured and order.paid invoicing and posting the payment,
+ *         payment_link.paid settling the payment and the instalment it was
+ *         raised for, replays
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { RazorpayWebhookHandler, RazorpayWebhookPayload } from '../razorpay-webhook.handler';
+
+const mockIssueForPayment = vi.fn().mockResolvedValue({});
+const mockRecordPaymentCaptured = vi.fn().mockResolvedValue([]);
+const mockResumeService = vi.fn().mockResolvedValue({});
+
+vi.mock('../tax-invoice.service.js', () => ({
+  TaxInvoiceService: vi.fn().mockImplementation(() => ({ issueForPayment: mockIssueForPayment })),
+}));
+
+vi.mock('../../ledger/ledger.service.js', () => ({
+  LedgerService: vi.fn().mockImplementation(() => ({ recordPaymentCaptured: mockRecordPaymentCaptured })),
+}));
+
+vi.mock('../../services/service-halt.service', () => ({
+  ServiceHaltService: vi.fn().mockImplementation(() => ({ resumeService: mockResumeService })),
+}));
+
+function createMockPrisma() {
+  const events: any[] = [];
+  const payment: any = {
+    id: 'pay-1',
+    status: 'pending',
+    razorpayOrderId: 'order_1',
+    razorpayPaymentLinkId: 'plink_1',
+    razorpayPaymentId: null,
+  };
+  const plan: any = { id: 'plan-1', serviceInstanceId: 'si-1', status: 'active', serviceHalted: true };
+  const instalments: any[] = [
+    { id: 'inst-1', planId: 'plan-1', status: 'overdue', paymentId: 'pay-1', gateStep: 1, dueAt: new Date(Date.now() - 86400000) },
+    { id: 'inst-2', planId: 'plan-1', status: 'scheduled', paymentId: null, gateStep: null, dueAt: null },
+  ];
+
+  const prisma: any = {
+    webhookEvent: {
+      findUnique: vi.fn(async ({ where }: any) => events.find((e) => e.razorpayEventId === where.razorpayEventId) ?? null),
+      create: vi.fn(async ({ data }: any) => {
+        const event = { id: `evt-${events.length + 1}`, ...data };
+        events.push(event);
+        return event;
+      }),
+      update: vi.fn(async ({ where, data }: any) => Object.assign(events.find((e) => e.id === where.id), data)),
+    },
+    payment: {
+      findFirst: vi.fn(async ({ where }: any) =>
+        Object.entries(where).every(([field, value]) => payment[field] === value) ? payment : null,
+      ),
+      update: vi.fn(async ({ data }: any) => Object.assign(payment, data)),
+    },
+    paymentStateChange: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+    instalment: {
+      findFirst: vi.fn(async ({ where }: any) =>
+        instalments.find((i) => i.paymentId === where.paymentId && where.status.in.includes(i.status)) ?? null,
+      ),
+      update: vi.fn(async ({ where, data }: any) => ({ ...Object.assign(instalments.find((i) => i.id === where.id), data) })),
+    },
+    instalmentPlan: {
+      findUnique: vi.fn(async () => ({ ...plan, instalments })),
+      update: vi.fn(async ({ data }: any) => Object.assign(plan, data)),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, events, payment, plan, instalments };
+}
+
+function paymentLinkPaid(): RazorpayWebhookPayload {
+  return {
+    entity: 'event',
+    account_id: 'acc_1',
+    event: 'payment_link.paid',
+    contains: ['payment_link', 'order', 'payment'],
+    payload: {
+      payment_link: {
+        entity: { id: 'plink_1', amount: 5000000, amount_paid: 5000000, status: 'paid', notes: {} },
+      },
+      payment: {
+        entity: {
+          id: 'pay_rzp_1',
+          amount: 5000000,
+          currency: 'INR',
+          status: 'captured',
+          order_id: 'order_link_1',
+          method: 'upi',
+          captured: true,
+          notes: {},
+          error_code: null,
+          error_description: null,
+        },
+      },
+    },
+    created_at: 1792400000,
+  };
+}
+
+function paymentCaptured(): RazorpayWebhookPayload {
+  const payload = paymentLinkPaid();
+  return {
+    ...payload,
+    event: 'payment.captured',
+    contains: ['payment'],
+    payload: { payment: { entity: { ...payload.payload.payment!.entity, order_id: 'order_1' } } },
+  };
+}
+
+describe('RazorpayWebhookHandler', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let handler: RazorpayWebhookHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    handler = new RazorpayWebhookHandler(mock.prisma as unknown as PrismaClient, { send: vi.fn() });
+  });
+
+  test('a paid instalment link settles the payment and the instalment, resuming the service', async () => {
+    const result = await handler.handleWebhook('evt_rzp_1', paymentLinkPaid());
+
+    expect(result).toEqual({ processed: true, message: 'Event payment_link.paid processed' });
+    expect(mock.payment).toMatchObject({ status: 'paid', razorpayPaymentId: 'pay_rzp_1' });
+    expect(mockIssueForPayment).toHaveBeenCalledWith('pay-1');
+    expect(mockRecordPaymentCaptured).toHaveBeenCalledWith('pay-1');
+    expect(mock.instalments[0]).toMatchObject({ status: 'paid' });
+    expect(mock.instalments[0].paidAt).toBeInstanceOf(Date);
+    expect(mockResumeService).toHaveBeenCalledWith(expect.objectContaining({ serviceInstanceId: 'si-1' }));
+    expect(mock.plan.serviceHalted).toBe(false);
+  });
+
+  test('a captured payment is marked paid, invoiced and posted to the ledger', async () => {
+    const result = await handler.handleWebhook('evt_rzp_3', paymentCaptured());
+
+    expect(result.processed).toBe(true);
+    expect(mock.payment).toMatchObject({ status: 'paid', razorpayPaymentId: 'pay_rzp_1' });
+    expect(mockIssueForPayment).toHaveBeenCalledWith('pay-1');
+    expect(mockRecordPaymentCaptured).toHaveBeenCalledWith('pay-1');
+  });
+
+  test('order.paid marks the payment paid, invoiced and posted to the ledger', async () => {
+    const payload = paymentCaptured();
+    payload.event = 'order.paid';
+    payload.payload.order = {
+      entity: { id: 'order_1', amount: 5000000, amount_paid: 5000000, status: 'paid', receipt: 'rcpt_1', notes: {} },
+    };
+
+    await handler.handleWebhook('evt_rzp_4', payload);
+
+    expect(mock.payment.status).toBe('paid');
+    expect(mockIssueForPayment).toHaveBeenCalledWith('pay-1');
+    expect(mockRecordPaymentCaptured).toHaveBeenCalledWith('pay-1');
+  });
+
+  test('replayed events are not processed twice', async () => {
+    await handler.handleWebhook('evt_rzp_1', paymentLinkPaid());
+
+    const replay = await handler.handleWebhook('evt_rzp_1', paymentLinkPaid());
+
+    expect(replay.processed).toBe(false);
+    expect(mock.prisma.payment.update).toHaveBeenCalledTimes(1);
+  });
+
+  test('records the event as failed when the link was not raised here', async () => {
+    const payload = paymentLinkPaid();
+    payload.payload.payment_link!.entity.id = 'plink_unknown';
+
+    await expect(handler.handleWebhook('evt_rzp_2', payload)).rejects.toThrow('plink_unknown');
+    expect(mock.events[0]).toMatchObject({ status: 'failed' });
+  });
+});
@@ -9,12 +9,15 @@ import { ReconciliationService } from '../reconciliation.service.js';
 // Mock Prisma
 vi.mock('@prisma/client', () => {
   const mockPrisma = {
-    payment: {
+    serviceRequest: {
       findMany: vi.fn(),
     },
     cashReceipt: {
       findMany: vi.fn(),
     },
+    instalmentPlan: {
+      findMany: vi.fn(),
+    },
     cashReconciliationLog: {
       create: vi.fn(),
       findMany: vi.fn(),
@@ -29,10 +32,18 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
   let service: ReconciliationService;
   let mockPrisma: any;
 
+  // Receipts collected on the day, and earlier ones for the same requests
+  function givenReceipts(today: any[], earlier: any[] = []) {
+    mockPrisma.cashReceipt.findMany.mockImplementation(async ({ where }: any) =>
+      where.createdAt.lt ? earlier : today,
+    );
+  }
+
   beforeEach(() => {
     mockPrisma = new PrismaClient();
     service = new ReconciliationService(mockPrisma);
     vi.clearAllMocks();
+    mockPrisma.instalmentPlan.findMany.mockResolvedValue([]);
   });
 
   test('runDailyReconciliation returns MATCHED when totals are equal', async () => {
@@ -40,15 +51,15 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    // Payment.amountPaise is Int (number in JS)
-    mockPrisma.payment.findMany.mockResolvedValue([
-      { id: 'pay_1', amountPaise: 10000, status: 'SUCCESS' },
-      { id: 'pay_2', amountPaise: 15000, status: 'SUCCESS' },
-      { id: 'pay_3', amountPaise: 5000, status: 'SUCCESS' },
+    // Quoted fees on the cash-paid service requests
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 10000, govtFeeEstimatePaise: 0 },
+      { id: 'sr_2', serviceFeePaise: 15000, govtFeeEstimatePaise: 0 },
+      { id: 'sr_3', serviceFeePaise: 5000, govtFeeEstimatePaise: 0 },
     ]);
 
     // CashReceipt.amountPaise is stored as string (BigInt column)
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([
+    givenReceipts([
       { id: 'rcpt_1', amountPaise: '10000' },
       { id: 'rcpt_2', amountPaise: '20000' },
     ]);
@@ -82,11 +93,11 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    mockPrisma.payment.findMany.mockResolvedValue([
-      { id: 'pay_1', amountPaise: 50000, status: 'SUCCESS' },
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 50000, govtFeeEstimatePaise: 0 },
     ]);
 
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([
+    givenReceipts([
       { id: 'rcpt_1', amountPaise: '40000' }, // Short by 10000
     ]);
 
@@ -117,11 +128,11 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    mockPrisma.payment.findMany.mockResolvedValue([
-      { id: 'pay_1', amountPaise: 30000, status: 'SUCCESS' },
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 30000, govtFeeEstimatePaise: 0 },
     ]);
 
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([
+    givenReceipts([
       { id: 'rcpt_1', amountPaise: '35000' }, // Excess of 5000
     ]);
 
@@ -147,17 +158,118 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     expect(result.discrepancyPaise).toBe('-5000'); // Negative discrepancy
   });
 
+  test('runDailyReconciliation flags cash short of the quoted fees', async () => {
+    // Given - the agent recorded less than the customer was quoted
+    const tenantId = 'tenant_123';
+    const date = new Date('2025-01-15T12:00:00Z');
+
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 40000, govtFeeEstimatePaise: 10000 },
+      { id: 'sr_2', serviceFeePaise: 20000, govtFeeEstimatePaise: null },
+    ]);
+    givenReceipts([
+      { id: 'rcpt_1', amountPaise: '42000' },
+      { id: 'rcpt_2', amountPaise: '20000' },
+    ]);
+    mockPrisma.cashReconciliationLog.create.mockImplementation(async (args: any) => ({
+      id: 'log_123',
+      ...args.data,
+    }));
+
+    // When
+    const result = await service.runDailyReconciliation(tenantId, date);
+
+    // Then
+    expect(result).toMatchObject({
+      status: 'SHORTAGE',
+      totalPaymentsPaise: '70000',
+      totalCashReceiptsPaise: '62000',
+      discrepancyPaise: '8000',
+      paymentCount: 2,
+      receiptCount: 2,
+    });
+  });
+
+  test('runDailyReconciliation expects only the instalments due that day on a split plan', async () => {
+    // Given - a 30/70 plan where only the 30% upfront instalment is due
+    const date = new Date('2025-01-15T12:00:00Z');
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceInstanceId: 'si_1', serviceFeePaise: 100000, govtFeeEstimatePaise: 0 },
+    ]);
+    mockPrisma.instalmentPlan.findMany.mockResolvedValue([
+      {
+        serviceInstanceId: 'si_1',
+        instalments: [
+          { amountPaise: 30000n, lateFeePaise: 0n, status: 'due', dueAt: new Date('2025-01-15T00:00:00Z') },
+          { amountPaise: 70000n, lateFeePaise: 0n, status: 'scheduled', dueAt: null },
+        ],
+      },
+    ]);
+    givenReceipts([{ id: 'rcpt_1', amountPaise: '30000' }]);
+    mockPrisma.cashReconciliationLog.create.mockImplementation(async (args: any) => ({ id: 'log_123', ...args.data }));
+
+    // When
+    const result = await service.runDailyReconciliation('tenant_123', date);
+
+    // Then
+    expect(result).toMatchObject({ status: 'MATCHED', totalPaymentsPaise: '30000', discrepancyPaise: '0' });
+  });
+
+  test('runDailyReconciliation flags a short instalment collection', async () => {
+    // Given - the due instalment carries a late fee the agent did not collect
+    const date = new Date('2025-01-15T12:00:00Z');
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceInstanceId: 'si_1', serviceFeePaise: 100000, govtFeeEstimatePaise: 0 },
+    ]);
+    mockPrisma.instalmentPlan.findMany.mockResolvedValue([
+      {
+        serviceInstanceId: 'si_1',
+        instalments: [
+          { amountPaise: 30000n, lateFeePaise: 0n, status: 'paid', dueAt: new Date('2025-01-01T00:00:00Z') },
+          { amountPaise: 70000n, lateFeePaise: 1400n, status: 'overdue', dueAt: new Date('2025-01-10T00:00:00Z') },
+        ],
+      },
+    ]);
+    givenReceipts([{ id: 'rcpt_1', amountPaise: '70000' }]);
+    mockPrisma.cashReconciliationLog.create.mockImplementation(async (args: any) => ({ id: 'log_123', ...args.data }));
+
+    // When
+    const result = await service.runDailyReconciliation('tenant_123', date);
+
+    // Then
+    expect(result).toMatchObject({ status: 'SHORTAGE', totalPaymentsPaise: '71400', discrepancyPaise: '1400' });
+  });
+
+  test('runDailyReconciliation deducts cash collected on earlier days', async () => {
+    // Given - the balance of a quote part-paid the day before
+    const date = new Date('2025-01-15T12:00:00Z');
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceInstanceId: 'si_1', serviceFeePaise: 40000, govtFeeEstimatePaise: 10000 },
+    ]);
+    givenReceipts(
+      [{ id: 'rcpt_2', amountPaise: '20000' }],
+      [{ serviceRequestId: 'sr_1', amountPaise: '30000' }],
+    );
+    mockPrisma.cashReconciliationLog.create.mockImplementation(async (args: any) => ({ id: 'log_123', ...args.data }));
+
+    // When
+    const result = await service.runDailyReconciliation('tenant_123', date);
+
+    // Then
+    expect(result).toMatchObject({ status: 'MATCHED', totalPaymentsPaise: '20000', totalCashReceiptsPaise: '20000' });
+  });
+
   test('runDailyReconciliation handles large number arithmetic correctly', async () => {
     // Given - large amounts
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    mockPrisma.payment.findMany.mockResolvedValue([
-      { id: 'pay_1', amountPaise: 999999999 },
-      { id: 'pay_2', amountPaise: 1 },
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 999999999, govtFeeEstimatePaise: 0 },
+      { id: 'sr_2', serviceFeePaise: 1, govtFeeEstimatePaise: 0 },
     ]);
 
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([
+    givenReceipts([
       { id: 'rcpt_1', amountPaise: '500000000' },
       { id: 'rcpt_2', amountPaise: '500000000' },
     ]);
@@ -188,8 +300,8 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    mockPrisma.payment.findMany.mockResolvedValue([]);
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([]);
+    givenReceipts([
       { id: 'rcpt_1', amountPaise: '10000' },
     ]);
 
@@ -219,10 +331,10 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T12:00:00Z');
 
-    mockPrisma.payment.findMany.mockResolvedValue([
-      { id: 'pay_1', amountPaise: 10000, status: 'SUCCESS' },
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([
+      { id: 'sr_1', serviceFeePaise: 10000, govtFeeEstimatePaise: 0 },
     ]);
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([]);
+    givenReceipts([]);
 
     mockPrisma.cashReconciliationLog.create.mockResolvedValue({
       id: 'log_123',
@@ -250,8 +362,8 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     const tenantId = 'tenant_123';
     const date = new Date('2025-01-15T14:30:00Z'); // Mid-day
 
-    mockPrisma.payment.findMany.mockResolvedValue([]);
-    mockPrisma.cashReceipt.findMany.mockResolvedValue([]);
+    mockPrisma.serviceRequest.findMany.mockResolvedValue([]);
+    givenReceipts([]);
     mockPrisma.cashReconciliationLog.create.mockResolvedValue({
       id: 'log_123',
       cityId: tenantId,
@@ -267,20 +379,26 @@ describe('[P1] ReconciliationService - Daily Reconciliation', () => {
     // When
     await service.runDailyReconciliation(tenantId, date);
 
-    // Then — Payment query has no tenantId (field doesn't exist on Payment model)
-    expect(mockPrisma.payment.findMany).toHaveBeenCalledWith({
+    // Then — expected cash comes from the city's cash-paid service requests
+    expect(mockPrisma.serviceRequest.findMany).toHaveBeenCalledWith({
       where: {
-        status: 'SUCCESS',
-        paidAt: {
-          gte: expect.any(Date),
-          lte: expect.any(Date),
+        cityId: tenantId,
+        paymentMethod: 'cash',
+        cashReceipts: {
+          some: {
+            createdAt: {
+              gte: expect.any(Date),
+              lte: expect.any(Date),
+            },
+          },
         },
       },
+      select: { id: true, serviceInstanceId: true, serviceFeePaise: true, govtFeeEstimatePaise: true },
     });
 
-    const paymentCall = mockPrisma.payment.findMany.mock.calls[0][0];
-    const startOfDay = paymentCall.where.paidAt.gte;
-    const endOfDay = paymentCall.where.paidAt.lte;
+    const requestCall = mockPrisma.serviceRequest.findMany.mock.calls[0][0];
+    const startOfDay = requestCall.where.cashReceipts.some.createdAt.gte;
+    const endOfDay = requestCall.where.cashReceipts.some.createdAt.lte;
 
     expect(startOfDay.getHours()).toBe(0);
     expect(startOfDay.getMinutes()).toBe(0);
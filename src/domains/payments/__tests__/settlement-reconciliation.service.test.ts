@@ -0,0 +1,210 @@
+/**
+ * Tests for SettlementReconciliationService
+ * Covers: matching settlement lines, discrepancy classification, unsettled
+ *         payments, report totals and discrepancy resolution
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { SettlementReconciliationService } from '../settlement-reconciliation.service';
+
+const mockRecordSettlement = vi.fn().mockResolvedValue([]);
+
+vi.mock('../../ledger/ledger.service', () => ({
+  LedgerService: vi.fn().mockImplementation(() => ({
+    recordSettlement: mockRecordSettlement,
+  })),
+}));
+
+const HEADER = 'entity_id,type,amount,fee,tax,settled_at,settlement_id,payment_id';
+
+function createMockPrisma() {
+  const lines: any[] = [];
+  const discrepancies: any[] = [];
+
+  const prisma: any = {
+    payment: {
+      findFirst: vi.fn(async ({ where }: any) => {
+        const payments: Record<string, any> = {
+          pay_OK: { id: 'p-ok', amountPaise: 300000 },
+          pay_DIFF: { id: 'p-diff', amountPaise: 200000 },
+        };
+        return payments[where.razorpayPaymentId] ?? null;
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn(),
+    },
+    refund: {
+      findFirst: vi.fn(async ({ where }: any) =>
+        where.razorpayRefundId === 'rfnd_OK' ? { id: 'r-ok', paymentId: 'p-ok', amountPaise: 50000 } : null,
+      ),
+    },
+    settlementReport: {
+      create: vi.fn(async ({ data }: any) => ({ id: 'rep-1', ...data })),
+      update: vi.fn(async ({ data }: any) => ({ id: 'rep-1', ...data })),
+    },
+    settlementLine: {
+      upsert: vi.fn(async ({ create }: any) => {
+        const line = { id: `line-${lines.length + 1}`, ...create };
+        lines.push(line);
+        return line;
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+      update: vi.fn(),
+    },
+    settlementDiscrepancy: {
+      upsert: vi.fn(async ({ create }: any) => {
+        const d = { id: `disc-${discrepancies.length + 1}`, status: 'open', ...create };
+        discrepancies.push(d);
+        return d;
+      }),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      createMany: vi.fn(async ({ data }: any) => ({ count: data.length })),
+      findUnique: vi.fn(),
+      update: vi.fn(async ({ data }: any) => ({ id: 'disc-1', ...data })),
+    },
+    paymentAuditLog: { create: vi.fn() },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, lines, discrepancies };
+}
+
+describe('SettlementReconciliationService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let service: SettlementReconciliationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    service = new SettlementReconciliationService(mock.prisma as unknown as PrismaClient);
+  });
+
+  describe('importReport', () => {
+    const csv = [
+      HEADER,
+      'pay_OK,payment,3000.00,42.00,7.56,1760860800,setl_1,',
+      'pay_DIFF,payment,2100.00,30.00,5.40,1760860800,setl_1,',
+      'pay_GHOST,payment,1000.00,14.00,2.52,1760860800,setl_1,',
+      'rfnd_OK,refund,500.00,0,0,1760860800,setl_1,pay_OK',
+      'disp_1,dispute,250.00,0,0,1760860800,setl_1,pay_OK',
+    ].join('\n');
+
+    test('classifies each line and opens discrepancies for mismatches', async () => {
+      const { report } = await service.importReport({ fileName: 'setl.csv', csv, importedBy: 'ops-1' });
+
+      expect(mock.lines.map((l) => [l.entityId, l.matchStatus])).toEqual([
+        ['pay_OK', 'matched'],
+        ['pay_DIFF', 'amount_mismatch'],
+        ['pay_GHOST', 'missing_locally'],
+        ['rfnd_OK', 'matched'],
+        ['disp_1', 'not_applicable'],
+      ]);
+      expect(mock.discrepancies).toEqual([
+        expect.objectContaining({ type: 'amount_mismatch', paymentId: 'p-diff', expectedPaise: 200000, settledPaise: 210000 }),
+        expect.objectContaining({ type: 'missing_locally', razorpayEntityId: 'pay_GHOST', paymentId: null }),
+      ]);
+      expect(report).toMatchObject({ lineCount: 5, matchedCount: 2, discrepancyCount: 2 });
+    });
+
+    test('records fees, GST on fees, refunds and adjustments netted out of the settlement', async () => {
+      const { report } = await service.importReport({ fileName: 'setl.csv', csv, importedBy: 'ops-1' });
+
+      expect(report).toMatchObject({
+        grossPaise: 610000,
+        refundsPaise: 50000,
+        adjustmentsPaise: 25000,
+        feesPaise: 8600,
+        taxPaise: 1548,
+        netPaise: 610000 - 50000 - 25000 - 8600 - 1548,
+      });
+      expect(mockRecordSettlement).toHaveBeenCalledWith('setl_1');
+    });
+
+    test('closes unsettled discrepancies for payments settled in the report', async () => {
+      await service.importReport({ fileName: 'setl.csv', csv, importedBy: 'ops-1' });
+
+      expect(mock.prisma.settlementDiscrepancy.updateMany).toHaveBeenCalledWith({
+        where: {
+          type: 'unsettled',
+          status: 'open',
+          razorpayEntityId: { in: ['pay_OK', 'pay_DIFF', 'pay_GHOST'] },
+        },
+        data: expect.objectContaining({ status: 'resolved', resolution: 'settled' }),
+      });
+    });
+
+    test('rejects the whole report when a row is invalid', async () => {
+      const bad = `${HEADER}\npay_OK,payment,abc,0,0,,setl_1,`;
+
+      await expect(service.importReport({ fileName: 'bad.csv', csv: bad, importedBy: 'ops-1' })).rejects.toMatchObject({
+        code: 'SETTLEMENT_REPORT_INVALID',
+      });
+      expect(mock.prisma.settlementReport.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flagUnsettledPayments', () => {
+    test('flags captured gateway payments missing from every settlement', async () => {
+      mock.prisma.payment.findMany.mockResolvedValue([
+        { id: 'p-1', razorpayPaymentId: 'pay_1', amountPaise: 100000 },
+        { id: 'p-2', razorpayPaymentId: 'pay_2', amountPaise: 200000 },
+      ]);
+      mock.prisma.settlementLine.findMany.mockResolvedValue([{ entityId: 'pay_1' }]);
+
+      const flagged = await service.flagUnsettledPayments(4);
+
+      expect(flagged).toBe(1);
+      expect(mock.prisma.settlementDiscrepancy.createMany).toHaveBeenCalledWith({
+        data: [
+          { type: 'unsettled', entityType: 'payment', razorpayEntityId: 'pay_2', paymentId: 'p-2', expectedPaise: 200000 },
+        ],
+        skipDuplicates: true,
+      });
+      const where = mock.prisma.payment.findMany.mock.calls[0][0].where;
+      expect(where.paymentMethodType).toEqual({ not: 'wire_transfer' });
+    });
+  });
+
+  describe('resolveDiscrepancy', () => {
+    test('links a missing settlement line to a payment and audits the action', async () => {
+      mock.prisma.settlementDiscrepancy.findUnique.mockResolvedValue({
+        id: 'disc-1',
+        type: 'missing_locally',
+        status: 'open',
+        razorpayEntityId: 'pay_GHOST',
+        paymentId: null,
+        settlementLineId: 'line-3',
+        expectedPaise: null,
+        settledPaise: 100000,
+      });
+      mock.prisma.payment.findUnique.mockResolvedValue({ id: 'p-manual' });
+
+      const result = await service.resolveDiscrepancy(
+        'disc-1',
+        { action: 'link_payment', paymentId: 'p-manual', note: 'Captured during webhook outage' },
+        'ops-1',
+      );
+
+      expect(result).toMatchObject({ status: 'resolved', resolution: 'linked_payment', resolvedBy: 'ops-1' });
+      expect(mock.prisma.settlementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-3' },
+        data: { paymentId: 'p-manual', matchStatus: 'matched' },
+      });
+      const audit = mock.prisma.paymentAuditLog.create.mock.calls[0][0].data;
+      expect(audit).toMatchObject({
+        paymentId: 'p-manual',
+        action: 'settlement_discrepancy_resolved',
+        performedBy: 'ops-1',
+      });
+      expect(JSON.parse(audit.details)).toMatchObject({ discrepancyId: 'disc-1', resolution: 'linked_payment' });
+    });
+
+    test('refuses to resolve twice', async () => {
+      mock.prisma.settlementDiscrepancy.findUnique.mockResolvedValue({ id: 'disc-1', status: 'resolved' });
+
+      await expect(
+        service.resolveDiscrepancy('disc-1', { action: 'dismiss', note: 'dup' }, 'ops-1'),
+      ).rejects.toMatchObject({ code: 'SETTLEMENT_DISCREPANCY_RESOLVED', statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for Razorpay settlement recon CSV parsing
+ */
+import { describe, test, expect } from 'vitest';
+import { parseSettlementReport, splitCsvLine } from '../settlement-report.parser';
+
+const HEADER = 'entity_id,type,debit,credit,amount,currency,fee,tax,settled_at,settlement_id,settlement_utr,payment_id,notes';
+
+describe('splitCsvLine', () => {
+  test('keeps commas and escaped quotes inside quoted fields', () => {
+    expect(splitCsvLine('a,"{""k"":""v"",""x"":1}",c')).toEqual(['a', '{"k":"v","x":1}', 'c']);
+  });
+});
+
+describe('parseSettlementReport', () => {
+  test('parses payments and refunds into paise', () => {
+    const csv = [
+      HEADER,
+      'pay_A1,payment,0,2950.82,3000.00,INR,42.00,7.56,1760860800,setl_1,UTR001,,"{""sr"":""x""}"',
+      'rfnd_B1,refund,500.00,0,500.00,INR,0,0,1760860800,setl_1,UTR001,pay_A1,',
+    ].join('\n');
+
+    const { rows, errors } = parseSettlementReport(csv);
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      entityId: 'pay_A1',
+      entityType: 'payment',
+      amountPaise: 300000,
+      feePaise: 4200,
+      taxPaise: 756,
+      settlementId: 'setl_1',
+      settlementUtr: 'UTR001',
+      razorpayPaymentId: 'pay_A1',
+    });
+    expect(rows[0].settledAt?.toISOString()).toBe('2025-10-19T08:00:00.000Z');
+    expect(rows[1]).toMatchObject({ entityType: 'refund', amountPaise: 50000, razorpayPaymentId: 'pay_A1' });
+  });
+
+  test('rejects a report without required columns', () => {
+    const { rows, errors } = parseSettlementReport('entity_id,type,amount\npay_A1,payment,10.00');
+
+    expect(rows).toEqual([]);
+    expect(errors[0]).toMatchObject({ row: 0, field: 'header' });
+    expect(errors[0].message).toContain('fee, tax, settlement_id');
+  });
+
+  test('reports row-level errors for bad amounts and unknown types', () => {
+    const csv = [
+      HEADER,
+      'pay_A1,payment,0,0,12.345,INR,0,0,,setl_1,,,',
+      'x_1,bonus,0,0,10.00,INR,0,0,,setl_1,,,',
+    ].join('\n');
+
+    const { rows, errors } = parseSettlementReport(csv);
+
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      { row: 2, field: 'amount', message: 'Invalid amount' },
+      { row: 3, field: 'type', message: 'Unknown entity type: bonus' },
+    ]);
+  });
+});
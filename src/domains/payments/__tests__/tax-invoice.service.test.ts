@@ -0,0 +1,306 @@
+/**
+ * Tests for TaxInvoiceService
+ * Covers: gapless numbering, CGST/SGST vs IGST, builder B2B invoices,
+ *         NRI exports, government fees as non-taxable reimbursement,
+ *         credit notes, e-invoice JSON and PDF rendering
+ */
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TaxInvoiceService } from '../tax-invoice.service';
+
+const REGISTRATION = {
+  gstin: '27AABCP1234Q1Z5',
+  legalName: 'Pravesh Legal Services Pvt Ltd',
+  address: 'FC Road, Shivajinagar, Pune',
+  pincode: '411005',
+  invoicePrefix: 'PUN',
+};
+
+function createMockPrisma() {
+  const invoices: any[] = [];
+  const series: any[] = [];
+
+  const prisma: any = {
+    payment: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'pay-1',
+        serviceRequestId: 'si-1',
+        customerId: 'user-1',
+        amountPaise: 118000,
+        status: 'paid',
+        paymentMethodType: 'domestic',
+        isNriPayment: false,
+        foreignCurrencyCode: null,
+        paidAt: new Date('2026-10-19T06:00:00Z'),
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    serviceInstance: {
+      findUnique: vi.fn().mockResolvedValue({
+        cityId: 'city-pune',
+        serviceDefinition: { category: 'purchase', name: 'Sale deed registration' },
+      }),
+    },
+    serviceRequest: { findUnique: vi.fn().mockResolvedValue(null), findFirst: vi.fn().mockResolvedValue(null) },
+    city: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'city-pune',
+        cityName: 'Pune',
+        state: 'Maharashtra',
+        configData: { gstRegistration: REGISTRATION },
+        franchises: [{ id: 'fr-1' }],
+      }),
+    },
+    user: {
+      findUnique: vi.fn().mockResolvedValue({ displayName: 'Asha Patil', phone: '+919800000000', cityId: 'city-pune' }),
+    },
+    builder: { findUnique: vi.fn().mockResolvedValue(null) },
+    refund: { findUnique: vi.fn() },
+    cashReceipt: { findUnique: vi.fn() },
+    taxInvoiceSeries: {
+      upsert: vi.fn(async ({ where, create }: any) => {
+        const key = where.seriesKey_documentType_financialYear;
+        let row = series.find(
+          (s) => s.seriesKey === key.seriesKey && s.documentType === key.documentType && s.financialYear === key.financialYear,
+        );
+        if (!row) {
+          row = { id: `series-${series.length + 1}`, lastNumber: 0, ...create };
+          series.push(row);
+        }
+        return { ...row };
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const row = series.find((s) => s.id === where.id);
+        row.lastNumber += data.lastNumber.increment;
+        return { ...row };
+      }),
+      findUniqueOrThrow: vi.fn(async ({ where }: any) => series.find((s) => s.id === where.id)),
+    },
+    taxInvoice: {
+      create: vi.fn(async ({ data }: any) => {
+        const row = { id: `inv-${invoices.length + 1}`, originalInvoiceId: null, ...data };
+        invoices.push(row);
+        return row;
+      }),
+      findFirst: vi.fn(async ({ where }: any) =>
+        invoices.find((i) => i.paymentId === where.paymentId && i.documentType === where.documentType) ?? null,
+      ),
+      findUnique: vi.fn(async ({ where }: any) => {
+        const [field, value] = Object.entries(where)[0];
+        return invoices.find((i) => i[field] === value) ?? null;
+      }),
+      aggregate: vi.fn(async ({ where }: any) => {
+        const rows = invoices.filter(
+          (i) => i.serviceRequestId === where.serviceRequestId && i.documentType === where.documentType,
+        );
+        return { _sum: { govtFeePaise: rows.length ? rows.reduce((sum, i) => sum + i.govtFeePaise, 0) : null } };
+      }),
+    },
+    signedDocument: {
+      create: vi.fn(async ({ data }: any) => data),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+
+  return { prisma: prisma as PrismaClient & typeof prisma, invoices, series };
+}
+
+describe('TaxInvoiceService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let service: TaxInvoiceService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock = createMockPrisma();
+    service = new TaxInvoiceService(mock.prisma);
+  });
+
+  test('issues an intra-state B2C invoice with CGST and SGST', async () => {
+    const invoice = await service.issueForPayment('pay-1');
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: 'PUN/I2627/00001',
+      documentType: 'invoice',
+      source: 'razorpay',
+      supplyType: 'B2C',
+      franchiseId: 'fr-1',
+      supplierStateCode: '27',
+      placeOfSupply: '27',
+      sacCode: '998214',
+      buyerName: 'Asha Patil',
+      taxableValuePaise: 100000,
+      cgstPaise: 9000,
+      sgstPaise: 9000,
+      igstPaise: 0,
+    });
+    expect(mock.series[0]).toMatchObject({ seriesKey: 'franchise:fr-1', financialYear: '2026-27', prefix: 'PUN' });
+  });
+
+  test('numbers invoices sequentially and returns the existing one on repeat', async () => {
+    const first = await service.issueForPayment('pay-1');
+    const again = await service.issueForPayment('pay-1');
+    mock.prisma.payment.findUnique.mockResolvedValueOnce({
+      ...(await mock.prisma.payment.findUnique()),
+      id: 'pay-2',
+    });
+    const second = await service.issueForPayment('pay-2');
+
+    expect(again.id).toBe(first.id);
+    expect(second.invoiceNumber).toBe('PUN/I2627/00002');
+    expect(mock.prisma.taxInvoice.create).toHaveBeenCalledTimes(2);
+  });
+
+  test("bills builders on their GSTIN with IGST when they're registered elsewhere", async () => {
+    mock.prisma.builder.findUnique.mockResolvedValue({
+      id: 'b-1',
+      companyName: 'Skyline Developers',
+      gstNumber: '29AAACS1234K1Z2',
+    });
+
+    const invoice = await service.issueForPayment('pay-1');
+
+    expect(invoice).toMatchObject({
+      supplyType: 'B2B',
+      builderId: 'b-1',
+      buyerName: 'Skyline Developers',
+      buyerGstin: '29AAACS1234K1Z2',
+      placeOfSupply: '29',
+      igstPaise: 18000,
+      cgstPaise: 0,
+    });
+  });
+
+  test('treats NRI international payments as zero-rated exports under LUT', async () => {
+    mock.prisma.city.findUnique.mockResolvedValue({
+      ...(await mock.prisma.city.findUnique()),
+      configData: { gstRegistration: { ...REGISTRATION, lutNumber: 'AD270326000123X' } },
+    });
+    mock.prisma.payment.findUnique.mockResolvedValue({
+      ...(await mock.prisma.payment.findUnique()),
+      paymentMethodType: 'international_upi',
+      isNriPayment: true,
+      foreignCurrencyCode: 'USD',
+    });
+
+    const invoice = await service.issueForPayment('pay-1');
+
+    expect(invoice).toMatchObject({
+      source: 'international_upi',
+      supplyType: 'EXPWOP',
+      placeOfSupply: '96',
+      taxableValuePaise: 118000,
+      igstPaise: 0,
+      lutNumber: 'AD270326000123X',
+      foreignCurrencyCode: 'USD',
+    });
+    expect(Number(invoice.gstRate)).toBe(0);
+  });
+
+  test('shows government fees as a non-taxable reimbursement and taxes only the service fee', async () => {
+    mock.prisma.serviceRequest.findFirst.mockResolvedValue({ id: 'sr-1', govtFeeEstimatePaise: 50000 });
+    mock.prisma.payment.findUnique.mockResolvedValue({
+      ...(await mock.prisma.payment.findUnique()),
+      amountPaise: 168000,
+    });
+
+    const invoice = await service.issueForPayment('pay-1');
+
+    expect(invoice).toMatchObject({
+      serviceRequestId: 'sr-1',
+      govtFeePaise: 50000,
+      taxableValuePaise: 100000,
+      cgstPaise: 9000,
+      sgstPaise: 9000,
+      totalPaise: 168000,
+    });
+    const payload = await service.toEInvoicePayload(invoice.id);
+    expect(payload.ValDtls).toMatchObject({ AssVal: 1000, OthChrg: 500, TotInvVal: 1680 });
+    expect(payload.ItemList[0].TotItemVal).toBe(1180);
+  });
+
+  test('does not show a government fee again once earlier invoices covered it', async () => {
+    mock.prisma.serviceRequest.findFirst.mockResolvedValue({ id: 'sr-1', govtFeeEstimatePaise: 50000 });
+    const payment = await mock.prisma.payment.findUnique();
+    mock.prisma.payment.findUnique
+      .mockResolvedValueOnce({ ...payment, amountPaise: 80000 })
+      .mockResolvedValueOnce({ ...payment, id: 'pay-2', amountPaise: 118000 });
+
+    const first = await service.issueForPayment('pay-1');
+    const second = await service.issueForPayment('pay-2');
+
+    expect(first).toMatchObject({ govtFeePaise: 50000, totalPaise: 80000 });
+    expect(second).toMatchObject({ govtFeePaise: 0, taxableValuePaise: 100000, totalPaise: 118000 });
+  });
+
+  test('refuses to invoice without a GST registration for the city', async () => {
+    mock.prisma.city.findUnique.mockResolvedValue({
+      ...(await mock.prisma.city.findUnique()),
+      configData: {},
+    });
+
+    await expect(service.issueForPayment('pay-1')).rejects.toMatchObject({ code: 'GST_NOT_CONFIGURED' });
+    expect(mock.prisma.taxInvoice.create).not.toHaveBeenCalled();
+  });
+
+  test('issues a proportional credit note in its own series for a completed refund', async () => {
+    mock.prisma.refund.findUnique.mockResolvedValue({
+      id: 'ref-1',
+      paymentId: 'pay-1',
+      amountPaise: 59000,
+      status: 'COMPLETED',
+      processedAt: new Date('2026-10-20T06:00:00Z'),
+    });
+
+    const note = await service.issueCreditNote('ref-1');
+
+    expect(note).toMatchObject({
+      documentType: 'credit_note',
+      invoiceNumber: 'PUN/C2627/00001',
+      originalInvoiceId: 'inv-1',
+      refundId: 'ref-1',
+      taxableValuePaise: 50000,
+      cgstPaise: 4500,
+      sgstPaise: 4500,
+    });
+    expect(mock.series.map((s) => s.documentType)).toEqual(['invoice', 'credit_note']);
+  });
+
+  test('rejects credit notes for refunds that have not completed', async () => {
+    mock.prisma.refund.findUnique.mockResolvedValue({ id: 'ref-1', paymentId: 'pay-1', status: 'PROCESSING' });
+
+    await expect(service.issueCreditNote('ref-1')).rejects.toMatchObject({ code: 'REFUND_NOT_COMPLETED' });
+  });
+
+  test('builds e-invoice JSON with preceding document details for credit notes', async () => {
+    mock.prisma.refund.findUnique.mockResolvedValue({
+      id: 'ref-1',
+      paymentId: 'pay-1',
+      amountPaise: 118000,
+      status: 'COMPLETED',
+      processedAt: new Date('2026-10-20T06:00:00Z'),
+    });
+    const note = await service.issueCreditNote('ref-1');
+
+    const payload = await service.toEInvoicePayload(note.id);
+
+    expect(payload.DocDtls).toEqual({ Typ: 'CRN', No: 'PUN/C2627/00001', Dt: '20/10/2026' });
+    expect(payload.SellerDtls).toMatchObject({ Gstin: REGISTRATION.gstin, Pin: 411005, Stcd: '27' });
+    expect(payload.BuyerDtls).toMatchObject({ Gstin: 'URP', Pos: '27' });
+    expect(payload.ItemList[0]).toMatchObject({ IsServc: 'Y', HsnCd: '998214', AssAmt: 1000, CgstAmt: 90, SgstAmt: 90 });
+    expect(payload.ValDtls.TotInvVal).toBe(1180);
+    expect(payload.RefDtls?.PrecDocDtls).toEqual([{ InvNo: 'PUN/I2627/00001', InvDt: '19/10/2026' }]);
+  });
+
+  test('renders the invoice as a PDF', async () => {
+    const invoice = await service.issueForPayment('pay-1');
+
+    const pdf = await service.renderPdf(invoice.id);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(invoice.gstRate).toEqual(new Prisma.Decimal(18));
+    expect(mock.prisma.signedDocument.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ kind: 'tax_invoice', sourceId: invoice.id, title: `Tax Invoice ${invoice.invoiceNumber}` }),
+    });
+  });
+});
@@ -5,6 +5,8 @@
  */
 import { PrismaClient } from '@prisma/client';
 import { AppError } from '../../core/errors/app-error.js';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service.js';
 
 export interface PaymentBreakdown {
   serviceFeePaise: bigint;
@@ -139,6 +141,10 @@ export class CreditApplicationService {
         );
       }
     });
+
+    await new LedgerService(this.prisma)
+      .recordCreditsApplied(paymentId)
+      .catch((err) => logger.error({ err, paymentId }, 'Ledger posting failed'));
   }
 
   private async getCreditBalance(customerId: string): Promise<bigint> {
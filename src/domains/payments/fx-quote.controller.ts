@@ -0,0 +1,121 @@
+// Locked FX quotes for NRI customers
+import { Router, Request, Response, NextFunction } from 'express';
+import { FxRateLock } from '@prisma/client';
+import { z } from 'zod';
+import { authorize } from '../../middleware/authorize';
+import { FxQuoteService } from './fx-quote.service.js';
+
+const lockQuoteSchema = z.object({
+  serviceRequestId: z.string().uuid(),
+  amountPaise: z.number().int().positive(),
+  currency: z.string().length(3),
+});
+
+const currencyConfigSchema = z.object({
+  spreadBasisPoints: z.number().int().min(0).max(1000).optional(),
+  lockMinutes: z.number().int().min(5).max(7 * 24 * 60).optional(),
+  shortfallToleranceBasisPoints: z.number().int().min(0).max(1000).optional(),
+  shortfallToleranceMaxPaise: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const reportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  currency: z.string().length(3).optional(),
+});
+
+function toLockResponse(lock: FxRateLock) {
+  return {
+    ...lock,
+    midRate: lock.midRate.toString(),
+    lockedRate: lock.lockedRate.toString(),
+  };
+}
+
+export function fxQuoteRoutes(service: FxQuoteService): Router {
+  const router = Router();
+
+  // POST /api/v1/fx-quotes/locks
+  router.post(
+    '/locks',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = lockQuoteSchema.parse(req.body);
+        const lock = await service.lockQuote({
+          ...body,
+          customerId: (req as any).user!.id,
+        });
+        res.status(201).json({ success: true, data: toLockResponse(lock) });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // GET /api/v1/fx-quotes/locks/:id
+  router.get(
+    '/locks/:id',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const lock = await service.getLock(req.params.id, (req as any).user!.id);
+        res.json({ success: true, data: toLockResponse(lock) });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // GET /api/v1/fx-quotes/currencies
+  router.get(
+    '/currencies',
+    authorize('ops_manager', 'super_admin'),
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const configs = await service.listCurrencyConfigs();
+        res.json({ success: true, data: configs });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // PUT /api/v1/fx-quotes/currencies/:currency
+  router.put(
+    '/currencies/:currency',
+    authorize('super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const body = currencyConfigSchema.parse(req.body);
+        const config = await service.upsertCurrencyConfig(
+          req.params.currency.toUpperCase(),
+          body,
+          (req as any).user!.id,
+        );
+        res.json({ success: true, data: config });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // GET /api/v1/fx-quotes/gain-loss?from=2026-10-01&to=2026-11-01&currency=USD
+  router.get(
+    '/gain-loss',
+    authorize('ops_manager', 'super_admin'),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const query = reportQuerySchema.parse(req.query);
+        const report = await service.getGainLossReport({
+          ...query,
+          currency: query.currency?.toUpperCase(),
+        });
+        res.json({ success: true, data: report });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,289 @@
+// Locked FX quotes for NRI customers
+// A quote fixes the foreign-currency amount for a window so the customer
+// pays what they were quoted. Rates are handled as integer micro-INR
+// (1e-6 INR per foreign unit) so amounts stay exact.
+
+import { FxCurrencyConfig, FxRateLock, Prisma, PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { ExchangeRateService } from './exchange-rate.service';
+
+type Tx = Prisma.TransactionClient;
+
+const MICROS = 1_000_000n;
+const BASIS_POINTS = 10_000n;
+
+export type FxCurrencySettings = Pick<
+  FxCurrencyConfig,
+  'spreadBasisPoints' | 'lockMinutes' | 'shortfallToleranceBasisPoints' | 'shortfallToleranceMaxPaise'
+>;
+
+// Used for currencies without a config row
+export const DEFAULT_FX_SETTINGS: FxCurrencySettings = {
+  spreadBasisPoints: 150,
+  lockMinutes: 24 * 60,
+  shortfallToleranceBasisPoints: 100,
+  shortfallToleranceMaxPaise: 200000,
+};
+
+export type WireVarianceResolution = 'exact' | 'absorbed' | 'overpaid' | 'shortfall';
+
+export function rateToMicros(rate: number | string | Prisma.Decimal): bigint {
+  return BigInt(Math.round(Number(rate) * 1_000_000));
+}
+
+export function microsToRate(micros: bigint): string {
+  const whole = micros / MICROS;
+  const fraction = (micros % MICROS).toString().padStart(6, '0');
+  return `${whole}.${fraction}`;
+}
+
+/**
+ * Customer rate = mid rate less the spread (fewer INR per foreign unit, so
+ * the customer sends slightly more). The foreign amount is rounded up to
+ * the next minor unit so the INR due is always covered.
+ */
+export function priceQuote(
+  amountPaise: number,
+  midMicros: bigint,
+  spreadBasisPoints: number,
+): { lockedMicros: bigint; foreignAmountMinor: number } {
+  const lockedMicros = (midMicros * (BASIS_POINTS - BigInt(spreadBasisPoints))) / BASIS_POINTS;
+  if (lockedMicros <= 0n) {
+    throw new BusinessError('FX_RATE_INVALID', 'Exchange rate is not usable', 422);
+  }
+  const numerator = BigInt(amountPaise) * MICROS;
+  const foreignAmountMinor = (numerator + lockedMicros - 1n) / lockedMicros;
+  return { lockedMicros, foreignAmountMinor: Number(foreignAmountMinor) };
+}
+
+/**
+ * Small wire shortfalls (bank charges, rate drift) are absorbed up to the
+ * lower of a share of the amount and a fixed cap; larger ones go back to
+ * the customer. Overpayments are kept as FX gain.
+ */
+export function classifyWireVariance(
+  expectedPaise: number,
+  receivedPaise: number,
+  settings: Pick<FxCurrencySettings, 'shortfallToleranceBasisPoints' | 'shortfallToleranceMaxPaise'>,
+): WireVarianceResolution {
+  const variance = receivedPaise - expectedPaise;
+  if (variance === 0) return 'exact';
+  if (variance > 0) return 'overpaid';
+
+  const byShare = Number(
+    (BigInt(expectedPaise) * BigInt(settings.shortfallToleranceBasisPoints)) / BASIS_POINTS,
+  );
+  const tolerance = Math.min(byShare, settings.shortfallToleranceMaxPaise);
+  return -variance <= tolerance ? 'absorbed' : 'shortfall';
+}
+
+export class FxQuoteService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly exchangeRates: ExchangeRateService,
+  ) {}
+
+  async getSettings(currency: string): Promise<FxCurrencySettings & { isActive: boolean }> {
+    const config = await this.prisma.fxCurrencyConfig.findUnique({ where: { currency } });
+    return config ?? { ...DEFAULT_FX_SETTINGS, isActive: true };
+  }
+
+  async listCurrencyConfigs() {
+    return this.prisma.fxCurrencyConfig.findMany({ orderBy: { currency: 'asc' } });
+  }
+
+  async upsertCurrencyConfig(
+    currency: string,
+    settings: Partial<FxCurrencySettings> & { isActive?: boolean },
+    updatedBy: string,
+  ) {
+    return this.prisma.fxCurrencyConfig.upsert({
+      where: { currency },
+      create: { ...DEFAULT_FX_SETTINGS, ...settings, currency, updatedBy },
+      update: { ...settings, updatedBy },
+    });
+  }
+
+  /**
+   * Locks today's rate for an INR amount. The lock is good for the
+   * currency's lock window and can pay for exactly one payment.
+   */
+  async lockQuote(params: {
+    customerId: string;
+    serviceRequestId: string;
+    amountPaise: number;
+    currency: string;
+  }): Promise<FxRateLock> {
+    const currency = params.currency.toUpperCase();
+    const settings = await this.getSettings(currency);
+    if (!settings.isActive) {
+      throw new BusinessError('FX_CURRENCY_DISABLED', `Quotes in ${currency} are disabled`, 422);
+    }
+    const rates = await this.exchangeRates.getRates();
+    if (!rates[currency]) {
+      throw new BusinessError('FX_CURRENCY_UNSUPPORTED', `Unsupported currency: ${currency}`, 422);
+    }
+
+    const midMicros = rateToMicros(rates[currency]);
+    const { lockedMicros, foreignAmountMinor } = priceQuote(
+      params.amountPaise,
+      midMicros,
+      settings.spreadBasisPoints,
+    );
+
+    return this.prisma.fxRateLock.create({
+      data: {
+        customerId: params.customerId,
+        serviceRequestId: params.serviceRequestId,
+        currency,
+        amountPaise: params.amountPaise,
+        midRate: microsToRate(midMicros),
+        spreadBasisPoints: settings.spreadBasisPoints,
+        lockedRate: microsToRate(lockedMicros),
+        foreignAmountMinor,
+        expiresAt: new Date(Date.now() + settings.lockMinutes * 60 * 1000),
+      },
+    });
+  }
+
+  async getLock(lockId: string, customerId: string): Promise<FxRateLock> {
+    const lock = await this.prisma.fxRateLock.findUnique({ where: { id: lockId } });
+    if (!lock || lock.customerId !== customerId) {
+      throw new BusinessError('FX_LOCK_NOT_FOUND', 'Rate lock not found', 404);
+    }
+    return lock;
+  }
+
+  /**
+   * Returns the lock if it can pay for this payment: same customer, service
+   * request and INR amount, not expired and not used yet.
+   */
+  async validateLock(
+    params: { lockId: string; customerId: string; serviceRequestId: string; amountPaise: number },
+    tx: Tx = this.prisma,
+  ): Promise<FxRateLock> {
+    const lock = await tx.fxRateLock.findUnique({ where: { id: params.lockId } });
+    if (!lock || lock.customerId !== params.customerId) {
+      throw new BusinessError('FX_LOCK_NOT_FOUND', 'Rate lock not found', 404);
+    }
+    if (lock.serviceRequestId !== params.serviceRequestId || lock.amountPaise !== params.amountPaise) {
+      throw new BusinessError('FX_LOCK_MISMATCH', 'Rate lock was quoted for a different payment', 422, {
+        serviceRequestId: lock.serviceRequestId,
+        amountPaise: lock.amountPaise,
+      });
+    }
+    if (lock.status !== 'active') {
+      throw new BusinessError('FX_LOCK_USED', 'Rate lock has already been used', 409);
+    }
+    if (lock.expiresAt <= new Date()) {
+      throw new BusinessError('FX_LOCK_EXPIRED', 'Rate lock has expired; request a new quote', 422);
+    }
+    return lock;
+  }
+
+  /**
+   * Attaches a valid lock to the payment it pays for.
+   */
+  async consumeLock(
+    params: { lockId: string; customerId: string; serviceRequestId: string; amountPaise: number; paymentId: string },
+    tx: Tx = this.prisma,
+  ): Promise<FxRateLock> {
+    const lock = await this.validateLock(params, tx);
+
+    // Conditional update so two payments cannot share one lock
+    const { count } = await tx.fxRateLock.updateMany({
+      where: { id: lock.id, status: 'active' },
+      data: { status: 'consumed', paymentId: params.paymentId, consumedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BusinessError('FX_LOCK_USED', 'Rate lock has already been used', 409);
+    }
+    return { ...lock, status: 'consumed', paymentId: params.paymentId };
+  }
+
+  /**
+   * Frees a lock whose payment could not be set up, so the customer can
+   * still pay at the quoted rate until it expires.
+   */
+  async releaseLock(lockId: string, paymentId: string, tx: Tx = this.prisma): Promise<void> {
+    await tx.fxRateLock.updateMany({
+      where: { id: lockId, status: 'consumed', paymentId },
+      data: { status: 'active', paymentId: null, consumedAt: null },
+    });
+  }
+
+  /**
+   * FX gain/loss on NRI payments captured in the period, per currency.
+   * Gain/loss is what reconciled wires realised against the INR billed;
+   * the quoted spread is what the lock priced in over the mid rate.
+   */
+  async getGainLossReport(params: { from: Date; to: Date; currency?: string }) {
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        isNriPayment: true,
+        status: { in: ['paid', 'refunded'] },
+        paidAt: { gte: params.from, lt: params.to },
+        ...(params.currency && { foreignCurrencyCode: params.currency }),
+      },
+      include: { wireTransfer: true },
+      orderBy: { paidAt: 'asc' },
+    });
+    const locks = await this.prisma.fxRateLock.findMany({
+      where: { paymentId: { in: payments.map((p) => p.id) } },
+    });
+    const lockByPayment = new Map(locks.map((l) => [l.paymentId, l]));
+
+    const rows = payments.map((p) => {
+      const lock = lockByPayment.get(p.id);
+      const wire = p.wireTransfer;
+      const realizedPaise = wire?.receivedAmount ?? p.amountPaise;
+      const quotedSpreadPaise = lock
+        ? Number((BigInt(lock.foreignAmountMinor) * rateToMicros(lock.midRate)) / MICROS) - lock.amountPaise
+        : 0;
+      return {
+        paymentId: p.id,
+        paidAt: p.paidAt,
+        method: p.paymentMethodType,
+        currency: p.foreignCurrencyCode,
+        foreignAmountMinor: p.foreignCurrencyAmount,
+        lockedRate: p.exchangeRate?.toString() ?? null,
+        rateLocked: !!lock,
+        billedPaise: p.amountPaise,
+        realizedPaise,
+        gainLossPaise: realizedPaise - p.amountPaise,
+        quotedSpreadPaise,
+        varianceResolution: wire?.varianceResolution ?? null,
+      };
+    });
+
+    const byCurrency = new Map<
+      string,
+      { currency: string; payments: number; billedPaise: number; realizedPaise: number; gainLossPaise: number; quotedSpreadPaise: number }
+    >();
+    for (const row of rows) {
+      const key = row.currency ?? 'UNKNOWN';
+      const total = byCurrency.get(key) ?? {
+        currency: key,
+        payments: 0,
+        billedPaise: 0,
+        realizedPaise: 0,
+        gainLossPaise: 0,
+        quotedSpreadPaise: 0,
+      };
+      total.payments += 1;
+      total.billedPaise += row.billedPaise;
+      total.realizedPaise += row.realizedPaise;
+      total.gainLossPaise += row.gainLossPaise;
+      total.quotedSpreadPaise += row.quotedSpreadPaise;
+      byCurrency.set(key, total);
+    }
+
+    return {
+      from: params.from.toISOString(),
+      to: params.to.toISOString(),
+      totals: [...byCurrency.values()],
+      netGainLossPaise: rows.reduce((sum, r) => sum + r.gainLossPaise, 0),
+      payments: rows,
+    };
+  }
+}
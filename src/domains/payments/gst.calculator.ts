@@ -0,0 +1,151 @@
+/**
+ * GST calculations for tax invoices: place of supply, CGST/SGST vs IGST
+ * split, SAC codes and invoice numbering.
+ * All amounts are integer paise; collected amounts are GST-inclusive.
+ */
+
+export type SupplyType = 'B2C' | 'B2B' | 'EXPWOP';
+export type TaxDocumentType = 'invoice' | 'credit_note';
+
+export const DEFAULT_GST_RATE = 18;
+// Place-of-supply code for services exported outside India
+export const EXPORT_PLACE_OF_SUPPLY = '96';
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATE_CODES: Record<string, string> = {
+  'jammu and kashmir': '01',
+  'himachal pradesh': '02',
+  punjab: '03',
+  chandigarh: '04',
+  uttarakhand: '05',
+  haryana: '06',
+  delhi: '07',
+  rajasthan: '08',
+  'uttar pradesh': '09',
+  bihar: '10',
+  sikkim: '11',
+  'arunachal pradesh': '12',
+  nagaland: '13',
+  manipur: '14',
+  mizoram: '15',
+  tripura: '16',
+  meghalaya: '17',
+  assam: '18',
+  'west bengal': '19',
+  jharkhand: '20',
+  odisha: '21',
+  chhattisgarh: '22',
+  'madhya pradesh': '23',
+  gujarat: '24',
+  'dadra and nagar haveli and daman and diu': '26',
+  maharashtra: '27',
+  karnataka: '29',
+  goa: '30',
+  lakshadweep: '31',
+  kerala: '32',
+  'tamil nadu': '33',
+  puducherry: '34',
+  'andaman and nicobar islands': '35',
+  telangana: '36',
+  'andhra pradesh': '37',
+  ladakh: '38',
+};
+
+// SAC codes by ServiceDefinition.category
+export const SAC_CODES: Record<string, string> = {
+  pre_purchase: '998216', // other legal services (title search, due diligence)
+  purchase: '998214', // legal documentation and certification
+  post_purchase: '998214',
+  inheritance: '998212', // legal advisory, other fields of law
+  construction: '998216',
+  utility: '998599', // other support services
+  specialized: '998216',
+};
+export const DEFAULT_SAC_CODE = '998216';
+
+export interface GstBreakup {
+  taxableValuePaise: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  totalPaise: number;
+}
+
+export function stateCodeFor(state: string): string | null {
+  const normalized = state.trim().toLowerCase().replace(/&/g, 'and').replace(/\s+/g, ' ');
+  if (/^\d{2}$/.test(normalized)) return normalized;
+  return GST_STATE_CODES[normalized] ?? null;
+}
+
+export function stateCodeFromGstin(gstin: string): string {
+  return gstin.slice(0, 2);
+}
+
+export function sacCodeFor(category: string | null | undefined): string {
+  return (category && SAC_CODES[category]) || DEFAULT_SAC_CODE;
+}
+
+/**
+ * Place of supply: the recipient's registered state for B2B, outside India
+ * for exports, otherwise the state where the service is performed.
+ */
+export function placeOfSupply(params: {
+  supplyType: SupplyType;
+  serviceStateCode: string;
+  buyerGstin?: string | null;
+}): string {
+  if (params.supplyType === 'EXPWOP') return EXPORT_PLACE_OF_SUPPLY;
+  if (params.supplyType === 'B2B' && params.buyerGstin) return stateCodeFromGstin(params.buyerGstin);
+  return params.serviceStateCode;
+}
+
+/**
+ * Split a GST-inclusive amount into taxable value and tax. Intra-state
+ * supplies carry CGST + SGST (the odd paisa goes to SGST), inter-state
+ * supplies IGST, and exports under LUT are zero-rated.
+ */
+export function splitInclusiveAmount(params: {
+  totalPaise: number;
+  ratePercent: number;
+  supplierStateCode: string;
+  placeOfSupply: string;
+  zeroRated: boolean;
+}): GstBreakup {
+  const { totalPaise, ratePercent } = params;
+  if (params.zeroRated || ratePercent === 0) {
+    return { taxableValuePaise: totalPaise, cgstPaise: 0, sgstPaise: 0, igstPaise: 0, totalPaise };
+  }
+
+  const taxableValuePaise = Math.round((totalPaise * 100) / (100 + ratePercent));
+  const taxPaise = totalPaise - taxableValuePaise;
+
+  if (params.placeOfSupply === params.supplierStateCode) {
+    const cgstPaise = Math.floor(taxPaise / 2);
+    return { taxableValuePaise, cgstPaise, sgstPaise: taxPaise - cgstPaise, igstPaise: 0, totalPaise };
+  }
+  return { taxableValuePaise, cgstPaise: 0, sgstPaise: 0, igstPaise: taxPaise, totalPaise };
+}
+
+/**
+ * Indian financial year (April–March) of a date in IST, e.g. "2026-27".
+ */
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const year = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Invoice number within the 16-character GST limit:
+ * PREFIX/<I|C><yy><yy>/<5-digit sequence>, e.g. PUN/I2627/00042.
+ */
+export function formatInvoiceNumber(
+  prefix: string,
+  documentType: TaxDocumentType,
+  fy: string,
+  sequence: number,
+): string {
+  const fyShort = `${fy.slice(2, 4)}${fy.slice(5, 7)}`;
+  const docCode = documentType === 'invoice' ? 'I' : 'C';
+  return `${prefix}/${docCode}${fyShort}/${String(sequence).padStart(5, '0')}`;
+}
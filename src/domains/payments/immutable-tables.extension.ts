@@ -3,7 +3,8 @@
  *
  * Story 4.9: Immutable Payment Audit Trail
  *
- * Immutable tables: payments (financial fields), cash_receipts, payment_state_changes, refunds
+ * Immutable tables: payments (financial fields), cash_receipts, payment_state_changes, refunds,
+ * journal_entries, journal_lines
  * These tables are append-only per NFR42.
  */
 import { Prisma } from '@prisma/client';
@@ -16,6 +17,8 @@ const FULLY_IMMUTABLE_MODELS = [
   'PaymentStateChange',
   'CashReceipt',
   'Refund',
+  'JournalEntry',
+  'JournalLine',
 ];
 
 const UPDATE_RESTRICTED_FIELDS = {
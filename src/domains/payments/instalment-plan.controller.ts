@@ -0,0 +1,172 @@
+/**
+ * Instalment plan controller — custom payment schedules for high-value services.
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import { Instalment, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { RazorpayClient } from '../../core/integrations/razorpay.client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { authorize } from '../../middleware/authorize';
+import { PaymentService } from './payment.service';
+import { PaymentLinkService } from './payment-link.service';
+import { InstalmentPlanService, InstalmentPlanWithInstalments } from './instalment-plan.service';
+import { MAX_INSTALMENTS } from './payment-structure.calculator';
+
+const instalmentSpecSchema = z.object({
+  label: z.string().min(1).max(100),
+  shareBasisPoints: z.number().int().min(1).max(10000),
+  trigger: z.enum(['upfront', 'step', 'completion']),
+  triggerStep: z.number().int().min(1).optional(),
+  dueDays: z.number().int().min(0).max(90),
+  gateStep: z.number().int().min(1).optional(),
+});
+
+const createPlanSchema = z.object({
+  instalments: z.array(instalmentSpecSchema).min(1).max(MAX_INSTALMENTS),
+  lateFeeBasisPoints: z.number().int().min(0).max(2000).default(0),
+  lateFeeGraceDays: z.number().int().min(0).max(30).default(0),
+});
+
+const waiveSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+const OPS_ROLES = ['ops_manager', 'super_admin'];
+
+function toInstalmentResponse(i: Instalment) {
+  return {
+    ...i,
+    serviceFeePortionPaise: i.serviceFeePortionPaise.toString(),
+    govtFeePaise: i.govtFeePaise.toString(),
+    amountPaise: i.amountPaise.toString(),
+    lateFeePaise: i.lateFeePaise.toString(),
+  };
+}
+
+function toPlanResponse(plan: InstalmentPlanWithInstalments) {
+  return {
+    ...plan,
+    serviceFeePaise: plan.serviceFeePaise.toString(),
+    govtFeeEstimatePaise: plan.govtFeeEstimatePaise.toString(),
+    totalPaise: plan.totalPaise.toString(),
+    instalments: plan.instalments.map(toInstalmentResponse),
+  };
+}
+
+export function createInstalmentPlanController(
+  prisma: PrismaClient,
+  razorpay: RazorpayClient,
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+): Router {
+  const router = Router();
+  const paymentLinks = new PaymentLinkService(prisma, new PaymentService(prisma, razorpay));
+  const instalmentService = new InstalmentPlanService(prisma, boss, paymentLinks);
+
+  // Customers see their own plans; ops see their city (super admins everything)
+  function assertCanView(user: { id: string; role: string; cityId: string }, plan: { customerId: string; cityId: string }) {
+    const allowed =
+      user.role === 'super_admin' ||
+      (user.role === 'ops_manager' && plan.cityId === user.cityId) ||
+      plan.customerId === user.id;
+    if (!allowed) {
+      throw new BusinessError('INSTALMENT_PLAN_NOT_FOUND', 'No instalment plan for this service', 404);
+    }
+  }
+
+  async function loadInstalmentPlan(instalmentId: string) {
+    const instalment = await prisma.instalment.findUnique({
+      where: { id: instalmentId },
+      include: { plan: true },
+    });
+    if (!instalment) {
+      throw new BusinessError('INSTALMENT_NOT_FOUND', 'Instalment not found', 404);
+    }
+    return instalment.plan;
+  }
+
+  /**
+   * POST /api/v1/instalment-plans/services/:serviceInstanceId
+   * Replaces the 30/70 split with a custom schedule before payment starts.
+   * Roles: ops_manager, super_admin
+   */
+  router.post(
+    '/services/:serviceInstanceId',
+    authorize(...OPS_ROLES),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const user = (req as any).user!;
+        const input = createPlanSchema.parse(req.body);
+
+        const instance = await prisma.serviceInstance.findUnique({
+          where: { id: req.params.serviceInstanceId },
+          select: { cityId: true },
+        });
+        if (instance && user.role !== 'super_admin' && instance.cityId !== user.cityId) {
+          throw new BusinessError('BUSINESS_INSTANCE_NOT_FOUND', 'Service instance not found', 404);
+        }
+
+        const plan = await instalmentService.createPlan({
+          serviceInstanceId: req.params.serviceInstanceId,
+          ...input,
+          createdBy: user.id,
+        });
+
+        res.status(201).json({ success: true, data: toPlanResponse(plan) });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/instalment-plans/services/:serviceInstanceId
+   */
+  router.get('/services/:serviceInstanceId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const plan = await instalmentService.getPlan(req.params.serviceInstanceId);
+      assertCanView((req as any).user!, plan);
+
+      res.json({ success: true, data: toPlanResponse(plan) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/v1/instalment-plans/instalments/:id/payment-link
+   * Sends a payment link for a due or overdue instalment (incl. late fee).
+   */
+  router.post('/instalments/:id/payment-link', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      assertCanView((req as any).user!, await loadInstalmentPlan(req.params.id));
+
+      const result = await instalmentService.sendPaymentLink(req.params.id);
+      res.status(201).json({ success: true, data: result });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/v1/instalment-plans/instalments/:id/waive
+   * Roles: ops_manager, super_admin
+   */
+  router.post(
+    '/instalments/:id/waive',
+    authorize(...OPS_ROLES),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const user = (req as any).user!;
+        const { reason } = waiveSchema.parse(req.body);
+        assertCanView(user, await loadInstalmentPlan(req.params.id));
+
+        const instalment = await instalmentService.waiveInstalment(req.params.id, user.id, reason);
+        res.json({ success: true, data: toInstalmentResponse(instalment) });
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,36 @@
+/**
+ * Instalment plan pg-boss job.
+ * Marks missed instalments overdue, adds late fees, halts services sitting
+ * past an unpaid gate, sends payment-link reminders and resumes services
+ * once arrears are settled (instalment-plan.process, hourly).
+ */
+import { PrismaClient } from '@prisma/client';
+import { RazorpayClient } from '../../core/integrations/razorpay.client.js';
+import { InstalmentPlanService } from './instalment-plan.service.js';
+import { PaymentLinkService } from './payment-link.service.js';
+import { PaymentService } from './payment.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const INSTALMENT_PLAN_QUEUE = 'instalment-plan.process';
+const INSTALMENT_PLAN_SCHEDULE = '15 * * * *';
+
+export async function registerInstalmentPlanJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const razorpay = new RazorpayClient(
+    process.env.RAZORPAY_KEY_ID || '',
+    process.env.RAZORPAY_KEY_SECRET || '',
+  );
+  const paymentLinks = new PaymentLinkService(prisma, new PaymentService(prisma, razorpay));
+  const instalmentService = new InstalmentPlanService(prisma, boss, paymentLinks);
+
+  await boss.createQueue(INSTALMENT_PLAN_QUEUE);
+  await boss.work(INSTALMENT_PLAN_QUEUE, async () => {
+    const result = await instalmentService.processDueInstalments();
+    logger.info(result, 'Instalment plan pass completed');
+  });
+  await boss.schedule(INSTALMENT_PLAN_QUEUE, INSTALMENT_PLAN_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
@@ -0,0 +1,482 @@
+/**
+ * Instalment plans for high-value services.
+ *
+ * Replaces the fixed 30/70 split with a custom schedule: instalments fall
+ * due when the workflow reaches their trigger step, reminders carry a
+ * payment link, overdue instalments pick up a late fee and block the
+ * service at their gate step until paid.
+ */
+
+import { Instalment, InstalmentPlan, PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { logger } from '../../shared/utils/logger';
+import { ServiceHaltService } from '../services/service-halt.service';
+import { PaymentLinkService } from './payment-link.service';
+import {
+  InstalmentSpec,
+  calculateInstalmentSchedule,
+  calculateLateFee,
+} from './payment-structure.calculator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plans can only be set up before any money has been taken
+const PLANNABLE_STATES = ['requested', 'assigned', 'payment_pending'];
+const OPEN_STATUSES = ['due', 'overdue'];
+const SETTLED_STATUSES = ['paid', 'waived'];
+
+// Remind this many days before the due date, then daily while unpaid
+export const REMINDER_LEAD_DAYS = 3;
+const PAYMENT_LINK_EXPIRY_MINUTES = 3 * 24 * 60;
+
+export type InstalmentPlanWithInstalments = InstalmentPlan & { instalments: Instalment[] };
+
+export interface CreateInstalmentPlanInput {
+  serviceInstanceId: string;
+  instalments: InstalmentSpec[];
+  lateFeeBasisPoints?: number;
+  lateFeeGraceDays?: number;
+  createdBy: string;
+}
+
+export class InstalmentPlanService {
+  private readonly haltService: ServiceHaltService;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly boss: any, // PgBoss instance - namespace import cannot be used as type
+    private readonly paymentLinks: PaymentLinkService | null = null,
+  ) {
+    this.haltService = new ServiceHaltService(prisma, boss);
+  }
+
+  /**
+   * Sets up the schedule for a service from the fees on its latest service
+   * request. Upfront instalments are due immediately.
+   */
+  async createPlan(input: CreateInstalmentPlanInput): Promise<InstalmentPlanWithInstalments> {
+    const instance = await this.prisma.serviceInstance.findUnique({ where: { id: input.serviceInstanceId } });
+    if (!instance) {
+      throw new BusinessError('BUSINESS_INSTANCE_NOT_FOUND', 'Service instance not found', 404);
+    }
+    if (!PLANNABLE_STATES.includes(instance.state)) {
+      throw new BusinessError(
+        'INSTALMENT_PLAN_TOO_LATE',
+        `Instalment plans must be set up before payment; service is ${instance.state}`,
+        422,
+      );
+    }
+
+    const existing = await this.prisma.instalmentPlan.findUnique({
+      where: { serviceInstanceId: instance.id },
+    });
+    if (existing) {
+      throw new BusinessError('INSTALMENT_PLAN_EXISTS', 'Service already has an instalment plan', 409, {
+        planId: existing.id,
+      });
+    }
+
+    const request = await this.prisma.serviceRequest.findFirst({
+      where: { serviceInstanceId: instance.id },
+      orderBy: { createdAt: 'desc' },
+      select: { serviceFeePaise: true, govtFeeEstimatePaise: true },
+    });
+    if (request?.serviceFeePaise == null) {
+      throw new BusinessError('INSTALMENT_PLAN_NO_FEE', 'Service fee has not been quoted yet', 422);
+    }
+
+    const serviceFeePaise = BigInt(request.serviceFeePaise);
+    const govtFeeEstimatePaise = BigInt(request.govtFeeEstimatePaise ?? 0);
+    let schedule;
+    try {
+      schedule = calculateInstalmentSchedule(serviceFeePaise, govtFeeEstimatePaise, input.instalments);
+    } catch (err) {
+      throw new BusinessError('INSTALMENT_PLAN_INVALID', (err as Error).message, 422);
+    }
+
+    const now = new Date();
+    return this.prisma.instalmentPlan.create({
+      data: {
+        serviceInstanceId: instance.id,
+        customerId: instance.customerId,
+        cityId: instance.cityId,
+        serviceFeePaise,
+        govtFeeEstimatePaise,
+        totalPaise: serviceFeePaise + govtFeeEstimatePaise,
+        lateFeeBasisPoints: input.lateFeeBasisPoints ?? 0,
+        lateFeeGraceDays: input.lateFeeGraceDays ?? 0,
+        createdBy: input.createdBy,
+        instalments: {
+          create: schedule.map((item) => ({
+            sequence: item.sequence,
+            label: item.label,
+            serviceFeePortionPaise: item.serviceFeePortionPaise,
+            govtFeePaise: item.govtFeePaise,
+            amountPaise: item.amountPaise,
+            trigger: item.trigger,
+            triggerStep: item.triggerStep ?? null,
+            dueDays: item.dueDays,
+            gateStep: item.gateStep ?? null,
+            ...(item.trigger === 'upfront' && {
+              status: 'due',
+              dueAt: new Date(now.getTime() + item.dueDays * DAY_MS),
+            }),
+          })),
+        },
+      },
+      include: { instalments: { orderBy: { sequence: 'asc' } } },
+    });
+  }
+
+  async getPlan(serviceInstanceId: string): Promise<InstalmentPlanWithInstalments> {
+    const plan = await this.prisma.instalmentPlan.findUnique({
+      where: { serviceInstanceId },
+      include: { instalments: { orderBy: { sequence: 'asc' } } },
+    });
+    if (!plan) {
+      throw new BusinessError('INSTALMENT_PLAN_NOT_FOUND', 'No instalment plan for this service', 404);
+    }
+    return plan;
+  }
+
+  /**
+   * Called after a workflow transition: instalments triggered by the state
+   * just reached (or an earlier step that was skipped) fall due.
+   */
+  async onStateReached(serviceInstanceId: string, state: string): Promise<number> {
+    const plan = await this.prisma.instalmentPlan.findUnique({ where: { serviceInstanceId } });
+    if (!plan || plan.status !== 'active') return 0;
+
+    const stepMatch = state.match(/^step_(\d+)$/);
+    const triggered = stepMatch
+      ? { trigger: 'step', triggerStep: { lte: parseInt(stepMatch[1], 10) } }
+      : state === 'completed'
+        ? { trigger: { in: ['step', 'completion'] } }
+        : null;
+    if (!triggered) return 0;
+
+    const instalments = await this.prisma.instalment.findMany({
+      where: { planId: plan.id, status: 'scheduled', ...triggered },
+    });
+
+    const now = Date.now();
+    for (const instalment of instalments) {
+      await this.prisma.instalment.update({
+        where: { id: instalment.id },
+        data: { status: 'due', dueAt: new Date(now + instalment.dueDays * DAY_MS) },
+      });
+    }
+    return instalments.length;
+  }
+
+  /**
+   * Overdue instalments that keep the service from entering `newState`.
+   */
+  async findGateBlockers(serviceInstanceId: string, newState: string, now = new Date()): Promise<Instalment[]> {
+    const stepMatch = newState.match(/^step_(\d+)$/);
+    if (!stepMatch) return [];
+
+    const plan = await this.prisma.instalmentPlan.findUnique({ where: { serviceInstanceId } });
+    if (!plan || plan.status !== 'active') return [];
+
+    return this.prisma.instalment.findMany({
+      where: {
+        planId: plan.id,
+        status: { in: OPEN_STATUSES },
+        dueAt: { lt: now },
+        gateStep: { lte: parseInt(stepMatch[1], 10) },
+      },
+      orderBy: { sequence: 'asc' },
+    });
+  }
+
+  /**
+   * Halts the service at its step gate. Already-halted services stay as
+   * they are.
+   */
+  async haltForOverdue(
+    plan: Pick<InstalmentPlan, 'id' | 'serviceInstanceId'>,
+    blockers: Instalment[],
+  ): Promise<boolean> {
+    try {
+      await this.haltService.haltService({
+        serviceInstanceId: plan.serviceInstanceId,
+        reason: 'payment_pending',
+        description: `Overdue instalment: ${blockers.map((i) => i.label).join(', ')}`,
+        haltedBy: 'system:instalment_plan',
+        requiredActions: blockers.map((i) => `Pay instalment ${i.sequence} (${i.label})`),
+      });
+    } catch (err) {
+      logger.warn({ err, planId: plan.id }, 'Service not halted for overdue instalment');
+      return false;
+    }
+
+    await this.prisma.instalmentPlan.update({
+      where: { id: plan.id },
+      data: { serviceHalted: true },
+    });
+    return true;
+  }
+
+  /**
+   * Settles the instalment a captured payment was raised for. Resumes a
+   * service halted for instalments once nothing is overdue any more.
+   */
+  async recordPayment(paymentId: string): Promise<Instalment | null> {
+    const instalment = await this.prisma.instalment.findFirst({
+      where: { paymentId, status: { in: OPEN_STATUSES } },
+    });
+    if (!instalment) return null;
+
+    const paid = await this.prisma.instalment.update({
+      where: { id: instalment.id },
+      data: { status: 'paid', paidAt: new Date() },
+    });
+    await this.afterSettlement(instalment.planId);
+    return paid;
+  }
+
+  async waiveInstalment(instalmentId: string, waivedBy: string, reason: string): Promise<Instalment> {
+    const instalment = await this.prisma.instalment.findUnique({ where: { id: instalmentId } });
+    if (!instalment) {
+      throw new BusinessError('INSTALMENT_NOT_FOUND', 'Instalment not found', 404);
+    }
+    if (SETTLED_STATUSES.includes(instalment.status)) {
+      throw new BusinessError('INSTALMENT_SETTLED', `Instalment is already ${instalment.status}`, 409);
+    }
+
+    const waived = await this.prisma.instalment.update({
+      where: { id: instalment.id },
+      data: { status: 'waived', waivedBy, waivedReason: reason },
+    });
+    await this.afterSettlement(instalment.planId);
+    return waived;
+  }
+
+  /**
+   * Sends the customer a payment link for the instalment plus any late fee.
+   * The open link is resent until it nears expiry or a late fee changes
+   * the amount; only then is a new one raised.
+   */
+  async sendPaymentLink(instalmentId: string) {
+    if (!this.paymentLinks) {
+      throw new BusinessError('PAYMENT_LINKS_UNAVAILABLE', 'Payment links are not configured', 503);
+    }
+
+    const instalment = await this.prisma.instalment.findUnique({
+      where: { id: instalmentId },
+      include: { plan: true },
+    });
+    if (!instalment) {
+      throw new BusinessError('INSTALMENT_NOT_FOUND', 'Instalment not found', 404);
+    }
+    if (!OPEN_STATUSES.includes(instalment.status)) {
+      throw new BusinessError('INSTALMENT_NOT_DUE', `Instalment is ${instalment.status}`, 409);
+    }
+
+    const customer = await this.prisma.user.findUnique({ where: { id: instalment.plan.customerId } });
+    if (!customer) {
+      throw new BusinessError('CUSTOMER_NOT_FOUND', 'Customer not found', 404);
+    }
+
+    const now = new Date();
+    const amountPaise = instalment.amountPaise + instalment.lateFeePaise;
+    const customerName = customer.displayName ?? 'Customer';
+    let link;
+    if (await this.hasOpenLink(instalment, amountPaise, now)) {
+      const expiryMinutes = Math.floor((instalment.paymentLinkExpiresAt!.getTime() - now.getTime()) / 60000);
+      link = {
+        paymentId: instalment.paymentId!,
+        shortUrl: instalment.paymentLinkUrl!,
+        expiresAt: instalment.paymentLinkExpiresAt!.toISOString(),
+        whatsappLink: this.paymentLinks.buildWhatsappLink({
+          customerName,
+          customerPhone: customer.phone,
+          amountPaise: Number(amountPaise),
+          shortUrl: instalment.paymentLinkUrl!,
+          expiryMinutes,
+        }),
+      };
+    } else {
+      const request = await this.prisma.serviceRequest.findFirst({
+        where: { serviceInstanceId: instalment.plan.serviceInstanceId },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+      if (!request) {
+        throw new BusinessError('SERVICE_REQUEST_NOT_FOUND', 'Service request not found', 404);
+      }
+
+      link = await this.paymentLinks.createAndSendPaymentLink({
+        serviceRequestId: request.id,
+        amountPaise: Number(amountPaise),
+        customerName,
+        customerPhone: customer.phone,
+        customerEmail: customer.email ?? undefined,
+        description: `Instalment ${instalment.sequence}: ${instalment.label}`,
+        expiryMinutes: PAYMENT_LINK_EXPIRY_MINUTES,
+        customerId: instalment.plan.customerId,
+        cityId: instalment.plan.cityId,
+      });
+    }
+
+    await this.prisma.instalment.update({
+      where: { id: instalment.id },
+      data: {
+        paymentId: link.paymentId,
+        paymentLinkUrl: link.shortUrl,
+        paymentLinkExpiresAt: new Date(link.expiresAt),
+        lastReminderAt: now,
+      },
+    });
+
+    await this.boss.send('notification.send', {
+      type: 'instalment_payment_due',
+      userId: instalment.plan.customerId,
+      serviceInstanceId: instalment.plan.serviceInstanceId,
+      instalmentId: instalment.id,
+      label: instalment.label,
+      amountPaise: amountPaise.toString(),
+      lateFeePaise: instalment.lateFeePaise.toString(),
+      dueAt: instalment.dueAt?.toISOString() ?? null,
+      paymentUrl: link.shortUrl,
+      whatsappLink: link.whatsappLink,
+    });
+
+    return link;
+  }
+
+  /**
+   * Periodic pass over open instalments: marks missed due dates overdue,
+   * adds late fees after the grace period, halts services sitting past a
+   * gate, sends reminders and resumes services whose instalments are
+   * settled.
+   */
+  async processDueInstalments(now = new Date()) {
+    const result = { overdue: 0, lateFees: 0, halted: 0, reminded: 0, resumed: 0 };
+
+    const open = await this.prisma.instalment.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        dueAt: { lte: new Date(now.getTime() + REMINDER_LEAD_DAYS * DAY_MS) },
+        plan: { status: 'active' },
+      },
+      include: { plan: true },
+      orderBy: { dueAt: 'asc' },
+    });
+
+    const haltChecked = new Set<string>();
+    for (const instalment of open) {
+      const { plan } = instalment;
+      const dueAt = instalment.dueAt!;
+
+      if (dueAt < now) {
+        const data: { status?: string; lateFeePaise?: bigint } = {};
+        if (instalment.status === 'due') {
+          data.status = 'overdue';
+          result.overdue++;
+        }
+        const graceEnds = dueAt.getTime() + plan.lateFeeGraceDays * DAY_MS;
+        if (instalment.lateFeePaise === 0n && graceEnds < now.getTime()) {
+          const lateFeePaise = calculateLateFee(instalment.amountPaise, plan.lateFeeBasisPoints);
+          if (lateFeePaise > 0n) {
+            data.lateFeePaise = lateFeePaise;
+            result.lateFees++;
+          }
+        }
+        if (Object.keys(data).length > 0) {
+          await this.prisma.instalment.update({ where: { id: instalment.id }, data });
+        }
+
+        if (instalment.gateStep !== null && !haltChecked.has(plan.id)) {
+          haltChecked.add(plan.id);
+          if (await this.isPastGate(plan.serviceInstanceId, instalment.gateStep)) {
+            if (await this.haltForOverdue(plan, [instalment])) result.halted++;
+          }
+        }
+      }
+
+      const remindedRecently =
+        instalment.lastReminderAt && now.getTime() - instalment.lastReminderAt.getTime() < DAY_MS;
+      if (this.paymentLinks && !remindedRecently) {
+        await this.sendPaymentLink(instalment.id)
+          .then(() => result.reminded++)
+          .catch((err) => logger.error({ err, instalmentId: instalment.id }, 'Instalment reminder failed'));
+      }
+    }
+
+    const halted = await this.prisma.instalmentPlan.findMany({
+      where: { serviceHalted: true },
+      select: { id: true },
+    });
+    for (const plan of halted) {
+      if (await this.afterSettlement(plan.id)) result.resumed++;
+    }
+
+    return result;
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  /**
+   * Completes the plan when every instalment is settled and resumes a
+   * service halted for instalments once none is overdue. Returns whether
+   * the service was resumed.
+   */
+  private async afterSettlement(planId: string): Promise<boolean> {
+    const plan = await this.prisma.instalmentPlan.findUnique({
+      where: { id: planId },
+      include: { instalments: true },
+    });
+    if (!plan) return false;
+
+    if (plan.status === 'active' && plan.instalments.every((i) => SETTLED_STATUSES.includes(i.status))) {
+      await this.prisma.instalmentPlan.update({ where: { id: plan.id }, data: { status: 'completed' } });
+    }
+
+    const now = Date.now();
+    const stillOverdue = plan.instalments.some(
+      (i) => OPEN_STATUSES.includes(i.status) && i.gateStep !== null && i.dueAt !== null && i.dueAt.getTime() < now,
+    );
+    // Without a queue (e.g. inline from payment capture) the periodic job resumes
+    if (!plan.serviceHalted || stillOverdue || !this.boss) return false;
+
+    let resumed = true;
+    try {
+      await this.haltService.resumeService({
+        serviceInstanceId: plan.serviceInstanceId,
+        resumedBy: 'system:instalment_plan',
+        notes: 'Overdue instalments settled',
+      });
+    } catch (err) {
+      // Already resumed by ops
+      logger.warn({ err, planId: plan.id }, 'Service not resumed after instalment settlement');
+      resumed = false;
+    }
+    await this.prisma.instalmentPlan.update({ where: { id: plan.id }, data: { serviceHalted: false } });
+    return resumed;
+  }
+
+  /**
+   * Whether the instalment's last link is still unpaid, for the current
+   * amount, and valid for at least another day.
+   */
+  private async hasOpenLink(instalment: Instalment, amountPaise: bigint, now: Date): Promise<boolean> {
+    if (!instalment.paymentId || !instalment.paymentLinkUrl || !instalment.paymentLinkExpiresAt) return false;
+    if (instalment.paymentLinkExpiresAt.getTime() - now.getTime() < DAY_MS) return false;
+
+    const payment = await this.prisma.payment.findUnique({ where: { id: instalment.paymentId } });
+    return payment?.status === 'pending' && BigInt(payment.amountPaise) === amountPaise;
+  }
+
+  private async isPastGate(serviceInstanceId: string, gateStep: number): Promise<boolean> {
+    const instance = await this.prisma.serviceInstance.findUnique({
+      where: { id: serviceInstanceId },
+      select: { state: true },
+    });
+    const stepMatch = instance?.state.match(/^step_(\d+)$/);
+    return !!stepMatch && parseInt(stepMatch[1], 10) >= gateStep;
+  }
+}
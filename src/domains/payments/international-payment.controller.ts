@@ -7,6 +7,7 @@ const createOrderSchema = z.object({
   serviceRequestId: z.string().uuid(),
   amountPaise: z.number().int().positive(),
   customerCurrency: z.string().length(3).optional(),
+  fxLockId: z.string().uuid().optional(),
 });
 
 const confirmPaymentSchema = z.object({
@@ -2,14 +2,21 @@
 import { PrismaClient } from '@prisma/client';
 import Razorpay from 'razorpay';
 import crypto from 'crypto';
+import { logger } from '../../shared/utils/logger';
+import { TaxInvoiceService } from './tax-invoice.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { ExchangeRateService } from './exchange-rate.service';
+import { FxQuoteService } from './fx-quote.service';
 
 export class InternationalPaymentService {
   private razorpay: Razorpay | null;
+  private fxQuotes: FxQuoteService;
 
   constructor(
     private prisma: PrismaClient,
     razorpay?: Razorpay,
   ) {
+    this.fxQuotes = new FxQuoteService(prisma, new ExchangeRateService(prisma));
     if (razorpay) {
       this.razorpay = razorpay;
     } else if (process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET) {
@@ -34,32 +41,66 @@ export class InternationalPaymentService {
     amountPaise: number;
     customerId: string;
     customerCurrency?: string;
+    fxLockId?: string;
   }) {
-    // Create Razorpay order with INR currency for international UPI
-    const order = await this.requireRazorpay().orders.create({
-      amount: params.amountPaise,
-      currency: 'INR',
-      receipt: `nri_upi_${params.serviceRequestId}`,
-      notes: {
-        serviceRequestId: params.serviceRequestId,
-        customerId: params.customerId,
-        paymentType: 'international_upi',
-      },
+    // A locked quote fixes the foreign amount; check it before creating the order
+    const lock = params.fxLockId
+      ? await this.fxQuotes.validateLock({
+          lockId: params.fxLockId,
+          customerId: params.customerId,
+          serviceRequestId: params.serviceRequestId,
+          amountPaise: params.amountPaise,
+        })
+      : null;
+    const razorpay = this.requireRazorpay();
+
+    // Store pending payment record with NRI flag, claiming the lock in the same
+    // transaction so no order is ever raised against a lock another payment took
+    const payment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payment.create({
+        data: {
+          id: crypto.randomUUID(),
+          serviceRequestId: params.serviceRequestId,
+          customerId: params.customerId,
+          amountPaise: params.amountPaise,
+          status: 'pending',
+          paymentMethodType: 'international_upi',
+          isNriPayment: true,
+          foreignCurrencyCode: lock?.currency ?? params.customerCurrency ?? null,
+          foreignCurrencyAmount: lock?.foreignAmountMinor ?? null,
+          exchangeRate: lock?.lockedRate ?? null,
+        },
+      });
+      if (lock) {
+        await this.fxQuotes.consumeLock({ ...params, lockId: lock.id, paymentId: created.id }, tx);
+      }
+      return created;
     });
 
-    // Store pending payment record with NRI flag
-    const payment = await this.prisma.payment.create({
-      data: {
-        id: crypto.randomUUID(),
-        serviceRequestId: params.serviceRequestId,
-        customerId: params.customerId,
-        amountPaise: params.amountPaise,
-        status: 'pending',
-        razorpayOrderId: order.id,
-        paymentMethodType: 'international_upi',
-        isNriPayment: true,
-        foreignCurrencyCode: params.customerCurrency || null,
-      },
+    // Create Razorpay order with INR currency for international UPI
+    let order;
+    try {
+      order = await razorpay.orders.create({
+        amount: params.amountPaise,
+        currency: 'INR',
+        receipt: `nri_upi_${params.serviceRequestId}`,
+        notes: {
+          serviceRequestId: params.serviceRequestId,
+          customerId: params.customerId,
+          paymentType: 'international_upi',
+        },
+      });
+    } catch (err) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.payment.update({ where: { id: payment.id }, data: { status: 'failed' } });
+        if (lock) await this.fxQuotes.releaseLock(lock.id, payment.id, tx);
+      });
+      throw err;
+    }
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { razorpayOrderId: order.id },
     });
 
     return {
@@ -68,6 +109,12 @@ export class InternationalPaymentService {
       amountPaise: params.amountPaise,
       currency: 'INR',
       key: process.env.RAZORPAY_KEY_ID,
+      ...(lock && {
+        foreignCurrencyCode: lock.currency,
+        foreignAmountMinor: lock.foreignAmountMinor,
+        lockedRate: lock.lockedRate.toString(),
+        lockExpiresAt: lock.expiresAt.toISOString(),
+      }),
     };
   }
 
@@ -96,17 +143,28 @@ export class InternationalPaymentService {
     if (!existingPayment) {
       throw new Error(`Payment not found for order ${params.razorpayOrderId}`);
     }
+    // A rate locked at order time wins over whatever the client reports
+    const rateLocked = existingPayment.exchangeRate !== null;
     const payment = await this.prisma.payment.update({
       where: { id: existingPayment.id },
       data: {
         status: 'paid',
         razorpayPaymentId: params.razorpayPaymentId,
-        foreignCurrencyAmount: params.foreignCurrencyAmount || null,
-        exchangeRate: params.exchangeRate || null,
+        ...(!rateLocked && {
+          foreignCurrencyAmount: params.foreignCurrencyAmount || null,
+          exchangeRate: params.exchangeRate || null,
+        }),
         paidAt: new Date(),
       },
     });
 
+    await new TaxInvoiceService(this.prisma).issueForPayment(payment.id).catch((err) => {
+      logger.error({ err, paymentId: payment.id }, 'Tax invoice issue failed');
+    });
+    await new LedgerService(this.prisma).recordPaymentCaptured(payment.id).catch((err) => {
+      logger.error({ err, paymentId: payment.id }, 'Ledger posting failed');
+    });
+
     return payment;
   }
 
@@ -0,0 +1,49 @@
+/**
+ * Payment dispute deadline pg-boss job.
+ * Alerts ops about chargebacks still awaiting evidence whose Razorpay
+ * respond-by deadline is near or already passed
+ * (payment-dispute.deadline, hourly).
+ */
+import { PrismaClient } from '@prisma/client';
+import { PaymentDisputeService } from './payment-dispute.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const PAYMENT_DISPUTE_DEADLINE_QUEUE = 'payment-dispute.deadline';
+const PAYMENT_DISPUTE_DEADLINE_SCHEDULE = '0 * * * *';
+
+export async function registerPaymentDisputeDeadlineJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const disputeService = new PaymentDisputeService(prisma, boss);
+
+  await boss.createQueue(PAYMENT_DISPUTE_DEADLINE_QUEUE);
+  await boss.work(PAYMENT_DISPUTE_DEADLINE_QUEUE, async () => {
+    const disputes = await disputeService.getDisputesNeedingAlert();
+
+    for (const dispute of disputes) {
+      const hoursLeft = dispute.respondBy
+        ? Math.floor((dispute.respondBy.getTime() - Date.now()) / (60 * 60 * 1000))
+        : null;
+
+      await boss.send('notification.send', {
+        type: 'payment_dispute_deadline_warning',
+        disputeId: dispute.id,
+        razorpayDisputeId: dispute.razorpayDisputeId,
+        cityId: dispute.cityId,
+        status: dispute.status,
+        respondBy: dispute.respondBy?.toISOString(),
+        hoursLeft,
+        evidenceAssembled: dispute.evidenceAssembledAt !== null,
+      });
+      await disputeService.markAlerted(dispute.id);
+    }
+
+    if (disputes.length > 0) {
+      logger.warn({ count: disputes.length }, 'Payment disputes approaching response deadline');
+    }
+  });
+  await boss.schedule(PAYMENT_DISPUTE_DEADLINE_QUEUE, PAYMENT_DISPUTE_DEADLINE_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
@@ -0,0 +1,118 @@
+// Payment Dispute Controller - Razorpay chargeback queue and evidence packs for ops
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { PaymentDisputeService } from './payment-dispute.service';
+import { BusinessError } from '../../shared/errors/business-error';
+import { authorize } from '../../middleware/authorize';
+
+const listDisputesSchema = z.object({
+  status: z.enum(['open', 'evidence_required', 'under_review', 'won', 'lost', 'closed']).optional(),
+  cityId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export function createPaymentDisputeController(
+  prisma: PrismaClient,
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+): Router {
+  const router = Router();
+  const disputeService = new PaymentDisputeService(prisma, boss);
+
+  // Ops managers are held to their own city; super admins see everything
+  function scopedCityId(user: { role: string; cityId: string }, requested?: string) {
+    return user.role === 'super_admin' ? requested : user.cityId;
+  }
+
+  async function getScopedDispute(id: string, user: { role: string; cityId: string }) {
+    const dispute = await disputeService.getDispute(id);
+    if (user.role !== 'super_admin' && dispute.cityId !== user.cityId) {
+      throw new BusinessError('PAYMENT_DISPUTE_NOT_FOUND', 'Payment dispute not found', 404);
+    }
+    return dispute;
+  }
+
+  /**
+   * GET /api/v1/payment-disputes
+   * Roles: ops_manager, super_admin
+   */
+  router.get(
+    '/',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const query = listDisputesSchema.parse(req.query);
+        const user = (req as any).user!;
+
+        const result = await disputeService.listDisputes({
+          ...query,
+          cityId: scopedCityId(user, query.cityId),
+        });
+
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/payment-disputes/:id
+   * Roles: ops_manager, super_admin
+   */
+  router.get(
+    '/:id',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const dispute = await getScopedDispute(req.params.id, (req as any).user!);
+        res.json({ success: true, data: dispute });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/payment-disputes/:id/evidence-pack
+   * (Re)assembles the evidence pack from service records
+   * Roles: ops_manager, super_admin
+   */
+  router.post(
+    '/:id/evidence-pack',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const dispute = await getScopedDispute(req.params.id, (req as any).user!);
+        const result = await disputeService.assembleEvidencePack(dispute.id);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/payment-disputes/:id/evidence-submitted
+   * Records that the evidence was submitted to Razorpay
+   * Roles: ops_manager, super_admin
+   */
+  router.post(
+    '/:id/evidence-submitted',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const user = (req as any).user!;
+        const dispute = await getScopedDispute(req.params.id, user);
+        const result = await disputeService.markEvidenceSubmitted(dispute.id, user.id);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,416 @@
+/**
+ * Payment dispute (chargeback) lifecycle
+ *
+ * Disputes arrive through Razorpay `payment.dispute.*` webhooks:
+ *   open -> evidence_required -> under_review -> won | lost
+ * (closed when the dispute is accepted without contest).
+ * Opening a dispute halts the related service; ops assemble an evidence
+ * pack and are alerted as the response deadline approaches.
+ */
+
+import { PaymentDispute, Prisma, PrismaClient } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { logger } from '../../shared/utils/logger';
+import { ServiceHaltService } from '../services/service-halt.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { RazorpayDisputeEntity } from './payment.types';
+
+export type PaymentDisputeStatus = 'open' | 'evidence_required' | 'under_review' | 'won' | 'lost' | 'closed';
+
+const TERMINAL_STATUSES: PaymentDisputeStatus[] = ['won', 'lost', 'closed'];
+// Disputes still waiting on us for evidence
+const AWAITING_RESPONSE: PaymentDisputeStatus[] = ['open', 'evidence_required'];
+
+const STATUS_BY_EVENT: Record<string, PaymentDisputeStatus> = {
+  'payment.dispute.created': 'open',
+  'payment.dispute.action_required': 'evidence_required',
+  'payment.dispute.under_review': 'under_review',
+  'payment.dispute.won': 'won',
+  'payment.dispute.lost': 'lost',
+  'payment.dispute.closed': 'closed',
+};
+
+export const DISPUTE_EVENTS = Object.keys(STATUS_BY_EVENT);
+
+// Alert ops this long before the respond-by deadline
+export const DEADLINE_ALERT_HOURS = 48;
+const REALERT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export class PaymentDisputeService {
+  private readonly haltService: ServiceHaltService;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly boss: any, // PgBoss instance - namespace import cannot be used as type
+  ) {
+    this.haltService = new ServiceHaltService(prisma, boss);
+  }
+
+  /**
+   * Creates or advances a dispute from a webhook event. Terminal disputes
+   * are never reopened by late or replayed events, and an event older than
+   * the last one applied (webhooks are not delivered in order) is ignored.
+   */
+  async ingestWebhookEvent(
+    eventType: string,
+    entity: RazorpayDisputeEntity,
+    eventAt?: Date,
+  ): Promise<PaymentDispute> {
+    const status = STATUS_BY_EVENT[eventType];
+    if (!status) {
+      throw new BusinessError('DISPUTE_EVENT_UNKNOWN', `Unsupported dispute event: ${eventType}`, 422);
+    }
+
+    const existing = await this.prisma.paymentDispute.findUnique({ where: { razorpayDisputeId: entity.id } });
+    const details = {
+      amountPaise: entity.amount,
+      amountDeductedPaise: entity.amount_deducted ?? 0,
+      currency: entity.currency ?? 'INR',
+      reasonCode: entity.reason_code ?? null,
+      phase: entity.phase ?? null,
+      respondBy: entity.respond_by ? new Date(entity.respond_by * 1000) : null,
+    };
+
+    if (!existing) {
+      const context = await this.resolvePaymentContext(entity.payment_id);
+      const dispute = await this.prisma.paymentDispute.create({
+        data: {
+          razorpayDisputeId: entity.id,
+          razorpayPaymentId: entity.payment_id,
+          ...context,
+          ...details,
+          status,
+          lastEventAt: eventAt ?? null,
+          resolvedAt: TERMINAL_STATUSES.includes(status) ? new Date() : null,
+        },
+      });
+      return this.onStatusChange(dispute, null);
+    }
+
+    if (TERMINAL_STATUSES.includes(existing.status as PaymentDisputeStatus) || existing.status === status) {
+      return existing;
+    }
+    if (eventAt && existing.lastEventAt && eventAt < existing.lastEventAt) {
+      logger.info(
+        { disputeId: existing.id, eventType, eventAt, lastEventAt: existing.lastEventAt },
+        'Ignoring out-of-order dispute event',
+      );
+      return existing;
+    }
+
+    const updated = await this.prisma.paymentDispute.update({
+      where: { id: existing.id },
+      data: {
+        ...details,
+        status,
+        lastEventAt: eventAt ?? existing.lastEventAt,
+        resolvedAt: TERMINAL_STATUSES.includes(status) ? new Date() : null,
+      },
+    });
+    return this.onStatusChange(updated, existing.status as PaymentDisputeStatus);
+  }
+
+  async getDispute(id: string): Promise<PaymentDispute> {
+    const dispute = await this.prisma.paymentDispute.findUnique({ where: { id } });
+    if (!dispute) {
+      throw new BusinessError('PAYMENT_DISPUTE_NOT_FOUND', 'Payment dispute not found', 404);
+    }
+    return dispute;
+  }
+
+  async listDisputes(filters: {
+    status?: PaymentDisputeStatus;
+    cityId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const { status, cityId, limit = 20, offset = 0 } = filters;
+    const where: Prisma.PaymentDisputeWhereInput = {
+      ...(status && { status }),
+      ...(cityId && { cityId }),
+    };
+
+    const [disputes, total] = await Promise.all([
+      this.prisma.paymentDispute.findMany({
+        where,
+        // Soonest deadline first; resolved disputes have none that matters
+        orderBy: [{ respondBy: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.paymentDispute.count({ where }),
+    ]);
+
+    return { disputes, total, limit, offset };
+  }
+
+  /**
+   * Gathers what a bank needs to decide the chargeback: proof the service
+   * was performed (GPS evidence, checklists, delivered documents) and the
+   * customer's communication history. Stored on the dispute for review.
+   */
+  async assembleEvidencePack(disputeId: string): Promise<PaymentDispute> {
+    const dispute = await this.getDispute(disputeId);
+    if (TERMINAL_STATUSES.includes(dispute.status as PaymentDisputeStatus)) {
+      throw new BusinessError('PAYMENT_DISPUTE_RESOLVED', 'Dispute is already resolved', 409);
+    }
+
+    const [payment, gpsEvidence, checklists, documents, communications, notifications] = await Promise.all([
+      dispute.paymentId ? this.prisma.payment.findUnique({ where: { id: dispute.paymentId } }) : null,
+      dispute.serviceRequestId
+        ? this.prisma.gpsEvidence.findMany({
+            where: { serviceRequestId: dispute.serviceRequestId },
+            orderBy: { capturedAt: 'asc' },
+          })
+        : [],
+      dispute.serviceRequestId
+        ? this.prisma.checklist.findMany({
+            where: { serviceRequestId: dispute.serviceRequestId },
+            include: { steps: { orderBy: { stepIndex: 'asc' } } },
+          })
+        : [],
+      dispute.serviceInstanceId
+        ? this.prisma.document.findMany({
+            where: { serviceInstanceId: dispute.serviceInstanceId, verificationStatus: 'verified', archivedAt: null },
+            orderBy: { uploadedAt: 'asc' },
+          })
+        : [],
+      dispute.serviceInstanceId
+        ? this.prisma.serviceCommunication.findMany({
+            where: { serviceInstanceId: dispute.serviceInstanceId },
+            orderBy: { sentAt: 'asc' },
+          })
+        : [],
+      dispute.serviceInstanceId && dispute.customerId
+        ? this.prisma.notificationLog.findMany({
+            where: { serviceInstanceId: dispute.serviceInstanceId, userId: dispute.customerId },
+            orderBy: { createdAt: 'asc' },
+          })
+        : [],
+    ]);
+
+    const evidencePack = {
+      dispute: {
+        razorpayDisputeId: dispute.razorpayDisputeId,
+        reasonCode: dispute.reasonCode,
+        phase: dispute.phase,
+        amountPaise: dispute.amountPaise,
+        respondBy: dispute.respondBy?.toISOString() ?? null,
+      },
+      payment: payment && {
+        id: payment.id,
+        razorpayPaymentId: payment.razorpayPaymentId,
+        amountPaise: payment.amountPaise,
+        paidAt: payment.paidAt?.toISOString() ?? null,
+        method: payment.paymentMethodType,
+      },
+      gpsEvidence: gpsEvidence.map((g) => ({
+        capturedAt: g.capturedAt.toISOString(),
+        latitude: g.latitude,
+        longitude: g.longitude,
+        accuracy: g.accuracy,
+        verification: g.verification,
+        geofenceLabel: g.geofenceLabel,
+        photoUrls: g.photoUrls,
+      })),
+      checklists: checklists.map((c) => ({
+        serviceCode: c.serviceCode,
+        completedSteps: c.completedSteps,
+        totalSteps: c.totalSteps,
+        completedAt: c.completedAt?.toISOString() ?? null,
+        steps: c.steps.map((s) => ({
+          title: s.title,
+          isCompleted: s.isCompleted,
+          completedAt: s.completedAt?.toISOString() ?? null,
+          photoUrls: s.photoUrls,
+        })),
+      })),
+      deliveredDocuments: documents.map((d) => ({
+        id: d.id,
+        docType: d.docType,
+        uploadedBy: d.uploadedBy,
+        uploadedAt: d.uploadedAt.toISOString(),
+      })),
+      communications: [
+        ...communications.map((c) => ({
+          at: c.sentAt.toISOString(),
+          source: 'service_communication',
+          type: c.communicationType,
+          channel: c.channel,
+          content: c.messageContent,
+          deliveryStatus: c.deliveryStatus,
+        })),
+        ...notifications.map((n) => ({
+          at: n.createdAt.toISOString(),
+          source: 'notification',
+          type: n.templateCode,
+          channel: n.channel,
+          content: n.body,
+          deliveryStatus: n.status,
+        })),
+      ].sort((a, b) => a.at.localeCompare(b.at)),
+      assembledAt: new Date().toISOString(),
+    };
+
+    return this.prisma.paymentDispute.update({
+      where: { id: dispute.id },
+      data: {
+        evidencePack: evidencePack as unknown as Prisma.InputJsonValue,
+        evidenceAssembledAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Records that ops submitted the evidence on the Razorpay dashboard.
+   */
+  async markEvidenceSubmitted(disputeId: string, opsUserId: string): Promise<PaymentDispute> {
+    const dispute = await this.getDispute(disputeId);
+    if (!AWAITING_RESPONSE.includes(dispute.status as PaymentDisputeStatus)) {
+      throw new BusinessError(
+        'PAYMENT_DISPUTE_INVALID_STATUS',
+        `Cannot submit evidence for a dispute that is ${dispute.status}`,
+        409,
+      );
+    }
+    if (!dispute.evidencePack) {
+      throw new BusinessError('PAYMENT_DISPUTE_NO_EVIDENCE', 'Assemble the evidence pack first', 422);
+    }
+
+    return this.prisma.paymentDispute.update({
+      where: { id: dispute.id },
+      data: { status: 'under_review', evidenceSubmittedAt: new Date(), evidenceSubmittedBy: opsUserId },
+    });
+  }
+
+  /**
+   * Disputes awaiting our response whose deadline is within `withinHours`
+   * (or already passed), skipping ones alerted in the last day.
+   */
+  async getDisputesNeedingAlert(withinHours: number = DEADLINE_ALERT_HOURS): Promise<PaymentDispute[]> {
+    const now = Date.now();
+    return this.prisma.paymentDispute.findMany({
+      where: {
+        status: { in: AWAITING_RESPONSE },
+        respondBy: { lte: new Date(now + withinHours * 60 * 60 * 1000) },
+        OR: [{ lastAlertedAt: null }, { lastAlertedAt: { lt: new Date(now - REALERT_INTERVAL_MS) } }],
+      },
+      orderBy: { respondBy: 'asc' },
+    });
+  }
+
+  async markAlerted(disputeId: string): Promise<void> {
+    await this.prisma.paymentDispute.update({
+      where: { id: disputeId },
+      data: { lastAlertedAt: new Date() },
+    });
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private async onStatusChange(
+    dispute: PaymentDispute,
+    previous: PaymentDisputeStatus | null,
+  ): Promise<PaymentDispute> {
+    let current = dispute;
+
+    if (previous === null && !TERMINAL_STATUSES.includes(dispute.status as PaymentDisputeStatus)) {
+      current = await this.haltRelatedService(dispute);
+    }
+
+    if (dispute.status === 'won' && dispute.serviceHalted && dispute.serviceInstanceId) {
+      await this.haltService
+        .resumeService({
+          serviceInstanceId: dispute.serviceInstanceId,
+          resumedBy: 'system:payment_dispute',
+          notes: `Chargeback ${dispute.razorpayDisputeId} won`,
+        })
+        .catch((err) => logger.error({ err, disputeId: dispute.id }, 'Failed to resume service after dispute'));
+    }
+
+    if (dispute.status === 'lost') {
+      // Ledger failures must not block the webhook; the daily sweep retries
+      await new LedgerService(this.prisma)
+        .recordChargebackLost(dispute.id)
+        .catch((err) => logger.error({ err, disputeId: dispute.id }, 'Ledger posting failed'));
+    }
+
+    if (this.boss) {
+      await this.boss.send('notification.send', {
+        type: previous === null ? 'payment_dispute_opened' : 'payment_dispute_status_changed',
+        disputeId: dispute.id,
+        razorpayDisputeId: dispute.razorpayDisputeId,
+        cityId: dispute.cityId,
+        serviceInstanceId: dispute.serviceInstanceId,
+        status: dispute.status,
+        previousStatus: previous,
+        amountPaise: dispute.amountPaise,
+        respondBy: dispute.respondBy?.toISOString() ?? null,
+      });
+    }
+
+    return current;
+  }
+
+  /**
+   * Halts the service the disputed payment paid for. A service that cannot
+   * be halted (e.g. already delivered) is left as is.
+   */
+  private async haltRelatedService(dispute: PaymentDispute): Promise<PaymentDispute> {
+    if (!dispute.serviceInstanceId) return dispute;
+
+    try {
+      await this.haltService.haltService({
+        serviceInstanceId: dispute.serviceInstanceId,
+        reason: 'dispute_pending',
+        description: `Chargeback ${dispute.razorpayDisputeId} raised on payment ${dispute.razorpayPaymentId}`,
+        haltedBy: 'system:payment_dispute',
+        requiredActions: ['Respond to payment dispute'],
+      });
+    } catch (err) {
+      logger.warn({ err, disputeId: dispute.id }, 'Service not halted for payment dispute');
+      return dispute;
+    }
+
+    return this.prisma.paymentDispute.update({
+      where: { id: dispute.id },
+      data: { serviceHalted: true },
+    });
+  }
+
+  /**
+   * Payment.serviceRequestId holds a service instance id for app orders and
+   * a service request id for agent-created ones.
+   */
+  private async resolvePaymentContext(razorpayPaymentId: string) {
+    const payment = await this.prisma.payment.findFirst({ where: { razorpayPaymentId } });
+    if (!payment) {
+      return { paymentId: null, serviceInstanceId: null, serviceRequestId: null, customerId: null, cityId: null };
+    }
+
+    const select = { id: true, serviceInstanceId: true, cityId: true } as const;
+    const request =
+      (await this.prisma.serviceRequest.findUnique({ where: { id: payment.serviceRequestId }, select })) ??
+      (await this.prisma.serviceRequest.findFirst({
+        where: { serviceInstanceId: payment.serviceRequestId },
+        orderBy: { createdAt: 'desc' },
+        select,
+      }));
+    const instance = request
+      ? null
+      : await this.prisma.serviceInstance.findUnique({
+          where: { id: payment.serviceRequestId },
+          select: { id: true, cityId: true },
+        });
+
+    return {
+      paymentId: payment.id,
+      serviceInstanceId: request?.serviceInstanceId ?? instance?.id ?? null,
+      serviceRequestId: request?.id ?? null,
+      customerId: payment.customerId,
+      cityId: request?.cityId ?? instance?.cityId ?? null,
+    };
+  }
+}
@@ -29,19 +29,30 @@ export class PaymentLinkService {
   }) {
     const result = await this.paymentService.createPaymentLink(params);
 
-    // Generate WhatsApp deep link with payment URL
+    return {
+      ...result,
+      whatsappLink: this.buildWhatsappLink({ ...params, shortUrl: result.shortUrl }),
+    };
+  }
+
+  /**
+   * WhatsApp deep link carrying the payment URL; also used to resend a
+   * link that is still open.
+   */
+  buildWhatsappLink(params: {
+    customerName: string;
+    customerPhone: string;
+    amountPaise: number;
+    shortUrl: string;
+    expiryMinutes: number;
+  }): string {
     const whatsappMessage = encodeURIComponent(
-      `Hi ${params.customerName}, please complete your payment of INR ${Number(params.amountPaise) / 100} using this link: ${result.shortUrl}\n\n` +
+      `Hi ${params.customerName}, please complete your payment of INR ${Number(params.amountPaise) / 100} using this link: ${params.shortUrl}\n\n` +
       `This link expires in ${params.expiryMinutes} minutes.\n\n` +
       `- Property Legal Agent`,
     );
 
-    const whatsappLink = `https://wa.me/${params.customerPhone.replace('+', '')}?text=${whatsappMessage}`;
-
-    return {
-      ...result,
-      whatsappLink,
-    };
+    return `https://wa.me/${params.customerPhone.replace('+', '')}?text=${whatsappMessage}`;
   }
 
   /**
@@ -1,5 +1,6 @@
 /**
- * Payment structure calculator for 30/70 split enforcement.
+ * Payment structure calculator for 30/70 split enforcement and custom
+ * instalment schedules.
  * All calculations use BigInt integer arithmetic - no floating point.
  *
  * Story 4.3: Payment Structure Enforcement
@@ -57,6 +58,124 @@ export function calculatePaymentStructure(
   };
 }
 
+export type InstalmentTrigger = 'upfront' | 'step' | 'completion';
+
+/**
+ * One instalment of a custom schedule. Shares are in basis points of the
+ * service fee (10000 = 100%) and must add up to exactly 10000.
+ */
+export interface InstalmentSpec {
+  label: string;
+  shareBasisPoints: number;
+  trigger: InstalmentTrigger;
+  triggerStep?: number;     // 1-based workflow step, for trigger 'step'
+  dueDays: number;          // days after the trigger to pay
+  gateStep?: number;        // 1-based step that cannot start while this is overdue
+}
+
+export interface InstalmentScheduleItem extends InstalmentSpec {
+  sequence: number;                 // 1-based
+  serviceFeePortionPaise: bigint;
+  govtFeePaise: bigint;             // whole govt fee rides on the first instalment
+  amountPaise: bigint;
+}
+
+export const BASIS_POINTS_TOTAL = 10000;
+export const MAX_INSTALMENTS = 12;
+
+/**
+ * The standard 30/70 split expressed as an instalment schedule.
+ */
+export const DEFAULT_INSTALMENT_SPECS: InstalmentSpec[] = [
+  { label: 'Advance', shareBasisPoints: 3000, trigger: 'upfront', dueDays: 0, gateStep: 1 },
+  { label: 'Balance', shareBasisPoints: 7000, trigger: 'completion', dueDays: 7 },
+];
+
+/**
+ * Splits the fees into an instalment schedule.
+ * Enforces: 100% govt fee on the first (upfront) instalment, instalments in
+ * workflow order, completion last.
+ *
+ * Each portion is floor(serviceFee * share / 10000); the last instalment
+ * takes the remainder, like the 70% balance does in calculatePaymentStructure.
+ */
+export function calculateInstalmentSchedule(
+  serviceFeePaise: bigint,
+  govtFeeEstimatePaise: bigint,
+  specs: InstalmentSpec[],
+): InstalmentScheduleItem[] {
+  if (serviceFeePaise < 0n) {
+    throw new Error('Service fee must be non-negative');
+  }
+  if (govtFeeEstimatePaise < 0n) {
+    throw new Error('Government fee must be non-negative');
+  }
+  if (specs.length === 0 || specs.length > MAX_INSTALMENTS) {
+    throw new Error(`Schedule must have between 1 and ${MAX_INSTALMENTS} instalments`);
+  }
+  if (specs[0].trigger !== 'upfront') {
+    throw new Error('First instalment must be upfront');
+  }
+
+  let shareTotal = 0;
+  let lastOrder = 0;
+  specs.forEach((spec, i) => {
+    if (!Number.isInteger(spec.shareBasisPoints) || spec.shareBasisPoints <= 0) {
+      throw new Error(`Instalment ${i + 1}: share must be a positive whole number of basis points`);
+    }
+    shareTotal += spec.shareBasisPoints;
+
+    // upfront = 0, step N = N, completion = after every step
+    const order =
+      spec.trigger === 'upfront' ? 0 : spec.trigger === 'step' ? spec.triggerStep ?? 0 : Number.MAX_SAFE_INTEGER;
+    if (spec.trigger === 'step' && (!Number.isInteger(spec.triggerStep) || order < 1)) {
+      throw new Error(`Instalment ${i + 1}: step trigger needs a step number`);
+    }
+    if (order < lastOrder) {
+      throw new Error(`Instalment ${i + 1}: instalments must follow workflow order`);
+    }
+    lastOrder = order;
+
+    if (spec.gateStep !== undefined) {
+      if (spec.trigger === 'completion') {
+        throw new Error(`Instalment ${i + 1}: completion instalments cannot gate a step`);
+      }
+      if (!Number.isInteger(spec.gateStep) || spec.gateStep <= order) {
+        throw new Error(`Instalment ${i + 1}: gate step must come after the trigger`);
+      }
+    }
+  });
+  if (shareTotal !== BASIS_POINTS_TOTAL) {
+    throw new Error(`Instalment shares must add up to ${BASIS_POINTS_TOTAL} basis points, got ${shareTotal}`);
+  }
+
+  let allocatedPaise = 0n;
+  return specs.map((spec, i) => {
+    const isLast = i === specs.length - 1;
+    const serviceFeePortionPaise = isLast
+      ? serviceFeePaise - allocatedPaise
+      : (serviceFeePaise * BigInt(spec.shareBasisPoints)) / BigInt(BASIS_POINTS_TOTAL);
+    allocatedPaise += serviceFeePortionPaise;
+
+    const govtFeePaise = i === 0 ? govtFeeEstimatePaise : 0n;
+    return {
+      ...spec,
+      sequence: i + 1,
+      serviceFeePortionPaise,
+      govtFeePaise,
+      amountPaise: serviceFeePortionPaise + govtFeePaise,
+    };
+  });
+}
+
+/**
+ * Late fee on an overdue instalment, floor(amount * basisPoints / 10000).
+ */
+export function calculateLateFee(amountPaise: bigint, lateFeeBasisPoints: number): bigint {
+  if (lateFeeBasisPoints <= 0) return 0n;
+  return (amountPaise * BigInt(lateFeeBasisPoints)) / BigInt(BASIS_POINTS_TOTAL);
+}
+
 /**
  * Validates that a payment amount matches the expected structure.
  */
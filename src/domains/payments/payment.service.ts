@@ -8,12 +8,25 @@ import { PrismaClient } from '@prisma/client';
 import { RazorpayClient } from '../../core/integrations/razorpay.client.js';
 import { AppError } from '../../core/errors/app-error.js';
 import { paiseToRazorpayAmount } from '../../core/utils/bigint-serializer.js';
+import { logger } from '../../shared/utils/logger';
+import { TaxInvoiceService } from './tax-invoice.service.js';
+import { LedgerService } from '../ledger/ledger.service.js';
+import { InstalmentPlanService } from './instalment-plan.service.js';
 
 export class PaymentService {
+  private readonly taxInvoices: TaxInvoiceService;
+  private readonly ledger: LedgerService;
+  private readonly instalments: InstalmentPlanService;
+
   constructor(
     private readonly prisma: PrismaClient,
     private readonly razorpay: RazorpayClient,
-  ) {}
+  ) {
+    this.taxInvoices = new TaxInvoiceService(prisma);
+    this.ledger = new LedgerService(prisma);
+    // No queue here; the instalment job resumes services halted for arrears
+    this.instalments = new InstalmentPlanService(prisma, null);
+  }
 
   /**
    * Creates a Razorpay order for a service request payment.
@@ -173,6 +186,18 @@ export class PaymentService {
       },
     });
 
+    // Invoicing and ledger posting must never fail a captured payment; the
+    // daily sweeps retry
+    await this.taxInvoices.issueForPayment(payment.id).catch((err) => {
+      logger.error({ err, paymentId: payment.id }, 'Tax invoice issue failed');
+    });
+    await this.ledger.recordPaymentCaptured(payment.id).catch((err) => {
+      logger.error({ err, paymentId: payment.id }, 'Ledger posting failed');
+    });
+    await this.instalments.recordPayment(payment.id).catch((err) => {
+      logger.error({ err, paymentId: payment.id }, 'Instalment settlement failed');
+    });
+
     return {
       paymentId: payment.id,
       status: 'paid',
@@ -223,6 +248,7 @@ export class PaymentService {
         customerId: params.customerId,
         amountPaise: params.amountPaise,
         paymentMethodType: 'domestic',
+        razorpayPaymentLinkId: paymentLink.id,
         status: 'pending',
       },
     });
@@ -50,3 +50,20 @@ export interface PaymentBreakdownResult {
   creditBalancePaise: bigint;
   creditBalanceAfterPaise: bigint;
 }
+
+/**
+ * Dispute entity as sent in Razorpay `payment.dispute.*` webhooks.
+ * Amounts are in paise; timestamps are unix seconds.
+ */
+export interface RazorpayDisputeEntity {
+  id: string;
+  payment_id: string;
+  amount: number;
+  currency: string;
+  amount_deducted: number;
+  reason_code: string;
+  respond_by: number;
+  status: string; // open, under_review, won, lost, closed
+  phase: string; // chargeback, pre_arbitration, arbitration, fraud, retrieval
+  created_at: number;
+}
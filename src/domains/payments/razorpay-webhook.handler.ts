@@ -1,13 +1,20 @@
 /**
  * Razorpay webhook event handler.
- * Processes payment.captured, payment.failed, payment.authorized, order.paid events.
+ * Processes payment.captured, payment.failed, payment.authorized, order.paid,
+ * payment_link.paid and payment.dispute.* events.
  *
  * Story 4.10: Razorpay Webhook Idempotent Processing
  * Story 4.11: Referral credit trigger
  */
 import { PrismaClient } from '@prisma/client';
+import { logger } from '../../shared/utils/logger';
 import { WebhookEventService } from './webhook-event.service.js';
 import { PaymentStateChangeService } from './payment-state-change.service.js';
+import { PaymentDisputeService, DISPUTE_EVENTS } from './payment-dispute.service.js';
+import { RazorpayDisputeEntity } from './payment.types.js';
+import { TaxInvoiceService } from './tax-invoice.service.js';
+import { LedgerService } from '../ledger/ledger.service.js';
+import { InstalmentPlanService } from './instalment-plan.service.js';
 
 export interface RazorpayWebhookPayload {
   entity: string;
@@ -39,6 +46,18 @@ export interface RazorpayWebhookPayload {
         notes: Record<string, string>;
       };
     };
+    payment_link?: {
+      entity: {
+        id: string;
+        amount: number;
+        amount_paid: number;
+        status: string;
+        notes: Record<string, string>;
+      };
+    };
+    dispute?: {
+      entity: RazorpayDisputeEntity;
+    };
   };
   created_at: number;
 }
@@ -46,10 +65,21 @@ export interface RazorpayWebhookPayload {
 export class RazorpayWebhookHandler {
   private readonly webhookEventService: WebhookEventService;
   private readonly stateChangeService: PaymentStateChangeService;
+  private readonly disputeService: PaymentDisputeService;
+  private readonly taxInvoices: TaxInvoiceService;
+  private readonly ledger: LedgerService;
+  private readonly instalments: InstalmentPlanService;
 
-  constructor(private readonly prisma: PrismaClient) {
+  constructor(
+    private readonly prisma: PrismaClient,
+    boss?: any, // PgBoss instance - namespace import cannot be used as type
+  ) {
     this.webhookEventService = new WebhookEventService(prisma);
     this.stateChangeService = new PaymentStateChangeService(prisma);
+    this.disputeService = new PaymentDisputeService(prisma, boss);
+    this.taxInvoices = new TaxInvoiceService(prisma);
+    this.ledger = new LedgerService(prisma);
+    this.instalments = new InstalmentPlanService(prisma, boss ?? null);
   }
 
   /**
@@ -100,7 +130,18 @@ export class RazorpayWebhookHandler {
         case 'order.paid':
           await this.handleOrderPaid(payload.payload.order!.entity);
           break;
+        case 'payment_link.paid':
+          await this.handlePaymentLinkPaid(payload.payload.payment_link!.entity, paymentEntity);
+          break;
         default:
+          if (DISPUTE_EVENTS.includes(eventType) && payload.payload.dispute) {
+            await this.disputeService.ingestWebhookEvent(
+              eventType,
+              payload.payload.dispute.entity,
+              new Date(payload.created_at * 1000),
+            );
+            break;
+          }
           // Unknown event type — log but don't fail
           break;
       }
@@ -137,7 +178,7 @@ export class RazorpayWebhookHandler {
           where: { id: paymentByOrder.id },
           data: {
             razorpayPaymentId: paymentEntity.id,
-            status: 'SUCCESS',
+            status: 'paid',
             paidAt: new Date(),
           },
         });
@@ -145,33 +186,36 @@ export class RazorpayWebhookHandler {
         await this.stateChangeService.logStateChange({
           paymentId: paymentByOrder.id,
           oldState: paymentByOrder.status,
-          newState: 'SUCCESS',
+          newState: 'paid',
           changedBy: 'razorpay_webhook',
           metadata: { razorpayPaymentId: paymentEntity.id },
         });
       });
 
+      await this.invoiceAndPost(paymentByOrder.id);
       return;
     }
 
-    if (payment.status === 'SUCCESS') {
+    if (payment.status === 'paid') {
       return; // Already captured, idempotent
     }
 
     await this.prisma.$transaction(async (tx) => {
       await tx.payment.update({
         where: { id: payment.id },
-        data: { status: 'SUCCESS', paidAt: new Date() },
+        data: { status: 'paid', paidAt: new Date() },
       });
 
       await this.stateChangeService.logStateChange({
         paymentId: payment.id,
         oldState: payment.status,
-        newState: 'SUCCESS',
+        newState: 'paid',
         changedBy: 'razorpay_webhook',
         metadata: { razorpayPaymentId: paymentEntity.id },
       });
     });
+
+    await this.invoiceAndPost(payment.id);
   }
 
   private async handlePaymentFailed(
@@ -186,20 +230,20 @@ export class RazorpayWebhookHandler {
       },
     });
 
-    if (!payment || payment.status === 'FAILED') {
+    if (!payment || payment.status === 'failed') {
       return; // Already handled or not found
     }
 
     await this.prisma.$transaction(async (tx) => {
       await tx.payment.update({
         where: { id: payment.id },
-        data: { status: 'FAILED' },
+        data: { status: 'failed' },
       });
 
       await this.stateChangeService.logStateChange({
         paymentId: payment.id,
         oldState: payment.status,
-        newState: 'FAILED',
+        newState: 'failed',
         changedBy: 'razorpay_webhook',
         metadata: {
           razorpayPaymentId: paymentEntity.id,
@@ -244,21 +288,73 @@ export class RazorpayWebhookHandler {
 
     if (!payment) return;
 
-    if (payment.status !== 'SUCCESS') {
+    if (payment.status !== 'paid') {
       await this.prisma.$transaction(async (tx) => {
         await tx.payment.update({
           where: { id: payment.id },
-          data: { status: 'SUCCESS', paidAt: new Date() },
+          data: { status: 'paid', paidAt: new Date() },
         });
 
         await this.stateChangeService.logStateChange({
           paymentId: payment.id,
           oldState: payment.status,
-          newState: 'SUCCESS',
+          newState: 'paid',
           changedBy: 'razorpay_webhook',
           metadata: { event: 'order.paid', orderId: orderEntity.id },
         });
       });
+
+      await this.invoiceAndPost(payment.id);
+    }
+  }
+
+  /**
+   * A payment link (instalment reminders, WhatsApp fallback) was paid. Link
+   * payments have no order of their own, so they are matched by link id.
+   */
+  private async handlePaymentLinkPaid(
+    linkEntity: NonNullable<RazorpayWebhookPayload['payload']['payment_link']>['entity'],
+    paymentEntity: NonNullable<RazorpayWebhookPayload['payload']['payment']>['entity'],
+  ) {
+    const payment = await this.prisma.payment.findFirst({
+      where: { razorpayPaymentLinkId: linkEntity.id },
+    });
+
+    if (!payment) {
+      throw new Error(`Payment not found for Razorpay payment link ${linkEntity.id}`);
+    }
+
+    if (payment.status !== 'paid') {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { razorpayPaymentId: paymentEntity.id, status: 'paid', paidAt: new Date() },
+        });
+
+        await this.stateChangeService.logStateChange({
+          paymentId: payment.id,
+          oldState: payment.status,
+          newState: 'paid',
+          changedBy: 'razorpay_webhook',
+          metadata: { event: 'payment_link.paid', paymentLinkId: linkEntity.id, razorpayPaymentId: paymentEntity.id },
+        });
+      });
     }
+
+    await this.invoiceAndPost(payment.id);
+    await this.instalments.recordPayment(payment.id);
+  }
+
+  /**
+   * Invoicing and ledger posting must never fail a captured payment; the
+   * daily sweeps retry.
+   */
+  private async invoiceAndPost(paymentId: string) {
+    await this.taxInvoices.issueForPayment(paymentId).catch((err) => {
+      logger.error({ err, paymentId }, 'Tax invoice issue failed');
+    });
+    await this.ledger.recordPaymentCaptured(paymentId).catch((err) => {
+      logger.error({ err, paymentId }, 'Ledger posting failed');
+    });
   }
 }
@@ -4,14 +4,17 @@
  * Story 4.7: Customer Payment History & Govt Fee Receipts
  */
 import { PrismaClient } from '@prisma/client';
-import PDFDocument from 'pdfkit';
 import { AppError } from '../../core/errors/app-error.js';
+import { DocumentSigningService } from '../../shared/signing/document-signing.service.js';
 
 export class ReceiptPdfService {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly signing = new DocumentSigningService(prisma),
+  ) {}
 
   /**
-   * Generates a payment receipt PDF as a Buffer.
+   * Generates a signed payment receipt PDF as a Buffer.
    * Story 4.7 AC3
    */
   async generateReceipt(paymentId: string): Promise<Buffer> {
@@ -23,41 +26,36 @@ export class ReceiptPdfService {
       throw new AppError('PAYMENT_NOT_FOUND', 'Payment not found', 404);
     }
 
-    return new Promise<Buffer>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      const doc = new PDFDocument({ margin: 50 });
+    const signed = await this.signing.renderSignedPdf(
+      { kind: 'payment_receipt', sourceId: payment.id, title: `Payment receipt ${payment.id}` },
+      (doc) => {
+        // Header
+        doc.fontSize(20).text('Property Legal Agent', { align: 'center' });
+        doc.fontSize(14).text('Payment Receipt', { align: 'center' });
+        doc.moveDown();
 
-      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
-      doc.on('end', () => resolve(Buffer.concat(chunks)));
-      doc.on('error', reject);
+        // Receipt details
+        doc.fontSize(10);
+        doc.text(`Receipt #: ${payment.id}`);
+        doc.text(`Date: ${payment.paidAt?.toLocaleDateString('en-IN') ?? payment.createdAt.toLocaleDateString('en-IN')}`);
+        doc.text(`Service Request ID: ${payment.serviceRequestId}`);
+        doc.moveDown();
 
-      // Header
-      doc.fontSize(20).text('Property Legal Agent', { align: 'center' });
-      doc.fontSize(14).text('Payment Receipt', { align: 'center' });
-      doc.moveDown();
+        // Payment amount
+        const amountRupees = payment.amountPaise / 100;
+        doc.fontSize(12).text(`Amount: INR ${amountRupees.toFixed(2)}`);
+        doc.text(`Payment Method: ${payment.paymentMethodType}`);
+        doc.text(`Status: ${payment.status}`);
 
-      // Receipt details
-      doc.fontSize(10);
-      doc.text(`Receipt #: ${payment.id}`);
-      doc.text(`Date: ${payment.paidAt?.toLocaleDateString('en-IN') ?? payment.createdAt.toLocaleDateString('en-IN')}`);
-      doc.text(`Service Request ID: ${payment.serviceRequestId}`);
-      doc.moveDown();
+        if (payment.razorpayPaymentId) {
+          doc.text(`Razorpay Payment ID: ${payment.razorpayPaymentId}`);
+        }
 
-      // Payment amount
-      const amountRupees = payment.amountPaise / 100;
-      doc.fontSize(12).text(`Amount: INR ${amountRupees.toFixed(2)}`);
-      doc.text(`Payment Method: ${payment.paymentMethodType}`);
-      doc.text(`Status: ${payment.status}`);
-
-      if (payment.razorpayPaymentId) {
-        doc.text(`Razorpay Payment ID: ${payment.razorpayPaymentId}`);
-      }
-
-      doc.moveDown(2);
-      doc.fontSize(8).text('This is a computer-generated receipt.', { align: 'center' });
-
-      doc.end();
-    });
+        doc.moveDown(2);
+        doc.fontSize(8).text('This is a computer-generated receipt.', { align: 'center' });
+      },
+    );
+    return signed.pdf;
   }
 
   /**
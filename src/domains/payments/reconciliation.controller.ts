@@ -1,13 +1,50 @@
 /**
- * Cash reconciliation controller.
+ * Reconciliation controller.
  *
  * Story 4.8: Cash Reconciliation Dashboard for Ops
+ * Razorpay settlement reports and the settlement discrepancy queue
  */
-import { Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
 import { ReconciliationService } from './reconciliation.service.js';
+import { SettlementReconciliationService } from './settlement-reconciliation.service.js';
+import { authorize } from '../../middleware/authorize';
+
+const importReportSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  csvData: z.string().min(1),
+  unsettledAfterDays: z.number().int().min(1).max(30).optional(),
+});
+
+const listDiscrepanciesSchema = z.object({
+  status: z.enum(['open', 'resolved']).default('open'),
+  type: z.enum(['missing_locally', 'amount_mismatch', 'unsettled']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const listReportsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const resolveDiscrepancySchema = z
+  .object({
+    action: z.enum(['link_payment', 'write_off', 'dismiss']),
+    paymentId: z.string().uuid().optional(),
+    note: z.string().min(1).max(2000),
+  })
+  .refine((body) => body.action !== 'link_payment' || body.paymentId, {
+    message: 'paymentId is required to link a payment',
+    path: ['paymentId'],
+  });
 
 export class ReconciliationController {
-  constructor(private readonly reconciliationService: ReconciliationService) {}
+  constructor(
+    private readonly reconciliationService: ReconciliationService,
+    private readonly settlementService: SettlementReconciliationService,
+  ) {}
 
   runReconciliation = async (req: Request, res: Response) => {
     const cityId = req.user!.cityId!;
@@ -29,4 +66,68 @@ export class ReconciliationController {
     );
     res.json({ success: true, data: logs });
   };
+
+  importSettlementReport = async (req: Request, res: Response) => {
+    const body = importReportSchema.parse(req.body);
+
+    const result = await this.settlementService.importReport({
+      fileName: body.fileName,
+      csv: body.csvData,
+      importedBy: req.user!.id,
+      unsettledAfterDays: body.unsettledAfterDays,
+    });
+    res.status(201).json({ success: true, data: result });
+  };
+
+  listSettlementReports = async (req: Request, res: Response) => {
+    const query = listReportsSchema.parse(req.query);
+
+    const result = await this.settlementService.listReports(query);
+    res.json({ success: true, data: result });
+  };
+
+  listDiscrepancies = async (req: Request, res: Response) => {
+    const filters = listDiscrepanciesSchema.parse(req.query);
+
+    const result = await this.settlementService.listDiscrepancies(filters);
+    res.json({ success: true, data: result });
+  };
+
+  resolveDiscrepancy = async (req: Request, res: Response) => {
+    const body = resolveDiscrepancySchema.parse(req.body);
+
+    const result = await this.settlementService.resolveDiscrepancy(req.params.id, body, req.user!.id);
+    res.json({ success: true, data: result });
+  };
+}
+
+// Helper for async route handlers
+const asyncHandler = (fn: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => fn(req, res).catch(next);
+
+export function createReconciliationController(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new ReconciliationController(
+    new ReconciliationService(prisma),
+    new SettlementReconciliationService(prisma),
+  );
+
+  // All endpoints require ops_manager or super_admin role
+  router.use(authorize('ops_manager', 'super_admin'));
+
+  // POST /api/v1/reconciliation/daily — Run cash reconciliation for the caller's city
+  router.post('/daily', asyncHandler(controller.runReconciliation));
+  // GET /api/v1/reconciliation/logs?startDate=&endDate=
+  router.get('/logs', asyncHandler(controller.getLogs));
+
+  // POST /api/v1/reconciliation/settlements/import — Razorpay settlement recon CSV as text
+  router.post('/settlements/import', asyncHandler(controller.importSettlementReport));
+  // GET /api/v1/reconciliation/settlements/reports
+  router.get('/settlements/reports', asyncHandler(controller.listSettlementReports));
+  // GET /api/v1/reconciliation/settlements/discrepancies — Discrepancy queue
+  router.get('/settlements/discrepancies', asyncHandler(controller.listDiscrepancies));
+  // POST /api/v1/reconciliation/settlements/discrepancies/:id/resolve
+  router.post('/settlements/discrepancies/:id/resolve', asyncHandler(controller.resolveDiscrepancy));
+
+  return router;
 }
@@ -10,7 +10,12 @@ export class ReconciliationService {
 
   /**
    * Runs daily reconciliation for a tenant.
-   * Compares collected cash receipts against expected amounts.
+   * Compares collected cash receipts against what was due that day on the
+   * city's cash-paid service requests collected that day: the instalments
+   * due by then for requests on an instalment plan, the full quoted fee
+   * otherwise, less cash already collected on earlier days. Receipts with
+   * no service request (standalone collections) have no expected amount and
+   * surface as excess.
    *
    * Story 4.8 AC1-AC3
    */
@@ -20,20 +25,52 @@ export class ReconciliationService {
     const endOfDay = new Date(date);
     endOfDay.setHours(23, 59, 59, 999);
 
-    // Get all successful payments for the day
-    // Note: Payment model has no tenantId/cityId field; filter by date and status only.
-    const payments = await this.prisma.payment.findMany({
+    // What customers owed, from the quote rather than from the receipts
+    const cashRequests = await this.prisma.serviceRequest.findMany({
       where: {
-        status: 'SUCCESS',
-        paidAt: { gte: startOfDay, lte: endOfDay },
+        cityId: tenantId,
+        paymentMethod: 'cash',
+        cashReceipts: { some: { createdAt: { gte: startOfDay, lte: endOfDay } } },
       },
+      select: { id: true, serviceInstanceId: true, serviceFeePaise: true, govtFeeEstimatePaise: true },
     });
 
-    // Payment.amountPaise is Int (number in TypeScript)
-    const totalPaymentsPaise: number = payments.reduce(
-      (sum: number, p: { amountPaise: number }) => sum + p.amountPaise,
-      0,
-    );
+    const [earlierReceipts, plans] = cashRequests.length
+      ? await Promise.all([
+          this.prisma.cashReceipt.findMany({
+            where: { serviceRequestId: { in: cashRequests.map((r) => r.id) }, createdAt: { lt: startOfDay } },
+            select: { serviceRequestId: true, amountPaise: true },
+          }),
+          this.prisma.instalmentPlan.findMany({
+            where: {
+              serviceInstanceId: { in: cashRequests.map((r) => r.serviceInstanceId) },
+              status: { not: 'cancelled' },
+            },
+            select: {
+              serviceInstanceId: true,
+              instalments: { select: { amountPaise: true, lateFeePaise: true, status: true, dueAt: true } },
+            },
+          }),
+        ])
+      : [[], []];
+
+    const collectedBefore = new Map<string, number>();
+    for (const r of earlierReceipts) {
+      const id = r.serviceRequestId!;
+      collectedBefore.set(id, (collectedBefore.get(id) ?? 0) + Number(r.amountPaise));
+    }
+    const planByInstance = new Map(plans.map((p) => [p.serviceInstanceId, p]));
+
+    // Stored as total_payments_paise: the cash expected from customers
+    const expectedCashPaise: number = cashRequests.reduce((sum, r) => {
+      const plan = planByInstance.get(r.serviceInstanceId);
+      const duePaise = plan
+        ? plan.instalments
+            .filter((i) => isDueBy(i, endOfDay))
+            .reduce((total, i) => total + Number(i.amountPaise + i.lateFeePaise), 0)
+        : (r.serviceFeePaise ?? 0) + (r.govtFeeEstimatePaise ?? 0);
+      return sum + Math.max(0, duePaise - (collectedBefore.get(r.id) ?? 0));
+    }, 0);
 
     // Get all cash receipts for the day
     const cashReceipts = await this.prisma.cashReceipt.findMany({
@@ -50,7 +87,7 @@ export class ReconciliationService {
       0,
     );
 
-    const discrepancyPaise: number = totalPaymentsPaise - totalCashReceiptsPaise;
+    const discrepancyPaise: number = expectedCashPaise - totalCashReceiptsPaise;
 
     const status =
       discrepancyPaise === 0
@@ -64,11 +101,11 @@ export class ReconciliationService {
       data: {
         cityId: tenantId,
         reconciliationDate: startOfDay,
-        totalPaymentsPaise,
+        totalPaymentsPaise: expectedCashPaise,
         totalCashReceiptsPaise,
         discrepancyPaise,
         status,
-        paymentCount: payments.length,
+        paymentCount: cashRequests.length,
         receiptCount: cashReceipts.length,
       },
     });
@@ -109,3 +146,12 @@ export class ReconciliationService {
     }));
   }
 }
+
+/**
+ * Instalments still owed by the end of the day. Paid ones were settled
+ * online and waived ones are not owed at all.
+ */
+function isDueBy(instalment: { status: string; dueAt: Date | null }, endOfDay: Date): boolean {
+  if (instalment.status === 'due' || instalment.status === 'overdue') return true;
+  return instalment.status === 'scheduled' && !!instalment.dueAt && instalment.dueAt <= endOfDay;
+}
@@ -13,6 +13,9 @@ import { PrismaClient, RefundStatus, RefundReason } from '@prisma/client';
 import { RazorpayClient } from '../../core/integrations/razorpay.client';
 import { BusinessError } from '../../shared/errors/business-error';
 import { nanoid } from 'nanoid';
+import { logger } from '../../shared/utils/logger';
+import { TaxInvoiceService } from './tax-invoice.service';
+import { LedgerService } from '../ledger/ledger.service';
 
 export interface InitiateRefundInput {
   paymentId: string;
@@ -32,10 +35,16 @@ export interface RefundResult {
 }
 
 export class RefundService {
+  private readonly taxInvoices: TaxInvoiceService;
+  private readonly ledger: LedgerService;
+
   constructor(
     private readonly prisma: PrismaClient,
     private readonly razorpay: RazorpayClient,
-  ) {}
+  ) {
+    this.taxInvoices = new TaxInvoiceService(prisma);
+    this.ledger = new LedgerService(prisma);
+  }
 
   /**
    * Initiates a refund request.
@@ -261,6 +270,10 @@ export class RefundService {
         },
       });
 
+      if (updatedRefund.status === RefundStatus.COMPLETED) {
+        await this.onRefundCompleted(updatedRefund.id);
+      }
+
       // Update payment status if fully refunded
       const totalRefunded = await this.getTotalRefundedAmount(payment.id);
       if (totalRefunded >= payment.amountPaise) {
@@ -319,6 +332,8 @@ export class RefundService {
 
     // Update payment status if fully refunded
     if (newStatus === RefundStatus.COMPLETED) {
+      await this.onRefundCompleted(refund.id);
+
       const payment = await this.prisma.payment.findUnique({
         where: { id: refund.paymentId },
       });
@@ -388,6 +403,19 @@ export class RefundService {
     };
   }
 
+  /**
+   * Issues the GST credit note and posts the refund to the ledger. Failures
+   * are logged, not thrown: the money has already moved.
+   */
+  private async onRefundCompleted(refundId: string): Promise<void> {
+    await this.taxInvoices.issueCreditNote(refundId).catch((err) => {
+      logger.error({ err, refundId }, 'Credit note issue failed');
+    });
+    await this.ledger.recordRefundCompleted(refundId).catch((err) => {
+      logger.error({ err, refundId }, 'Ledger posting failed');
+    });
+  }
+
   /**
    * Gets total refunded amount for a payment.
    */
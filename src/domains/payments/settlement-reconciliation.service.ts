@@ -0,0 +1,358 @@
+/**
+ * Razorpay settlement reconciliation
+ *
+ * Imports settlement recon reports, matches each line to our Payment and
+ * Refund rows by Razorpay id, and keeps a discrepancy queue for ops:
+ * - missing_locally: Razorpay settled something we have no record of
+ * - amount_mismatch: settled amount differs from ours
+ * - unsettled: a captured payment has not shown up in any settlement
+ */
+
+import { PrismaClient, SettlementDiscrepancy } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
+import { parseSettlementReport, SettlementReportRow } from './settlement-report.parser';
+
+// Razorpay settles domestic payments T+2 working days
+export const DEFAULT_UNSETTLED_AFTER_DAYS = 4;
+// Payments older than this predate the report history and are not flagged
+const UNSETTLED_LOOKBACK_DAYS = 30;
+
+export type DiscrepancyType = 'missing_locally' | 'amount_mismatch' | 'unsettled';
+export type DiscrepancyAction = 'link_payment' | 'write_off' | 'dismiss';
+
+const RESOLUTION_BY_ACTION: Record<DiscrepancyAction, string> = {
+  link_payment: 'linked_payment',
+  write_off: 'written_off',
+  dismiss: 'dismissed',
+};
+
+interface LineMatch {
+  matchStatus: 'matched' | 'missing_locally' | 'amount_mismatch' | 'not_applicable';
+  paymentId: string | null;
+  refundId: string | null;
+  expectedPaise: number | null;
+}
+
+export class SettlementReconciliationService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Imports a settlement recon CSV. The whole file is rejected if any row is
+   * invalid, so a report is never half-reconciled. Re-importing a report is
+   * safe: lines are unique per (type, entity, settlement).
+   */
+  async importReport(params: {
+    fileName: string;
+    csv: string;
+    importedBy: string;
+    unsettledAfterDays?: number;
+  }) {
+    const { rows, errors } = parseSettlementReport(params.csv);
+    if (errors.length > 0) {
+      throw new BusinessError('SETTLEMENT_REPORT_INVALID', 'Settlement report has invalid rows', 422, {
+        errors: errors.slice(0, 50),
+        errorCount: errors.length,
+      });
+    }
+
+    const report = await this.prisma.settlementReport.create({
+      data: { fileName: params.fileName, importedBy: params.importedBy },
+    });
+
+    const totals = { grossPaise: 0, refundsPaise: 0, adjustmentsPaise: 0, feesPaise: 0, taxPaise: 0 };
+    let matchedCount = 0;
+    let discrepancyCount = 0;
+
+    for (const row of rows) {
+      if (row.entityType === 'payment') totals.grossPaise += row.amountPaise;
+      else if (row.entityType === 'refund') totals.refundsPaise += row.amountPaise;
+      else totals.adjustmentsPaise += row.amountPaise;
+      totals.feesPaise += row.feePaise;
+      totals.taxPaise += row.taxPaise;
+
+      const match = await this.matchRow(row);
+      const line = await this.prisma.settlementLine.upsert({
+        where: {
+          entityType_entityId_settlementId: {
+            entityType: row.entityType,
+            entityId: row.entityId,
+            settlementId: row.settlementId,
+          },
+        },
+        update: {},
+        create: {
+          reportId: report.id,
+          settlementId: row.settlementId,
+          entityId: row.entityId,
+          entityType: row.entityType,
+          razorpayPaymentId: row.razorpayPaymentId ?? null,
+          amountPaise: row.amountPaise,
+          feePaise: row.feePaise,
+          taxPaise: row.taxPaise,
+          settlementUtr: row.settlementUtr ?? null,
+          settledAt: row.settledAt ?? null,
+          paymentId: match.paymentId,
+          refundId: match.refundId,
+          matchStatus: match.matchStatus,
+        },
+      });
+
+      if (match.matchStatus === 'matched') {
+        matchedCount++;
+      } else if (match.matchStatus === 'missing_locally' || match.matchStatus === 'amount_mismatch') {
+        discrepancyCount++;
+        await this.openDiscrepancy({
+          type: match.matchStatus,
+          entityType: row.entityType,
+          razorpayEntityId: row.entityId,
+          paymentId: match.paymentId,
+          refundId: match.refundId,
+          settlementLineId: line.id,
+          expectedPaise: match.expectedPaise,
+          settledPaise: row.amountPaise,
+        });
+      }
+    }
+
+    // Payments flagged as unsettled earlier may have settled in this report
+    const settledPaymentIds = rows.filter((r) => r.entityType === 'payment').map((r) => r.entityId);
+    if (settledPaymentIds.length > 0) {
+      await this.prisma.settlementDiscrepancy.updateMany({
+        where: { type: 'unsettled', status: 'open', razorpayEntityId: { in: settledPaymentIds } },
+        data: { status: 'resolved', resolution: 'settled', resolvedAt: new Date() },
+      });
+    }
+
+    const updated = await this.prisma.settlementReport.update({
+      where: { id: report.id },
+      data: {
+        lineCount: rows.length,
+        matchedCount,
+        discrepancyCount,
+        ...totals,
+        netPaise:
+          totals.grossPaise - totals.refundsPaise - totals.adjustmentsPaise - totals.feesPaise - totals.taxPaise,
+      },
+    });
+
+    const unsettledFlagged = await this.flagUnsettledPayments(
+      params.unsettledAfterDays ?? DEFAULT_UNSETTLED_AFTER_DAYS,
+    );
+
+    // Ledger failures must not fail the import; the daily sweep retries
+    const ledger = new LedgerService(this.prisma);
+    for (const settlementId of new Set(rows.map((r) => r.settlementId))) {
+      await ledger
+        .recordSettlement(settlementId)
+        .catch((err) => logger.error({ err, settlementId }, 'Ledger posting failed'));
+    }
+
+    return { report: updated, unsettledFlagged };
+  }
+
+  /**
+   * Flags captured gateway payments that no settlement line covers after
+   * `afterDays`. Wire transfers and cash never settle through Razorpay.
+   */
+  async flagUnsettledPayments(afterDays: number = DEFAULT_UNSETTLED_AFTER_DAYS): Promise<number> {
+    const cutoff = new Date(Date.now() - afterDays * 24 * 60 * 60 * 1000);
+    const lookback = new Date(cutoff.getTime() - UNSETTLED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        status: { in: ['paid', 'refunded'] },
+        razorpayPaymentId: { not: null },
+        paymentMethodType: { not: 'wire_transfer' },
+        paidAt: { gte: lookback, lt: cutoff },
+      },
+      select: { id: true, razorpayPaymentId: true, amountPaise: true },
+    });
+    if (payments.length === 0) return 0;
+
+    const settled = await this.prisma.settlementLine.findMany({
+      where: {
+        entityType: 'payment',
+        entityId: { in: payments.map((p) => p.razorpayPaymentId!) },
+      },
+      select: { entityId: true },
+    });
+    const settledIds = new Set(settled.map((s) => s.entityId));
+
+    const unsettled = payments.filter((p) => !settledIds.has(p.razorpayPaymentId!));
+    if (unsettled.length === 0) return 0;
+
+    const result = await this.prisma.settlementDiscrepancy.createMany({
+      data: unsettled.map((p) => ({
+        type: 'unsettled',
+        entityType: 'payment',
+        razorpayEntityId: p.razorpayPaymentId!,
+        paymentId: p.id,
+        expectedPaise: p.amountPaise,
+      })),
+      skipDuplicates: true,
+    });
+    return result.count;
+  }
+
+  async listDiscrepancies(filters: {
+    status?: 'open' | 'resolved';
+    type?: DiscrepancyType;
+    limit?: number;
+    offset?: number;
+  }) {
+    const { status = 'open', type, limit = 20, offset = 0 } = filters;
+    const where = { status, ...(type && { type }) };
+
+    const [discrepancies, total] = await Promise.all([
+      this.prisma.settlementDiscrepancy.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.settlementDiscrepancy.count({ where }),
+    ]);
+
+    return { discrepancies, total, limit, offset };
+  }
+
+  async listReports(options: { limit?: number; offset?: number }) {
+    const { limit = 20, offset = 0 } = options;
+    const [reports, total] = await Promise.all([
+      this.prisma.settlementReport.findMany({ orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      this.prisma.settlementReport.count(),
+    ]);
+    return { reports, total, limit, offset };
+  }
+
+  /**
+   * Resolves a discrepancy and records the action in PaymentAuditLog.
+   * - link_payment: the settled entity is ours under another record
+   * - write_off: accept the difference (e.g. gateway deduction)
+   * - dismiss: not a real discrepancy
+   */
+  async resolveDiscrepancy(
+    discrepancyId: string,
+    params: { action: DiscrepancyAction; note: string; paymentId?: string },
+    opsUserId: string,
+  ): Promise<SettlementDiscrepancy> {
+    const discrepancy = await this.prisma.settlementDiscrepancy.findUnique({ where: { id: discrepancyId } });
+    if (!discrepancy) {
+      throw new BusinessError('SETTLEMENT_DISCREPANCY_NOT_FOUND', 'Settlement discrepancy not found', 404);
+    }
+    if (discrepancy.status !== 'open') {
+      throw new BusinessError('SETTLEMENT_DISCREPANCY_RESOLVED', 'Discrepancy is already resolved', 409);
+    }
+
+    let paymentId = discrepancy.paymentId;
+    if (params.action === 'link_payment') {
+      if (!params.paymentId) {
+        throw new BusinessError('PAYMENT_ID_REQUIRED', 'paymentId is required to link a payment', 422);
+      }
+      const payment = await this.prisma.payment.findUnique({ where: { id: params.paymentId } });
+      if (!payment) {
+        throw new BusinessError('PAYMENT_NOT_FOUND', 'Payment not found', 404);
+      }
+      paymentId = payment.id;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (params.action === 'link_payment' && discrepancy.settlementLineId) {
+        await tx.settlementLine.update({
+          where: { id: discrepancy.settlementLineId },
+          data: { paymentId, matchStatus: 'matched' },
+        });
+      }
+
+      const resolved = await tx.settlementDiscrepancy.update({
+        where: { id: discrepancy.id },
+        data: {
+          status: 'resolved',
+          resolution: RESOLUTION_BY_ACTION[params.action],
+          resolutionNote: params.note,
+          resolvedBy: opsUserId,
+          resolvedAt: new Date(),
+          paymentId,
+        },
+      });
+
+      await tx.paymentAuditLog.create({
+        data: {
+          // Unmatched settlement lines have no local payment; keep Razorpay's id
+          paymentId: paymentId ?? discrepancy.razorpayEntityId,
+          action: 'settlement_discrepancy_resolved',
+          performedBy: opsUserId,
+          details: JSON.stringify({
+            discrepancyId: discrepancy.id,
+            type: discrepancy.type,
+            razorpayEntityId: discrepancy.razorpayEntityId,
+            resolution: RESOLUTION_BY_ACTION[params.action],
+            expectedPaise: discrepancy.expectedPaise,
+            settledPaise: discrepancy.settledPaise,
+            note: params.note,
+          }),
+        },
+      });
+
+      return resolved;
+    });
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private async matchRow(row: SettlementReportRow): Promise<LineMatch> {
+    if (row.entityType === 'payment') {
+      const payment = await this.prisma.payment.findFirst({
+        where: { razorpayPaymentId: row.entityId },
+        select: { id: true, amountPaise: true },
+      });
+      if (!payment) return { matchStatus: 'missing_locally', paymentId: null, refundId: null, expectedPaise: null };
+      return {
+        matchStatus: payment.amountPaise === row.amountPaise ? 'matched' : 'amount_mismatch',
+        paymentId: payment.id,
+        refundId: null,
+        expectedPaise: payment.amountPaise,
+      };
+    }
+
+    if (row.entityType === 'refund') {
+      const refund = await this.prisma.refund.findFirst({
+        where: { razorpayRefundId: row.entityId },
+        select: { id: true, paymentId: true, amountPaise: true },
+      });
+      if (!refund) return { matchStatus: 'missing_locally', paymentId: null, refundId: null, expectedPaise: null };
+      return {
+        matchStatus: refund.amountPaise === row.amountPaise ? 'matched' : 'amount_mismatch',
+        paymentId: refund.paymentId,
+        refundId: refund.id,
+        expectedPaise: refund.amountPaise,
+      };
+    }
+
+    // Disputes, adjustments and transfers are stored for the settlement
+    // totals but have nothing local to match yet
+    return { matchStatus: 'not_applicable', paymentId: null, refundId: null, expectedPaise: null };
+  }
+
+  private async openDiscrepancy(data: {
+    type: DiscrepancyType;
+    entityType: string;
+    razorpayEntityId: string;
+    paymentId: string | null;
+    refundId: string | null;
+    settlementLineId: string;
+    expectedPaise: number | null;
+    settledPaise: number;
+  }): Promise<void> {
+    await this.prisma.settlementDiscrepancy.upsert({
+      where: { type_razorpayEntityId: { type: data.type, razorpayEntityId: data.razorpayEntityId } },
+      // A resolved discrepancy stays resolved when the report is re-imported
+      update: {},
+      create: data,
+    });
+  }
+}
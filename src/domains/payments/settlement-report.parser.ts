@@ -0,0 +1,162 @@
+// ============================================================
+// Razorpay settlement recon report (CSV) parsing
+// ============================================================
+
+export type SettlementEntityType = 'payment' | 'refund' | 'dispute' | 'adjustment' | 'transfer';
+
+export interface SettlementReportRow {
+  entityId: string;
+  entityType: SettlementEntityType;
+  amountPaise: number;
+  feePaise: number;
+  taxPaise: number;
+  settlementId: string;
+  settlementUtr?: string;
+  settledAt?: Date;
+  // Payment the refund/dispute belongs to (payment rows carry their own id)
+  razorpayPaymentId?: string;
+}
+
+export interface SettlementRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface SettlementParseResult {
+  rows: SettlementReportRow[];
+  errors: SettlementRowError[];
+}
+
+const REQUIRED_COLUMNS = ['entity_id', 'type', 'amount', 'fee', 'tax', 'settlement_id'];
+const ENTITY_TYPES: SettlementEntityType[] = ['payment', 'refund', 'dispute', 'adjustment', 'transfer'];
+const MAX_ROWS = 20000;
+
+/**
+ * Splits one CSV line, honouring double-quoted fields (the notes column
+ * holds JSON with commas).
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Dashboard reports carry rupee amounts with two decimals.
+ */
+function rupeesToPaise(value: string): number | null {
+  if (value === '') return 0;
+  if (!/^-?\d+(\.\d{1,2})?$/.test(value)) return null;
+  return Math.round(Number(value) * 100);
+}
+
+/**
+ * Parses a Razorpay settlement recon CSV.
+ *
+ * Required columns: entity_id, type, amount, fee, tax, settlement_id
+ * Optional: settled_at (unix seconds or ISO), settlement_utr, payment_id
+ *
+ * Amounts are absolute; the entity type says which way they move.
+ */
+export function parseSettlementReport(csvString: string): SettlementParseResult {
+  const lines = csvString.trim().split(/\r?\n/);
+  if (lines.length < 2) {
+    return { rows: [], errors: [{ row: 0, field: 'file', message: 'Report is empty or has no data rows' }] };
+  }
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [{ row: 0, field: 'header', message: `Report is missing columns: ${missing.join(', ')}` }],
+    };
+  }
+
+  const dataLines = lines.slice(1).filter((line) => line.trim().length > 0);
+  if (dataLines.length > MAX_ROWS) {
+    return {
+      rows: [],
+      errors: [{ row: 0, field: 'file', message: `Maximum ${MAX_ROWS} rows per report. Please split the file.` }],
+    };
+  }
+
+  const col = (fields: string[], name: string) => {
+    const idx = header.indexOf(name);
+    return idx === -1 ? '' : (fields[idx] ?? '');
+  };
+
+  const rows: SettlementReportRow[] = [];
+  const errors: SettlementRowError[] = [];
+
+  dataLines.forEach((line, i) => {
+    const rowNum = i + 2; // 1-based, after the header
+    const fields = splitCsvLine(line);
+
+    const entityId = col(fields, 'entity_id');
+    const entityType = col(fields, 'type').toLowerCase() as SettlementEntityType;
+    const settlementId = col(fields, 'settlement_id');
+    const amountPaise = rupeesToPaise(col(fields, 'amount'));
+    const feePaise = rupeesToPaise(col(fields, 'fee'));
+    const taxPaise = rupeesToPaise(col(fields, 'tax'));
+
+    if (!entityId) errors.push({ row: rowNum, field: 'entity_id', message: 'entity_id is required' });
+    if (!ENTITY_TYPES.includes(entityType)) {
+      errors.push({ row: rowNum, field: 'type', message: `Unknown entity type: ${col(fields, 'type')}` });
+    }
+    if (!settlementId) errors.push({ row: rowNum, field: 'settlement_id', message: 'settlement_id is required' });
+    if (amountPaise === null) errors.push({ row: rowNum, field: 'amount', message: 'Invalid amount' });
+    if (feePaise === null) errors.push({ row: rowNum, field: 'fee', message: 'Invalid fee' });
+    if (taxPaise === null) errors.push({ row: rowNum, field: 'tax', message: 'Invalid tax' });
+
+    let settledAt: Date | undefined;
+    const settledAtRaw = col(fields, 'settled_at');
+    if (settledAtRaw) {
+      settledAt = /^\d+$/.test(settledAtRaw) ? new Date(Number(settledAtRaw) * 1000) : new Date(settledAtRaw);
+      if (Number.isNaN(settledAt.getTime())) {
+        errors.push({ row: rowNum, field: 'settled_at', message: 'Invalid settled_at' });
+      }
+    }
+
+    if (errors.some((e) => e.row === rowNum)) return;
+
+    const paymentIdColumn = col(fields, 'payment_id');
+    rows.push({
+      entityId,
+      entityType,
+      amountPaise: Math.abs(amountPaise!),
+      feePaise: Math.abs(feePaise!),
+      taxPaise: Math.abs(taxPaise!),
+      settlementId,
+      settlementUtr: col(fields, 'settlement_utr') || undefined,
+      settledAt,
+      razorpayPaymentId: entityType === 'payment' ? entityId : paymentIdColumn || undefined,
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,32 @@
+/**
+ * Tax invoice sweep pg-boss job.
+ * Issues GST invoices for payments paid in the last week that have none,
+ * e.g. because the city's GST registration was configured afterwards
+ * (tax-invoice.sweep, daily at 02:00 IST).
+ */
+import { PrismaClient } from '@prisma/client';
+import { TaxInvoiceService } from './tax-invoice.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export const TAX_INVOICE_SWEEP_QUEUE = 'tax-invoice.sweep';
+const TAX_INVOICE_SWEEP_SCHEDULE = '0 2 * * *';
+const SWEEP_LOOKBACK_DAYS = 7;
+
+export async function registerTaxInvoiceSweepJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const taxInvoiceService = new TaxInvoiceService(prisma);
+
+  await boss.createQueue(TAX_INVOICE_SWEEP_QUEUE);
+  await boss.work(TAX_INVOICE_SWEEP_QUEUE, async () => {
+    const since = new Date(Date.now() - SWEEP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const result = await taxInvoiceService.issueMissingInvoices(since);
+    if (result.issued || result.failed) {
+      logger.info(result, 'Tax invoice sweep completed');
+    }
+  });
+  await boss.schedule(TAX_INVOICE_SWEEP_QUEUE, TAX_INVOICE_SWEEP_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Tax Invoice Controller - GST invoices and credit notes
+ *
+ * Customers can read their own documents; ops can list, re-issue and
+ * export e-invoice JSON for their city.
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { TaxInvoiceService } from './tax-invoice.service';
+import { authorize } from '../../middleware/authorize';
+import { BusinessError } from '../../shared/errors/business-error';
+
+const OPS_ROLES = ['ops_manager', 'super_admin', 'support', 'franchise_owner'];
+
+const listInvoicesSchema = z.object({
+  customerId: z.string().uuid().optional(),
+  paymentId: z.string().uuid().optional(),
+  documentType: z.enum(['invoice', 'credit_note']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export function createTaxInvoiceController(prisma: PrismaClient): Router {
+  const router = Router();
+  const taxInvoiceService = new TaxInvoiceService(prisma);
+
+  // Customers only see their own documents; ops only their city's
+  async function loadVisibleInvoice(id: string, user: { id: string; role: string; cityId: string }) {
+    const invoice = await taxInvoiceService.getInvoice(id);
+    const isOps = OPS_ROLES.includes(user.role);
+    const visible = isOps
+      ? user.role === 'super_admin' || invoice.cityId === user.cityId
+      : invoice.customerId === user.id;
+    if (!visible) {
+      throw new BusinessError('TAX_INVOICE_NOT_FOUND', 'Tax invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  /**
+   * GET /api/v1/tax-invoices
+   * List invoices and credit notes. Customers get their own.
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const filters = listInvoicesSchema.parse(req.query);
+      const user = (req as any).user!;
+      const isOps = OPS_ROLES.includes(user.role);
+
+      const result = await taxInvoiceService.listInvoices({
+        ...filters,
+        customerId: isOps ? filters.customerId : user.id,
+        cityId: isOps && user.role !== 'super_admin' ? user.cityId : undefined,
+      });
+
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/tax-invoices/:id
+   */
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const invoice = await loadVisibleInvoice(req.params.id, (req as any).user!);
+      res.json({ success: true, data: invoice });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/tax-invoices/:id/pdf
+   */
+  router.get('/:id/pdf', async (req, res, next) => {
+    try {
+      const invoice = await loadVisibleInvoice(req.params.id, (req as any).user!);
+      const pdf = await taxInvoiceService.renderPdf(invoice.id);
+      const filename = `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/tax-invoices/:id/einvoice
+   * IRP e-invoice JSON for upload.
+   * Roles: ops_manager, super_admin, franchise_owner
+   */
+  router.get(
+    '/:id/einvoice',
+    authorize('ops_manager', 'super_admin', 'franchise_owner'),
+    async (req, res, next) => {
+      try {
+        const invoice = await loadVisibleInvoice(req.params.id, (req as any).user!);
+        const payload = await taxInvoiceService.toEInvoicePayload(invoice.id);
+        res.json({ success: true, data: payload });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/tax-invoices/payments/:paymentId
+   * Issue (or return) the invoice for a payment, e.g. after GST setup.
+   * Roles: ops_manager, super_admin
+   */
+  router.post(
+    '/payments/:paymentId',
+    authorize('ops_manager', 'super_admin'),
+    async (req, res, next) => {
+      try {
+        const paymentId = z.string().uuid().parse(req.params.paymentId);
+        const invoice = await taxInvoiceService.issueForPayment(paymentId);
+        res.status(201).json({ success: true, data: invoice });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
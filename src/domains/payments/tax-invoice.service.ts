@@ -0,0 +1,662 @@
+/**
+ * GST tax invoices and credit notes.
+ *
+ * Every paid payment (online, international UPI, wire transfer) and every
+ * agent cash receipt gets one tax invoice; every completed refund gets a
+ * credit note against that invoice. Numbers are gapless per franchise (or
+ * per state where the city has no franchise), document type and financial
+ * year. Invoices render to PDF and to the IRP e-invoice JSON schema (v1.1).
+ *
+ * Government fees collected with a payment are passed through to the
+ * department, so they appear as a separate non-taxable reimbursement and
+ * GST is charged only on the rest.
+ */
+import { Prisma, PrismaClient, RefundStatus, TaxInvoice } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error.js';
+import { DocumentSigningService } from '../../shared/signing/document-signing.service.js';
+import { GstRegistration } from '../franchise/franchise.types.js';
+import {
+  DEFAULT_GST_RATE,
+  GstBreakup,
+  SupplyType,
+  TaxDocumentType,
+  financialYear,
+  formatInvoiceNumber,
+  placeOfSupply,
+  sacCodeFor,
+  splitInclusiveAmount,
+  stateCodeFor,
+  stateCodeFromGstin,
+} from './gst.calculator.js';
+
+interface SupplierContext {
+  cityId: string;
+  franchiseId: string | null;
+  seriesKey: string;
+  registration: GstRegistration;
+  stateCode: string;
+  gstRate: number;
+}
+
+interface BuyerContext {
+  customerId: string | null;
+  builderId: string | null;
+  name: string;
+  gstin: string | null;
+}
+
+interface ServiceContext {
+  cityId: string;
+  category: string | null;
+  name: string;
+  serviceRequestId: string | null;
+  govtFeeEstimatePaise: number | null;
+}
+
+export class TaxInvoiceService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly signing = new DocumentSigningService(prisma),
+  ) {}
+
+  /**
+   * Issues the tax invoice for a paid payment. Idempotent per payment.
+   */
+  async issueForPayment(paymentId: string): Promise<TaxInvoice> {
+    const existing = await this.findPaymentInvoice(paymentId);
+    if (existing) return existing;
+
+    const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+    if (!payment) {
+      throw new BusinessError('PAYMENT_NOT_FOUND', 'Payment not found', 404);
+    }
+    if (payment.status !== 'paid' && payment.status !== 'refunded') {
+      throw new BusinessError('PAYMENT_NOT_PAID', 'Only paid payments can be invoiced', 422);
+    }
+
+    const service = await this.resolveService(payment.serviceRequestId);
+    const cityId = service?.cityId ?? (await this.customerCityId(payment.customerId));
+    if (!cityId) {
+      throw new BusinessError('INVOICE_CITY_UNKNOWN', 'Could not determine the city for this payment', 422);
+    }
+
+    const supplier = await this.resolveSupplier(cityId);
+    const buyer = await this.resolveBuyer(payment.customerId);
+    const source = ['international_upi', 'wire_transfer'].includes(payment.paymentMethodType)
+      ? payment.paymentMethodType
+      : 'razorpay';
+
+    // Services paid from abroad by NRIs are exports (zero-rated under LUT)
+    const supplyType: SupplyType = buyer.gstin
+      ? 'B2B'
+      : payment.isNriPayment && source !== 'razorpay'
+        ? 'EXPWOP'
+        : 'B2C';
+
+    try {
+      return await this.issue({
+        documentType: 'invoice',
+        source,
+        supplier,
+        buyer,
+        supplyType,
+        sacCode: sacCodeFor(service?.category),
+        description: service?.name ?? 'Property legal services',
+        totalPaise: payment.amountPaise,
+        govtFeePaise: await this.uninvoicedGovtFee(service, payment.amountPaise),
+        issuedAt: payment.paidAt ?? new Date(),
+        links: { paymentId: payment.id, serviceRequestId: service?.serviceRequestId ?? null },
+        foreignCurrencyCode: supplyType === 'EXPWOP' ? payment.foreignCurrencyCode : null,
+      });
+    } catch (error: any) {
+      // Concurrent issue for the same payment lost the unique-index race
+      if (error?.code === 'P2002') {
+        const raced = await this.findPaymentInvoice(paymentId);
+        if (raced) return raced;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issues the tax invoice for an agent cash receipt. Idempotent per receipt.
+   */
+  async issueForCashReceipt(cashReceiptId: string): Promise<TaxInvoice> {
+    const existing = await this.prisma.taxInvoice.findUnique({ where: { cashReceiptId } });
+    if (existing) return existing;
+
+    const receipt = await this.prisma.cashReceipt.findUnique({
+      where: { id: cashReceiptId },
+      include: {
+        serviceRequest: {
+          select: {
+            id: true,
+            customerId: true,
+            govtFeeEstimatePaise: true,
+            serviceInstance: { select: { serviceDefinition: { select: { category: true } } } },
+          },
+        },
+      },
+    });
+    if (!receipt) {
+      throw new BusinessError('CASH_RECEIPT_NOT_FOUND', 'Cash receipt not found', 404);
+    }
+
+    const supplier = await this.resolveSupplier(receipt.cityId);
+    const buyer = receipt.serviceRequest
+      ? await this.resolveBuyer(receipt.serviceRequest.customerId)
+      : { customerId: null, builderId: null, name: receipt.customerName, gstin: null };
+
+    return this.issue({
+      documentType: 'invoice',
+      source: 'cash',
+      supplier,
+      buyer: { ...buyer, name: buyer.gstin ? buyer.name : receipt.customerName },
+      supplyType: buyer.gstin ? 'B2B' : 'B2C',
+      sacCode: sacCodeFor(receipt.serviceRequest?.serviceInstance.serviceDefinition.category),
+      description: receipt.serviceName,
+      totalPaise: Number(receipt.amountPaise),
+      govtFeePaise: await this.uninvoicedGovtFee(
+        receipt.serviceRequest && {
+          serviceRequestId: receipt.serviceRequest.id,
+          govtFeeEstimatePaise: receipt.serviceRequest.govtFeeEstimatePaise,
+        },
+        Number(receipt.amountPaise),
+      ),
+      issuedAt: receipt.clientTimestamp,
+      links: { cashReceiptId: receipt.id, serviceRequestId: receipt.serviceRequestId },
+      foreignCurrencyCode: null,
+    });
+  }
+
+  /**
+   * Issues a credit note for a completed refund against the original
+   * payment's invoice, at the same rate and with the same tax treatment.
+   */
+  async issueCreditNote(refundId: string): Promise<TaxInvoice> {
+    const existing = await this.prisma.taxInvoice.findUnique({ where: { refundId } });
+    if (existing) return existing;
+
+    const refund = await this.prisma.refund.findUnique({ where: { id: refundId } });
+    if (!refund) {
+      throw new BusinessError('REFUND_NOT_FOUND', 'Refund not found', 404);
+    }
+    if (refund.status !== RefundStatus.COMPLETED) {
+      throw new BusinessError('REFUND_NOT_COMPLETED', 'Credit notes are issued only for completed refunds', 422);
+    }
+
+    const original = await this.issueForPayment(refund.paymentId);
+    const series = await this.prisma.taxInvoiceSeries.findUniqueOrThrow({ where: { id: original.seriesId } });
+
+    // Refunds give back the reimbursement and the taxable part pro rata
+    const govtFeePaise = original.totalPaise
+      ? Math.round((refund.amountPaise * original.govtFeePaise) / original.totalPaise)
+      : 0;
+    const breakup = splitInclusiveAmount({
+      totalPaise: refund.amountPaise - govtFeePaise,
+      ratePercent: Number(original.gstRate),
+      supplierStateCode: original.supplierStateCode,
+      placeOfSupply: original.placeOfSupply,
+      zeroRated: original.supplyType === 'EXPWOP',
+    });
+
+    return this.allocateAndCreate(series.seriesKey, series.prefix, 'credit_note', refund.processedAt ?? new Date(), {
+      source: 'refund',
+      refundId: refund.id,
+      paymentId: refund.paymentId,
+      originalInvoiceId: original.id,
+      serviceRequestId: original.serviceRequestId,
+      franchiseId: original.franchiseId,
+      cityId: original.cityId,
+      customerId: original.customerId,
+      builderId: original.builderId,
+      supplyType: original.supplyType,
+      supplierGstin: original.supplierGstin,
+      supplierLegalName: original.supplierLegalName,
+      supplierAddress: original.supplierAddress,
+      supplierStateCode: original.supplierStateCode,
+      buyerName: original.buyerName,
+      buyerGstin: original.buyerGstin,
+      buyerStateCode: original.buyerStateCode,
+      placeOfSupply: original.placeOfSupply,
+      sacCode: original.sacCode,
+      description: `Refund against ${original.invoiceNumber}`,
+      gstRate: original.gstRate,
+      foreignCurrencyCode: original.foreignCurrencyCode,
+      lutNumber: original.lutNumber,
+      ...breakup,
+      govtFeePaise,
+      totalPaise: refund.amountPaise,
+    });
+  }
+
+  /**
+   * Issues invoices for paid payments that have none yet (e.g. when the
+   * inline issue failed because the city had no GST registration).
+   */
+  async issueMissingInvoices(since: Date): Promise<{ issued: number; failed: number }> {
+    const payments = await this.prisma.payment.findMany({
+      where: { status: 'paid', paidAt: { gte: since } },
+      select: { id: true },
+    });
+    const invoiced = await this.prisma.taxInvoice.findMany({
+      where: { documentType: 'invoice', paymentId: { in: payments.map((p) => p.id) } },
+      select: { paymentId: true },
+    });
+    const done = new Set(invoiced.map((i) => i.paymentId));
+
+    let issued = 0;
+    let failed = 0;
+    for (const payment of payments.filter((p) => !done.has(p.id))) {
+      try {
+        await this.issueForPayment(payment.id);
+        issued++;
+      } catch {
+        failed++;
+      }
+    }
+    return { issued, failed };
+  }
+
+  async getInvoice(invoiceId: string): Promise<TaxInvoice> {
+    const invoice = await this.prisma.taxInvoice.findUnique({ where: { id: invoiceId } });
+    if (!invoice) {
+      throw new BusinessError('TAX_INVOICE_NOT_FOUND', 'Tax invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  async listInvoices(options: {
+    cityId?: string;
+    customerId?: string;
+    paymentId?: string;
+    documentType?: TaxDocumentType;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }) {
+    const { limit = 20, offset = 0 } = options;
+    const where: Prisma.TaxInvoiceWhereInput = {
+      ...(options.cityId && { cityId: options.cityId }),
+      ...(options.customerId && { customerId: options.customerId }),
+      ...(options.paymentId && { paymentId: options.paymentId }),
+      ...(options.documentType && { documentType: options.documentType }),
+      ...((options.from || options.to) && {
+        issuedAt: {
+          ...(options.from && { gte: options.from }),
+          ...(options.to && { lte: options.to }),
+        },
+      }),
+    };
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.taxInvoice.findMany({ where, orderBy: { issuedAt: 'desc' }, take: limit, skip: offset }),
+      this.prisma.taxInvoice.count({ where }),
+    ]);
+
+    return { invoices, total, limit, offset };
+  }
+
+  /**
+   * Renders the invoice or credit note as a signed PDF.
+   */
+  async renderPdf(invoiceId: string): Promise<Buffer> {
+    const invoice = await this.getInvoice(invoiceId);
+    const original = invoice.originalInvoiceId
+      ? await this.prisma.taxInvoice.findUnique({ where: { id: invoice.originalInvoiceId } })
+      : null;
+    const rupees = (paise: number) => `INR ${(paise / 100).toFixed(2)}`;
+
+    const signed = await this.signing.renderSignedPdf(
+      {
+        kind: invoice.documentType === 'invoice' ? 'tax_invoice' : 'credit_note',
+        sourceId: invoice.id,
+        cityId: invoice.cityId,
+        title: `${invoice.documentType === 'invoice' ? 'Tax Invoice' : 'Credit Note'} ${invoice.invoiceNumber}`,
+      },
+      (doc) => {
+        // Header
+        doc.fontSize(16).text(invoice.supplierLegalName, { align: 'center' });
+        doc.fontSize(9).text(invoice.supplierAddress, { align: 'center' });
+        doc.text(`GSTIN: ${invoice.supplierGstin}`, { align: 'center' });
+        doc.moveDown();
+        doc.fontSize(14).text(invoice.documentType === 'invoice' ? 'Tax Invoice' : 'Credit Note', { align: 'center' });
+        if (invoice.supplyType === 'EXPWOP') {
+          doc.fontSize(9).text(
+            `Supply meant for export under LUT${invoice.lutNumber ? ` ${invoice.lutNumber}` : ''} without payment of IGST`,
+            { align: 'center' },
+          );
+        }
+        doc.moveDown();
+
+        // Document details
+        doc.fontSize(10);
+        doc.text(`Number: ${invoice.invoiceNumber}`);
+        doc.text(`Date: ${invoice.issuedAt.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' })}`);
+        if (original) {
+          doc.text(`Against invoice: ${original.invoiceNumber} dated ${original.issuedAt.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' })}`);
+        }
+        doc.text(`Place of supply: ${invoice.placeOfSupply === '96' ? 'Outside India (96)' : invoice.placeOfSupply}`);
+        doc.moveDown();
+
+        // Buyer
+        doc.text(`Billed to: ${invoice.buyerName}`);
+        if (invoice.buyerGstin) doc.text(`GSTIN: ${invoice.buyerGstin}`);
+        doc.moveDown();
+
+        // Line item and tax
+        doc.text(`${invoice.description} (SAC ${invoice.sacCode})`);
+        doc.text(`Taxable value: ${rupees(invoice.taxableValuePaise)}`);
+        const rate = Number(invoice.gstRate);
+        if (invoice.cgstPaise || invoice.sgstPaise) {
+          doc.text(`CGST @ ${rate / 2}%: ${rupees(invoice.cgstPaise)}`);
+          doc.text(`SGST @ ${rate / 2}%: ${rupees(invoice.sgstPaise)}`);
+        } else if (invoice.igstPaise) {
+          doc.text(`IGST @ ${rate}%: ${rupees(invoice.igstPaise)}`);
+        } else {
+          doc.text('IGST @ 0%: INR 0.00');
+        }
+        if (invoice.govtFeePaise) {
+          doc.text(`Government fees (reimbursement, not taxable): ${rupees(invoice.govtFeePaise)}`);
+        }
+        doc.fontSize(12).text(`Total: ${rupees(invoice.totalPaise)}`);
+
+        doc.moveDown(2);
+        doc.fontSize(8).text('This is a computer-generated document and does not require a signature.', { align: 'center' });
+      },
+    );
+    return signed.pdf;
+  }
+
+  /**
+   * Builds the IRP e-invoice JSON (schema v1.1) for upload. Amounts are in
+   * rupees with two decimals, as the schema requires.
+   */
+  async toEInvoicePayload(invoiceId: string) {
+    const invoice = await this.getInvoice(invoiceId);
+    const original = invoice.originalInvoiceId
+      ? await this.prisma.taxInvoice.findUnique({ where: { id: invoice.originalInvoiceId } })
+      : null;
+
+    const rupees = (paise: number) => Math.round(paise) / 100;
+    const date = (d: Date) =>
+      d.toLocaleDateString('en-GB', { timeZone: 'Asia/Kolkata', day: '2-digit', month: '2-digit', year: 'numeric' });
+    const supplierPincode = invoice.supplierAddress.match(/\b\d{6}\b/)?.[0];
+
+    return {
+      Version: '1.1',
+      TranDtls: {
+        TaxSch: 'GST',
+        SupTyp: invoice.supplyType,
+        RegRev: 'N',
+        IgstOnIntra: 'N',
+      },
+      DocDtls: {
+        Typ: invoice.documentType === 'invoice' ? 'INV' : 'CRN',
+        No: invoice.invoiceNumber,
+        Dt: date(invoice.issuedAt),
+      },
+      SellerDtls: {
+        Gstin: invoice.supplierGstin,
+        LglNm: invoice.supplierLegalName,
+        Addr1: invoice.supplierAddress.slice(0, 100),
+        Loc: invoice.supplierAddress.split(',').slice(-2, -1)[0]?.trim() || invoice.supplierAddress.slice(0, 50),
+        Pin: supplierPincode ? Number(supplierPincode) : undefined,
+        Stcd: invoice.supplierStateCode,
+      },
+      BuyerDtls: {
+        // Unregistered recipients are reported as URP
+        Gstin: invoice.buyerGstin ?? 'URP',
+        LglNm: invoice.buyerName,
+        Pos: invoice.placeOfSupply,
+        Stcd: invoice.buyerStateCode ?? invoice.placeOfSupply,
+      },
+      ItemList: [
+        {
+          SlNo: '1',
+          PrdDesc: invoice.description,
+          IsServc: 'Y',
+          HsnCd: invoice.sacCode,
+          Qty: 1,
+          Unit: 'OTH',
+          UnitPrice: rupees(invoice.taxableValuePaise),
+          TotAmt: rupees(invoice.taxableValuePaise),
+          AssAmt: rupees(invoice.taxableValuePaise),
+          GstRt: Number(invoice.gstRate),
+          IgstAmt: rupees(invoice.igstPaise),
+          CgstAmt: rupees(invoice.cgstPaise),
+          SgstAmt: rupees(invoice.sgstPaise),
+          TotItemVal: rupees(invoice.totalPaise - invoice.govtFeePaise),
+        },
+      ],
+      ValDtls: {
+        AssVal: rupees(invoice.taxableValuePaise),
+        CgstVal: rupees(invoice.cgstPaise),
+        SgstVal: rupees(invoice.sgstPaise),
+        IgstVal: rupees(invoice.igstPaise),
+        // Government fee reimbursement
+        OthChrg: rupees(invoice.govtFeePaise),
+        TotInvVal: rupees(invoice.totalPaise),
+      },
+      ...(original && {
+        RefDtls: {
+          PrecDocDtls: [{ InvNo: original.invoiceNumber, InvDt: date(original.issuedAt) }],
+        },
+      }),
+      ...(invoice.supplyType === 'EXPWOP' && {
+        ExpDtls: invoice.foreignCurrencyCode ? { ForCur: invoice.foreignCurrencyCode } : {},
+      }),
+    };
+  }
+
+  private async issue(params: {
+    documentType: TaxDocumentType;
+    source: string;
+    supplier: SupplierContext;
+    buyer: BuyerContext;
+    supplyType: SupplyType;
+    sacCode: string;
+    description: string;
+    totalPaise: number;
+    govtFeePaise: number;
+    issuedAt: Date;
+    links: { paymentId?: string; cashReceiptId?: string; serviceRequestId: string | null };
+    foreignCurrencyCode: string | null;
+  }): Promise<TaxInvoice> {
+    const { supplier, buyer, supplyType } = params;
+    const pos = placeOfSupply({ supplyType, serviceStateCode: supplier.stateCode, buyerGstin: buyer.gstin });
+    const breakup: GstBreakup = splitInclusiveAmount({
+      totalPaise: params.totalPaise - params.govtFeePaise,
+      ratePercent: supplier.gstRate,
+      supplierStateCode: supplier.stateCode,
+      placeOfSupply: pos,
+      zeroRated: supplyType === 'EXPWOP',
+    });
+
+    return this.allocateAndCreate(
+      supplier.seriesKey,
+      supplier.registration.invoicePrefix,
+      params.documentType,
+      params.issuedAt,
+      {
+        source: params.source,
+        ...params.links,
+        franchiseId: supplier.franchiseId,
+        cityId: supplier.cityId,
+        customerId: buyer.customerId,
+        builderId: buyer.builderId,
+        supplyType,
+        supplierGstin: supplier.registration.gstin,
+        supplierLegalName: supplier.registration.legalName,
+        supplierAddress: `${supplier.registration.address} - ${supplier.registration.pincode}`,
+        supplierStateCode: supplier.stateCode,
+        buyerName: buyer.name,
+        buyerGstin: buyer.gstin,
+        buyerStateCode: buyer.gstin ? stateCodeFromGstin(buyer.gstin) : supplyType === 'EXPWOP' ? '96' : supplier.stateCode,
+        placeOfSupply: pos,
+        sacCode: params.sacCode,
+        description: params.description,
+        gstRate: new Prisma.Decimal(supplyType === 'EXPWOP' ? 0 : supplier.gstRate),
+        foreignCurrencyCode: params.foreignCurrencyCode,
+        lutNumber: supplyType === 'EXPWOP' ? supplier.registration.lutNumber ?? null : null,
+        ...breakup,
+        govtFeePaise: params.govtFeePaise,
+        totalPaise: params.totalPaise,
+      },
+    );
+  }
+
+  /**
+   * Takes the next number in the series and creates the document in one
+   * transaction: the series row lock serialises concurrent issuers and a
+   * failed insert rolls the counter back, so numbers never skip.
+   */
+  private async allocateAndCreate(
+    seriesKey: string,
+    prefix: string,
+    documentType: TaxDocumentType,
+    issuedAt: Date,
+    data: Omit<Prisma.TaxInvoiceUncheckedCreateInput, 'documentType' | 'invoiceNumber' | 'seriesId' | 'sequence' | 'issuedAt'>,
+  ): Promise<TaxInvoice> {
+    const fy = financialYear(issuedAt);
+
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.taxInvoiceSeries.upsert({
+        where: { seriesKey_documentType_financialYear: { seriesKey, documentType, financialYear: fy } },
+        update: {},
+        create: { seriesKey, documentType, financialYear: fy, prefix },
+      });
+      const series = await tx.taxInvoiceSeries.update({
+        where: { id: created.id },
+        data: { lastNumber: { increment: 1 } },
+      });
+
+      return tx.taxInvoice.create({
+        data: {
+          ...data,
+          documentType,
+          seriesId: series.id,
+          sequence: series.lastNumber,
+          invoiceNumber: formatInvoiceNumber(series.prefix, documentType, fy, series.lastNumber),
+          issuedAt,
+        },
+      });
+    });
+  }
+
+  private findPaymentInvoice(paymentId: string) {
+    return this.prisma.taxInvoice.findFirst({ where: { paymentId, documentType: 'invoice' } });
+  }
+
+  private async resolveSupplier(cityId: string): Promise<SupplierContext> {
+    const city = await this.prisma.city.findUnique({
+      where: { id: cityId },
+      include: { franchises: { where: { isActive: true }, select: { id: true } } },
+    });
+    if (!city) {
+      throw new BusinessError('CITY_NOT_FOUND', 'City not found', 404);
+    }
+
+    const registration = (city.configData as { gstRegistration?: GstRegistration } | null)?.gstRegistration;
+    if (!registration) {
+      throw new BusinessError('GST_NOT_CONFIGURED', `No GST registration configured for ${city.cityName}`, 422);
+    }
+
+    const stateCode = stateCodeFromGstin(registration.gstin);
+    if (stateCodeFor(city.state) && stateCodeFor(city.state) !== stateCode) {
+      throw new BusinessError(
+        'GSTIN_STATE_MISMATCH',
+        `GSTIN ${registration.gstin} is not registered in ${city.state}`,
+        422,
+      );
+    }
+
+    const franchiseId = city.franchises[0]?.id ?? null;
+    return {
+      cityId: city.id,
+      franchiseId,
+      seriesKey: franchiseId ? `franchise:${franchiseId}` : `state:${stateCode}`,
+      registration,
+      stateCode,
+      gstRate: registration.gstRate ?? DEFAULT_GST_RATE,
+    };
+  }
+
+  private async resolveBuyer(customerId: string): Promise<BuyerContext> {
+    const [user, builder] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: customerId }, select: { displayName: true, phone: true } }),
+      this.prisma.builder.findUnique({
+        where: { userId: customerId },
+        select: { id: true, companyName: true, gstNumber: true },
+      }),
+    ]);
+
+    if (builder) {
+      return { customerId, builderId: builder.id, name: builder.companyName, gstin: builder.gstNumber };
+    }
+    return { customerId, builderId: null, name: user?.displayName ?? user?.phone ?? 'Customer', gstin: null };
+  }
+
+  /**
+   * Payment.serviceRequestId holds a service instance id for orders created
+   * from the customer app and a service request id for agent-created ones.
+   */
+  private async resolveService(id: string): Promise<ServiceContext | null> {
+    const instanceSelect = {
+      cityId: true,
+      serviceDefinition: { select: { category: true, name: true } },
+    } as const;
+    const requestSelect = { id: true, govtFeeEstimatePaise: true } as const;
+
+    let instance = await this.prisma.serviceInstance.findUnique({ where: { id }, select: instanceSelect });
+    let request = instance
+      ? await this.prisma.serviceRequest.findFirst({
+          where: { serviceInstanceId: id },
+          orderBy: { createdAt: 'desc' },
+          select: requestSelect,
+        })
+      : null;
+    if (!instance) {
+      const byRequest = await this.prisma.serviceRequest.findUnique({
+        where: { id },
+        select: { ...requestSelect, serviceInstance: { select: instanceSelect } },
+      });
+      instance = byRequest?.serviceInstance ?? null;
+      request = byRequest;
+    }
+
+    if (!instance) return null;
+    return {
+      cityId: instance.cityId,
+      category: instance.serviceDefinition.category,
+      name: instance.serviceDefinition.name,
+      serviceRequestId: request?.id ?? null,
+      govtFeeEstimatePaise: request?.govtFeeEstimatePaise ?? null,
+    };
+  }
+
+  /**
+   * Government fees are collected first (see payment-structure.calculator),
+   * so a payment covers whatever part of the estimate earlier invoices for
+   * the request have not already shown as a reimbursement.
+   */
+  private async uninvoicedGovtFee(
+    context: { serviceRequestId: string | null; govtFeeEstimatePaise: number | null } | null,
+    amountPaise: number,
+  ): Promise<number> {
+    if (!context?.serviceRequestId || !context.govtFeeEstimatePaise) return 0;
+
+    const invoiced = await this.prisma.taxInvoice.aggregate({
+      where: { serviceRequestId: context.serviceRequestId, documentType: 'invoice' },
+      _sum: { govtFeePaise: true },
+    });
+    const remaining = context.govtFeeEstimatePaise - (invoiced._sum.govtFeePaise ?? 0);
+    return Math.min(amountPaise, Math.max(0, remaining));
+  }
+
+  private async customerCityId(customerId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({ where: { id: customerId }, select: { cityId: true } });
+    return user?.cityId ?? null;
+  }
+}
@@ -8,6 +8,7 @@ const initiateSchema = z.object({
   amountPaise: z.number().int().positive(),
   foreignCurrencyCode: z.string().length(3).optional(),
   foreignAmount: z.number().int().optional(),
+  fxLockId: z.string().uuid().optional(),
 });
 
 const reconcileSchema = z.object({
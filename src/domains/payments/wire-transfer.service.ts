@@ -1,9 +1,21 @@
 // Story 13-2: Wire Transfer Tracking & Reconciliation
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import { logger } from '../../shared/utils/logger';
+import { TaxInvoiceService } from './tax-invoice.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { ExchangeRateService } from './exchange-rate.service';
+import { classifyWireVariance, DEFAULT_FX_SETTINGS, FxQuoteService } from './fx-quote.service';
+
+// Wires still waiting on money: not yet received, or received short and awaiting a top-up
+export const OPEN_WIRE_STATUSES = ['pending', 'short_paid'];
 
 export class WireTransferService {
-  constructor(private prisma: PrismaClient) {}
+  private fxQuotes: FxQuoteService;
+
+  constructor(private prisma: PrismaClient) {
+    this.fxQuotes = new FxQuoteService(prisma, new ExchangeRateService(prisma));
+  }
 
   private generateReferenceCode(serviceRequestId: string): string {
     const shortId = serviceRequestId.slice(0, 8);
@@ -17,46 +29,59 @@ export class WireTransferService {
     amountPaise: number;
     foreignCurrencyCode?: string;
     foreignAmount?: number;
+    fxLockId?: string;
   }) {
+    const lock = params.fxLockId
+      ? await this.fxQuotes.validateLock({ ...params, lockId: params.fxLockId })
+      : null;
+    const foreignCurrencyCode = lock?.currency ?? params.foreignCurrencyCode ?? null;
+    const foreignAmount = lock?.foreignAmountMinor ?? params.foreignAmount ?? null;
+
     const referenceCode = this.generateReferenceCode(params.serviceRequestId);
     const slaDeadline = new Date();
     slaDeadline.setDate(slaDeadline.getDate() + 7);
 
-    // Create payment record with wire_transfer type
-    const payment = await this.prisma.payment.create({
-      data: {
-        id: crypto.randomUUID(),
-        serviceRequestId: params.serviceRequestId,
-        customerId: params.customerId,
-        amountPaise: params.amountPaise,
-        status: 'pending_wire_transfer',
-        paymentMethodType: 'wire_transfer',
-        isNriPayment: true,
-        foreignCurrencyCode: params.foreignCurrencyCode || null,
-        foreignCurrencyAmount: params.foreignAmount || null,
-      },
-    });
+    const wireTransfer = await this.prisma.$transaction(async (tx) => {
+      // Create payment record with wire_transfer type
+      const payment = await tx.payment.create({
+        data: {
+          id: crypto.randomUUID(),
+          serviceRequestId: params.serviceRequestId,
+          customerId: params.customerId,
+          amountPaise: params.amountPaise,
+          status: 'pending_wire_transfer',
+          paymentMethodType: 'wire_transfer',
+          isNriPayment: true,
+          foreignCurrencyCode,
+          foreignCurrencyAmount: foreignAmount,
+          exchangeRate: lock?.lockedRate ?? null,
+        },
+      });
+      if (lock) {
+        await this.fxQuotes.consumeLock({ ...params, lockId: lock.id, paymentId: payment.id }, tx);
+      }
 
-    // Create wire transfer record
-    const wireTransfer = await this.prisma.wireTransfer.create({
-      data: {
-        id: crypto.randomUUID(),
-        paymentId: payment.id,
-        serviceRequestId: params.serviceRequestId,
-        customerId: params.customerId,
-        referenceCode,
-        amountPaise: params.amountPaise,
-        foreignCurrencyCode: params.foreignCurrencyCode || null,
-        foreignAmount: params.foreignAmount || null,
-        accountNumber: (() => {
-          const acct = process.env.WIRE_TRANSFER_ACCOUNT_NUMBER;
-          if (!acct || acct === 'TBD') {
-            throw new Error('WIRE_TRANSFER_ACCOUNT_NUMBER env var must be set before initiating wire transfers');
-          }
-          return acct;
-        })(),
-        slaDeadline,
-      },
+      // Create wire transfer record
+      return tx.wireTransfer.create({
+        data: {
+          id: crypto.randomUUID(),
+          paymentId: payment.id,
+          serviceRequestId: params.serviceRequestId,
+          customerId: params.customerId,
+          referenceCode,
+          amountPaise: params.amountPaise,
+          foreignCurrencyCode,
+          foreignAmount,
+          accountNumber: (() => {
+            const acct = process.env.WIRE_TRANSFER_ACCOUNT_NUMBER;
+            if (!acct || acct === 'TBD') {
+              throw new Error('WIRE_TRANSFER_ACCOUNT_NUMBER env var must be set before initiating wire transfers');
+            }
+            return acct;
+          })(),
+          slaDeadline,
+        },
+      });
     });
 
     return {
@@ -66,6 +91,8 @@ export class WireTransferService {
       swiftCode: wireTransfer.swiftCode,
       accountNumber: wireTransfer.accountNumber,
       amountPaise: params.amountPaise,
+      foreignCurrencyCode,
+      foreignAmount,
       slaDeadline: slaDeadline.toISOString(),
     };
   }
@@ -81,6 +108,26 @@ export class WireTransferService {
     });
 
     const variance = params.receivedAmountPaise - wt.amountPaise;
+    const settings = wt.foreignCurrencyCode
+      ? await this.fxQuotes.getSettings(wt.foreignCurrencyCode)
+      : DEFAULT_FX_SETTINGS;
+    const varianceResolution = classifyWireVariance(wt.amountPaise, params.receivedAmountPaise, settings);
+
+    // Shortfalls beyond tolerance stay open until the customer tops up; ops then
+    // reconcile again with the total received
+    if (varianceResolution === 'shortfall') {
+      const updated = await this.prisma.wireTransfer.update({
+        where: { id: params.wireTransferId },
+        data: {
+          status: 'short_paid',
+          receivedAmount: params.receivedAmountPaise,
+          varianceAmount: variance,
+          varianceResolution,
+          bankStatementUrl: params.bankStatementUrl,
+        },
+      });
+      return { ...updated, hasVariance: true, requiresAction: true };
+    }
 
     const updated = await this.prisma.wireTransfer.update({
       where: { id: params.wireTransferId },
@@ -88,6 +135,7 @@ export class WireTransferService {
         status: 'reconciled',
         receivedAmount: params.receivedAmountPaise,
         varianceAmount: variance,
+        varianceResolution,
         bankStatementUrl: params.bankStatementUrl,
         reconciledByUserId: params.reconciledByUserId,
         reconciledAt: new Date(),
@@ -100,12 +148,25 @@ export class WireTransferService {
       data: { status: 'paid', paidAt: new Date() },
     });
 
-    return { ...updated, hasVariance: variance !== 0 };
+    const ledger = new LedgerService(this.prisma);
+    await new TaxInvoiceService(this.prisma).issueForPayment(wt.paymentId).catch((err) => {
+      logger.error({ err, paymentId: wt.paymentId }, 'Tax invoice issue failed');
+    });
+    await ledger.recordPaymentCaptured(wt.paymentId).catch((err) => {
+      logger.error({ err, paymentId: wt.paymentId }, 'Ledger posting failed');
+    });
+    if (variance !== 0) {
+      await ledger.recordWireVariance(wt.id).catch((err) => {
+        logger.error({ err, wireTransferId: wt.id }, 'Wire variance posting failed');
+      });
+    }
+
+    return { ...updated, hasVariance: variance !== 0, requiresAction: false };
   }
 
   async getPendingWireTransfers() {
     return this.prisma.wireTransfer.findMany({
-      where: { status: 'pending' },
+      where: { status: { in: OPEN_WIRE_STATUSES } },
       orderBy: { createdAt: 'asc' },
     });
   }
@@ -115,7 +176,7 @@ export class WireTransferService {
     twoDaysFromNow.setDate(twoDaysFromNow.getDate() + 2);
     return this.prisma.wireTransfer.findMany({
       where: {
-        status: 'pending',
+        status: { in: OPEN_WIRE_STATUSES },
         slaDeadline: { lte: twoDaysFromNow },
       },
     });
@@ -13,6 +13,7 @@ vi.mock('@prisma/client', () => {
       upsert: vi.fn(),
       findUnique: vi.fn(),
       findMany: vi.fn(),
+      groupBy: vi.fn(),
     },
     serviceInstance: {
       findUnique: vi.fn(),
@@ -292,4 +293,22 @@ describe('RatingService', () => {
       expect(result.averageRating).toBe(4.3);
     });
   });
+
+  describe('getAverageRatingsForAgents', () => {
+    test('averages every agent in one grouped query', async () => {
+      mockPrisma.serviceRating.groupBy.mockResolvedValue([
+        { agentId: 'agent-001', _avg: { rating: 13 / 3 } },
+        { agentId: 'agent-002', _avg: { rating: 2 } },
+      ]);
+
+      const result = await service.getAverageRatingsForAgents(['agent-001', 'agent-002', 'agent-003']);
+
+      expect(result).toEqual(new Map([['agent-001', 4.3], ['agent-002', 2]]));
+      expect(mockPrisma.serviceRating.groupBy).toHaveBeenCalledWith({
+        by: ['agentId'],
+        where: { agentId: { in: ['agent-001', 'agent-002', 'agent-003'] } },
+        _avg: { rating: true },
+      });
+    });
+  });
 });
@@ -119,4 +119,22 @@ export class RatingService {
       totalCount: ratings.length,
     };
   }
+
+  /**
+   * Average rating of several agents in one query, rounded like
+   * getRatingsForAgent. Agents without ratings are left out of the map.
+   */
+  async getAverageRatingsForAgents(agentIds: string[]): Promise<Map<string, number>> {
+    const groups = await this.prisma.serviceRating.groupBy({
+      by: ['agentId'],
+      where: { agentId: { in: agentIds } },
+      _avg: { rating: true },
+    });
+
+    const averages = new Map<string, number>();
+    for (const group of groups) {
+      if (group.agentId) averages.set(group.agentId, Math.round((group._avg.rating ?? 0) * 10) / 10);
+    }
+    return averages;
+  }
 }
@@ -6,6 +6,8 @@
 import { PrismaClient } from '@prisma/client';
 import { nanoid } from 'nanoid';
 import { AppError } from '../../core/errors/app-error.js';
+import { logger } from '../../shared/utils/logger';
+import { LedgerService } from '../ledger/ledger.service.js';
 
 export class ReferralService {
   constructor(private readonly prisma: PrismaClient) {}
@@ -102,6 +104,10 @@ export class ReferralService {
       data: { referralCount: { increment: 1 } },
     });
 
+    await new LedgerService(this.prisma)
+      .recordReferralCreditGranted(credit.id)
+      .catch((err) => logger.error({ err, creditId: credit.id }, 'Ledger posting failed'));
+
     return BigInt(credit.creditAmountPaise);
   }
 
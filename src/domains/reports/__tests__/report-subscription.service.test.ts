@@ -0,0 +1,300 @@
+/**
+ * Tests for ReportSubscriptionService
+ * Covers: report periods, cron validation, role scoping, per-subscription
+ *         schedules, run rendering and delivery, failures, re-runs
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ReportSubscriptionService, REPORT_RUN_QUEUE, isValidCron } from '../report-subscription.service';
+import { reportWindow } from '../report-definitions';
+import { LocalFileStorage } from '../../../shared/storage/file-storage';
+
+const mockGetSlaReport = vi.fn();
+
+vi.mock('../../services/sla.service', () => ({
+  SlaService: vi.fn().mockImplementation(() => ({ getSlaReport: mockGetSlaReport })),
+}));
+
+const OPS = { id: 'ops-1', role: 'ops_manager', cityId: 'city-1' };
+const OTHER_OPS = { id: 'ops-2', role: 'ops_manager', cityId: 'city-1' };
+
+const USERS: Record<string, { roles: string[]; cityId: string | null }> = {
+  'ops-1': { roles: ['ops_manager'], cityId: 'city-1' },
+  'ops-2': { roles: ['ops_manager'], cityId: 'city-1' },
+  'ops-9': { roles: ['ops_manager'], cityId: 'city-9' },
+  'fo-1': { roles: ['franchise_owner'], cityId: 'city-2' },
+  'cust-1': { roles: ['customer'], cityId: 'city-1' },
+  'admin-1': { roles: ['super_admin'], cityId: null },
+};
+
+const SLA_REPORT = {
+  totalServices: 40,
+  completed: 30,
+  active: 10,
+  onTrack: 8,
+  atRisk: 1,
+  breached: 1,
+  complianceRate: 97.5,
+  avgCompletionDays: 6.2,
+};
+
+function createMockPrisma() {
+  const subscriptions: any[] = [];
+  const runs: any[] = [];
+  const withSubscription = (r: any) => ({ ...r, subscription: subscriptions.find((s) => s.id === r.subscriptionId) });
+
+  const prisma: any = {
+    reportSubscription: {
+      create: vi.fn(async ({ data }: any) => {
+        const sub = { id: `sub-${subscriptions.length + 1}`, isActive: true, lastRunAt: null, ...data };
+        subscriptions.push(sub);
+        return sub;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => subscriptions.find((s) => s.id === where.id) ?? null),
+      update: vi.fn(async ({ where, data }: any) => {
+        const defined = Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+        return { ...Object.assign(subscriptions.find((s) => s.id === where.id), defined) };
+      }),
+    },
+    reportRun: {
+      create: vi.fn(async ({ data }: any) => {
+        const run = { id: `run-${runs.length + 1}`, status: 'queued', storagePath: null, deliveredCount: 0, ...data };
+        runs.push(run);
+        return run;
+      }),
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const run = runs.find((r) => r.id === where.id);
+        return run && include ? withSubscription(run) : run ?? null;
+      }),
+      update: vi.fn(async ({ where, data }: any) => ({ ...Object.assign(runs.find((r) => r.id === where.id), data) })),
+    },
+    franchise: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'fr-1', cityId: 'city-2', ownerUserId: 'fo-1' }),
+    },
+    user: {
+      findMany: vi.fn(async ({ where }: any) =>
+        where.id.in.filter((id: string) => USERS[id]).map((id: string) => ({ id, ...USERS[id] })),
+      ),
+    },
+    signedDocument: {
+      create: vi.fn(async ({ data }: any) => data),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+
+  return { prisma, subscriptions, runs };
+}
+
+describe('reportWindow', () => {
+  // 07:30 IST on 19 Oct 2026
+  const AT = new Date('2026-10-19T02:00:00Z');
+
+  test('covers whole local days before the run', () => {
+    expect(reportWindow('previous_day', AT, 'Asia/Kolkata')).toMatchObject({
+      start: new Date('2026-10-17T18:30:00Z'),
+      end: new Date('2026-10-18T18:30:00Z'),
+    });
+    expect(reportWindow('previous_week', AT, 'Asia/Kolkata').start).toEqual(new Date('2026-10-11T18:30:00Z'));
+  });
+
+  test('previous month crosses the year boundary', () => {
+    expect(reportWindow('previous_month', new Date('2027-01-05T00:00:00Z'), 'Asia/Kolkata')).toMatchObject({
+      start: new Date('2026-11-30T18:30:00Z'),
+      end: new Date('2026-12-31T18:30:00Z'),
+    });
+  });
+});
+
+describe('isValidCron', () => {
+  test('accepts five-field expressions within range', () => {
+    expect(isValidCron('0 8 * * 1')).toBe(true);
+    expect(isValidCron('*/15 6-20 1,15 * 0-6')).toBe(true);
+    expect(isValidCron('0 8 * *')).toBe(false);
+    expect(isValidCron('60 8 * * *')).toBe(false);
+    expect(isValidCron('0 8 * * MON')).toBe(false);
+  });
+});
+
+describe('ReportSubscriptionService', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let boss: { send: ReturnType<typeof vi.fn>; schedule: ReturnType<typeof vi.fn>; unschedule: ReturnType<typeof vi.fn> };
+  let rootDir: string;
+  let service: ReportSubscriptionService;
+
+  const INPUT = {
+    name: 'Weekly SLA',
+    reportType: 'sla_report' as const,
+    parameters: { cityId: 'city-9' },
+    period: 'previous_week' as const,
+    cronExpression: '0 8 * * 1',
+    format: 'pdf' as const,
+    recipientUserIds: ['ops-1', 'ops-2'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetSlaReport.mockResolvedValue(SLA_REPORT);
+    mock = createMockPrisma();
+    boss = {
+      send: vi.fn().mockResolvedValue('job-1'),
+      schedule: vi.fn().mockResolvedValue(undefined),
+      unschedule: vi.fn().mockResolvedValue(undefined),
+    };
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    service = new ReportSubscriptionService(
+      mock.prisma as unknown as PrismaClient,
+      boss,
+      new LocalFileStorage(rootDir, 'http://api.test', 'secret'),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test('scopes ops managers to their city and schedules the subscription', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+
+    expect(sub).toMatchObject({ parameters: { cityId: 'city-1' }, timezone: 'Asia/Kolkata', createdBy: 'ops-1' });
+    expect(boss.schedule).toHaveBeenCalledWith(
+      REPORT_RUN_QUEUE,
+      '0 8 * * 1',
+      { subscriptionId: sub.id },
+      { tz: 'Asia/Kolkata', key: sub.id },
+    );
+  });
+
+  test('franchise owners report on their own franchise', async () => {
+    const sub = await service.createSubscription(
+      { id: 'fo-1', role: 'franchise_owner' },
+      {
+        ...INPUT,
+        reportType: 'franchise_revenue',
+        period: 'previous_month',
+        parameters: { franchiseId: 'fr-other' },
+        recipientUserIds: ['fo-1', 'admin-1'],
+      },
+    );
+
+    expect(sub.parameters).toEqual({ cityId: 'city-2', franchiseId: 'fr-1' });
+  });
+
+  test('rejects reports the role cannot see, unsupported periods, bad cron and unknown recipients', async () => {
+    await expect(
+      service.createSubscription(OPS, { ...INPUT, reportType: 'franchise_revenue', period: 'previous_month' }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      service.createSubscription(OPS, { ...INPUT, reportType: 'agent_city_summary' }),
+    ).rejects.toMatchObject({ code: 'REPORT_PERIOD_INVALID' });
+    await expect(service.createSubscription(OPS, { ...INPUT, cronExpression: '0 25 * * *' })).rejects.toMatchObject({
+      code: 'REPORT_CRON_INVALID',
+    });
+    await expect(
+      service.createSubscription(OPS, { ...INPUT, recipientUserIds: ['ops-1', 'ghost'] }),
+    ).rejects.toMatchObject({ code: 'REPORT_RECIPIENT_INVALID', details: { userIds: ['ghost'] } });
+    expect(boss.schedule).not.toHaveBeenCalled();
+  });
+
+  test('recipients must be staff allowed to see the report within its scope', async () => {
+    await expect(
+      service.createSubscription(OPS, { ...INPUT, recipientUserIds: ['ops-1', 'cust-1', 'ops-9', 'fo-1', 'admin-1'] }),
+    ).rejects.toMatchObject({
+      code: 'REPORT_RECIPIENT_INVALID',
+      statusCode: 422,
+      details: { userIds: ['cust-1', 'ops-9', 'fo-1'] },
+    });
+
+    const sub = await service.createSubscription(OPS, INPUT);
+    await expect(service.updateSubscription(sub.id, OPS, { recipientUserIds: ['ops-9'] })).rejects.toMatchObject({
+      code: 'REPORT_RECIPIENT_INVALID',
+    });
+  });
+
+  test('pausing a subscription removes its schedule', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+
+    await service.updateSubscription(sub.id, OPS, { isActive: false });
+
+    expect(boss.unschedule).toHaveBeenCalledWith(REPORT_RUN_QUEUE, sub.id);
+  });
+
+  test('subscriptions are private to their creator', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+
+    await expect(service.listRuns(sub.id, OTHER_OPS)).rejects.toMatchObject({ code: 'REPORT_SUBSCRIPTION_NOT_FOUND' });
+  });
+
+  test('a scheduled firing renders the last period and sends every recipient a link', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+
+    const run = await service.handleRunJob({ subscriptionId: sub.id });
+
+    expect(run).toMatchObject({ trigger: 'schedule', status: 'completed', deliveredCount: 2 });
+    expect(mockGetSlaReport).toHaveBeenCalledWith('city-1', run!.periodStart, new Date(run!.periodEnd.getTime() - 1));
+    const file = fs.readFileSync(path.join(rootDir, run!.storagePath!));
+    expect(file.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(boss.send).toHaveBeenCalledWith(
+      'notification.send',
+      expect.objectContaining({ type: 'scheduled_report_ready', userId: 'ops-2', runId: run!.id, reportName: 'Weekly SLA' }),
+    );
+    expect(mock.subscriptions[0].lastRunAt).toBeInstanceOf(Date);
+  });
+
+  test('paused subscriptions skip scheduled firings', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+    mock.subscriptions[0].isActive = false;
+
+    expect(await service.handleRunJob({ subscriptionId: sub.id })).toBeNull();
+    expect(mock.runs).toHaveLength(0);
+  });
+
+  test('a failing report is recorded on the run, not retried', async () => {
+    const sub = await service.createSubscription(OPS, { ...INPUT, format: 'xlsx' });
+    mockGetSlaReport.mockRejectedValueOnce(new Error('query timeout'));
+
+    const run = await service.handleRunJob({ subscriptionId: sub.id });
+
+    expect(run).toMatchObject({ status: 'failed', error: 'query timeout' });
+    expect(boss.send).not.toHaveBeenCalledWith('notification.send', expect.anything());
+  });
+
+  test('re-running a past run queues the same period', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+    const first = await service.handleRunJob({ subscriptionId: sub.id });
+
+    const rerun = await service.rerun(first!.id, OPS);
+
+    expect(rerun).toMatchObject({
+      trigger: 'rerun',
+      status: 'queued',
+      periodStart: first!.periodStart,
+      periodEnd: first!.periodEnd,
+      rerunOfId: first!.id,
+      requestedBy: 'ops-1',
+    });
+    expect(boss.send).toHaveBeenCalledWith(REPORT_RUN_QUEUE, { subscriptionId: sub.id, runId: rerun.id });
+
+    const done = await service.handleRunJob({ subscriptionId: sub.id, runId: rerun.id });
+    expect(done).toMatchObject({ id: rerun.id, status: 'completed' });
+
+    // The re-run's signed PDF replaces the first one for the period
+    const period = { kind: 'scheduled_report', sourceId: `${sub.id}:${first!.periodStart.toISOString()}` };
+    expect(mock.prisma.signedDocument.create).toHaveBeenLastCalledWith({ data: expect.objectContaining(period) });
+    expect(mock.prisma.signedDocument.updateMany).toHaveBeenLastCalledWith({
+      where: expect.objectContaining({ ...period, revokedAt: null }),
+      data: expect.objectContaining({ revocationReason: 'superseded' }),
+    });
+  });
+
+  test('manual runs reject periods that have not ended', async () => {
+    const sub = await service.createSubscription(OPS, INPUT);
+
+    await expect(
+      service.requestRun(sub.id, OPS, { start: new Date(Date.now() - 1000), end: new Date(Date.now() + 60_000) }),
+    ).rejects.toMatchObject({ code: 'REPORT_PERIOD_INVALID' });
+  });
+});
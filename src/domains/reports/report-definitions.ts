@@ -0,0 +1,193 @@
+import { PrismaClient } from '@prisma/client';
+import { SlaService } from '../services/sla.service';
+import { DashboardService } from '../ops/dashboard.service';
+import { FranchiseRevenueService } from '../franchise/franchise-revenue.service';
+import { DailyAgentReportService } from './daily-agent-report.service';
+import { addDays, zonedParts, zonedTimeToUtc } from '../../shared/utils/timezone';
+import { RenderedReport } from './report-renderer';
+
+/**
+ * Reports that can be subscribed to, and the period each run covers.
+ */
+
+export const REPORT_TYPES = ['sla_report', 'ops_dashboard', 'franchise_revenue', 'agent_city_summary'] as const;
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_PERIODS = ['previous_day', 'previous_week', 'previous_month'] as const;
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export interface ReportParameters {
+  cityId?: string;
+  franchiseId?: string;
+}
+
+/** [start, end) in UTC, aligned to local midnights */
+export interface ReportWindow {
+  start: Date;
+  end: Date;
+  timezone: string;
+}
+
+interface ReportDefinition {
+  label: string;
+  roles: string[];
+  requires: Array<keyof ReportParameters>;
+  periods: readonly ReportPeriod[];
+  build(prisma: PrismaClient, params: ReportParameters, window: ReportWindow): Promise<RenderedReport>;
+}
+
+/**
+ * The full period before `at` in the subscription's timezone: yesterday,
+ * the seven days to yesterday, or last calendar month.
+ */
+export function reportWindow(period: ReportPeriod, at: Date, timezone: string): ReportWindow {
+  const today = zonedParts(at, timezone).date;
+  let startDate: string;
+  let endDate = today;
+  switch (period) {
+    case 'previous_day':
+      startDate = addDays(today, -1);
+      break;
+    case 'previous_week':
+      startDate = addDays(today, -7);
+      break;
+    case 'previous_month': {
+      const [y, m] = today.split('-').map(Number);
+      endDate = `${today.slice(0, 8)}01`;
+      startDate = new Date(Date.UTC(y, m - 2, 1)).toISOString().slice(0, 10);
+      break;
+    }
+  }
+  return {
+    start: zonedTimeToUtc(startDate, '00:00', timezone),
+    end: zonedTimeToUtc(endDate, '00:00', timezone),
+    timezone,
+  };
+}
+
+function describeWindow(label: string, window: ReportWindow): string {
+  const first = zonedParts(window.start, window.timezone).date;
+  const last = zonedParts(new Date(window.end.getTime() - 1), window.timezone).date;
+  return first === last ? `${label} for ${first}` : `${label} for ${first} to ${last}`;
+}
+
+// Services that take an inclusive end
+const lastInstant = (window: ReportWindow) => new Date(window.end.getTime() - 1);
+
+export const REPORT_DEFINITIONS: Record<ReportType, ReportDefinition> = {
+  sla_report: {
+    label: 'SLA compliance',
+    roles: ['ops_manager', 'franchise_owner', 'super_admin'],
+    requires: [],
+    periods: REPORT_PERIODS,
+    async build(prisma, params, window) {
+      const report = await new SlaService(prisma).getSlaReport(params.cityId, window.start, lastInstant(window));
+      return {
+        title: 'SLA compliance report',
+        subtitle: describeWindow('SLA compliance', window),
+        summary: [
+          ['Total services', report.totalServices],
+          ['Completed', report.completed],
+          ['Active', report.active],
+          ['On track', report.onTrack],
+          ['At risk', report.atRisk],
+          ['Breached', report.breached],
+          ['Compliance rate (%)', report.complianceRate],
+          ['Average completion (days)', report.avgCompletionDays],
+        ],
+      };
+    },
+  },
+
+  ops_dashboard: {
+    label: 'Operations summary',
+    roles: ['ops_manager', 'super_admin'],
+    requires: [],
+    periods: REPORT_PERIODS,
+    async build(prisma, params, window) {
+      const summary = await new DashboardService(prisma).getDashboardSummary(params.cityId, {
+        startDate: window.start,
+        endDate: lastInstant(window),
+      });
+      const sections = {
+        services: summary.services,
+        agents: summary.agents,
+        lawyers: summary.lawyers,
+        sla: summary.sla,
+        payments: summary.payments,
+      };
+      return {
+        title: 'Operations summary',
+        subtitle: describeWindow('Operations', window),
+        summary: Object.entries(sections).flatMap(([section, metrics]) =>
+          Object.entries(metrics).map(([key, value]): [string, unknown] => [`${section}.${key}`, value]),
+        ),
+      };
+    },
+  },
+
+  franchise_revenue: {
+    label: 'Franchise revenue',
+    roles: ['franchise_owner', 'super_admin'],
+    requires: ['franchiseId'],
+    // Revenue is booked by month
+    periods: ['previous_month'],
+    async build(prisma, params, window) {
+      const month = zonedParts(window.start, window.timezone).date.slice(0, 7);
+      const report = await new FranchiseRevenueService(prisma).getMonthlyReport(params.franchiseId!, month);
+      return {
+        title: 'Franchise revenue report',
+        subtitle: `Franchise revenue for ${month}`,
+        summary: [
+          ['Services', report.serviceCount],
+          ['Service fees (paise)', report.totalServicesPaise],
+          ['Franchise share (paise)', report.totalFranchiseSharePaise],
+          ['Platform share (paise)', report.totalPlatformSharePaise],
+        ],
+        table: {
+          name: 'Entries',
+          rows: report.entries.map((e) => ({
+            serviceRequestId: e.serviceRequestId,
+            serviceFeePaise: e.serviceFeePaise,
+            franchiseSharePaise: e.franchiseSharePaise,
+            platformSharePaise: e.platformSharePaise,
+            status: e.status,
+            createdAt: e.createdAt,
+          })),
+        },
+      };
+    },
+  },
+
+  agent_city_summary: {
+    label: 'Agent activity',
+    roles: ['ops_manager', 'franchise_owner', 'super_admin'],
+    requires: ['cityId'],
+    // The summary covers a single day
+    periods: ['previous_day'],
+    async build(prisma, params, window) {
+      const day = zonedParts(window.start, window.timezone).date;
+      const summary = await new DailyAgentReportService(prisma).generateCitySummary(
+        params.cityId!,
+        zonedTimeToUtc(day, '12:00', window.timezone),
+      );
+      return {
+        title: 'Agent activity summary',
+        subtitle: `Agent activity for ${day}`,
+        summary: [
+          ['Active agents', summary.agentCount],
+          ['Checklist steps completed', summary.totals.checklistStepsCompleted],
+          ['Cash receipts collected', summary.totals.cashReceiptsCollected],
+        ],
+        table: {
+          name: 'Agents',
+          rows: summary.agentReports.map((r) => ({
+            agentName: r.agentName,
+            agentId: r.agentId,
+            ...r.metrics,
+          })),
+        },
+      };
+    },
+  },
+};
@@ -0,0 +1,109 @@
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { formatCell } from '../analytics/export-writers';
+import { DocumentSigningService, SignedDocumentSource } from '../../shared/signing/document-signing.service';
+
+/**
+ * Renders a scheduled report — summary figures plus an optional detail
+ * table — to PDF or XLSX.
+ */
+
+export type ReportFormat = 'pdf' | 'xlsx';
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface RenderedReport {
+  title: string;
+  subtitle: string;
+  summary: Array<[label: string, value: unknown]>;
+  table?: { name: string; rows: Array<Record<string, unknown>> };
+}
+
+async function renderXlsx(report: RenderedReport, out: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: false, useSharedStrings: false });
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.addRow([report.title]).commit();
+  summary.addRow([report.subtitle]).commit();
+  summary.addRow([]).commit();
+  for (const [label, value] of report.summary) {
+    summary.addRow([label, formatCell(value)]).commit();
+  }
+  summary.commit();
+
+  if (report.table && report.table.rows.length > 0) {
+    const sheet = workbook.addWorksheet(report.table.name.slice(0, 31));
+    const columns = Object.keys(report.table.rows[0]);
+    sheet.addRow(columns).commit();
+    for (const row of report.table.rows) {
+      sheet.addRow(columns.map((c) => formatCell(row[c]))).commit();
+    }
+    sheet.commit();
+  }
+
+  await workbook.commit();
+  await finished(out);
+}
+
+export interface ReportSigning {
+  signing: DocumentSigningService;
+  source: SignedDocumentSource;
+}
+
+function drawPdf(doc: any, report: RenderedReport): void {
+  doc.fontSize(16).text(report.title);
+  doc.fontSize(10).fillColor('#555').text(report.subtitle).fillColor('#000').moveDown();
+
+  doc.fontSize(10);
+  for (const [label, value] of report.summary) {
+    doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(formatCell(value));
+  }
+
+  if (report.table) {
+    doc.moveDown().fontSize(12).text(report.table.name).fontSize(8);
+    const rows = report.table.rows;
+    if (rows.length === 0) {
+      doc.text('No rows');
+    } else {
+      const columns = Object.keys(rows[0]);
+      doc.font('Helvetica-Bold').text(columns.join(' | ')).font('Helvetica');
+      for (const row of rows) {
+        doc.text(columns.map((c) => formatCell(row[c])).join(' | '));
+      }
+    }
+  }
+}
+
+async function renderPdf(report: RenderedReport, out: Writable, signed?: ReportSigning): Promise<void> {
+  if (signed) {
+    const { pdf } = await signed.signing.renderSignedPdf(signed.source, (doc) => drawPdf(doc, report), {
+      margin: 50,
+      size: 'A4',
+    });
+    out.end(pdf);
+  } else {
+    const doc = new PDFDocument({ margin: 50, size: 'A4' });
+    doc.pipe(out);
+    drawPdf(doc, report);
+    doc.end();
+  }
+  await finished(out);
+}
+
+/**
+ * Writes the report to `out` and resolves once the output has finished.
+ * PDFs are signed when `signed` is given.
+ */
+export function renderReport(
+  report: RenderedReport,
+  format: ReportFormat,
+  out: Writable,
+  signed?: ReportSigning,
+): Promise<void> {
+  return format === 'xlsx' ? renderXlsx(report, out) : renderPdf(report, out, signed);
+}
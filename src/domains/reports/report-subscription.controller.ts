@@ -0,0 +1,178 @@
+/**
+ * Report subscription controller — scheduled recurring reports for ops
+ * managers and franchise owners, with run history and re-runs.
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { authorize } from '../../middleware/authorize';
+import { ReportSubscriptionService } from './report-subscription.service';
+import { REPORT_PERIODS, REPORT_TYPES } from './report-definitions';
+
+const REPORT_ROLES = ['ops_manager', 'franchise_owner', 'super_admin'];
+
+const createSubscriptionSchema = z.object({
+  name: z.string().max(200).default(''),
+  reportType: z.enum(REPORT_TYPES),
+  parameters: z
+    .object({
+      cityId: z.string().uuid().optional(),
+      franchiseId: z.string().uuid().optional(),
+    })
+    .optional(),
+  period: z.enum(REPORT_PERIODS),
+  cronExpression: z.string().min(9).max(100),
+  timezone: z.string().max(64).optional(),
+  format: z.enum(['pdf', 'xlsx']),
+  recipientUserIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+const updateSubscriptionSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  period: z.enum(REPORT_PERIODS).optional(),
+  cronExpression: z.string().min(9).max(100).optional(),
+  timezone: z.string().max(64).optional(),
+  format: z.enum(['pdf', 'xlsx']).optional(),
+  recipientUserIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const runSchema = z
+  .object({
+    periodStart: z.coerce.date().optional(),
+    periodEnd: z.coerce.date().optional(),
+  })
+  .refine((b) => !b.periodStart === !b.periodEnd, {
+    message: 'periodStart and periodEnd must be given together',
+  });
+
+export function createReportSubscriptionController(
+  prisma: PrismaClient,
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+): Router {
+  const router = Router();
+  const service = new ReportSubscriptionService(prisma, boss);
+
+  router.use(authorize(...REPORT_ROLES));
+
+  /**
+   * POST /api/v1/report-subscriptions/runs/:runId/rerun
+   * Re-runs the period of a past run.
+   */
+  router.post('/runs/:runId/rerun', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const run = await service.rerun(req.params.runId, (req as any).user!);
+      res.status(202).json({ success: true, data: run });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/v1/report-subscriptions/runs/:runId/download
+   */
+  router.get('/runs/:runId/download', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const link = await service.getRunDownloadUrl(req.params.runId, (req as any).user!);
+      res.json({ success: true, data: link });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/v1/report-subscriptions
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptions = await service.listSubscriptions((req as any).user!);
+      res.json({ success: true, data: subscriptions });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/v1/report-subscriptions
+   * Recipients default to the requester.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = createSubscriptionSchema.parse(req.body);
+      const subscription = await service.createSubscription((req as any).user!, input);
+      res.status(201).json({ success: true, data: subscription });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/v1/report-subscriptions/:id
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscription = await service.getSubscription(req.params.id, (req as any).user!);
+      res.json({ success: true, data: subscription });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PATCH /api/v1/report-subscriptions/:id
+   * Changing the schedule or pausing (isActive: false) takes effect at once.
+   */
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const changes = updateSubscriptionSchema.parse(req.body);
+      const subscription = await service.updateSubscription(req.params.id, (req as any).user!, changes);
+      res.json({ success: true, data: subscription });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/v1/report-subscriptions/:id
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await service.deleteSubscription(req.params.id, (req as any).user!);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/v1/report-subscriptions/:id/runs
+   */
+  router.get('/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const runs = await service.listRuns(req.params.id, (req as any).user!);
+      res.json({ success: true, data: runs });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/v1/report-subscriptions/:id/runs
+   * Runs now for the latest period, or for periodStart–periodEnd.
+   */
+  router.post('/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { periodStart, periodEnd } = runSchema.parse(req.body ?? {});
+      const run = await service.requestRun(
+        req.params.id,
+        (req as any).user!,
+        periodStart && periodEnd ? { start: periodStart, end: periodEnd } : undefined,
+      );
+      res.status(202).json({ success: true, data: run });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
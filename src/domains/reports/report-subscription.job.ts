@@ -0,0 +1,24 @@
+/**
+ * Report subscription pg-boss job.
+ * Runs scheduled reports (report.run). Each active subscription has its
+ * own cron schedule on this queue, keyed by the subscription id; manual
+ * runs and re-runs are sent to the same queue.
+ */
+import { PrismaClient } from '@prisma/client';
+import { REPORT_RUN_QUEUE, ReportSubscriptionService } from './report-subscription.service.js';
+import { logger } from '../../shared/utils/logger';
+
+export async function registerReportSubscriptionJob(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const reportService = new ReportSubscriptionService(prisma, boss);
+
+  await boss.createQueue(REPORT_RUN_QUEUE);
+  await boss.work(REPORT_RUN_QUEUE, async (job: { data: { subscriptionId: string; runId?: string } }) => {
+    const run = await reportService.handleRunJob(job.data);
+    if (run) {
+      logger.info({ runId: run.id, subscriptionId: run.subscriptionId, status: run.status }, 'Report run finished');
+    }
+  });
+}
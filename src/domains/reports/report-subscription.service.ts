@@ -0,0 +1,466 @@
+import { Prisma, PrismaClient, ReportRun, ReportSubscription } from '@prisma/client';
+import { BusinessError } from '../../shared/errors/business-error';
+import * as ErrorCodes from '../../shared/errors/error-codes';
+import { DocumentSigningService } from '../../shared/signing/document-signing.service';
+import { FileStorage, getFileStorage } from '../../shared/storage/file-storage';
+import { isValidTimezone } from '../../shared/utils/timezone';
+import { logger } from '../../shared/utils/logger';
+import {
+  REPORT_DEFINITIONS,
+  ReportParameters,
+  ReportPeriod,
+  ReportType,
+  ReportWindow,
+  reportWindow,
+} from './report-definitions';
+import { REPORT_CONTENT_TYPES, ReportFormat, renderReport } from './report-renderer';
+
+/**
+ * Scheduled recurring reports.
+ *
+ * Each active subscription has its own pg-boss cron schedule (keyed by the
+ * subscription id) on the report.run queue. A run builds the report for
+ * the period before it fired, renders it to PDF/XLSX in file storage and
+ * sends every recipient a download link through the notification queue.
+ * Past periods can be re-run on demand; every run is kept as history, and a
+ * re-run's signed PDF revokes the earlier copies for that period.
+ */
+
+export const REPORT_RUN_QUEUE = 'report.run';
+const REPORT_LINK_TTL_DAYS = 7;
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export interface ReportRequester {
+  id: string;
+  role: string;
+  cityId?: string | null;
+}
+
+export interface SubscriptionInput {
+  name: string;
+  reportType: ReportType;
+  parameters?: ReportParameters;
+  period: ReportPeriod;
+  cronExpression: string;
+  timezone?: string;
+  format: ReportFormat;
+  recipientUserIds?: string[];
+}
+
+export type SubscriptionChanges = Partial<
+  Pick<SubscriptionInput, 'name' | 'period' | 'cronExpression' | 'timezone' | 'format' | 'recipientUserIds'>
+> & { isActive?: boolean };
+
+type RunWithSubscription = ReportRun & { subscription: ReportSubscription };
+
+// minute hour day-of-month month day-of-week
+const CRON_FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+export function isValidCron(expression: string): boolean {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELD_RANGES.length) return false;
+  return fields.every((field, i) => {
+    const [min, max] = CRON_FIELD_RANGES[i];
+    return field.split(',').every((part) => {
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+      if (!match) return false;
+      const [, , from, to, step] = match;
+      if (step !== undefined && Number(step) < 1) return false;
+      if (from === undefined) return true;
+      const lo = Number(from);
+      const hi = to === undefined ? lo : Number(to);
+      return lo >= min && hi <= max && lo <= hi;
+    });
+  });
+}
+
+export class ReportSubscriptionService {
+  private readonly storage: FileStorage;
+  private readonly signing: DocumentSigningService;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly boss: any, // PgBoss instance - namespace import cannot be used as type
+    storage?: FileStorage,
+    signing?: DocumentSigningService,
+  ) {
+    this.storage = storage ?? getFileStorage();
+    this.signing = signing ?? new DocumentSigningService(prisma);
+  }
+
+  async createSubscription(user: ReportRequester, input: SubscriptionInput): Promise<ReportSubscription> {
+    const definition = REPORT_DEFINITIONS[input.reportType];
+    const parameters = await this.resolveParameters(user, input.reportType, input.parameters ?? {});
+    this.assertSchedule(input.reportType, input.period, input.cronExpression, input.timezone ?? DEFAULT_TIMEZONE);
+    const recipientUserIds = input.recipientUserIds?.length ? input.recipientUserIds : [user.id];
+    await this.assertRecipients(recipientUserIds, input.reportType, parameters);
+
+    return this.prisma.$transaction(async (tx) => {
+      const subscription = await tx.reportSubscription.create({
+        data: {
+          name: input.name || definition.label,
+          reportType: input.reportType,
+          parameters: parameters as Prisma.InputJsonValue,
+          period: input.period,
+          cronExpression: input.cronExpression.trim(),
+          timezone: input.timezone ?? DEFAULT_TIMEZONE,
+          format: input.format,
+          recipientUserIds,
+          createdBy: user.id,
+        },
+      });
+      await this.applySchedule(subscription);
+      return subscription;
+    });
+  }
+
+  async updateSubscription(
+    id: string,
+    user: ReportRequester,
+    changes: SubscriptionChanges,
+  ): Promise<ReportSubscription> {
+    const current = await this.getSubscription(id, user);
+    this.assertSchedule(
+      current.reportType as ReportType,
+      changes.period ?? (current.period as ReportPeriod),
+      changes.cronExpression ?? current.cronExpression,
+      changes.timezone ?? current.timezone,
+    );
+    if (changes.recipientUserIds) {
+      await this.assertRecipients(
+        changes.recipientUserIds,
+        current.reportType as ReportType,
+        current.parameters as ReportParameters,
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const subscription = await tx.reportSubscription.update({
+        where: { id },
+        data: { ...changes, cronExpression: changes.cronExpression?.trim() },
+      });
+      await this.applySchedule(subscription);
+      return subscription;
+    });
+  }
+
+  async deleteSubscription(id: string, user: ReportRequester): Promise<void> {
+    await this.getSubscription(id, user);
+    await this.requireBoss().unschedule(REPORT_RUN_QUEUE, id);
+    await this.prisma.reportSubscription.delete({ where: { id } });
+  }
+
+  async listSubscriptions(user: ReportRequester): Promise<ReportSubscription[]> {
+    return this.prisma.reportSubscription.findMany({
+      where: user.role === 'super_admin' ? {} : { createdBy: user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Subscriptions are visible to their creator and to super admins.
+   */
+  async getSubscription(id: string, user: ReportRequester): Promise<ReportSubscription> {
+    const subscription = await this.prisma.reportSubscription.findUnique({ where: { id } });
+    if (!subscription || (subscription.createdBy !== user.id && user.role !== 'super_admin')) {
+      throw new BusinessError('REPORT_SUBSCRIPTION_NOT_FOUND', 'Report subscription not found', 404);
+    }
+    return subscription;
+  }
+
+  async listRuns(subscriptionId: string, user: ReportRequester, limit = 50): Promise<ReportRun[]> {
+    await this.getSubscription(subscriptionId, user);
+    return this.prisma.reportRun.findMany({
+      where: { subscriptionId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Queues a run now, for the latest period or an explicit past one.
+   */
+  async requestRun(
+    subscriptionId: string,
+    user: ReportRequester,
+    period?: { start: Date; end: Date },
+  ): Promise<ReportRun> {
+    const subscription = await this.getSubscription(subscriptionId, user);
+    const window = period ?? reportWindow(subscription.period as ReportPeriod, new Date(), subscription.timezone);
+    if (window.start >= window.end || window.end > new Date()) {
+      throw new BusinessError('REPORT_PERIOD_INVALID', 'Report period must be a past, non-empty range', 422);
+    }
+    return this.queueRun(subscription, { trigger: 'manual', start: window.start, end: window.end, requestedBy: user.id });
+  }
+
+  /**
+   * Re-runs a past run's period with the subscription's current settings.
+   */
+  async rerun(runId: string, user: ReportRequester): Promise<ReportRun> {
+    const original = await this.getRun(runId, user);
+    return this.queueRun(original.subscription, {
+      trigger: 'rerun',
+      start: original.periodStart,
+      end: original.periodEnd,
+      requestedBy: user.id,
+      rerunOfId: original.id,
+    });
+  }
+
+  /**
+   * Fresh signed link to a completed run's file.
+   */
+  async getRunDownloadUrl(runId: string, user: ReportRequester): Promise<{ url: string; expiresAt: Date }> {
+    const run = await this.getRun(runId, user);
+    if (run.status !== 'completed' || !run.storagePath) {
+      throw new BusinessError('REPORT_RUN_NOT_READY', 'Report run has no file to download', 409);
+    }
+    return this.signedLink(run);
+  }
+
+  /**
+   * report.run worker: scheduled firings carry only the subscription id,
+   * manual runs and re-runs a queued run.
+   */
+  async handleRunJob(data: { subscriptionId: string; runId?: string }): Promise<ReportRun | null> {
+    let runId = data.runId;
+    if (!runId) {
+      const subscription = await this.prisma.reportSubscription.findUnique({ where: { id: data.subscriptionId } });
+      if (!subscription || !subscription.isActive) return null;
+      const window = reportWindow(subscription.period as ReportPeriod, new Date(), subscription.timezone);
+      const run = await this.prisma.reportRun.create({
+        data: { subscriptionId: subscription.id, trigger: 'schedule', periodStart: window.start, periodEnd: window.end },
+      });
+      runId = run.id;
+    }
+    return this.executeRun(runId);
+  }
+
+  /**
+   * Builds, renders and delivers a run. Failures are recorded on the run
+   * rather than thrown, so the queue does not retry into duplicate runs.
+   */
+  async executeRun(runId: string): Promise<ReportRun> {
+    const run = await this.prisma.reportRun.findUnique({ where: { id: runId }, include: { subscription: true } });
+    if (!run) throw new BusinessError('REPORT_RUN_NOT_FOUND', 'Report run not found', 404);
+    if (run.status === 'completed') return run;
+
+    const { subscription } = run;
+    const format = subscription.format as ReportFormat;
+    const storagePath = `reports/${subscription.id}/${run.id}.${format}`;
+    await this.prisma.reportRun.update({
+      where: { id: run.id },
+      data: { status: 'running', startedAt: new Date(), error: null },
+    });
+
+    try {
+      const window: ReportWindow = { start: run.periodStart, end: run.periodEnd, timezone: subscription.timezone };
+      const report = await REPORT_DEFINITIONS[subscription.reportType as ReportType].build(
+        this.prisma,
+        subscription.parameters as ReportParameters,
+        window,
+      );
+      report.title = subscription.name;
+      const period = { kind: 'scheduled_report' as const, sourceId: `${subscription.id}:${run.periodStart.toISOString()}` };
+      await renderReport(report, format, this.storage.createWriteStream(storagePath, REPORT_CONTENT_TYPES[format]), {
+        signing: this.signing,
+        source: { ...period, title: `${subscription.name} (${report.subtitle})`, supersedes: [period] },
+      });
+    } catch (err) {
+      logger.error({ err, runId: run.id, subscriptionId: subscription.id }, 'Scheduled report run failed');
+      return this.prisma.reportRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', error: err instanceof Error ? err.message : String(err), completedAt: new Date() },
+      });
+    }
+
+    const completed = await this.prisma.reportRun.update({
+      where: { id: run.id },
+      data: { status: 'completed', storagePath, completedAt: new Date() },
+    });
+    await this.prisma.reportSubscription.update({
+      where: { id: subscription.id },
+      data: { lastRunAt: completed.completedAt },
+    });
+
+    const deliveredCount = await this.deliver(subscription, completed);
+    return this.prisma.reportRun.update({ where: { id: run.id }, data: { deliveredCount } });
+  }
+
+  private async deliver(subscription: ReportSubscription, run: ReportRun): Promise<number> {
+    const link = await this.signedLink(run);
+    let delivered = 0;
+    for (const userId of subscription.recipientUserIds) {
+      try {
+        await this.requireBoss().send('notification.send', {
+          type: 'scheduled_report_ready',
+          userId,
+          subscriptionId: subscription.id,
+          runId: run.id,
+          reportName: subscription.name,
+          reportType: subscription.reportType,
+          format: subscription.format,
+          periodStart: run.periodStart.toISOString(),
+          periodEnd: run.periodEnd.toISOString(),
+          downloadUrl: link.url,
+          expiresAt: link.expiresAt.toISOString(),
+        });
+        delivered++;
+      } catch (err) {
+        logger.error({ err, runId: run.id, userId }, 'Report delivery failed');
+      }
+    }
+    return delivered;
+  }
+
+  private async signedLink(run: ReportRun): Promise<{ url: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + REPORT_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const url = await this.storage.getSignedUrl(run.storagePath!, expiresAt);
+    return { url, expiresAt };
+  }
+
+  private async getRun(runId: string, user: ReportRequester): Promise<RunWithSubscription> {
+    const run = await this.prisma.reportRun.findUnique({ where: { id: runId }, include: { subscription: true } });
+    if (!run || (run.subscription.createdBy !== user.id && user.role !== 'super_admin')) {
+      throw new BusinessError('REPORT_RUN_NOT_FOUND', 'Report run not found', 404);
+    }
+    return run;
+  }
+
+  private async queueRun(
+    subscription: ReportSubscription,
+    params: { trigger: string; start: Date; end: Date; requestedBy: string; rerunOfId?: string },
+  ): Promise<ReportRun> {
+    const run = await this.prisma.reportRun.create({
+      data: {
+        subscriptionId: subscription.id,
+        trigger: params.trigger,
+        periodStart: params.start,
+        periodEnd: params.end,
+        requestedBy: params.requestedBy,
+        rerunOfId: params.rerunOfId ?? null,
+      },
+    });
+    await this.requireBoss().send(REPORT_RUN_QUEUE, { subscriptionId: subscription.id, runId: run.id });
+    return run;
+  }
+
+  private async applySchedule(subscription: ReportSubscription): Promise<void> {
+    const boss = this.requireBoss();
+    if (!subscription.isActive) {
+      await boss.unschedule(REPORT_RUN_QUEUE, subscription.id);
+      return;
+    }
+    await boss.schedule(
+      REPORT_RUN_QUEUE,
+      subscription.cronExpression,
+      { subscriptionId: subscription.id },
+      { tz: subscription.timezone, key: subscription.id },
+    );
+  }
+
+  /**
+   * Everyone but super admins reports on their own city; franchise owners
+   * on their own franchise.
+   */
+  private async resolveParameters(
+    user: ReportRequester,
+    reportType: ReportType,
+    requested: ReportParameters,
+  ): Promise<ReportParameters> {
+    const definition = REPORT_DEFINITIONS[reportType];
+    if (!definition.roles.includes(user.role)) {
+      throw new BusinessError(
+        ErrorCodes.AUTH_INSUFFICIENT_ROLE,
+        `Role "${user.role}" cannot subscribe to "${reportType}"`,
+        403,
+      );
+    }
+
+    let parameters: ReportParameters = requested;
+    if (user.role === 'franchise_owner') {
+      const franchise = await this.prisma.franchise.findUnique({ where: { ownerUserId: user.id } });
+      if (!franchise) {
+        throw new BusinessError(ErrorCodes.AUTH_INSUFFICIENT_ROLE, 'No franchise found for this user', 403);
+      }
+      parameters = { cityId: franchise.cityId, franchiseId: franchise.id };
+    } else if (user.role !== 'super_admin') {
+      if (!user.cityId) {
+        throw new BusinessError(ErrorCodes.AUTH_INSUFFICIENT_ROLE, 'No city assigned to this user', 403);
+      }
+      parameters = { cityId: user.cityId };
+    }
+
+    const missing = definition.requires.filter((key) => !parameters[key]);
+    if (missing.length > 0) {
+      throw new BusinessError('REPORT_PARAMETERS_INVALID', `Missing report parameters: ${missing.join(', ')}`, 422);
+    }
+    return parameters;
+  }
+
+  private assertSchedule(reportType: ReportType, period: ReportPeriod, cronExpression: string, timezone: string) {
+    const definition = REPORT_DEFINITIONS[reportType];
+    if (!definition.periods.includes(period)) {
+      throw new BusinessError(
+        'REPORT_PERIOD_INVALID',
+        `${definition.label} reports support: ${definition.periods.join(', ')}`,
+        422,
+      );
+    }
+    if (!isValidCron(cronExpression)) {
+      throw new BusinessError('REPORT_CRON_INVALID', `Invalid cron expression: ${cronExpression}`, 422);
+    }
+    if (!isValidTimezone(timezone)) {
+      throw new BusinessError('REPORT_TIMEZONE_INVALID', `Unknown timezone: ${timezone}`, 422);
+    }
+  }
+
+  /**
+   * Recipients must exist and be staff who could see this report themselves:
+   * a role the report allows, inside the subscription's scope. Franchise
+   * reports only go to that franchise's owner; city reports only to staff of
+   * that city. Super admins can receive anything.
+   */
+  private async assertRecipients(userIds: string[], reportType: ReportType, parameters: ReportParameters) {
+    const definition = REPORT_DEFINITIONS[reportType];
+    const found = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, roles: true, cityId: true },
+    });
+    const unknown = userIds.filter((id) => !found.some((u) => u.id === id));
+    if (unknown.length > 0) {
+      throw new BusinessError('REPORT_RECIPIENT_INVALID', 'Unknown report recipients', 422, { userIds: unknown });
+    }
+
+    const franchise = parameters.franchiseId
+      ? await this.prisma.franchise.findUnique({ where: { id: parameters.franchiseId } })
+      : null;
+    const inScope = (user: (typeof found)[number]) => {
+      const roles = user.roles.filter((role) => definition.roles.includes(role));
+      if (roles.includes('super_admin')) return true;
+      if (roles.includes('franchise_owner') && franchise?.ownerUserId === user.id) return true;
+      return (
+        !parameters.franchiseId &&
+        !!parameters.cityId &&
+        user.cityId === parameters.cityId &&
+        roles.some((role) => role !== 'franchise_owner')
+      );
+    };
+    const rejected = found.filter((u) => !inScope(u)).map((u) => u.id);
+    if (rejected.length > 0) {
+      throw new BusinessError(
+        'REPORT_RECIPIENT_INVALID',
+        'Report recipients must be staff within the report scope',
+        422,
+        { userIds: rejected },
+      );
+    }
+  }
+
+  private requireBoss() {
+    if (!this.boss) {
+      throw new BusinessError('REPORT_SCHEDULER_UNAVAILABLE', 'Report scheduling is not available', 503);
+    }
+    return this.boss;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * [P1] Tests for the city SLA calendar — working hours, weekends, holidays
+ */
+import { describe, test, expect } from 'vitest';
+import { SlaCalendar } from '../sla-calendar.js';
+
+// 10:00–18:00 IST == 04:30–12:30 UTC
+const calendar = new SlaCalendar({
+  workingHours: { weekdayStart: '10:00', weekdayEnd: '18:00', sundayClosed: true },
+  holidayCalendar: [{ date: '2025-10-21', name: 'Diwali', type: 'national' }],
+});
+
+describe('[P1] SlaCalendar', () => {
+  test('counts only working hours within a day', () => {
+    // Monday 08:00 IST to 20:00 IST → 8 working hours
+    const minutes = calendar.workingMinutesBetween(
+      new Date('2025-01-06T02:30:00Z'),
+      new Date('2025-01-06T14:30:00Z'),
+    );
+    expect(minutes).toBe(8 * 60);
+  });
+
+  test('skips weekends and configured holidays', () => {
+    // Mon 20 Oct → Fri 24 Oct with Diwali on Tue 21 Oct: 3 business days
+    const days = calendar.businessDaysBetween(
+      new Date('2025-10-20T04:30:00Z'),
+      new Date('2025-10-24T04:30:00Z'),
+    );
+    expect(days).toBe(3);
+    expect(calendar.isWorkingDay(new Date('2025-10-21T06:00:00Z'))).toBe(false);
+    expect(calendar.isWorkingDay(new Date('2025-10-26T06:00:00Z'))).toBe(false); // Sunday
+  });
+
+  test('addBusinessDays lands after the holiday and weekend', () => {
+    // Fri 17 Oct 14:00 IST + 2 business days → Wed 22 Oct 14:00 IST
+    const deadline = calendar.addBusinessDays(new Date('2025-10-17T08:30:00Z'), 2);
+    expect(deadline.toISOString()).toBe('2025-10-22T08:30:00.000Z');
+  });
+
+  test('Saturday counts only when Saturday hours are configured', () => {
+    const withSaturday = new SlaCalendar({
+      workingHours: {
+        weekdayStart: '10:00',
+        weekdayEnd: '18:00',
+        saturdayStart: '10:00',
+        saturdayEnd: '14:00',
+        sundayClosed: true,
+      },
+    });
+    const saturday = new Date('2025-01-11T04:30:00Z');
+    const saturdayEvening = new Date('2025-01-11T14:30:00Z');
+
+    expect(calendar.workingMinutesBetween(saturday, saturdayEvening)).toBe(0);
+    expect(withSaturday.workingMinutesBetween(saturday, saturdayEvening)).toBe(4 * 60);
+  });
+
+  test('elapsedSlaMinutes stops at slaPausedAt and excludes earlier pauses', () => {
+    const start = new Date('2025-01-06T04:30:00Z'); // Mon 10:00 IST
+    const now = new Date('2025-01-08T04:30:00Z'); // Wed 10:00 IST
+
+    expect(calendar.elapsedSlaMinutes(start, now)).toBe(2 * 8 * 60);
+    expect(
+      calendar.elapsedSlaMinutes(start, now, {
+        slaPausedAt: new Date('2025-01-07T04:30:00Z'),
+      }),
+    ).toBe(8 * 60);
+    expect(
+      calendar.elapsedSlaMinutes(start, now, { slaPausedDuration: 120 }),
+    ).toBe(2 * 8 * 60 - 120);
+  });
+
+  test('fromCityConfig falls back to defaults for invalid config', () => {
+    const fallback = SlaCalendar.fromCityConfig({ workingHours: { weekdayStart: 'bad' } });
+    expect(fallback.minutesPerBusinessDay).toBe(8 * 60);
+    expect(SlaCalendar.fromCityConfig(null).minutesPerBusinessDay).toBe(8 * 60);
+  });
+});
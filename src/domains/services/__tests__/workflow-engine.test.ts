@@ -902,4 +902,151 @@ describe('[P0] Workflow Engine - State Machine', () => {
       expect(result.error).toContain('Invalid transition');
     });
   });
+
+  describe('[P1] Guards, Optional Steps & Parallel Groups', () => {
+    const step = (index: number, extra: Record<string, unknown> = {}) => ({
+      index,
+      name: `Step ${index + 1}`,
+      description: `Description ${index + 1}`,
+      estimatedDays: 1,
+      ...extra,
+    });
+
+    test('guarded step is skipped when its guard fails', () => {
+      // Given: Step 2 only applies to agricultural land
+      const def = {
+        ...basicDefinition,
+        steps: [
+          step(0),
+          step(1, {
+            guards: [{ field: 'propertyType', operator: 'equals', value: 'agricultural' }],
+          }),
+          step(2),
+        ],
+      } as ServiceDefinitionJson;
+
+      // When/Then: Residential skips the survey, agricultural does not
+      const residential = { data: { propertyType: 'residential' } };
+      const agricultural = { data: { propertyType: 'agricultural' } };
+      expect(engine.getValidTransitions('step_1', def, residential)).toEqual([
+        'step_3',
+        'halted',
+      ]);
+      expect(engine.getValidTransitions('step_1', def, agricultural)).toEqual([
+        'step_2',
+        'halted',
+      ]);
+      expect(engine.buildStateList(def, residential)).not.toContain('step_2');
+    });
+
+    test('guards support dot paths and set operators', () => {
+      const def = {
+        ...basicDefinition,
+        steps: [
+          step(0, {
+            guards: [
+              { field: 'survey.zone', operator: 'in', value: ['A', 'B'] },
+              { field: 'propertyValuePaise', operator: 'gte', value: 1000 },
+            ],
+          }),
+        ],
+      } as ServiceDefinitionJson;
+
+      expect(
+        engine.getValidTransitions('in_progress', def, {
+          data: { survey: { zone: 'A' }, propertyValuePaise: 5000 },
+        }),
+      ).toEqual(['step_1', 'halted']);
+      expect(
+        engine.getValidTransitions('in_progress', def, {
+          data: { survey: { zone: 'C' }, propertyValuePaise: 5000 },
+        }),
+      ).toEqual(['completed', 'halted']);
+    });
+
+    test('optional step can be entered or skipped', () => {
+      const def = {
+        ...basicDefinition,
+        steps: [step(0), step(1, { optional: true }), step(2)],
+      } as ServiceDefinitionJson;
+
+      expect(engine.getValidTransitions('step_1', def)).toEqual([
+        'step_2',
+        'step_3',
+        'halted',
+      ]);
+    });
+
+    test('parallel group members can start in any order and join before continuing', () => {
+      // Given: Steps 2 and 3 run in parallel
+      const def = {
+        ...basicDefinition,
+        steps: [
+          step(0),
+          step(1, { parallelGroup: 'offices' }),
+          step(2, { parallelGroup: 'offices' }),
+          step(3),
+        ],
+      } as ServiceDefinitionJson;
+
+      // Entering the group offers every member
+      expect(engine.getValidTransitions('step_1', def)).toEqual([
+        'step_2',
+        'step_3',
+        'halted',
+      ]);
+      // Leaving step_3 first cannot pass the join while step_2 is pending
+      expect(engine.getValidTransitions('step_3', def)).toEqual([
+        'step_2',
+        'halted',
+      ]);
+      // Once step_3 is recorded, finishing step_2 joins to step_4
+      expect(
+        engine.getValidTransitions('step_2', def, { completedSteps: [3] }),
+      ).toEqual(['step_4', 'halted']);
+    });
+
+    test('transition() records completed parallel steps in metadata', async () => {
+      const def = {
+        ...basicDefinition,
+        steps: [
+          step(0, { parallelGroup: 'offices' }),
+          step(1, { parallelGroup: 'offices' }),
+        ],
+      } as ServiceDefinitionJson;
+
+      let capturedUpdateData: any;
+      mockPrismaTransaction.mockImplementation(async (callback) => {
+        return callback({
+          serviceInstance: {
+            findUnique: vi.fn().mockResolvedValue({
+              id: 'parallel',
+              state: 'step_1',
+              currentStepIndex: 0,
+              metadata: {},
+              serviceDefinition: { definition: def },
+            }),
+            updateMany: vi.fn().mockImplementation(({ data }) => {
+              capturedUpdateData = data;
+              return Promise.resolve({ count: 1 });
+            }),
+          },
+          serviceStateHistory: {
+            create: vi.fn().mockResolvedValue({ id: 'hist-parallel' }),
+          },
+        });
+      });
+
+      // When: step_1 hands over to its sibling
+      const result = await engine.transition({
+        serviceInstanceId: 'parallel',
+        newState: 'step_2',
+        changedBy: 'agent',
+      });
+
+      // Then: step_1 is recorded as done for the join
+      expect(result.success).toBe(true);
+      expect(capturedUpdateData.metadata.parallelStepsCompleted).toEqual([1]);
+    });
+  });
 });
@@ -1,4 +1,7 @@
 // Story 13-14: NRI SLA Extension Configuration
+// All values are business days on the city's SLA calendar.
+
+import type { SlaCalendar } from './sla-calendar.js';
 
 // NRI SLA multiplier: extend standard SLAs by this factor
 export const NRI_SLA_MULTIPLIER = 1.5; // 50% extra time
@@ -6,15 +9,15 @@ export const NRI_SLA_MULTIPLIER = 1.5; // 50% extra time
 // Additional days for POA-related services
 export const POA_PROCESSING_DAYS = 14;
 
-// Maximum SLA extension (in days)
+// Maximum SLA extension (in business days)
 export const MAX_NRI_SLA_EXTENSION_DAYS = 30;
 
 /**
  * Calculate the extended SLA for NRI service requests.
  *
- * @param standardSlaDays - The standard SLA in days for domestic customers
+ * @param standardSlaDays - The standard SLA in business days for domestic customers
  * @param requiresPoa - Whether the service requires a Power of Attorney
- * @returns The adjusted SLA in days for NRI customers
+ * @returns The adjusted SLA in business days for NRI customers
  */
 export function calculateNriSla(
   standardSlaDays: number,
@@ -29,3 +32,24 @@ export function calculateNriSla(
     standardSlaDays + MAX_NRI_SLA_EXTENSION_DAYS
   );
 }
+
+/**
+ * Calculate the NRI SLA deadline, skipping non-working time on the city calendar.
+ *
+ * @param startedAt - When the SLA clock starts
+ * @param standardSlaDays - The standard SLA in business days for domestic customers
+ * @param requiresPoa - Whether the service requires a Power of Attorney
+ * @param calendar - The city's SLA calendar
+ * @returns The deadline for NRI customers
+ */
+export function calculateNriSlaDeadline(
+  startedAt: Date,
+  standardSlaDays: number,
+  requiresPoa: boolean,
+  calendar: SlaCalendar
+): Date {
+  return calendar.addBusinessDays(
+    startedAt,
+    calculateNriSla(standardSlaDays, requiresPoa)
+  );
+}
@@ -1,8 +1,8 @@
 // Story 13-5: POA Template Generation & Customization Service
 import { PrismaClient } from '@prisma/client';
-import PDFDocument from 'pdfkit';
 import { getStorage } from 'firebase-admin/storage';
 import crypto from 'crypto';
+import { DocumentSigningService } from '../../shared/signing/document-signing.service.js';
 
 const POA_TEMPLATES = {
   mutation: {
@@ -30,7 +30,10 @@ const POA_TEMPLATES = {
 export type PoaServiceType = keyof typeof POA_TEMPLATES;
 
 export class PoaTemplateService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private prisma: PrismaClient,
+    private signing = new DocumentSigningService(prisma),
+  ) {}
 
   async generatePoa(params: {
     customerId: string;
@@ -67,7 +70,22 @@ export class PoaTemplateService {
       where: { id: params.customerId },
       select: { displayName: true },
     });
+    // A new POA for the same request and purpose replaces the earlier ones
+    const replaced = params.serviceRequestId
+      ? await this.prisma.poaDocument.findMany({
+          where: {
+            customerId: params.customerId,
+            serviceRequestId: params.serviceRequestId,
+            serviceType: params.serviceType,
+            id: { not: poa.id },
+          },
+          select: { id: true },
+        })
+      : [];
     const pdfBuffer = await this.generatePoaPdf({
+      poaId: poa.id,
+      cityId: params.cityId,
+      supersedesPoaIds: replaced.map((p) => p.id),
       template: POA_TEMPLATES[params.serviceType],
       principalName: customer?.displayName || 'Principal',
       principalAddress: '', // Customer address is not stored on User; resolved at intake
@@ -94,6 +112,9 @@ export class PoaTemplateService {
   }
 
   private async generatePoaPdf(data: {
+    poaId: string;
+    cityId: string;
+    supersedesPoaIds: string[];
     template: { title: string; scopeClause: string };
     principalName: string;
     principalAddress: string;
@@ -103,45 +124,48 @@ export class PoaTemplateService {
     validFrom: Date;
     validUntil: Date;
   }): Promise<Buffer> {
-    return new Promise((resolve) => {
-      const doc = new PDFDocument({ margin: 50 });
-      const buffers: Buffer[] = [];
-      doc.on('data', (chunk: Buffer) => buffers.push(chunk));
-      doc.on('end', () => resolve(Buffer.concat(buffers)));
-
-      doc.fontSize(16).text(data.template.title, { align: 'center' });
-      doc.moveDown(2);
-      doc.fontSize(11);
-      doc.text(
-        `I, ${data.principalName}, residing at ${data.principalAddress}, hereby appoint:`
-      );
-      doc.moveDown();
-      doc.text(
-        `${data.attorneyName}, residing at ${data.attorneyAddress}`
-      );
-      doc.moveDown();
-      doc.text(
-        `as my lawful attorney ${data.template.scopeClause}.`
-      );
-      doc.moveDown();
-      doc.text('Scope of Authority:', { underline: true });
-      data.scopeOfAuthority.forEach((scope) => {
-        doc.text(`  - ${scope}`);
-      });
-      doc.moveDown();
-      doc.text(
-        `Validity: From ${data.validFrom.toLocaleDateString()} to ${data.validUntil.toLocaleDateString()}`
-      );
-      doc.moveDown(2);
-      doc.text(
-        '_________________________          _________________________'
-      );
-      doc.text(
-        'Principal (Signature)               Witness (Signature)'
-      );
-
-      doc.end();
-    });
+    const signed = await this.signing.renderSignedPdf(
+      {
+        kind: 'poa',
+        sourceId: data.poaId,
+        cityId: data.cityId,
+        title: data.template.title,
+        supersedes: data.supersedesPoaIds.map((sourceId) => ({ kind: 'poa' as const, sourceId })),
+      },
+      (doc) => {
+        doc.fontSize(16).text(data.template.title, { align: 'center' });
+        doc.moveDown(2);
+        doc.fontSize(11);
+        doc.text(
+          `I, ${data.principalName}, residing at ${data.principalAddress}, hereby appoint:`
+        );
+        doc.moveDown();
+        doc.text(
+          `${data.attorneyName}, residing at ${data.attorneyAddress}`
+        );
+        doc.moveDown();
+        doc.text(
+          `as my lawful attorney ${data.template.scopeClause}.`
+        );
+        doc.moveDown();
+        doc.text('Scope of Authority:', { underline: true });
+        data.scopeOfAuthority.forEach((scope) => {
+          doc.text(`  - ${scope}`);
+        });
+        doc.moveDown();
+        doc.text(
+          `Validity: From ${data.validFrom.toLocaleDateString()} to ${data.validUntil.toLocaleDateString()}`
+        );
+        doc.moveDown(2);
+        doc.text(
+          '_________________________          _________________________'
+        );
+        doc.text(
+          'Principal (Signature)               Witness (Signature)'
+        );
+      },
+    );
+    return signed.pdf;
   }
 
   async getCustomerPoas(customerId: string) {
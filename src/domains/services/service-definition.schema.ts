@@ -17,6 +17,14 @@ export const requiredDocumentSchema = z.object({
   source: z.enum(['customer', 'government', 'agent']),
 });
 
+export const stepGuardSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(['equals', 'not_equals', 'in', 'not_in', 'exists', 'gt', 'gte', 'lt', 'lte']),
+  value: z
+    .union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])
+    .optional(),
+});
+
 export const serviceStepSchema = z.object({
   index: z.number().int().min(0),
   name: z.string().min(1),
@@ -27,6 +35,9 @@ export const serviceStepSchema = z.object({
   outputDocuments: z.array(requiredDocumentSchema).optional(),
   agentActions: z.array(z.string()).optional(),
   customerActions: z.array(z.string()).optional(),
+  guards: z.array(stepGuardSchema).optional(),
+  optional: z.boolean().optional(),
+  parallelGroup: z.string().min(1).optional(),
 });
 
 export const estimatedFeesSchema = z.object({
@@ -37,6 +48,13 @@ export const estimatedFeesSchema = z.object({
   registrationPercent: z.number().optional(),
 });
 
+export const agentRequirementsSchema = z.object({
+  trainingCategories: z.array(z.string().min(1)).optional(),
+  governmentOffices: z.array(z.string().min(1)).optional(),
+  languages: z.array(z.string().min(2)).optional(),
+  expertiseTags: z.array(z.string().min(1)).optional(),
+});
+
 export const serviceDefinitionJsonSchema = z.object({
   serviceCode: z.string().min(1),
   serviceName: z.string().min(1),
@@ -51,6 +69,24 @@ export const serviceDefinitionJsonSchema = z.object({
   slaBusinessDays: z.number().int().min(1),
   prerequisites: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
+  agentRequirements: agentRequirementsSchema.optional(),
+}).superRefine((definition, ctx) => {
+  // Parallel groups must be contiguous so the join point is unambiguous
+  const closedGroups = new Set<string>();
+  let openGroup: string | undefined;
+  definition.steps.forEach((step, i) => {
+    if (step.parallelGroup !== openGroup) {
+      if (openGroup) closedGroups.add(openGroup);
+      if (step.parallelGroup && closedGroups.has(step.parallelGroup)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', i, 'parallelGroup'],
+          message: `Parallel group '${step.parallelGroup}' steps must be consecutive`,
+        });
+      }
+      openGroup = step.parallelGroup;
+    }
+  });
 });
 
 export const createServiceDefinitionSchema = z.object({
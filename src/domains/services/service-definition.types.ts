@@ -15,6 +15,16 @@ export interface RequiredDocument {
   source: 'customer' | 'government' | 'agent';
 }
 
+/**
+ * Guard evaluated against service data (instance property fields + metadata).
+ * `field` supports dot paths into metadata, e.g. `landUse` or `survey.required`.
+ */
+export interface StepGuard {
+  field: string;
+  operator: 'equals' | 'not_equals' | 'in' | 'not_in' | 'exists' | 'gt' | 'gte' | 'lt' | 'lte';
+  value?: string | number | boolean | Array<string | number>;
+}
+
 export interface ServiceStep {
   index: number;
   name: string;
@@ -25,6 +35,23 @@ export interface ServiceStep {
   outputDocuments?: RequiredDocument[];
   agentActions?: string[];
   customerActions?: string[];
+  /** All guards must pass for the step to apply; otherwise it is skipped */
+  guards?: StepGuard[];
+  /** Optional steps may be skipped by the agent */
+  optional?: boolean;
+  /** Consecutive steps sharing a group run in parallel and join before the next step */
+  parallelGroup?: string;
+}
+
+/** Hard requirements an agent must meet to be auto-assigned this service */
+export interface AgentRequirements {
+  /** Training learning paths the agent must have passed (TrainingModule.learningPath) */
+  trainingCategories?: string[];
+  /** Government offices the agent must be registered at */
+  governmentOffices?: string[];
+  /** At least one of these languages must be spoken */
+  languages?: string[];
+  expertiseTags?: string[];
 }
 
 export interface EstimatedFees {
@@ -49,4 +76,5 @@ export interface ServiceDefinitionJson {
   slaBusinessDays: number;
   prerequisites?: string[];
   tags?: string[];
+  agentRequirements?: AgentRequirements;
 }
@@ -5,6 +5,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { WorkflowEngine } from './workflow-engine.js';
+import { SlaService } from './sla.service.js';
 import { BusinessError } from '../../shared/errors/business-error.js';
 
 export type HaltReason =
@@ -35,12 +36,14 @@ export interface ResumeServicePayload {
 
 export class ServiceHaltService {
   private engine: WorkflowEngine;
+  private slaService: SlaService;
 
   constructor(
     private prisma: PrismaClient,
     private boss: any, // PgBoss instance - namespace import cannot be used as type
   ) {
     this.engine = new WorkflowEngine(prisma);
+    this.slaService = new SlaService(prisma);
   }
 
   /**
@@ -111,6 +114,9 @@ export class ServiceHaltService {
       );
     }
 
+    // Halted time does not count against the SLA
+    await this.slaService.pauseSla(payload.serviceInstanceId);
+
     // Notify stakeholders
     await this.boss.send('notification.send', {
       type: 'service_halted',
@@ -187,6 +193,9 @@ export class ServiceHaltService {
       );
     }
 
+    // Restart the SLA clock and push the deadline out by the halted time
+    await this.slaService.resumeSla(payload.serviceInstanceId);
+
     // Notify stakeholders
     await this.boss.send('notification.send', {
       type: 'service_resumed',
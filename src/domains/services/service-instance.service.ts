@@ -4,7 +4,10 @@
 
 import { PrismaClient } from '@prisma/client';
 import { WorkflowEngine } from './workflow-engine.js';
+import { loadSlaCalendar } from './sla-calendar.js';
 import { BusinessError } from '../../shared/errors/business-error.js';
+import { logger } from '../../shared/utils/logger';
+import { InstalmentPlanService } from '../payments/instalment-plan.service.js';
 import {
   parsePagination,
   buildPaginatedResponse,
@@ -20,12 +23,14 @@ export interface CreateInstancePayload {
 
 export class ServiceInstanceService {
   private engine: WorkflowEngine;
+  private instalments: InstalmentPlanService;
 
   constructor(
     private prisma: PrismaClient,
     private boss: any, // PgBoss instance - namespace import cannot be used as type
   ) {
     this.engine = new WorkflowEngine(prisma);
+    this.instalments = new InstalmentPlanService(prisma, boss);
   }
 
   /**
@@ -63,6 +68,15 @@ export class ServiceInstanceService {
       );
     }
 
+    // SLA deadline counts business days on the city's calendar
+    const def = definition.definition as any;
+    const slaDeadline = def.slaBusinessDays
+      ? (await loadSlaCalendar(this.prisma, payload.cityId)).addBusinessDays(
+          new Date(),
+          def.slaBusinessDays,
+        )
+      : undefined;
+
     const instance = await this.prisma.serviceInstance.create({
       data: {
         customerId: payload.customerId,
@@ -70,6 +84,7 @@ export class ServiceInstanceService {
         cityId: payload.cityId,
         state: 'requested',
         currentStepIndex: -1,
+        slaDeadline,
         metadata: { ...(payload.metadata || {}), createdBy: payload.createdBy } as any,
       },
     });
@@ -86,7 +101,6 @@ export class ServiceInstanceService {
     });
 
     // Schedule SLA timer
-    const def = definition.definition as any;
     if (def.slaBusinessDays) {
       await this.boss.send(
         'sla.check',
@@ -154,6 +168,18 @@ export class ServiceInstanceService {
     reason?: string,
     metadata?: Record<string, unknown>,
   ) {
+    // Step gate: an overdue instalment halts the service instead
+    const blockers = await this.instalments.findGateBlockers(instanceId, newState);
+    if (blockers.length > 0) {
+      await this.instalments.haltForOverdue({ id: blockers[0].planId, serviceInstanceId: instanceId }, blockers);
+      throw new BusinessError(
+        'BUSINESS_INSTALMENT_OVERDUE',
+        'An instalment is overdue; the service is halted until it is paid',
+        422,
+        { instalmentIds: blockers.map((i) => i.id) },
+      );
+    }
+
     const result = await this.engine.transition({
       serviceInstanceId: instanceId,
       newState,
@@ -208,6 +234,10 @@ export class ServiceInstanceService {
       );
     }
 
+    await this.instalments.onStateReached(instanceId, newState).catch((err) => {
+      logger.error({ err, serviceInstanceId: instanceId }, 'Instalment trigger failed');
+    });
+
     // Notify stakeholders
     await this.boss.send('notification.send', {
       type: 'service_state_change',
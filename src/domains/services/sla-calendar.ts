@@ -0,0 +1,203 @@
+// SLA business-day calendar
+// Counts SLA time only inside a city's working hours, skipping Sundays,
+// non-working Saturdays and the city's holiday calendar (CityConfig).
+// All cities operate in IST, so working hours are interpreted at UTC+05:30.
+
+import type { PrismaClient } from '@prisma/client';
+import {
+  holidaySchema,
+  workingHoursSchema,
+  type Holiday,
+  type WorkingHours,
+} from '../franchise/franchise.types.js';
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/** Upper bound on day iteration so a calendar with no working days cannot loop forever */
+const MAX_CALENDAR_DAYS = 3660;
+
+/** Used when a city has no (valid) working hours configured: Mon–Fri 10:00–18:00 */
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  weekdayStart: '10:00',
+  weekdayEnd: '18:00',
+  sundayClosed: true,
+};
+
+export interface SlaCalendarConfig {
+  workingHours?: WorkingHours;
+  holidayCalendar?: Holiday[];
+}
+
+/** Working-time progress of an SLA clock, excluding halted (paused) time */
+export interface SlaPauseState {
+  slaPausedAt?: Date | null;
+  slaPausedDuration?: number | null; // working minutes already paused
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export class SlaCalendar {
+  private readonly workingHours: WorkingHours;
+  private readonly holidays: Set<string>;
+
+  /** Length of one business day — the weekday working window */
+  readonly minutesPerBusinessDay: number;
+
+  constructor(config: SlaCalendarConfig = {}) {
+    this.workingHours = config.workingHours ?? DEFAULT_WORKING_HOURS;
+    this.holidays = new Set((config.holidayCalendar ?? []).map((h) => h.date));
+    this.minutesPerBusinessDay = Math.max(
+      toMinutes(this.workingHours.weekdayEnd) - toMinutes(this.workingHours.weekdayStart),
+      1,
+    );
+  }
+
+  /**
+   * Build a calendar from a City.configData blob. Invalid or missing parts
+   * fall back to defaults rather than failing SLA computation.
+   */
+  static fromCityConfig(configData: unknown): SlaCalendar {
+    const config = (configData ?? {}) as Record<string, unknown>;
+    const hours = workingHoursSchema.safeParse(config.workingHours);
+    const holidays = Array.isArray(config.holidayCalendar)
+      ? config.holidayCalendar
+          .map((h) => holidaySchema.safeParse(h))
+          .filter((r) => r.success)
+          .map((r) => r.data as Holiday)
+      : [];
+
+    return new SlaCalendar({
+      workingHours: hours.success ? hours.data : undefined,
+      holidayCalendar: holidays,
+    });
+  }
+
+  /**
+   * Working window for a local (IST) day as [open, close] minutes from
+   * midnight, or null if the day is not a working day.
+   */
+  private windowFor(localDayStartMs: number): [number, number] | null {
+    const day = new Date(localDayStartMs);
+    if (this.holidays.has(day.toISOString().slice(0, 10))) return null;
+
+    const hours = this.workingHours;
+    switch (day.getUTCDay()) {
+      case 0:
+        if (hours.sundayClosed !== false) return null;
+        break;
+      case 6:
+        if (!hours.saturdayStart || !hours.saturdayEnd) return null;
+        return [toMinutes(hours.saturdayStart), toMinutes(hours.saturdayEnd)];
+    }
+    return [toMinutes(hours.weekdayStart), toMinutes(hours.weekdayEnd)];
+  }
+
+  /**
+   * Whether the given instant falls on a working day in this city.
+   */
+  isWorkingDay(date: Date): boolean {
+    const local = date.getTime() + IST_OFFSET_MS;
+    return this.windowFor(Math.floor(local / DAY_MS) * DAY_MS) !== null;
+  }
+
+  /**
+   * Opening and closing instants of the working day containing `date`,
+   * or null if offices are closed that day.
+   */
+  workingWindowOn(date: Date): { open: Date; close: Date } | null {
+    const day = Math.floor((date.getTime() + IST_OFFSET_MS) / DAY_MS) * DAY_MS;
+    const window = this.windowFor(day);
+    if (!window) return null;
+    return {
+      open: new Date(day + window[0] * MINUTE_MS - IST_OFFSET_MS),
+      close: new Date(day + window[1] * MINUTE_MS - IST_OFFSET_MS),
+    };
+  }
+
+  /**
+   * Working minutes between two instants.
+   */
+  workingMinutesBetween(start: Date, end: Date): number {
+    const startLocal = start.getTime() + IST_OFFSET_MS;
+    const endLocal = end.getTime() + IST_OFFSET_MS;
+    if (endLocal <= startLocal) return 0;
+
+    let totalMs = 0;
+    for (let day = Math.floor(startLocal / DAY_MS) * DAY_MS; day < endLocal; day += DAY_MS) {
+      const window = this.windowFor(day);
+      if (!window) continue;
+      const from = Math.max(day + window[0] * MINUTE_MS, startLocal);
+      const to = Math.min(day + window[1] * MINUTE_MS, endLocal);
+      if (to > from) totalMs += to - from;
+    }
+    return totalMs / MINUTE_MS;
+  }
+
+  /**
+   * Advance an instant by the given number of working minutes.
+   */
+  addWorkingMinutes(start: Date, minutes: number): Date {
+    let remainingMs = minutes * MINUTE_MS;
+    const cursor = start.getTime() + IST_OFFSET_MS;
+    if (remainingMs <= 0) return new Date(start);
+
+    let day = Math.floor(cursor / DAY_MS) * DAY_MS;
+    for (let i = 0; i < MAX_CALENDAR_DAYS; i++, day += DAY_MS) {
+      const window = this.windowFor(day);
+      if (!window) continue;
+      const from = Math.max(day + window[0] * MINUTE_MS, cursor);
+      const close = day + window[1] * MINUTE_MS;
+      if (from >= close) continue;
+
+      if (remainingMs <= close - from) {
+        return new Date(from + remainingMs - IST_OFFSET_MS);
+      }
+      remainingMs -= close - from;
+    }
+
+    throw new Error('SLA calendar has no working time within range');
+  }
+
+  /**
+   * Deadline `days` business days after `start`.
+   */
+  addBusinessDays(start: Date, days: number): Date {
+    return this.addWorkingMinutes(start, days * this.minutesPerBusinessDay);
+  }
+
+  /**
+   * Business days (fractional) between two instants.
+   */
+  businessDaysBetween(start: Date, end: Date): number {
+    return this.workingMinutesBetween(start, end) / this.minutesPerBusinessDay;
+  }
+
+  /**
+   * Working minutes an SLA clock has run since `start`. The clock stops at
+   * `slaPausedAt` while halted and excludes previously paused time.
+   */
+  elapsedSlaMinutes(start: Date, now: Date, pause: SlaPauseState = {}): number {
+    const stoppedAt = pause.slaPausedAt ?? now;
+    const elapsed = this.workingMinutesBetween(start, stoppedAt) - (pause.slaPausedDuration ?? 0);
+    return Math.max(elapsed, 0);
+  }
+}
+
+/**
+ * Load the SLA calendar for a city from its config.
+ */
+export async function loadSlaCalendar(
+  prisma: PrismaClient,
+  cityId: string,
+): Promise<SlaCalendar> {
+  const city = await prisma.city.findUnique({
+    where: { id: cityId },
+    select: { configData: true },
+  });
+  return SlaCalendar.fromCityConfig(city?.configData);
+}
@@ -1,11 +1,12 @@
 // Story 5-10: SLA Timer Service
 // Monitors service instance deadlines, sends warnings, triggers escalations.
+// Elapsed time is counted on the city's SLA calendar and stops while halted.
 
 import { PrismaClient } from '@prisma/client';
 import { getAllActiveStates } from './workflow-engine.js';
+import { SlaCalendar } from './sla-calendar.js';
 
 const SLA_WARNING_THRESHOLD_PERCENT = 80; // Warn at 80% of SLA time elapsed
-const BUSINESS_HOURS_PER_DAY = 8;
 
 export interface SlaStatus {
   serviceInstanceId: string;
@@ -48,22 +49,24 @@ export class SlaTimerService {
   async getSlaStatus(serviceInstanceId: string): Promise<SlaStatus | null> {
     const instance = await this.prisma.serviceInstance.findUnique({
       where: { id: serviceInstanceId },
-      include: { serviceDefinition: true },
+      include: {
+        serviceDefinition: true,
+        city: { select: { configData: true } },
+      },
     });
 
     if (!instance) return null;
 
     const def = instance.serviceDefinition.definition as any;
     const slaBusinessDays = def.slaBusinessDays || 15;
+    const calendar = SlaCalendar.fromCityConfig(instance.city?.configData);
 
     // Count SLA from when work actually started (transition to in_progress),
     // not from when the service request was created
     const workStartDate = await this.getWorkStartDate(serviceInstanceId, instance.createdAt);
 
-    const elapsedBusinessDays = this.calculateBusinessDays(
-      workStartDate,
-      new Date(),
-    );
+    const elapsedMinutes = calendar.elapsedSlaMinutes(workStartDate, new Date(), instance);
+    const elapsedBusinessDays = Math.floor(elapsedMinutes / calendar.minutesPerBusinessDay);
 
     const remainingBusinessDays = Math.max(
       slaBusinessDays - elapsedBusinessDays,
@@ -85,7 +88,12 @@ export class SlaTimerService {
       isBreached,
       isWarning,
       breachedAt: isBreached
-        ? this.addBusinessDays(workStartDate, slaBusinessDays).toISOString()
+        ? calendar
+            .addWorkingMinutes(
+              workStartDate,
+              slaBusinessDays * calendar.minutesPerBusinessDay + (instance.slaPausedDuration ?? 0),
+            )
+            .toISOString()
         : undefined,
       currentState: instance.state,
     };
@@ -207,36 +215,4 @@ export class SlaTimerService {
       recentBreaches,
     };
   }
-
-  /**
-   * Calculate business days between two dates (excludes weekends).
-   */
-  private calculateBusinessDays(start: Date, end: Date): number {
-    let count = 0;
-    const current = new Date(start);
-    while (current < end) {
-      const day = current.getDay();
-      if (day !== 0 && day !== 6) {
-        count++;
-      }
-      current.setDate(current.getDate() + 1);
-    }
-    return count;
-  }
-
-  /**
-   * Add business days to a date.
-   */
-  private addBusinessDays(start: Date, days: number): Date {
-    const result = new Date(start);
-    let added = 0;
-    while (added < days) {
-      result.setDate(result.getDate() + 1);
-      const day = result.getDay();
-      if (day !== 0 && day !== 6) {
-        added++;
-      }
-    }
-    return result;
-  }
 }
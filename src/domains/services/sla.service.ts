@@ -8,6 +8,10 @@
  * - SLA status checking for service instances
  * - SLA breach detection and escalation
  * - SLA compliance reporting
+ * - Pausing the SLA clock while a service is halted
+ *
+ * All durations are measured on the city's SlaCalendar (working hours,
+ * weekends and holidays from City.configData), not raw calendar days.
  *
  * IMPORTANT: Schema field mapping:
  *   ServiceInstance.state  (lowercase: requested, in_progress, completed, delivered, cancelled, etc.)
@@ -19,10 +23,14 @@
 
 import { PrismaClient } from '@prisma/client';
 import { BusinessError } from '../../shared/errors/business-error';
+import { SlaCalendar, loadSlaCalendar } from './sla-calendar';
 
 /** Terminal states — service lifecycle is over */
 const TERMINAL_STATES = ['completed', 'delivered', 'cancelled'];
 
+/** States whose SLA clock is not running (terminal or halted) */
+const CLOCK_STOPPED_STATES = [...TERMINAL_STATES, 'halted'];
+
 export interface SlaConfig {
   targetCompletionDays: number;
   warningThresholdDays: number;
@@ -102,7 +110,10 @@ export class SlaService {
       select: {
         id: true,
         state: true,
+        cityId: true,
         slaDeadline: true,
+        slaPausedAt: true,
+        slaPausedDuration: true,
         serviceDefinitionId: true,
         createdAt: true,
       },
@@ -125,18 +136,24 @@ export class SlaService {
     }
 
     const slaConfig = await this.getSlaConfig(instance.serviceDefinitionId);
-    const now = new Date();
-    const targetDate = instance.slaDeadline || new Date(
-      instance.createdAt.getTime() + slaConfig.targetCompletionDays * 24 * 60 * 60 * 1000
+    const calendar = await loadSlaCalendar(this.prisma, instance.cityId);
+
+    // The clock is frozen at slaPausedAt while the service is halted
+    const now = instance.slaPausedAt ?? new Date();
+    const targetDate = instance.slaDeadline || calendar.addWorkingMinutes(
+      instance.createdAt,
+      slaConfig.targetCompletionDays * calendar.minutesPerBusinessDay + instance.slaPausedDuration,
     );
 
-    const msRemaining = targetDate.getTime() - now.getTime();
-    const hoursRemaining = Math.floor(msRemaining / (1000 * 60 * 60));
-    const daysRemaining = Math.floor(hoursRemaining / 24);
+    const minutesRemaining = now < targetDate
+      ? calendar.workingMinutesBetween(now, targetDate)
+      : 0;
+    const hoursRemaining = Math.floor(minutesRemaining / 60);
+    const daysRemaining = Math.floor(minutesRemaining / calendar.minutesPerBusinessDay);
 
     // Determine status
     let status: 'on_track' | 'at_risk' | 'breached';
-    if (msRemaining <= 0) {
+    if (now >= targetDate) {
       status = 'breached';
     } else if (daysRemaining <= (slaConfig.targetCompletionDays - slaConfig.warningThresholdDays)) {
       status = 'at_risk';
@@ -144,9 +161,9 @@ export class SlaService {
       status = 'on_track';
     }
 
-    // Determine escalation level
+    // Determine escalation level (business days the clock has run)
     const daysSinceCreation = Math.floor(
-      (now.getTime() - instance.createdAt.getTime()) / (1000 * 60 * 60 * 24)
+      calendar.elapsedSlaMinutes(instance.createdAt, now, instance) / calendar.minutesPerBusinessDay
     );
 
     let escalationLevel: number | undefined;
@@ -184,7 +201,7 @@ export class SlaService {
     const activeInstances = await this.prisma.serviceInstance.findMany({
       where: {
         ...(cityId && { cityId }),
-        state: { notIn: TERMINAL_STATES },
+        state: { notIn: CLOCK_STOPPED_STATES },
       },
       select: {
         id: true,
@@ -264,6 +281,7 @@ export class SlaService {
    *
    * Since ServiceInstance has no completedAt, we derive completion timing
    * from ServiceStateHistory (transition to 'completed' or 'delivered').
+   * Halted services are neither breached nor at risk — their clock is paused.
    */
   async getSlaReport(
     cityId: string | undefined,
@@ -278,6 +296,17 @@ export class SlaService {
       },
     };
 
+    const now = new Date();
+    const calendars = new Map<string, SlaCalendar>();
+    const calendarFor = async (id: string) => {
+      let calendar = calendars.get(id);
+      if (!calendar) {
+        calendar = await loadSlaCalendar(this.prisma, id);
+        calendars.set(id, calendar);
+      }
+      return calendar;
+    };
+
     const [
       totalServices,
       completed,
@@ -297,8 +326,8 @@ export class SlaService {
       this.prisma.serviceInstance.count({
         where: {
           ...where,
-          state: { notIn: TERMINAL_STATES },
-          slaDeadline: { lt: new Date() },
+          state: { notIn: CLOCK_STOPPED_STATES },
+          slaDeadline: { lt: now },
         },
       }),
     ]);
@@ -311,33 +340,38 @@ export class SlaService {
         state: { in: ['completed', 'delivered'] },
       },
       select: {
+        cityId: true,
         createdAt: true,
         updatedAt: true,
+        slaPausedDuration: true,
       },
     });
 
     let avgCompletionDays = 0;
     if (completedInstances.length > 0) {
-      const totalDays = completedInstances.reduce((sum, inst) => {
+      let totalDays = 0;
+      for (const inst of completedInstances) {
         // Use updatedAt as a proxy for completion time
-        const days = Math.floor(
-          (inst.updatedAt.getTime() - inst.createdAt.getTime()) / (1000 * 60 * 60 * 24)
+        const calendar = await calendarFor(inst.cityId);
+        totalDays += Math.floor(
+          calendar.elapsedSlaMinutes(inst.createdAt, inst.updatedAt, inst) /
+            calendar.minutesPerBusinessDay
         );
-        return sum + days;
-      }, 0);
+      }
       avgCompletionDays = Math.round(totalDays / completedInstances.length);
     }
 
-    // At risk: not breached but within warning threshold
-    const warningThreshold = new Date();
-    warningThreshold.setDate(warningThreshold.getDate() + 2);
+    // At risk: not breached but within 2 business days of the deadline
+    const warningThreshold = cityId
+      ? (await calendarFor(cityId)).addBusinessDays(now, 2)
+      : new SlaCalendar().addBusinessDays(now, 2);
 
     const atRisk = await this.prisma.serviceInstance.count({
       where: {
         ...where,
-        state: { notIn: TERMINAL_STATES },
+        state: { notIn: CLOCK_STOPPED_STATES },
         slaDeadline: {
-          gte: new Date(),
+          gte: now,
           lte: warningThreshold,
         },
       },
@@ -421,11 +455,13 @@ export class SlaService {
   /**
    * Updates SLA deadline for a service instance.
    * AC5: Extend SLA when necessary.
+   * `extension` is either an explicit deadline or a number of business days
+   * added to the current deadline on the city's SLA calendar.
    * Uses ServiceStateHistory.fromState/toState (NOT previousState/newState).
    */
   async extendSlaDeadline(
     instanceId: string,
-    newDeadline: Date,
+    extension: Date | number,
     reason: string,
     extendedBy: string,
   ) {
@@ -437,6 +473,20 @@ export class SlaService {
       throw new BusinessError('INSTANCE_NOT_FOUND', 'Service instance not found', 404);
     }
 
+    let newDeadline: Date;
+    if (typeof extension === 'number') {
+      if (!Number.isInteger(extension) || extension <= 0) {
+        throw new BusinessError('INVALID_EXTENSION', 'Extension must be a positive number of business days', 422);
+      }
+      const calendar = await loadSlaCalendar(this.prisma, instance.cityId);
+      const base = instance.slaDeadline && instance.slaDeadline > new Date()
+        ? instance.slaDeadline
+        : new Date();
+      newDeadline = calendar.addBusinessDays(base, extension);
+    } else {
+      newDeadline = extension;
+    }
+
     if (newDeadline < new Date()) {
       throw new BusinessError('INVALID_DEADLINE', 'New deadline must be in the future', 422);
     }
@@ -457,4 +507,45 @@ export class SlaService {
       data: { slaDeadline: newDeadline },
     });
   }
+
+  /**
+   * Stops the SLA clock when a service is halted.
+   * No-op if the clock is already paused.
+   */
+  async pauseSla(instanceId: string, pausedAt: Date = new Date()) {
+    await this.prisma.serviceInstance.updateMany({
+      where: { id: instanceId, slaPausedAt: null },
+      data: { slaPausedAt: pausedAt },
+    });
+  }
+
+  /**
+   * Restarts the SLA clock when a halted service resumes.
+   * The working time spent halted is added to slaPausedDuration and the
+   * deadline is pushed out by the same amount.
+   */
+  async resumeSla(instanceId: string, resumedAt: Date = new Date()) {
+    const instance = await this.prisma.serviceInstance.findUnique({
+      where: { id: instanceId },
+      select: { cityId: true, slaDeadline: true, slaPausedAt: true, slaPausedDuration: true },
+    });
+
+    if (!instance?.slaPausedAt) return;
+
+    const calendar = await loadSlaCalendar(this.prisma, instance.cityId);
+    const pausedMinutes = Math.round(
+      calendar.workingMinutesBetween(instance.slaPausedAt, resumedAt)
+    );
+
+    await this.prisma.serviceInstance.update({
+      where: { id: instanceId },
+      data: {
+        slaPausedAt: null,
+        slaPausedDuration: instance.slaPausedDuration + pausedMinutes,
+        ...(instance.slaDeadline && {
+          slaDeadline: calendar.addWorkingMinutes(instance.slaDeadline, pausedMinutes),
+        }),
+      },
+    });
+  }
 }
@@ -2,9 +2,15 @@
 // Story 5-5: Config-driven workflow state machine engine
 // States: requested → assigned → payment_pending → paid → in_progress → step_1..step_N → completed → delivered
 // Branches: halted, refund_pending, cancelled (from any active state)
+// Steps may declare guards (skipped when false), be optional, or share a
+// parallelGroup (entered in any order, joined before the next step).
 
 import type { PrismaClient } from '@prisma/client';
-import type { ServiceDefinitionJson } from './service-definition.types.js';
+import type {
+  ServiceDefinitionJson,
+  ServiceStep,
+  StepGuard,
+} from './service-definition.types.js';
 
 // ============================================================
 // State Machine Configuration
@@ -64,10 +70,22 @@ const BASE_TRANSITIONS: Record<string, string[]> = {
   cancelled: [],
 };
 
+/** Instance metadata key recording finished steps of parallel groups (1-based) */
+export const PARALLEL_COMPLETED_KEY = 'parallelStepsCompleted';
+
 // ============================================================
 // Transition Types
 // ============================================================
 
+/**
+ * Runtime data used to resolve step guards and parallel joins.
+ * Definitions without guards or parallel groups ignore it entirely.
+ */
+export interface WorkflowContext {
+  data?: Record<string, unknown>;
+  completedSteps?: number[];
+}
+
 export interface TransitionRequest {
   serviceInstanceId: string;
   newState: string;
@@ -95,8 +113,12 @@ export class WorkflowEngine {
   /**
    * Build the full ordered list of states for a service definition.
    * System states + step_1..step_N inserted between in_progress and completed.
+   * When a context is given, steps whose guards fail are left out.
    */
-  buildStateList(definition: ServiceDefinitionJson): string[] {
+  buildStateList(
+    definition: ServiceDefinitionJson,
+    context?: WorkflowContext,
+  ): string[] {
     const states: string[] = [
       'requested',
       'assigned',
@@ -105,9 +127,11 @@ export class WorkflowEngine {
       'in_progress',
     ];
 
-    for (let i = 1; i <= definition.steps.length; i++) {
-      states.push(`step_${i}`);
-    }
+    definition.steps.forEach((step, i) => {
+      if (!context || evaluateGuards(step, context.data ?? {})) {
+        states.push(`step_${i + 1}`);
+      }
+    });
 
     states.push('completed', 'delivered');
     return states;
@@ -115,22 +139,40 @@ export class WorkflowEngine {
 
   /**
    * Get valid transitions from a given state, considering the service definition.
+   * Guards are evaluated against `context.data`; parallel joins use
+   * `context.completedSteps`.
    */
   getValidTransitions(
     currentState: string,
     definition: ServiceDefinitionJson,
+    context: WorkflowContext = {},
   ): string[] {
-    const totalSteps = definition.steps.length;
+    const stages = buildStages(definition, context.data ?? {});
     const transitions: string[] = [];
 
     // Check step states
     const stepMatch = currentState.match(/^step_(\d+)$/);
     if (stepMatch) {
       const stepNum = parseInt(stepMatch[1], 10);
-      if (stepNum < totalSteps) {
-        transitions.push(`step_${stepNum + 1}`);
+      const stageIdx = stages.findIndex((stage) =>
+        stage.members.some((m) => m.stepNum === stepNum),
+      );
+
+      if (stageIdx === -1) {
+        // Unknown step (e.g. definition shrank) — allow moving past the chain
+        transitions.push(...entryTargets(stages, stages.length));
+      } else if (stages[stageIdx].parallel) {
+        const done = new Set([...(context.completedSteps ?? []), stepNum]);
+        const members = stages[stageIdx].members.filter((m) => m.applicable);
+        for (const m of members) {
+          if (!done.has(m.stepNum)) transitions.push(`step_${m.stepNum}`);
+        }
+        const joined = members.every((m) => m.optional || done.has(m.stepNum));
+        if (joined) {
+          transitions.push(...entryTargets(stages, stageIdx + 1));
+        }
       } else {
-        transitions.push('completed');
+        transitions.push(...entryTargets(stages, stageIdx + 1));
       }
       transitions.push('halted');
       return transitions;
@@ -142,14 +184,14 @@ export class WorkflowEngine {
       transitions.push(...base);
     }
 
-    // in_progress can go to step_1 if steps exist
-    if (currentState === 'in_progress' && totalSteps > 0) {
-      // Replace 'completed' with 'step_1' when steps exist
+    // in_progress enters the first applicable step if steps exist
+    if (currentState === 'in_progress') {
+      const targets = entryTargets(stages, 0);
       const idx = transitions.indexOf('completed');
       if (idx !== -1) {
         transitions.splice(idx, 1);
       }
-      transitions.unshift('step_1');
+      transitions.unshift(...targets);
     }
 
     // All active step states can be halted
@@ -200,7 +242,16 @@ export class WorkflowEngine {
       // Validate transition
       const definition = instance.serviceDefinition
         .definition as unknown as ServiceDefinitionJson;
-      const validTransitions = this.getValidTransitions(currentState, definition);
+      const mergedMetadata = {
+        ...((instance.metadata as Record<string, unknown>) || {}),
+        ...(request.metadata || {}),
+      };
+      const context = buildWorkflowContext(instance, mergedMetadata);
+      const validTransitions = this.getValidTransitions(
+        currentState,
+        definition,
+        context,
+      );
 
       if (!validTransitions.includes(request.newState)) {
         return {
@@ -219,6 +270,19 @@ export class WorkflowEngine {
         currentStepIndex = parseInt(stepMatch[1], 10) - 1; // 0-indexed
       }
 
+      // Record a finished parallel step so the group can join later
+      let metadata: unknown = request.metadata ? mergedMetadata : instance.metadata;
+      const fromStep = currentState.match(/^step_(\d+)$/);
+      if (fromStep && request.newState !== 'halted') {
+        const fromNum = parseInt(fromStep[1], 10);
+        if (definition.steps[fromNum - 1]?.parallelGroup) {
+          metadata = {
+            ...mergedMetadata,
+            [PARALLEL_COMPLETED_KEY]: [...(context.completedSteps ?? []), fromNum],
+          };
+        }
+      }
+
       // Optimistic lock: only update if state still matches what we read
       const updateResult = await tx.serviceInstance.updateMany({
         where: {
@@ -228,12 +292,7 @@ export class WorkflowEngine {
         data: {
           state: request.newState,
           currentStepIndex,
-          metadata: (request.metadata
-            ? {
-                ...((instance.metadata as Record<string, unknown>) || {}),
-                ...request.metadata,
-              }
-            : instance.metadata) as any,
+          metadata: metadata as any,
         },
       });
 
@@ -281,10 +340,15 @@ export class WorkflowEngine {
 
     const definition = instance.serviceDefinition
       .definition as unknown as ServiceDefinitionJson;
-    const stateList = this.buildStateList(definition);
+    const context = buildWorkflowContext(
+      instance,
+      (instance.metadata as Record<string, unknown>) || {},
+    );
+    const stateList = this.buildStateList(definition, context);
     const validTransitions = this.getValidTransitions(
       instance.state,
       definition,
+      context,
     );
 
     return {
@@ -311,6 +375,147 @@ export class WorkflowEngine {
   }
 }
 
+// ============================================================
+// Step Guards & Parallel Groups
+// ============================================================
+
+interface StageMember {
+  stepNum: number; // 1-based, matches step_N
+  applicable: boolean;
+  optional: boolean;
+}
+
+interface Stage {
+  parallel: boolean;
+  members: StageMember[];
+}
+
+/**
+ * Group steps into stages: a run of consecutive steps sharing a
+ * parallelGroup forms one parallel stage, every other step is its own stage.
+ */
+function buildStages(
+  definition: ServiceDefinitionJson,
+  data: Record<string, unknown>,
+): Stage[] {
+  const stages: Stage[] = [];
+  let previousGroup: string | undefined;
+
+  definition.steps.forEach((step, i) => {
+    const member: StageMember = {
+      stepNum: i + 1,
+      applicable: evaluateGuards(step, data),
+      optional: step.optional === true,
+    };
+    const group = step.parallelGroup;
+    if (group && group === previousGroup) {
+      stages[stages.length - 1].members.push(member);
+    } else {
+      stages.push({ parallel: !!group, members: [member] });
+    }
+    previousGroup = group;
+  });
+
+  return stages;
+}
+
+/**
+ * States reachable when entering stage `from`. Stages with no applicable
+ * steps are passed over; fully optional stages may also be skipped.
+ */
+function entryTargets(stages: Stage[], from: number): string[] {
+  const targets: string[] = [];
+  for (let i = from; i < stages.length; i++) {
+    const applicable = stages[i].members.filter((m) => m.applicable);
+    if (applicable.length === 0) continue;
+
+    // A sequential stage has one member; a parallel one can start anywhere
+    for (const m of applicable) targets.push(`step_${m.stepNum}`);
+    if (!applicable.every((m) => m.optional)) return targets;
+  }
+  targets.push('completed');
+  return targets;
+}
+
+/**
+ * Evaluate all guards of a step. Steps without guards always apply.
+ */
+export function evaluateGuards(
+  step: ServiceStep,
+  data: Record<string, unknown>,
+): boolean {
+  return (step.guards ?? []).every((guard) => evaluateGuard(guard, data));
+}
+
+function evaluateGuard(guard: StepGuard, data: Record<string, unknown>): boolean {
+  const actual = guard.field
+    .split('.')
+    .reduce<unknown>(
+      (obj, key) =>
+        obj && typeof obj === 'object'
+          ? (obj as Record<string, unknown>)[key]
+          : undefined,
+      data,
+    );
+  const expected = guard.value;
+
+  switch (guard.operator) {
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual as string | number);
+    case 'not_in':
+      return !Array.isArray(expected) || !expected.includes(actual as string | number);
+    case 'gt':
+      return typeof actual === 'number' && actual > Number(expected);
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(expected);
+    case 'lt':
+      return typeof actual === 'number' && actual < Number(expected);
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(expected);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build guard data from a service instance: property columns first,
+ * metadata on top so request-specific answers can refine them.
+ */
+function buildWorkflowContext(
+  instance: {
+    propertyType?: string | null;
+    propertyValuePaise?: bigint | null;
+    propertyCity?: string | null;
+    propertyLocality?: string | null;
+    cityId?: string;
+  },
+  metadata: Record<string, unknown>,
+): WorkflowContext {
+  const completed = metadata[PARALLEL_COMPLETED_KEY];
+  return {
+    data: {
+      propertyType: instance.propertyType ?? undefined,
+      propertyValuePaise:
+        instance.propertyValuePaise != null
+          ? Number(instance.propertyValuePaise)
+          : undefined,
+      propertyCity: instance.propertyCity ?? undefined,
+      propertyLocality: instance.propertyLocality ?? undefined,
+      cityId: instance.cityId,
+      ...metadata,
+    },
+    completedSteps: Array.isArray(completed)
+      ? completed.filter((n): n is number => typeof n === 'number')
+      : [],
+  };
+}
+
 /**
  * Generate the list of all active step states for queries.
  * Returns ['in_progress', 'step_1', 'step_2', ... 'step_20']
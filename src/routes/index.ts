@@ -16,6 +16,7 @@ import { CorporateAuditService } from '../domains/franchise/corporate-audit.serv
 // Analytics domain services
 import { AnalyticsService } from '../domains/analytics/analytics.service';
 import { FeatureUsageService } from '../domains/analytics/feature-usage.service';
+import { ProductAnalyticsService } from '../domains/analytics/product-analytics.service';
 import { ExportService } from '../domains/analytics/export.service';
 import { BigQueryPipelineService } from '../domains/analytics/bigquery-pipeline.service';
 
@@ -35,6 +36,7 @@ import { createAdminDashboardController } from '../domains/admin/admin-dashboard
 import { createCommissionConfigController } from '../domains/admin/commission-config.controller';
 import { createAnalyticsController } from '../domains/analytics/analytics.controller';
 import { createExportController } from '../domains/analytics/export.controller';
+import { createReportSubscriptionController } from '../domains/reports/report-subscription.controller';
 import { createFeatureUsageController } from '../domains/analytics/feature-usage.controller';
 import { createBigQueryPipelineController } from '../domains/analytics/bigquery-pipeline.controller';
 
@@ -74,13 +76,19 @@ import { serviceInstanceRoutes } from '../domains/services/service-instance.cont
 // Documents (Stories 6.2–6.14)
 import { DocumentsService } from '../domains/documents/documents.service';
 import { documentsRoutes } from '../domains/documents/documents.controller';
+import { auditQueryRoutes } from '../domains/documents/audit-query.controller';
+import { VaultShareService } from '../domains/documents/vault-share.service';
+import { vaultShareRoutes } from '../domains/documents/vault-share.controller';
 
 // Agent domain (Stories 3-3, 3-5, 3-13)
 import { AgentTaskService } from '../domains/agents/agent-task.service';
+import { AgentSyncService } from '../domains/agents/agent-sync.service';
 import { ChecklistService } from '../domains/agents/checklist.service';
 import { CashCollectionService } from '../domains/agents/cash-collection.service';
 import { AgentAssignmentService } from '../domains/agents/agent-assignment.service';
 import { agentTaskRoutes } from '../domains/agents/agent-task.controller';
+import { AgentItineraryService } from '../domains/agents/agent-itinerary.service';
+import { agentItineraryRoutes } from '../domains/agents/agent-itinerary.controller';
 import { createAgentDashboardController } from '../domains/agents/agent-dashboard.controller';
 import { checklistRoutes } from '../domains/agents/checklist.controller';
 import { cashCollectionRoutes } from '../domains/agents/cash-collection.controller';
@@ -93,6 +101,8 @@ import { createReferralRouter } from '../domains/referrals/referral.router';
 // Payment domain (Stories 4.1, 4.2, 4.13)
 import { createPaymentController } from '../domains/payments/payment.controller';
 import { createRefundController } from '../domains/payments/refund.controller';
+import { createTaxInvoiceController } from '../domains/payments/tax-invoice.controller';
+import { createLedgerController } from '../domains/ledger/ledger.controller';
 import { createPricingController } from '../domains/payments/pricing.controller';
 import { RazorpayClient } from '../core/integrations/razorpay.client';
 
@@ -103,6 +113,8 @@ import supportRouter from '../domains/support/support.controller';
 // Dispute domain (Story 3-17)
 import { disputeRoutes } from '../domains/agents/dispute.controller';
 import { DisputeService } from '../domains/agents/dispute.service';
+import { GpsVerificationService } from '../domains/agents/gps-verification.service';
+import { gpsVerificationRoutes } from '../domains/agents/gps-verification.controller';
 
 // Training domain (Story 3-18)
 import { trainingRoutes } from '../domains/agents/training.controller';
@@ -130,6 +142,9 @@ import { nriPaymentDashboardRoutes } from '../domains/ops/nri-payment-dashboard.
 
 // Cash reconciliation API (Story 4.8)
 import { createCashReconciliationApiController } from '../domains/payments/cash-reconciliation-api.controller';
+import { createReconciliationController } from '../domains/payments/reconciliation.controller';
+import { createPaymentDisputeController } from '../domains/payments/payment-dispute.controller';
+import { createInstalmentPlanController } from '../domains/payments/instalment-plan.controller';
 
 // Franchise territories (Story 8.X)
 import { createTerritoryController } from '../domains/franchise/territory.controller';
@@ -159,11 +174,15 @@ export interface ServiceContainer {
   corporateAuditService: CorporateAuditService;
   analyticsService: AnalyticsService;
   featureUsageService: FeatureUsageService;
+  productAnalyticsService: ProductAnalyticsService;
   exportService: ExportService;
   bigQueryPipelineService: BigQueryPipelineService;
 }
 
-export function createServiceContainer(prisma: PrismaClient): ServiceContainer {
+export function createServiceContainer(
+  prisma: PrismaClient,
+  boss?: any, // PgBoss instance - namespace import cannot be used as type
+): ServiceContainer {
   return {
     cityService: new CityService(prisma),
     cityServiceFeeService: new CityServiceFeeService(prisma),
@@ -177,8 +196,9 @@ export function createServiceContainer(prisma: PrismaClient): ServiceContainer {
     corporateAuditService: new CorporateAuditService(prisma),
     analyticsService: new AnalyticsService(prisma),
     featureUsageService: new FeatureUsageService(prisma),
-    exportService: new ExportService(prisma),
-    bigQueryPipelineService: new BigQueryPipelineService(prisma),
+    productAnalyticsService: new ProductAnalyticsService(prisma),
+    exportService: new ExportService(prisma, boss ?? null),
+    bigQueryPipelineService: new BigQueryPipelineService(prisma, boss ?? null),
   };
 }
 
@@ -214,11 +234,16 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
   router.use('/franchise-revenue', createFranchiseRevenueController(services.franchiseRevenueService));
 
   // Stories 14-9, 14-10a/b/c, 14-11: Analytics
-  router.use('/analytics', createAnalyticsController(services.analyticsService));
+  router.use('/analytics', createAnalyticsController(services.analyticsService, services.productAnalyticsService));
 
   // Story 14-13: Exports
   router.use('/exports', createExportController(services.exportService));
 
+  // Scheduled recurring reports
+  if (prismaInstance) {
+    router.use('/report-subscriptions', createReportSubscriptionController(prismaInstance, boss ?? null));
+  }
+
   // Story 14-15: Training Modules
   router.use('/training-modules', createTrainingModuleController(services.trainingModuleService));
 
@@ -270,8 +295,13 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
   // Stories 6.2–6.14: Document Management
   if (prismaInstance) {
     const documentService = new DocumentsService(prismaInstance, boss ?? null);
+    // Vault share links (mount BEFORE /documents so /:id does not catch 'shares')
+    router.use('/documents/shares', vaultShareRoutes(new VaultShareService(prismaInstance, boss ?? null)));
     router.use('/documents', documentsRoutes(documentService));
 
+    // Story 6.13: Document audit trail and version history (ops only)
+    router.use('/audit', auditQueryRoutes(prismaInstance));
+
     // Story 6.11: Stakeholder Management
     const stakeholderService = new StakeholderService(prismaInstance, boss ?? null);
     router.use('/stakeholders', stakeholderRoutes(stakeholderService));
@@ -303,8 +333,13 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
     const checklistService = new ChecklistService(prismaInstance, boss ?? null);
     const cashCollectionService = new CashCollectionService(prismaInstance, boss ?? null);
     const agentAssignmentService = new AgentAssignmentService(prismaInstance, boss ?? null);
-    router.use('/agents/tasks', agentTaskRoutes(agentTaskService, prismaInstance));
+    const agentSyncService = new AgentSyncService(prismaInstance, boss ?? null);
+    router.use('/agents/tasks', agentTaskRoutes(agentTaskService, prismaInstance, agentSyncService));
     router.use('/agents/assignments', agentAssignmentRoutes(agentAssignmentService));
+    router.use(
+      '/agents/itinerary',
+      agentItineraryRoutes(new AgentItineraryService(prismaInstance), prismaInstance),
+    );
     router.use('/agents/checklists', checklistRoutes(checklistService));
     router.use('/agents/cash', cashCollectionRoutes(cashCollectionService));
 
@@ -312,6 +347,10 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
     const disputeService = new DisputeService(prismaInstance, boss ?? null);
     router.use('/agents/disputes', disputeRoutes(disputeService));
 
+    // GPS evidence geofence verification and ops review
+    const gpsVerificationService = new GpsVerificationService(prismaInstance, boss ?? null);
+    router.use('/agents/gps-verification', gpsVerificationRoutes(gpsVerificationService));
+
     // Story 3-18: Agent Training
     const trainingService = new TrainingService(prismaInstance);
     router.use('/agents/training', trainingRoutes(trainingService));
@@ -341,6 +380,9 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
     router.use('/payments', createPaymentController(prismaInstance, razorpay));
     router.use('/payments', createRefundController(prismaInstance, razorpay));
     router.use('/refunds', createRefundController(prismaInstance, razorpay));
+    router.use('/tax-invoices', createTaxInvoiceController(prismaInstance));
+    router.use('/instalment-plans', createInstalmentPlanController(prismaInstance, razorpay, boss ?? null));
+    router.use('/ledger', createLedgerController(prismaInstance));
 
     // Story 4.4: Pricing Calculation (P2-4)
     router.use('/pricing', createPricingController(prismaInstance));
@@ -363,6 +405,12 @@ export function createApiRouter(services: ServiceContainer, prismaInstance?: Pri
 
     // Story 4.8: Cash Reconciliation API
     router.use('/cash/reconciliation', createCashReconciliationApiController(prismaInstance));
+
+    // Daily cash runs and Razorpay settlement reconciliation
+    router.use('/reconciliation', createReconciliationController(prismaInstance));
+
+    // Razorpay chargebacks and evidence packs
+    router.use('/payment-disputes', createPaymentDisputeController(prismaInstance, boss ?? null));
   }
 
   // Story 8.X: Franchise Territories
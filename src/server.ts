@@ -23,6 +23,16 @@ import { prisma } from './shared/prisma/client';
 import { createApiRouter, createServiceContainer } from './routes';
 import { registerEpic13Routes, registerEpic13Jobs } from './domains/epic13-routes';
 import { registerCommissionAndPayoutJobs } from './shared/queue/jobs/register-commission-jobs';
+import { registerAgentItineraryJobs } from './domains/agents/agent-itinerary.job';
+import { registerGpsVerificationJob } from './domains/agents/gps-verification.job';
+import { registerNotificationDeferralJob } from './domains/notifications/notification-deferral.job';
+import { registerTaxInvoiceSweepJob } from './domains/payments/tax-invoice-sweep.job';
+import { registerLedgerSweepJob } from './domains/ledger/ledger-sweep.job';
+import { registerPaymentDisputeDeadlineJob } from './domains/payments/payment-dispute-deadline.job';
+import { registerInstalmentPlanJob } from './domains/payments/instalment-plan.job';
+import { registerExportJobs } from './domains/analytics/export.job';
+import { registerReportSubscriptionJob } from './domains/reports/report-subscription.job';
+import { registerBigQuerySyncJobs } from './shared/queue/jobs/bigquery-sync.job';
 import { errorHandler } from './middleware/error-handler';
 import { authenticate } from './middleware/authenticate';
 import { requestId } from './middleware/request-id';
@@ -278,6 +288,62 @@ try {
   logger.error({ err }, 'Epic 1 auth routes failed to register — auth endpoints unavailable');
 }
 
+// ============================================================
+// Email bounce webhook — signed by the mail relay, mounted BEFORE
+// authenticated routes
+// ============================================================
+import { createEmailWebhookController } from './domains/notifications/email-webhook.controller';
+try {
+  app.use('/api/v1/webhooks/email', createEmailWebhookController(prisma as unknown as PrismaClient));
+  logger.info('Email bounce webhook registered');
+} catch (err) {
+  logger.error({ err }, 'Email bounce webhook failed to register');
+}
+
+// ============================================================
+// Signed download links for the local file storage driver —
+// the signature is the credential, so mounted BEFORE authenticated routes
+// ============================================================
+import { getFileStorage, LocalFileStorage } from './shared/storage/file-storage';
+import { createLocalFileController } from './shared/storage/local-file.controller';
+const fileStorage = getFileStorage();
+if (fileStorage instanceof LocalFileStorage) {
+  app.use('/api/v1/files', createLocalFileController(fileStorage));
+  logger.info('Local file download route registered');
+}
+
+// ============================================================
+// Public verification of signed PDFs (QR code links) —
+// mounted BEFORE authenticated routes
+// ============================================================
+import { DocumentSigningService } from './shared/signing/document-signing.service';
+import { createVerificationController } from './shared/signing/verification.controller';
+import { getDocumentSigner } from './shared/signing/document-signer';
+// Outside the try: a production boot without a signing key must fail
+const documentSigner = getDocumentSigner();
+try {
+  app.use('/api/v1/verify', createVerificationController(new DocumentSigningService(prisma as unknown as PrismaClient, documentSigner)));
+  logger.info('Signed document verification routes registered');
+} catch (err) {
+  logger.error({ err }, 'Signed document verification routes failed to register');
+}
+
+// ============================================================
+// Vault share links opened by recipients without an account —
+// the link token is the credential, so mounted BEFORE authenticated routes
+// ============================================================
+import { VaultShareService, vaultShareGrantSecret } from './domains/documents/vault-share.service';
+import { createSharedVaultController } from './domains/documents/vault-share.controller';
+// Outside the try: a production boot without the grant secret must fail
+vaultShareGrantSecret();
+try {
+  app.use(/^\/api\/v1\/shared\/[^/]+\/(otp|unlock)$/, authLimiter);
+  app.use('/api/v1/shared', createSharedVaultController(new VaultShareService(prisma as unknown as PrismaClient, boss)));
+  logger.info('Vault share link routes registered');
+} catch (err) {
+  logger.error({ err }, 'Vault share link routes failed to register');
+}
+
 // ============================================================
 // API Routes (v1) — all require authentication
 // Routes are mounted synchronously so they register before the
@@ -286,7 +352,7 @@ try {
 let services: ReturnType<typeof createServiceContainer> | undefined;
 
 try {
-  services = createServiceContainer(prisma as unknown as PrismaClient);
+  services = createServiceContainer(prisma as unknown as PrismaClient, boss);
   app.use('/api/v1', createApiRouter(services, prisma as unknown as PrismaClient, boss));
   logger.info('API v1 routes registered');
 } catch (err) {
@@ -362,6 +428,16 @@ const bossReadyPromise = boss.start().then(async () => {
   await boss.createQueue('cash.receipt-recorded');
   await registerEpic13Jobs(boss, prisma as unknown as PrismaClient);
   await registerCommissionAndPayoutJobs(boss, prisma as unknown as PrismaClient);
+  await registerAgentItineraryJobs(boss, prisma as unknown as PrismaClient);
+  await registerGpsVerificationJob(boss, prisma as unknown as PrismaClient);
+  await registerNotificationDeferralJob(boss, prisma as unknown as PrismaClient);
+  await registerTaxInvoiceSweepJob(boss, prisma as unknown as PrismaClient);
+  await registerLedgerSweepJob(boss, prisma as unknown as PrismaClient);
+  await registerPaymentDisputeDeadlineJob(boss, prisma as unknown as PrismaClient);
+  await registerInstalmentPlanJob(boss, prisma as unknown as PrismaClient);
+  await registerExportJobs(boss, prisma as unknown as PrismaClient);
+  await registerReportSubscriptionJob(boss, prisma as unknown as PrismaClient);
+  await registerBigQuerySyncJobs(boss, prisma as unknown as PrismaClient);
   logger.info('PgBoss background jobs now active');
 }).catch((err: unknown) => {
   logger.error({ err }, 'Failed to start PgBoss — background jobs will not work');
@@ -15,6 +15,35 @@ const envSchema = z.object({
   FIREBASE_CLIENT_EMAIL: z.string().optional(),
   FIREBASE_PRIVATE_KEY: z.string().optional(),
 
+  // Generated files (exports). 'local' writes under FILE_STORAGE_LOCAL_DIR and
+  // serves HMAC-signed links from API_BASE_URL; use it in development only.
+  FILE_STORAGE_DRIVER: z.enum(['firebase', 'local']).default('firebase'),
+  FILE_STORAGE_LOCAL_DIR: z.string().default('.storage'),
+  FILE_STORAGE_SIGNING_SECRET: z.string().default(''),
+  API_BASE_URL: z.string().default('http://localhost:3000'),
+
+  // Analytics warehouse sync. 'local' appends NDJSON files under
+  // BIGQUERY_LOCAL_SINK_DIR instead of writing to BigQuery.
+  BIGQUERY_PROJECT_ID: z.string().optional(),
+  BIGQUERY_DATASET: z.string().default('property_legal_agent'),
+  BIGQUERY_SINK: z.enum(['bigquery', 'local']).default('bigquery'),
+  BIGQUERY_LOCAL_SINK_DIR: z.string().default('.analytics'),
+  // Key for hashing PII columns; keep it stable or hashed values stop joining
+  BIGQUERY_PII_SALT: z.string().default(''),
+
+  // Document OCR. 'auto' uses Azure Document Intelligence when configured and
+  // the local text-layer engine otherwise; cities can override it in configData.
+  OCR_PROVIDER: z.enum(['auto', 'azure', 'local']).default('auto'),
+
+  // Signing of generated PDFs (POAs, receipts, invoices, reports). PEM private
+  // key (Ed25519, RSA or EC); after a rotation list the old public keys,
+  // comma-separated, so earlier documents keep verifying.
+  DOCUMENT_SIGNING_KEY_PATH: z.string().default(''),
+  DOCUMENT_SIGNING_RETIRED_KEY_PATHS: z.string().default(''),
+
+  // Signs access grants issued once a protected vault share link is unlocked
+  VAULT_SHARE_SECRET: z.string().default(''),
+
   // WhatsApp Business API (Story 7-4)
   WHATSAPP_PHONE_NUMBER_ID: z.string().default(''),
   WHATSAPP_ACCESS_TOKEN: z.string().default(''),
@@ -31,6 +60,17 @@ const envSchema = z.object({
   SMS_SENDER_ID: z.string().default('PROPLA'),
   SMS_BASE_URL: z.string().default('https://api.msg91.com/api/v5'),
 
+  // Email over SMTP. Point at a local sink (e.g. Mailpit on 1025) in development.
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+  SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  EMAIL_FROM: z.string().default('Pravesh <no-reply@pravesh.in>'),
+  // Shared secret for signed bounce/complaint webhooks
+  EMAIL_WEBHOOK_SECRET: z.string().default(''),
+
   // Monitoring (Story 7-8)
   SLACK_DEVOPS_WEBHOOK_URL: z.string().optional(),
 
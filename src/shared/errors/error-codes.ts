@@ -23,6 +23,7 @@ export const BUSINESS_INSUFFICIENT_TRANSACTIONS = 'BUSINESS_INSUFFICIENT_TRANSAC
 export const BUSINESS_EXPORT_TOO_LARGE = 'BUSINESS_EXPORT_TOO_LARGE';
 export const BUSINESS_TRAINING_SCORE_TOO_LOW = 'BUSINESS_TRAINING_SCORE_TOO_LOW';
 export const BUSINESS_AUDIT_INVALID_STATUS = 'BUSINESS_AUDIT_INVALID_STATUS';
+export const BUSINESS_ANALYTICS_DEFINITION_NOT_FOUND = 'BUSINESS_ANALYTICS_DEFINITION_NOT_FOUND';
 
 // System errors (500)
 export const SYSTEM_INTERNAL_ERROR = 'SYSTEM_INTERNAL_ERROR';
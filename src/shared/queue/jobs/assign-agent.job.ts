@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { scoreAgents } from '../../../domains/agents/agent-scoring.service';
+import type { ServiceDefinitionJson } from '../../../domains/services/service-definition.types';
 import { logger } from '../../utils/logger';
 
 export const ASSIGN_AGENT_JOB = 'assign-agent';
@@ -13,7 +14,7 @@ export interface AssignAgentPayload {
  * Register the assign-agent pg-boss job.
  * AC1: Runs every 5 minutes via cron AND immediately upon new service request.
  * AC4: Assignment within Prisma transaction.
- * AC5: Queues notification after successful assignment.
+ * AC5: Queues notification and an itinerary re-plan after successful assignment.
  * AC6: Alerts ops when no agent available.
  * AC7: Logs all assignment decisions.
  * AC8: Idempotent - skips already-assigned requests.
@@ -38,6 +39,7 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
 
       const pendingInstances = await prisma.serviceInstance.findMany({
         where: whereClause,
+        include: { serviceDefinition: { select: { definition: true } } },
         orderBy: { createdAt: 'asc' },
       });
 
@@ -63,7 +65,14 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
           instance.cityId,
           instance.propertyLat ?? 0,
           instance.propertyLng ?? 0,
+          {
+            serviceDefinition: instance.serviceDefinition
+              .definition as unknown as ServiceDefinitionJson,
+            customerId: instance.customerId,
+          },
         );
+        // Full breakdown (weights, per-factor scores, filtered agents) for explainability
+        const scoringSnapshot = JSON.parse(JSON.stringify(result));
 
         if (result.selectedAgentId) {
           // AC4: Assign within transaction
@@ -84,7 +93,7 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
                 toState: 'assigned',
                 changedBy: 'system:assign-agent',
                 reason: result.reason,
-                metadata: JSON.parse(JSON.stringify({ candidates: result.candidates })),
+                metadata: scoringSnapshot,
               },
             });
 
@@ -99,7 +108,7 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
                   assignedAgentId: result.selectedAgentId,
                   assignedBy: 'system:assign-agent',
                   assignmentMethod: 'auto',
-                  scoringSnapshot: JSON.parse(JSON.stringify({ candidates: result.candidates })),
+                  scoringSnapshot,
                   reason: result.reason,
                   cityId: instance.cityId,
                 },
@@ -119,6 +128,12 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
             },
           );
 
+          // Fit the new task into the agent's day plan
+          await boss.send('agent.itinerary-replan', {
+            agentId: result.selectedAgentId,
+            reason: 'task_added',
+          });
+
           logger.info(
             {
               instanceId: instance.id,
@@ -136,7 +151,7 @@ export function registerAssignAgentJob(boss: any, prisma: PrismaClient) {
               toState: instance.state, // no change
               changedBy: 'system:assign-agent',
               reason: `No agent available: ${result.reason}`,
-              metadata: JSON.parse(JSON.stringify({ candidates: result.candidates })),
+              metadata: scoringSnapshot,
             },
           });
 
@@ -1,9 +1,14 @@
-import { BigQueryPipelineService } from '../../../domains/analytics/bigquery-pipeline.service';
+import { PrismaClient } from '@prisma/client';
+import {
+  BIGQUERY_BACKFILL_QUEUE,
+  BigQueryPipelineService,
+} from '../../../domains/analytics/bigquery-pipeline.service';
 import { logger } from '../../utils/logger';
 
 /**
  * Story 14-14: BigQuery sync job
- * Runs hourly via pg-boss to sync PostgreSQL to BigQuery
+ * Runs hourly via pg-boss to sync PostgreSQL to BigQuery, and runs
+ * backfills requested from the pipeline API (bigquery.backfill).
  */
 export function createBigQuerySyncHandler(pipelineService: BigQueryPipelineService) {
   return async () => {
@@ -29,4 +34,28 @@ export function createBigQuerySyncHandler(pipelineService: BigQueryPipelineServi
   };
 }
 
+export const BIGQUERY_SYNC_QUEUE = 'bigquery.sync';
 export const BIGQUERY_SYNC_SCHEDULE = '30 * * * *'; // 30 minutes past every hour
+
+export async function registerBigQuerySyncJobs(
+  boss: any, // PgBoss instance - namespace import cannot be used as type
+  prisma: PrismaClient,
+): Promise<void> {
+  const pipelineService = new BigQueryPipelineService(prisma, boss);
+
+  await boss.createQueue(BIGQUERY_SYNC_QUEUE);
+  await boss.work(BIGQUERY_SYNC_QUEUE, createBigQuerySyncHandler(pipelineService));
+  await boss.schedule(BIGQUERY_SYNC_QUEUE, BIGQUERY_SYNC_SCHEDULE, {}, {
+    tz: 'Asia/Kolkata',
+  });
+
+  await boss.createQueue(BIGQUERY_BACKFILL_QUEUE);
+  await boss.work(
+    BIGQUERY_BACKFILL_QUEUE,
+    async (job: { data: { tableName: string; from: string; to: string } }) => {
+      const { tableName, from, to } = job.data;
+      const result = await pipelineService.backfill(tableName, new Date(from), new Date(to));
+      logger.info({ tableName, from, to, recordCount: result.recordCount }, '[BigQuerySync] Backfill completed');
+    },
+  );
+}
@@ -3,8 +3,10 @@
 // AiVerificationService is loaded dynamically inside the handler to avoid
 // crashing at import time when @azure/ai-form-recognizer is not installed.
 import { getFirestore } from 'firebase-admin/firestore';
+import { PrismaClient } from '@prisma/client';
 import { logger } from '../../utils/logger';
 import { prisma } from '../../prisma/client';
+import { DocumentConsistencyService } from '../../../domains/documents/document-consistency.service.js';
 
 export const DOCUMENT_VERIFY_JOB = 'document.ai-verify';
 
@@ -18,11 +20,12 @@ interface DocumentVerifyPayload {
 /**
  * Handles AI verification of uploaded documents.
  * 1. Downloads document from Firebase Storage
- * 2. Sends to Azure Cognitive Services for OCR
+ * 2. Runs OCR with the city's provider (Azure, or the local text-layer engine)
  * 3. Classifies document type, checks completeness, legibility
  * 4. Updates document record with verification results
  * 5. Pushes real-time status via Firestore
  * 6. Routes low-confidence results to ops review queue
+ * 7. Re-checks the instance's documents against each other
  */
 export async function handleDocumentVerify(job: { data: DocumentVerifyPayload }) {
   const { documentId, storagePath, expectedType, serviceInstanceId } = job.data;
@@ -45,9 +48,17 @@ export async function handleDocumentVerify(job: { data: DocumentVerifyPayload })
       },
     });
 
+    const doc = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { cityId: true },
+    });
+    const cityId = doc?.cityId || '';
+
     // Dynamic import: only loads @azure/ai-form-recognizer when a job actually runs
     const { AiVerificationService } = await import('../../../domains/documents/ai-verification.service.js');
-    const aiService = new AiVerificationService();
+    const { ocrProviderForCity } = await import('../../../domains/documents/ocr-provider.js');
+    const ocr = await ocrProviderForCity(prisma as unknown as PrismaClient, cityId);
+    const aiService = new AiVerificationService(ocr);
     const result = await aiService.verifyDocument({ id: documentId, storagePath, docType: expectedType });
 
     // Update document with verification results (AC1, AC2)
@@ -77,18 +88,13 @@ export async function handleDocumentVerify(job: { data: DocumentVerifyPayload })
     // Route low-confidence results to ops review queue (AC4, Story 6.6)
     // OpsReviewTask has: type, resourceId, resourceType, status, metadata, cityId
     if (result.overall_status === 'needs_review' || result.confidence_score < 70) {
-      // Fetch document to get cityId
-      const doc = await prisma.document.findUnique({
-        where: { id: documentId },
-        select: { cityId: true },
-      });
       await prisma.opsReviewTask.create({
         data: {
           type: 'document_review',
           resourceId: documentId,
           resourceType: 'document',
           status: 'pending',
-          cityId: doc?.cityId || '',
+          cityId,
           metadata: {
             serviceInstanceId,
             reason: result.confidence_score < 70
@@ -100,6 +106,19 @@ export async function handleDocumentVerify(job: { data: DocumentVerifyPayload })
       });
     }
 
+    // Cross-document consistency (owner names, survey numbers) — a failure
+    // here must not fail the verification itself
+    if (result.extracted_fields) {
+      try {
+        await new DocumentConsistencyService(prisma as unknown as PrismaClient).reviewServiceInstance(
+          serviceInstanceId,
+          cityId,
+        );
+      } catch (error) {
+        logger.warn({ documentId, serviceInstanceId, error }, '[document-verify] Consistency check failed');
+      }
+    }
+
     // Log job completion
     const duration = Date.now() - startTime;
     await prisma.jobExecutionLog.updateMany({
@@ -117,6 +136,7 @@ export async function handleDocumentVerify(job: { data: DocumentVerifyPayload })
         documentId,
         status: result.overall_status,
         confidenceScore: result.confidence_score,
+        provider: result.provider,
         durationMs: duration
       },
       '[document-verify] Document verified'
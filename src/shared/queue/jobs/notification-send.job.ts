@@ -1,8 +1,10 @@
 /**
  * Story 7-2: Notification Send Job
- * Stub for ChannelHandler interface used by FCM, SMS, and WhatsApp adapters.
+ * Stub for ChannelHandler interface used by FCM, SMS, WhatsApp and email adapters.
  */
 
+import type { EmailAttachment } from '../../../core/integrations/smtp.client';
+
 export interface ChannelHandler {
   send(params: {
     userId: string;
@@ -10,5 +12,8 @@ export interface ChannelHandler {
     body: string;
     contextData: Record<string, string>;
     whatsappTemplateName?: string | null;
+    // Email only
+    html?: string | null;
+    attachments?: EmailAttachment[];
   }): Promise<{ messageId: string; status: string }>;
 }
@@ -0,0 +1,226 @@
+/**
+ * Tests for signed PDFs
+ * Covers: keys loaded from files, verification block, hash and signature
+ *         checks, tampering, revocation on supersede, key rotation, QR codes,
+ *         no per-process key fallback in production
+ */
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { PrismaClient } from '@prisma/client';
+import { DocumentSigner, splitSignedPdf } from '../document-signer';
+import { DocumentSigningService } from '../document-signing.service';
+import { encodeQr } from '../qr-code';
+import { readTextLayer } from '../../../domains/documents/text-layer';
+
+function createMockPrisma() {
+  const records: any[] = [];
+  const prisma: any = {
+    signedDocument: {
+      create: vi.fn(async ({ data }: any) => {
+        const row = { issuedAt: new Date(), revokedAt: null, revocationReason: null, supersededById: null, ...data };
+        records.push(row);
+        return row;
+      }),
+      findUnique: vi.fn(async ({ where }: any) => records.find((r) => r.id === where.id) ?? null),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const rows = records.filter(
+          (r) => r.kind === where.kind && r.sourceId === where.sourceId && r.revokedAt === null && r.id !== where.id.not,
+        );
+        rows.forEach((r) => Object.assign(r, data));
+        return { count: rows.length };
+      }),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+  return { prisma: prisma as PrismaClient, records };
+}
+
+function writeKeyPair(dir: string, name: string, type: 'ed25519' | 'rsa') {
+  const { privateKey, publicKey } = type === 'rsa'
+    ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : crypto.generateKeyPairSync('ed25519');
+  const privatePath = path.join(dir, `${name}.key`);
+  const publicPath = path.join(dir, `${name}.pub`);
+  fs.writeFileSync(privatePath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+  fs.writeFileSync(publicPath, publicKey.export({ type: 'spki', format: 'pem' }));
+  return { privatePath, publicPath };
+}
+
+const RECEIPT = { kind: 'payment_receipt' as const, sourceId: 'pay-1', title: 'Payment receipt pay-1' };
+
+describe('DocumentSigningService', () => {
+  let keyDir: string;
+  let signer: DocumentSigner;
+
+  beforeAll(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signing-'));
+    signer = DocumentSigner.fromFiles(writeKeyPair(keyDir, 'current', 'ed25519').privatePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  test('stamps a verification QR and link, and signs the rendered bytes', async () => {
+    const { prisma, records } = createMockPrisma();
+    const service = new DocumentSigningService(prisma, signer);
+
+    const signed = await service.renderSignedPdf(RECEIPT, (doc) => doc.text('Amount: INR 1180.00'));
+
+    const { content, trailer } = splitSignedPdf(signed.pdf);
+    expect(trailer).toMatchObject({ id: signed.id, keyId: signer.keyId, algorithm: 'ed25519' });
+    expect(signer.verify(crypto.createHash('sha256').update(content).digest(), trailer!.signature, signer.keyId)).toBe(true);
+
+    const text = readTextLayer(content).join('\n');
+    expect(text).toContain('Amount: INR 1180.00');
+    expect(text).toContain(signed.verifyUrl);
+    expect(signed.verifyUrl).toMatch(new RegExp(`/api/v1/verify/${signed.id}$`));
+
+    expect(records[0]).toMatchObject({ id: signed.id, kind: 'payment_receipt', sourceId: 'pay-1', sha256: signed.sha256 });
+  });
+
+  test('streamed documents verify like rendered ones', async () => {
+    const { prisma, records } = createMockPrisma();
+    const service = new DocumentSigningService(prisma, signer);
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const signed = await service.streamSignedPdf({ kind: 'data_export', sourceId: 'job-1', title: 'Export' }, out, async (doc) => {
+      for (let i = 0; i < 200; i++) doc.text(`Row ${i}`);
+    });
+
+    const file = Buffer.concat(chunks);
+    expect(records[0]).toMatchObject({ id: signed.id, kind: 'data_export', sha256: signed.sha256 });
+    await expect(service.verifyFile(file)).resolves.toMatchObject({ signature_valid: true, verified: true });
+    expect(readTextLayer(splitSignedPdf(file).content).join('\n')).toContain(signed.verifyUrl);
+  });
+
+  test('confirms an untouched copy and catches an edited one', async () => {
+    const { prisma } = createMockPrisma();
+    const service = new DocumentSigningService(prisma, signer);
+    const signed = await service.renderSignedPdf(RECEIPT, (doc) => doc.text('Amount: INR 1180.00'));
+
+    await expect(service.verifyFile(signed.pdf)).resolves.toMatchObject({
+      status: 'valid',
+      hash_matches: true,
+      signature_valid: true,
+      verified: true,
+    });
+    await expect(service.verify(signed.id, { sha256: signed.sha256.toUpperCase() })).resolves.toMatchObject({
+      hash_matches: true,
+      signature_valid: null,
+      verified: true,
+    });
+
+    const edited = Buffer.from(signed.pdf);
+    const at = edited.indexOf('/Producer');
+    edited.write('/Pr0ducer', at, 'latin1');
+    await expect(service.verifyFile(edited)).resolves.toMatchObject({
+      hash_matches: false,
+      signature_valid: false,
+      verified: false,
+    });
+
+    await expect(service.verifyFile(splitSignedPdf(signed.pdf).content)).rejects.toMatchObject({ code: 'SIGNATURE_MISSING' });
+    await expect(service.verify(crypto.randomUUID())).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test('revokes the copies of a superseded document', async () => {
+    const { prisma } = createMockPrisma();
+    const service = new DocumentSigningService(prisma, signer);
+    const poa = { kind: 'poa' as const, title: 'POWER OF ATTORNEY' };
+    const first = await service.renderSignedPdf({ ...poa, sourceId: 'poa-1' }, (doc) => doc.text('v1'));
+
+    const second = await service.renderSignedPdf(
+      { ...poa, sourceId: 'poa-2', supersedes: [{ kind: 'poa', sourceId: 'poa-1' }] },
+      (doc) => doc.text('v2'),
+    );
+
+    await expect(service.verifyFile(first.pdf)).resolves.toMatchObject({
+      status: 'revoked',
+      revocation_reason: 'superseded',
+      superseded_by_id: second.id,
+      hash_matches: true,
+      verified: false,
+    });
+    await expect(service.verifyFile(second.pdf)).resolves.toMatchObject({ status: 'valid', verified: true });
+  });
+
+  test('documents signed before a key rotation keep verifying with the retired key', async () => {
+    const { prisma } = createMockPrisma();
+    const old = writeKeyPair(keyDir, 'old', 'rsa');
+    const oldSigner = DocumentSigner.fromFiles(old.privatePath);
+    const signed = await new DocumentSigningService(prisma, oldSigner).renderSignedPdf(RECEIPT, (doc) => doc.text('x'));
+
+    const rotated = DocumentSigner.fromFiles(writeKeyPair(keyDir, 'new', 'ed25519').privatePath, [old.publicPath]);
+    const withoutOldKey = DocumentSigner.fromFiles(writeKeyPair(keyDir, 'other', 'ed25519').privatePath);
+
+    expect(oldSigner.algorithm).toBe('rsa-sha256');
+    expect(rotated.publicKeys().map((k) => k.keyId)).toEqual([rotated.keyId, oldSigner.keyId]);
+    await expect(new DocumentSigningService(prisma, rotated).verifyFile(signed.pdf)).resolves.toMatchObject({
+      signature_valid: true,
+    });
+    await expect(new DocumentSigningService(prisma, withoutOldKey).verifyFile(signed.pdf)).resolves.toMatchObject({
+      signature_valid: false,
+    });
+  });
+});
+
+describe('encodeQr', () => {
+  test('picks the smallest version for the payload and draws finder patterns', () => {
+    const qr = encodeQr(`http://localhost:3000/api/v1/verify/${crypto.randomUUID()}`);
+
+    expect(qr).toMatchObject({ version: 5, size: 37 });
+    // Top-left finder: dark ring, light ring, dark 3x3 core
+    expect(qr.modules[0].slice(0, 8)).toEqual([true, true, true, true, true, true, true, false]);
+    expect(qr.modules[1].slice(0, 7)).toEqual([true, false, false, false, false, false, true]);
+    expect(qr.modules[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true]);
+    // Dark module beside the bottom-left finder
+    expect(qr.modules[qr.size - 8][8]).toBe(true);
+  });
+
+  test('writes level M format information for the chosen mask', () => {
+    const qr = encodeQr('Hello, world!');
+    const levelM = [
+      '101010000010010', '101000100100101', '101111001111100', '101101101001011',
+      '100010111111001', '100000011001110', '100111110010111', '100101010100000',
+    ];
+    const row = [0, 1, 2, 3, 4, 5, 7, 8].map((x) => qr.modules[8][x]);
+    const column = [7, 5, 4, 3, 2, 1, 0].map((y) => qr.modules[y][8]);
+    const bits = [...row, ...column].map((b) => (b ? '1' : '0')).join('');
+
+    expect(qr.version).toBe(1);
+    expect(bits).toBe(levelM[qr.mask]);
+    expect(() => encodeQr('x'.repeat(214))).toThrow('exceeds version 10 capacity');
+  });
+});
+
+describe('getDocumentSigner', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  async function load(nodeEnv: string) {
+    const { env } = await import('../../config/env');
+    env.NODE_ENV = nodeEnv as typeof env.NODE_ENV;
+    env.DOCUMENT_SIGNING_KEY_PATH = '';
+    return import('../document-signer');
+  }
+
+  test('refuses to sign with a per-process key in production', async () => {
+    const { getDocumentSigner } = await load('production');
+
+    expect(() => getDocumentSigner()).toThrow('DOCUMENT_SIGNING_KEY_PATH is required in production');
+  });
+
+  test('falls back to a per-process key outside production', async () => {
+    const { getDocumentSigner, DocumentSigner: Signer } = await load('test');
+
+    expect(getDocumentSigner()).toBeInstanceOf(Signer);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Signing keys for platform-generated PDFs.
+ *
+ * A signed PDF is the rendered file followed by one trailing comment line
+ * (after %%EOF, which PDF readers ignore):
+ *
+ *   %PLA-Signature id=<signed document id> key=<key id> alg=<algorithm> sig=<base64>
+ *
+ * The signature covers the SHA-256 digest of every byte before that line, so
+ * anyone holding our public key can check a copy offline.
+ */
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+
+export type SignatureAlgorithm = 'ed25519' | 'rsa-sha256' | 'ecdsa-sha256';
+
+export interface PublicSigningKey {
+  keyId: string;
+  algorithm: SignatureAlgorithm;
+  publicKeyPem: string;
+}
+
+export interface SignatureTrailer {
+  id: string;
+  keyId: string;
+  algorithm: SignatureAlgorithm;
+  signature: string;
+}
+
+const TRAILER_MARKER = '\n%PLA-Signature ';
+
+function algorithmFor(key: KeyObject): SignatureAlgorithm {
+  switch (key.asymmetricKeyType) {
+    case 'ed25519':
+      return 'ed25519';
+    case 'rsa':
+      return 'rsa-sha256';
+    case 'ec':
+      return 'ecdsa-sha256';
+    default:
+      throw new Error(`Unsupported document signing key type: ${key.asymmetricKeyType}`);
+  }
+}
+
+function keyIdFor(publicKey: KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export class DocumentSigner {
+  readonly keyId: string;
+  readonly algorithm: SignatureAlgorithm;
+  private readonly verifyKeys = new Map<string, KeyObject>();
+
+  /**
+   * @param privateKey current signing key
+   * @param retiredPublicKeys keys that signed earlier documents; still
+   *   accepted when verifying after a rotation
+   */
+  constructor(private readonly privateKey: KeyObject, retiredPublicKeys: KeyObject[] = []) {
+    const publicKey = crypto.createPublicKey(privateKey);
+    this.algorithm = algorithmFor(privateKey);
+    this.keyId = keyIdFor(publicKey);
+    for (const key of [publicKey, ...retiredPublicKeys]) this.verifyKeys.set(keyIdFor(key), key);
+  }
+
+  static fromPem(privateKeyPem: string, retiredPublicKeyPems: string[] = []): DocumentSigner {
+    return new DocumentSigner(
+      crypto.createPrivateKey(privateKeyPem),
+      retiredPublicKeyPems.map((pem) => crypto.createPublicKey(pem)),
+    );
+  }
+
+  /** Loads PEM keys from disk (private key first, then retired public keys). */
+  static fromFiles(privateKeyPath: string, retiredPublicKeyPaths: string[] = []): DocumentSigner {
+    return DocumentSigner.fromPem(
+      fs.readFileSync(privateKeyPath, 'utf8'),
+      retiredPublicKeyPaths.map((p) => fs.readFileSync(p, 'utf8')),
+    );
+  }
+
+  /** Signs a SHA-256 digest; returns the signature in base64. */
+  sign(digest: Buffer): string {
+    const hash = this.algorithm === 'ed25519' ? null : 'sha256';
+    return crypto.sign(hash, digest, this.privateKey).toString('base64');
+  }
+
+  /** False for unknown keys as well as bad signatures. */
+  verify(digest: Buffer, signature: string, keyId: string): boolean {
+    const key = this.verifyKeys.get(keyId);
+    if (!key) return false;
+    const hash = algorithmFor(key) === 'ed25519' ? null : 'sha256';
+    try {
+      return crypto.verify(hash, digest, key, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  publicKeys(): PublicSigningKey[] {
+    return [...this.verifyKeys.entries()].map(([keyId, key]) => ({
+      keyId,
+      algorithm: algorithmFor(key),
+      publicKeyPem: key.export({ type: 'spki', format: 'pem' }).toString(),
+    }));
+  }
+}
+
+export function signatureTrailer(trailer: SignatureTrailer): Buffer {
+  return Buffer.from(
+    `${TRAILER_MARKER}id=${trailer.id} key=${trailer.keyId} alg=${trailer.algorithm} sig=${trailer.signature}\n`,
+  );
+}
+
+/**
+ * Separates a signed PDF into the signed bytes and its trailer. Files
+ * without a trailer come back whole with `trailer: null`.
+ */
+export function splitSignedPdf(file: Buffer): { content: Buffer; trailer: SignatureTrailer | null } {
+  const at = file.lastIndexOf(TRAILER_MARKER);
+  if (at < 0) return { content: file, trailer: null };
+
+  const fields = Object.fromEntries(
+    file
+      .subarray(at + TRAILER_MARKER.length)
+      .toString('latin1')
+      .trim()
+      .split(' ')
+      .map((pair) => [pair.slice(0, pair.indexOf('=')), pair.slice(pair.indexOf('=') + 1)]),
+  );
+  if (!fields.id || !fields.key || !fields.alg || !fields.sig) return { content: file, trailer: null };
+
+  return {
+    content: file.subarray(0, at),
+    trailer: { id: fields.id, keyId: fields.key, algorithm: fields.alg as SignatureAlgorithm, signature: fields.sig },
+  };
+}
+
+let defaultSigner: DocumentSigner | null = null;
+
+export function getDocumentSigner(): DocumentSigner {
+  if (!defaultSigner) {
+    if (env.DOCUMENT_SIGNING_KEY_PATH) {
+      const retired = env.DOCUMENT_SIGNING_RETIRED_KEY_PATHS.split(',').map((p) => p.trim()).filter(Boolean);
+      defaultSigner = DocumentSigner.fromFiles(env.DOCUMENT_SIGNING_KEY_PATH, retired);
+    } else {
+      // Signatures then stop verifying when the process restarts, so only
+      // dev and test runs may fall back to a throwaway key
+      if (env.NODE_ENV === 'production') {
+        throw new Error(
+          'DOCUMENT_SIGNING_KEY_PATH is required in production. ' +
+          'Generate a key with: openssl genpkey -algorithm ed25519 -out signing-key.pem'
+        );
+      }
+      logger.warn('DOCUMENT_SIGNING_KEY_PATH not set; signing generated PDFs with a per-process key');
+      defaultSigner = new DocumentSigner(crypto.generateKeyPairSync('ed25519').privateKey);
+    }
+  }
+  return defaultSigner;
+}
@@ -0,0 +1,280 @@
+/**
+ * Renders platform-generated PDFs with a verification block (QR code, link
+ * and document ID), signs them and records each signed copy, so a copy can
+ * later be checked against our records and revoked once superseded.
+ */
+import crypto from 'crypto';
+import { Transform, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { PrismaClient, SignedDocument } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { env } from '../config/env';
+import { BusinessError } from '../errors/business-error';
+import { DocumentSigner, PublicSigningKey, getDocumentSigner, signatureTrailer, splitSignedPdf } from './document-signer';
+import { encodeQr } from './qr-code';
+
+export type SignedDocumentKind =
+  | 'poa'
+  | 'payment_receipt'
+  | 'tax_invoice'
+  | 'credit_note'
+  | 'wire_transfer_instructions'
+  | 'earnings_report'
+  | 'scheduled_report'
+  | 'data_export';
+
+export interface SignedDocumentRef {
+  kind: SignedDocumentKind;
+  sourceId: string;
+}
+
+export interface SignedDocumentSource extends SignedDocumentRef {
+  title: string;
+  cityId?: string | null;
+  /** Earlier documents this one replaces; their signed copies are revoked */
+  supersedes?: SignedDocumentRef[];
+}
+
+export interface SignedPdf {
+  id: string;
+  pdf: Buffer;
+  sha256: string;
+  verifyUrl: string;
+}
+
+export interface SignedDocumentVerification {
+  id: string;
+  kind: string;
+  title: string;
+  issued_at: Date;
+  status: 'valid' | 'revoked';
+  revoked_at: Date | null;
+  revocation_reason: string | null;
+  superseded_by_id: string | null;
+  key_id: string;
+  algorithm: string;
+  sha256: string;
+  /** null when no file or hash was presented */
+  hash_matches: boolean | null;
+  /** null unless a signed file was presented */
+  signature_valid: boolean | null;
+  /** The presented copy is authentic and still in force */
+  verified: boolean | null;
+}
+
+const ISSUER = 'Property Legal Agent';
+const QR_SIZE_PT = 72;
+
+export function verificationUrl(id: string): string {
+  return `${env.API_BASE_URL.replace(/\/$/, '')}/api/v1/verify/${id}`;
+}
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+/**
+ * Draws the verification block after the content, on a new page if the
+ * current one has no room left.
+ */
+function stampVerification(doc: any, id: string, verifyUrl: string, keyId: string): void {
+  const qr = encodeQr(verifyUrl);
+  const quietZone = 4;
+  const moduleSize = QR_SIZE_PT / (qr.size + quietZone * 2);
+
+  doc.moveDown();
+  if (doc.y + QR_SIZE_PT > doc.page.height - doc.page.margins.bottom) doc.addPage();
+  const left = doc.page.margins.left;
+  const top = doc.y;
+
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) doc.rect(left + (x + quietZone) * moduleSize, top + (y + quietZone) * moduleSize, moduleSize, moduleSize);
+    });
+  });
+  doc.fillColor('black').fill();
+
+  const textLeft = left + QR_SIZE_PT + 10;
+  const width = doc.page.width - doc.page.margins.right - textLeft;
+  doc.font('Helvetica').fontSize(8).fillColor('black');
+  doc.text(`Digitally signed by ${ISSUER}. Scan the code or open the link below to verify this copy.`, textLeft, top + 8, { width });
+  doc.text(verifyUrl, { width, link: verifyUrl });
+  doc.text(`Document ID: ${id} | Key: ${keyId}`, { width });
+}
+
+export class DocumentSigningService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly signer: DocumentSigner = getDocumentSigner(),
+  ) {}
+
+  /**
+   * Renders a PDF with `draw`, stamps and signs it, and records the signed
+   * copy. Copies of the documents in `source.supersedes` are revoked.
+   */
+  async renderSignedPdf(
+    source: SignedDocumentSource,
+    draw: (doc: any) => void,
+    options: Record<string, unknown> = { margin: 50 },
+  ): Promise<SignedPdf> {
+    const id = crypto.randomUUID();
+    const verifyUrl = verificationUrl(id);
+
+    const content = await new Promise<Buffer>((resolve, reject) => {
+      const doc = new PDFDocument(options);
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      try {
+        draw(doc);
+        stampVerification(doc, id, verifyUrl, this.signer.keyId);
+      } catch (err) {
+        reject(err);
+        return;
+      }
+      doc.end();
+    });
+
+    const signature = this.signer.sign(sha256(content));
+    const pdf = Buffer.concat([
+      content,
+      signatureTrailer({ id, keyId: this.signer.keyId, algorithm: this.signer.algorithm, signature }),
+    ]);
+    const fileSha256 = sha256(pdf).toString('hex');
+
+    await this.record(id, source, fileSha256, signature);
+    return { id, pdf, sha256: fileSha256, verifyUrl };
+  }
+
+  /**
+   * Like renderSignedPdf, for documents too large to hold in memory: pages
+   * are written to `out` as `draw` produces them and hashed on the way, and
+   * the signature trailer follows once the document ends. Ends `out`.
+   */
+  async streamSignedPdf(
+    source: SignedDocumentSource,
+    out: Writable,
+    draw: (doc: any) => Promise<void>,
+    options: Record<string, unknown> = { margin: 50 },
+  ): Promise<Omit<SignedPdf, 'pdf'>> {
+    const id = crypto.randomUUID();
+    const verifyUrl = verificationUrl(id);
+    const contentHash = crypto.createHash('sha256');
+    const fileHash = crypto.createHash('sha256');
+
+    const doc = new PDFDocument(options);
+    const hashing = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        contentHash.update(chunk);
+        fileHash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+    doc.pipe(hashing).pipe(out, { end: false });
+
+    await draw(doc);
+    stampVerification(doc, id, verifyUrl, this.signer.keyId);
+    doc.end();
+    await finished(hashing);
+
+    const signature = this.signer.sign(contentHash.digest());
+    const trailer = signatureTrailer({ id, keyId: this.signer.keyId, algorithm: this.signer.algorithm, signature });
+    fileHash.update(trailer);
+    out.end(trailer);
+    await finished(out);
+
+    const fileSha256 = fileHash.digest('hex');
+    await this.record(id, source, fileSha256, signature);
+    return { id, sha256: fileSha256, verifyUrl };
+  }
+
+  /**
+   * Checks a signed document. With a file, its hash is compared to our
+   * record and its embedded signature checked; with a bare hash, only the
+   * hash is compared.
+   */
+  async verify(id: string, evidence: { file?: Buffer; sha256?: string } = {}): Promise<SignedDocumentVerification> {
+    const record = await this.prisma.signedDocument.findUnique({ where: { id } });
+    if (!record) {
+      throw new BusinessError('SIGNED_DOCUMENT_NOT_FOUND', 'No document with this ID was issued by us', 404);
+    }
+
+    let hashMatches: boolean | null = null;
+    let signatureValid: boolean | null = null;
+    if (evidence.file) {
+      hashMatches = sha256(evidence.file).toString('hex') === record.sha256;
+      const { content, trailer } = splitSignedPdf(evidence.file);
+      signatureValid = !!trailer
+        && trailer.id === record.id
+        && this.signer.verify(sha256(content), trailer.signature, trailer.keyId);
+    } else if (evidence.sha256) {
+      hashMatches = evidence.sha256.toLowerCase() === record.sha256;
+    }
+
+    return this.toVerification(record, hashMatches, signatureValid);
+  }
+
+  /** Verifies a presented file, finding the record from its embedded signature. */
+  async verifyFile(file: Buffer): Promise<SignedDocumentVerification> {
+    const { trailer } = splitSignedPdf(file);
+    if (!trailer) {
+      throw new BusinessError('SIGNATURE_MISSING', 'This file carries no signature from us', 422);
+    }
+    return this.verify(trailer.id, { file });
+  }
+
+  publicKeys(): PublicSigningKey[] {
+    return this.signer.publicKeys();
+  }
+
+  private async record(id: string, source: SignedDocumentSource, fileSha256: string, signature: string) {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.signedDocument.create({
+        data: {
+          id,
+          kind: source.kind,
+          sourceId: source.sourceId,
+          cityId: source.cityId ?? null,
+          title: source.title,
+          sha256: fileSha256,
+          signature,
+          algorithm: this.signer.algorithm,
+          keyId: this.signer.keyId,
+        },
+      });
+
+      for (const ref of source.supersedes ?? []) {
+        await tx.signedDocument.updateMany({
+          where: { kind: ref.kind, sourceId: ref.sourceId, revokedAt: null, id: { not: id } },
+          data: { revokedAt: new Date(), revocationReason: 'superseded', supersededById: id },
+        });
+      }
+    });
+  }
+
+  private toVerification(
+    record: SignedDocument,
+    hashMatches: boolean | null,
+    signatureValid: boolean | null,
+  ): SignedDocumentVerification {
+    const status = record.revokedAt ? 'revoked' : 'valid';
+    return {
+      id: record.id,
+      kind: record.kind,
+      title: record.title,
+      issued_at: record.issuedAt,
+      status,
+      revoked_at: record.revokedAt,
+      revocation_reason: record.revocationReason,
+      superseded_by_id: record.supersededById,
+      key_id: record.keyId,
+      algorithm: record.algorithm,
+      sha256: record.sha256,
+      hash_matches: hashMatches,
+      signature_valid: signatureValid,
+      verified: hashMatches === null ? null : status === 'valid' && hashMatches && signatureValid !== false,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Public verification of platform-generated PDFs. Mounted before
+ * authentication: banks, buyers and registrars check copies without an account.
+ */
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { BusinessError } from '../errors/business-error';
+import { DocumentSigningService } from './document-signing.service';
+
+const MAX_PDF_SIZE = '20mb';
+
+const verifyQuerySchema = z.object({
+  sha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional(),
+});
+
+export function createVerificationController(signing: DocumentSigningService): Router {
+  const router = Router();
+  const pdfBody = express.raw({ type: ['application/pdf', 'application/octet-stream'], limit: MAX_PDF_SIZE });
+
+  const presentedFile = (req: Request): Buffer => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new BusinessError('VERIFY_FILE_MISSING', 'Send the PDF as the request body (Content-Type: application/pdf)', 400);
+    }
+    return req.body;
+  };
+
+  // GET /api/v1/verify/keys — public keys for offline signature checks
+  router.get('/keys', (_req: Request, res: Response) => {
+    res.json({ success: true, data: signing.publicKeys() });
+  });
+
+  // POST /api/v1/verify — upload a copy; the document is found from its
+  // embedded signature
+  router.post('/', pdfBody, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: await signing.verifyFile(presentedFile(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/v1/verify/:id[?sha256=<hex>] — the link in the QR code
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      const { sha256 } = verifyQuerySchema.parse(req.query);
+      res.json({ success: true, data: await signing.verify(id, { sha256 }) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/v1/verify/:id — upload a copy of a specific document
+  router.post('/:id', pdfBody, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = z.string().uuid().parse(req.params.id);
+      res.json({ success: true, data: await signing.verify(id, { file: presentedFile(req) }) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
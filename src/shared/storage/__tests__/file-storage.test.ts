@@ -0,0 +1,73 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalFileStorage } from '../file-storage';
+
+describe('LocalFileStorage', () => {
+  let rootDir: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalFileStorage(rootDir, 'http://api.test', 'secret');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function parse(url: string) {
+    const query = new URL(url).searchParams;
+    return { path: query.get('path')!, expires: query.get('expires')!, signature: query.get('signature')! };
+  }
+
+  test('signed links verify until they expire', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    const link = parse(await storage.getSignedUrl('exports/a.csv', expiresAt));
+
+    expect(storage.verify(link.path, link.expires, link.signature)).toBe(true);
+    expect(storage.verify(link.path, link.expires, link.signature, new Date(expiresAt.getTime() + 1000))).toBe(false);
+  });
+
+  test('a signature does not carry over to another file or expiry', async () => {
+    const link = parse(await storage.getSignedUrl('exports/a.csv', new Date(Date.now() + 60 * 60 * 1000)));
+
+    expect(storage.verify('exports/b.csv', link.expires, link.signature)).toBe(false);
+    expect(storage.verify(link.path, String(Number(link.expires) + 3600), link.signature)).toBe(false);
+  });
+
+  test('refuses paths outside the storage root', () => {
+    expect(() => storage.createWriteStream('../escape.txt', 'text/plain')).toThrow('Invalid storage path');
+  });
+
+  test('deleting a missing file is not an error', async () => {
+    await expect(storage.delete('exports/missing.csv')).resolves.toBeUndefined();
+  });
+});
+
+describe('getFileStorage', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  async function load(nodeEnv: string) {
+    const { env } = await import('../../config/env');
+    env.NODE_ENV = nodeEnv as typeof env.NODE_ENV;
+    env.FILE_STORAGE_DRIVER = 'local';
+    env.FILE_STORAGE_SIGNING_SECRET = '';
+    return import('../file-storage');
+  }
+
+  test('refuses to sign local file links with a per-process secret in production', async () => {
+    const { getFileStorage } = await load('production');
+
+    expect(() => getFileStorage()).toThrow('FILE_STORAGE_SIGNING_SECRET is required in production');
+  });
+
+  test('falls back to a per-process secret outside production', async () => {
+    const { getFileStorage, LocalFileStorage: Local } = await load('test');
+
+    expect(getFileStorage()).toBeInstanceOf(Local);
+  });
+});
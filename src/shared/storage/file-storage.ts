@@ -0,0 +1,139 @@
+/**
+ * File Storage
+ * Pluggable backend for generated files (exports, reports). Firebase Storage
+ * in production; a local directory for development and tests, with
+ * HMAC-signed download URLs served by the local file controller.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { getStorage } from 'firebase-admin/storage';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+
+export interface FileStorage {
+  /** Opens a write stream; the file is stored once the stream finishes. */
+  createWriteStream(filePath: string, contentType: string): Writable;
+  /** Read-only URL that stops working at `expiresAt`. */
+  getSignedUrl(filePath: string, expiresAt: Date, downloadName?: string): Promise<string>;
+  /** Deletes the file; a file that is already gone is not an error. */
+  delete(filePath: string): Promise<void>;
+}
+
+export class FirebaseFileStorage implements FileStorage {
+  private bucket() {
+    return getStorage().bucket();
+  }
+
+  createWriteStream(filePath: string, contentType: string): Writable {
+    return this.bucket().file(filePath).createWriteStream({ resumable: false, contentType });
+  }
+
+  async getSignedUrl(filePath: string, expiresAt: Date, downloadName?: string): Promise<string> {
+    const [url] = await this.bucket()
+      .file(filePath)
+      .getSignedUrl({
+        version: 'v4',
+        action: 'read',
+        expires: expiresAt,
+        ...(downloadName && { responseDisposition: `attachment; filename="${downloadName}"` }),
+      });
+    return url;
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await this.bucket().file(filePath).delete({ ignoreNotFound: true });
+  }
+}
+
+export class LocalFileStorage implements FileStorage {
+  private readonly rootDir: string;
+
+  constructor(
+    rootDir: string,
+    private readonly baseUrl: string,
+    private readonly signingSecret: string,
+  ) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  createWriteStream(filePath: string, _contentType: string): Writable {
+    const fullPath = this.resolve(filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    return fs.createWriteStream(fullPath);
+  }
+
+  async getSignedUrl(filePath: string, expiresAt: Date, downloadName?: string): Promise<string> {
+    this.resolve(filePath);
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString();
+    const query = new URLSearchParams({
+      path: filePath,
+      expires,
+      ...(downloadName && { name: downloadName }),
+      signature: this.sign(filePath, expires),
+    });
+    return `${this.baseUrl}/api/v1/files?${query.toString()}`;
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await fs.promises.rm(this.resolve(filePath), { force: true });
+  }
+
+  /**
+   * Checks a signed URL's path, expiry (unix seconds) and signature.
+   */
+  verify(filePath: string, expires: string, signature: string, now: Date = new Date()): boolean {
+    if (!/^\d+$/.test(expires) || Number(expires) * 1000 <= now.getTime()) return false;
+    const expected = Buffer.from(this.sign(filePath, expires));
+    const given = Buffer.from(signature);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  createReadStream(filePath: string): Readable {
+    return fs.createReadStream(this.resolve(filePath));
+  }
+
+  private sign(filePath: string, expires: string): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${filePath}\n${expires}`).digest('hex');
+  }
+
+  // Keeps every path inside the storage root
+  private resolve(filePath: string): string {
+    const fullPath = path.resolve(this.rootDir, filePath);
+    if (!fullPath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage path: ${filePath}`);
+    }
+    return fullPath;
+  }
+}
+
+let defaultStorage: FileStorage | null = null;
+
+/**
+ * Storage backend selected by FILE_STORAGE_DRIVER, shared across the process.
+ */
+export function getFileStorage(): FileStorage {
+  if (!defaultStorage) {
+    if (env.FILE_STORAGE_DRIVER === 'local') {
+      let secret = env.FILE_STORAGE_SIGNING_SECRET;
+      if (!secret) {
+        // Links then stop working when the process restarts or reach another
+        // instance, so only dev and test runs may fall back to one
+        if (env.NODE_ENV === 'production') {
+          throw new Error(
+            'FILE_STORAGE_SIGNING_SECRET is required in production with the local storage driver. ' +
+            'Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
+          );
+        }
+        logger.warn('FILE_STORAGE_SIGNING_SECRET not set; using a per-process secret for local file links');
+        secret = crypto.randomBytes(32).toString('hex');
+      }
+      defaultStorage = new LocalFileStorage(env.FILE_STORAGE_LOCAL_DIR, env.API_BASE_URL, secret);
+    } else {
+      defaultStorage = new FirebaseFileStorage();
+    }
+  }
+  return defaultStorage;
+}
@@ -0,0 +1,39 @@
+/**
+ * Serves files from the local storage driver through signed, expiring links.
+ * Mounted before authentication: the signature is the credential.
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { LocalFileStorage } from './file-storage';
+
+export function createLocalFileController(storage: LocalFileStorage): Router {
+  const router = Router();
+
+  // GET /api/v1/files?path=...&expires=...&signature=...[&name=...]
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    const { path: filePath, expires, signature, name } = req.query as Record<string, string | undefined>;
+
+    if (!filePath || !expires || !signature || !storage.verify(filePath, expires, signature)) {
+      res.status(403).json({
+        success: false,
+        error: { code: 'FILE_LINK_INVALID', message: 'Download link is invalid or has expired' },
+      });
+      return;
+    }
+
+    const stream = storage.createReadStream(filePath);
+    stream.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code === 'ENOENT' && !res.headersSent) {
+        res.status(404).json({ success: false, error: { code: 'FILE_NOT_FOUND', message: 'File not found' } });
+        return;
+      }
+      next(err);
+    });
+    stream.once('open', () => {
+      res.attachment(name || path.basename(filePath));
+      stream.pipe(res);
+    });
+  });
+
+  return router;
+}
@@ -422,6 +422,34 @@ const baseOpenApiSpec = {
         },
       },
     },
+    '/api/v1/cities/{id}/sla-calendar': {
+      get: {
+        tags: ['Cities'],
+        summary: 'Get working hours and holiday calendar used for SLA business days',
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+        responses: {
+          '200': { description: 'SLA calendar', content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } } },
+          '404': { $ref: '#/components/responses/NotFound' },
+        },
+      },
+      put: {
+        tags: ['Cities'],
+        summary: 'Update working hours and/or holiday calendar (Super Admin)',
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { type: 'object', properties: { workingHours: { type: 'object' }, holidayCalendar: { type: 'array', items: { type: 'object' } } } } } },
+        },
+        responses: {
+          '200': { description: 'Updated SLA calendar', content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } } },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '403': { $ref: '#/components/responses/Forbidden' },
+          '404': { $ref: '#/components/responses/NotFound' },
+        },
+      },
+    },
     '/api/v1/cities/{id}/deactivate': {
       patch: {
         tags: ['Cities'],
@@ -960,6 +988,30 @@ const baseOpenApiSpec = {
         responses: { '201': { description: 'Pipeline triggered', content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } } } },
       },
     },
+    '/api/v1/bigquery/backfill': {
+      post: {
+        tags: ['BigQuery Pipeline'],
+        summary: 'Re-export a synced table for a date range',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['table', 'from', 'to'],
+                properties: {
+                  table: { type: 'string', example: 'franchise_revenues' },
+                  from: { type: 'string', format: 'date-time' },
+                  to: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+        responses: { '202': { description: 'Backfill queued', content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } } } },
+      },
+    },
 
     // ==================== Dealers (Epic 9) ====================
     '/api/v1/dealers/kyc': {
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distanceToGeofenceMeters,
+  distanceToSegmentKm,
+  pointInPolygon,
+  polygonCentroid,
+} from '../geofence';
+
+// ~110 m square around Hazratganj, Lucknow
+const SQUARE: Array<[number, number]> = [
+  [26.8530, 80.9455],
+  [26.8530, 80.9466],
+  [26.8540, 80.9466],
+  [26.8540, 80.9455],
+];
+
+describe('pointInPolygon', () => {
+  it('detects points inside and outside', () => {
+    expect(pointInPolygon({ lat: 26.8535, lng: 80.946 }, SQUARE)).toBe(true);
+    expect(pointInPolygon({ lat: 26.856, lng: 80.946 }, SQUARE)).toBe(false);
+  });
+});
+
+describe('distanceToGeofenceMeters', () => {
+  it('is 0 inside a radius fence and measures from the edge outside', () => {
+    const fence = { center: { lat: 26.8467, lng: 80.9462 }, radiusMeters: 200 };
+    expect(distanceToGeofenceMeters({ lat: 26.8468, lng: 80.9462 }, fence)).toBe(0);
+
+    // ~1.11 km north of the center
+    const meters = distanceToGeofenceMeters({ lat: 26.8567, lng: 80.9462 }, fence);
+    expect(meters).toBeGreaterThan(880);
+    expect(meters).toBeLessThan(940);
+  });
+
+  it('measures to the nearest polygon edge', () => {
+    expect(distanceToGeofenceMeters({ lat: 26.8535, lng: 80.946 }, { polygon: SQUARE })).toBe(0);
+
+    // 0.001° north of the top edge ≈ 110 m
+    const meters = distanceToGeofenceMeters({ lat: 26.855, lng: 80.946 }, { polygon: SQUARE });
+    expect(meters).toBeGreaterThan(100);
+    expect(meters).toBeLessThan(120);
+  });
+});
+
+describe('distanceToSegmentKm', () => {
+  it('clamps to the segment endpoints', () => {
+    const a = { lat: 26.85, lng: 80.95 };
+    const b = { lat: 26.86, lng: 80.95 };
+    expect(distanceToSegmentKm({ lat: 26.855, lng: 80.95 }, a, b)).toBeCloseTo(0, 5);
+    expect(distanceToSegmentKm({ lat: 26.87, lng: 80.95 }, a, b)).toBeCloseTo(1.106, 2);
+  });
+});
+
+describe('polygonCentroid', () => {
+  it('averages the vertices', () => {
+    const c = polygonCentroid(SQUARE);
+    expect(c.lat).toBeCloseTo(26.8535, 6);
+    expect(c.lng).toBeCloseTo(80.94605, 6);
+  });
+});
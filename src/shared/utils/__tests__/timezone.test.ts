@@ -0,0 +1,47 @@
+/**
+ * Tests for timezone utilities.
+ */
+import { describe, test, expect } from 'vitest';
+import {
+  addDays,
+  hhmmToMinutes,
+  isValidTimezone,
+  zonedParts,
+  zonedTimeToUtc,
+} from '../timezone';
+
+describe('Timezone Utilities', () => {
+  test('isValidTimezone accepts IANA zones only', () => {
+    expect(isValidTimezone('Asia/Kolkata')).toBe(true);
+    expect(isValidTimezone('America/New_York')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+  });
+
+  test('zonedParts gives local date and minutes', () => {
+    // 18:45 UTC is 00:15 next day in IST
+    expect(zonedParts(new Date('2026-10-19T18:45:00.000Z'), 'Asia/Kolkata')).toEqual({
+      date: '2026-10-20',
+      minutes: 15,
+    });
+  });
+
+  test('zonedTimeToUtc converts IST wall time', () => {
+    expect(zonedTimeToUtc('2026-10-20', '08:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2026-10-20T02:30:00.000Z',
+    );
+  });
+
+  test('zonedTimeToUtc follows DST offsets', () => {
+    expect(zonedTimeToUtc('2026-07-01', '09:00', 'Europe/London').toISOString()).toBe(
+      '2026-07-01T08:00:00.000Z',
+    );
+    expect(zonedTimeToUtc('2026-12-01', '09:00', 'Europe/London').toISOString()).toBe(
+      '2026-12-01T09:00:00.000Z',
+    );
+  });
+
+  test('addDays and hhmmToMinutes', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(hhmmToMinutes('22:30')).toBe(1350);
+  });
+});
@@ -0,0 +1,82 @@
+import { haversineDistance } from './haversine';
+
+/**
+ * Geofence geometry helpers for GPS evidence verification.
+ * Polygons are arrays of [lat, lng] vertices. Distances use a local
+ * equirectangular projection, which is accurate at city scale.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export type GeofenceShape =
+  | { center: GeoPoint; radiusMeters: number }
+  | { polygon: Array<[number, number]> };
+
+const KM_PER_DEG_LAT = 110.574;
+
+function kmPerDegLng(lat: number): number {
+  return 111.32 * Math.cos((lat * Math.PI) / 180);
+}
+
+/**
+ * Distance in km from a point to the segment a→b.
+ */
+export function distanceToSegmentKm(p: GeoPoint, a: GeoPoint, b: GeoPoint): number {
+  const lngScale = kmPerDegLng(p.lat);
+  const ax = (a.lng - p.lng) * lngScale;
+  const ay = (a.lat - p.lat) * KM_PER_DEG_LAT;
+  const bx = (b.lng - p.lng) * lngScale;
+  const by = (b.lat - p.lat) * KM_PER_DEG_LAT;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.min(Math.max(-(ax * dx + ay * dy) / lengthSq, 0), 1);
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Ray-casting point-in-polygon test.
+ */
+export function pointInPolygon(p: GeoPoint, polygon: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses =
+      latI > p.lat !== latJ > p.lat &&
+      p.lng < ((lngJ - lngI) * (p.lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Distance in meters from a point to the edge of a geofence; 0 when inside.
+ */
+export function distanceToGeofenceMeters(p: GeoPoint, shape: GeofenceShape): number {
+  if ('radiusMeters' in shape) {
+    const meters = haversineDistance(p.lat, p.lng, shape.center.lat, shape.center.lng) * 1000;
+    return Math.max(meters - shape.radiusMeters, 0);
+  }
+
+  if (pointInPolygon(p, shape.polygon)) return 0;
+  let minKm = Infinity;
+  for (let i = 0, j = shape.polygon.length - 1; i < shape.polygon.length; j = i++) {
+    const a = { lat: shape.polygon[j][0], lng: shape.polygon[j][1] };
+    const b = { lat: shape.polygon[i][0], lng: shape.polygon[i][1] };
+    minKm = Math.min(minKm, distanceToSegmentKm(p, a, b));
+  }
+  return minKm * 1000;
+}
+
+/**
+ * Vertex average of a polygon, used as its reference point.
+ */
+export function polygonCentroid(polygon: Array<[number, number]>): GeoPoint {
+  const lat = polygon.reduce((sum, [v]) => sum + v, 0) / polygon.length;
+  const lng = polygon.reduce((sum, [, v]) => sum + v, 0) / polygon.length;
+  return { lat, lng };
+}
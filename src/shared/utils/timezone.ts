@@ -0,0 +1,66 @@
+/**
+ * IANA timezone helpers built on Intl — no tz database dependency.
+ */
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  minutes: number; // minutes since local midnight
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar date and time-of-day of an instant in a timezone.
+ */
+export function zonedParts(at: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function offsetMs(at: Date, timezone: string): number {
+  const { date, minutes } = zonedParts(at, timezone);
+  const [y, m, d] = date.split('-').map(Number);
+  const localAsUtc = Date.UTC(y, m - 1, d, Math.floor(minutes / 60), minutes % 60);
+  return localAsUtc - Math.floor(at.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * The instant at which the wall clock in `timezone` reads `date` `hhmm`.
+ */
+export function zonedTimeToUtc(date: string, hhmm: string, timezone: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = hhmm.split(':').map(Number);
+  const guess = Date.UTC(y, m - 1, d, hh, mm);
+  // Two passes settle the offset across DST transitions
+  const first = guess - offsetMs(new Date(guess), timezone);
+  return new Date(guess - offsetMs(new Date(first), timezone));
+}
+
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+export function hhmmToMinutes(hhmm: string): number {
+  const [hh, mm] = hhmm.split(':').map(Number);
+  return hh * 60 + mm;
+}
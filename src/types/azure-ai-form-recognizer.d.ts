@@ -8,6 +8,9 @@ declare module '@azure/ai-form-recognizer' {
     beginAnalyzeDocument(modelId: string, document: Buffer | ArrayBuffer): Promise<{
       pollUntilDone(): Promise<{
         pages?: Array<{
+          lines?: Array<{
+            content: string;
+          }>;
           words?: Array<{
             content: string;
             confidence?: number;